@@ -0,0 +1,30 @@
+import { config } from 'dotenv';
+
+// Load environment variables before the storage and blob store modules read them
+config();
+
+/**
+ * Move base64 attachment content out of Postgres into the configured blob store
+ * (ATTACHMENT_STORE / ATTACHMENT_STORAGE_DIR / ATTACHMENT_S3_*). Safe to run repeatedly:
+ * moved rows no longer have inline content, and identical files are stored once.
+ */
+async function runBlobMigration() {
+  const { attachmentContentService } = await import('./src/services/blobs/attachmentContentService');
+  const batchSize = parseInt(process.argv[2] || '50', 10);
+
+  console.log(`🔄 Moving inline attachment content to the blob store (batches of ${batchSize})...`);
+  const result = await attachmentContentService.migrateInlineContent(batchSize);
+
+  console.log(`🎉 Moved ${result.attachments} email attachment(s) and ${result.documents} document result(s)`);
+  if (result.failed > 0) {
+    console.error(`❌ ${result.failed} row(s) could not be moved and keep their inline content`);
+    process.exitCode = 1;
+  }
+}
+
+runBlobMigration()
+  .catch((error) => {
+    console.error('❌ Blob migration failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => process.exit());
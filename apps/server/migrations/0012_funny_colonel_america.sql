@@ -0,0 +1,40 @@
+CREATE TABLE "poll_votes" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"poll_id" integer NOT NULL,
+	"user_id" varchar NOT NULL,
+	"selected_options" text[] NOT NULL,
+	"comment" text,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE TABLE "polls" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"title" text NOT NULL,
+	"description" text,
+	"type" varchar DEFAULT 'single_choice' NOT NULL,
+	"options" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"created_by" varchar NOT NULL,
+	"project_id" integer,
+	"participant_emails" text[] DEFAULT '{}',
+	"is_anonymous" boolean DEFAULT false,
+	"allow_multiple_votes" boolean DEFAULT false,
+	"status" varchar DEFAULT 'active' NOT NULL,
+	"expires_at" timestamp,
+	"closed_at" timestamp,
+	"email_message_id" varchar,
+	"source_email_subject" varchar,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now(),
+	CONSTRAINT "polls_type_check" CHECK (type IN ('single_choice', 'multiple_choice'))
+);
+--> statement-breakpoint
+ALTER TABLE "poll_votes" ADD CONSTRAINT "poll_votes_poll_id_polls_id_fk" FOREIGN KEY ("poll_id") REFERENCES "public"."polls"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "poll_votes" ADD CONSTRAINT "poll_votes_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "polls" ADD CONSTRAINT "polls_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "polls" ADD CONSTRAINT "polls_project_id_projects_id_fk" FOREIGN KEY ("project_id") REFERENCES "public"."projects"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "idx_poll_votes_poll" ON "poll_votes" USING btree ("poll_id");--> statement-breakpoint
+CREATE INDEX "idx_poll_votes_poll_user" ON "poll_votes" USING btree ("poll_id","user_id");--> statement-breakpoint
+CREATE INDEX "idx_polls_created_by" ON "polls" USING btree ("created_by");--> statement-breakpoint
+CREATE INDEX "idx_polls_project" ON "polls" USING btree ("project_id");--> statement-breakpoint
+CREATE INDEX "idx_polls_status" ON "polls" USING btree ("status");--> statement-breakpoint
+CREATE INDEX "idx_polls_message" ON "polls" USING btree ("email_message_id");
\ No newline at end of file
@@ -0,0 +1,27 @@
+CREATE TABLE "email_queue_jobs" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"queue" varchar NOT NULL,
+	"group_key" varchar,
+	"payload" jsonb NOT NULL,
+	"user_id" varchar,
+	"message_id" varchar,
+	"subject" varchar,
+	"sender" varchar,
+	"priority" integer DEFAULT 0 NOT NULL,
+	"status" varchar DEFAULT 'queued' NOT NULL,
+	"attempts" integer DEFAULT 0 NOT NULL,
+	"max_attempts" integer DEFAULT 3 NOT NULL,
+	"run_at" timestamp DEFAULT now() NOT NULL,
+	"locked_by" varchar,
+	"locked_until" timestamp,
+	"last_error" text,
+	"completed_at" timestamp,
+	"dead_lettered_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now(),
+	CONSTRAINT "email_queue_jobs_status_check" CHECK (status IN ('queued', 'processing', 'completed', 'dead_letter'))
+);
+--> statement-breakpoint
+CREATE INDEX "idx_email_queue_jobs_claim" ON "email_queue_jobs" USING btree ("queue","status","run_at");--> statement-breakpoint
+CREATE INDEX "idx_email_queue_jobs_group" ON "email_queue_jobs" USING btree ("queue","group_key","status");--> statement-breakpoint
+CREATE INDEX "idx_email_queue_jobs_message" ON "email_queue_jobs" USING btree ("message_id");
\ No newline at end of file
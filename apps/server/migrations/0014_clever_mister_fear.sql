@@ -0,0 +1,17 @@
+CREATE TABLE "agent_routing_decisions" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"processed_email_id" integer,
+	"message_id" varchar NOT NULL,
+	"sender" varchar NOT NULL,
+	"subject" varchar,
+	"selected_agent" varchar,
+	"confidence" integer DEFAULT 0 NOT NULL,
+	"outcome" varchar NOT NULL,
+	"reason" text,
+	"scores" jsonb DEFAULT '[]'::jsonb,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "agent_routing_decisions" ADD CONSTRAINT "agent_routing_decisions_processed_email_id_processed_emails_id_fk" FOREIGN KEY ("processed_email_id") REFERENCES "public"."processed_emails"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "idx_agent_routing_decisions_message" ON "agent_routing_decisions" USING btree ("message_id");--> statement-breakpoint
+CREATE INDEX "idx_agent_routing_decisions_agent" ON "agent_routing_decisions" USING btree ("selected_agent","created_at");
\ No newline at end of file
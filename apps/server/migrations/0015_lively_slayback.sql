@@ -0,0 +1,18 @@
+CREATE TABLE "faq_knowledge_chunks" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"organization_id" integer NOT NULL,
+	"source_type" varchar NOT NULL,
+	"source_id" integer NOT NULL,
+	"source_title" varchar NOT NULL,
+	"section" varchar,
+	"chunk_index" integer DEFAULT 0 NOT NULL,
+	"content" text NOT NULL,
+	"term_frequencies" jsonb DEFAULT '{}'::jsonb NOT NULL,
+	"term_count" integer DEFAULT 0 NOT NULL,
+	"source_updated_at" timestamp,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "faq_knowledge_chunks" ADD CONSTRAINT "faq_knowledge_chunks_organization_id_faq_organizations_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."faq_organizations"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "idx_faq_knowledge_chunks_org" ON "faq_knowledge_chunks" USING btree ("organization_id");--> statement-breakpoint
+CREATE INDEX "idx_faq_knowledge_chunks_source" ON "faq_knowledge_chunks" USING btree ("organization_id","source_type","source_id");
\ No newline at end of file
@@ -0,0 +1,23 @@
+CREATE TABLE "faq_inquiries" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"organization_id" integer NOT NULL,
+	"asker_email" varchar NOT NULL,
+	"subject" varchar,
+	"question" text NOT NULL,
+	"message_id" varchar,
+	"status" varchar DEFAULT 'pending_review' NOT NULL,
+	"confidence" integer DEFAULT 0 NOT NULL,
+	"draft_answer" text,
+	"approved_answer" text,
+	"approved_by" varchar,
+	"approved_at" timestamp,
+	"faq_entry_id" integer,
+	"follow_up_sent_at" timestamp,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+ALTER TABLE "faq_inquiries" ADD CONSTRAINT "faq_inquiries_organization_id_faq_organizations_id_fk" FOREIGN KEY ("organization_id") REFERENCES "public"."faq_organizations"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "faq_inquiries" ADD CONSTRAINT "faq_inquiries_approved_by_users_id_fk" FOREIGN KEY ("approved_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "faq_inquiries" ADD CONSTRAINT "faq_inquiries_faq_entry_id_faq_entries_id_fk" FOREIGN KEY ("faq_entry_id") REFERENCES "public"."faq_entries"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "idx_faq_inquiries_org_status" ON "faq_inquiries" USING btree ("organization_id","status");
\ No newline at end of file
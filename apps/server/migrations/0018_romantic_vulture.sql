@@ -0,0 +1,5 @@
+ALTER TABLE "tasks" ADD COLUMN "recurrence_rule" jsonb;--> statement-breakpoint
+ALTER TABLE "tasks" ADD COLUMN "recurrence_series_id" integer;--> statement-breakpoint
+ALTER TABLE "tasks" ADD COLUMN "recurrence_index" integer;--> statement-breakpoint
+ALTER TABLE "tasks" ADD COLUMN "recurrence_processed_at" timestamp;--> statement-breakpoint
+CREATE INDEX "idx_tasks_recurrence_series" ON "tasks" USING btree ("recurrence_series_id");
\ No newline at end of file
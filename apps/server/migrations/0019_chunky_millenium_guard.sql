@@ -0,0 +1,16 @@
+CREATE TABLE "task_activities" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"task_id" integer NOT NULL,
+	"user_id" varchar,
+	"type" varchar NOT NULL,
+	"source" varchar DEFAULT 'web' NOT NULL,
+	"body" text,
+	"from_value" varchar,
+	"to_value" varchar,
+	"email_message_id" varchar,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "task_activities" ADD CONSTRAINT "task_activities_task_id_tasks_id_fk" FOREIGN KEY ("task_id") REFERENCES "public"."tasks"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "task_activities" ADD CONSTRAINT "task_activities_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "idx_task_activities_task" ON "task_activities" USING btree ("task_id","created_at");
\ No newline at end of file
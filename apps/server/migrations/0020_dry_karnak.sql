@@ -0,0 +1,8 @@
+ALTER TABLE "document_analysis_results" ADD COLUMN "search_vector" "tsvector" GENERATED ALWAYS AS (setweight(to_tsvector('english', coalesce("filename", '')), 'A') || setweight(to_tsvector('english', coalesce("extracted_text", '')), 'B')) STORED;--> statement-breakpoint
+ALTER TABLE "processed_emails" ADD COLUMN "search_vector" "tsvector" GENERATED ALWAYS AS (setweight(to_tsvector('english', coalesce("subject", '')), 'A') || setweight(to_tsvector('english', coalesce("body", '')), 'B')) STORED;--> statement-breakpoint
+ALTER TABLE "t5t_submissions" ADD COLUMN "search_vector" "tsvector" GENERATED ALWAYS AS (setweight(to_tsvector('english', coalesce("subject", '')), 'A') || setweight(to_tsvector('english', coalesce("raw_content", '')), 'B')) STORED;--> statement-breakpoint
+ALTER TABLE "tasks" ADD COLUMN "search_vector" "tsvector" GENERATED ALWAYS AS (setweight(to_tsvector('english', coalesce("title", '')), 'A') || setweight(to_tsvector('english', coalesce("description", '')), 'B')) STORED;--> statement-breakpoint
+CREATE INDEX "idx_document_analysis_search" ON "document_analysis_results" USING gin ("search_vector");--> statement-breakpoint
+CREATE INDEX "idx_processed_emails_search" ON "processed_emails" USING gin ("search_vector");--> statement-breakpoint
+CREATE INDEX "idx_t5t_search" ON "t5t_submissions" USING gin ("search_vector");--> statement-breakpoint
+CREATE INDEX "idx_tasks_search" ON "tasks" USING gin ("search_vector");
\ No newline at end of file
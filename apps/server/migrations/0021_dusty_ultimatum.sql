@@ -0,0 +1,3 @@
+ALTER TABLE "tasks" ADD COLUMN "source_attachment_id" integer;--> statement-breakpoint
+ALTER TABLE "tasks" ADD CONSTRAINT "tasks_source_attachment_id_email_attachments_id_fk" FOREIGN KEY ("source_attachment_id") REFERENCES "public"."email_attachments"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "idx_tasks_source_attachment" ON "tasks" USING btree ("source_attachment_id");
\ No newline at end of file
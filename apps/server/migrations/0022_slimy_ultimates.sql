@@ -0,0 +1,18 @@
+CREATE TABLE "quarantined_attachments" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"message_id" varchar NOT NULL,
+	"sender" varchar NOT NULL,
+	"source" varchar NOT NULL,
+	"filename" varchar NOT NULL,
+	"content_type" varchar,
+	"size" integer NOT NULL,
+	"file_hash" varchar NOT NULL,
+	"threat" varchar NOT NULL,
+	"scanner" varchar NOT NULL,
+	"content" text,
+	"notified_at" timestamp,
+	"created_at" timestamp DEFAULT now()
+);
+--> statement-breakpoint
+CREATE INDEX "idx_quarantined_attachments_message" ON "quarantined_attachments" USING btree ("message_id");--> statement-breakpoint
+CREATE INDEX "idx_quarantined_attachments_hash" ON "quarantined_attachments" USING btree ("file_hash");
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "email_attachments" ADD COLUMN "file_hash" varchar;--> statement-breakpoint
+CREATE INDEX "idx_email_attachments_file_hash" ON "email_attachments" USING btree ("file_hash");
\ No newline at end of file
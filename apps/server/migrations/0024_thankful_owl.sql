@@ -0,0 +1,36 @@
+CREATE TABLE "ai_usage_events" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"model" varchar NOT NULL,
+	"agent" varchar NOT NULL,
+	"operation" varchar NOT NULL,
+	"company_id" integer,
+	"user_id" varchar,
+	"input_tokens" integer DEFAULT 0 NOT NULL,
+	"output_tokens" integer DEFAULT 0 NOT NULL,
+	"cache_creation_tokens" integer DEFAULT 0 NOT NULL,
+	"cache_read_tokens" integer DEFAULT 0 NOT NULL,
+	"latency_ms" integer NOT NULL,
+	"cost_usd" numeric(12, 6) DEFAULT '0' NOT NULL,
+	"success" boolean DEFAULT true NOT NULL,
+	"error" text,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "company_ai_budgets" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"company_id" integer NOT NULL,
+	"soft_limit_usd" numeric(10, 2),
+	"hard_limit_usd" numeric(10, 2),
+	"soft_limit_notified_at" timestamp,
+	"updated_by" varchar,
+	"created_at" timestamp DEFAULT now(),
+	"updated_at" timestamp DEFAULT now(),
+	CONSTRAINT "company_ai_budgets_company_id_unique" UNIQUE("company_id")
+);
+--> statement-breakpoint
+ALTER TABLE "ai_usage_events" ADD CONSTRAINT "ai_usage_events_company_id_companies_id_fk" FOREIGN KEY ("company_id") REFERENCES "public"."companies"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "ai_usage_events" ADD CONSTRAINT "ai_usage_events_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "company_ai_budgets" ADD CONSTRAINT "company_ai_budgets_company_id_companies_id_fk" FOREIGN KEY ("company_id") REFERENCES "public"."companies"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "company_ai_budgets" ADD CONSTRAINT "company_ai_budgets_updated_by_users_id_fk" FOREIGN KEY ("updated_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "idx_ai_usage_events_company_created" ON "ai_usage_events" USING btree ("company_id","created_at");--> statement-breakpoint
+CREATE INDEX "idx_ai_usage_events_created" ON "ai_usage_events" USING btree ("created_at");
\ No newline at end of file
@@ -0,0 +1,6 @@
+ALTER TABLE "user_linked_accounts" ADD COLUMN "access_token" text;--> statement-breakpoint
+ALTER TABLE "user_linked_accounts" ADD COLUMN "refresh_token" text;--> statement-breakpoint
+ALTER TABLE "user_linked_accounts" ADD COLUMN "token_expires_at" timestamp;--> statement-breakpoint
+ALTER TABLE "user_linked_accounts" ADD COLUMN "scope" text;--> statement-breakpoint
+ALTER TABLE "user_linked_accounts" ADD COLUMN "needs_reauth" boolean DEFAULT false;--> statement-breakpoint
+ALTER TABLE "user_linked_accounts" ADD COLUMN "auth_error" text;
\ No newline at end of file
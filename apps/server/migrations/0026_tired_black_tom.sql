@@ -0,0 +1,2 @@
+ALTER TABLE "notification_preferences" ADD COLUMN "timezone" varchar DEFAULT 'UTC';--> statement-breakpoint
+ALTER TABLE "notification_preferences" ADD COLUMN "weekly_digest_last_sent_at" timestamp;
\ No newline at end of file
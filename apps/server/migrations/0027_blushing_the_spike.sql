@@ -0,0 +1,13 @@
+CREATE TABLE "task_due_reminders" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"task_id" integer NOT NULL,
+	"user_id" varchar NOT NULL,
+	"offset_key" varchar NOT NULL,
+	"due_date" timestamp NOT NULL,
+	"sent_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "unique_task_due_reminder" UNIQUE("task_id","user_id","offset_key","due_date")
+);
+--> statement-breakpoint
+ALTER TABLE "task_due_reminders" ADD CONSTRAINT "task_due_reminders_task_id_tasks_id_fk" FOREIGN KEY ("task_id") REFERENCES "public"."tasks"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "task_due_reminders" ADD CONSTRAINT "task_due_reminders_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "idx_tasks_due_date" ON "tasks" USING btree ("due_date");
\ No newline at end of file
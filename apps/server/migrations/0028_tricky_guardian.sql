@@ -0,0 +1,6 @@
+ALTER TABLE "processed_emails" drop column "search_vector";--> statement-breakpoint
+ALTER TABLE "processed_emails" ADD COLUMN "search_vector" "tsvector" GENERATED ALWAYS AS (setweight(to_tsvector('english', coalesce("subject", '')), 'A') || setweight(to_tsvector('english', coalesce(left("body", 100000), '')), 'B')) STORED;--> statement-breakpoint
+ALTER TABLE "t5t_submissions" drop column "search_vector";--> statement-breakpoint
+ALTER TABLE "t5t_submissions" ADD COLUMN "search_vector" "tsvector" GENERATED ALWAYS AS (setweight(to_tsvector('english', coalesce("subject", '')), 'A') || setweight(to_tsvector('english', coalesce(left("raw_content", 100000), '')), 'B')) STORED;--> statement-breakpoint
+CREATE INDEX "idx_processed_emails_search" ON "processed_emails" USING gin ("search_vector");--> statement-breakpoint
+CREATE INDEX "idx_t5t_search" ON "t5t_submissions" USING gin ("search_vector");
\ No newline at end of file
@@ -0,0 +1,5 @@
+DROP INDEX "idx_poll_votes_poll_user";--> statement-breakpoint
+ALTER TABLE "poll_votes" ADD COLUMN "multiple_allowed" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+UPDATE "poll_votes" SET "multiple_allowed" = true FROM "polls" WHERE "polls"."id" = "poll_votes"."poll_id" AND "polls"."allow_multiple_votes";--> statement-breakpoint
+DELETE FROM "poll_votes" v USING "poll_votes" earlier WHERE NOT v."multiple_allowed" AND earlier."poll_id" = v."poll_id" AND earlier."user_id" = v."user_id" AND earlier."id" < v."id";--> statement-breakpoint
+CREATE UNIQUE INDEX "idx_poll_votes_poll_user" ON "poll_votes" USING btree ("poll_id","user_id") WHERE NOT "poll_votes"."multiple_allowed";
\ No newline at end of file
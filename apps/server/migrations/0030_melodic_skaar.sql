@@ -0,0 +1 @@
+ALTER TABLE "company_ai_budgets" ADD COLUMN "hard_limit_notified_at" timestamp;
\ No newline at end of file
@@ -0,0 +1,31 @@
+import { config } from 'dotenv';
+
+// Load environment variables before the storage and encryption modules read them
+config();
+
+/**
+ * Encrypt mailbox passwords and OAuth tokens still stored in plaintext and re-encrypt the ones
+ * written with a retired key of ENCRYPTION_KEYS using the active key. Run after adding a new key in
+ * front of the ring; once it reports no failures the old key can be removed. Safe to run repeatedly.
+ */
+async function runCredentialKeyRotation() {
+  const { credentialRotationService } = await import('./src/services/credentialRotationService');
+  const { encryptionService } = await import('./src/services/encryptionService');
+  const batchSize = parseInt(process.argv[2] || '100', 10);
+
+  console.log(`🔄 Re-encrypting mailbox secrets with key ${encryptionService.activeKeyId} (batches of ${batchSize})...`);
+  const result = await credentialRotationService.reEncryptMailboxSecrets(batchSize);
+
+  console.log(`🎉 Encrypted ${result.encrypted} plaintext and re-encrypted ${result.reEncrypted} mailbox secret(s)`);
+  if (result.failed > 0) {
+    console.error(`❌ ${result.failed} row(s) could not be re-encrypted; keep their keys in ENCRYPTION_KEYS`);
+    process.exitCode = 1;
+  }
+}
+
+runCredentialKeyRotation()
+  .catch((error) => {
+    console.error('❌ Credential key rotation failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => process.exit());
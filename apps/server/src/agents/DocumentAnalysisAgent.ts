@@ -6,6 +6,8 @@ import { notificationService } from '../services/agentNotificationService';
 // File processing functionality removed - this agent needs refactoring
 import { escapeHtml } from '../utils/escape';
 import { parseClaudeJsonResponseSafe } from '../utils/jsonParser';
+import { malwareScanService } from '../services/malware/malwareScanService';
+import type { MalwareScanResult } from '../services/malware/types';
 import * as nodemailer from 'nodemailer';
 import * as crypto from 'crypto';
 
@@ -127,6 +129,7 @@ export class DocumentAnalysisAgent implements IEmailAgent {
             filename: attachment.filename,
             fileType: attachment.contentType,
             fileSize: attachment.content.length,
+            scan: attachment.scan,
             processedFile: {
               extractedText: analysis.extractedText || '',
               contentAnalysis: analysis.contentAnalysis
@@ -230,6 +233,21 @@ export class DocumentAnalysisAgent implements IEmailAgent {
     extractTables?: boolean;
     extractImages?: boolean;
   } = {}): Promise<CommandResult> {
+    // Uploaded files still pass the malware scan stage so infected ones end up in quarantine
+    if (options.enableVirusScanning !== false && files.length > 0) {
+      const { quarantined } = await malwareScanService.screenFiles(
+        files.map(file => ({ filename: file.originalname, contentType: file.mimetype, size: file.size, content: file.buffer })),
+        { messageId: `web-upload-${crypto.randomUUID()}`, sender: userId, source: 'web_upload' }
+      );
+      if (quarantined.length > 0) {
+        return {
+          success: false,
+          message: `Upload blocked: ${quarantined.map(file => `${file.filename} (${file.threat})`).join(', ')} flagged as malicious and quarantined`,
+          data: { quarantined }
+        };
+      }
+    }
+
     return {
       success: false,
       message: 'Web upload is no longer supported. Please send documents via email to analyzer@inboxleap.com'
@@ -473,6 +491,7 @@ export class DocumentAnalysisAgent implements IEmailAgent {
     filename: string;
     contentType: string;
     content: Buffer;
+    scan?: MalwareScanResult;
   }>> {
     try {
       console.log(`📎 [DocumentAnalysisAgent] Extracting attachments from email`);
@@ -484,7 +503,8 @@ export class DocumentAnalysisAgent implements IEmailAgent {
         return email.attachments.map(attachment => ({
           filename: attachment.filename || 'unnamed-attachment',
           contentType: attachment.contentType || 'application/octet-stream',
-          content: Buffer.isBuffer(attachment.content) ? attachment.content : Buffer.from(attachment.content, 'base64')
+          content: Buffer.isBuffer(attachment.content) ? attachment.content : Buffer.from(attachment.content, 'base64'),
+          scan: attachment.scan
         }));
       }
       
@@ -581,13 +601,13 @@ export class DocumentAnalysisAgent implements IEmailAgent {
           aiAnalysis: result.aiAnalysis,
           processingResults: {
             ocrText: '',
-            virusScanResults: null,
+            virusScanResults: result.scan ?? null,
             metadata: {}
           },
           category: result.aiAnalysis.category || 'other',
           confidence: Math.round((result.aiAnalysis.confidence || 0.7) * 100),
           extractedText: '',
-          virusScanPassed: true,
+          virusScanPassed: result.scan?.status === 'clean',
           processedAt: new Date(result.processedAt)
         };
 
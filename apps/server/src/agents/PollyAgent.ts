@@ -2,6 +2,7 @@ import { storage } from '../storage.js';
 import { notificationService } from '../services/agentNotificationService.js';
 import { claudeService } from '../services/claudeService.js';
 import { escapeHtml } from '../utils/escape.js';
+import { resolveVoteSelection } from '../utils/pollTally.js';
 import type { EmailData, CommandResult } from '../types/interfaces.js';
 
 export class PollyAgent {
@@ -82,7 +83,7 @@ export class PollyAgent {
           pollId: poll.id, 
           question: pollData.question,
           optionsCount: pollData.options.length,
-          invitationsSent: [...email.to, ...email.cc].filter(addr => !addr.toLowerCase().includes('polly@')).length
+          invitationsSent: [...email.to, ...email.cc].filter(addr => !addr.toLowerCase().includes(`@${this.serviceDomain}`)).length
         }
       };
 
@@ -173,14 +174,14 @@ Examples of poll formats to look for:
   private async createPoll(email: EmailData, pollData: any): Promise<any> {
     const userId = await this.getOrCreateUser(email.from);
     
+    // Get all participants (excluding agent addresses such as polly@ or the load balancer)
+    const participants = [...email.to, ...email.cc]
+      .filter(addr => !addr.toLowerCase().includes(`@${this.serviceDomain}`))
+      .map(addr => addr.toLowerCase().trim());
+
     // Try to find associated project based on recipients
     let projectId = null;
     if (email.to.length > 1 || email.cc.length > 0) {
-      // Get all participants (excluding polly email)
-      const participants = [...email.to, ...email.cc]
-        .filter(addr => !addr.toLowerCase().includes('polly@'))
-        .map(addr => addr.toLowerCase().trim());
-      
       if (participants.length > 0) {
         const project = await storage.findProjectByTopicAndParticipants(
           email.subject || 'Poll Project', 
@@ -204,11 +205,13 @@ Examples of poll formats to look for:
       options: pollData.options,
       createdBy: userId,
       projectId,
+      participantEmails: Array.from(new Set([email.from.toLowerCase().trim(), ...participants])),
       isAnonymous: pollData.isAnonymous || false,
       allowMultipleVotes: false, // Could be enhanced later
       expiresAt,
       status: 'active',
-      emailMessageId: email.messageId
+      emailMessageId: email.messageId,
+      sourceEmailSubject: email.subject
     });
   }
 
@@ -243,6 +246,18 @@ Examples of poll formats to look for:
         };
       }
 
+      // Match the choices against the poll's options and its single/multiple choice rule
+      const selection = resolveVoteSelection(originalPoll, voteChoice.selectedOptions);
+      if (selection.error) {
+        await this.sendErrorEmail(email, `${selection.error}. Please use the voting options provided.`);
+        return {
+          success: false,
+          message: selection.error,
+          data: { email: email.messageId, pollId: originalPoll.id }
+        };
+      }
+      voteChoice.selectedOptions = selection.selectedOptions;
+
       // Check if user can vote
       const userId = await this.getOrCreateUser(email.from);
       const canVote = await storage.canUserVote(originalPoll.id, userId);
@@ -299,8 +314,9 @@ Examples of poll formats to look for:
    */
   private async findOriginalPoll(email: EmailData): Promise<any> {
     // Try to find by message ID reference
-    if (email.inReplyTo) {
-      const poll = await storage.getPollByMessageId(email.inReplyTo);
+    for (const messageId of [email.inReplyTo, ...(email.references || [])]) {
+      if (!messageId) continue;
+      const poll = await storage.getPollByMessageId(messageId);
       if (poll) return poll;
     }
 
@@ -424,8 +440,9 @@ Return JSON:
 
     await notificationService.sendEmail({
       to: email.from,
-      subject: `Poll Created: ${escapeHtml(pollData.question)}`,
+      subject: `Poll Created: ${escapeHtml(pollData.question)} (Poll #${poll.id})`,
       html: htmlContent,
+      replyTo: this.emailDomain,
       text: `Poll Created: ${pollData.question}\n\nVote at: ${pollLink}\n\nOr reply with your choice.`
     });
   }
@@ -436,10 +453,10 @@ Return JSON:
   private async sendVotingInvitations(email: EmailData, poll: any, pollData: any): Promise<void> {
     const pollLink = `${process.env.DASHBOARD_URL || process.env.APP_URL || 'https://inboxleap.com'}/teams/polly?poll=${poll.id}`;
     
-    // Get all recipients (excluding polly and sender)
+    // Get all recipients (excluding agent addresses and sender)
     const recipients = [...email.to, ...email.cc]
       .filter(addr => 
-        !addr.toLowerCase().includes('polly@') && 
+        !addr.toLowerCase().includes(`@${this.serviceDomain}`) && 
         addr.toLowerCase() !== email.from.toLowerCase()
       );
 
@@ -498,8 +515,9 @@ Return JSON:
       try {
         await notificationService.sendEmail({
           to: recipient,
-          subject: `Vote: ${escapeHtml(pollData.question)}`,
+          subject: `Vote: ${escapeHtml(pollData.question)} (Poll #${poll.id})`,
           html: htmlContent,
+          replyTo: this.emailDomain,
           text: `You've been invited to vote!\n\nQuestion: ${pollData.question}\n\nVote at: ${pollLink}\n\nOr reply with your choice.`
         });
       } catch (error) {
@@ -549,7 +567,7 @@ Return JSON:
     </div>
     
     <p><strong>Poll:</strong> ${escapeHtml(poll.title)}</p>
-    <p><strong>Total Votes So Far:</strong> ${results.uniqueVoters} people have voted</p>
+    <p><strong>Total Votes So Far:</strong> ${results?.uniqueVoters ?? 0} people have voted</p>
     
     <div style="text-align: center;">
       <a href="${pollLink}" class="results-button">View Results</a>
@@ -566,7 +584,7 @@ Return JSON:
 
     await notificationService.sendEmail({
       to: email.from,
-      subject: `Vote Confirmed: ${escapeHtml(poll.title)}`,
+      subject: `Vote Confirmed: ${escapeHtml(poll.title)} (Poll #${poll.id})`,
       html: htmlContent,
       text: `Vote Confirmed!\n\nYour vote: ${selectedOptionTexts}\n\nView results: ${pollLink}`
     });
@@ -2,8 +2,12 @@ import { IEmailAgent, EmailData, CommandResult } from '../types/interfaces';
 import { storage } from '../storage';
 import { getOrCreateUserByEmail } from '../services/userService';
 import { claudeService } from '../services/claudeService';
+import { taskDependencyService } from '../services/taskDependencyService';
+import { recurringTaskScheduler } from '../services/recurringTaskScheduler';
+import { taskActivityService } from '../services/taskActivityService';
 import { notificationService } from '../services/agentNotificationService';
 import { parseClaudeJsonResponseSafe } from '../utils/jsonParser';
+import { findBestParticipantMatch } from '../utils/participants';
 
 /**
  * TodoAgent - Team Task Management Agent
@@ -223,6 +227,7 @@ export class TodoAgent implements IEmailAgent {
           dueDate: taskData.dueDate,
           sourceEmail: email.from,
           sourceEmailSubject: email.subject,
+          recurrenceRule: taskData.recurrence,
         });
 
         // Handle assignees
@@ -234,6 +239,8 @@ export class TodoAgent implements IEmailAgent {
         tasksCreated++;
       }
 
+      await taskDependencyService.linkExtractedTasks(createdTasks, tasks);
+
       // Record processed email
       await storage.createProcessedEmail({
         messageId: email.messageId,
@@ -302,8 +309,16 @@ export class TodoAgent implements IEmailAgent {
         let updatedCount = 0;
         for (const update of taskUpdates) {
           try {
-            await storage.updateTask(update.taskId, { status: update.newStatus as any });
+            const previousTask = await storage.getTask(update.taskId);
+            const updatedTask = await storage.updateTask(update.taskId, { status: update.newStatus as any });
             console.log(`✅ [TodoAgent] Updated task ${update.taskId}: "${update.taskTitle}" → ${update.newStatus}`);
+            if (previousTask) {
+              await taskActivityService.recordChanges(previousTask, updatedTask, user.id, 'email', {
+                emailMessageId: followup.messageId,
+              });
+            }
+            await taskDependencyService.refreshDependents(update.taskId);
+            await recurringTaskScheduler.handleStatusChange(updatedTask);
             updatedCount++;
             
             // Send notification to assignees about status change
@@ -458,7 +473,7 @@ export class TodoAgent implements IEmailAgent {
         assigneeUser = await getOrCreateUserByEmail(assigneeIdentifier).catch(() => null);
       } else {
         // Find best participant match
-        const participantMatch = this.findBestParticipantMatch(assigneeIdentifier, allParticipants);
+        const participantMatch = findBestParticipantMatch(assigneeIdentifier, allParticipants);
         if (participantMatch) {
           assigneeUser = await getOrCreateUserByEmail(participantMatch);
           console.log(`🎯 [TodoAgent] Matched "${assigneeIdentifier}" to ${participantMatch}`);
@@ -478,32 +493,6 @@ export class TodoAgent implements IEmailAgent {
     }
   }
 
-  /**
-   * Find best participant match for assignee name
-   */
-  private findBestParticipantMatch(assigneeIdentifier: string, participants: string[]): string | null {
-    // Simple matching logic - could be enhanced
-    const identifier = assigneeIdentifier.toLowerCase();
-    
-    // Try exact match first
-    for (const participant of participants) {
-      if (participant.toLowerCase().includes(identifier)) {
-        return participant;
-      }
-    }
-
-    // Try partial matches
-    for (const participant of participants) {
-      const email = participant.toLowerCase();
-      const namePart = email.split('@')[0];
-      if (namePart.includes(identifier) || identifier.includes(namePart)) {
-        return participant;
-      }
-    }
-
-    return null;
-  }
-
   /**
    * Check if email is a reply
    */
@@ -2,9 +2,16 @@ import express, { type Request, Response, NextFunction } from "express";
 import fs from "fs";
 import path from "path";
 import { registerRoutes } from "./routes";
+import { inboundEmailBodyParsers } from "./routes/email";
 import { setupVite, serveStatic, log } from "./vite";
 import { s3EmailBackupProcessor } from "./services/s3EmailBackupProcessor.js";
 import { automatedBlacklistService } from "./services/automatedBlacklistService.js";
+import { pollClosingScheduler } from "./services/pollClosingScheduler.js";
+import { recurringTaskScheduler } from "./services/recurringTaskScheduler.js";
+import { weeklyDigestService } from "./services/weeklyDigestService.js";
+import { taskDueReminderScheduler } from "./services/taskDueReminderScheduler.js";
+import { credentialRotationService } from "./services/credentialRotationService.js";
+import { emailQueueService } from "./services/emailQueueService.js";
 
 // Load configuration
 const configPath = path.resolve(import.meta.dirname, "..", "..", "..", "config.json");
@@ -12,6 +19,8 @@ const config = fs.existsSync(configPath) ? JSON.parse(fs.readFileSync(configPath
 const ports = config.ports || { frontend: 5173, backend: 3000 };
 
 const app = express();
+// The SES webhook needs its raw body for signature checks and larger limits for attachments
+app.use("/api/inbound/email", ...inboundEmailBodyParsers());
 app.use(express.json());
 app.use(express.urlencoded({ extended: false }));
 
@@ -76,6 +85,14 @@ app.use((req, res, next) => {
   }, async () => {
     log(`serving on port ${port}`);
     
+    // Start the email processing queue (resumes jobs persisted before a restart)
+    try {
+      emailQueueService.startProcessing();
+      log('Email processing queue started');
+    } catch (error) {
+      log(`Failed to start email processing queue: ${error}`);
+    }
+
     // Start S3 email backup processor
     try {
       s3EmailBackupProcessor.start();
@@ -83,6 +100,38 @@ app.use((req, res, next) => {
     } catch (error) {
       log(`Failed to start S3 backup processor: ${error}`);
     }
+
+    // Start closing expired polls and announcing their results
+    try {
+      pollClosingScheduler.start();
+      log('Poll closing scheduler started');
+    } catch (error) {
+      log(`Failed to start poll closing scheduler: ${error}`);
+    }
+
+    // Start materializing the next occurrence of recurring tasks
+    try {
+      recurringTaskScheduler.start();
+      log('Recurring task scheduler started');
+    } catch (error) {
+      log(`Failed to start recurring task scheduler: ${error}`);
+    }
+
+    // Start sending weekly digests on Monday mornings in each user's time zone
+    try {
+      weeklyDigestService.start();
+      log('Weekly digest scheduler started');
+    } catch (error) {
+      log(`Failed to start weekly digest scheduler: ${error}`);
+    }
+
+    // Start emailing assignees ahead of task due dates
+    try {
+      taskDueReminderScheduler.start();
+      log('Task due reminder scheduler started');
+    } catch (error) {
+      log(`Failed to start task due reminder scheduler: ${error}`);
+    }
     
     // Initialize automated blacklist service
     try {
@@ -91,6 +140,11 @@ app.use((req, res, next) => {
     } catch (error) {
       log(`Failed to initialize automated blacklist service: ${error}`);
     }
+
+    // Encrypt mailbox secrets left in plaintext or under a retired key
+    credentialRotationService.reEncryptMailboxSecrets().catch((error) => {
+      log(`Failed to re-encrypt mailbox secrets: ${error}`);
+    });
     
     // Security layer removed - domain security now handled by individual agents
   });
@@ -114,6 +168,41 @@ app.use((req, res, next) => {
     } catch (error) {
       log(`❌ [SHUTDOWN] Error stopping S3 processor: ${error}`);
     }
+
+    try {
+      emailQueueService.stop();
+      log('📬 [SHUTDOWN] Email processing queue stopped');
+    } catch (error) {
+      log(`❌ [SHUTDOWN] Error stopping email processing queue: ${error}`);
+    }
+
+    try {
+      pollClosingScheduler.stop();
+      log('🗳️ [SHUTDOWN] Poll closing scheduler stopped');
+    } catch (error) {
+      log(`❌ [SHUTDOWN] Error stopping poll closing scheduler: ${error}`);
+    }
+
+    try {
+      recurringTaskScheduler.stop();
+      log('🔁 [SHUTDOWN] Recurring task scheduler stopped');
+    } catch (error) {
+      log(`❌ [SHUTDOWN] Error stopping recurring task scheduler: ${error}`);
+    }
+
+    try {
+      weeklyDigestService.stop();
+      log('📰 [SHUTDOWN] Weekly digest scheduler stopped');
+    } catch (error) {
+      log(`❌ [SHUTDOWN] Error stopping weekly digest scheduler: ${error}`);
+    }
+
+    try {
+      taskDueReminderScheduler.stop();
+      log('📅 [SHUTDOWN] Task due reminder scheduler stopped');
+    } catch (error) {
+      log(`❌ [SHUTDOWN] Error stopping task due reminder scheduler: ${error}`);
+    }
     
     // Give ongoing requests time to complete (30 seconds max)
     const shutdownTimeout = setTimeout(() => {
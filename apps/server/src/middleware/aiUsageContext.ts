@@ -0,0 +1,36 @@
+import { Request, Response, NextFunction } from 'express';
+import { storage } from '../storage';
+import { aiUsageService } from '../services/aiUsage/aiUsageService';
+import { memoizeCompanyResolver, withAiUsageContext } from '../services/aiUsage/usageContext';
+
+/**
+ * Middleware that charges LLM requests made while handling an API request to the signed-in
+ * user and, in company mode (x-company-id header), to that company once membership is confirmed.
+ * Without a company header, usage goes to the user's company if they belong to exactly one;
+ * explicit individual mode is never charged to a company. Nothing is looked up unless the
+ * request actually calls the LLM.
+ */
+export function aiUsageContext(req: Request, _res: Response, next: NextFunction) {
+  // Routes set req.user in isAuthenticated, which runs after this middleware
+  const userId = ((req as any).user ?? (req.session as any)?.user)?.id as string | undefined;
+  if (!userId) {
+    return next();
+  }
+
+  if (req.headers['x-context-mode'] === 'individual') {
+    return withAiUsageContext({ userId, companyId: null }, next);
+  }
+
+  const header = req.headers['x-company-id'];
+  const requestedCompanyId = typeof header === 'string' ? parseInt(header, 10) : NaN;
+
+  const resolveCompanyId = memoizeCompanyResolver(async () => {
+    if (isNaN(requestedCompanyId)) {
+      return aiUsageService.getCompanyForUser(userId);
+    }
+    const membership = await storage.getCompanyMembership(requestedCompanyId, userId);
+    return membership?.isActive ? requestedCompanyId : null;
+  });
+
+  withAiUsageContext({ userId, resolveCompanyId }, next);
+}
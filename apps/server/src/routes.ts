@@ -11,16 +11,19 @@ import { registerHealthRoutes } from "./routes/health";
 import { registerAuthRoutes } from "./routes/auth";
 import { registerProjectTaskRoutes } from "./routes/projects";
 import { registerEmailRoutes } from "./routes/email";
+import { registerMailboxRoutes } from "./routes/mailboxes";
 import { registerT5TRoutes } from "./routes/t5t";
 import { registerCompanyIntelligenceRoutes } from "./routes/companyIntelligence";
 import { registerPollingAgentsRoutes } from "./routes/pollingAgents";
 import { registerCopilotRoutes } from "./routes/copilot";
 import { registerAttachmentRoutes } from "./routes/attachments";
 import { registerFAQRoutes } from "./routes/faq";
+import { registerPollRoutes } from "./routes/polls";
 import { registerStatsRoutes } from "./routes/stats";
 import { registerDocumentRoutes } from "./routes/documents";
 import { registerTrustRoutes } from "./routes/trust";
 import { registerAdminRoutes } from "./routes/admin";
+import { registerFailedEmailRoutes } from "./routes/failedEmails";
 import { registerNotificationRoutes } from "./routes/notifications";
 import { registerAgentSecurityRoutes } from "./routes/agentSecurity";
 import { registerCompanyRoutes } from "./routes/companies";
@@ -31,8 +34,11 @@ import companyInvitationsRouter from "./routes/companyInvitations";
 import testEmailsRouter from "./routes/testEmails";
 import identitiesRouter from "./routes/identities";
 import { registerAuditRoutes } from "./routes/audit";
+import { registerSearchRoutes } from "./routes/search";
 import { auditScheduler } from "./services/auditScheduler";
 import { setupWebSocket } from "./routes/websocket";
+import performanceRouter from "./routes/performance";
+import { aiUsageContext } from "./middleware/aiUsageContext";
 
 // Helper functions for polling system
 function getWeekNumber(date: Date): number {
@@ -81,9 +87,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   // Register all route modules
   await registerAuthRoutes(app);
+  app.use('/api', aiUsageContext);
   registerStatsRoutes(app);
   registerProjectTaskRoutes(app);
   registerEmailRoutes(app);
+  registerMailboxRoutes(app);
   registerT5TRoutes(app);
   registerCompanyIntelligenceRoutes(app);
   registerPollingAgentsRoutes(app);
@@ -91,11 +99,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
   registerAttachmentRoutes(app);
   registerDocumentRoutes(app);
   registerFAQRoutes(app);
+  registerPollRoutes(app);
   registerTrustRoutes(app);
   registerAdminRoutes(app);
+  registerFailedEmailRoutes(app);
   registerNotificationRoutes(app);
   registerAgentSecurityRoutes(app);
   registerCompanyRoutes(app);
+  registerSearchRoutes(app);
   app.use('/api/companies', companyAgentEmailsRouter);
   app.use('/api/user', userAgentEmailsRouter);
   app.use('/api/agent-instances', agentInstancesRouter);
@@ -104,6 +115,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.use('/api/test', testEmailsRouter);
   app.use('/api/identities', identitiesRouter);
   registerAuditRoutes(app);
+  app.use('/api/performance', performanceRouter);
 
   // Setup WebSocket for real-time updates
   const server = setupWebSocket(app);
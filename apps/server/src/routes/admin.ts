@@ -143,4 +143,24 @@ export function registerAdminRoutes(app: Express) {
       res.status(500).json({ message: 'Failed to trigger pattern monitoring' });
     }
   });
+
+  // Recent agent auto-router decisions for mail sent to the load balancer address (admin only)
+  app.get('/api/admin/routing-decisions', isAuthenticated, async (req: any, res) => {
+    try {
+      const userEmail = req.user.email;
+
+      if (!userEmail || (!userEmail.includes('admin') && !process.env.ADMIN_EMAILS?.split(',').includes(userEmail))) {
+        return res.status(403).json({ message: 'Access denied. Admin privileges required.' });
+      }
+
+      const { storage } = await import('../storage');
+      const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+      const decisions = await storage.getRecentAgentRoutingDecisions(limit);
+
+      res.json(decisions);
+    } catch (error) {
+      console.error('Error fetching routing decisions:', error);
+      res.status(500).json({ message: 'Failed to fetch routing decisions' });
+    }
+  });
 }
\ No newline at end of file
@@ -156,6 +156,47 @@ router.put('/:instanceId/email', async (req: any, res) => {
   }
 });
 
+/**
+ * PUT /api/agent-instances/:instanceId/options
+ * Update agent-specific options kept in the instance customization
+ * (Analyzer: createTasksFromActionItems)
+ */
+router.put('/:instanceId/options', async (req: any, res) => {
+  try {
+    const userId = req.user?.id;
+    const { instanceId } = req.params;
+    const { createTasksFromActionItems } = req.body;
+
+    if (!userId) {
+      return res.status(401).json({ error: 'Not authenticated' });
+    }
+
+    // SECURITY: Verify user owns this instance before allowing updates
+    const existingInstance = await agentInstanceService.getInstanceById(parseInt(instanceId));
+    if (!existingInstance || existingInstance.userId !== userId) {
+      return res.status(403).json({ error: 'You can only update your own agent instances' });
+    }
+
+    if (existingInstance.agentType !== 'analyzer') {
+      return res.status(400).json({ error: 'This agent type has no options' });
+    }
+
+    if (typeof createTasksFromActionItems !== 'boolean') {
+      return res.status(400).json({ error: 'createTasksFromActionItems must be true or false' });
+    }
+
+    const instance = await agentInstanceService.updateInstanceCustomization(existingInstance.id, {
+      ...((existingInstance.customization ?? {}) as Record<string, any>),
+      createTasksFromActionItems
+    });
+
+    res.json({ instance });
+  } catch (error) {
+    console.error('Error updating instance options:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+});
+
 /**
  * DELETE /api/agent-instances/:instanceId
  * Delete a custom instance (cannot delete default)
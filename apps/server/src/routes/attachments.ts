@@ -2,6 +2,8 @@ import { Express } from 'express';
 import { storage } from '../storage';
 import { isAuthenticated } from '../googleAuth';
 import { attachmentAnalysisService } from '../services/attachmentAnalysisService';
+import { detectSpreadsheetFormat } from '../utils/spreadsheet';
+import { attachmentContentService } from '../services/blobs/attachmentContentService';
 
 export function registerAttachmentRoutes(app: Express) {
   // Attachment Analysis API Endpoints for Analyzer agent
@@ -58,7 +60,9 @@ export function registerAttachmentRoutes(app: Express) {
           console.log(`📎 [ANALYZER] ${forceRefresh ? 'Re-analyzing' : 'Analyzing'} attachment: ${attachment.filename} (${attachment.contentType})`);
           
           // Use enhanced LLM analysis logic
-          const analysis = await attachmentAnalysisService.performEnhancedAnalysis(attachment);
+          const analysis = await attachmentAnalysisService.performEnhancedAnalysis(
+            await attachmentContentService.withContent(attachment)
+          );
           
           await storage.updateEmailAttachmentAnalysis(attachment.id, analysis);
           analyzedCount++;
@@ -115,17 +119,18 @@ export function registerAttachmentRoutes(app: Express) {
           let actualContent: Buffer | null = null;
           
           // Try to get attachment content if available
-          if (attachment.content) {
-            try {
-              console.log(`📎 [ANALYZER] Decoding base64 content for ${attachment.filename}`);
-              actualContent = Buffer.from(attachment.content, 'base64');
-              console.log(`📎 [ANALYZER] Successfully decoded ${actualContent.length} bytes`);
-            } catch (decodeError) {
-              console.error(`📎 [ANALYZER] Error decoding base64 content for ${attachment.filename}:`, decodeError);
+          try {
+            actualContent = await attachmentContentService.load(attachment);
+            if (actualContent) {
+              console.log(`📎 [ANALYZER] Loaded ${actualContent.length} bytes for ${attachment.filename}`);
             }
+          } catch (loadError) {
+            console.error(`📎 [ANALYZER] Error loading content for ${attachment.filename}:`, loadError);
           }
           
-          if (attachment.contentType.includes('pdf') && actualContent) {
+          if (actualContent && detectSpreadsheetFormat(attachment.contentType, attachment.filename)) {
+            analysis = await attachmentAnalysisService.performEnhancedAnalysis({ ...attachment, content: actualContent });
+          } else if (attachment.contentType.includes('pdf') && actualContent) {
             try {
               // For now, do basic PDF analysis - we can enhance this later with proper PDF parsing
               const contentPreview = actualContent.toString('ascii', 0, Math.min(1000, actualContent.length));
@@ -311,25 +316,24 @@ export function registerAttachmentRoutes(app: Express) {
         return res.status(403).json({ message: 'Access denied' });
       }
       
-      if (!attachment.content) {
+      const stream = await attachmentContentService.openStream(attachment);
+      if (!stream) {
         return res.status(404).json({ message: 'Attachment content not available' });
       }
       
-      try {
-        // Decode base64 content
-        const buffer = Buffer.from(attachment.content, 'base64');
-        
-        // Set appropriate headers
-        res.setHeader('Content-Disposition', `attachment; filename="${attachment.originalName}"`);
-        res.setHeader('Content-Type', attachment.contentType);
-        res.setHeader('Content-Length', buffer.length);
-        
-        console.log(`📎 [ANALYZER] Serving attachment ${attachment.originalName} (${buffer.length} bytes)`);
-        res.send(buffer);
-      } catch (decodeError) {
-        console.error(`📎 [ANALYZER] Error decoding attachment content:`, decodeError);
-        res.status(500).json({ message: 'Error processing attachment content' });
-      }
+      res.setHeader('Content-Disposition', `attachment; filename="${attachment.originalName}"`);
+      res.setHeader('Content-Type', attachment.contentType);
+      
+      console.log(`📎 [ANALYZER] Streaming attachment ${attachment.originalName}`);
+      stream.on('error', (streamError) => {
+        console.error(`📎 [ANALYZER] Error streaming attachment content:`, streamError);
+        if (res.headersSent) {
+          res.destroy(streamError);
+        } else {
+          res.status(500).json({ message: 'Error processing attachment content' });
+        }
+      });
+      stream.pipe(res);
       
     } catch (error) {
       console.error('Error downloading attachment:', error);
@@ -3,8 +3,21 @@ import { isAuthenticated } from '../googleAuth';
 import { auditService } from '../services/auditService';
 import { auditDashboard } from '../services/auditDashboard';
 import { auditScheduler } from '../services/auditScheduler';
+import { AUDIT_ALERT_CHANNELS } from '../services/auditAlertNotifier';
 import { z } from 'zod';
 
+/**
+ * Scheduler settings decide where audit findings are sent, so they are limited to admins
+ */
+const requireAdmin = (req: any, res: any, next: any) => {
+  const userEmail: string | undefined = req.user?.email;
+  const isAdmin = !!userEmail && (userEmail.includes('admin') || !!process.env.ADMIN_EMAILS?.split(',').includes(userEmail));
+  if (!isAdmin) {
+    return res.status(403).json({ success: false, message: 'Access denied. Admin privileges required.' });
+  }
+  next();
+};
+
 /**
  * Audit system API routes
  * Provides endpoints for running audits, viewing reports, and monitoring system health
@@ -362,7 +375,7 @@ export function registerAuditRoutes(app: Express) {
   /**
    * Get audit scheduler status
    */
-  app.get('/api/audit/scheduler/status', isAuthenticated, async (req: any, res) => {
+  app.get('/api/audit/scheduler/status', isAuthenticated, requireAdmin, async (req: any, res) => {
     try {
       const status = auditScheduler.getStatus();
       
@@ -384,10 +397,9 @@ export function registerAuditRoutes(app: Express) {
   /**
    * Update audit scheduler configuration
    */
-  app.patch('/api/audit/scheduler/config', isAuthenticated, async (req: any, res) => {
+  app.patch('/api/audit/scheduler/config', isAuthenticated, requireAdmin, async (req: any, res) => {
     try {
-      // TODO: Add admin role check
-      
+      const alertChannels = z.array(z.enum(AUDIT_ALERT_CHANNELS)).optional();
       const configSchema = z.object({
         enabled: z.boolean().optional(),
         fullAuditInterval: z.number().min(60000).optional(), // Min 1 minute
@@ -396,10 +408,31 @@ export function registerAuditRoutes(app: Express) {
           criticalFailures: z.number().min(0),
           highFailures: z.number().min(0),
           warningFailures: z.number().min(0)
+        }).optional(),
+        // null clears a channel destination
+        notificationSettings: z.object({
+          emailAlerts: z.boolean().optional(),
+          emailRecipients: z.array(z.string().email()).optional(),
+          slackWebhook: z.string().url().nullable().optional(),
+          webhookUrl: z.string().url().nullable().optional(),
+          webhookSecret: z.string().min(16).nullable().optional(),
+          routing: z.object({
+            critical: alertChannels,
+            high: alertChannels,
+            warning: alertChannels
+          }).optional(),
+          dedupWindow: z.number().min(0).optional() // milliseconds
         }).optional()
       });
       
-      const config = configSchema.parse(req.body);
+      const { notificationSettings, ...parsed } = configSchema.parse(req.body);
+      // Settings left out of the body keep their value; only an explicit null clears one
+      const config = notificationSettings ? {
+        ...parsed,
+        notificationSettings: Object.fromEntries(
+          Object.entries(notificationSettings).map(([key, value]) => [key, value === null ? undefined : value])
+        ) as { [K in keyof typeof notificationSettings]: Exclude<(typeof notificationSettings)[K], null> }
+      } : parsed;
       
       auditScheduler.updateConfig(config);
       
@@ -3,6 +3,7 @@ import { storage } from '../storage';
 import { setupAuth, isAuthenticated } from '../googleAuth';
 import { User } from '@email-task-router/shared';
 import { passwordResetService } from '../services/passwordResetService';
+import { isMailboxProviderId } from '../services/mailboxOAuth/providers';
 
 export async function registerAuthRoutes(app: Express) {
   // Auth middleware
@@ -386,7 +387,9 @@ The InboxLeap Team
   app.get('/api/auth/linked-accounts', isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.id;
-      const linkedAccounts = await storage.getUserLinkedAccounts(userId);
+      // Mailboxes linked through OAuth2 are listed by /api/mailboxes, not as sign-in methods
+      const linkedAccounts = (await storage.getUserLinkedAccounts(userId))
+        .filter(account => !isMailboxProviderId(account.provider));
       
       // Don't expose sensitive provider account IDs in response
       const safeLinkedAccounts = linkedAccounts.map(account => ({
@@ -531,7 +534,8 @@ The InboxLeap Team
       }
 
       // Check if user has multiple auth methods (prevent locking out)
-      const linkedAccounts = await storage.getUserLinkedAccounts(userId);
+      const linkedAccounts = (await storage.getUserLinkedAccounts(userId))
+        .filter(account => !isMailboxProviderId(account.provider));
       if (linkedAccounts.length <= 1) {
         return res.status(400).json({ 
           message: "Cannot unlink the only authentication method" 
@@ -13,6 +13,7 @@ import {
   createSubCompany,
   getCompanyHierarchy
 } from '../services/companyRegistrationService';
+import { aiUsageService } from '../services/aiUsage/aiUsageService';
 
 /**
  * Company management API routes
@@ -526,4 +527,104 @@ export function registerCompanyRoutes(app: Express) {
       });
     }
   });
-}
\ No newline at end of file
+
+  /**
+   * Get the company's monthly AI budget and month-to-date spend
+   */
+  app.get('/api/companies/:companyId/ai-budget', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const companyId = parseInt(req.params.companyId);
+      
+      const { storage } = await import('../storage');
+      const membership = await storage.getCompanyMembership(companyId, userId);
+      if (!membership) {
+        return res.status(403).json({
+          success: false,
+          message: 'You are not a member of this company'
+        });
+      }
+      
+      const budget = await storage.getCompanyAiBudget(companyId);
+      const status = await aiUsageService.getBudgetStatus(companyId);
+      
+      res.json({
+        success: true,
+        data: {
+          softLimitUsd: budget?.softLimitUsd != null ? Number(budget.softLimitUsd) : null,
+          hardLimitUsd: budget?.hardLimitUsd != null ? Number(budget.hardLimitUsd) : null,
+          status
+        }
+      });
+      
+    } catch (error: any) {
+      console.error('Error getting company AI budget:', error);
+      res.status(500).json({
+        success: false,
+        message: error.message || 'Failed to get AI budget'
+      });
+    }
+  });
+  
+  /**
+   * Set the company's monthly AI budget. Null clears a limit.
+   */
+  app.put('/api/companies/:companyId/ai-budget', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const companyId = parseInt(req.params.companyId);
+      
+      const budgetSchema = z.object({
+        softLimitUsd: z.number().nonnegative().nullable(),
+        hardLimitUsd: z.number().nonnegative().nullable()
+      }).refine(
+        ({ softLimitUsd, hardLimitUsd }) => softLimitUsd === null || hardLimitUsd === null || softLimitUsd <= hardLimitUsd,
+        { message: 'The soft limit cannot be above the hard limit' }
+      );
+      
+      const parsed = budgetSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({
+          success: false,
+          message: parsed.error.errors[0]?.message || 'Invalid budget'
+        });
+      }
+      
+      const { storage } = await import('../storage');
+      const membership = await storage.getCompanyMembership(companyId, userId);
+      if (!membership || membership.role !== 'admin') {
+        return res.status(403).json({
+          success: false,
+          message: 'Only company administrators can change the AI budget'
+        });
+      }
+      
+      const { softLimitUsd, hardLimitUsd } = parsed.data;
+      await storage.upsertCompanyAiBudget(companyId, {
+        softLimitUsd: softLimitUsd !== null ? softLimitUsd.toFixed(2) : null,
+        hardLimitUsd: hardLimitUsd !== null ? hardLimitUsd.toFixed(2) : null,
+        // New limits warn again once they are reached
+        softLimitNotifiedAt: null,
+        hardLimitNotifiedAt: null,
+        updatedBy: userId
+      });
+      
+      res.json({
+        success: true,
+        message: 'AI budget updated successfully',
+        data: {
+          softLimitUsd,
+          hardLimitUsd,
+          status: await aiUsageService.getBudgetStatus(companyId)
+        }
+      });
+      
+    } catch (error: any) {
+      console.error('Error updating company AI budget:', error);
+      res.status(500).json({
+        success: false,
+        message: error.message || 'Failed to update AI budget'
+      });
+    }
+  });
+}
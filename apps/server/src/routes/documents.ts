@@ -2,6 +2,7 @@ import type { Express, Request, Response } from 'express';
 import { storage } from '../storage';
 import { isAuthenticated } from '../googleAuth';
 import { analyzeAttachment } from '../services/analyzer/analyzerAnalysisService';
+import { attachmentContentService } from '../services/blobs/attachmentContentService';
 
 /**
  * Register document analysis routes
@@ -141,7 +142,7 @@ export function registerDocumentRoutes(app: Express): void {
         ? await storage.getProcessedEmailByMessageId(existingResult.messageId)
         : undefined;
 
-      const analysis = await analyzeAttachment(attachment, {
+      const analysis = await analyzeAttachment(await attachmentContentService.withContent(attachment), {
         subject: processedEmail?.subject || '',
         body: processedEmail?.body || ''
       });
@@ -206,7 +207,7 @@ export function registerDocumentRoutes(app: Express): void {
         result.filename
       );
 
-      if (!attachment || !attachment.content) {
+      if (!attachment) {
         return res.status(404).json({
           success: false,
           message: 'Attachment content not available'
@@ -224,16 +225,23 @@ export function registerDocumentRoutes(app: Express): void {
         }
       }
 
-      const buffer = Buffer.isBuffer(attachment.content)
-        ? attachment.content
-        : Buffer.from(attachment.content, 'base64');
+      const stream = await attachmentContentService.openStream(attachment);
+      if (!stream) {
+        return res.status(404).json({
+          success: false,
+          message: 'Attachment content not available'
+        });
+      }
 
       const filename = attachment.originalName || result.filename;
       res.setHeader('Content-Disposition', `${mode}; filename="${filename}"`);
       res.setHeader('Content-Type', attachment.contentType || result.fileType || 'application/octet-stream');
-      res.setHeader('Content-Length', buffer.length);
 
-      return res.send(buffer);
+      stream.on('error', (streamError) => {
+        console.error('[DocumentRoutes] Error streaming file:', streamError);
+        res.destroy(streamError);
+      });
+      return stream.pipe(res);
     } catch (error) {
       console.error('[DocumentRoutes] Error serving file:', error);
       return res.status(500).json({
@@ -1,49 +1,82 @@
-import { Express } from 'express';
+import express, { Express, RequestHandler } from 'express';
 import { storage } from '../storage';
 import { isAuthenticated } from '../googleAuth';
-import { insertEmailCredentialsSchema } from '@email-task-router/shared';
+import { insertEmailCredentialsSchema, type EmailCredentials } from '@email-task-router/shared';
 import { emailService } from '../services/emailService';
 import { s3EmailBackupProcessor } from '../services/s3EmailBackupProcessor';
+import {
+  checkAttachmentLimits,
+  getInboundBodyLimit,
+  parseJsonInboundEmail,
+  type InboundEmailResult,
+} from '../services/email/inboundEmailPayload';
+import { verifyWebhookSignature, WEBHOOK_SIGNATURE_HEADER, WEBHOOK_TIMESTAMP_HEADER } from '../utils/webhookSignature';
+
+/**
+ * Body parsers for the SES inbound webhook. They must run before the app-wide express.json() so the
+ * raw bytes are kept for signature verification and attachment-sized bodies are accepted.
+ */
+export function inboundEmailBodyParsers(limit: number = getInboundBodyLimit()): RequestHandler[] {
+  return [
+    express.raw({ type: 'message/rfc822', limit }),
+    express.json({
+      limit,
+      verify: (req: any, _res, buf) => {
+        req.rawBody = buf;
+      },
+    }),
+  ];
+}
+
+// Mailbox passwords are write-only; they are decrypted only to open the IMAP connection
+function withoutPassword({ imapPassword, ...credentials }: EmailCredentials) {
+  return credentials;
+}
 
 export function registerEmailRoutes(app: Express) {
   // SES Inbound Email Webhook (for AWS Lambda integration)
-  app.post('/api/inbound/email', async (req, res) => {
+  // Takes the raw MIME message or JSON with base64 attachments; see inboundEmailBodyParsers
+  app.post('/api/inbound/email', async (req: any, res) => {
     try {
-      // Security: Validate shared secret
-      const authToken = req.headers['x-auth-token'] || req.headers['x-signature'];
-      const expectedToken = process.env.SES_WEBHOOK_SECRET || 'your-webhook-secret';
-      
-      if (!authToken || authToken !== expectedToken) {
-        console.log('❌ [SES] Unauthorized webhook request');
+      // Security: Verify the HMAC signature over the raw request body
+      const rawBody: Buffer | undefined = Buffer.isBuffer(req.body) ? req.body : req.rawBody;
+      const check = verifyWebhookSignature({
+        secret: process.env.SES_WEBHOOK_SECRET,
+        signature: req.get(WEBHOOK_SIGNATURE_HEADER),
+        timestamp: req.get(WEBHOOK_TIMESTAMP_HEADER),
+        body: rawBody || Buffer.alloc(0),
+      });
+
+      if (!check.valid) {
+        if (check.reason === 'missing_secret') {
+          console.error('❌ [SES] SES_WEBHOOK_SECRET is not set, refusing inbound webhook requests');
+          return res.status(503).json({ message: 'Inbound webhook is not configured' });
+        }
+        console.log(`❌ [SES] Unauthorized webhook request (${check.reason})`);
         return res.status(401).json({ message: 'Unauthorized' });
       }
+      if (!rawBody) {
+        return res.status(415).json({ message: 'Send message/rfc822 or application/json' });
+      }
 
-      const { messageId, subject, from, to, cc, bcc, body, date, headers } = req.body;
-
-      // Validate required fields
-      if (!messageId || !subject || !from || !to || !body) {
-        console.log('❌ [SES] Missing required fields in webhook payload');
-        return res.status(400).json({ message: 'Missing required fields: messageId, subject, from, to, body' });
+      let result: InboundEmailResult;
+      if (Buffer.isBuffer(req.body)) {
+        const parsed = await s3EmailBackupProcessor.parseRawEmail(req.body);
+        result = parsed
+          ? checkAttachmentLimits(parsed)
+          : { status: 400, message: 'Could not parse MIME message' };
+      } else {
+        result = parseJsonInboundEmail(req.body);
       }
 
-      // Create EmailData object
-      const emailData = {
-        messageId,
-        subject,
-        from,
-        to: Array.isArray(to) ? to : [to],
-        cc: Array.isArray(cc) ? cc : cc ? [cc] : [],
-        bcc: Array.isArray(bcc) ? bcc : bcc ? [bcc] : [],
-        body,
-        date: date ? new Date(date) : new Date(),
-        // Extract thread info from headers if provided
-        inReplyTo: headers?.['in-reply-to'] || headers?.inReplyTo,
-        references: headers?.references ? (Array.isArray(headers.references) ? headers.references : [headers.references]) : undefined,
-        threadId: headers?.['in-reply-to'] || headers?.inReplyTo || messageId
-      };
+      if (!('email' in result)) {
+        console.log(`❌ [SES] Rejected webhook payload: ${result.message}`);
+        return res.status(result.status).json({ message: result.message });
+      }
+      const emailData = result.email;
 
-      console.log(`📧 [SES] Processing inbound email from ${from}: ${subject}`);
-      console.log(`📧 [SES] Recipients: ${emailData.to.join(', ')}`);
+      console.log(`📧 [SES] Processing inbound email from ${emailData.from}: ${emailData.subject}`);
+      console.log(`📧 [SES] Recipients: ${emailData.to.join(', ')}, attachments: ${emailData.attachments?.length || 0}`);
 
       // Use existing email processing logic with timeout protection
       const processEmailPromise = emailService.processIncomingServiceEmailToQueue(emailData);
@@ -55,10 +88,10 @@ export function registerEmailRoutes(app: Express) {
       
       await Promise.race([processEmailPromise, timeoutPromise]);
 
-      console.log(`✅ [SES] Email processed successfully: ${messageId}`);
+      console.log(`✅ [SES] Email processed successfully: ${emailData.messageId}`);
       res.status(200).json({ 
         message: 'Email processed successfully', 
-        messageId,
+        messageId: emailData.messageId,
         recipients: emailData.to 
       });
 
@@ -73,7 +106,7 @@ export function registerEmailRoutes(app: Express) {
     try {
       const userId = req.user.id;
       const credentials = await storage.getUserEmailCredentials(userId);
-      res.json(credentials);
+      res.json(credentials.map(withoutPassword));
     } catch (error) {
       console.error("Error fetching email credentials:", error);
       res.status(500).json({ message: "Failed to fetch email credentials" });
@@ -92,7 +125,7 @@ export function registerEmailRoutes(app: Express) {
       // Start email monitoring for this user
       emailService.startMonitoring(userId);
       
-      res.json(credentials);
+      res.json(withoutPassword(credentials));
     } catch (error) {
       console.error("Error creating email credentials:", error);
       res.status(500).json({ message: "Failed to create email credentials" });
@@ -0,0 +1,85 @@
+import { Express } from 'express';
+import { isAuthenticated } from '../googleAuth';
+import { deadLetterService } from '../services/deadLetterService';
+
+export function registerFailedEmailRoutes(app: Express) {
+  const isAdmin = (userEmail?: string | null) =>
+    !!userEmail && (userEmail.includes('admin') || !!process.env.ADMIN_EMAILS?.split(',').includes(userEmail));
+
+  // List dead-lettered emails, optionally for one queue (admin only)
+  app.get('/api/admin/failed-emails', isAuthenticated, async (req: any, res) => {
+    try {
+      if (!isAdmin(req.user.email)) {
+        return res.status(403).json({ message: 'Access denied. Admin privileges required.' });
+      }
+
+      const queue = typeof req.query.queue === 'string' && req.query.queue ? req.query.queue : undefined;
+      const limit = Math.min(parseInt(req.query.limit as string) || 100, 500);
+      const failedEmails = await deadLetterService.listFailedEmails(queue, limit);
+
+      res.json(failedEmails);
+    } catch (error) {
+      console.error('Error fetching failed emails:', error);
+      res.status(500).json({ message: 'Failed to fetch failed emails' });
+    }
+  });
+
+  // Inspect one failed email, including its body and recipients (admin only)
+  app.get('/api/admin/failed-emails/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      if (!isAdmin(req.user.email)) {
+        return res.status(403).json({ message: 'Access denied. Admin privileges required.' });
+      }
+
+      const failedEmail = await deadLetterService.getFailedEmail(parseInt(req.params.id));
+      if (!failedEmail) {
+        return res.status(404).json({ message: 'Failed email not found' });
+      }
+
+      res.json(failedEmail);
+    } catch (error) {
+      console.error('Error fetching failed email:', error);
+      res.status(500).json({ message: 'Failed to fetch failed email' });
+    }
+  });
+
+  // Re-run a failed email through the handler pipeline (admin only)
+  app.post('/api/admin/failed-emails/:id/replay', isAuthenticated, async (req: any, res) => {
+    try {
+      if (!isAdmin(req.user.email)) {
+        return res.status(403).json({ message: 'Access denied. Admin privileges required.' });
+      }
+
+      const result = await deadLetterService.replayFailedEmail(parseInt(req.params.id));
+      if (!result) {
+        return res.status(404).json({ message: 'Failed email not found' });
+      }
+
+      console.log(`🔁 [ADMIN] ${req.user.email} replayed failed email ${req.params.id}: ${result.message}`);
+      res.status(result.success ? 200 : 422).json(result);
+    } catch (error) {
+      console.error('Error replaying failed email:', error);
+      res.status(500).json({ message: 'Failed to replay failed email' });
+    }
+  });
+
+  // Discard a failed email from the dead-letter inbox (admin only)
+  app.delete('/api/admin/failed-emails/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      if (!isAdmin(req.user.email)) {
+        return res.status(403).json({ message: 'Access denied. Admin privileges required.' });
+      }
+
+      const discarded = await deadLetterService.discardFailedEmail(parseInt(req.params.id));
+      if (!discarded) {
+        return res.status(404).json({ message: 'Failed email not found' });
+      }
+
+      console.log(`🗑️ [ADMIN] ${req.user.email} discarded failed email ${req.params.id}`);
+      res.json({ success: true });
+    } catch (error) {
+      console.error('Error discarding failed email:', error);
+      res.status(500).json({ message: 'Failed to discard failed email' });
+    }
+  });
+}
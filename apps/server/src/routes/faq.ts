@@ -1,6 +1,23 @@
 import { Express } from 'express';
 import { storage } from '../storage';
 import { isAuthenticated } from '../googleAuth';
+import { faqReviewService } from '../services/faqReviewService';
+import type { FAQInquiry } from '@email-task-router/shared';
+
+function serializeInquiry(inquiry: FAQInquiry) {
+  return {
+    id: inquiry.id.toString(),
+    askerEmail: inquiry.askerEmail,
+    subject: inquiry.subject,
+    question: inquiry.question,
+    answer: inquiry.approvedAnswer ?? inquiry.draftAnswer,
+    status: inquiry.status,
+    confidence: inquiry.confidence,
+    faqEntryId: inquiry.faqEntryId,
+    followUpSentAt: inquiry.followUpSentAt?.toISOString() ?? null,
+    createdAt: (inquiry.createdAt || new Date()).toISOString()
+  };
+}
 
 export function registerFAQRoutes(app: Express) {
   // Get organization setup status
@@ -245,7 +262,7 @@ export function registerFAQRoutes(app: Express) {
     }
   });
 
-  // Get FAQ inquiries (recent questions/answers)
+  // Get FAQ inquiries (recent questions sent to the FAQ address)
   app.get('/api/faq/inquiries', isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.id;
@@ -260,20 +277,9 @@ export function registerFAQRoutes(app: Express) {
         });
       }
       
-      // Get recent FAQ entries (which include both manual entries and auto-generated from emails)
-      const entries = await storage.getFAQEntriesByOrganization(organization.id);
+      const inquiries = await storage.getFAQInquiriesByOrganization(organization.id, undefined, limit);
       
-      const recentInquiries = entries
-        .sort((a, b) => new Date(b.createdAt || new Date()).getTime() - new Date(a.createdAt || new Date()).getTime())
-        .slice(0, limit)
-        .map(entry => ({
-          id: entry.id.toString(),
-          question: entry.question,
-          answer: entry.answer,
-          category: entry.category,
-          createdAt: (entry.createdAt || new Date()).toISOString(),
-          isAutoGenerated: entry.question.length > 150 // Assume longer questions are from emails
-        }));
+      const recentInquiries = inquiries.map(serializeInquiry);
       
       console.log(`📋 [FAQ] Found ${recentInquiries.length} recent inquiries`);
       res.json(recentInquiries);
@@ -286,6 +292,83 @@ export function registerFAQRoutes(app: Express) {
     }
   });
 
+  // Get inquiries waiting for the owner's answer
+  app.get('/api/faq/reviews', isAuthenticated, async (req: any, res) => {
+    try {
+      const organization = await storage.getFAQOrganizationByUser(req.user.id);
+      if (!organization) {
+        return res.status(404).json({
+          message: 'No organization found for user'
+        });
+      }
+      
+      const pending = await storage.getFAQInquiriesByOrganization(organization.id, 'pending_review', 100);
+      res.json(pending.map(serializeInquiry));
+    } catch (error) {
+      console.error('Error getting FAQ review queue:', error);
+      res.status(500).json({
+        message: 'Failed to get FAQ review queue',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  });
+
+  // Approve an answer: adds it to the FAQ and emails the asker
+  app.post('/api/faq/reviews/:id/approve', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const answer = typeof req.body.answer === 'string' ? req.body.answer.trim() : '';
+      if (!answer) {
+        return res.status(400).json({ message: 'Answer text is required' });
+      }
+      
+      const organization = await storage.getFAQOrganizationByUser(userId);
+      if (!organization) {
+        return res.status(404).json({
+          message: 'No organization found for user'
+        });
+      }
+      
+      const inquiry = await faqReviewService.approve(organization, parseInt(req.params.id), answer, userId);
+      if (!inquiry) {
+        return res.status(404).json({ message: 'No pending inquiry found' });
+      }
+      
+      res.json(serializeInquiry(inquiry));
+    } catch (error) {
+      console.error('Error approving FAQ inquiry:', error);
+      res.status(500).json({
+        message: 'Failed to approve FAQ inquiry',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  });
+
+  // Close an inquiry without answering it
+  app.post('/api/faq/reviews/:id/dismiss', isAuthenticated, async (req: any, res) => {
+    try {
+      const organization = await storage.getFAQOrganizationByUser(req.user.id);
+      if (!organization) {
+        return res.status(404).json({
+          message: 'No organization found for user'
+        });
+      }
+      
+      const inquiry = await faqReviewService.dismiss(organization, parseInt(req.params.id));
+      if (!inquiry) {
+        return res.status(404).json({ message: 'No pending inquiry found' });
+      }
+      
+      res.json(serializeInquiry(inquiry));
+    } catch (error) {
+      console.error('Error dismissing FAQ inquiry:', error);
+      res.status(500).json({
+        message: 'Failed to dismiss FAQ inquiry',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  });
+
   // Test FAQ processing endpoint
   app.post('/api/faq/test-inquiry', isAuthenticated, async (req: any, res) => {
     try {
@@ -0,0 +1,80 @@
+import crypto from 'crypto';
+import { Express } from 'express';
+import { isAuthenticated } from '../googleAuth';
+import { emailService } from '../services/emailService';
+import { mailboxOAuthService } from '../services/mailboxOAuth/mailboxOAuthService';
+import { isMailboxProviderId } from '../services/mailboxOAuth/providers';
+
+// Where the browser lands after the provider's consent screen; the web app shows the outcome
+function dashboardRedirect(result: 'connected' | 'error', provider: string, reason?: string): string {
+  const params = new URLSearchParams({ mailbox: result, provider, ...(reason ? { reason } : {}) });
+  return `/dashboard?${params.toString()}`;
+}
+
+export function registerMailboxRoutes(app: Express) {
+  // Linked mailboxes and the providers a mailbox can be linked with
+  app.get('/api/mailboxes', isAuthenticated, async (req: any, res) => {
+    try {
+      const accounts = await mailboxOAuthService.listMailboxes(req.user.id);
+      const providers = mailboxOAuthService.getProviders().map(({ id, name }) => ({ id, name }));
+      res.json({ providers, accounts });
+    } catch (error) {
+      console.error('Error fetching linked mailboxes:', error);
+      res.status(500).json({ message: 'Failed to fetch linked mailboxes' });
+    }
+  });
+
+  // Start linking a mailbox: redirect to the provider's consent screen
+  app.get('/api/mailboxes/oauth/:provider/connect', isAuthenticated, (req: any, res) => {
+    const { provider } = req.params;
+    if (!isMailboxProviderId(provider) || !mailboxOAuthService.getProvider(provider)) {
+      return res.status(404).json({ message: `Mailbox provider ${provider} is not available` });
+    }
+
+    const state = crypto.randomBytes(24).toString('hex');
+    req.session.mailboxOAuth = { state, provider };
+    res.redirect(mailboxOAuthService.getAuthorizationUrl(provider, state));
+  });
+
+  app.get('/api/mailboxes/oauth/:provider/callback', isAuthenticated, async (req: any, res) => {
+    const { provider } = req.params;
+    const { code, state, error } = req.query;
+    const pending = req.session.mailboxOAuth;
+    delete req.session.mailboxOAuth;
+
+    if (!isMailboxProviderId(provider)) {
+      return res.status(404).json({ message: `Mailbox provider ${provider} is not available` });
+    }
+    if (error) {
+      return res.redirect(dashboardRedirect('error', provider, String(error)));
+    }
+    if (!pending || pending.provider !== provider || typeof state !== 'string' || state !== pending.state || typeof code !== 'string') {
+      return res.redirect(dashboardRedirect('error', provider, 'invalid_state'));
+    }
+
+    try {
+      await mailboxOAuthService.connectMailbox(req.user.id, provider, code);
+      emailService.startMonitoring(req.user.id);
+      res.redirect(dashboardRedirect('connected', provider));
+    } catch (connectError) {
+      console.error(`Error linking ${provider} mailbox:`, connectError);
+      res.redirect(dashboardRedirect('error', provider, 'connect_failed'));
+    }
+  });
+
+  app.delete('/api/mailboxes/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const removed = await mailboxOAuthService.disconnectMailbox(req.user.id, parseInt(req.params.id, 10));
+      if (!removed) {
+        return res.status(404).json({ message: 'Linked mailbox not found' });
+      }
+      // Fall back to IMAP password credentials, if any, or stop monitoring
+      await emailService.stopMonitoring(req.user.id);
+      emailService.startMonitoring(req.user.id);
+      res.json({ success: true });
+    } catch (error) {
+      console.error('Error unlinking mailbox:', error);
+      res.status(500).json({ message: 'Failed to unlink mailbox' });
+    }
+  });
+}
@@ -2,6 +2,7 @@ import { Express } from 'express';
 import { isAuthenticated } from '../googleAuth';
 import { storage } from '../storage';
 import { insertNotificationPreferencesSchema } from '@email-task-router/shared';
+import { isValidTimeZone, weeklyDigestService } from '../services/weeklyDigestService';
 
 export function registerNotificationRoutes(app: Express) {
   
@@ -37,12 +38,17 @@ export function registerNotificationRoutes(app: Express) {
     try {
       const userId = req.user.id;
       
-      // Validate the request body
+      // Validate the request body; the digest schedule is tracked by the server only
+      const { weeklyDigestLastSentAt, ...body } = req.body ?? {};
       const validatedData = insertNotificationPreferencesSchema.parse({
         userId,
-        ...req.body
+        ...body
       });
 
+      if (validatedData.timezone != null && !isValidTimeZone(validatedData.timezone)) {
+        return res.status(400).json({ message: `Unknown time zone: ${validatedData.timezone}` });
+      }
+
       const preferences = await storage.upsertNotificationPreferences(userId, validatedData);
       
       res.json({
@@ -97,4 +103,39 @@ export function registerNotificationRoutes(app: Express) {
       res.status(500).json({ message: 'Failed to update notification setting' });
     }
   });
-}
\ No newline at end of file
+
+  // Preview this week's digest as it would be emailed (format=html|text|json)
+  app.get('/api/notifications/digest/preview', isAuthenticated, async (req: any, res) => {
+    try {
+      const format = typeof req.query.format === 'string' ? req.query.format : 'html';
+      if (!['html', 'text', 'json'].includes(format)) {
+        return res.status(400).json({ message: 'format must be html, text or json' });
+      }
+
+      const user = await storage.getUser(req.user.id);
+      if (!user) {
+        return res.status(404).json({ message: 'User not found' });
+      }
+      const preferences = await storage.getNotificationPreferences(user.id);
+      const digest = await weeklyDigestService.buildDigest(user, preferences);
+
+      if (format === 'html') {
+        return res.type('html').send(digest.html);
+      }
+      if (format === 'text') {
+        return res.type('text').send(digest.text);
+      }
+      res.json({
+        subject: digest.subject,
+        since: digest.since,
+        until: digest.until,
+        isEmpty: digest.isEmpty,
+        timezone: preferences?.timezone ?? 'UTC',
+        activity: digest.activity,
+      });
+    } catch (error) {
+      console.error('Error building weekly digest preview:', error);
+      res.status(500).json({ message: 'Failed to build weekly digest preview' });
+    }
+  });
+}
@@ -1,14 +1,29 @@
 import { Router, type Router as ExpressRouter } from 'express';
 import { performanceMonitor } from '../services/performanceMonitor';
 import { batchProcessingQueue } from '../services/batchProcessingQueue';
+import { aiUsageService } from '../services/aiUsage/aiUsageService';
 import { isAuthenticated as requireAuth } from '../googleAuth';
 
 const router: ExpressRouter = Router();
 
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Performance and cost data span every company, so they are limited to admins
+ */
+const requireAdmin = (req: any, res: any, next: any) => {
+  const userEmail: string | undefined = req.user?.email;
+  const isAdmin = !!userEmail && (userEmail.includes('admin') || !!process.env.ADMIN_EMAILS?.split(',').includes(userEmail));
+  if (!isAdmin) {
+    return res.status(403).json({ success: false, error: 'Access denied. Admin privileges required.' });
+  }
+  next();
+};
+
 /**
  * Get performance dashboard data
  */
-router.get('/dashboard', requireAuth, async (req, res) => {
+router.get('/dashboard', requireAuth, requireAdmin, async (req, res) => {
   try {
     const dashboard = performanceMonitor.getPerformanceDashboard();
     const queueStats = batchProcessingQueue.getQueueStats();
@@ -32,7 +47,7 @@ router.get('/dashboard', requireAuth, async (req, res) => {
 /**
  * Get agent-specific performance stats
  */
-router.get('/agent/:agentName', requireAuth, async (req, res) => {
+router.get('/agent/:agentName', requireAuth, requireAdmin, async (req, res) => {
   try {
     const { agentName } = req.params;
     const timeWindow = parseInt(req.query.timeWindow as string) || 24 * 60 * 60 * 1000; // 24 hours default
@@ -59,7 +74,7 @@ router.get('/agent/:agentName', requireAuth, async (req, res) => {
 /**
  * Get batch processing queue status
  */
-router.get('/queue', requireAuth, async (req, res) => {
+router.get('/queue', requireAuth, requireAdmin, async (req, res) => {
   try {
     const queueStats = batchProcessingQueue.getQueueStats();
     
@@ -79,7 +94,7 @@ router.get('/queue', requireAuth, async (req, res) => {
 /**
  * Force process all queues (emergency endpoint)
  */
-router.post('/queue/force-process', requireAuth, async (req, res) => {
+router.post('/queue/force-process', requireAuth, requireAdmin, async (req, res) => {
   try {
     console.log(`🚨 [Performance] Force processing all queues requested by user`);
     await batchProcessingQueue.forceProcessAll();
@@ -97,10 +112,37 @@ router.post('/queue/force-process', requireAuth, async (req, res) => {
   }
 });
 
+/**
+ * Get recorded Claude usage and cost by agent, model, company and day. Unlike the dashboard's
+ * in-memory cost estimate it covers every request since the given number of days and survives restarts.
+ */
+router.get('/costs', requireAuth, requireAdmin, async (req, res) => {
+  try {
+    const days = Math.min(Math.max(parseInt(req.query.days as string) || 30, 1), 366);
+    const companyId = req.query.companyId ? parseInt(req.query.companyId as string) : undefined;
+    if (companyId !== undefined && isNaN(companyId)) {
+      return res.status(400).json({ success: false, error: 'Invalid companyId' });
+    }
+
+    const costBreakdown = await aiUsageService.getCostBreakdown(new Date(Date.now() - days * DAY_MS), companyId);
+
+    res.json({
+      success: true,
+      data: costBreakdown
+    });
+  } catch (error) {
+    console.error('Error getting AI cost breakdown:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to get cost breakdown'
+    });
+  }
+});
+
 /**
  * Export performance metrics
  */
-router.get('/export', requireAuth, async (req, res) => {
+router.get('/export', requireAuth, requireAdmin, async (req, res) => {
   try {
     const format = (req.query.format as string) || 'json';
     const timeWindow = parseInt(req.query.timeWindow as string) || undefined;
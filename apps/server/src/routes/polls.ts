@@ -0,0 +1,124 @@
+import { Express } from 'express';
+import { storage } from '../storage';
+import { isAuthenticated } from '../googleAuth';
+import { isPollExpired, resolveVoteSelection } from '../utils/pollTally';
+import type { Poll } from '@email-task-router/shared';
+
+export function registerPollRoutes(app: Express) {
+  // A poll is visible to its creator, the recipients it was sent to, and participants of its project
+  const canAccessPoll = async (poll: Poll, user: { id: string; email?: string | null }) => {
+    if (poll.createdBy === user.id) return true;
+    if (user.email && (poll.participantEmails || []).includes(user.email.toLowerCase())) return true;
+    if (poll.projectId && await storage.isUserProjectParticipant(poll.projectId, user.id)) return true;
+    return false;
+  };
+
+  // List polls the user created, was invited to, or voted in
+  app.get('/api/polls', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.id;
+      const polls = await storage.getUserPolls(userId, req.user.email);
+
+      const pollsWithResults = await Promise.all(polls.map(async poll => ({
+        ...poll,
+        isExpired: isPollExpired(poll),
+        canVote: await storage.canUserVote(poll.id, userId),
+        results: await storage.getPollResults(poll.id),
+      })));
+
+      res.json(pollsWithResults);
+    } catch (error) {
+      console.error('Error fetching polls:', error);
+      res.status(500).json({ message: 'Failed to fetch polls' });
+    }
+  });
+
+  app.get('/api/polls/:id', isAuthenticated, async (req: any, res) => {
+    try {
+      const pollId = parseInt(req.params.id);
+      const poll = await storage.getPoll(pollId);
+      if (!poll) {
+        return res.status(404).json({ message: 'Poll not found' });
+      }
+      if (!await canAccessPoll(poll, req.user)) {
+        return res.status(403).json({ message: 'Access denied to this poll' });
+      }
+
+      res.json({
+        ...poll,
+        isExpired: isPollExpired(poll),
+        canVote: await storage.canUserVote(poll.id, req.user.id),
+        results: await storage.getPollResults(poll.id),
+      });
+    } catch (error) {
+      console.error('Error fetching poll:', error);
+      res.status(500).json({ message: 'Failed to fetch poll' });
+    }
+  });
+
+  // Live tally for a poll
+  app.get('/api/polls/:id/results', isAuthenticated, async (req: any, res) => {
+    try {
+      const pollId = parseInt(req.params.id);
+      const poll = await storage.getPoll(pollId);
+      if (!poll) {
+        return res.status(404).json({ message: 'Poll not found' });
+      }
+      if (!await canAccessPoll(poll, req.user)) {
+        return res.status(403).json({ message: 'Access denied to this poll' });
+      }
+
+      res.json(await storage.getPollResults(pollId));
+    } catch (error) {
+      console.error('Error fetching poll results:', error);
+      res.status(500).json({ message: 'Failed to fetch poll results' });
+    }
+  });
+
+  // Cast a vote from the web
+  app.post('/api/polls/:id/votes', isAuthenticated, async (req: any, res) => {
+    try {
+      const pollId = parseInt(req.params.id);
+      const userId = req.user.id;
+      const { selectedOptions, comment } = req.body;
+
+      const poll = await storage.getPoll(pollId);
+      if (!poll) {
+        return res.status(404).json({ message: 'Poll not found' });
+      }
+      if (!await canAccessPoll(poll, req.user)) {
+        return res.status(403).json({ message: 'Access denied to this poll' });
+      }
+      if (isPollExpired(poll)) {
+        return res.status(409).json({ message: 'This poll is no longer accepting votes' });
+      }
+      if (!await storage.canUserVote(pollId, userId)) {
+        return res.status(409).json({ message: 'You have already voted in this poll' });
+      }
+
+      const selection = resolveVoteSelection(poll, selectedOptions);
+      if (selection.error) {
+        return res.status(400).json({ message: selection.error });
+      }
+
+      const vote = await storage.createVote({
+        pollId,
+        userId,
+        selectedOptions: selection.selectedOptions,
+        comment: typeof comment === 'string' && comment.trim() ? comment.trim() : null,
+      });
+
+      res.status(201).json({
+        vote,
+        results: await storage.getPollResults(pollId),
+      });
+    } catch (error) {
+      // A concurrent request cast this voter's ballot after the check above
+      if (error instanceof Error && error.message.includes('has already voted')) {
+        return res.status(409).json({ message: 'You have already voted in this poll' });
+      }
+      console.error('Error recording vote:', error);
+      res.status(500).json({ message: 'Failed to record vote' });
+    }
+  });
+}
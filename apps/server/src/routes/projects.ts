@@ -4,6 +4,10 @@ import { isAuthenticated } from '../googleAuth';
 import { insertProjectSchema, insertTaskSchema } from '@email-task-router/shared';
 import { wsManager } from '../services/websocketManager';
 import { taskNotificationService } from '../services/taskNotificationService';
+import { taskDependencyService } from '../services/taskDependencyService';
+import { recurringTaskScheduler } from '../services/recurringTaskScheduler';
+import { taskActivityService } from '../services/taskActivityService';
+import { normalizeRecurrenceRule } from '../utils/recurrence';
 
 export function registerProjectTaskRoutes(app: Express) {
   const getAccessibleProjectIds = async (userId: string, identityId?: number | null) => {
@@ -20,6 +24,14 @@ export function registerProjectTaskRoutes(app: Express) {
     return Array.from(projectIdSet);
   };
 
+  // Same rule as deleting a task: its creator, the project's creator or a project participant
+  const canAccessTask = async (task: { createdBy: string; projectId: number }, userId: string) => {
+    if (task.createdBy === userId) return true;
+    const project = await storage.getProject(task.projectId);
+    if (project?.createdBy === userId) return true;
+    return !!(await storage.getProjectParticipant(task.projectId, userId));
+  };
+
   // Project routes
   app.get('/api/projects', isAuthenticated, async (req: any, res) => {
     try {
@@ -164,8 +176,9 @@ export function registerProjectTaskRoutes(app: Express) {
       }
       
       const tasks = await storage.getTasksWithAssignees(projectId);
+      const dependencySummaries = await taskDependencyService.getProjectSummaries(projectId, tasks);
       console.log(`✅ [PROJECT-TASKS] Found ${tasks.length} tasks for project ${projectId}`);
-      res.json(tasks);
+      res.json(tasks.map(task => ({ ...task, ...dependencySummaries.get(task.id) })));
     } catch (error) {
       console.error("Error fetching tasks:", error);
       res.status(500).json({ message: "Failed to fetch tasks" });
@@ -263,9 +276,17 @@ export function registerProjectTaskRoutes(app: Express) {
   app.patch('/api/tasks/:id', isAuthenticated, async (req: any, res) => {
     try {
       const taskId = parseInt(req.params.id);
-      const updates = req.body;
+      // The series bookkeeping is managed by the recurring task scheduler
+      const { recurrenceSeriesId, recurrenceIndex, recurrenceProcessedAt, ...updates } = req.body;
       const userId = req.user.id;
       
+      if (updates.recurrenceRule !== undefined && updates.recurrenceRule !== null) {
+        updates.recurrenceRule = normalizeRecurrenceRule(updates.recurrenceRule);
+        if (!updates.recurrenceRule) {
+          return res.status(400).json({ message: "Invalid recurrence rule" });
+        }
+      }
+      
       // Get the current task to compare status changes
       const currentTask = await storage.getTask(taskId);
       if (!currentTask) {
@@ -273,6 +294,7 @@ export function registerProjectTaskRoutes(app: Express) {
       }
       
       const task = await storage.updateTask(taskId, updates);
+      await taskActivityService.recordChanges(currentTask, task, userId);
       
       // Send notification for status changes
       if (updates.status && updates.status !== currentTask.status) {
@@ -289,11 +311,23 @@ export function registerProjectTaskRoutes(app: Express) {
         }
       }
       
+      // Tasks waiting on this one are blocked or released with it
+      const updatedDependents = updates.status && updates.status !== currentTask.status
+        ? await taskDependencyService.refreshDependents(taskId)
+        : [];
+      
+      // Completing an occurrence of a recurring task schedules the next one
+      if (updates.status && updates.status !== currentTask.status) {
+        await recurringTaskScheduler.handleStatusChange(task);
+      }
+      
       // Use secure WebSocket manager for broadcasting
-      await wsManager.broadcastToTaskUsers({
-        type: 'task_update',
-        data: task
-      }, task.id);
+      for (const updatedTask of [task, ...updatedDependents]) {
+        await wsManager.broadcastToTaskUsers({
+          type: 'task_update',
+          data: updatedTask
+        }, updatedTask.id);
+      }
       
       res.json(task);
     } catch (error) {
@@ -327,8 +361,16 @@ export function registerProjectTaskRoutes(app: Express) {
         return res.status(403).json({ message: "Not authorized to delete this task" });
       }
       
-      // Delete the task
+      // Delete the task; its dependency rows go with it, so capture who was waiting on it first
+      const dependentIds = (await storage.getTaskDependents(taskId)).map(edge => edge.taskId);
       await storage.deleteTask(taskId);
+      const updatedDependents = await taskDependencyService.refreshDependents(taskId, dependentIds);
+      for (const updatedTask of updatedDependents) {
+        await wsManager.broadcastToTaskUsers({
+          type: 'task_update',
+          data: updatedTask
+        }, updatedTask.id);
+      }
       
       // Use secure WebSocket manager for broadcasting task deletion
       await wsManager.broadcastToTaskUsers({
@@ -343,6 +385,144 @@ export function registerProjectTaskRoutes(app: Express) {
     }
   });
 
+  // Task dependency routes
+  app.get('/api/tasks/:id/dependencies', isAuthenticated, async (req: any, res) => {
+    try {
+      const task = await storage.getTask(parseInt(req.params.id));
+      if (!task) {
+        return res.status(404).json({ message: "Task not found" });
+      }
+      if (!await canAccessTask(task, req.user.id)) {
+        return res.status(403).json({ message: "Not authorized to view this task" });
+      }
+
+      res.json(await taskDependencyService.getTaskSummary(task));
+    } catch (error) {
+      console.error("Error fetching task dependencies:", error);
+      res.status(500).json({ message: "Failed to fetch task dependencies" });
+    }
+  });
+
+  app.post('/api/tasks/:id/dependencies', isAuthenticated, async (req: any, res) => {
+    try {
+      const taskId = parseInt(req.params.id);
+      const dependsOnTaskId = parseInt(req.body.dependsOnTaskId);
+
+      if (!dependsOnTaskId) {
+        return res.status(400).json({ message: "dependsOnTaskId is required" });
+      }
+
+      const [task, dependsOnTask] = await Promise.all([storage.getTask(taskId), storage.getTask(dependsOnTaskId)]);
+      if (!task || !dependsOnTask) {
+        return res.status(404).json({ message: "Task not found" });
+      }
+      if (!await canAccessTask(task, req.user.id) || !await canAccessTask(dependsOnTask, req.user.id)) {
+        return res.status(403).json({ message: "Not authorized to change dependencies of this task" });
+      }
+
+      const result = await taskDependencyService.addDependency(taskId, dependsOnTaskId);
+      if (!result.success) {
+        const status = result.error === 'Task not found' ? 404 : 400;
+        return res.status(status).json({ message: result.error });
+      }
+
+      for (const updatedTask of result.updatedTasks) {
+        await wsManager.broadcastToTaskUsers({
+          type: 'task_update',
+          data: updatedTask
+        }, updatedTask.id);
+      }
+
+      res.json(result.dependency);
+    } catch (error) {
+      console.error("Error adding task dependency:", error);
+      res.status(500).json({ message: "Failed to add task dependency" });
+    }
+  });
+
+  app.delete('/api/tasks/:id/dependencies/:dependsOnTaskId', isAuthenticated, async (req: any, res) => {
+    try {
+      const taskId = parseInt(req.params.id);
+      const dependsOnTaskId = parseInt(req.params.dependsOnTaskId);
+
+      const [task, dependsOnTask] = await Promise.all([storage.getTask(taskId), storage.getTask(dependsOnTaskId)]);
+      if (!task) {
+        return res.status(404).json({ message: "Task not found" });
+      }
+      // The predecessor may already be gone; only check access to it while it exists
+      if (!await canAccessTask(task, req.user.id) || (dependsOnTask && !await canAccessTask(dependsOnTask, req.user.id))) {
+        return res.status(403).json({ message: "Not authorized to change dependencies of this task" });
+      }
+
+      const updatedTasks = await taskDependencyService.removeDependency(taskId, dependsOnTaskId);
+      for (const updatedTask of updatedTasks) {
+        await wsManager.broadcastToTaskUsers({
+          type: 'task_update',
+          data: updatedTask
+        }, updatedTask.id);
+      }
+
+      res.json({ message: "Dependency removed successfully", taskId, dependsOnTaskId });
+    } catch (error) {
+      console.error("Error removing task dependency:", error);
+      res.status(500).json({ message: "Failed to remove task dependency" });
+    }
+  });
+
+  // Task activity timeline and comments
+  app.get('/api/tasks/:id/activity', isAuthenticated, async (req: any, res) => {
+    try {
+      const taskId = parseInt(req.params.id);
+      const task = await storage.getTask(taskId);
+      if (!task) {
+        return res.status(404).json({ message: "Task not found" });
+      }
+      if (!await canAccessTask(task, req.user.id)) {
+        return res.status(403).json({ message: "Not authorized to view this task" });
+      }
+
+      res.json(await storage.getTaskActivities(taskId));
+    } catch (error) {
+      console.error("Error fetching task activity:", error);
+      res.status(500).json({ message: "Failed to fetch task activity" });
+    }
+  });
+
+  app.post('/api/tasks/:id/comments', isAuthenticated, async (req: any, res) => {
+    try {
+      const taskId = parseInt(req.params.id);
+      const body = typeof req.body.body === 'string' ? req.body.body.trim() : '';
+      if (!body) {
+        return res.status(400).json({ message: "Comment body is required" });
+      }
+
+      const task = await storage.getTask(taskId);
+      if (!task) {
+        return res.status(404).json({ message: "Task not found" });
+      }
+      if (!await canAccessTask(task, req.user.id)) {
+        return res.status(403).json({ message: "Not authorized to comment on this task" });
+      }
+
+      const author = await storage.getUser(req.user.id);
+      if (!author) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const comment = await taskActivityService.addComment(task, author, body);
+
+      await wsManager.broadcastToTaskUsers({
+        type: 'task_activity',
+        data: comment
+      }, taskId);
+
+      res.status(201).json(comment);
+    } catch (error) {
+      console.error("Error adding task comment:", error);
+      res.status(500).json({ message: "Failed to add task comment" });
+    }
+  });
+
   app.get('/api/tasks', isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.id;
@@ -516,6 +696,7 @@ export function registerProjectTaskRoutes(app: Express) {
         taskId,
         userId: assigneeUserId,
       });
+      await taskActivityService.recordAssignment(taskId, assigneeUserId, assignerUserId, true);
 
       // Send notification to the newly assigned user
       if (assigneeUserId !== assignerUserId) {
@@ -558,6 +739,7 @@ export function registerProjectTaskRoutes(app: Express) {
 
       // Remove the assignee
       await storage.removeTaskAssignee(taskId, assigneeUserId);
+      await taskActivityService.recordAssignment(taskId, assigneeUserId, req.user.id, false);
 
       // Broadcast update via WebSocket
       await wsManager.broadcastToTaskUsers({
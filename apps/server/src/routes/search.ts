@@ -0,0 +1,72 @@
+import { Express } from 'express';
+import { isAuthenticated } from '../googleAuth';
+import { storage } from '../storage';
+import { extractCompanyContext, getEffectiveCompanyId, verifyCompanyAccess } from '../middleware/companyContext';
+import type { SearchFilters, SearchSourceType } from '@email-task-router/shared';
+
+const SEARCH_SOURCES: SearchSourceType[] = ['email', 'task', 'attachment', 't5t'];
+const MAX_QUERY_LENGTH = 200;
+
+/**
+ * Read the facet filters from the query string; returns an error message for invalid values
+ */
+function parseSearchFilters(query: Record<string, unknown>): { filters: SearchFilters } | { error: string } {
+  const filters: SearchFilters = {};
+
+  if (typeof query.sources === 'string' && query.sources) {
+    const sources = query.sources.split(',').map(source => source.trim());
+    const unknown = sources.filter(source => !SEARCH_SOURCES.includes(source as SearchSourceType));
+    if (unknown.length > 0) {
+      return { error: `Unknown source type: ${unknown.join(', ')}` };
+    }
+    filters.sources = sources as SearchSourceType[];
+  }
+
+  if (typeof query.agent === 'string' && query.agent) {
+    filters.agentType = query.agent;
+  }
+
+  for (const key of ['from', 'to'] as const) {
+    if (typeof query[key] === 'string' && query[key]) {
+      const date = new Date(query[key] as string);
+      if (isNaN(date.getTime())) {
+        return { error: `Invalid ${key} date` };
+      }
+      filters[key] = date;
+    }
+  }
+
+  return { filters };
+}
+
+export function registerSearchRoutes(app: Express) {
+  // Search emails, tasks, analyzed attachments and T5T submissions in the current company context
+  app.get('/api/search', isAuthenticated, extractCompanyContext, verifyCompanyAccess, async (req: any, res) => {
+    try {
+      const query = typeof req.query.q === 'string' ? req.query.q.trim() : '';
+      if (query.length < 2) {
+        return res.status(400).json({ message: 'Search query must be at least 2 characters' });
+      }
+      if (query.length > MAX_QUERY_LENGTH) {
+        return res.status(400).json({ message: `Search query must be at most ${MAX_QUERY_LENGTH} characters` });
+      }
+
+      const parsed = parseSearchFilters(req.query);
+      if ('error' in parsed) {
+        return res.status(400).json({ message: parsed.error });
+      }
+
+      const limit = Math.min(parseInt(req.query.limit as string) || 20, 50);
+      const offset = Math.max(parseInt(req.query.offset as string) || 0, 0);
+      const companyId = getEffectiveCompanyId(req);
+
+      const results = await storage.searchContent(query, { userId: req.user.id, companyId }, parsed.filters, limit, offset);
+      console.log(`🔎 [SEARCH] "${query}" for ${req.user.id} (${companyId ? `company ${companyId}` : 'individual'}): ${results.total} hits`);
+
+      res.json(results);
+    } catch (error) {
+      console.error('Error searching content:', error);
+      res.status(500).json({ message: 'Failed to search' });
+    }
+  });
+}
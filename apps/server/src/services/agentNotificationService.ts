@@ -6,6 +6,7 @@ interface EmailOptions {
   html?: string;
   cc?: string[];
   bcc?: string[];
+  replyTo?: string;
 }
 
 class AgentNotificationService {
@@ -21,7 +22,8 @@ class AgentNotificationService {
         text: options.text,
         html: options.html,
         cc: options.cc,
-        bcc: options.bcc
+        bcc: options.bcc,
+        replyTo: options.replyTo
       });
       
       if (!success) {
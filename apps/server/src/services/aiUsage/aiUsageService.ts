@@ -0,0 +1,288 @@
+import type { CompanyAiBudget, InsertAiUsageEvent } from '@email-task-router/shared';
+import { storage } from '../../storage';
+import { sendMail } from '../mailer';
+import { escapeHtml } from '../../utils/escape';
+import { getLLMClient } from '../llm/llmClient';
+import type { LLMCallInfo, LLMRequest, LLMResponse } from '../llm/types';
+import { calculateCostUsd } from './pricing';
+import { getAiUsageContext } from './usageContext';
+
+export const AI_BUDGET_EXCEEDED = 'AI_BUDGET_EXCEEDED';
+
+export type AiBudgetState = 'ok' | 'soft_limit' | 'hard_limit';
+
+export interface AiBudgetStatus {
+  companyId: number;
+  monthStart: Date;
+  spentUsd: number;
+  softLimitUsd: number | null;
+  hardLimitUsd: number | null;
+  state: AiBudgetState;
+}
+
+export interface AiUsageTotals {
+  requests: number;
+  failedRequests: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+}
+
+export interface AiCostBreakdown {
+  since: Date;
+  total: AiUsageTotals;
+  byAgent: Array<AiUsageTotals & { agent: string }>;
+  byModel: Array<AiUsageTotals & { model: string }>;
+  byCompany: Array<AiUsageTotals & { companyId: number | null; companyName: string | null }>;
+  daily: Array<AiUsageTotals & { day: string }>;
+}
+
+export function isAiBudgetExceeded(error: unknown): boolean {
+  return (error as { code?: string } | null)?.code === AI_BUDGET_EXCEEDED;
+}
+
+export function startOfMonth(date: Date = new Date()): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1));
+}
+
+/**
+ * AI usage service
+ * Every LLM request goes through complete, which refuses requests for companies past their hard
+ * monthly limit, sends the request to the configured provider, then records model, tokens, latency
+ * and cost against the agent, company and user of the active usage context. Budgets are per
+ * company and calendar month (UTC); usage not attributed to a company is recorded but never limited.
+ */
+export class AiUsageService {
+  /**
+   * @param call.agent overrides the agent of the active usage context
+   */
+  async complete(request: LLMRequest, call: LLMCallInfo): Promise<LLMResponse> {
+    const context = getAiUsageContext();
+    const agent = call.agent || context.agent || 'unattributed';
+    const companyId = context.companyId ?? (context.resolveCompanyId ? await context.resolveCompanyId() : null);
+
+    if (companyId !== null) {
+      await this.enforceBudget(companyId);
+    }
+
+    const client = getLLMClient();
+    const startedAt = Date.now();
+    try {
+      const response = await client.complete(request, { operation: call.operation, agent });
+      await this.record({
+        model: response.model,
+        agent,
+        operation: call.operation,
+        companyId,
+        userId: context.userId ?? null,
+        inputTokens: response.usage.inputTokens,
+        outputTokens: response.usage.outputTokens,
+        cacheCreationTokens: response.usage.cacheCreationTokens ?? 0,
+        cacheReadTokens: response.usage.cacheReadTokens ?? 0,
+        latencyMs: Date.now() - startedAt,
+        success: true,
+      }, response.provider === 'anthropic');
+      return response;
+    } catch (error) {
+      await this.record({
+        model: request.model || client.provider,
+        agent,
+        operation: call.operation,
+        companyId,
+        userId: context.userId ?? null,
+        inputTokens: 0,
+        outputTokens: 0,
+        latencyMs: Date.now() - startedAt,
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+      }, false);
+      throw error;
+    }
+  }
+
+  /**
+   * Company that usage on behalf of a user is charged to: their company if they belong to exactly
+   * one, none otherwise
+   */
+  async getCompanyForUser(userId: string): Promise<number | null> {
+    const memberships = await storage.getUserCompanyMemberships(userId);
+    return memberships.length === 1 ? memberships[0].companyId : null;
+  }
+
+  /**
+   * Month-to-date spend of a company against its budget, or null if it has none
+   */
+  async getBudgetStatus(companyId: number, now: Date = new Date()): Promise<AiBudgetStatus | null> {
+    return (await this.loadBudget(companyId, now))?.status ?? null;
+  }
+
+  async getCostBreakdown(since: Date, companyId?: number): Promise<AiCostBreakdown> {
+    const rows = await storage.getAiUsageTotals(since, companyId);
+
+    const companyNames = new Map<number, string>();
+    for (const id of new Set(rows.map(row => row.companyId))) {
+      if (id === null) continue;
+      const company = await storage.getCompany(id);
+      if (company) companyNames.set(id, company.name);
+    }
+
+    return {
+      since,
+      total: sumTotals(rows),
+      byAgent: groupTotals(rows, row => row.agent).map(([agent, totals]) => ({ agent, ...totals })).sort(byCost),
+      byModel: groupTotals(rows, row => row.model).map(([model, totals]) => ({ model, ...totals })).sort(byCost),
+      byCompany: groupTotals(rows, row => row.companyId)
+        .map(([id, totals]) => ({ companyId: id, companyName: id !== null ? companyNames.get(id) ?? null : null, ...totals }))
+        .sort(byCost),
+      daily: groupTotals(rows, row => row.day).map(([day, totals]) => ({ day, ...totals })),
+    };
+  }
+
+  /**
+   * Refuse the request when the company is past its hard limit; tell its admins, once a month,
+   * when it passes the soft limit and when requests start being refused
+   */
+  private async enforceBudget(companyId: number): Promise<void> {
+    const now = new Date();
+    const loaded = await this.loadBudget(companyId, now);
+    if (!loaded) return;
+    const { budget, status } = loaded;
+
+    if (status.state === 'hard_limit') {
+      console.warn(`💸 [AI-USAGE] Company ${companyId} is past its hard limit ($${status.spentUsd.toFixed(2)} of $${status.hardLimitUsd!.toFixed(2)}), refusing request`);
+      if (!budget.hardLimitNotifiedAt || budget.hardLimitNotifiedAt < status.monthStart) {
+        await storage.upsertCompanyAiBudget(companyId, { hardLimitNotifiedAt: now });
+        this.notifyAdmins(status).catch(error => {
+          console.error(`❌ [AI-USAGE] Could not notify admins of company ${companyId}:`, error);
+        });
+      }
+      throw Object.assign(
+        new Error(`Monthly AI budget of $${status.hardLimitUsd!.toFixed(2)} reached for company ${companyId}`),
+        { code: AI_BUDGET_EXCEEDED, companyId }
+      );
+    }
+
+    const notifiedThisMonth = budget.softLimitNotifiedAt && budget.softLimitNotifiedAt >= status.monthStart;
+    if (status.state === 'soft_limit' && !notifiedThisMonth) {
+      console.warn(`💸 [AI-USAGE] Company ${companyId} passed its soft limit ($${status.spentUsd.toFixed(2)} of $${status.softLimitUsd!.toFixed(2)})`);
+      await storage.upsertCompanyAiBudget(companyId, { softLimitNotifiedAt: now });
+      this.notifyAdmins(status).catch(error => {
+        console.error(`❌ [AI-USAGE] Could not notify admins of company ${companyId}:`, error);
+      });
+    }
+  }
+
+  private async loadBudget(companyId: number, now: Date): Promise<{ budget: CompanyAiBudget; status: AiBudgetStatus } | null> {
+    const budget = await storage.getCompanyAiBudget(companyId);
+    if (!budget || (budget.softLimitUsd === null && budget.hardLimitUsd === null)) {
+      return null;
+    }
+
+    const monthStart = startOfMonth(now);
+    const spentUsd = await storage.getAiUsageCostSince(companyId, monthStart);
+    const softLimitUsd = budget.softLimitUsd !== null ? Number(budget.softLimitUsd) : null;
+    const hardLimitUsd = budget.hardLimitUsd !== null ? Number(budget.hardLimitUsd) : null;
+
+    let state: AiBudgetState = 'ok';
+    if (hardLimitUsd !== null && spentUsd >= hardLimitUsd) {
+      state = 'hard_limit';
+    } else if (softLimitUsd !== null && spentUsd >= softLimitUsd) {
+      state = 'soft_limit';
+    }
+
+    return { budget, status: { companyId, monthStart, spentUsd: roundUsd(spentUsd), softLimitUsd, hardLimitUsd, state } };
+  }
+
+  /**
+   * Only Claude list prices are known; self-hosted and fixture usage is recorded at no cost
+   */
+  private async record(event: Omit<InsertAiUsageEvent, 'costUsd'>, billable: boolean): Promise<void> {
+    const costUsd = billable
+      ? calculateCostUsd(event.model, {
+        inputTokens: event.inputTokens ?? 0,
+        outputTokens: event.outputTokens ?? 0,
+        cacheCreationTokens: event.cacheCreationTokens ?? 0,
+        cacheReadTokens: event.cacheReadTokens ?? 0,
+      })
+      : 0;
+
+    try {
+      await storage.createAiUsageEvent({ ...event, costUsd: costUsd.toFixed(6) });
+    } catch (error) {
+      // Losing a usage row must not fail the request it describes
+      console.error(`❌ [AI-USAGE] Could not record ${event.agent}/${event.operation} usage:`, error);
+    }
+  }
+
+  private async notifyAdmins(status: AiBudgetStatus): Promise<void> {
+    const company = await storage.getCompany(status.companyId);
+    const memberships = await storage.getCompanyMemberships(status.companyId);
+    const admins = await Promise.all(
+      memberships
+        .filter(membership => membership.role === 'admin' && membership.isActive !== false)
+        .map(membership => storage.getUser(membership.userId))
+    );
+    const recipients = admins.map(admin => admin?.email).filter((email): email is string => !!email);
+    if (recipients.length === 0) return;
+
+    const companyName = company?.name || `Company ${status.companyId}`;
+    const spent = `$${status.spentUsd.toFixed(2)}`;
+    const exhausted = status.state === 'hard_limit';
+    let text: string;
+    if (exhausted) {
+      text = `${companyName} has used ${spent} of AI processing this month and reached its hard limit of $${status.hardLimitUsd!.toFixed(2)}. ` +
+        'AI features are off until next month or until the limit is raised.';
+    } else {
+      const hardLimit = status.hardLimitUsd !== null
+        ? ` AI features stop for the rest of the month at $${status.hardLimitUsd.toFixed(2)}.`
+        : '';
+      text = `${companyName} has used ${spent} of AI processing this month, past its soft limit of $${status.softLimitUsd!.toFixed(2)}.${hardLimit}`;
+    }
+    const title = exhausted ? 'AI Budget Exhausted' : 'AI Budget Warning';
+
+    await sendMail({
+      from: process.env.POSTMARK_FROM_EMAIL || process.env.SERVICE_EMAIL,
+      to: recipients,
+      subject: `💸 ${exhausted ? 'AI budget exhausted' : 'AI budget warning'}: ${companyName}`,
+      text,
+      html: `
+<html>
+<body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333;">
+  <h2 style="color: ${exhausted ? '#DC2626' : '#D97706'};">💸 ${title}</h2>
+  <p>${escapeHtml(text)}</p>
+</body>
+</html>`,
+    });
+  }
+}
+
+type UsageRow = AiUsageTotals & { day: string; agent: string; model: string; companyId: number | null };
+
+function sumTotals(rows: AiUsageTotals[]): AiUsageTotals {
+  const totals = rows.reduce((sum, row) => ({
+    requests: sum.requests + row.requests,
+    failedRequests: sum.failedRequests + row.failedRequests,
+    inputTokens: sum.inputTokens + row.inputTokens,
+    outputTokens: sum.outputTokens + row.outputTokens,
+    costUsd: sum.costUsd + row.costUsd,
+  }), { requests: 0, failedRequests: 0, inputTokens: 0, outputTokens: 0, costUsd: 0 });
+  return { ...totals, costUsd: roundUsd(totals.costUsd) };
+}
+
+function groupTotals<K>(rows: UsageRow[], key: (row: UsageRow) => K): Array<[K, AiUsageTotals]> {
+  const groups = new Map<K, UsageRow[]>();
+  for (const row of rows) {
+    groups.set(key(row), [...(groups.get(key(row)) ?? []), row]);
+  }
+  return [...groups.entries()].map(([value, grouped]) => [value, sumTotals(grouped)]);
+}
+
+function byCost(a: AiUsageTotals, b: AiUsageTotals): number {
+  return b.costUsd - a.costUsd;
+}
+
+function roundUsd(value: number): number {
+  return Math.round(value * 1_000_000) / 1_000_000;
+}
+
+export const aiUsageService = new AiUsageService();
@@ -0,0 +1,46 @@
+/**
+ * Claude list prices in USD per million tokens. Models are matched by prefix so dated snapshots
+ * (e.g. claude-sonnet-4-20250514) share the price of their family.
+ */
+export interface ModelPrice {
+  input: number;
+  output: number;
+  cacheWrite: number;
+  cacheRead: number;
+}
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  cacheCreationTokens?: number;
+  cacheReadTokens?: number;
+}
+
+const MODEL_PRICES: Array<[prefix: string, price: ModelPrice]> = [
+  ['claude-opus-4', { input: 15, output: 75, cacheWrite: 18.75, cacheRead: 1.5 }],
+  ['claude-sonnet-4', { input: 3, output: 15, cacheWrite: 3.75, cacheRead: 0.3 }],
+  ['claude-3-7-sonnet', { input: 3, output: 15, cacheWrite: 3.75, cacheRead: 0.3 }],
+  ['claude-3-5-sonnet', { input: 3, output: 15, cacheWrite: 3.75, cacheRead: 0.3 }],
+  ['claude-3-5-haiku', { input: 0.8, output: 4, cacheWrite: 1, cacheRead: 0.08 }],
+  ['claude-3-opus', { input: 15, output: 75, cacheWrite: 18.75, cacheRead: 1.5 }],
+  ['claude-3-sonnet', { input: 3, output: 15, cacheWrite: 3.75, cacheRead: 0.3 }],
+  ['claude-3-haiku', { input: 0.25, output: 1.25, cacheWrite: 0.3, cacheRead: 0.03 }],
+];
+
+// Unknown models are charged like Sonnet rather than for free
+const FALLBACK_PRICE = MODEL_PRICES[1][1];
+
+export function getModelPrice(model: string): ModelPrice {
+  return MODEL_PRICES.find(([prefix]) => model.startsWith(prefix))?.[1] ?? FALLBACK_PRICE;
+}
+
+export function calculateCostUsd(model: string, usage: TokenUsage): number {
+  const price = getModelPrice(model);
+  const cost = (
+    usage.inputTokens * price.input +
+    usage.outputTokens * price.output +
+    (usage.cacheCreationTokens ?? 0) * price.cacheWrite +
+    (usage.cacheReadTokens ?? 0) * price.cacheRead
+  ) / 1_000_000;
+  return Math.round(cost * 1_000_000) / 1_000_000;
+}
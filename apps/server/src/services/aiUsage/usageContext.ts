@@ -0,0 +1,44 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+/**
+ * Who an LLM request is made for. Entry points (queue jobs, HTTP routes, schedulers) set it
+ * once and every request made further down the call chain is recorded against it.
+ */
+export interface AiUsageContext {
+  agent?: string;
+  companyId?: number | null;
+  userId?: string | null;
+  // Looked up on the first LLM request only, for entry points where most work never calls one
+  resolveCompanyId?: () => Promise<number | null>;
+}
+
+const contextStorage = new AsyncLocalStorage<AiUsageContext>();
+
+/**
+ * Run fn with the given usage context, layered over the one already active
+ */
+export function withAiUsageContext<T>(context: AiUsageContext, fn: () => T): T {
+  return contextStorage.run({ ...contextStorage.getStore(), ...definedOnly(context) }, fn);
+}
+
+export function getAiUsageContext(): AiUsageContext {
+  return contextStorage.getStore() ?? {};
+}
+
+/**
+ * Wrap a company lookup so it runs at most once
+ */
+export function memoizeCompanyResolver(resolve: () => Promise<number | null>): () => Promise<number | null> {
+  let result: Promise<number | null> | undefined;
+  return () => {
+    result ??= resolve().catch(error => {
+      console.error('❌ [AI-USAGE] Could not resolve the company for usage accounting:', error);
+      return null;
+    });
+    return result;
+  };
+}
+
+function definedOnly(context: AiUsageContext): AiUsageContext {
+  return Object.fromEntries(Object.entries(context).filter(([, value]) => value !== undefined));
+}
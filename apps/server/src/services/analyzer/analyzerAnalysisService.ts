@@ -1,6 +1,13 @@
-import JSZip from 'jszip';
 import { claudeService } from '../claudeService';
 import { parseClaudeJsonResponseSafe } from '../../utils/jsonParser';
+import { analyzeSpreadsheet } from './spreadsheetAnalysisService';
+import { extractPdf, formatPdfPages, type PdfExtraction } from '../../utils/pdfText';
+import {
+  detectOfficeFormat,
+  extractOfficeDocument,
+  findActionItems,
+  type OfficeDocumentExtraction
+} from '../../utils/officeDocument';
 
 interface EmailContext {
   subject: string;
@@ -22,9 +29,12 @@ interface AttachmentTextExtraction {
   preview: string;
   truncated: boolean;
   source: string;
+  pdf?: PdfExtraction;
+  office?: OfficeDocumentExtraction;
+  fullText?: string; // PDFs and Office documents: the full page-marked or outlined text, stored for search
 }
 
-let pdfParseAvailable: boolean | null = null;
+const MAX_STORED_TEXT = 100000;
 
 export async function analyzeAttachment(
   attachment: AttachmentRecord,
@@ -46,6 +56,13 @@ export async function analyzeAttachment(
       }
     }
 
+    if (actualContent) {
+      const spreadsheetAnalysis = await analyzeSpreadsheet(attachment, actualContent, emailContext);
+      if (spreadsheetAnalysis) {
+        return spreadsheetAnalysis;
+      }
+    }
+
     const extraction = await extractAttachmentText(attachment, actualContent);
     const sanitizedBody = sanitizeEmailBody(emailContext.body || '');
     const bodyIsMeaningful = isBodyMeaningful(sanitizedBody);
@@ -59,7 +76,9 @@ export async function analyzeAttachment(
         bodySummary,
         attachmentName: attachment.filename || attachment.originalName || 'attachment',
         attachmentText: extraction.textContent,
-        attachmentTextTruncated: extraction.truncated
+        attachmentTextTruncated: extraction.truncated,
+        pageMarked: !!extraction.pdf,
+        outlined: !!extraction.office
       });
 
       try {
@@ -79,6 +98,9 @@ export async function analyzeAttachment(
 
       const insights = Array.isArray(parsedResponse.insights) ? parsedResponse.insights : [];
       const nextSteps = Array.isArray(parsedResponse.nextSteps) ? parsedResponse.nextSteps : [];
+      const actionItems = Array.isArray(parsedResponse.actionItems) && parsedResponse.actionItems.length > 0
+        ? parsedResponse.actionItems.filter((item: unknown) => typeof item === 'string' && item.trim())
+        : extraction.office ? findActionItems(extraction.fullText ?? extraction.textContent) : [];
 
       const documentType = typeof parsedResponse.documentType === 'string' && parsedResponse.documentType.trim()
         ? parsedResponse.documentType.trim()
@@ -93,6 +115,7 @@ export async function analyzeAttachment(
         keyPoints,
         insights,
         nextSteps,
+        ...(extraction.office && { actionItems }),
         documentType,
         contentAnalysis: {
           hasActualContent: extraction.textContent.length > 0,
@@ -103,12 +126,21 @@ export async function analyzeAttachment(
           truncated: extraction.truncated,
           extractionSource: extraction.source
         },
-        extractedText: extraction.preview,
+        ...(extraction.pdf && {
+          pageCount: extraction.pdf.pageCount,
+          tables: extraction.pdf.tables
+        }),
+        ...(extraction.office && { office: summarizeOfficeDocument(extraction.office) }),
+        extractedText: extraction.fullText ?? extraction.preview,
         llmEnhanced: true,
         analysisDate: new Date().toISOString()
       };
     }
 
+    if (extraction.office) {
+      return generateOfficeFallback(attachment, extraction, actualContent?.length);
+    }
+
     if (actualContent) {
       return await generateTypeSpecificFallback(attachment, actualContent);
     }
@@ -151,6 +183,50 @@ export function generateFallbackAnalysis(attachment: AttachmentRecord): any {
   };
 }
 
+/**
+ * Analysis built from an Office outline alone when Claude is unavailable: headings stand in for
+ * key points and action items come from the document's own lists
+ */
+function generateOfficeFallback(
+  attachment: AttachmentRecord,
+  extraction: AttachmentTextExtraction,
+  contentSize?: number
+): any {
+  const office = extraction.office!;
+  const text = extraction.fullText ?? extraction.textContent;
+  const body = text.split('\n').filter(line => line && !/^(#|\[Slide \d+\])/.test(line)).join(' ');
+
+  return {
+    summary: generateFallbackSummaryFromText(body, attachment.filename || 'document'),
+    keyPoints: office.headings.slice(0, 8).map(heading => heading.text),
+    actionItems: findActionItems(text),
+    documentType: office.format === 'pptx' ? 'Presentation' : classifyDocumentType(attachment.filename || ''),
+    contentAnalysis: {
+      hasActualContent: text.length > 0,
+      contentSize: contentSize || attachment.size || 0,
+      contentType: attachment.contentType,
+      truncated: extraction.truncated,
+      extractionSource: extraction.source,
+      processingStatus: 'Outline analysis completed'
+    },
+    office: summarizeOfficeDocument(office),
+    extractedText: text,
+    llmEnhanced: false,
+    analysisDate: new Date().toISOString()
+  };
+}
+
+function summarizeOfficeDocument(office: OfficeDocumentExtraction) {
+  return {
+    format: office.format,
+    headings: office.headings,
+    tables: office.tables,
+    comments: office.comments,
+    trackedChanges: office.trackedChanges,
+    ...(office.slideCount !== undefined && { slideCount: office.slideCount })
+  };
+}
+
 async function generateTypeSpecificFallback(
   attachment: AttachmentRecord,
   content: Buffer
@@ -203,8 +279,10 @@ function buildAnalysisPrompt(params: {
   attachmentName: string;
   attachmentText: string;
   attachmentTextTruncated: boolean;
+  pageMarked?: boolean;
+  outlined?: boolean;
 }): string {
-  const { subject, bodySummary, attachmentName, attachmentText, attachmentTextTruncated } = params;
+  const { subject, bodySummary, attachmentName, attachmentText, attachmentTextTruncated, pageMarked, outlined } = params;
 
   const bodySection = bodySummary
     ? `Email body context (only use if it meaningfully changes the interpretation of the attachment):\n${bodySummary}\n`
@@ -233,7 +311,10 @@ Instructions:
 - If the body is generic (e.g. "see attached"), ignore it.
 - Do not mention metadata such as file size, format, storage status, or processing steps.
 - If the attachment text is empty or unreadable, clearly state that in your summary instead of inventing details.
-- Keep the tone concise and professional.
+- Keep the tone concise and professional.${pageMarked ? `
+- The attachment text is split into pages marked [Page N]; table cells are separated by "|". End every key point, insight and next step with the page it comes from, e.g. "(p. 3)" or "(pp. 2-4)".` : ''}${outlined ? `
+- The attachment text is an outline of a Word or PowerPoint file: "#" marks headings by level, "- " marks list items indented by level, table cells are separated by "|", and [Slide N] starts each slide with its speaker notes on the "Notes:" line. Reviewer comments and tracked changes are listed at the end; treat deletions as proposed, not final.
+- List every concrete task the document assigns in "actionItems", one per entry, keeping the owner and deadline when given.` : ''}
 
 Respond with JSON only:
 {
@@ -241,7 +322,8 @@ Respond with JSON only:
   "keyPoints": ["Specific point tied to the text", "..."],
   "insights": ["Optional deeper observation"],
   "nextSteps": ["Optional recommended action"],
-  "documentType": "Short label",
+  "documentType": "Short label",${outlined ? `
+  "actionItems": ["Task assigned in the document"],` : ''}
   "bodyUsed": true or false
 }
 `.trim();
@@ -349,14 +431,19 @@ async function extractAttachmentText(
   const filename = (attachment.filename || '').toLowerCase();
   let text = '';
   let source = 'binary';
+  let pdf: PdfExtraction | undefined;
+  let office: OfficeDocumentExtraction | undefined;
+  const officeFormat = detectOfficeFormat(contentType, filename);
 
   try {
-    if (contentType.includes('wordprocessingml') || filename.endsWith('.docx')) {
-      text = await extractDocxText(content);
-      source = 'docx';
+    if (officeFormat) {
+      office = await extractOfficeDocument(content, officeFormat);
+      text = office.outline;
+      source = officeFormat;
     } else if (contentType.includes('pdf') || filename.endsWith('.pdf')) {
-      text = await extractPdfText(content);
-      source = 'pdf';
+      pdf = extractPdf(content);
+      text = formatPdfPages(pdf.pages).replace(/\t/g, ' | ');
+      source = pdf.encrypted ? 'pdf-encrypted' : 'pdf';
     } else if (
       contentType.includes('text') ||
       contentType.includes('json') ||
@@ -380,7 +467,8 @@ async function extractAttachmentText(
     text = '';
   }
 
-  const cleaned = cleanWhitespace(text);
+  // Outlines are already normalized and their indentation carries list levels
+  const cleaned = office ? text.trim() : cleanWhitespace(text);
   const truncatedForPrompt = truncateForPrompt(cleaned, 9000);
   const preview = truncateForPrompt(cleaned, 2000).text;
 
@@ -388,64 +476,13 @@ async function extractAttachmentText(
     textContent: truncatedForPrompt.text,
     preview,
     truncated: truncatedForPrompt.truncated,
-    source
+    source,
+    pdf,
+    office,
+    fullText: pdf || office ? truncateForPrompt(cleaned, MAX_STORED_TEXT).text : undefined
   };
 }
 
-async function extractDocxText(buffer: Buffer): Promise<string> {
-  try {
-    const zip = await JSZip.loadAsync(buffer);
-    const docFile = zip.file('word/document.xml');
-    if (!docFile) {
-      return '';
-    }
-
-    const xml = await docFile.async('string');
-    return cleanWhitespace(
-      xml
-        .replace(/<w:p[^>]*>/g, '\n')
-        .replace(/<w:tab[^>]*\/>/g, '\t')
-        .replace(/<[^>]+>/g, ' ')
-    );
-  } catch (error) {
-    console.error('dY"Z [ANALYZER] Error extracting DOCX text:', error);
-    return '';
-  }
-}
-
-async function extractPdfText(buffer: Buffer): Promise<string> {
-  if (pdfParseAvailable === false) {
-    return extractPdfTextFallback(buffer);
-  }
-
-  try {
-    const pdfModule = await import('pdf-parse');
-    const pdfParse = (pdfModule as any).default || pdfModule;
-    pdfParseAvailable = true;
-    const result = await pdfParse(buffer);
-    return cleanWhitespace(result?.text || '');
-  } catch (error: any) {
-    if (error?.code === 'ERR_MODULE_NOT_FOUND' || error?.code === 'MODULE_NOT_FOUND') {
-      console.warn('dY"Z [ANALYZER] pdf-parse not installed, using fallback extraction');
-      pdfParseAvailable = false;
-      return extractPdfTextFallback(buffer);
-    }
-
-    console.error('dY"Z [ANALYZER] Error extracting PDF text:', error);
-    pdfParseAvailable = false;
-    return extractPdfTextFallback(buffer);
-  }
-}
-
-function extractPdfTextFallback(buffer: Buffer): string {
-  const ascii = buffer.toString('latin1');
-  const matches = ascii.match(/[ -~]{4,}/g);
-  if (!matches) {
-    return '';
-  }
-  return cleanWhitespace(matches.join(' '));
-}
-
 async function analyzePDFWithLLM(attachment: AttachmentRecord, content: Buffer): Promise<any> {
   const contentPreview = content.toString('ascii', 0, Math.min(2000, content.length));
   const hasText = contentPreview.includes('stream') || contentPreview.includes('PDF');
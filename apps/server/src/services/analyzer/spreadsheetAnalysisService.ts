@@ -0,0 +1,140 @@
+import { claudeService } from '../claudeService';
+import { parseClaudeJsonResponseSafe } from '../../utils/jsonParser';
+import { detectSpreadsheetFormat, formatProfileForPrompt, profileSpreadsheet } from '../../utils/spreadsheet';
+import type { SpreadsheetProfile } from '@email-task-router/shared';
+
+interface SpreadsheetAttachment {
+  filename: string;
+  contentType: string;
+}
+
+interface EmailContext {
+  subject: string;
+  body: string;
+}
+
+/**
+ * Analyze a CSV, XLSX or ODS attachment from its actual cells: the sheets are parsed and
+ * profiled, and Claude summarizes the computed profile rather than the file name.
+ * Returns null when the file is not a spreadsheet we can parse, so callers can fall back.
+ */
+export async function analyzeSpreadsheet(
+  attachment: SpreadsheetAttachment,
+  content: Buffer,
+  emailContext?: EmailContext
+): Promise<any | null> {
+  const format = detectSpreadsheetFormat(attachment.contentType, attachment.filename);
+  if (!format) {
+    return null;
+  }
+
+  let profile: SpreadsheetProfile;
+  try {
+    profile = await profileSpreadsheet(content, format);
+  } catch (error) {
+    console.error(`📊 [SPREADSHEET] Could not parse ${attachment.filename} as ${format}:`, error);
+    return null;
+  }
+
+  const rowCount = profile.sheets.reduce((total, sheet) => total + sheet.rowCount, 0);
+  console.log(`📊 [SPREADSHEET] Parsed ${attachment.filename}: ${profile.sheets.length} sheet(s), ${rowCount} rows`);
+
+  let parsedResponse: any = null;
+  if (rowCount > 0) {
+    try {
+      const reply = await claudeService.sendMessage(buildSpreadsheetPrompt(attachment.filename, profile, emailContext?.subject));
+      parsedResponse = parseClaudeJsonResponseSafe(reply, null);
+    } catch (error) {
+      console.error(`📊 [SPREADSHEET] Claude summary failed for ${attachment.filename}:`, error);
+    }
+  }
+
+  const stringList = (value: unknown): string[] =>
+    Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+
+  const summary = typeof parsedResponse?.summary === 'string' && parsedResponse.summary.trim()
+    ? parsedResponse.summary.trim()
+    : describeProfile(attachment.filename, profile);
+  const keyPoints = stringList(parsedResponse?.keyPoints);
+
+  return {
+    summary,
+    keyPoints: keyPoints.length > 0 ? keyPoints : profileKeyPoints(profile),
+    insights: stringList(parsedResponse?.insights),
+    nextSteps: stringList(parsedResponse?.nextSteps),
+    documentType: typeof parsedResponse?.documentType === 'string' && parsedResponse.documentType.trim()
+      ? parsedResponse.documentType.trim()
+      : 'Spreadsheet',
+    spreadsheet: profile,
+    extractedText: formatProfileForPrompt(profile).slice(0, 2000),
+    contentAnalysis: {
+      hasActualContent: rowCount > 0,
+      contentSize: content.length,
+      contentType: 'Spreadsheet',
+      dataFormat: format,
+      sheetCount: profile.sheets.length,
+      rowCount,
+      truncated: profile.truncated,
+      processingStatus: parsedResponse ? 'Parsed, profiled and summarized' : 'Parsed and profiled'
+    },
+    llmEnhanced: !!parsedResponse,
+    analysisDate: new Date().toISOString()
+  };
+}
+
+function buildSpreadsheetPrompt(filename: string, profile: SpreadsheetProfile, subject?: string): string {
+  return `
+You are an expert data analyst. A spreadsheet was attached to an email. It has already been parsed and every column profiled; the profile below is computed from the actual cells.
+
+Email Subject: ${subject || 'N/A'}
+Attachment Filename: ${filename}
+
+Spreadsheet Profile:
+${formatProfileForPrompt(profile)}
+
+Instructions:
+- Base every statement on the profile and sample rows. Quote the computed figures (row counts, ranges, means, outliers) rather than estimating.
+- Say what the data appears to track, the period it covers when there are date columns, and any data quality issues (empty cells, outliers, mixed types).
+- Do not speculate about formulas, charts or content that is not in the profile.
+- Keep the tone concise and professional.
+
+Respond with JSON only:
+{
+  "summary": "Two or three sentences grounded in the profile",
+  "keyPoints": ["Specific finding citing the numbers", "..."],
+  "insights": ["Optional deeper observation"],
+  "nextSteps": ["Optional recommended action"],
+  "documentType": "Short label, e.g. Budget, Sales Report, Inventory"
+}
+`.trim();
+}
+
+function describeProfile(filename: string, profile: SpreadsheetProfile): string {
+  const sheets = profile.sheets
+    .map(sheet => `"${sheet.name}" (${sheet.rowCount} rows × ${sheet.columns.length} columns)`)
+    .join(', ');
+  return sheets
+    ? `${filename} contains ${profile.sheets.length} sheet(s): ${sheets}.`
+    : `${filename} contains no data.`;
+}
+
+function profileKeyPoints(profile: SpreadsheetProfile): string[] {
+  const points: string[] = [];
+  for (const sheet of profile.sheets) {
+    if (sheet.columns.length === 0) continue;
+    points.push(`${sheet.name}: ${sheet.rowCount} rows with columns ${sheet.columns.map(column => `${column.name} (${column.type})`).join(', ')}`);
+
+    for (const column of sheet.columns) {
+      if (column.type === 'number' || column.type === 'date') {
+        points.push(`${column.name} ranges from ${column.min} to ${column.max}${column.mean !== undefined ? ` (mean ${column.mean})` : ''}`);
+      }
+      if (column.outliers) {
+        points.push(`${column.name} has outlying values: ${column.outliers.join(', ')}`);
+      }
+      if (sheet.rowCount > 0 && column.nullCount > 0) {
+        points.push(`${column.name} is empty in ${column.nullCount} of ${sheet.rowCount} rows`);
+      }
+    }
+  }
+  return points.slice(0, 10);
+}
@@ -1,3 +1,8 @@
+import { analyzeSpreadsheet } from './analyzer/spreadsheetAnalysisService';
+import { detectSpreadsheetFormat } from '../utils/spreadsheet';
+import { extractPdf, formatPdfPages } from '../utils/pdfText';
+import { detectOfficeFormat, extractOfficeDocument, findActionItems, type OfficeFormat } from '../utils/officeDocument';
+
 /**
  * Shared service for attachment analysis with LLM enhancement
  */
@@ -19,8 +24,17 @@ export class AttachmentAnalysisService {
         }
       }
       
+      // Spreadsheets are parsed and profiled rather than read as text (CSV is text/csv)
+      if (actualContent && detectSpreadsheetFormat(attachment.contentType, attachment.filename)) {
+        return await this.analyzeSpreadsheetWithLLM(attachment, actualContent);
+      }
+
+      const officeFormat = detectOfficeFormat(attachment.contentType, attachment.filename);
+
       // Extract text content based on file type
-      if (attachment.contentType.includes('text') && actualContent) {
+      if (officeFormat && actualContent) {
+        extractedText = await this.extractTextFromOfficeDocument(actualContent, officeFormat, attachment.filename);
+      } else if (attachment.contentType.includes('text') && actualContent) {
         extractedText = actualContent.toString('utf-8');
       } else if (attachment.contentType.includes('pdf') && actualContent) {
         // Basic PDF text extraction (in production, you'd use a proper PDF parser)
@@ -174,6 +188,12 @@ export class AttachmentAnalysisService {
   }
   
   private async analyzeSpreadsheetWithLLM(attachment: any, content: Buffer | null): Promise<any> {
+    const profiled = content ? await analyzeSpreadsheet(attachment, content) : null;
+    if (profiled) {
+      return profiled;
+    }
+
+    // Unparseable files (legacy .xls, corrupt archives) keep the filename-based description
     const analysis = {
       summary: `Spreadsheet analysis for ${attachment.filename}. Contains structured data suitable for analysis and reporting.`,
       keyPoints: [
@@ -364,23 +384,14 @@ export class AttachmentAnalysisService {
   // Content-focused analysis methods
   private extractTextFromPDF(content: Buffer, filename: string): string {
     try {
-      // Basic PDF text extraction - look for text streams
-      const pdfString = content.toString('binary');
-      
-      // Look for text streams in PDF (very basic - in production use proper PDF parser)
-      const textMatches = pdfString.match(/\(([^)]+)\)/g) || [];
-      const extractedStrings = textMatches
-        .map(match => match.slice(1, -1))
-        .filter(str => str.length > 5 && /[a-zA-Z]/.test(str))
-        .join(' ');
-      
-      if (extractedStrings.length > 100) {
-        const sanitizedText = this.sanitizeTextForDatabase(extractedStrings);
-        return sanitizedText.substring(0, 5000); // Limit to first 5000 characters
+      const pdf = extractPdf(content);
+      const pageText = formatPdfPages(pdf.pages).replace(/\t/g, ' | ');
+      if (pageText.trim().length > 0) {
+        return this.sanitizeTextForDatabase(pageText).substring(0, 5000); // Limit to first 5000 characters
       }
       
-      // If no text found, try alternative extraction
-      const alternativeText = this.extractAlternativePDFText(content, filename);
+      // No text layer (scanned or encrypted): try alternative extraction
+      const alternativeText = pdf.encrypted ? '' : this.extractAlternativePDFText(content, filename);
       const sanitizedAlternative = alternativeText ? this.sanitizeTextForDatabase(alternativeText) : '';
       return sanitizedAlternative || `PDF document: ${filename}. Content analysis based on document structure and metadata.`;
       
@@ -390,6 +401,17 @@ export class AttachmentAnalysisService {
     }
   }
   
+  private async extractTextFromOfficeDocument(content: Buffer, format: OfficeFormat, filename: string): Promise<string> {
+    try {
+      const document = await extractOfficeDocument(content, format);
+      return this.sanitizeTextForDatabase(document.outline).substring(0, 5000);
+    } catch (error) {
+      // Unreadable archive: fall back to inference from the filename
+      console.error(`📎 [ANALYSIS] Error extracting ${format.toUpperCase()} text from ${filename}:`, error);
+      return '';
+    }
+  }
+
   private extractAlternativePDFText(content: Buffer, filename: string): string {
     // Try to find readable text patterns in the PDF
     const text = content.toString('ascii');
@@ -665,6 +687,19 @@ export class AttachmentAnalysisService {
     }
   }
 
+  /**
+   * Action items, decisions, attendees and date of meeting notes, e.g. to turn the action items
+   * into tasks
+   */
+  extractMeetingOutcomes(text: string): { actionItems: string[]; decisions: string[]; attendees: string[]; meetingDate: string | null } {
+    return {
+      actionItems: this.extractActionItems(text),
+      decisions: this.extractDecisions(text),
+      attendees: this.extractAttendees(text),
+      meetingDate: this.extractMeetingDate(text),
+    };
+  }
+
   // Content extraction helper methods
   private extractAttendees(text: string): string[] {
     const attendeePatterns = [
@@ -688,6 +723,12 @@ export class AttachmentAnalysisService {
   }
   
   private extractActionItems(text: string): string[] {
+    // Items listed under an action items heading or slide (Office outlines, structured notes)
+    const listed = findActionItems(text);
+    if (listed.length > 0) {
+      return listed.slice(0, 10);
+    }
+
     const actionPatterns = [
       /action items?:?\s*([^\n\r]+)/gi,
       /todo:?\s*([^\n\r]+)/gi,
@@ -697,13 +738,13 @@ export class AttachmentAnalysisService {
     
     const actions = [];
     for (const pattern of actionPatterns) {
-      const matches = text.match(pattern);
-      if (matches) {
-        actions.push(...matches);
+      for (const match of text.matchAll(pattern)) {
+        const action = match[1].trim();
+        if (action) actions.push(action);
       }
     }
     
-    return actions.slice(0, 5);
+    return [...new Set(actions)].slice(0, 5);
   }
   
   private extractDecisions(text: string): string[] {
@@ -716,9 +757,9 @@ export class AttachmentAnalysisService {
     
     const decisions = [];
     for (const pattern of decisionPatterns) {
-      const matches = text.match(pattern);
-      if (matches) {
-        decisions.push(...matches);
+      for (const match of text.matchAll(pattern)) {
+        const decision = match[1].trim();
+        if (decision) decisions.push(decision);
       }
     }
     
@@ -0,0 +1,177 @@
+import type { AuditResult } from './auditService';
+import { sendMail } from './mailer';
+import { escapeHtml } from '../utils/escape';
+import { signWebhookPayload, WEBHOOK_SIGNATURE_HEADER, WEBHOOK_TIMESTAMP_HEADER } from '../utils/webhookSignature';
+
+export const AUDIT_ALERT_LEVELS = ['critical', 'high', 'warning'] as const;
+export const AUDIT_ALERT_CHANNELS = ['email', 'slack', 'webhook'] as const;
+
+export type AuditAlertLevel = typeof AUDIT_ALERT_LEVELS[number];
+export type AuditAlertChannel = typeof AUDIT_ALERT_CHANNELS[number];
+
+export interface AuditAlert {
+  type: 'audit_alert' | 'critical_health_check' | 'audit_system_failure';
+  level: AuditAlertLevel;
+  message: string;
+  issues: AuditResult[]; // Checks that triggered the alert
+  reportId?: string;
+  overallHealth?: string;
+  error?: string;
+  timestamp: Date;
+}
+
+interface NotifierOptions {
+  maxAttempts?: number;
+  retryDelayMs?: number; // Doubled after every failed attempt
+}
+
+const LEVEL_EMOJI: Record<AuditAlertLevel, string> = {
+  critical: '🚨',
+  high: '⚠️',
+  warning: '🔔',
+};
+
+/**
+ * Delivers audit alerts by email, to Slack-compatible incoming webhooks and to generic JSON
+ * webhooks. Each delivery is retried on network errors, 429 and 5xx responses; a delivery
+ * that still fails rejects with the last error.
+ */
+export class AuditAlertNotifier {
+  private readonly maxAttempts: number;
+  private readonly retryDelayMs: number;
+
+  constructor(options: NotifierOptions = {}) {
+    this.maxAttempts = options.maxAttempts ?? 3;
+    this.retryDelayMs = options.retryDelayMs ?? 2000;
+  }
+
+  async sendEmail(alert: AuditAlert, recipients: string[]): Promise<void> {
+    await this.withRetries('email', async () => {
+      const sent = await sendMail({
+        to: recipients,
+        subject: `[InboxLeap audit] ${alert.level.toUpperCase()}: ${alert.message}`,
+        html: this.renderHtml(alert),
+        text: this.renderText(alert),
+      });
+      if (!sent) {
+        throw new Error('Mail delivery failed');
+      }
+    });
+  }
+
+  async sendSlack(alert: AuditAlert, webhookUrl: string): Promise<void> {
+    await this.withRetries('slack', () => this.postJson(webhookUrl, JSON.stringify({ text: this.renderSlackText(alert) })));
+  }
+
+  /**
+   * POST the alert as JSON; with a secret the body is signed like inbound webhooks
+   * (x-webhook-timestamp and x-webhook-signature headers)
+   */
+  async sendWebhook(alert: AuditAlert, webhookUrl: string, secret?: string): Promise<void> {
+    const body = JSON.stringify({
+      type: alert.type,
+      level: alert.level,
+      message: alert.message,
+      reportId: alert.reportId ?? null,
+      overallHealth: alert.overallHealth ?? null,
+      error: alert.error ?? null,
+      issues: alert.issues.map(({ checkName, status, severity, message }) => ({ checkName, status, severity, message })),
+      timestamp: alert.timestamp.toISOString(),
+    });
+
+    await this.withRetries('webhook', () => {
+      const headers: Record<string, string> = {};
+      if (secret) {
+        const timestamp = Math.floor(Date.now() / 1000).toString();
+        headers[WEBHOOK_TIMESTAMP_HEADER] = timestamp;
+        headers[WEBHOOK_SIGNATURE_HEADER] = signWebhookPayload(secret, timestamp, body);
+      }
+      return this.postJson(webhookUrl, body, headers);
+    });
+  }
+
+  private async withRetries(channel: AuditAlertChannel, deliver: () => Promise<void>): Promise<void> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        await deliver();
+        return;
+      } catch (error) {
+        const retryable = (error as { retryable?: boolean }).retryable !== false;
+        if (!retryable || attempt >= this.maxAttempts) {
+          throw error;
+        }
+        const delay = this.retryDelayMs * 2 ** (attempt - 1);
+        console.warn(`⚠️ [AUDIT-ALERTS] ${channel} delivery attempt ${attempt} failed, retrying in ${delay}ms:`, (error as Error).message);
+        await new Promise(resolve => setTimeout(resolve, delay));
+      }
+    }
+  }
+
+  private async postJson(url: string, body: string, headers: Record<string, string> = {}): Promise<void> {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body,
+      signal: AbortSignal.timeout(10000),
+    });
+    if (!response.ok) {
+      const retryable = response.status === 429 || response.status >= 500;
+      throw Object.assign(new Error(`Webhook responded with ${response.status} ${response.statusText}`), { retryable });
+    }
+  }
+
+  private renderSlackText(alert: AuditAlert): string {
+    const lines = [`${LEVEL_EMOJI[alert.level]} *InboxLeap audit ${alert.level}*: ${alert.message}`];
+    for (const issue of alert.issues.slice(0, 10)) {
+      lines.push(`• \`${issue.checkName}\` (${issue.severity}): ${issue.message}`);
+    }
+    if (alert.issues.length > 10) {
+      lines.push(`…and ${alert.issues.length - 10} more`);
+    }
+    if (alert.error) {
+      lines.push(`Error: ${alert.error}`);
+    }
+    return lines.join('\n');
+  }
+
+  private renderText(alert: AuditAlert): string {
+    return [
+      `${alert.level.toUpperCase()}: ${alert.message}`,
+      `Time: ${alert.timestamp.toISOString()}${alert.reportId ? `\nReport: ${alert.reportId}` : ''}`,
+      ...alert.issues.map(issue => `- ${issue.checkName} [${issue.severity}, ${issue.status}]: ${issue.message}`),
+      ...(alert.error ? [`Error: ${alert.error}`] : []),
+    ].join('\n\n');
+  }
+
+  private renderHtml(alert: AuditAlert): string {
+    const rows = alert.issues.map(issue => `
+                    <tr>
+                        <td style="padding: 8px; border-bottom: 1px solid #e2e8f0;"><strong>${escapeHtml(issue.checkName)}</strong></td>
+                        <td style="padding: 8px; border-bottom: 1px solid #e2e8f0;">${escapeHtml(issue.severity)}</td>
+                        <td style="padding: 8px; border-bottom: 1px solid #e2e8f0;">${escapeHtml(issue.message)}</td>
+                    </tr>`).join('');
+
+    return `
+    <!DOCTYPE html>
+    <html>
+    <head>
+        <meta charset="utf-8">
+        <title>Audit Alert</title>
+    </head>
+    <body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; line-height: 1.6; color: #333; padding: 20px;">
+        <h2>${LEVEL_EMOJI[alert.level]} Audit ${escapeHtml(alert.level)} alert</h2>
+        <p>${escapeHtml(alert.message)}</p>
+        <p style="color: #6b7280; font-size: 14px;">
+            ${escapeHtml(alert.timestamp.toISOString())}${alert.reportId ? ` · Report ${escapeHtml(alert.reportId)}` : ''}${alert.overallHealth ? ` · Health: ${escapeHtml(alert.overallHealth)}` : ''}
+        </p>
+        ${rows ? `<table style="border-collapse: collapse; width: 100%; font-size: 14px;">
+                    <tr><th align="left" style="padding: 8px;">Check</th><th align="left" style="padding: 8px;">Severity</th><th align="left" style="padding: 8px;">Details</th></tr>${rows}
+        </table>` : ''}
+        ${alert.error ? `<p><strong>Error:</strong> ${escapeHtml(alert.error)}</p>` : ''}
+    </body>
+    </html>
+    `;
+  }
+}
+
+export const auditAlertNotifier = new AuditAlertNotifier();
@@ -1,5 +1,12 @@
-import { auditService, type AuditReport } from './auditService';
+import { auditService, type AuditReport, type AuditResult } from './auditService';
 import { performanceMonitor } from './performanceMonitor';
+import {
+  auditAlertNotifier,
+  type AuditAlert,
+  type AuditAlertChannel,
+  type AuditAlertLevel,
+  type AuditAlertNotifier,
+} from './auditAlertNotifier';
 
 /**
  * Automated audit scheduler
@@ -15,11 +22,27 @@ interface ScheduledAuditConfig {
     highFailures: number;
     warningFailures: number;
   };
-  notificationSettings: {
-    emailAlerts: boolean;
-    slackWebhook?: string;
-    webhookUrl?: string;
+  notificationSettings: AuditNotificationSettings;
+}
+
+interface AuditNotificationSettings {
+  emailAlerts: boolean;
+  emailRecipients: string[];
+  slackWebhook?: string;
+  webhookUrl?: string;
+  webhookSecret?: string; // Signs generic webhook bodies (HMAC-SHA256)
+  routing: Record<AuditAlertLevel, AuditAlertChannel[]>; // Channels each alert level goes to
+  dedupWindow: number; // milliseconds; an unchanged alert is repeated only after this long
+}
+
+type AuditSchedulerConfigUpdate = Partial<Omit<ScheduledAuditConfig, 'notificationSettings'>> & {
+  notificationSettings?: Partial<Omit<AuditNotificationSettings, 'routing'>> & {
+    routing?: Partial<Record<AuditAlertLevel, AuditAlertChannel[]>>;
   };
+};
+
+function parseRecipients(value: string | undefined): string[] {
+  return (value || '').split(',').map(email => email.trim()).filter(Boolean);
 }
 
 export class AuditScheduler {
@@ -28,6 +51,8 @@ export class AuditScheduler {
   private fullAuditTimer: NodeJS.Timeout | null = null;
   private healthCheckTimer: NodeJS.Timeout | null = null;
   private lastAuditReport: AuditReport | null = null;
+  // Last alert sent per alert type, to hold back repeats of an issue that persists
+  private activeAlerts = new Map<AuditAlert['type'], { fingerprint: string; sentAt: number }>();
   
   private config: ScheduledAuditConfig = {
     enabled: true,
@@ -39,12 +64,22 @@ export class AuditScheduler {
       warningFailures: 10 // Alert if more than 10 warnings
     },
     notificationSettings: {
-      emailAlerts: false, // Disabled by default
-      // slackWebhook: process.env.SLACK_AUDIT_WEBHOOK,
-      // webhookUrl: process.env.AUDIT_WEBHOOK_URL
+      emailAlerts: !!process.env.AUDIT_ALERT_EMAILS,
+      emailRecipients: parseRecipients(process.env.AUDIT_ALERT_EMAILS),
+      slackWebhook: process.env.SLACK_AUDIT_WEBHOOK || undefined,
+      webhookUrl: process.env.AUDIT_WEBHOOK_URL || undefined,
+      webhookSecret: process.env.AUDIT_WEBHOOK_SECRET || undefined,
+      routing: {
+        critical: ['email', 'slack', 'webhook'],
+        high: ['slack', 'webhook'],
+        warning: ['webhook'],
+      },
+      dedupWindow: 24 * 60 * 60 * 1000, // 24 hours
     }
   };
 
+  constructor(private readonly notifier: AuditAlertNotifier = auditAlertNotifier) {}
+
   static getInstance(): AuditScheduler {
     if (!AuditScheduler.instance) {
       AuditScheduler.instance = new AuditScheduler();
@@ -174,12 +209,14 @@ export class AuditScheduler {
         // Send immediate alert for critical issues
         await this.sendAlert({
           type: 'critical_health_check',
+          level: 'critical',
           message: `Quick health check found ${criticalIssues.length} critical issues`,
           issues: criticalIssues,
           timestamp: new Date()
         });
       } else {
         console.log('✅ [AUDIT-SCHEDULER] Quick health check passed');
+        this.activeAlerts.delete('critical_health_check');
       }
       
     } catch (error) {
@@ -193,69 +230,96 @@ export class AuditScheduler {
   private async evaluateAndAlert(auditReport: AuditReport): Promise<void> {
     const criticalFailures = auditReport.checks.filter(c => 
       c.status === 'fail' && c.severity === 'critical'
-    ).length;
+    );
     
     const highFailures = auditReport.checks.filter(c => 
       c.status === 'fail' && c.severity === 'high'
-    ).length;
+    );
     
+    const warnings = auditReport.checks.filter(c => c.status === 'warning');
     const warningFailures = auditReport.summary.warnings;
     
-    let shouldAlert = false;
-    let alertLevel = 'info';
-    let alertMessage = '';
+    let alert: Pick<AuditAlert, 'level' | 'message' | 'issues'> | null = null;
     
-    if (criticalFailures >= this.config.alertThresholds.criticalFailures) {
-      shouldAlert = true;
-      alertLevel = 'critical';
-      alertMessage = `${criticalFailures} critical system failures detected`;
-    } else if (highFailures >= this.config.alertThresholds.highFailures) {
-      shouldAlert = true;
-      alertLevel = 'high';
-      alertMessage = `${highFailures} high-severity issues detected`;
+    if (criticalFailures.length >= this.config.alertThresholds.criticalFailures) {
+      alert = { level: 'critical', message: `${criticalFailures.length} critical system failures detected`, issues: criticalFailures };
+    } else if (highFailures.length >= this.config.alertThresholds.highFailures) {
+      alert = { level: 'high', message: `${highFailures.length} high-severity issues detected`, issues: highFailures };
     } else if (warningFailures >= this.config.alertThresholds.warningFailures) {
-      shouldAlert = true;
-      alertLevel = 'warning';
-      alertMessage = `${warningFailures} warnings detected - system may need attention`;
+      alert = { level: 'warning', message: `${warningFailures} warnings detected - system may need attention`, issues: warnings };
     }
     
-    if (shouldAlert) {
+    if (alert) {
       await this.sendAlert({
         type: 'audit_alert',
-        level: alertLevel,
-        message: alertMessage,
-        auditReport,
+        ...alert,
+        reportId: auditReport.reportId,
+        overallHealth: auditReport.overallHealth,
         timestamp: new Date()
       });
+    } else {
+      // Resolved: alert again as soon as it comes back
+      this.activeAlerts.delete('audit_alert');
     }
   }
 
   /**
-   * Send alert notifications
+   * Send alert notifications through the channels routed for its level. An alert identical to
+   * the last one of its type (same level and failing checks) is held back until dedupWindow has
+   * passed. Returns the channels that delivered it.
    */
-  private async sendAlert(alertData: any): Promise<void> {
-    console.log(`🚨 [AUDIT-SCHEDULER] ALERT: ${alertData.message}`);
+  private async sendAlert(alert: AuditAlert): Promise<AuditAlertChannel[]> {
+    const fingerprint = this.fingerprint(alert);
+    const previous = this.activeAlerts.get(alert.type);
+    const now = Date.now();
+    if (previous && previous.fingerprint === fingerprint && now - previous.sentAt < this.config.notificationSettings.dedupWindow) {
+      console.log(`🔕 [AUDIT-SCHEDULER] Alert still active, not repeated: ${alert.message}`);
+      return [];
+    }
+
+    console.log(`🚨 [AUDIT-SCHEDULER] ALERT: ${alert.message}`);
     
     // Console logging is always enabled
-    if (alertData.auditReport) {
+    if (alert.issues.length > 0) {
       console.log('📋 [AUDIT-SCHEDULER] Failed checks:', 
-        alertData.auditReport.checks.filter((c: any) => c.status === 'fail')
-          .map((c: any) => ({ name: c.checkName, message: c.message, severity: c.severity }))
+        alert.issues.map(c => ({ name: c.checkName, message: c.message, severity: c.severity }))
       );
     }
-    
-    // Additional notification channels (implement as needed)
-    if (this.config.notificationSettings.emailAlerts) {
-      await this.sendEmailAlert(alertData);
-    }
-    
-    if (this.config.notificationSettings.slackWebhook) {
-      await this.sendSlackAlert(alertData);
+
+    const settings = this.config.notificationSettings;
+    const deliveries: Array<{ channel: AuditAlertChannel; send: () => Promise<void> }> = [];
+    for (const channel of settings.routing[alert.level] ?? []) {
+      if (channel === 'email' && settings.emailAlerts && settings.emailRecipients.length > 0) {
+        deliveries.push({ channel, send: () => this.notifier.sendEmail(alert, settings.emailRecipients) });
+      } else if (channel === 'slack' && settings.slackWebhook) {
+        const url = settings.slackWebhook;
+        deliveries.push({ channel, send: () => this.notifier.sendSlack(alert, url) });
+      } else if (channel === 'webhook' && settings.webhookUrl) {
+        const url = settings.webhookUrl;
+        deliveries.push({ channel, send: () => this.notifier.sendWebhook(alert, url, settings.webhookSecret) });
+      }
     }
-    
-    if (this.config.notificationSettings.webhookUrl) {
-      await this.sendWebhookAlert(alertData);
+
+    const results = await Promise.allSettled(deliveries.map(delivery => delivery.send()));
+    const delivered: AuditAlertChannel[] = [];
+    results.forEach((result, index) => {
+      if (result.status === 'fulfilled') {
+        delivered.push(deliveries[index].channel);
+      } else {
+        console.error(`❌ [AUDIT-SCHEDULER] Failed to send ${deliveries[index].channel} alert:`, result.reason);
+      }
+    });
+
+    // Remember the alert unless every channel failed, so the next run tries again
+    if (deliveries.length === 0 || delivered.length > 0) {
+      this.activeAlerts.set(alert.type, { fingerprint, sentAt: now });
     }
+    return delivered;
+  }
+
+  private fingerprint(alert: AuditAlert): string {
+    const checks = alert.issues.map((issue: AuditResult) => `${issue.checkName}:${issue.status}`).sort();
+    return [alert.level, ...checks, alert.error ?? ''].join('|');
   }
 
   /**
@@ -274,6 +338,7 @@ export class AuditScheduler {
       type: 'audit_system_failure',
       level: 'critical',
       message: 'Audit system itself has failed - immediate attention required',
+      issues: [],
       error: error.message || String(error),
       timestamp: new Date()
     }).catch(alertError => {
@@ -294,7 +359,16 @@ export class AuditScheduler {
   getStatus() {
     return {
       isRunning: this.isRunning,
-      config: this.config,
+      config: {
+        ...this.config,
+        // Webhook URLs and the signing secret are credentials; only report whether they are set
+        notificationSettings: {
+          ...this.config.notificationSettings,
+          slackWebhook: this.config.notificationSettings.slackWebhook ? '[configured]' : undefined,
+          webhookUrl: this.config.notificationSettings.webhookUrl ? '[configured]' : undefined,
+          webhookSecret: this.config.notificationSettings.webhookSecret ? '[configured]' : undefined,
+        }
+      },
       lastAudit: this.lastAuditReport ? {
         reportId: this.lastAuditReport.reportId,
         generatedAt: this.lastAuditReport.generatedAt,
@@ -311,8 +385,17 @@ export class AuditScheduler {
   /**
    * Update scheduler configuration
    */
-  updateConfig(newConfig: Partial<ScheduledAuditConfig>): void {
-    this.config = { ...this.config, ...newConfig };
+  updateConfig(newConfig: AuditSchedulerConfigUpdate): void {
+    const { notificationSettings, ...rest } = newConfig;
+    this.config = { ...this.config, ...rest };
+    if (notificationSettings) {
+      const { routing, ...settings } = notificationSettings;
+      this.config.notificationSettings = {
+        ...this.config.notificationSettings,
+        ...settings,
+        routing: { ...this.config.notificationSettings.routing, ...routing },
+      };
+    }
     
     if (this.isRunning) {
       console.log('🔄 [AUDIT-SCHEDULER] Restarting with new configuration');
@@ -322,22 +405,6 @@ export class AuditScheduler {
       });
     }
   }
-
-  // Placeholder implementations for notification channels
-  private async sendEmailAlert(alertData: any): Promise<void> {
-    // TODO: Implement email alerting
-    console.log('📧 [AUDIT-SCHEDULER] Email alert (not implemented):', alertData.message);
-  }
-
-  private async sendSlackAlert(alertData: any): Promise<void> {
-    // TODO: Implement Slack webhook
-    console.log('💬 [AUDIT-SCHEDULER] Slack alert (not implemented):', alertData.message);
-  }
-
-  private async sendWebhookAlert(alertData: any): Promise<void> {
-    // TODO: Implement webhook notification
-    console.log('🔗 [AUDIT-SCHEDULER] Webhook alert (not implemented):', alertData.message);
-  }
 }
 
 export const auditScheduler = AuditScheduler.getInstance();
\ No newline at end of file
@@ -1,5 +1,5 @@
-import Anthropic from '@anthropic-ai/sdk';
 import { storage } from '../storage';
+import { aiUsageService } from './aiUsage/aiUsageService';
 
 /*
 The newest Anthropic model is "claude-sonnet-4-20250514", not "claude-3-7-sonnet-20250219", "claude-3-5-sonnet-20241022" nor "claude-3-sonnet-20240229". 
@@ -9,10 +9,6 @@ When copying code from this code snippet, ensure you also include this informati
 
 const DEFAULT_MODEL_STR = "claude-sonnet-4-20250514";
 
-const anthropic = new Anthropic({
-  apiKey: process.env.ANTHROPIC_API_KEY || process.env.CLAUDE_API_KEY,
-});
-
 // Token limits for Claude Sonnet 4 (conservative estimates)
 const MAX_INPUT_TOKENS = 180000; // Leave buffer for response
 const ESTIMATED_TOKENS_PER_EMAIL = 800; // Rough estimate for average email
@@ -216,9 +212,9 @@ export class BatchIntelligenceService {
         - Flag truly urgent items that need immediate attention
       `;
 
-      const response = await anthropic.messages.create({
+      const { text: responseText } = await aiUsageService.complete({
         model: DEFAULT_MODEL_STR,
-        max_tokens: 8000,
+        maxTokens: 8000,
         temperature: 0.3,
         messages: [
           {
@@ -226,9 +222,8 @@ export class BatchIntelligenceService {
             content: prompt
           }
         ]
-      });
+      }, { operation: 'processBatch', agent: 'intelligence' });
 
-      const responseText = response.content[0].type === 'text' ? response.content[0].text : '';
       console.log(`🤖 [BatchIntelligence] Received response: ${responseText.substring(0, 200)}...`);
       
       const result = this.parseAnalysisResponse(responseText);
@@ -543,9 +538,9 @@ export class BatchIntelligenceService {
         }
       `;
 
-      const response = await anthropic.messages.create({
+      const { text: responseText } = await aiUsageService.complete({
         model: DEFAULT_MODEL_STR,
-        max_tokens: 3000,
+        maxTokens: 3000,
         temperature: 0.2,
         messages: [
           {
@@ -553,9 +548,8 @@ export class BatchIntelligenceService {
             content: prompt
           }
         ]
-      });
+      }, { operation: 'synthesizeTokensIntoInsights', agent: 'intelligence' });
 
-      const responseText = response.content[0].type === 'text' ? response.content[0].text : '';
       const cleaned = responseText.replace(/```json\n?/g, '').replace(/```\n?/g, '').trim();
       
       const jsonMatch = cleaned.match(/\{[\s\S]*\}/);
@@ -2,6 +2,10 @@ import { storage } from '../storage';
 import { batchIntelligenceService } from './batchIntelligenceService';
 import { intelligenceFallbackService, IntelligenceFallbackService } from './intelligenceFallbackService';
 import { performanceMonitor } from './performanceMonitor';
+import { calculateBackoffDelay, createWorkerId, hasExhaustedAttempts } from './queue/jobUtils';
+import { EMAIL_QUEUES } from './queue/types';
+import { isAiBudgetExceeded } from './aiUsage/aiUsageService';
+import type { EmailQueueJob } from '@email-task-router/shared';
 
 interface QueuedEmail {
   id: string;
@@ -15,11 +19,19 @@ interface QueuedEmail {
   retryCount: number;
 }
 
+// Jobs in email_queue_jobs for this queue carry the QueuedEmail fields, minus the retry state the table tracks itself
+type BatchJobPayload = Omit<QueuedEmail, 'timestamp' | 'retryCount'> & { timestamp: string };
+
+const QUEUE_NAME = EMAIL_QUEUES.t5tBatch;
+const PRIORITY_RANK: Record<QueuedEmail['priority'], number> = { high: 1, medium: 0, low: -1 };
+
 interface BatchProcessingConfig {
   maxBatchSize: number;
   maxWaitTimeMs: number;
   batchIntervalMs: number;
   maxRetries: number;
+  retryBaseDelayMs: number; // Backoff before the first retry, doubled for each one after
+  visibilityTimeoutMs: number; // Another worker may reclaim a batch after this long without a heartbeat
   emergencyProcessingThreshold: number; // Process immediately if this many emails are queued
 }
 
@@ -28,11 +40,14 @@ const DEFAULT_CONFIG: BatchProcessingConfig = {
   maxWaitTimeMs: 45 * 1000, // Process within 45 seconds of enqueue
   batchIntervalMs: 30 * 1000, // Check every 30 seconds
   maxRetries: 3,
+  retryBaseDelayMs: 60 * 1000, // 1 minute
+  visibilityTimeoutMs: 10 * 60 * 1000, // 10 minutes
   emergencyProcessingThreshold: 40 // Process immediately if 40+ emails queued
 };
 
 export class BatchProcessingQueue {
-  private queue: Map<string, QueuedEmail[]> = new Map(); // organizationId -> emails
+  private workerId = createWorkerId(QUEUE_NAME);
+  private queueSnapshot: Map<string, number> = new Map(); // organizationId -> queued count, as of the last database sync
   private processingInProgress: Set<string> = new Set(); // organizationIds being processed
   private config: BatchProcessingConfig;
   private intervalHandle: NodeJS.Timeout | null = null;
@@ -70,27 +85,27 @@ export class BatchProcessingQueue {
       return;
     }
 
-    const queuedEmail: QueuedEmail = {
+    const priority = emailData.priority || 'medium';
+    const payload: BatchJobPayload = {
       ...emailData,
-      priority: emailData.priority || 'medium',
-      retryCount: 0
+      priority,
+      timestamp: emailData.timestamp.toISOString(),
     };
 
     console.log(`[BatchQueue] Queuing email ${emailData.id} for org ${emailData.organizationId}`);
 
-    if (!this.queue.has(emailData.organizationId)) {
-      this.queue.set(emailData.organizationId, []);
-    }
-
-    const orgQueue = this.queue.get(emailData.organizationId)!;
-
-    if (queuedEmail.priority === 'high') {
-      orgQueue.unshift(queuedEmail);
-    } else {
-      orgQueue.push(queuedEmail);
-    }
+    await storage.createEmailQueueJob({
+      queue: QUEUE_NAME,
+      groupKey: emailData.organizationId,
+      payload,
+      subject: emailData.subject,
+      sender: emailData.submitter,
+      priority: PRIORITY_RANK[priority], // High priority emails are claimed first
+      maxAttempts: this.config.maxRetries + 1,
+    });
 
-    const totalQueuedEmails = orgQueue.length;
+    await this.refreshQueueSnapshot();
+    const totalQueuedEmails = this.queueSnapshot.get(emailData.organizationId) || 0;
 
     if (totalQueuedEmails >= this.config.emergencyProcessingThreshold) {
       console.log(`[BatchQueue] Emergency processing triggered for org ${emailData.organizationId} (${totalQueuedEmails} emails queued)`);
@@ -144,23 +159,44 @@ export class BatchProcessingQueue {
       return;
     }
 
-    const orgQueue = this.queue.get(organizationId);
-    if (!orgQueue || orgQueue.length === 0) {
-      return;
-    }
-
     this.processingInProgress.add(organizationId);
-    
+
+    // Claim jobs (up to max batch size); jobs another worker is running are skipped
+    let jobs: EmailQueueJob[] = [];
+    let heartbeat: NodeJS.Timeout | null = null;
+
     try {
-      console.log(`🚀 [BatchQueue] Starting batch processing for org ${organizationId} with ${orgQueue.length} emails`);
-      
-      // Extract emails from queue (up to max batch size)
-      const emailsToProcess = orgQueue.splice(0, this.config.maxBatchSize);
-      
-      if (orgQueue.length === 0) {
-        this.queue.delete(organizationId);
+      jobs = await storage.claimEmailQueueJobs(
+        QUEUE_NAME,
+        this.workerId,
+        this.config.maxBatchSize,
+        this.config.visibilityTimeoutMs,
+        organizationId
+      );
+
+      // Jobs reclaimed after a crash may already have used their last attempt
+      const abandonedJobs = jobs.filter(job => job.attempts > job.maxAttempts);
+      if (abandonedJobs.length > 0) {
+        await this.deadLetterJobs(abandonedJobs, 'Visibility timeout expired on final attempt');
+        jobs = jobs.filter(job => job.attempts <= job.maxAttempts);
       }
 
+      if (jobs.length === 0) {
+        return;
+      }
+
+      heartbeat = setInterval(() => {
+        for (const job of jobs) {
+          storage.extendEmailQueueJobLock(job.id, this.workerId, this.config.visibilityTimeoutMs).catch(error => {
+            console.error(`❌ [BatchQueue] Failed to extend lock for job ${job.id}:`, error);
+          });
+        }
+      }, this.config.visibilityTimeoutMs / 2);
+
+      const emailsToProcess = jobs.map(job => this.toQueuedEmail(job));
+
+      console.log(`🚀 [BatchQueue] Starting batch processing for org ${organizationId} with ${emailsToProcess.length} emails`);
+
       // Convert to batch processing format
       const batchEmails = emailsToProcess.map(email => ({
         id: email.id,
@@ -178,6 +214,10 @@ export class BatchProcessingQueue {
       console.log(`   - ${result.totalTokensCreated} intelligence tokens created`);
       console.log(`   - ${result.processingTime}ms processing time`);
 
+      for (const job of jobs) {
+        await storage.completeEmailQueueJob(job.id, this.workerId);
+      }
+
       // Update processed emails status in database
       await this.updateProcessedEmailsStatus(emailsToProcess, 'completed', result);
 
@@ -196,56 +236,77 @@ export class BatchProcessingQueue {
       timer.failure(error instanceof Error ? error : new Error(String(error)), {
         batchProcessing: true,
         organizationId,
-        queueSize: orgQueue?.length || 0
+        queueSize: jobs.length
       });
       
       // Handle retry logic
-      await this.handleProcessingError(organizationId, orgQueue, error);
+      await this.handleProcessingError(organizationId, jobs, error);
 
     } finally {
+      if (heartbeat) {
+        clearInterval(heartbeat);
+      }
       this.processingInProgress.delete(organizationId);
     }
   }
 
   /**
-   * Handle processing errors with retry logic
+   * Handle processing errors with retry logic: back off and retry, or dead-letter once attempts run out
    */
-  private async handleProcessingError(organizationId: string, emailsToProcess: QueuedEmail[], error: any): Promise<void> {
+  private async handleProcessingError(organizationId: string, jobs: EmailQueueJob[], error: any): Promise<void> {
     console.log(`🔄 [BatchQueue] Handling error for org ${organizationId}, checking retry options`);
 
-    // Increment retry counts
-    const retriableEmails: QueuedEmail[] = [];
-    const failedEmails: QueuedEmail[] = [];
-
-    for (const email of emailsToProcess) {
-      email.retryCount++;
-      
-      if (email.retryCount <= this.config.maxRetries) {
-        retriableEmails.push(email);
-      } else {
-        failedEmails.push(email);
-      }
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    // Retries cannot succeed while the AI budget is exhausted; dead-lettered jobs can be replayed later
+    const budgetExceeded = isAiBudgetExceeded(error);
+    if (budgetExceeded) {
+      console.warn(`💸 [BatchQueue] AI budget exhausted for org ${organizationId}, not retrying ${jobs.length} emails`);
     }
-
-    // Re-queue retriable emails
-    if (retriableEmails.length > 0) {
-      if (!this.queue.has(organizationId)) {
-        this.queue.set(organizationId, []);
+    const retriableJobs = budgetExceeded ? [] : jobs.filter(job => !hasExhaustedAttempts(job));
+    const failedJobs = budgetExceeded ? jobs : jobs.filter(job => hasExhaustedAttempts(job));
+
+    // Release retriable emails back to the queue after a backoff
+    for (const job of retriableJobs) {
+      const delay = calculateBackoffDelay(job.attempts, {
+        baseDelayMs: this.config.retryBaseDelayMs,
+        maxDelayMs: this.config.visibilityTimeoutMs,
+        jitterRatio: 0.2,
+      });
+      try {
+        await storage.retryEmailQueueJob(job.id, this.workerId, new Date(Date.now() + delay), errorMessage);
+      } catch (retryError) {
+        console.error(`❌ [BatchQueue] Failed to schedule retry for job ${job.id}:`, retryError);
       }
-      
-      // Add back to front of queue (prioritize retries)
-      const orgQueue = this.queue.get(organizationId)!;
-      orgQueue.unshift(...retriableEmails);
-      
-      console.log(`[BatchQueue] Re-queued ${retriableEmails.length} emails for retry for org ${organizationId}`);
-      this.scheduleProcessing(organizationId, orgQueue.length);
+    }
+    if (retriableJobs.length > 0) {
+      console.log(`[BatchQueue] Re-queued ${retriableJobs.length} emails for retry for org ${organizationId}`);
     }
 
     // Mark permanently failed emails
-    if (failedEmails.length > 0) {
-      await this.updateProcessedEmailsStatus(failedEmails, 'failed', null, error.message);
-      console.log(`❌ [BatchQueue] Marked ${failedEmails.length} emails as permanently failed for org ${organizationId}`);
+    if (failedJobs.length > 0) {
+      await this.deadLetterJobs(failedJobs, errorMessage);
+      console.log(`❌ [BatchQueue] Marked ${failedJobs.length} emails as permanently failed for org ${organizationId}`);
+    }
+  }
+
+  private async deadLetterJobs(jobs: EmailQueueJob[], errorMessage: string): Promise<void> {
+    for (const job of jobs) {
+      try {
+        await storage.deadLetterEmailQueueJob(job.id, this.workerId, errorMessage);
+      } catch (error) {
+        console.error(`❌ [BatchQueue] Failed to dead-letter job ${job.id}:`, error);
+      }
     }
+    await this.updateProcessedEmailsStatus(jobs.map(job => this.toQueuedEmail(job)), 'failed', null, errorMessage);
+  }
+
+  private toQueuedEmail(job: EmailQueueJob): QueuedEmail {
+    const payload = job.payload as BatchJobPayload;
+    return {
+      ...payload,
+      timestamp: new Date(payload.timestamp),
+      retryCount: Math.max(0, job.attempts - 1),
+    };
   }
 
   /**
@@ -270,7 +331,7 @@ export class BatchProcessingQueue {
   }
 
   /**
-   * Start the background batch processor
+   * Start the background batch processor. Jobs persisted before a restart are picked up on the first tick.
    */
   private startBatchProcessor(): void {
     if (this.intervalHandle) {
@@ -288,32 +349,34 @@ export class BatchProcessingQueue {
     }, this.config.batchIntervalMs);
   }
 
+  /**
+   * Re-read queued counts per organization from the database
+   */
+  private async refreshQueueSnapshot(): Promise<Array<{ groupKey: string; count: number; oldestCreatedAt: Date }>> {
+    const groups = await storage.getEmailQueueGroups(QUEUE_NAME);
+    this.queueSnapshot = new Map(groups.map(group => [group.groupKey, group.count]));
+    return groups;
+  }
+
   /**
    * Process all organization queues
    */
   private async processAllQueues(): Promise<void> {
-    const organizations = Array.from(this.queue.keys());
+    const groups = await this.refreshQueueSnapshot();
     
-    if (organizations.length === 0) {
+    if (groups.length === 0) {
       return;
     }
 
-    console.log(`🔄 [BatchQueue] Processing ${organizations.length} organization queues`);
-
-    const processingPromises = organizations.map(async (organizationId) => {
-      const orgQueue = this.queue.get(organizationId);
-      
-      if (!orgQueue || orgQueue.length === 0) {
-        return;
-      }
+    console.log(`🔄 [BatchQueue] Processing ${groups.length} organization queues`);
 
+    const processingPromises = groups.map(async (group) => {
       // Check if we should process this queue
-      const oldestEmail = orgQueue[0];
-      const waitTime = Date.now() - oldestEmail.timestamp.getTime();
+      const waitTime = Date.now() - group.oldestCreatedAt.getTime();
       
       // Process if we've waited long enough OR have enough emails
-      if (waitTime >= this.config.maxWaitTimeMs || orgQueue.length >= this.config.maxBatchSize) {
-        await this.processOrganizationQueue(organizationId);
+      if (waitTime >= this.config.maxWaitTimeMs || group.count >= this.config.maxBatchSize) {
+        await this.processOrganizationQueue(group.groupKey);
       }
     });
 
@@ -321,7 +384,7 @@ export class BatchProcessingQueue {
   }
 
   /**
-   * Get queue statistics
+   * Get queue statistics (queued counts as of the last sync with the database)
    */
   getQueueStats(): {
     totalQueued: number;
@@ -331,13 +394,13 @@ export class BatchProcessingQueue {
     const organizationQueues: Array<{ organizationId: string; count: number; processing: boolean }> = [];
     let totalQueued = 0;
 
-    for (const [organizationId, queue] of this.queue.entries()) {
+    for (const [organizationId, count] of this.queueSnapshot.entries()) {
       organizationQueues.push({
         organizationId,
-        count: queue.length,
+        count,
         processing: this.processingInProgress.has(organizationId)
       });
-      totalQueued += queue.length;
+      totalQueued += count;
     }
 
     return {
@@ -353,14 +416,14 @@ export class BatchProcessingQueue {
   async forceProcessAll(): Promise<void> {
     console.log(`🚨 [BatchQueue] Force processing all queues`);
     
-    const organizations = Array.from(this.queue.keys());
-    const processingPromises = organizations.map(orgId => {
-      const timer = this.processingTimers.get(orgId);
+    const groups = await this.refreshQueueSnapshot();
+    const processingPromises = groups.map(group => {
+      const timer = this.processingTimers.get(group.groupKey);
       if (timer) {
         clearTimeout(timer);
-        this.processingTimers.delete(orgId);
+        this.processingTimers.delete(group.groupKey);
       }
-      return this.processOrganizationQueue(orgId);
+      return this.processOrganizationQueue(group.groupKey);
     });
     
     await Promise.allSettled(processingPromises);
@@ -407,4 +470,3 @@ export class BatchProcessingQueue {
 
 // Export singleton instance
 export const batchProcessingQueue = new BatchProcessingQueue();
-
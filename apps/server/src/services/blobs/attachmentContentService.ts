@@ -0,0 +1,192 @@
+import * as crypto from 'crypto';
+import * as path from 'path';
+import { Readable } from 'stream';
+import { storage } from '../../storage';
+import { LocalBlobStore } from './localBlobStore';
+import { S3BlobStore } from './s3BlobStore';
+import type { BlobStore, BlobStoreKind } from './types';
+
+/**
+ * Where an attachment's content lives: a blob referenced by s3Key or localPath, or the legacy
+ * base64 `content` column
+ */
+export interface AttachmentContentRef {
+  content?: string | Buffer | null;
+  fileHash?: string | null;
+  s3Key?: string | null;
+  localPath?: string | null;
+}
+
+export interface StoredAttachmentContent {
+  fileHash: string;
+  s3Key: string | null;
+  localPath: string | null;
+  content: null;
+}
+
+export interface InlineContentMigrationResult {
+  attachments: number;
+  documents: number;
+  failed: number;
+}
+
+/**
+ * Build a blob store from the environment. ATTACHMENT_STORE=local|s3 picks the kind; without it,
+ * S3 is used when ATTACHMENT_S3_BUCKET is set and the local filesystem otherwise.
+ */
+export function createBlobStore(kind?: BlobStoreKind, env: NodeJS.ProcessEnv = process.env): BlobStore {
+  const selected = kind || (env.ATTACHMENT_STORE as BlobStoreKind | undefined) || (env.ATTACHMENT_S3_BUCKET ? 's3' : 'local');
+
+  if (selected === 's3') {
+    if (!env.ATTACHMENT_S3_BUCKET) {
+      throw new Error('ATTACHMENT_S3_BUCKET must be set to store attachments in S3');
+    }
+    return new S3BlobStore({
+      bucket: env.ATTACHMENT_S3_BUCKET,
+      prefix: env.ATTACHMENT_S3_PREFIX,
+      endpoint: env.ATTACHMENT_S3_ENDPOINT,
+      accessKeyId: env.ATTACHMENT_S3_ACCESS_KEY_ID,
+      secretAccessKey: env.ATTACHMENT_S3_SECRET_ACCESS_KEY,
+    });
+  }
+
+  return new LocalBlobStore(path.resolve(env.ATTACHMENT_STORAGE_DIR || 'uploads/attachments'));
+}
+
+/**
+ * Attachment content service
+ * Stores attachment content in the configured blob store, addressed by its SHA-256 so identical
+ * files are written once and shared by every row that references them. Blobs are therefore never
+ * deleted together with a row. Rows written before the blob store keep working through their
+ * base64 `content` until migrateInlineContent moves them out of Postgres.
+ */
+export class AttachmentContentService {
+  private readonly stores: Partial<Record<BlobStoreKind, BlobStore>>;
+
+  constructor(private readonly writeStore: BlobStore = createBlobStore(), readStores: Partial<Record<BlobStoreKind, BlobStore>> = {}) {
+    this.stores = { ...readStores, [writeStore.kind]: writeStore };
+  }
+
+  static hash(content: Buffer): string {
+    return crypto.createHash('sha256').update(content).digest('hex');
+  }
+
+  /**
+   * Store content and return the columns that reference it
+   */
+  async store(content: Buffer): Promise<StoredAttachmentContent> {
+    const fileHash = AttachmentContentService.hash(content);
+    const key = this.writeStore.keyFor(fileHash);
+
+    if (await this.writeStore.exists(key)) {
+      console.log(`📦 [BLOBS] Reusing stored blob ${fileHash.slice(0, 12)} (${content.length} bytes)`);
+    } else {
+      await this.writeStore.put(key, content);
+    }
+
+    return {
+      fileHash,
+      s3Key: this.writeStore.kind === 's3' ? key : null,
+      localPath: this.writeStore.kind === 'local' ? key : null,
+      content: null,
+    };
+  }
+
+  /**
+   * Read the whole content of an attachment row
+   */
+  async load(ref: AttachmentContentRef): Promise<Buffer | null> {
+    const blob = this.locate(ref);
+    if (blob) {
+      const content = await blob.store.get(blob.key);
+      if (content) return content;
+      console.error(`❌ [BLOBS] Blob ${blob.key} is missing from the ${blob.store.kind} store`);
+    }
+
+    if (!ref.content) return null;
+    return Buffer.isBuffer(ref.content) ? ref.content : Buffer.from(ref.content, 'base64');
+  }
+
+  /**
+   * Stream the content of an attachment row without loading it into memory
+   */
+  async openStream(ref: AttachmentContentRef): Promise<Readable | null> {
+    const blob = this.locate(ref);
+    if (blob) {
+      const stream = await blob.store.openStream(blob.key);
+      if (stream) return stream;
+      console.error(`❌ [BLOBS] Blob ${blob.key} is missing from the ${blob.store.kind} store`);
+    }
+
+    if (!ref.content) return null;
+    return Readable.from([Buffer.isBuffer(ref.content) ? ref.content : Buffer.from(ref.content, 'base64')]);
+  }
+
+  /**
+   * Copy an attachment row with its content read into memory, for the analysis services
+   */
+  async withContent<T extends AttachmentContentRef>(ref: T): Promise<T & { content: Buffer | null }> {
+    return { ...ref, content: await this.load(ref) };
+  }
+
+  /**
+   * Move base64 content of email attachments and document analysis results into the blob store,
+   * in batches. Rows that fail keep their inline content and are reported.
+   */
+  async migrateInlineContent(batchSize: number = 50): Promise<InlineContentMigrationResult> {
+    const result: InlineContentMigrationResult = { attachments: 0, documents: 0, failed: 0 };
+
+    const migrate = async (
+      load: (afterId: number, limit: number) => Promise<Array<{ id: number; content: string | null }>>,
+      update: (id: number, data: StoredAttachmentContent) => Promise<unknown>,
+      counter: 'attachments' | 'documents'
+    ) => {
+      let afterId = 0;
+      for (;;) {
+        const rows = await load(afterId, batchSize);
+        if (rows.length === 0) break;
+
+        for (const row of rows) {
+          afterId = row.id;
+          if (!row.content) continue;
+          try {
+            await update(row.id, await this.store(Buffer.from(row.content, 'base64')));
+            result[counter]++;
+          } catch (error) {
+            result.failed++;
+            console.error(`❌ [BLOBS] Could not move ${counter} row ${row.id} to the blob store:`, error);
+          }
+        }
+        console.log(`📦 [BLOBS] Moved ${result[counter]} ${counter} so far (up to id ${afterId})`);
+      }
+    };
+
+    await migrate(
+      (afterId, limit) => storage.getEmailAttachmentsWithInlineContent(afterId, limit),
+      (id, data) => storage.updateEmailAttachment(id, data),
+      'attachments'
+    );
+    await migrate(
+      (afterId, limit) => storage.getDocumentAnalysisResultsWithInlineContent(afterId, limit),
+      (id, data) => storage.updateDocumentAnalysisResult(id, data),
+      'documents'
+    );
+
+    return result;
+  }
+
+  private locate(ref: AttachmentContentRef): { store: BlobStore; key: string } | null {
+    if (ref.s3Key) return { store: this.storeFor('s3'), key: ref.s3Key };
+    if (ref.localPath) return { store: this.storeFor('local'), key: ref.localPath };
+    return null;
+  }
+
+  private storeFor(kind: BlobStoreKind): BlobStore {
+    if (!this.stores[kind]) {
+      this.stores[kind] = createBlobStore(kind);
+    }
+    return this.stores[kind]!;
+  }
+}
+
+export const attachmentContentService = new AttachmentContentService();
@@ -0,0 +1,63 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { Readable } from 'stream';
+import type { BlobStore } from './types';
+
+/**
+ * Filesystem blob store
+ * Keeps each blob in a file under the root directory, sharded by the first characters of its
+ * hash (ab/cd/abcd...) so no directory grows too large. Writes go to a temporary file first and
+ * are renamed into place, so readers never see a partial blob.
+ */
+export class LocalBlobStore implements BlobStore {
+  readonly kind = 'local' as const;
+
+  constructor(private readonly rootDir: string) {}
+
+  keyFor(fileHash: string): string {
+    return `${fileHash.slice(0, 2)}/${fileHash.slice(2, 4)}/${fileHash}`;
+  }
+
+  async put(key: string, content: Buffer): Promise<void> {
+    const target = this.resolve(key);
+    await fs.promises.mkdir(path.dirname(target), { recursive: true });
+
+    const temporary = `${target}.${process.pid}.${Date.now()}.tmp`;
+    await fs.promises.writeFile(temporary, content);
+    await fs.promises.rename(temporary, target);
+  }
+
+  async exists(key: string): Promise<boolean> {
+    try {
+      await fs.promises.access(this.resolve(key));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async get(key: string): Promise<Buffer | null> {
+    try {
+      return await fs.promises.readFile(this.resolve(key));
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  async openStream(key: string): Promise<Readable | null> {
+    return (await this.exists(key)) ? fs.createReadStream(this.resolve(key)) : null;
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.promises.rm(this.resolve(key), { force: true });
+  }
+
+  private resolve(key: string): string {
+    const resolved = path.resolve(this.rootDir, key);
+    if (!resolved.startsWith(path.resolve(this.rootDir) + path.sep)) {
+      throw new Error(`Blob key escapes the storage directory: ${key}`);
+    }
+    return resolved;
+  }
+}
@@ -0,0 +1,100 @@
+import {
+  S3Client,
+  PutObjectCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  DeleteObjectCommand,
+} from '@aws-sdk/client-s3';
+import { Readable } from 'stream';
+import type { BlobStore } from './types';
+
+export interface S3BlobStoreOptions {
+  bucket: string;
+  prefix?: string; // e.g. "attachments/"
+  client?: S3Client;
+  region?: string;
+  endpoint?: string; // S3-compatible services such as MinIO
+  accessKeyId?: string;
+  secretAccessKey?: string;
+}
+
+/**
+ * S3 blob store
+ * Stores blobs as objects named by their hash under a prefix. Works with AWS S3 and with
+ * S3-compatible services (MinIO, LocalStack) through a custom endpoint and path-style URLs.
+ */
+export class S3BlobStore implements BlobStore {
+  readonly kind = 's3' as const;
+  private readonly client: S3Client;
+  private readonly bucket: string;
+  private readonly prefix: string;
+
+  constructor(options: S3BlobStoreOptions) {
+    this.bucket = options.bucket;
+    this.prefix = options.prefix ?? 'attachments/';
+    this.client = options.client ?? new S3Client({
+      region: options.region || process.env.AWS_REGION || 'us-east-1',
+      endpoint: options.endpoint,
+      forcePathStyle: Boolean(options.endpoint),
+      credentials: options.accessKeyId && options.secretAccessKey
+        ? { accessKeyId: options.accessKeyId, secretAccessKey: options.secretAccessKey }
+        : undefined,
+    });
+  }
+
+  keyFor(fileHash: string): string {
+    return `${this.prefix}${fileHash}`;
+  }
+
+  async put(key: string, content: Buffer): Promise<void> {
+    await this.client.send(new PutObjectCommand({
+      Bucket: this.bucket,
+      Key: key,
+      Body: content,
+      ContentLength: content.length,
+    }));
+  }
+
+  async exists(key: string): Promise<boolean> {
+    try {
+      await this.client.send(new HeadObjectCommand({ Bucket: this.bucket, Key: key }));
+      return true;
+    } catch (error) {
+      if (isNotFound(error)) return false;
+      throw error;
+    }
+  }
+
+  async get(key: string): Promise<Buffer | null> {
+    const stream = await this.openStream(key);
+    if (!stream) return null;
+
+    const chunks: Buffer[] = [];
+    for await (const chunk of stream) {
+      chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+    }
+    return Buffer.concat(chunks);
+  }
+
+  async openStream(key: string): Promise<Readable | null> {
+    try {
+      const response = await this.client.send(new GetObjectCommand({ Bucket: this.bucket, Key: key }));
+      if (!response.Body) return null;
+      return response.Body instanceof Readable
+        ? response.Body
+        : Readable.from(Buffer.from(await response.Body.transformToByteArray()));
+    } catch (error) {
+      if (isNotFound(error)) return null;
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.send(new DeleteObjectCommand({ Bucket: this.bucket, Key: key }));
+  }
+}
+
+function isNotFound(error: unknown): boolean {
+  const err = error as { name?: string; $metadata?: { httpStatusCode?: number } };
+  return err?.name === 'NotFound' || err?.name === 'NoSuchKey' || err?.$metadata?.httpStatusCode === 404;
+}
@@ -0,0 +1,20 @@
+import type { Readable } from 'stream';
+
+/**
+ * Blob store interface shared by the filesystem and S3-compatible implementations.
+ * Blobs are addressed by keys derived from the SHA-256 of their content.
+ */
+
+export type BlobStoreKind = 'local' | 's3';
+
+export interface BlobStore {
+  readonly kind: BlobStoreKind;
+  /** Key under which content with this SHA-256 is stored */
+  keyFor(fileHash: string): string;
+  put(key: string, content: Buffer): Promise<void>;
+  exists(key: string): Promise<boolean>;
+  /** Resolves to null when there is no blob under the key */
+  get(key: string): Promise<Buffer | null>;
+  openStream(key: string): Promise<Readable | null>;
+  delete(key: string): Promise<void>;
+}
@@ -1,10 +1,5 @@
-import Anthropic from '@anthropic-ai/sdk';
-
-// Initialize Anthropic client
-console.log('🔑 [BULK-AI] Initializing with API Key:', process.env.CLAUDE_API_KEY ? 'Present (length: ' + process.env.CLAUDE_API_KEY.length + ')' : 'MISSING');
-const anthropic = new Anthropic({
-  apiKey: process.env.CLAUDE_API_KEY || ''
-});
+import { aiUsageService } from './aiUsage/aiUsageService';
+import { isLLMConfigured } from './llm/llmClient';
 
 interface EmailData {
   id: string | number;
@@ -108,22 +103,17 @@ export class BulkIntelligenceService {
     const prompt = this.createAnalysisPrompt(batch, context);
 
     try {
-      const response = await anthropic.messages.create({
+      const { text } = await aiUsageService.complete({
         model: 'claude-3-5-sonnet-20241022',
-        max_tokens: 2000,
+        maxTokens: 2000,
         temperature: 0.3,
         messages: [{
           role: 'user',
           content: prompt
         }]
-      });
-
-      const content = response.content[0];
-      if (content.type === 'text') {
-        return JSON.parse(content.text);
-      }
+      }, { operation: 'analyzeBulkData', agent: 'intelligence' });
 
-      throw new Error('Unexpected response format from AI');
+      return JSON.parse(text);
     } catch (error) {
       console.error('🚨 [BULK-AI] AI processing error:', error);
       if (error instanceof Error) {
@@ -136,7 +126,7 @@ export class BulkIntelligenceService {
           type: (error as any).type
         });
       }
-      console.log('🔑 [BULK-AI] API Key check:', process.env.CLAUDE_API_KEY ? 'Present' : 'Missing');
+      console.log('🔑 [BULK-AI] LLM configured:', isLLMConfigured());
       // Return fallback analysis for this batch
       return this.createFallbackBatchResult(batch);
     }
@@ -1,4 +1,8 @@
-import Anthropic from '@anthropic-ai/sdk';
+import { sanitizeDependsOn } from '../utils/taskDependencies';
+import { normalizeRecurrenceRule } from '../utils/recurrence';
+import type { TaskRecurrenceRule } from '@email-task-router/shared';
+import { aiUsageService, isAiBudgetExceeded } from './aiUsage/aiUsageService';
+import { getLLMClient } from './llm/llmClient';
 
 /*
 The newest Anthropic model is "claude-sonnet-4-2025      con      const response = await anthropic.messages.create({
@@ -26,10 +30,6 @@ When copying code from this code snippet, ensure you also include this informati
 
 const DEFAULT_MODEL_STR = "claude-sonnet-4-20250514";
 
-const anthropic = new Anthropic({
-  apiKey: process.env.ANTHROPIC_API_KEY || process.env.CLAUDE_API_KEY,
-});
-
 interface TaskData {
   title: string;
   description?: string;
@@ -37,6 +37,17 @@ interface TaskData {
   status?: 'pending' | 'in-progress' | 'review' | 'blocked' | 'completed';
   dueDate?: Date;
   assignees?: string[]; // Array of email addresses or names
+  dependsOn?: number[]; // Positions of tasks in the same batch that must be completed first
+  recurrence?: TaskRecurrenceRule; // Schedule for tasks that repeat
+}
+
+// Budget refusals are expected once a company hits its hard limit, so they are not reported as errors
+function logFailure(context: string, error: unknown): void {
+  if (isAiBudgetExceeded(error)) {
+    console.warn(`💸 Skipped ${context}: AI budget exhausted, using fallback`);
+    return;
+  }
+  console.error(`Error ${context}:`, error);
 }
 
 class ClaudeService {
@@ -189,6 +200,13 @@ class ClaudeService {
           * "next week" → calculate one week from current date
           * "asap" or "urgent" → set to tomorrow from current date
         - assignees (optional): Array of email addresses or names mentioned as assignees
+        - dependsOn (optional): Array of zero-based positions, in this same JSON array, of the tasks that must be completed before this task can start
+          * Use it for sequential dependencies like "After Alice finishes the database setup, then Bob can start the API development"
+          * Only reference tasks in this array, and leave it out when tasks are independent
+        - recurrence (optional): Schedule for tasks that repeat, as {"frequency": "daily" | "weekly" | "monthly", "interval": number, "byWeekday": [0-6, 0 = Sunday], "byMonthDay": 1-31, "until": "YYYY-MM-DD", "count": number}
+          * Use it for phrases like "every day", "daily standup", "every other week", "each Monday and Thursday", "on the 1st of every month", "weekly until March", "for the next 4 weeks"
+          * Only "frequency" is required; interval defaults to 1. Set dueDate to the first occurrence
+          * Leave it out for one-off tasks
         
         Rules:
         - Only extract genuine NEW actionable tasks that aren't duplicates of PENDING/IN-PROGRESS tasks
@@ -199,7 +217,7 @@ class ClaudeService {
         - If the entire email content appears to be a single actionable item, treat it as a task
         - Be concise but clear in task titles
         - If no clear NEW tasks are found, return an empty array
-        - For recurring tasks, include time context in the title (e.g., "Daily standup - January 8th", "Weekly report - Week 2")
+        - For recurring tasks, keep dates out of the title (e.g., "Daily standup", "Weekly report") and describe the schedule in recurrence
         - IMPORTANT: For assignees, ALWAYS try to match names/usernames to the project participants list provided above
         - When you see usernames like "jsph273", "john", etc., look for matching participants by:
           * Exact email match (jsph273@gmail.com)
@@ -307,16 +325,22 @@ class ClaudeService {
         
         Input: "Either Mike or Jennifer can review the documentation"
         Output: [{"title": "Review documentation", "assignees": ["mike@company.com", "jennifer@company.com"]}]
+        
+        Input: "After Alice finishes the database setup, then Bob can start the API development"
+        Output: [
+          {"title": "Set up database", "assignees": ["alice@company.com"]},
+          {"title": "Start API development", "assignees": ["bob@company.com"], "dependsOn": [0]}
+        ]
+        
+        Input: "Tom, please send the weekly report every Friday until the end of the quarter"
+        Output: [{"title": "Send weekly report", "assignees": ["tom@company.com"], "dueDate": "<next friday>", "recurrence": {"frequency": "weekly", "interval": 1, "byWeekday": [5], "until": "<last day of quarter>"}}]
       `;
 
-      const response = await anthropic.messages.create({
+      const { text } = await aiUsageService.complete({
         model: DEFAULT_MODEL_STR,
-        max_tokens: 1024,
+        maxTokens: 1024,
         messages: [{ role: 'user', content: prompt }],
-      });
-
-      const content = response.content[0];
-      const text = content.type === 'text' ? content.text : '';
+      }, { operation: 'parseEmailToTasksWithContext' });
       
       console.log('🔍 [CLAUDE] Raw response (with context):', text);
       
@@ -340,13 +364,15 @@ class ClaudeService {
         }
       }
 
-      return tasks.map((task: any) => ({
+      return tasks.map((task: any, index: number) => ({
         ...task,
         dueDate: task.dueDate ? new Date(task.dueDate) : undefined,
         assignees: task.assignees || [],
+        dependsOn: sanitizeDependsOn(task.dependsOn, index, tasks.length),
+        recurrence: normalizeRecurrenceRule(task.recurrence) || undefined,
       }));
     } catch (error) {
-      console.error('Error parsing email to tasks with context:', error);
+      logFailure('parsing email to tasks with context', error);
       // Return empty array for reply emails to avoid creating duplicate tasks
       return [];
     }
@@ -484,6 +510,13 @@ class ClaudeService {
           * "next week" → calculate one week from current date
           * "asap" or "urgent" → set to tomorrow from current date
         - assignees (optional): Array of email addresses or names mentioned as assignees
+        - dependsOn (optional): Array of zero-based positions, in this same JSON array, of the tasks that must be completed before this task can start
+          * Use it for sequential dependencies like "After Alice finishes the database setup, then Bob can start the API development"
+          * Only reference tasks in this array, and leave it out when tasks are independent
+        - recurrence (optional): Schedule for tasks that repeat, as {"frequency": "daily" | "weekly" | "monthly", "interval": number, "byWeekday": [0-6, 0 = Sunday], "byMonthDay": 1-31, "until": "YYYY-MM-DD", "count": number}
+          * Use it for phrases like "every day", "daily standup", "every other week", "each Monday and Thursday", "on the 1st of every month", "weekly until March", "for the next 4 weeks"
+          * Only "frequency" is required; interval defaults to 1. Set dueDate to the first occurrence
+          * Leave it out for one-off tasks
         
         Rules:
         - Only extract genuine actionable tasks
@@ -590,16 +623,22 @@ class ClaudeService {
         
         Input: "Either Mike or Jennifer can review the documentation"
         Output: [{"title": "Review documentation", "assignees": ["mike@company.com", "jennifer@company.com"]}]
+        
+        Input: "After Alice finishes the database setup, then Bob can start the API development"
+        Output: [
+          {"title": "Set up database", "assignees": ["alice@company.com"]},
+          {"title": "Start API development", "assignees": ["bob@company.com"], "dependsOn": [0]}
+        ]
+        
+        Input: "Tom, please send the weekly report every Friday until the end of the quarter"
+        Output: [{"title": "Send weekly report", "assignees": ["tom@company.com"], "dueDate": "<next friday>", "recurrence": {"frequency": "weekly", "interval": 1, "byWeekday": [5], "until": "<last day of quarter>"}}]
       `;
 
-      const response = await anthropic.messages.create({
+      const { text } = await aiUsageService.complete({
         model: DEFAULT_MODEL_STR,
-        max_tokens: 1024,
+        maxTokens: 1024,
         messages: [{ role: 'user', content: prompt }],
-      });
-
-      const content = response.content[0];
-      const text = content.type === 'text' ? content.text : '';
+      }, { operation: 'parseEmailToTasks' });
       
       console.log('🔍 [CLAUDE] Raw response:', text);
       
@@ -623,13 +662,15 @@ class ClaudeService {
         }
       }
 
-      return tasks.map((task: any) => ({
+      return tasks.map((task: any, index: number) => ({
         ...task,
         dueDate: task.dueDate ? new Date(task.dueDate) : undefined,
         assignees: task.assignees || [],
+        dependsOn: sanitizeDependsOn(task.dependsOn, index, tasks.length),
+        recurrence: normalizeRecurrenceRule(task.recurrence) || undefined,
       }));
     } catch (error) {
-      console.error('Error parsing email to tasks:', error);
+      logFailure('parsing email to tasks', error);
       // Return a fallback task if parsing fails
       return [{
         title: `Follow up on: ${subject}`,
@@ -652,18 +693,15 @@ class ClaudeService {
         Examples (any language): "Marketing Campaign" / "Campaña de Marketing" / "Campagne Marketing" / "营销活动" / "マーケティングキャンペーン", "Budget Review" / "Revisión Presupuesto" / "Révision Budget" / "预算审查" / "予算レビュー", "Team Meeting" / "Reunión Equipo" / "Réunion Équipe" / "团队会议" / "チームミーティング"
       `;
 
-      const response = await anthropic.messages.create({
+      const { text } = await aiUsageService.complete({
         model: DEFAULT_MODEL_STR,
-        max_tokens: 100,
+        maxTokens: 100,
         messages: [{ role: 'user', content: prompt }],
-      });
-
-      const content = response.content[0];
-      const text = content.type === 'text' ? content.text : '';
+      }, { operation: 'extractTopic' });
       
       return text.trim();
     } catch (error) {
-      console.error('Error extracting topic:', error);
+      logFailure('extracting topic', error);
       // Return subject as fallback
       return subject.substring(0, 50);
     }
@@ -687,19 +725,16 @@ class ClaudeService {
         - requiresAction: true if the email requires action, false otherwise - detect action requirements in ANY language
       `;
 
-      const response = await anthropic.messages.create({
+      const { text } = await aiUsageService.complete({
         model: DEFAULT_MODEL_STR,
-        max_tokens: 200,
+        maxTokens: 200,
         messages: [{ role: 'user', content: prompt }],
-      });
-
-      const content = response.content[0];
-      const text = content.type === 'text' ? content.text : '';
+      }, { operation: 'categorizeEmail' });
       
       const cleanedContent = text.replace(/```json\n?/g, '').replace(/```\n?/g, '').trim();
       return JSON.parse(cleanedContent);
     } catch (error) {
-      console.error('Error categorizing email:', error);
+      logFailure('categorizing email', error);
       return {
         category: 'general',
         urgency: 'medium',
@@ -715,16 +750,13 @@ class ClaudeService {
     try {
       // Add debug logging
       console.log('🤖 Claude service: Sending message to Claude...');
-      console.log('API Key configured:', !!process.env.CLAUDE_API_KEY || !!process.env.ANTHROPIC_API_KEY);
+      console.log(`LLM provider: ${getLLMClient().provider}, configured: ${getLLMClient().isConfigured()}`);
       
-      const response = await anthropic.messages.create({
+      const { text } = await aiUsageService.complete({
         model: DEFAULT_MODEL_STR,
-        max_tokens: 1024,
+        maxTokens: 1024,
         messages: [{ role: 'user', content: prompt }],
-      });
-
-      const content = response.content[0];
-      const text = content.type === 'text' ? content.text : '';
+      }, { operation: 'sendMessage' });
       
       console.log('🤖 Claude service: Response received successfully');
       return text;
@@ -818,14 +850,11 @@ class ClaudeService {
         - Return: [{"taskId": 123, "taskTitle": "Review quarterly budget report", "newStatus": "in-progress"}]
       `;
 
-      const response = await anthropic.messages.create({
+      const { text } = await aiUsageService.complete({
         model: DEFAULT_MODEL_STR,
-        max_tokens: 1024,
+        maxTokens: 1024,
         messages: [{ role: 'user', content: prompt }],
-      });
-
-      const content = response.content[0];
-      const text = content.type === 'text' ? content.text : '';
+      }, { operation: 'parseReplyForTaskUpdates' });
       
       console.log('🔍 [CLAUDE] Reply parsing raw response:', text);
       
@@ -851,7 +880,7 @@ class ClaudeService {
       );
       
     } catch (error) {
-      console.error('Error parsing reply for task updates:', error);
+      logFailure('parsing reply for task updates', error);
       console.log('⚠️  [CLAUDE] Falling back to empty array due to parsing error');
       return [];
     }
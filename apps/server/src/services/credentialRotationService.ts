@@ -0,0 +1,86 @@
+import { storage } from '../storage';
+import { encryptionService, type EncryptionService } from './encryptionService';
+
+export interface CredentialRotationResult {
+  encrypted: number;   // Plaintext secrets written before encryption at rest
+  reEncrypted: number; // Secrets moved from a retired key to the active one
+  failed: number;
+}
+
+type SecretRow = { id: number } & Record<string, string | null | number>;
+
+/**
+ * CredentialRotationService - Keeps stored mailbox secrets encrypted with the active key
+ * Covers IMAP passwords and the OAuth tokens of linked mailboxes. Encrypts values still held in
+ * plaintext and re-encrypts values written with an older key of the ring, so a key can be dropped
+ * from ENCRYPTION_KEYS once a run reports no failures. Safe to run repeatedly.
+ */
+export class CredentialRotationService {
+  constructor(private readonly encryption: EncryptionService = encryptionService) {}
+
+  async reEncryptMailboxSecrets(batchSize: number = 100): Promise<CredentialRotationResult> {
+    const result: CredentialRotationResult = { encrypted: 0, reEncrypted: 0, failed: 0 };
+
+    await this.reEncrypt(
+      result,
+      'email credentials',
+      ['imapPassword'],
+      (afterId, limit) => storage.getEmailCredentialsBatch(afterId, limit),
+      (id, data) => storage.updateEmailCredentials(id, data),
+      batchSize
+    );
+    await this.reEncrypt(
+      result,
+      'linked account',
+      ['accessToken', 'refreshToken'],
+      (afterId, limit) => storage.getLinkedAccountTokensBatch(afterId, limit),
+      (id, data) => storage.updateLinkedAccount(id, data),
+      batchSize
+    );
+
+    if (result.encrypted + result.reEncrypted + result.failed > 0) {
+      console.log(`🔐 [CREDENTIALS] Encrypted ${result.encrypted} plaintext and re-encrypted ${result.reEncrypted} mailbox secret(s) with key ${this.encryption.activeKeyId}, ${result.failed} failed`);
+    }
+    return result;
+  }
+
+  private async reEncrypt<Row extends SecretRow>(
+    result: CredentialRotationResult,
+    label: string,
+    fields: Array<keyof Row & string>,
+    load: (afterId: number, limit: number) => Promise<Row[]>,
+    update: (id: number, data: Record<string, string>) => Promise<unknown>,
+    batchSize: number
+  ) {
+    let afterId = 0;
+    for (;;) {
+      const rows = await load(afterId, batchSize);
+      if (rows.length === 0) break;
+
+      for (const row of rows) {
+        afterId = row.id;
+        const stale = fields.filter(field => {
+          const value = row[field];
+          return typeof value === 'string' && this.encryption.needsReEncryption(value);
+        });
+        if (stale.length === 0) continue;
+
+        try {
+          const data: Record<string, string> = {};
+          for (const field of stale) {
+            data[field] = this.encryption.reEncrypt(row[field] as string);
+          }
+          await update(row.id, data);
+          for (const field of stale) {
+            result[this.encryption.isEncrypted(row[field] as string) ? 'reEncrypted' : 'encrypted']++;
+          }
+        } catch (error) {
+          result.failed++;
+          console.error(`❌ [CREDENTIALS] Could not re-encrypt ${label} ${row.id}:`, error);
+        }
+      }
+    }
+  }
+}
+
+export const credentialRotationService = new CredentialRotationService();
@@ -0,0 +1,177 @@
+import { storage } from '../storage';
+import { emailRouter } from './email/EmailRouter';
+import type { EmailRoute } from './email/types';
+import { emailQueueService } from './emailQueueService';
+import { s3EmailBackupProcessor } from './s3EmailBackupProcessor';
+import { deserializeEmailData, type SerializedEmailData } from './queue/jobUtils';
+import { EMAIL_QUEUES } from './queue/types';
+import type { EmailQueueJob } from '@email-task-router/shared';
+
+export interface FailedEmailSummary {
+  id: number;
+  queue: string;
+  subject: string | null;
+  sender: string | null;
+  messageId: string | null;
+  userId: string | null;
+  failureReason: string | null;
+  route: EmailRoute;
+  attempts: number;
+  maxAttempts: number;
+  s3Key?: string;
+  createdAt: Date | null;
+  deadLetteredAt: Date | null;
+}
+
+export interface FailedEmailDetail extends FailedEmailSummary {
+  email?: {
+    from: string;
+    to: string[];
+    cc: string[];
+    bcc: string[];
+    subject: string;
+    body: string;
+    date: Date;
+    messageId: string;
+    inReplyTo?: string;
+    attachments: Array<{ filename: string; contentType: string; size: number }>;
+  };
+  payload?: Record<string, unknown>; // Raw payload for jobs that do not carry a full email (T5T batch)
+}
+
+export interface ReplayResult {
+  success: boolean;
+  message: string;
+}
+
+/**
+ * Dead-letter inbox
+ * Surfaces emails that exhausted their retries in a queue, or were parked in the S3
+ * failed folder, and lets an admin re-run them through the handler pipeline.
+ */
+export class DeadLetterService {
+  async listFailedEmails(queue?: string, limit: number = 100): Promise<FailedEmailSummary[]> {
+    const jobs = await storage.getDeadLetterEmailQueueJobs(queue, limit);
+    return jobs.map(job => this.toSummary(job));
+  }
+
+  async getFailedEmail(id: number): Promise<FailedEmailDetail | undefined> {
+    const job = await storage.getEmailQueueJob(id);
+    if (!job || job.status !== 'dead_letter') {
+      return undefined;
+    }
+
+    const summary = this.toSummary(job);
+    const email = this.getEmailFromJob(job);
+    if (!email) {
+      return { ...summary, payload: job.payload as Record<string, unknown> };
+    }
+
+    return {
+      ...summary,
+      email: {
+        from: email.from,
+        to: email.to || [],
+        cc: email.cc || [],
+        bcc: email.bcc || [],
+        subject: email.subject,
+        body: email.body,
+        date: email.date,
+        messageId: email.messageId,
+        inReplyTo: email.inReplyTo,
+        attachments: (email.attachments || []).map(({ filename, contentType, size }) => ({ filename, contentType, size })),
+      },
+    };
+  }
+
+  /**
+   * Queue jobs go back on their queue with a fresh set of attempts; S3 failures are
+   * re-run immediately since the raw email lives in the bucket rather than the job.
+   * Returns undefined when the email is not (or no longer) dead-lettered.
+   */
+  async replayFailedEmail(id: number): Promise<ReplayResult | undefined> {
+    const job = await storage.getEmailQueueJob(id);
+    if (!job || job.status !== 'dead_letter') {
+      return undefined;
+    }
+
+    if (job.queue === EMAIL_QUEUES.s3Backup) {
+      const s3Key = this.getS3Key(job);
+      if (!s3Key) {
+        return { success: false, message: 'Failed email has no S3 key to replay from' };
+      }
+
+      const result = await s3EmailBackupProcessor.replayFailedEmail(s3Key);
+      if (!result.success) {
+        // Keep the entry in the inbox with the latest reason; the object stays in the failed folder
+        await storage.recordEmailQueueJobReplayFailure(job.id, result.error || 'Replay failed');
+        return { success: false, message: result.error || 'Replay failed' };
+      }
+
+      await storage.deleteEmailQueueJob(job.id);
+      console.log(`🔁 [DEAD-LETTER] Replayed S3 email ${s3Key}`);
+      return { success: true, message: 'Email reprocessed successfully' };
+    }
+
+    const requeued = await storage.requeueEmailQueueJob(job.id);
+    if (!requeued) {
+      return undefined;
+    }
+
+    console.log(`🔁 [DEAD-LETTER] Requeued job ${job.id} on ${job.queue}`);
+    if (job.queue === EMAIL_QUEUES.email) {
+      emailQueueService.processNext();
+    }
+    return { success: true, message: 'Email queued for reprocessing' };
+  }
+
+  /**
+   * Drop an entry from the inbox. S3 objects stay archived in the failed folder.
+   */
+  async discardFailedEmail(id: number): Promise<boolean> {
+    const job = await storage.getEmailQueueJob(id);
+    if (!job || job.status !== 'dead_letter') {
+      return false;
+    }
+    return storage.deleteEmailQueueJob(job.id);
+  }
+
+  private toSummary(job: EmailQueueJob): FailedEmailSummary {
+    return {
+      id: job.id,
+      queue: job.queue,
+      subject: job.subject,
+      sender: job.sender,
+      messageId: job.messageId,
+      userId: job.userId,
+      failureReason: job.lastError,
+      route: this.determineRoute(job),
+      attempts: job.attempts,
+      maxAttempts: job.maxAttempts,
+      s3Key: this.getS3Key(job),
+      createdAt: job.createdAt,
+      deadLetteredAt: job.deadLetteredAt,
+    };
+  }
+
+  private determineRoute(job: EmailQueueJob): EmailRoute {
+    // T5T batch jobs only exist for emails already routed to the intelligence agents
+    if (job.queue === EMAIL_QUEUES.t5tBatch) {
+      return 'intelligence';
+    }
+    const email = this.getEmailFromJob(job);
+    return email ? emailRouter.determineRouteByRecipient(email) : null;
+  }
+
+  private getEmailFromJob(job: EmailQueueJob) {
+    const payload = job.payload as { email?: SerializedEmailData } | null;
+    return payload?.email ? deserializeEmailData(payload.email) : undefined;
+  }
+
+  private getS3Key(job: EmailQueueJob): string | undefined {
+    const payload = job.payload as { s3Key?: string } | null;
+    return payload?.s3Key;
+  }
+}
+
+export const deadLetterService = new DeadLetterService();
@@ -0,0 +1,166 @@
+import { storage } from '../storage';
+import { sendMail } from './mailer';
+import { getOrCreateUserByEmail } from './userService';
+import { attachmentAnalysisService } from './attachmentAnalysisService';
+import { taskActivityService } from './taskActivityService';
+import { parseActionItem } from '../utils/actionItems';
+import { findBestParticipantMatch } from '../utils/participants';
+import { formatTaskMarker } from '../utils/taskMentions';
+import { escapeHtml } from '../utils/escape';
+import type { Project, Task } from '@email-task-router/shared';
+
+export interface AnalyzedDocument {
+  attachmentId: number;
+  filename: string;
+  analysis: any;
+}
+
+export interface DocumentTaskContext {
+  project: Project;
+  createdBy: string;
+  participants: string[]; // Emails action item owners are matched against
+  sourceEmail?: string;
+  sourceEmailSubject?: string;
+  referenceDate?: Date; // Resolves relative deadlines such as "by Friday"
+}
+
+export interface CreatedDocumentTask {
+  task: Task;
+  filename: string;
+  assignee: string | null;
+}
+
+/**
+ * Document task service
+ * Turns the action items found in analyzed attachments into tasks of the attachment's project.
+ * Owners named in an item are matched to project participants the way the Todo agent matches
+ * assignees, and every task keeps a link to the document it came from.
+ */
+export class DocumentTaskService {
+  /**
+   * Action items of an analysis: the ones Claude or the outline extraction listed, otherwise
+   * those found in the extracted text of meeting notes
+   */
+  collectActionItems(analysis: any): string[] {
+    if (Array.isArray(analysis?.actionItems) && analysis.actionItems.length > 0) {
+      return analysis.actionItems.filter((item: unknown): item is string => typeof item === 'string' && item.trim().length > 0);
+    }
+
+    const text = typeof analysis?.extractedText === 'string' ? analysis.extractedText : '';
+    return text ? attachmentAnalysisService.extractMeetingOutcomes(text).actionItems : [];
+  }
+
+  /**
+   * Create tasks for the action items of one document. Items already turned into a task of the
+   * same document are skipped, so re-analysis does not duplicate them.
+   */
+  async createTasksFromDocument(document: AnalyzedDocument, context: DocumentTaskContext): Promise<CreatedDocumentTask[]> {
+    const items = this.collectActionItems(document.analysis);
+    if (items.length === 0) return [];
+
+    const existingTitles = new Set(
+      (await storage.getTasksBySourceAttachment(document.attachmentId)).map(task => task.title.toLowerCase())
+    );
+    const meetingDate = typeof document.analysis?.extractedText === 'string'
+      ? attachmentAnalysisService.extractMeetingOutcomes(document.analysis.extractedText).meetingDate
+      : null;
+
+    const created: CreatedDocumentTask[] = [];
+    for (const item of items) {
+      const parsed = parseActionItem(item, context.referenceDate);
+      if (existingTitles.has(parsed.title.toLowerCase())) continue;
+      existingTitles.add(parsed.title.toLowerCase());
+
+      const task = await storage.createTask({
+        projectId: context.project.id,
+        title: parsed.title,
+        description: `Action item from "${document.filename}"${meetingDate ? ` (meeting of ${meetingDate})` : ''}`,
+        priority: parsed.priority,
+        status: 'pending',
+        dueDate: parsed.dueDate,
+        sourceEmail: context.sourceEmail,
+        sourceEmailSubject: context.sourceEmailSubject,
+        sourceAttachmentId: document.attachmentId,
+        createdBy: context.createdBy,
+      });
+
+      const assignee = parsed.assignee ? findBestParticipantMatch(parsed.assignee, context.participants) : null;
+      if (assignee) {
+        const user = await getOrCreateUserByEmail(assignee);
+        await storage.assignTask({ taskId: task.id, userId: user.id });
+        await taskActivityService.recordAssignment(task.id, user.id, null, true, 'system');
+        console.log(`🎯 [DOCUMENT-TASKS] Matched "${parsed.assignee}" to ${assignee} for task ${task.id}`);
+      } else if (parsed.assignee) {
+        console.log(`⚠️ [DOCUMENT-TASKS] Could not resolve assignee "${parsed.assignee}" for task ${task.id}`);
+      }
+
+      created.push({ task, filename: document.filename, assignee });
+    }
+
+    console.log(`✅ [DOCUMENT-TASKS] Created ${created.length} task(s) from ${document.filename} in project ${context.project.id}`);
+    return created;
+  }
+
+  /**
+   * Create tasks for several documents; a failing document does not stop the others
+   */
+  async createTasksFromDocuments(documents: AnalyzedDocument[], context: DocumentTaskContext): Promise<CreatedDocumentTask[]> {
+    const created: CreatedDocumentTask[] = [];
+    for (const document of documents) {
+      try {
+        created.push(...await this.createTasksFromDocument(document, context));
+      } catch (error) {
+        console.error(`❌ [DOCUMENT-TASKS] Failed to create tasks from ${document.filename}:`, error);
+      }
+    }
+    return created;
+  }
+
+  /**
+   * Tell the sender which tasks were created and where they came from
+   */
+  async sendConfirmationEmail(recipient: string, project: Project, created: CreatedDocumentTask[]): Promise<boolean> {
+    if (created.length === 0) return false;
+
+    const projectLink = `${process.env.DASHBOARD_URL || 'https://inboxleap.com'}/project/${project.id}`;
+    const describe = ({ task, filename, assignee }: CreatedDocumentTask) => [
+      `from ${filename}`,
+      assignee ? `assigned to ${assignee}` : 'unassigned',
+      task.dueDate ? `due ${new Date(task.dueDate).toDateString()}` : null,
+    ].filter(Boolean).join(', ');
+
+    const text = `Created ${created.length} task${created.length === 1 ? '' : 's'} in "${project.name}" from the action items in your documents:
+
+${created.map((entry, index) => `${index + 1}. ${formatTaskMarker(entry.task.id)} ${entry.task.title}
+   ${describe(entry)}`).join('\n\n')}
+
+View the project: ${projectLink}`;
+
+    const html = `
+<html>
+<body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333;">
+  <h2 style="color: #FF6B35;">📎 Analyzer - Tasks Created</h2>
+  <p>Created ${created.length} task${created.length === 1 ? '' : 's'} in <strong>${escapeHtml(project.name)}</strong> from the action items in your documents:</p>
+  <ol>
+    ${created.map(entry => `<li><strong>${escapeHtml(entry.task.title)}</strong><br><span style="color: #666; font-size: 14px;">${escapeHtml(describe(entry))}</span></li>`).join('\n    ')}
+  </ol>
+  <p><a href="${projectLink}" style="color: #FF6B35; text-decoration: none;">View the project</a></p>
+</body>
+</html>`;
+
+    const sent = await sendMail({
+      from: process.env.POSTMARK_FROM_EMAIL || process.env.SERVICE_EMAIL,
+      to: [recipient],
+      subject: `📎 [Analyzer] ${created.length} task${created.length === 1 ? '' : 's'} created: ${project.name}`,
+      html,
+      text,
+    });
+
+    if (!sent) {
+      console.error(`❌ [DOCUMENT-TASKS] Confirmation for project ${project.id} could not be mailed to ${recipient}`);
+    }
+    return sent;
+  }
+}
+
+export const documentTaskService = new DocumentTaskService();
@@ -0,0 +1,238 @@
+import { EmailData } from './types';
+import { emailConfigManager } from './EmailConfigManager';
+import type { AgentRoutingScore } from '@email-task-router/shared';
+
+export type AutoRoutableAgent = 'todo' | 'polly' | 'analyzer' | 'faq' | 't5t';
+
+interface DetectionPattern {
+  agentId: AutoRoutableAgent;
+  keywords: string[];
+  subjectPatterns: RegExp[];
+  contentPatterns: RegExp[];
+  attachmentTypes?: string[];
+  priority: number; // Higher number = higher priority in case of conflicts
+}
+
+export interface AutoRoutingDecision {
+  agentId: AutoRoutableAgent | null; // null when the email is too ambiguous to dispatch
+  confidence: number; // 0-100
+  ambiguous: boolean;
+  reason: string;
+  scores: AgentRoutingScore[]; // Best first
+}
+
+// Same signals as the auto-router demo page (apps/web/src/lib/agentAutoDetection.ts), limited to the agents the server can dispatch to
+const DETECTION_PATTERNS: DetectionPattern[] = [
+  {
+    agentId: 'todo',
+    priority: 8,
+    keywords: [
+      'task', 'todo', 'deadline', 'priority', 'project', 'milestone', 'deliverable',
+      'assign', 'responsible', 'due date', 'schedule', 'planning', 'roadmap',
+      'backlog', 'sprint', 'kanban', 'workflow', 'progress', 'status update',
+      'action item', 'checklist', 'requirement', 'scope', 'timeline'
+    ],
+    subjectPatterns: [
+      /\[TASK\]/i, /\[PROJECT\]/i, /\[TODO\]/i, /action\s+required/i,
+      /deadline/i, /due\s+date/i, /project\s+update/i, /milestone/i
+    ],
+    contentPatterns: [
+      /need\s+to\s+(do|complete|finish)/i, /please\s+(complete|finish|work\s+on)/i,
+      /deadline\s+is/i, /due\s+(on|by)/i, /assign(ed)?\s+to/i,
+      /responsible\s+for/i, /priority\s+(high|medium|low)/i, /project\s+plan/i
+    ]
+  },
+  {
+    agentId: 'polly',
+    priority: 9,
+    keywords: [
+      'poll', 'vote', 'survey', 'choice', 'option', 'decide', 'decision',
+      'which', 'what time', 'prefer', 'opinion', 'consensus', 'meeting time',
+      'selection', 'ballot'
+    ],
+    subjectPatterns: [
+      /\[POLL\]/i, /\[VOTE\]/i, /which\s+(time|option|day)/i, /when\s+(should|can|do)/i,
+      /meeting\s+time/i, /vote\s+on/i, /decision\s+needed/i
+    ],
+    contentPatterns: [
+      /which\s+(option|time|day|choice)/i, /vote\s+(for|on)/i, /what\s+(time|day|option)/i,
+      /when\s+(works|is\s+best)/i, /prefer(ence)?/i, /option\s+\d/i, /choice\s+[a-z]\b/i,
+      /meeting\s+time/i, /please\s+(vote|choose|select)/i
+    ]
+  },
+  {
+    agentId: 'analyzer',
+    priority: 10, // Highest priority when attachments present
+    keywords: [
+      'attachment', 'document', 'file', 'pdf', 'analyze', 'review',
+      'contract', 'report', 'proposal', 'specification', 'diagram',
+      'spreadsheet', 'presentation', 'image', 'scan', 'upload'
+    ],
+    subjectPatterns: [
+      /\[DOCUMENT\]/i, /\[ATTACHMENT\]/i, /please\s+review/i,
+      /document\s+review/i, /contract\s+review/i, /file\s+analysis/i
+    ],
+    contentPatterns: [
+      /attached\s+(file|document)/i, /please\s+(review|analyze)/i, /see\s+attached/i,
+      /attachment\s+contains/i, /document\s+(review|analysis)/i, /file\s+(attached|included)/i
+    ],
+    attachmentTypes: ['.pdf', '.doc', '.docx', '.xls', '.xlsx', '.csv', '.ppt', '.pptx', '.txt', '.jpg', '.jpeg', '.png', '.svg']
+  },
+  {
+    agentId: 'faq',
+    priority: 7,
+    keywords: [
+      'how', 'help', 'question', 'procedure', 'policy', 'sop', 'guide',
+      'instruction', 'manual', 'documentation', 'explain', 'clarify',
+      'process', 'step', 'guideline', 'standard', 'compliance'
+    ],
+    subjectPatterns: [
+      /\[HELP\]/i, /\[FAQ\]/i, /\[QUESTION\]/i, /how\s+to/i,
+      /help\s+with/i, /need\s+help/i, /procedure\s+for/i
+    ],
+    contentPatterns: [
+      /how\s+(do|can)\s+i/i, /what\s+is\s+the\s+(process|procedure)/i, /need\s+(help|assistance)/i,
+      /can\s+you\s+(help|explain)/i, /what\s+are\s+the\s+steps/i, /policy\s+(says|states)/i,
+      /according\s+to\s+(sop|policy)/i
+    ]
+  },
+  {
+    agentId: 't5t',
+    priority: 6,
+    keywords: [
+      'analysis', 'report', 'trend', 'insight', 'summary', 'overview',
+      'metrics', 'data', 'analytics', 'dashboard', 'intelligence',
+      'pattern', 'statistics', 'kpi', 'performance', 'issue', 'problem'
+    ],
+    subjectPatterns: [
+      /\[ANALYSIS\]/i, /\[REPORT\]/i, /\[INSIGHT\]/i, /weekly\s+(report|analysis)/i,
+      /trend\s+analysis/i, /performance\s+report/i, /\bT5T\b/i, /top\s+5/i
+    ],
+    contentPatterns: [
+      /trend\s+(analysis|report)/i, /need\s+(insights|analysis)/i, /top\s+\d+/i,
+      /most\s+(common|frequent)/i, /analyze\s+(trends|patterns)/i, /intelligence\s+report/i,
+      /what\s+are\s+the\s+(main|top|key)/i
+    ]
+  }
+];
+
+export class AgentAutoRouter {
+  private readonly minConfidence = 40; // Below this the sender is asked which agent they meant
+  private readonly minMargin = 8; // Runner-up within this many score points of the winner is a tie
+  private readonly groupRecipientThreshold = 3; // Mail addressed to a group leans towards a poll
+
+  /**
+   * Score an email sent to the load balancer address against every dispatchable agent
+   * and pick a winner, or flag it as ambiguous.
+   */
+  classify(email: EmailData): AutoRoutingDecision {
+    const scores = DETECTION_PATTERNS
+      .map(pattern => this.scorePattern(pattern, email))
+      .filter(score => score.score > 0)
+      .sort((a, b) => b.score - a.score);
+
+    if (scores.length === 0) {
+      return {
+        agentId: null,
+        confidence: 0,
+        ambiguous: true,
+        reason: 'No agent-specific signals found in the subject, body or attachments',
+        scores,
+      };
+    }
+
+    const [best, runnerUp] = scores;
+
+    if (best.confidence < this.minConfidence) {
+      return {
+        agentId: null,
+        confidence: best.confidence,
+        ambiguous: true,
+        reason: `Best match ${best.agentId} is only ${best.confidence}% confident`,
+        scores,
+      };
+    }
+
+    if (runnerUp && best.score - runnerUp.score < this.minMargin) {
+      return {
+        agentId: null,
+        confidence: best.confidence,
+        ambiguous: true,
+        reason: `${best.agentId} (score ${best.score}) and ${runnerUp.agentId} (score ${runnerUp.score}) match almost equally well`,
+        scores,
+      };
+    }
+
+    return {
+      agentId: best.agentId as AutoRoutableAgent,
+      confidence: best.confidence,
+      ambiguous: false,
+      reason: best.reasons.slice(0, 3).join('; '),
+      scores,
+    };
+  }
+
+  private scorePattern(pattern: DetectionPattern, email: EmailData): AgentRoutingScore {
+    let score = 0;
+    const reasons: string[] = [];
+    const subject = email.subject || '';
+    const body = email.body || '';
+
+    for (const regex of pattern.subjectPatterns) {
+      if (regex.test(subject)) {
+        score += 15;
+        reasons.push(`Subject matches ${pattern.agentId} pattern`);
+      }
+    }
+
+    for (const regex of pattern.contentPatterns) {
+      if (regex.test(body)) {
+        score += 12;
+        reasons.push(`Content matches ${pattern.agentId} pattern`);
+      }
+    }
+
+    // Whole-word matches only, so "how" does not fire on "however"
+    const fullText = `${subject} ${body}`.toLowerCase();
+    for (const keyword of pattern.keywords) {
+      if (new RegExp(`\\b${keyword.replace(/\s+/g, '\\s+')}\\b`, 'i').test(fullText)) {
+        score += 5;
+        reasons.push(`Contains keyword: ${keyword}`);
+      }
+    }
+
+    if (pattern.attachmentTypes && email.attachments?.length) {
+      const matching = email.attachments.filter(attachment =>
+        pattern.attachmentTypes!.some(ext => attachment.filename?.toLowerCase().endsWith(ext))
+      );
+      if (matching.length > 0) {
+        score += 20;
+        reasons.push(`Has relevant attachments: ${matching.map(a => a.filename).join(', ')}`);
+      }
+    }
+
+    if (pattern.agentId === 'polly' && this.countOtherRecipients(email) >= this.groupRecipientThreshold) {
+      score += 5;
+      reasons.push('Addressed to a group of recipients');
+    }
+
+    // Apply priority weighting
+    score = score * (pattern.priority / 10);
+
+    return {
+      agentId: pattern.agentId,
+      score: Math.round(score * 10) / 10,
+      confidence: Math.round(Math.min(score / 50, 1) * 100), // Normalize to 0-100
+      reasons,
+    };
+  }
+
+  private countOtherRecipients(email: EmailData): number {
+    const serviceDomain = `@${emailConfigManager.getServiceDomain().toLowerCase()}`;
+    return [...(email.to || []), ...(email.cc || [])]
+      .filter(address => !address.toLowerCase().includes(serviceDomain))
+      .length;
+  }
+}
+
+export const agentAutoRouter = new AgentAutoRouter();
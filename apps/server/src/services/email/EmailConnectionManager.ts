@@ -3,6 +3,8 @@ import { createRequire } from "module";
 import { EmailConfig } from './types';
 import { emailConfigManager } from './EmailConfigManager';
 import { storage } from '../../storage';
+import { encryptionService } from '../encryptionService';
+import { buildXOAuth2Token, isMailboxReauthRequired, mailboxOAuthService } from '../mailboxOAuth/mailboxOAuthService';
 
 const require = createRequire(import.meta.url);
 const Imap = require("imap");
@@ -15,10 +17,10 @@ export class EmailConnectionManager extends EventEmitter {
   private maxReconnectAttempts = 5;
   private reconnectDelay = 5000; // 5 seconds base delay
 
-  createImapConnection(config: EmailConfig): any {
+  createImapConnection(config: EmailConfig, accessToken?: string): any {
     return new Imap({
       user: config.email,
-      password: config.password,
+      ...(accessToken ? { xoauth2: buildXOAuth2Token(config.email, accessToken) } : { password: config.password }),
       host: config.imapHost,
       port: config.imapPort,
       tls: true,
@@ -64,6 +66,14 @@ export class EmailConnectionManager extends EventEmitter {
 
   async startMonitoring(userId: string) {
     try {
+      // Mailboxes linked through OAuth2 take precedence over IMAP passwords
+      const mailbox = await mailboxOAuthService.getActiveMailbox(userId);
+      if (mailbox) {
+        await this.stopMonitoring(userId);
+        this.startRealTimeMonitoring(userId, mailboxOAuthService.getImapConfig(mailbox));
+        return;
+      }
+
       const allCredentials = await storage.getUserEmailCredentials(userId);
       const credentials = allCredentials.find(c => c.isActive);
       if (!credentials) {
@@ -73,7 +83,8 @@ export class EmailConnectionManager extends EventEmitter {
 
       const config: EmailConfig = {
         email: credentials.email,
-        password: credentials.imapPassword,
+        // Decrypted only here, for the IMAP login
+        password: encryptionService.reveal(credentials.imapPassword),
         imapHost: credentials.imapHost || "imap.gmail.com",
         imapPort: credentials.imapPort || 993,
         smtpHost: credentials.imapHost || "smtp.gmail.com", // Use same host for SMTP
@@ -91,7 +102,28 @@ export class EmailConnectionManager extends EventEmitter {
   }
 
   private startRealTimeMonitoring(connectionId: string, config: EmailConfig) {
-    const imap = this.createImapConnection(config);
+    if (!config.getAccessToken) {
+      this.openConnection(connectionId, config);
+      return;
+    }
+
+    config.getAccessToken(config.forceTokenRefresh)
+      .then((accessToken) => {
+        if (!this.isShuttingDown) {
+          this.openConnection(connectionId, config, accessToken);
+        }
+      })
+      .catch((error) => {
+        if (isMailboxReauthRequired(error)) {
+          console.log(`🔑 [${connectionId}] Mailbox access was revoked, waiting for the user to reconnect ${config.email}`);
+          return; // Retrying cannot help until the user grants access again
+        }
+        this.handleConnectionError(connectionId, config, error);
+      });
+  }
+
+  private openConnection(connectionId: string, config: EmailConfig, accessToken?: string) {
+    const imap = this.createImapConnection(config, accessToken);
     this.activeConnections.set(connectionId, imap);
 
     // Emit new connection event
@@ -122,6 +154,12 @@ export class EmailConnectionManager extends EventEmitter {
     const attempts = this.reconnectAttempts.get(connectionId) || 0;
 
     if (error.textCode === "AUTHENTICATIONFAILED") {
+      if (config.getAccessToken && !config.forceTokenRefresh) {
+        // The access token may have been revoked before it expired; retry once with a refreshed one
+        console.log(`🔑 [${connectionId}] Access token rejected, retrying with a refreshed token`);
+        this.scheduleReconnect(connectionId, { ...config, forceTokenRefresh: true });
+        return;
+      }
       console.log(`❌ [${connectionId}] Authentication failed - invalid credentials`);
       if (connectionId === "service" || connectionId === "gmail-service") {
         console.log(`🔧 [${connectionId}] Please check your email credentials in environment variables`);
@@ -9,6 +9,7 @@ import { optOutManager } from './OptOutManager';
 import { emailQueueService } from '../emailQueueService';
 import { storage } from '../../storage';
 import { getOrCreateUserByEmail } from '../userService';
+import { malwareScanService } from '../malware/malwareScanService';
 
 export class EmailService extends EventEmitter {
   private isShuttingDown = false;
@@ -265,9 +266,15 @@ export class EmailService extends EventEmitter {
         // For service emails (including test), handle routing
         await this.processIncomingServiceEmail(email);
       } else {
+        // Hold back emails carrying malware before they reach the queue
+        const screenedEmail = await malwareScanService.screenEmail(email);
+        if (!screenedEmail) {
+          return;
+        }
+
         // For user emails, add to Claude processing queue
         console.log(`🔄 [${connectionId}] Adding user email to queue...`);
-        await emailQueueService.addToQueue(email, connectionId);
+        await emailQueueService.addToQueue(screenedEmail, connectionId);
       }
     } catch (error) {
       console.error(`❌ [${connectionId}] Error processing email:`, error);
@@ -285,12 +292,20 @@ export class EmailService extends EventEmitter {
         return;
       }
 
+      // Scan attachments; an email carrying malware is quarantined and its sender notified
+      const screenedEmail = await malwareScanService.screenEmail(email);
+      if (!screenedEmail) {
+        return;
+      }
+      email = screenedEmail;
+
       // Determine routing based on recipients
       const route = emailRouter.determineRouteByRecipient(email);
       console.log(`🔀 [SERVICE] Email route determined: ${route}`);
 
-      // Check if this is a reply email
-      if (emailParser.isReplyEmail(email)) {
+      // Check if this is a reply email (replies to Polly are votes and go through the queue)
+      const isPollyReply = [...email.to, ...email.cc].some(addr => /\bpolly(\+[\w-]+)?@/i.test(addr));
+      if (emailParser.isReplyEmail(email) && !isPollyReply) {
         console.log(`🔄 [SERVICE] Processing reply email...`);
         await replyProcessor.processReplyEmail(email);
         return;
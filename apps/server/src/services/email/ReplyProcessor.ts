@@ -1,6 +1,11 @@
 import { EmailData } from './types';
+import type { Task } from '@email-task-router/shared';
 import { storage } from '../../storage';
 import { claudeService } from '../claudeService';
+import { taskDependencyService } from '../taskDependencyService';
+import { recurringTaskScheduler } from '../recurringTaskScheduler';
+import { taskActivityService } from '../taskActivityService';
+import { extractReplyText } from '../../utils/emailReply';
 import { getOrCreateUserByEmail } from '../userService';
 import { sendMail } from '../mailer';
 import { optOutManager } from './OptOutManager';
@@ -103,7 +108,7 @@ export class ReplyProcessor {
       console.log(`👥 [REPLY] Project participants: ${projectParticipants.join(', ')}`);
 
       // Get existing tasks from the project to avoid creating duplicates
-      let existingTasks: any[] = [];
+      let existingTasks: Task[] = [];
       if (existingProject) {
         existingTasks = await storage.getProjectTasks(existingProject.id);
         console.log(`📋 [REPLY] Found ${existingTasks.length} existing tasks in project to avoid duplicates`);
@@ -164,11 +169,13 @@ export class ReplyProcessor {
         }
 
         // Create the new tasks
+        const createdTasks = [];
         for (const taskData of newTasks) {
           const task = await storage.createTask({
             ...taskData,
             projectId: existingProject.id,
             createdBy: user.id,
+            recurrenceRule: taskData.recurrence,
           });
 
           // Add assignees
@@ -192,8 +199,12 @@ export class ReplyProcessor {
               }
             }
           }
+
+          createdTasks.push(task);
         }
 
+        await taskDependencyService.linkExtractedTasks(createdTasks, newTasks);
+
         // Record this email as processed
         await storage.createProcessedEmail({
           messageId: email.messageId,
@@ -219,13 +230,23 @@ export class ReplyProcessor {
       if (taskUpdates && taskUpdates.length > 0) {
         console.log(`📝 [REPLY] Found ${taskUpdates.length} task updates in reply`);
         
+        const replyText = extractReplyText(email.body);
         for (const update of taskUpdates) {
           try {
-            await storage.updateTask(update.taskId, {
+            const previousTask = await storage.getTask(update.taskId);
+            const updatedTask = await storage.updateTask(update.taskId, {
               status: update.newStatus,
               updatedAt: new Date(),
             });
             console.log(`✅ [REPLY] Updated task ${update.taskId} to status: ${update.newStatus}`);
+            if (previousTask) {
+              await taskActivityService.recordChanges(previousTask, updatedTask, user.id, 'email', {
+                body: replyText || null,
+                emailMessageId: email.messageId,
+              });
+            }
+            await taskDependencyService.refreshDependents(update.taskId);
+            await recurringTaskScheduler.handleStatusChange(updatedTask);
           } catch (error) {
             console.error(`❌ [REPLY] Error updating task ${update.taskId}:`, error);
           }
@@ -256,6 +277,11 @@ export class ReplyProcessor {
       // If we get here, it's likely just a regular reply/comment
       console.log(`💬 [REPLY] No actionable items found in reply, treating as comment/discussion`);
       
+      // Keep the discussion on the tasks it is about
+      if (existingTasks.length > 0) {
+        await taskActivityService.recordEmailReply(email, user.id, existingTasks);
+      }
+      
       // Still record as processed to avoid reprocessing
       await storage.createProcessedEmail({
         messageId: email.messageId,
@@ -0,0 +1,118 @@
+import type { EmailAttachment, EmailData } from './types';
+
+/**
+ * Payloads of the SES inbound webhook (POST /api/inbound/email)
+ *
+ * The webhook takes either the raw MIME message (Content-Type: message/rfc822), parsed like the
+ * S3 backup processor does, or JSON with the parsed fields and an `attachments` array carrying
+ * base64 content. Both forms are held to the same attachment size limits.
+ */
+
+export interface InboundEmailLimits {
+  maxAttachmentBytes: number;
+  maxTotalBytes: number;
+}
+
+export interface InboundAttachmentPayload {
+  filename?: string;
+  contentType?: string;
+  content?: string; // base64
+  contentId?: string;
+}
+
+export type InboundEmailResult =
+  | { email: EmailData }
+  | { status: 400 | 413; message: string };
+
+const MB = 1024 * 1024;
+const BASE64_PATTERN = /^[A-Za-z0-9+/]*={0,2}$/;
+
+/**
+ * INBOUND_MAX_ATTACHMENT_BYTES limits each attachment, INBOUND_MAX_TOTAL_BYTES all of them together
+ */
+export function getInboundEmailLimits(env: NodeJS.ProcessEnv = process.env): InboundEmailLimits {
+  const maxAttachmentBytes = parseInt(env.INBOUND_MAX_ATTACHMENT_BYTES || '', 10) || 25 * MB;
+  const maxTotalBytes = parseInt(env.INBOUND_MAX_TOTAL_BYTES || '', 10) || 40 * MB;
+  return { maxAttachmentBytes, maxTotalBytes: Math.max(maxTotalBytes, maxAttachmentBytes) };
+}
+
+/**
+ * Largest request body worth reading: the attachments base64-encoded (4/3 of their size) plus
+ * room for the message text and headers
+ */
+export function getInboundBodyLimit(limits: InboundEmailLimits = getInboundEmailLimits()): number {
+  return Math.ceil(limits.maxTotalBytes * 4 / 3) + 2 * MB;
+}
+
+/**
+ * Build EmailData from the JSON form of the webhook payload
+ */
+export function parseJsonInboundEmail(payload: any, limits: InboundEmailLimits = getInboundEmailLimits()): InboundEmailResult {
+  const { messageId, subject, from, to, cc, bcc, body, date, headers, attachments } = payload || {};
+
+  if (!messageId || !subject || !from || !to || typeof body !== 'string') {
+    return { status: 400, message: 'Missing required fields: messageId, subject, from, to, body' };
+  }
+  if (attachments !== undefined && !Array.isArray(attachments)) {
+    return { status: 400, message: 'attachments must be an array' };
+  }
+
+  const decoded: EmailAttachment[] = [];
+  for (const [index, attachment] of ((attachments || []) as InboundAttachmentPayload[]).entries()) {
+    const filename = attachment?.filename || `attachment-${index + 1}`;
+    if (typeof attachment?.content !== 'string') {
+      return { status: 400, message: `Attachment ${filename} has no base64 content` };
+    }
+
+    const base64 = attachment.content.replace(/\s+/g, '');
+    if (base64.length % 4 !== 0 || !BASE64_PATTERN.test(base64)) {
+      return { status: 400, message: `Attachment ${filename} is not valid base64` };
+    }
+
+    const content = Buffer.from(base64, 'base64');
+    decoded.push({
+      filename,
+      contentType: attachment.contentType || 'application/octet-stream',
+      size: content.length,
+      content,
+      contentId: attachment.contentId,
+    });
+  }
+
+  const email: EmailData = {
+    messageId,
+    subject,
+    from,
+    to: Array.isArray(to) ? to : [to],
+    cc: Array.isArray(cc) ? cc : cc ? [cc] : [],
+    bcc: Array.isArray(bcc) ? bcc : bcc ? [bcc] : [],
+    body,
+    date: date ? new Date(date) : new Date(),
+    // Extract thread info from headers if provided
+    inReplyTo: headers?.['in-reply-to'] || headers?.inReplyTo,
+    references: headers?.references ? (Array.isArray(headers.references) ? headers.references : [headers.references]) : undefined,
+    threadId: headers?.['in-reply-to'] || headers?.inReplyTo || messageId,
+    attachments: decoded.length > 0 ? decoded : undefined,
+  };
+
+  return checkAttachmentLimits(email, limits);
+}
+
+/**
+ * Reject emails whose attachments exceed the configured limits
+ */
+export function checkAttachmentLimits(email: EmailData, limits: InboundEmailLimits = getInboundEmailLimits()): InboundEmailResult {
+  let total = 0;
+  for (const attachment of email.attachments || []) {
+    const size = attachment.content?.length ?? attachment.size;
+    if (size > limits.maxAttachmentBytes) {
+      return { status: 413, message: `Attachment ${attachment.filename} is larger than ${limits.maxAttachmentBytes} bytes` };
+    }
+    total += size;
+  }
+
+  if (total > limits.maxTotalBytes) {
+    return { status: 413, message: `Attachments total ${total} bytes, more than the ${limits.maxTotalBytes} allowed` };
+  }
+  return { email };
+}
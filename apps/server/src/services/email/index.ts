@@ -6,6 +6,7 @@ export { EmailConnectionManager, emailConnectionManager } from './EmailConnectio
 export { EmailConfigManager, emailConfigManager } from './EmailConfigManager';
 export { EmailParser, emailParser } from './EmailParser';
 export { EmailRouter, emailRouter } from './EmailRouter';
+export { AgentAutoRouter, agentAutoRouter } from './AgentAutoRouter';
 export { SMTPServerManager, smtpServerManager } from './SMTPServerManager';
 export { ReplyProcessor, replyProcessor } from './ReplyProcessor';
 export { OptOutManager, optOutManager } from './OptOutManager';
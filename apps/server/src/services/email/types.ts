@@ -1,9 +1,12 @@
+import type { MalwareScanResult } from '../malware/types';
+
 export interface EmailAttachment {
   filename: string;
   contentType: string;
   size: number;
   content: Buffer;
   contentId?: string;
+  scan?: MalwareScanResult; // Set by the malware scan stage
 }
 
 export interface EmailData {
@@ -31,6 +34,9 @@ export interface EmailConfig {
   imapPort: number;
   smtpHost: string;
   smtpPort: number;
+  // OAuth2 mailboxes log in with XOAUTH2 instead of the password, using a token fetched per connection
+  getAccessToken?: (forceRefresh?: boolean) => Promise<string>;
+  forceTokenRefresh?: boolean;
 }
 
 export type EmailRoute = 'task' | 'intelligence' | 'load_balancer' | null;
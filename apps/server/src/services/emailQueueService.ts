@@ -1,13 +1,21 @@
 import { storage } from '../storage';
 import { QueueManager } from './queue/manager';
 import type { QueuedEmail } from './queue/types';
-import { T5THandler, AnalyzerHandler, TaskHandler } from './handlers';
+import { T5THandler, AnalyzerHandler, TaskHandler, AutoRouteHandler } from './handlers';
+import { faqHandler } from './handlers/faqHandler';
+import { PollyAgent } from '../agents/PollyAgent';
+import { emailRouter } from './email/EmailRouter';
+import type { EmailData } from './email/types';
 import { isServiceEmail } from './utils/emailUtils';
+import { aiUsageService } from './aiUsage/aiUsageService';
+import { memoizeCompanyResolver, withAiUsageContext } from './aiUsage/usageContext';
 
 export class EmailQueueService extends QueueManager {
   private t5tHandler: T5THandler;
   private analyzerHandler: AnalyzerHandler;
   private taskHandler: TaskHandler;
+  private pollyAgent: PollyAgent;
+  private autoRouteHandler: AutoRouteHandler;
 
   constructor() {
     super();
@@ -15,6 +23,35 @@ export class EmailQueueService extends QueueManager {
     this.t5tHandler = new T5THandler(this);
     this.analyzerHandler = new AnalyzerHandler(this);
     this.taskHandler = new TaskHandler(this);
+    this.pollyAgent = new PollyAgent();
+    this.autoRouteHandler = new AutoRouteHandler({
+      todo: async (queuedEmail, processedEmail) => {
+        await withAiUsageContext({ agent: 'todo' }, () => this.taskHandler.process(queuedEmail, processedEmail));
+        return true;
+      },
+      polly: async (queuedEmail, processedEmail) => {
+        await withAiUsageContext({ agent: 'polly' }, () => this.processWithPolly(queuedEmail.email, processedEmail));
+        return true;
+      },
+      analyzer: async (queuedEmail, processedEmail) => {
+        await withAiUsageContext({ agent: 'analyzer' }, () => this.analyzerHandler.process(queuedEmail, processedEmail, 'analyzer@inboxleap.com'));
+        return true;
+      },
+      faq: async (queuedEmail, processedEmail) => {
+        // The FAQ agent answers from the sender's own knowledge base
+        const organization = await storage.getFAQOrganizationByUser(queuedEmail.userId);
+        if (!organization) {
+          return false;
+        }
+        await withAiUsageContext({ agent: 'faq' }, () => faqHandler.answerInquiry(queuedEmail.email, organization));
+        await storage.updateProcessedEmail(processedEmail.id, { status: 'processed' });
+        return true;
+      },
+      t5t: async (queuedEmail, processedEmail) => {
+        await withAiUsageContext({ agent: 't5t' }, () => this.t5tHandler.process(queuedEmail, processedEmail, 't5t@inboxleap.com'));
+        return true;
+      },
+    });
   }
 
   protected async processEmailInternal(queuedEmail: QueuedEmail): Promise<void> {
@@ -36,30 +73,51 @@ export class EmailQueueService extends QueueManager {
       }
     }
 
+    // Claude usage of this email is charged to the sender's company
+    const senderId = userId;
+    await withAiUsageContext(
+      { userId: senderId, resolveCompanyId: memoizeCompanyResolver(() => aiUsageService.getCompanyForUser(senderId)) },
+      () => this.routeEmail(queuedEmail)
+    );
+  }
+
+  private async routeEmail(queuedEmail: QueuedEmail): Promise<void> {
+    const { email } = queuedEmail;
+
     console.log(`🤖 [CLAUDE] Starting AI processing:`);
     console.log(`   📨 Subject: "${email.subject}"`);
     console.log(`   📝 Body length: ${email.body.length} chars`);
 
-    // Check if email already processed
+    // Check if email already processed ('queued' means it was handed to the T5T batch queue).
+    // A record left by an earlier failed or interrupted attempt is reused so retries run again.
     const existing = await storage.getProcessedEmailByMessageId(email.messageId);
-    if (existing) {
+    if (existing && (existing.status === 'processed' || existing.status === 'queued')) {
       console.log(`⚠️  [CLAUDE] Email already processed, skipping: ${email.messageId}`);
       return;
     }
 
-    // Create processed email record
-    console.log(`📝 [CLAUDE] Creating processed email record...`);
-    const processedEmail = await storage.createProcessedEmail({
-      messageId: email.messageId,
-      subject: email.subject,
-      sender: email.from,
-      recipients: email.to,
-      ccList: email.cc,
-      bccList: email.bcc,
-      body: email.body,
-      status: 'processing',
-      tasksCreated: 0,
-    });
+    let processedEmail;
+    if (existing) {
+      console.log(`🔁 [CLAUDE] Retrying email after previous ${existing.status} attempt: ${email.messageId}`);
+      processedEmail = await storage.updateProcessedEmail(existing.id, {
+        status: 'processing',
+        processingError: null,
+      });
+    } else {
+      // Create processed email record
+      console.log(`📝 [CLAUDE] Creating processed email record...`);
+      processedEmail = await storage.createProcessedEmail({
+        messageId: email.messageId,
+        subject: email.subject,
+        sender: email.from,
+        recipients: email.to,
+        ccList: email.cc,
+        bccList: email.bcc,
+        body: email.body,
+        status: 'processing',
+        tasksCreated: 0,
+      });
+    }
 
     try {
       // Check for special agent emails in all recipients
@@ -71,22 +129,39 @@ export class EmailQueueService extends QueueManager {
       );
       if (t5tRecipient) {
         console.log(`📊 [T5T] Email sent to T5T agent: ${t5tRecipient}`);
-        await this.t5tHandler.process(queuedEmail, processedEmail, t5tRecipient);
+        await withAiUsageContext({ agent: 't5t' }, () => this.t5tHandler.process(queuedEmail, processedEmail, t5tRecipient));
+        return;
+      }
+
+      // Route to Polly agent (new polls and vote replies)
+      const pollyRecipient = allRecipients.find(recipient =>
+        recipient.toLowerCase().match(/^polly(\+[\w-]+)?@inboxleap\.com$/i)
+      );
+      if (pollyRecipient) {
+        console.log(`🗳️ [POLLY] Email sent to Polly agent: ${pollyRecipient}`);
+        await withAiUsageContext({ agent: 'polly' }, () => this.processWithPolly(email, processedEmail));
         return;
       }
 
       // Route to Analyzer agent
       const analyzerRecipient = allRecipients.find(recipient =>
-        recipient.toLowerCase().match(/^analyzer@inboxleap\.com$/i)
+        recipient.toLowerCase().match(/^analyzer(\+[\w-]+)?@inboxleap\.com$/i)
       );
       if (analyzerRecipient) {
         console.log(`📎 [ANALYZER] Email sent to Analyzer agent: ${analyzerRecipient}`);
-        await this.analyzerHandler.process(queuedEmail, processedEmail, analyzerRecipient);
+        await withAiUsageContext({ agent: 'analyzer' }, () => this.analyzerHandler.process(queuedEmail, processedEmail, analyzerRecipient));
+        return;
+      }
+
+      // Mail to the load balancer address goes to whichever agent fits it best
+      if (emailRouter.determineRouteByRecipient(email) === 'load_balancer') {
+        console.log(`⚖️  [AUTO-ROUTER] Email sent to load balancer address, choosing an agent`);
+        await this.autoRouteHandler.process(queuedEmail, processedEmail);
         return;
       }
 
       // Default task processing
-      await this.taskHandler.process(queuedEmail, processedEmail);
+      await withAiUsageContext({ agent: 'todo' }, () => this.taskHandler.process(queuedEmail, processedEmail));
 
     } catch (error) {
       console.error(`❌ [CLAUDE] Error processing email:`, error);
@@ -97,6 +172,14 @@ export class EmailQueueService extends QueueManager {
       throw error;
     }
   }
+
+  private async processWithPolly(email: EmailData, processedEmail: any): Promise<void> {
+    const result = await this.pollyAgent.process(email);
+    await storage.updateProcessedEmail(processedEmail.id, {
+      status: result.success ? 'processed' : 'failed',
+      processingError: result.success ? null : result.message,
+    });
+  }
 }
 
 // Export singleton instance
@@ -1,63 +1,98 @@
 import crypto from 'crypto';
 
+/**
+ * Key ring read from the environment. ENCRYPTION_KEYS lists "id:secret" pairs separated by commas,
+ * newest first, e.g. ENCRYPTION_KEYS=2:new-secret,1:old-secret. New data is encrypted with
+ * ENCRYPTION_ACTIVE_KEY_ID, or the first key when unset; the other keys only decrypt data written
+ * before a rotation. Without ENCRYPTION_KEYS, ENCRYPTION_KEY or SESSION_SECRET is used as key "1".
+ */
+export interface EncryptionKeyRing {
+  activeKeyId: string;
+  secrets: Map<string, string>;
+}
+
+const KEY_ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+const PREFIX = 'enc';
+
+export function parseKeyRing(env: NodeJS.ProcessEnv = process.env): EncryptionKeyRing {
+  const secrets = new Map<string, string>();
+
+  if (env.ENCRYPTION_KEYS) {
+    for (const entry of env.ENCRYPTION_KEYS.split(',').map(e => e.trim()).filter(Boolean)) {
+      const separator = entry.indexOf(':');
+      const id = entry.slice(0, separator);
+      const secret = entry.slice(separator + 1);
+      if (separator <= 0 || !KEY_ID_PATTERN.test(id) || !secret) {
+        throw new Error('ENCRYPTION_KEYS entries must look like "<id>:<secret>" with an alphanumeric id');
+      }
+      if (secrets.has(id)) {
+        throw new Error(`ENCRYPTION_KEYS lists key ${id} twice`);
+      }
+      secrets.set(id, secret);
+    }
+  } else if (env.ENCRYPTION_KEY || env.SESSION_SECRET) {
+    secrets.set('1', (env.ENCRYPTION_KEY || env.SESSION_SECRET)!);
+  }
+
+  if (secrets.size === 0) {
+    throw new Error('ENCRYPTION_KEYS, ENCRYPTION_KEY or SESSION_SECRET must be set in environment variables');
+  }
+
+  const activeKeyId = env.ENCRYPTION_ACTIVE_KEY_ID || secrets.keys().next().value!;
+  if (!secrets.has(activeKeyId)) {
+    throw new Error(`ENCRYPTION_ACTIVE_KEY_ID ${activeKeyId} is not listed in ENCRYPTION_KEYS`);
+  }
+
+  return { activeKeyId, secrets };
+}
+
 /**
  * EncryptionService - Secure encryption for sensitive data like email passwords
- * Uses AES-256-GCM for authenticated encryption
+ * Uses AES-256-GCM for authenticated encryption. Values are stored as "enc:<keyId>:<base64>" so the
+ * key that wrote them can be told apart after a rotation and rows can be re-encrypted gradually.
+ * The key ring is read on first use, so importing the service never fails on a missing key.
  */
-class EncryptionService {
+export class EncryptionService {
   private algorithm = 'aes-256-gcm';
   private keyLength = 32; // 256 bits
   private ivLength = 16;  // 128 bits
   private tagLength = 16; // 128 bits
   private saltLength = 32; // 256 bits
   private iterations = 100000; // PBKDF2 iterations
-  
-  private masterKey: Buffer;
-
-  constructor() {
-    // Get encryption key from environment or generate one
-    const encryptionKey = process.env.ENCRYPTION_KEY || process.env.SESSION_SECRET;
-    
-    if (!encryptionKey) {
-      throw new Error('ENCRYPTION_KEY or SESSION_SECRET must be set in environment variables');
-    }
-    
-    // Derive a proper key from the provided secret using PBKDF2
-    const salt = crypto.createHash('sha256').update('email-password-encryption').digest();
-    this.masterKey = crypto.pbkdf2Sync(encryptionKey, salt, this.iterations, this.keyLength, 'sha256');
+
+  private ring?: EncryptionKeyRing;
+  private masterKeys = new Map<string, Buffer>();
+
+  constructor(private readonly env: NodeJS.ProcessEnv = process.env) {}
+
+  get activeKeyId(): string {
+    return this.keyRing().activeKeyId;
   }
 
   /**
-   * Encrypt a password or sensitive string
+   * Encrypt a password or sensitive string with the active key
    * @param plaintext The plain text password to encrypt
-   * @returns Base64 encoded encrypted data with format: salt:iv:authTag:encrypted
+   * @returns "enc:<keyId>:" followed by base64 encoded salt, iv, authTag and encrypted data
    */
   encrypt(plaintext: string): string {
+    const keyId = this.activeKeyId;
     try {
       // Generate random salt and IV for this encryption
       const salt = crypto.randomBytes(this.saltLength);
       const iv = crypto.randomBytes(this.ivLength);
-      
+
       // Derive encryption key from master key and salt
-      const key = crypto.pbkdf2Sync(this.masterKey, salt, 1000, this.keyLength, 'sha256');
-      
-      // Create cipher
+      const key = crypto.pbkdf2Sync(this.masterKey(keyId), salt, 1000, this.keyLength, 'sha256');
+
       const cipher = crypto.createCipheriv(this.algorithm, key, iv) as crypto.CipherGCM;
-      
-      // Encrypt the data
       const encrypted = Buffer.concat([
         cipher.update(plaintext, 'utf8'),
         cipher.final()
       ]);
-      
-      // Get the authentication tag
       const authTag = cipher.getAuthTag();
-      
-      // Combine salt, iv, authTag, and encrypted data
+
       const combined = Buffer.concat([salt, iv, authTag, encrypted]);
-      
-      // Return base64 encoded
-      return combined.toString('base64');
+      return `${PREFIX}:${keyId}:${combined.toString('base64')}`;
     } catch (error) {
       console.error('Encryption error:', error);
       throw new Error('Failed to encrypt data');
@@ -65,34 +100,37 @@ class EncryptionService {
   }
 
   /**
-   * Decrypt a password or sensitive string
-   * @param encryptedData Base64 encoded encrypted data
+   * Decrypt a value written by encrypt, with whichever key of the ring wrote it
+   * @param encryptedData Value in the "enc:<keyId>:<base64>" format
    * @returns The decrypted plain text
    */
   decrypt(encryptedData: string): string {
+    const keyId = this.getKeyId(encryptedData);
+    if (!keyId) {
+      throw new Error('Failed to decrypt data: value is not encrypted');
+    }
+    if (!this.keyRing().secrets.has(keyId)) {
+      throw new Error(`Failed to decrypt data: encryption key ${keyId} is not configured`);
+    }
+
     try {
-      // Decode from base64
-      const combined = Buffer.from(encryptedData, 'base64');
-      
-      // Extract components
-      const salt = combined.slice(0, this.saltLength);
-      const iv = combined.slice(this.saltLength, this.saltLength + this.ivLength);
-      const authTag = combined.slice(this.saltLength + this.ivLength, this.saltLength + this.ivLength + this.tagLength);
-      const encrypted = combined.slice(this.saltLength + this.ivLength + this.tagLength);
-      
-      // Derive decryption key from master key and salt
-      const key = crypto.pbkdf2Sync(this.masterKey, salt, 1000, this.keyLength, 'sha256');
-      
-      // Create decipher
+      const combined = Buffer.from(encryptedData.slice(PREFIX.length + keyId.length + 2), 'base64');
+
+      const salt = combined.subarray(0, this.saltLength);
+      const iv = combined.subarray(this.saltLength, this.saltLength + this.ivLength);
+      const authTag = combined.subarray(this.saltLength + this.ivLength, this.saltLength + this.ivLength + this.tagLength);
+      const encrypted = combined.subarray(this.saltLength + this.ivLength + this.tagLength);
+
+      const key = crypto.pbkdf2Sync(this.masterKey(keyId), salt, 1000, this.keyLength, 'sha256');
+
       const decipher = crypto.createDecipheriv(this.algorithm, key, iv) as crypto.DecipherGCM;
       decipher.setAuthTag(authTag);
-      
-      // Decrypt the data
+
       const decrypted = Buffer.concat([
         decipher.update(encrypted),
         decipher.final()
       ]);
-      
+
       return decrypted.toString('utf8');
     } catch (error) {
       console.error('Decryption error:', error);
@@ -101,17 +139,45 @@ class EncryptionService {
   }
 
   /**
-   * Check if a string is encrypted (base64 encoded with our format)
+   * Check if a string was written by encrypt
    */
   isEncrypted(data: string): boolean {
-    try {
-      // Check if it's valid base64
-      const decoded = Buffer.from(data, 'base64');
-      // Check if it has the minimum length for our format (salt + iv + tag + at least 0 bytes of data)
-      return decoded.length >= (this.saltLength + this.ivLength + this.tagLength);
-    } catch {
-      return false;
+    return this.getKeyId(data) !== null;
+  }
+
+  /**
+   * Id of the key an encrypted value was written with, or null for plaintext
+   */
+  getKeyId(data: string): string | null {
+    const match = /^enc:([A-Za-z0-9_-]+):([A-Za-z0-9+/]+={0,2})$/.exec(data);
+    if (!match) return null;
+    const minLength = this.saltLength + this.ivLength + this.tagLength;
+    return Buffer.from(match[2], 'base64').length >= minLength ? match[1] : null;
+  }
+
+  /**
+   * Plaintext, or a value encrypted with a key other than the active one
+   */
+  needsReEncryption(data: string): boolean {
+    return this.getKeyId(data) !== this.activeKeyId;
+  }
+
+  /**
+   * Encrypt plaintext and move values written with a retired key to the active key
+   */
+  reEncrypt(data: string): string {
+    if (!this.needsReEncryption(data)) {
+      return data;
     }
+    return this.encrypt(this.isEncrypted(data) ? this.decrypt(data) : data);
+  }
+
+  /**
+   * Plain text of a stored secret. Rows written before encryption was introduced are passed
+   * through until the re-encryption job has migrated them.
+   */
+  reveal(data: string): string {
+    return this.isEncrypted(data) ? this.decrypt(data) : data;
   }
 
   /**
@@ -124,7 +190,23 @@ class EncryptionService {
     }
     return this.encrypt(password);
   }
+
+  private keyRing(): EncryptionKeyRing {
+    this.ring ??= parseKeyRing(this.env);
+    return this.ring;
+  }
+
+  private masterKey(keyId: string): Buffer {
+    let masterKey = this.masterKeys.get(keyId);
+    if (!masterKey) {
+      // Derive a proper key from the provided secret using PBKDF2
+      const salt = crypto.createHash('sha256').update('email-password-encryption').digest();
+      masterKey = crypto.pbkdf2Sync(this.keyRing().secrets.get(keyId)!, salt, this.iterations, this.keyLength, 'sha256');
+      this.masterKeys.set(keyId, masterKey);
+    }
+    return masterKey;
+  }
 }
 
 // Export singleton instance
-export const encryptionService = new EncryptionService();
\ No newline at end of file
+export const encryptionService = new EncryptionService();
@@ -0,0 +1,239 @@
+import { storage } from '../storage';
+import { claudeService } from './claudeService';
+import { chunkDocument, countTerms, rankChunks, tokenize } from '../utils/knowledgeIndex';
+import type {
+  FAQEntry,
+  FAQKnowledgeChunk,
+  FAQKnowledgeSourceType,
+  FAQOrganization,
+  InsertFAQKnowledgeChunk,
+  SOPDocument,
+} from '@email-task-router/shared';
+
+export interface FAQCitation {
+  marker: number; // The [n] used in the answer text
+  sourceType: FAQKnowledgeSourceType;
+  sourceId: number;
+  title: string;
+  section: string | null;
+}
+
+export interface RetrievedChunk {
+  marker: number;
+  chunk: FAQKnowledgeChunk;
+  score: number;
+}
+
+export interface FAQAnswer {
+  answered: boolean; // False when nothing relevant was retrieved or Claude could not answer from it
+  text: string; // Answer with inline [n] citation markers; empty when unanswered
+  citations: FAQCitation[]; // Only the sources the answer actually cites
+  confidence: number; // 0-100 share of the inquiry's terms found in the cited chunks
+  retrieved: RetrievedChunk[];
+}
+
+const NO_ANSWER = 'NO_ANSWER';
+
+/**
+ * FAQ knowledge service
+ * Keeps a chunked BM25 index of each organization's SOP documents and FAQ entries in
+ * Postgres, retrieves the best chunks for an inquiry and has Claude answer from them only.
+ */
+export class FAQKnowledgeService {
+  private topK = 5;
+
+  /**
+   * Bring the organization's index in line with its published sources: rebuild chunks for
+   * sources that are new or changed since they were indexed, and drop chunks for removed ones.
+   */
+  async syncOrganizationIndex(organizationId: number): Promise<FAQKnowledgeChunk[]> {
+    const [documents, entries, chunks] = await Promise.all([
+      storage.getSOPDocumentsByOrganization(organizationId),
+      storage.getFAQEntriesByOrganization(organizationId),
+      storage.getFAQKnowledgeChunks(organizationId),
+    ]);
+
+    const indexedVersions = new Map<string, number>();
+    for (const chunk of chunks) {
+      indexedVersions.set(this.sourceKey(chunk.sourceType as FAQKnowledgeSourceType, chunk.sourceId), this.version(chunk.sourceUpdatedAt));
+    }
+
+    const liveSources = new Set<string>();
+    let changed = false;
+
+    for (const document of documents.filter(document => document.isPublished !== false)) {
+      const key = this.sourceKey('sop_document', document.id);
+      liveSources.add(key);
+      if (indexedVersions.get(key) !== this.version(document.updatedAt)) {
+        await storage.replaceFAQKnowledgeChunks(organizationId, 'sop_document', document.id, this.buildDocumentChunks(document));
+        changed = true;
+      }
+    }
+
+    for (const entry of entries.filter(entry => entry.isPublished !== false)) {
+      const key = this.sourceKey('faq_entry', entry.id);
+      liveSources.add(key);
+      if (indexedVersions.get(key) !== this.version(entry.updatedAt)) {
+        await storage.replaceFAQKnowledgeChunks(organizationId, 'faq_entry', entry.id, [this.buildEntryChunk(entry)]);
+        changed = true;
+      }
+    }
+
+    for (const key of indexedVersions.keys()) {
+      if (!liveSources.has(key)) {
+        const [sourceType, sourceId] = key.split(':');
+        await storage.deleteFAQKnowledgeChunks(organizationId, sourceType as FAQKnowledgeSourceType, Number(sourceId));
+        changed = true;
+      }
+    }
+
+    if (changed) {
+      console.log(`📚 [FAQ-INDEX] Re-indexed knowledge base for organization ${organizationId}`);
+      return storage.getFAQKnowledgeChunks(organizationId);
+    }
+    return chunks;
+  }
+
+  /**
+   * Top-k chunks for an inquiry, numbered in rank order for citation
+   */
+  async retrieve(organizationId: number, inquiry: string, limit: number = this.topK): Promise<RetrievedChunk[]> {
+    const chunks = await this.syncOrganizationIndex(organizationId);
+    return rankChunks(inquiry, chunks, limit).map((result, index) => ({
+      marker: index + 1,
+      chunk: result.chunk,
+      score: result.score,
+    }));
+  }
+
+  /**
+   * Answer an inquiry grounded only in the retrieved chunks
+   */
+  async answerInquiry(organization: Pick<FAQOrganization, 'id' | 'name'>, inquiry: string): Promise<FAQAnswer> {
+    const retrieved = await this.retrieve(organization.id, inquiry);
+    console.log(`📚 [FAQ-INDEX] Retrieved ${retrieved.length} chunks for inquiry (top score ${retrieved[0]?.score.toFixed(2) ?? 'n/a'})`);
+
+    if (retrieved.length === 0) {
+      return { answered: false, text: '', citations: [], confidence: 0, retrieved };
+    }
+
+    let response: string;
+    try {
+      response = (await claudeService.sendMessage(this.buildPrompt(organization.name, inquiry, retrieved))).trim();
+    } catch (error) {
+      console.error('📚 [FAQ-INDEX] Claude answer generation failed:', error);
+      return { answered: false, text: '', citations: [], confidence: 0, retrieved };
+    }
+
+    const citations = this.extractCitations(response, retrieved);
+
+    // An answer that cites nothing is not grounded in the knowledge base
+    if (response.startsWith(NO_ANSWER) || citations.length === 0) {
+      return { answered: false, text: '', citations: [], confidence: 0, retrieved };
+    }
+
+    return { answered: true, text: response, citations, confidence: this.measureCoverage(inquiry, citations, retrieved), retrieved };
+  }
+
+  /**
+   * "Sources:" footer for the reply email, one line per cited source
+   */
+  formatCitations(citations: FAQCitation[]): string {
+    return citations
+      .map(citation => {
+        const label = citation.sourceType === 'faq_entry' ? `FAQ: ${citation.title}` : citation.title;
+        return citation.section && citation.sourceType === 'sop_document'
+          ? `[${citation.marker}] ${label}, section "${citation.section}"`
+          : `[${citation.marker}] ${label}`;
+      })
+      .join('\n');
+  }
+
+  private buildPrompt(organizationName: string, inquiry: string, retrieved: RetrievedChunk[]): string {
+    const sources = retrieved
+      .map(({ marker, chunk }) => {
+        const heading = chunk.section ? `${chunk.sourceTitle} - ${chunk.section}` : chunk.sourceTitle;
+        return `[${marker}] ${heading}\n${chunk.content}`;
+      })
+      .join('\n\n');
+
+    return `You are the FAQ assistant for ${organizationName}. Answer the question using ONLY the numbered sources below.
+
+Rules:
+- Use only facts stated in the sources. Do not add outside knowledge or assumptions.
+- After every sentence that states a fact, cite the source it came from as [n], e.g. "Expenses are approved by your manager [2]."
+- If the sources do not contain the answer, reply with exactly ${NO_ANSWER} and nothing else.
+- Write plain text suitable for an email body, without headings or a greeting.
+
+QUESTION:
+${inquiry}
+
+SOURCES:
+${sources}`;
+  }
+
+  private extractCitations(response: string, retrieved: RetrievedChunk[]): FAQCitation[] {
+    const cited = new Set(Array.from(response.matchAll(/\[(\d+)\]/g), match => Number(match[1])));
+    return retrieved
+      .filter(({ marker }) => cited.has(marker))
+      .map(({ marker, chunk }) => ({
+        marker,
+        sourceType: chunk.sourceType as FAQKnowledgeSourceType,
+        sourceId: chunk.sourceId,
+        title: chunk.sourceTitle,
+        section: chunk.section,
+      }));
+  }
+
+  /**
+   * How much of the inquiry the cited chunks speak to; an answer citing chunks that only share
+   * a word or two with a long question is unlikely to cover all of it
+   */
+  private measureCoverage(inquiry: string, citations: FAQCitation[], retrieved: RetrievedChunk[]): number {
+    const terms = Array.from(new Set(tokenize(inquiry)));
+    if (terms.length === 0) return 0;
+
+    const cited = new Set(citations.map(citation => citation.marker));
+    const citedChunks = retrieved.filter(({ marker }) => cited.has(marker)).map(({ chunk }) => chunk);
+    const covered = terms.filter(term => citedChunks.some(chunk => (chunk.termFrequencies[term] || 0) > 0));
+    return Math.round((covered.length / terms.length) * 100);
+  }
+
+  private buildDocumentChunks(document: SOPDocument): InsertFAQKnowledgeChunk[] {
+    const content = document.description ? `${document.description}\n\n${document.content}` : document.content;
+    return chunkDocument(content, document.title).map(draft => ({
+      organizationId: document.organizationId,
+      sourceType: 'sop_document',
+      sourceId: document.id,
+      sourceTitle: document.title,
+      sourceUpdatedAt: document.updatedAt,
+      ...draft,
+    }));
+  }
+
+  private buildEntryChunk(entry: FAQEntry): InsertFAQKnowledgeChunk {
+    const terms = tokenize(`${entry.question}\n${entry.answer}`);
+    return {
+      organizationId: entry.organizationId,
+      sourceType: 'faq_entry',
+      sourceId: entry.id,
+      sourceTitle: entry.question,
+      section: entry.category,
+      chunkIndex: 0,
+      content: `Q: ${entry.question}\nA: ${entry.answer}`,
+      termFrequencies: countTerms(terms),
+      termCount: terms.length,
+      sourceUpdatedAt: entry.updatedAt,
+    };
+  }
+
+  private sourceKey(sourceType: FAQKnowledgeSourceType, sourceId: number): string {
+    return `${sourceType}:${sourceId}`;
+  }
+
+  private version(updatedAt: Date | null): number {
+    return updatedAt ? new Date(updatedAt).getTime() : 0;
+  }
+}
+
+export const faqKnowledgeService = new FAQKnowledgeService();
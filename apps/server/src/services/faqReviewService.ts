@@ -0,0 +1,218 @@
+import { storage } from '../storage';
+import { sendMail } from './mailer';
+import { extractReplyText } from '../utils/emailReply';
+import type { EmailData } from './email/types';
+import type { FAQAnswer } from './faqKnowledgeService';
+import type { FAQInquiry, FAQOrganization } from '@email-task-router/shared';
+
+type ReviewOrganization = Pick<FAQOrganization, 'id' | 'name' | 'faqEmail' | 'createdBy'>;
+
+const REVIEW_SUBJECT = /\[FAQ Review #(\d+)\]/i;
+
+/**
+ * FAQ review service
+ * Records every FAQ inquiry and escalates the ones the knowledge base cannot answer
+ * confidently to the organization owner. The owner answers by replying to the review
+ * email (or dismisses with "DISMISS"); the approved answer is promoted into faq_entries
+ * and sent to the original asker.
+ */
+export class FAQReviewService {
+  private minConfidence = 50;
+
+  needsReview(answer: FAQAnswer | null): boolean {
+    return !answer || !answer.answered || answer.confidence < this.minConfidence;
+  }
+
+  /**
+   * Keep a record of an inquiry that was answered automatically. Automatic answers are not
+   * promoted into faq_entries; only owner-approved ones are.
+   */
+  async recordAnswered(email: EmailData, organization: ReviewOrganization, answer: FAQAnswer): Promise<void> {
+    try {
+      await storage.createFAQInquiry({
+        organizationId: organization.id,
+        askerEmail: email.from,
+        subject: email.subject,
+        question: email.body.trim(),
+        messageId: email.messageId,
+        status: 'answered',
+        confidence: answer.confidence,
+        draftAnswer: answer.text,
+      });
+    } catch (error) {
+      // The asker still gets the answer
+      console.error('📋 [FAQ-REVIEW] Failed to record answered inquiry:', error);
+    }
+  }
+
+  /**
+   * Queue an inquiry for the organization owner and email them the question
+   */
+  async escalate(email: EmailData, organization: ReviewOrganization, answer: FAQAnswer | null): Promise<FAQInquiry> {
+    const inquiry = await storage.createFAQInquiry({
+      organizationId: organization.id,
+      askerEmail: email.from,
+      subject: email.subject,
+      question: email.body.trim(),
+      messageId: email.messageId,
+      status: 'pending_review',
+      confidence: answer?.confidence ?? 0,
+      draftAnswer: answer?.answered ? answer.text : null,
+    });
+    console.log(`📋 [FAQ-REVIEW] Inquiry ${inquiry.id} from ${email.from} queued for review (confidence ${inquiry.confidence}%)`);
+
+    const owner = await storage.getUser(organization.createdBy);
+    if (!owner?.email) {
+      console.warn(`📋 [FAQ-REVIEW] Organization ${organization.id} owner has no email; inquiry ${inquiry.id} waits in the review queue`);
+      return inquiry;
+    }
+
+    const faqEmail = await this.routedAddress(organization);
+    const text = [
+      `${email.from} asked ${organization.name} a question the knowledge base could not answer confidently.`,
+      '',
+      'QUESTION:',
+      inquiry.question,
+      '',
+      ...(inquiry.draftAnswer ? ['SUGGESTED ANSWER (not sent):', inquiry.draftAnswer, ''] : []),
+      'Reply to this email with the answer. Your reply will be sent to the asker and added to your FAQ.',
+      'Reply with DISMISS to close the question without answering.',
+      '',
+      `${organization.name} FAQ System`,
+    ].join('\n');
+
+    await sendMail({
+      from: faqEmail,
+      to: owner.email,
+      subject: `[FAQ Review #${inquiry.id}] ${email.subject}`,
+      text,
+      replyTo: faqEmail,
+    });
+
+    return inquiry;
+  }
+
+  /**
+   * Treat the email as the owner's answer to a review request when it is one. Resolves to
+   * false when the email is an ordinary inquiry.
+   */
+  async handleOwnerReply(email: EmailData, organization: ReviewOrganization): Promise<boolean> {
+    const match = email.subject.match(REVIEW_SUBJECT);
+    if (!match) return false;
+
+    const inquiry = await storage.getFAQInquiry(Number(match[1]));
+    if (!inquiry || inquiry.organizationId !== organization.id) return false;
+
+    // Only the owner may approve answers; anyone else replying is just asking a question
+    const owner = await storage.getUser(organization.createdBy);
+    if (!owner?.email || owner.email.toLowerCase() !== email.from.toLowerCase()) {
+      console.log(`📋 [FAQ-REVIEW] ${email.from} is not the owner of organization ${organization.id}, ignoring review reply`);
+      return false;
+    }
+
+    if (inquiry.status !== 'pending_review') {
+      console.log(`📋 [FAQ-REVIEW] Inquiry ${inquiry.id} is already ${inquiry.status}, ignoring reply`);
+      return true;
+    }
+
+    const reply = extractReplyText(email.body);
+    if (!reply) {
+      console.log(`📋 [FAQ-REVIEW] Empty reply for inquiry ${inquiry.id}, leaving it pending`);
+      return true;
+    }
+
+    if (/^dismiss\b/i.test(reply)) {
+      await this.dismiss(organization, inquiry.id);
+    } else {
+      await this.approve(organization, inquiry.id, reply, owner.id);
+    }
+    return true;
+  }
+
+  /**
+   * Approve an answer: promote it into faq_entries and follow up with the asker.
+   * Resolves to undefined when the inquiry is not pending review.
+   */
+  async approve(organization: ReviewOrganization, inquiryId: number, answer: string, approvedBy: string): Promise<FAQInquiry | undefined> {
+    const inquiry = await storage.getFAQInquiry(inquiryId);
+    if (!inquiry || inquiry.organizationId !== organization.id) return undefined;
+
+    const question = inquiry.question.length > 200 ? inquiry.question.substring(0, 197) + '...' : inquiry.question;
+    const result = await storage.approveFAQInquiry(inquiryId, answer, approvedBy, {
+      organizationId: organization.id,
+      question,
+      answer,
+      category: this.categorize(inquiry.question),
+      relatedDocuments: [],
+      createdBy: approvedBy,
+    });
+    if (!result) return undefined;
+
+    console.log(`📋 [FAQ-REVIEW] Inquiry ${inquiryId} approved as FAQ entry ${result.entry.id}`);
+    return this.sendFollowUp(organization, result.inquiry);
+  }
+
+  async dismiss(organization: ReviewOrganization, inquiryId: number): Promise<FAQInquiry | undefined> {
+    const inquiry = await storage.getFAQInquiry(inquiryId);
+    if (!inquiry || inquiry.organizationId !== organization.id || inquiry.status !== 'pending_review') return undefined;
+
+    console.log(`📋 [FAQ-REVIEW] Inquiry ${inquiryId} dismissed`);
+    return storage.updateFAQInquiry(inquiryId, { status: 'dismissed' });
+  }
+
+  private async sendFollowUp(organization: ReviewOrganization, inquiry: FAQInquiry): Promise<FAQInquiry> {
+    const faqEmail = await this.routedAddress(organization);
+    const subject = inquiry.subject || 'Your question';
+
+    const sent = await sendMail({
+      from: faqEmail,
+      to: inquiry.askerEmail,
+      subject: subject.startsWith('Re: ') ? subject : `Re: ${subject}`,
+      text: `Thank you for your patience!
+
+The ${organization.name} team has answered your question:
+
+${inquiry.approvedAnswer}
+
+Best regards,
+${organization.name} FAQ System`,
+      replyTo: faqEmail,
+      inReplyTo: inquiry.messageId || undefined,
+      references: inquiry.messageId ? [inquiry.messageId] : undefined,
+    });
+
+    if (!sent) {
+      // The answer is approved either way; followUpSentAt stays empty so the gap is visible
+      console.error(`📋 [FAQ-REVIEW] Failed to send follow-up for inquiry ${inquiry.id}`);
+      return inquiry;
+    }
+
+    return (await storage.updateFAQInquiry(inquiry.id, { followUpSentAt: new Date() })) || inquiry;
+  }
+
+  /**
+   * The faq+ address the organization receives email at. Replies to review and follow-up
+   * mail must come back to it: FAQHandler drops mail to any other address. Organizations
+   * without one are given one; the id keeps it apart from slugs assigned at creation.
+   */
+  private async routedAddress(organization: ReviewOrganization): Promise<string> {
+    if (organization.faqEmail) return organization.faqEmail;
+
+    const slug = organization.name.toLowerCase().replace(/[^a-z0-9]/g, '');
+    const faqEmail = `faq+${slug}-${organization.id}@inboxleap.com`;
+    await storage.updateFAQOrganization(organization.id, { faqEmail });
+    console.log(`📋 [FAQ-REVIEW] Organization ${organization.id} had no FAQ address, assigned ${faqEmail}`);
+    return faqEmail;
+  }
+
+  private categorize(question: string): string {
+    const text = question.toLowerCase();
+    if (text.includes('price') || text.includes('cost')) return 'Pricing';
+    if (text.includes('technical') || text.includes('how to')) return 'Technical';
+    if (text.includes('support') || text.includes('help')) return 'Support';
+    if (text.includes('policy') || text.includes('rule')) return 'Policy';
+    return 'General';
+  }
+}
+
+export const faqReviewService = new FAQReviewService();
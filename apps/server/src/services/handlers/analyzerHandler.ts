@@ -5,6 +5,26 @@ import type { EmailData, QueuedEmail } from '../queue/types';
 import { getOrCreateUserByEmail } from '../userService';
 import { isServiceEmail } from '../utils/emailUtils';
 import { analyzeAttachment, generateFallbackAnalysis } from '../analyzer/analyzerAnalysisService';
+import { escapeHtml } from '../../utils/escape';
+import { agentInstanceService } from '../agentInstanceService';
+import { documentTaskService } from '../documentTaskService';
+import type { MalwareScanResult } from '../malware/types';
+import { attachmentContentService, type StoredAttachmentContent } from '../blobs/attachmentContentService';
+
+interface AttachmentFinding {
+  attachmentId: number;
+  filename: string;
+  analysis: any;
+}
+
+/**
+ * Options an Analyzer instance keeps in its customization
+ */
+interface AnalyzerOptions {
+  createTasksFromActionItems: boolean;
+}
+
+const SHARED_ANALYZER_EMAIL = 'analyzer@inboxleap.com';
 
 export class AnalyzerHandler {
   constructor(private emitter: EventEmitter) {}
@@ -72,34 +92,40 @@ export class AnalyzerHandler {
         console.log(`📎 [ANALYZER] Created new project: ${project.name} (ID: ${project.id})`);
       }
 
+      let findings: AttachmentFinding[] = [];
+
       // Process attachments if any
       if (email.attachments && email.attachments.length > 0) {
         console.log(`📎 [ANALYZER] Processing ${email.attachments.length} attachments`);
         
         const savedAttachmentIds: number[] = [];
+        const scanResults = new Map<number, MalwareScanResult>();
         
         for (const attachment of email.attachments) {
           try {
             console.log(`📎 [ANALYZER] Processing attachment: ${attachment.filename}`);
             
-            // Save attachment to database with content
-            const contentBase64 = attachment.content ? attachment.content.toString('base64') : null;
-            
+            // Content goes to the blob store; base64 in the row is the fallback when it is unavailable
+            const stored = attachment.content
+              ? await this.storeContent(attachment.filename, attachment.content)
+              : { content: null };
+
             const savedAttachment = await storage.createEmailAttachment({
               projectId: project.id,
               filename: attachment.filename,
               originalName: attachment.filename,
               contentType: attachment.contentType || 'application/octet-stream',
               size: attachment.size || 0,
-              s3Key: null,
-              localPath: null,
-              content: contentBase64, // Store as base64 string
+              ...stored,
               emailMessageId: email.messageId,
               analysis: null // Will be populated by automatic analysis
             });
             
-            console.log(`📎 [ANALYZER] Saved attachment with ${contentBase64 ? 'content' : 'no content'}: ${attachment.filename}`);
+            console.log(`📎 [ANALYZER] Saved attachment ${!attachment.content ? 'with no content' : stored.content ? 'with inline content' : 'to the blob store'}: ${attachment.filename}`);
             savedAttachmentIds.push(savedAttachment.id);
+            if (attachment.scan) {
+              scanResults.set(savedAttachment.id, attachment.scan);
+            }
             
           } catch (attachmentError) {
             console.error(`📎 [ANALYZER] Error processing attachment ${attachment.filename}:`, attachmentError);
@@ -110,7 +136,7 @@ export class AnalyzerHandler {
         if (savedAttachmentIds.length > 0) {
           console.log(`📎 [ANALYZER] Automatically starting analysis for ${savedAttachmentIds.length} attachments`);
           try {
-            await this.analyzeAttachments(
+            findings = await this.analyzeAttachments(
               project.id,
               savedAttachmentIds,
               email.messageId,
@@ -118,7 +144,8 @@ export class AnalyzerHandler {
               {
                 subject: email.subject || '',
                 body: email.body || ''
-              }
+              },
+              scanResults
             );
           } catch (analysisError) {
             console.error(`📎 [ANALYZER] Error during automatic analysis:`, analysisError);
@@ -128,15 +155,31 @@ export class AnalyzerHandler {
         console.log(`📎 [ANALYZER] No attachments found in email`);
       }
 
+      // Turn the documents' action items into tasks when the instance asks for it
+      const options = await this.getInstanceOptions(analyzerRecipient, userId);
+      let tasksCreated = 0;
+      if (options.createTasksFromActionItems && findings.length > 0) {
+        const created = await documentTaskService.createTasksFromDocuments(findings, {
+          project,
+          createdBy: userId,
+          participants: allParticipants,
+          sourceEmail: analyzerRecipient,
+          sourceEmailSubject: email.subject,
+          referenceDate: email.date ? new Date(email.date) : undefined,
+        });
+        tasksCreated = created.length;
+        await documentTaskService.sendConfirmationEmail(email.from, project, created);
+      }
+
       // Update processed email with Analyzer analysis info
       await storage.updateProcessedEmail(processedEmail.id, {
         status: 'processed',
         projectId: project.id,
-        tasksCreated: 0 // Analyzer doesn't create tasks, just analysis
+        tasksCreated
       });
 
       // Send response email to participants
-      await this.sendResponseEmail(email, project, allParticipants);
+      await this.sendResponseEmail(email, project, allParticipants, findings);
 
       console.log(`📎 [ANALYZER] Successfully processed Analyzer email for project ${project.id}`);
     } catch (error) {
@@ -150,10 +193,12 @@ export class AnalyzerHandler {
     attachmentIds: number[],
     messageId: string,
     userId: string,
-    emailContext: { subject: string; body: string }
-  ): Promise<void> {
+    emailContext: { subject: string; body: string },
+    scanResults: Map<number, MalwareScanResult> = new Map()
+  ): Promise<AttachmentFinding[]> {
     console.log(`📎 [ANALYZER] Starting analysis for ${attachmentIds.length} attachments in project ${projectId}`);
     
+    const findings: AttachmentFinding[] = [];
     let analyzedCount = 0;
     let totalInsights = 0;
     
@@ -173,7 +218,7 @@ export class AnalyzerHandler {
         console.log(`📎 [ANALYZER] Analyzing attachment: ${attachment.filename} (${attachment.contentType})`);
 
         // Perform analysis based on content type and actual content
-        const analysis = await this.performLLMAnalysis(attachment, emailContext);
+        const analysis = await this.performLLMAnalysis(await attachmentContentService.withContent(attachment), emailContext);
 
         // Save analysis results to both tables
         // 1. Update the email_attachments table (for project context)
@@ -186,12 +231,19 @@ export class AnalyzerHandler {
           filename: attachment.filename,
           fileType: attachment.contentType,
           fileSize: attachment.size,
+          fileHash: attachment.fileHash,
+          s3Key: attachment.s3Key,
+          localPath: attachment.localPath,
           aiAnalysis: analysis,
+          extractedText: analysis.extractedText || null,
+          processingResults: { virusScanResults: scanResults.get(attachmentId) ?? null },
+          virusScanPassed: scanResults.get(attachmentId)?.status === 'clean',
           processedAt: new Date(),
           createdAt: new Date(),
           updatedAt: new Date()
         });
 
+        findings.push({ attachmentId, filename: attachment.filename, analysis });
         analyzedCount++;
         totalInsights += analysis.keyPoints?.length || 0;
 
@@ -203,8 +255,39 @@ export class AnalyzerHandler {
     }
     
     console.log(`📎 [ANALYZER] Analysis complete: ${analyzedCount} attachments analyzed, ${totalInsights} insights extracted`);
+    return findings;
   }
   
+  /**
+   * Options of the Analyzer instance the email was sent to. The shared analyzer address only
+   * applies the options of an instance owned by the sender.
+   */
+  private async getInstanceOptions(analyzerRecipient: string, userId: string): Promise<AnalyzerOptions> {
+    const defaults: AnalyzerOptions = { createTasksFromActionItems: false };
+    try {
+      const recipient = analyzerRecipient.toLowerCase();
+      const instance = await agentInstanceService.getInstanceByEmail(recipient);
+      if (!instance || (recipient === SHARED_ANALYZER_EMAIL && instance.userId !== userId)) {
+        return defaults;
+      }
+
+      const customization = (instance.customization ?? {}) as Record<string, unknown>;
+      return { createTasksFromActionItems: customization.createTasksFromActionItems === true };
+    } catch (error) {
+      console.error(`📎 [ANALYZER] Error loading options for ${analyzerRecipient}:`, error);
+      return defaults;
+    }
+  }
+
+  private async storeContent(filename: string, content: Buffer): Promise<StoredAttachmentContent | { content: string }> {
+    try {
+      return await attachmentContentService.store(content);
+    } catch (error) {
+      console.error(`📎 [ANALYZER] Blob store unavailable, keeping ${filename} inline:`, error);
+      return { content: content.toString('base64') };
+    }
+  }
+
   private async performLLMAnalysis(attachment: any, emailContext: { subject: string; body: string }): Promise<any> {
     try {
       return await analyzeAttachment(attachment, emailContext);
@@ -214,7 +297,7 @@ export class AnalyzerHandler {
     }
   }
 
-  private async sendResponseEmail(email: EmailData, project: any, participants: string[]) {
+  private async sendResponseEmail(email: EmailData, project: any, participants: string[], findings: AttachmentFinding[] = []) {
     try {
       const attachmentCount = email.attachments?.length || 0;
       const dashboardLink = `${process.env.DASHBOARD_URL || 'https://inboxleap.com'}/teams/analyzer?project=${project.id}`;
@@ -236,6 +319,8 @@ export class AnalyzerHandler {
     </ul>
   </div>
   
+  ${findings.map(finding => this.formatFinding(finding)).join('')}
+  
   ${attachmentCount > 0 ? `
   <p><strong>Next Steps:</strong></p>
   <ol>
@@ -278,6 +363,31 @@ export class AnalyzerHandler {
       console.error(`📎 [ANALYZER] Error sending response email:`, error);
     }
   }
+
+  /**
+   * Summary, key points, detected tables and action items of one attachment. Key points of PDFs
+   * end with the page they come from, e.g. "(p. 3)", so readers can find the source passage.
+   */
+  private formatFinding({ filename, analysis }: AttachmentFinding): string {
+    const keyPoints: string[] = Array.isArray(analysis?.keyPoints) ? analysis.keyPoints.slice(0, 6) : [];
+    const tables: Array<{ page: number; rows: string[][] }> = Array.isArray(analysis?.tables) ? analysis.tables : [];
+    const actionItems: string[] = Array.isArray(analysis?.actionItems) ? analysis.actionItems.slice(0, 10) : [];
+    const slideCount = analysis?.office?.slideCount;
+    const pageCount = typeof analysis?.pageCount === 'number'
+      ? ` (${analysis.pageCount} page${analysis.pageCount === 1 ? '' : 's'})`
+      : typeof slideCount === 'number' ? ` (${slideCount} slide${slideCount === 1 ? '' : 's'})` : '';
+
+    return `
+  <div style="border-left: 4px solid #FF6B35; padding: 10px 20px; margin: 20px 0;">
+    <h3 style="margin: 0 0 10px 0;">📄 ${escapeHtml(filename)}${pageCount}</h3>
+    ${analysis?.summary ? `<p>${escapeHtml(String(analysis.summary))}</p>` : ''}
+    ${keyPoints.length > 0 ? `<ul>${keyPoints.map(point => `<li>${escapeHtml(String(point))}</li>`).join('')}</ul>` : ''}
+    ${tables.length > 0 ? `<p style="color: #666; font-size: 14px;">Tables found: ${tables.map(table =>
+      `p. ${table.page} (${table.rows.length} rows × ${table.rows[0]?.length || 0} columns)`).join(', ')}</p>` : ''}
+    ${actionItems.length > 0 ? `<p><strong>Action items:</strong></p>
+    <ul>${actionItems.map(item => `<li>${escapeHtml(String(item))}</li>`).join('')}</ul>` : ''}
+  </div>`;
+  }
 }
 
 
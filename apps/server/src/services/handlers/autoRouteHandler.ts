@@ -0,0 +1,141 @@
+import { storage } from '../../storage';
+import { sendMail } from '../mailer';
+import type { QueuedEmail } from '../queue/types';
+import { agentAutoRouter, type AutoRoutableAgent, type AutoRoutingDecision } from '../email/AgentAutoRouter';
+import { emailConfigManager } from '../email/EmailConfigManager';
+import { isServiceEmail } from '../utils/emailUtils';
+
+/**
+ * Runs the email through the chosen agent. Resolves to false when the agent cannot take
+ * this email after all (e.g. FAQ for a sender without a knowledge base).
+ */
+export type AgentDispatcher = (queuedEmail: QueuedEmail, processedEmail: any) => Promise<boolean>;
+
+const AGENT_DESCRIPTIONS: Record<AutoRoutableAgent, string> = {
+  todo: 'turn the email into tasks and track them',
+  polly: 'run a poll and collect votes from the recipients',
+  analyzer: 'analyze the attached documents',
+  faq: "answer a question from your organization's knowledge base",
+  t5t: 'submit it as a Top 5 Things intelligence update',
+};
+
+export class AutoRouteHandler {
+  constructor(private dispatchers: Record<AutoRoutableAgent, AgentDispatcher>) {}
+
+  /**
+   * Pick an agent for mail sent to the load balancer address, dispatch to it and record the
+   * decision. Ambiguous emails are answered with a note asking the sender to pick an agent.
+   */
+  async process(queuedEmail: QueuedEmail, processedEmail: any): Promise<void> {
+    const { email } = queuedEmail;
+    const decision = agentAutoRouter.classify(email);
+
+    console.log(`⚖️  [AUTO-ROUTER] Scored "${email.subject}":`);
+    for (const score of decision.scores) {
+      console.log(`   ${score.agentId}: ${score.score} (${score.confidence}%)`);
+    }
+
+    // System senders are never asked to clarify, so automated mail cannot bounce back and forth
+    if (decision.ambiguous && isServiceEmail(email.from)) {
+      console.log(`⚖️  [AUTO-ROUTER] Ambiguous email from service address ${email.from}, defaulting to todo`);
+      await this.dispatch('todo', { ...decision, reason: `${decision.reason}; defaulted to todo for a service sender` }, queuedEmail, processedEmail);
+      return;
+    }
+
+    if (decision.ambiguous || !decision.agentId) {
+      await this.requestClarification(queuedEmail, processedEmail, decision);
+      return;
+    }
+
+    await this.dispatch(decision.agentId, decision, queuedEmail, processedEmail);
+  }
+
+  private async dispatch(
+    agentId: AutoRoutableAgent,
+    decision: AutoRoutingDecision,
+    queuedEmail: QueuedEmail,
+    processedEmail: any
+  ): Promise<void> {
+    console.log(`⚖️  [AUTO-ROUTER] Dispatching to ${agentId} (${decision.confidence}%): ${decision.reason}`);
+
+    // Record before dispatching so the decision survives a handler failure
+    await this.recordDecision(queuedEmail, processedEmail, decision, agentId, 'dispatched');
+
+    const handled = await this.dispatchers[agentId](queuedEmail, processedEmail);
+    if (!handled) {
+      await this.requestClarification(queuedEmail, processedEmail, {
+        ...decision,
+        agentId: null,
+        ambiguous: true,
+        reason: `${agentId} cannot handle this email for ${queuedEmail.email.from}`,
+      });
+    }
+  }
+
+  private async requestClarification(
+    queuedEmail: QueuedEmail,
+    processedEmail: any,
+    decision: AutoRoutingDecision
+  ): Promise<void> {
+    const { email } = queuedEmail;
+    const serviceDomain = emailConfigManager.getServiceDomain();
+    console.log(`❓ [AUTO-ROUTER] Asking ${email.from} to choose an agent: ${decision.reason}`);
+
+    await this.recordDecision(queuedEmail, processedEmail, decision, null, 'clarification_requested');
+
+    // Suggest the closest matches first, then the remaining agents
+    const suggested = decision.scores.map(score => score.agentId as AutoRoutableAgent);
+    const agents = [...suggested, ...(Object.keys(AGENT_DESCRIPTIONS) as AutoRoutableAgent[])]
+      .filter((agentId, index, all) => all.indexOf(agentId) === index);
+
+    const text = [
+      `We received your email "${email.subject}" but couldn't tell which assistant should handle it.`,
+      '',
+      'Please forward it to the address that matches what you need:',
+      '',
+      ...agents.map(agentId => `  • ${agentId}@${serviceDomain} - ${AGENT_DESCRIPTIONS[agentId]}`),
+      '',
+      'Best regards,',
+      'InboxLeap',
+    ].join('\n');
+
+    await sendMail({
+      from: emailConfigManager.getDefaultServiceEmail(),
+      to: email.from,
+      subject: email.subject.startsWith('Re: ') ? email.subject : `Re: ${email.subject}`,
+      text,
+      inReplyTo: email.messageId,
+      references: [...(email.references || []), email.messageId],
+    });
+
+    await storage.updateProcessedEmail(processedEmail.id, {
+      status: 'processed',
+      tasksCreated: 0,
+    });
+  }
+
+  private async recordDecision(
+    queuedEmail: QueuedEmail,
+    processedEmail: any,
+    decision: AutoRoutingDecision,
+    selectedAgent: AutoRoutableAgent | null,
+    outcome: 'dispatched' | 'clarification_requested'
+  ): Promise<void> {
+    try {
+      await storage.createAgentRoutingDecision({
+        processedEmailId: processedEmail?.id,
+        messageId: queuedEmail.email.messageId,
+        sender: queuedEmail.email.from,
+        subject: queuedEmail.email.subject,
+        selectedAgent,
+        confidence: decision.confidence,
+        outcome,
+        reason: decision.reason,
+        scores: decision.scores,
+      });
+    } catch (error) {
+      // Losing the audit record should not stop the email from being handled
+      console.error('❌ [AUTO-ROUTER] Failed to record routing decision:', error);
+    }
+  }
+}
@@ -1,7 +1,8 @@
 import { EmailData } from '../email/types';
 import { storage } from '../../storage';
 import { sendMail } from '../mailer';
-import { getOrCreateUserByEmail } from '../userService';
+import { faqKnowledgeService, type FAQAnswer } from '../faqKnowledgeService';
+import { faqReviewService } from '../faqReviewService';
 
 export class FAQHandler {
   // Rate limiting: max 3 FAQ responses per sender per hour
@@ -48,12 +49,6 @@ export class FAQHandler {
         }
       }
       
-      // Check rate limiting to prevent spam
-      if (!this.checkRateLimit(email.from)) {
-        console.log(`📋 [FAQ] Rate limit exceeded for ${email.from}, skipping`);
-        return;
-      }
-      
       // Extract organization identifier from recipient email
       // Format: faq+orgslug@inboxleap.com
       const faqEmailMatch = email.to.find(recipient => 
@@ -80,11 +75,18 @@ export class FAQHandler {
       
       console.log(`📋 [FAQ] Found organization: ${organization.name} (ID: ${organization.id})`);
       
-      // Get or create user for the sender
-      const senderUser = await getOrCreateUserByEmail(email.from);
-      
-      // Process the question and generate response
-      await this.processInquiryAndRespond(email, organization, senderUser);
+      // The owner answering a review request approves that answer rather than asking a new question
+      const handledReview = await faqReviewService.handleOwnerReply(email, organization);
+      if (!handledReview) {
+        // Check rate limiting to prevent spam
+        if (!this.checkRateLimit(email.from)) {
+          console.log(`📋 [FAQ] Rate limit exceeded for ${email.from}, skipping`);
+          return;
+        }
+        
+        // Process the question and generate response
+        await this.processInquiryAndRespond(email, organization);
+      }
       
       // Mark email as processed to prevent duplicate responses
       if (email.messageId) {
@@ -141,163 +143,50 @@ export class FAQHandler {
     }
   }
   
-  private async processInquiryAndRespond(email: EmailData, organization: any, senderUser: any): Promise<void> {
+  /**
+   * Answer an inquiry for an organization resolved by the caller. Used by the agent
+   * auto-router, which has already recorded the processed email.
+   */
+  async answerInquiry(email: EmailData, organization: any): Promise<void> {
+    console.log(`📋 [FAQ] Answering routed inquiry from ${email.from} for organization ${organization.name}`);
+    await this.processInquiryAndRespond(email, organization);
+  }
+
+  private async processInquiryAndRespond(email: EmailData, organization: any): Promise<void> {
     const inquiry = email.body.trim();
     
     console.log(`📋 [FAQ] Processing inquiry: "${inquiry.substring(0, 100)}..."`);
     
-    // Get knowledge base (SOP documents)
-    const sopDocuments = await storage.getSOPDocumentsByOrganization(organization.id);
-    console.log(`📋 [FAQ] Found ${sopDocuments.length} SOP documents`);
-    
-    // Get existing FAQ entries
-    const faqEntries = await storage.getFAQEntriesByOrganization(organization.id);
-    console.log(`📋 [FAQ] Found ${faqEntries.length} FAQ entries`);
-    
-    // Generate AI response using knowledge base
-    const response = await this.generateResponseFromKnowledgeBase(
-      inquiry,
-      sopDocuments,
-      faqEntries,
-      organization
-    );
-    
-    // Save the inquiry and response as a new FAQ entry
-    await this.saveInquiryAsFAQEntry(inquiry, response, organization, senderUser);
-    
-    // Send email response
-    await this.sendFAQResponse(email, response, organization);
-  }
-  
-  private async generateResponseFromKnowledgeBase(
-    inquiry: string,
-    sopDocuments: any[],
-    faqEntries: any[],
-    organization: any
-  ): Promise<string> {
+    // Answer from the chunks of the SOP documents and FAQ entries that best match the inquiry
+    let answer: FAQAnswer | null = null;
     try {
-      console.log(`📋 [FAQ] Generating AI response from knowledge base`);
-      
-      // Build context from knowledge base
-      let knowledgeContext = `Organization: ${organization.name}\n\n`;
-      
-      // Add SOP documents to context
-      if (sopDocuments.length > 0) {
-        knowledgeContext += "KNOWLEDGE BASE DOCUMENTS:\n\n";
-        sopDocuments.forEach((doc, index) => {
-          knowledgeContext += `${index + 1}. ${doc.title}\n`;
-          knowledgeContext += `Category: ${doc.category || 'General'}\n`;
-          knowledgeContext += `Content: ${doc.content.substring(0, 1000)}${doc.content.length > 1000 ? '...' : ''}\n\n`;
-        });
-      }
-      
-      // Add existing FAQ entries to context
-      if (faqEntries.length > 0) {
-        knowledgeContext += "FREQUENTLY ASKED QUESTIONS:\n\n";
-        faqEntries.forEach((faq, index) => {
-          knowledgeContext += `Q${index + 1}: ${faq.question}\n`;
-          knowledgeContext += `A${index + 1}: ${faq.answer}\n\n`;
-        });
-      }
-      
-      // Create prompt for AI
-      const prompt = `You are a helpful FAQ assistant for ${organization.name}. 
-      
-Based on the knowledge base and FAQ entries below, please provide a comprehensive and helpful answer to the following inquiry.
-
-If the answer is not directly available in the knowledge base, use your general knowledge to provide a helpful response while noting that the specific information may not be in the organization's documentation.
-
-INQUIRY: ${inquiry}
-
-${knowledgeContext}
-
-Please provide a clear, helpful response:`;
-      
-      // For now, generate a structured response based on available data
-      // In a real implementation, you would call an AI service like OpenAI or Claude here
-      let response = await this.generateStructuredResponse(inquiry, sopDocuments, faqEntries, organization);
-      
-      console.log(`📋 [FAQ] Generated response (${response.length} characters)`);
-      return response;
-      
+      answer = await faqKnowledgeService.answerInquiry(organization, inquiry);
     } catch (error) {
-      console.error('📋 [FAQ] Error generating response from knowledge base:', error);
-      return this.generateFallbackResponse(inquiry, organization);
+      console.error('📋 [FAQ] Error answering from knowledge base:', error);
     }
-  }
-  
-  private async generateStructuredResponse(
-    inquiry: string,
-    sopDocuments: any[],
-    faqEntries: any[],
-    organization: any
-  ): Promise<string> {
-    // Check if inquiry matches existing FAQ entries
-    const matchingFAQ = faqEntries.find(faq => 
-      faq.question.toLowerCase().includes(inquiry.toLowerCase().substring(0, 50)) ||
-      inquiry.toLowerCase().includes(faq.question.toLowerCase().substring(0, 30))
-    );
     
-    if (matchingFAQ) {
-      return `Thank you for your inquiry about ${organization.name}!
-
-Based on our FAQ database, here's the answer to your question:
-
-**${matchingFAQ.question}**
-
-${matchingFAQ.answer}
-
-If you need additional information, please don't hesitate to ask!
-
-Best regards,
-${organization.name} FAQ System`;
+    if (answer && !faqReviewService.needsReview(answer)) {
+      console.log(`📋 [FAQ] Generated grounded response citing ${answer.citations.length} sources (confidence ${answer.confidence}%)`);
+      await faqReviewService.recordAnswered(email, organization, answer);
+      await this.sendFAQResponse(email, this.formatGroundedResponse(answer, organization), organization);
+      return;
     }
     
-    // Check if inquiry matches SOP documents
-    const relevantDocs = sopDocuments.filter(doc => 
-      doc.title.toLowerCase().includes(inquiry.toLowerCase().substring(0, 30)) ||
-      doc.content.toLowerCase().includes(inquiry.toLowerCase().substring(0, 50)) ||
-      inquiry.toLowerCase().includes(doc.title.toLowerCase().substring(0, 20))
-    );
-    
-    if (relevantDocs.length > 0) {
-      const doc = relevantDocs[0];
-      return `Thank you for your inquiry about ${organization.name}!
-
-I found relevant information in our knowledge base:
-
-**${doc.title}**
-${doc.description ? `\n${doc.description}\n` : ''}
+    // Not confident: the organization owner answers, and we follow up once they have
+    await faqReviewService.escalate(email, organization, answer);
+    await this.sendFAQResponse(email, this.generateFallbackResponse(inquiry, organization), organization);
+  }
+  
+  private formatGroundedResponse(answer: FAQAnswer, organization: any): string {
+    return `Thank you for your inquiry about ${organization.name}!
 
-${doc.content.length > 800 ? 
-  doc.content.substring(0, 800) + '...\n\nFor complete information, please refer to our full documentation.' 
-  : doc.content}
+${answer.text}
 
-${relevantDocs.length > 1 ? `\nI also found ${relevantDocs.length - 1} other relevant document(s) that might be helpful.` : ''}
+Sources:
+${faqKnowledgeService.formatCitations(answer.citations)}
 
 If you need further clarification, please let me know!
 
-Best regards,
-${organization.name} FAQ System`;
-    }
-    
-    // Generic helpful response
-    return `Thank you for contacting ${organization.name}!
-
-I've received your inquiry: "${inquiry.substring(0, 100)}${inquiry.length > 100 ? '...' : ''}"
-
-While I don't have specific information about this topic in our current knowledge base, I've forwarded your question to our team. We'll update our FAQ database with this information soon.
-
-${sopDocuments.length > 0 ? 
-  `\nYou might find helpful information in our available documentation covering topics like: ${sopDocuments.map(d => d.title).slice(0, 3).join(', ')}.` 
-  : ''}
-
-${faqEntries.length > 0 ? 
-  `\nYou can also check our existing FAQ entries which cover: ${faqEntries.map(f => f.category || 'General').filter((c, i, arr) => arr.indexOf(c) === i).slice(0, 3).join(', ')}.` 
-  : ''}
-
-If you have any urgent questions, please feel free to reach out directly.
-
 Best regards,
 ${organization.name} FAQ System`;
   }
@@ -309,54 +198,12 @@ I've received your inquiry and will make sure it gets the attention it deserves.
 
 Your question: "${inquiry.substring(0, 200)}${inquiry.length > 200 ? '...' : ''}"
 
-I'm currently processing your request and will follow up with a detailed response shortly. In the meantime, if you have any urgent questions, please don't hesitate to reach out directly.
+Our knowledge base doesn't answer this yet, so I've passed it to the ${organization.name} team. We'll email you their answer as soon as they reply. In the meantime, if you have any urgent questions, please don't hesitate to reach out directly.
 
 Best regards,
 ${organization.name} FAQ System`;
   }
   
-  private async saveInquiryAsFAQEntry(
-    inquiry: string,
-    response: string,
-    organization: any,
-    senderUser: any
-  ): Promise<void> {
-    try {
-      console.log(`📋 [FAQ] Saving inquiry as FAQ entry for organization ${organization.id}`);
-      
-      // Create a question from the inquiry (limit length)
-      const question = inquiry.length > 200 
-        ? inquiry.substring(0, 197) + '...'
-        : inquiry;
-      
-      // Determine category based on content (basic keyword matching)
-      let category = 'General';
-      if (inquiry.toLowerCase().includes('price') || inquiry.toLowerCase().includes('cost')) {
-        category = 'Pricing';
-      } else if (inquiry.toLowerCase().includes('technical') || inquiry.toLowerCase().includes('how to')) {
-        category = 'Technical';
-      } else if (inquiry.toLowerCase().includes('support') || inquiry.toLowerCase().includes('help')) {
-        category = 'Support';
-      } else if (inquiry.toLowerCase().includes('policy') || inquiry.toLowerCase().includes('rule')) {
-        category = 'Policy';
-      }
-      
-      await storage.createFAQEntry({
-        organizationId: organization.id,
-        question,
-        answer: response,
-        category,
-        relatedDocuments: [],
-        createdBy: organization.createdBy // Use organization creator as default
-      });
-      
-      console.log(`📋 [FAQ] Successfully saved FAQ entry`);
-    } catch (error) {
-      console.error('📋 [FAQ] Error saving FAQ entry:', error);
-      // Don't throw error, just log it - the response should still be sent
-    }
-  }
-  
   private async sendFAQResponse(email: EmailData, response: string, organization: any): Promise<void> {
     try {
       console.log(`📋 [FAQ] Sending FAQ response to ${email.from}`);
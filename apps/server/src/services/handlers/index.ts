@@ -1,3 +1,4 @@
 export { T5THandler } from './t5tHandler';
 export { AnalyzerHandler } from './analyzerHandler';
 export { TaskHandler } from './taskHandler';
+export { AutoRouteHandler } from './autoRouteHandler';
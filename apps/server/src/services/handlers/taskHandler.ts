@@ -3,6 +3,7 @@ import { sendMail } from '../mailer.js';
 import { EventEmitter } from 'events';
 import type { EmailData, QueuedEmail } from '../queue/types';
 import { claudeService } from '../claudeService';
+import { taskDependencyService } from '../taskDependencyService';
 import { getOrCreateUserByEmail } from '../userService';
 import { notificationService } from '../notificationService';
 import { isServiceEmail, isReplyEmail } from '../utils/emailUtils';
@@ -207,6 +208,7 @@ export class TaskHandler {
     console.log(`   📋 Tasks found: ${tasks.length}`);
     
     let tasksCreated = 0;
+    const createdTasks = [];
     for (const taskData of tasks) {
       console.log(`➕ [CLAUDE] Creating task: "${taskData.title}"`);
       const task = await storage.createTask({
@@ -219,6 +221,7 @@ export class TaskHandler {
         sourceEmail: email.from,
         sourceEmailSubject: email.subject,
         createdBy: userId,
+        recurrenceRule: taskData.recurrence,
       });
 
       // Handle assignees
@@ -277,9 +280,12 @@ export class TaskHandler {
         }
       }
 
+      createdTasks.push(task);
       tasksCreated++;
     }
 
+    await taskDependencyService.linkExtractedTasks(createdTasks, tasks);
+
     // Update processed email
     await storage.updateProcessedEmail(processedEmail.id, {
       status: 'processed',
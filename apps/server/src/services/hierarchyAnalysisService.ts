@@ -1,6 +1,7 @@
-import { Anthropic } from '@anthropic-ai/sdk';
 import type { EmailData } from '../types/interfaces';
 import type { HierarchyRelationship, Department } from '../types/validation';
+import { aiUsageService } from './aiUsage/aiUsageService';
+import { isLLMConfigured } from './llm/llmClient';
 
 /**
  * AI-powered hierarchy analysis service
@@ -28,45 +29,28 @@ interface BatchAnalysisInput {
 }
 
 class HierarchyAnalysisService {
-  private anthropic: Anthropic;
-  
-  constructor() {
-    const apiKey = process.env.ANTHROPIC_API_KEY || process.env.CLAUDE_API_KEY;
-    if (!apiKey) {
-      console.warn('⚠️ [HierarchyAnalysis] No Anthropic API key found, hierarchy analysis will be disabled');
-    }
-    this.anthropic = new Anthropic({
-      apiKey: apiKey || ''
-    });
-  }
-
   /**
    * Analyze multiple emails in a single AI request for efficiency
    */
   async analyzeBatch(inputs: BatchAnalysisInput[]): Promise<HierarchyAnalysisResult[]> {
-    if (!this.anthropic.apiKey || inputs.length === 0) {
+    if (!isLLMConfigured() || inputs.length === 0) {
       return inputs.map(() => ({ relationships: [] }));
     }
 
     try {
       const prompt = this.buildBatchAnalysisPrompt(inputs);
       
-      const response = await this.anthropic.messages.create({
+      const { text } = await aiUsageService.complete({
         model: 'claude-3-haiku-20240307', // Use fastest model for this task
-        max_tokens: 2000,
+        maxTokens: 2000,
         temperature: 0.1, // Low temperature for consistent structured output
         messages: [{
           role: 'user',
           content: prompt
         }]
-      });
-
-      const content = response.content[0];
-      if (content.type !== 'text') {
-        throw new Error('Unexpected response type from Claude');
-      }
+      }, { operation: 'analyzeBatch', agent: 't5t' });
 
-      return this.parseAnalysisResponse(content.text, inputs.length);
+      return this.parseAnalysisResponse(text, inputs.length);
       
     } catch (error) {
       console.error('❌ [HierarchyAnalysis] Error analyzing batch:', error);
@@ -181,7 +165,7 @@ ${emailAnalyses}`;
    * Check if hierarchy analysis is available
    */
   isAvailable(): boolean {
-    return !!this.anthropic.apiKey;
+    return isLLMConfigured();
   }
 }
 
@@ -0,0 +1,42 @@
+import Anthropic from '@anthropic-ai/sdk';
+import type { LLMCallInfo, LLMClient, LLMRequest, LLMResponse } from './types';
+
+export const DEFAULT_ANTHROPIC_MODEL = 'claude-sonnet-4-20250514';
+
+/**
+ * Anthropic Messages API provider
+ */
+export class AnthropicLLMClient implements LLMClient {
+  readonly provider = 'anthropic' as const;
+  private readonly client: Anthropic;
+
+  constructor(private readonly apiKey: string | undefined) {
+    this.client = new Anthropic({ apiKey: apiKey || '' });
+  }
+
+  isConfigured(): boolean {
+    return !!this.apiKey;
+  }
+
+  async complete(request: LLMRequest, _call: LLMCallInfo): Promise<LLMResponse> {
+    const response = await this.client.messages.create({
+      model: request.model || DEFAULT_ANTHROPIC_MODEL,
+      max_tokens: request.maxTokens,
+      ...(request.system ? { system: request.system } : {}),
+      ...(request.temperature !== undefined ? { temperature: request.temperature } : {}),
+      messages: request.messages,
+    });
+
+    return {
+      text: response.content.map(block => (block.type === 'text' ? block.text : '')).join(''),
+      model: response.model,
+      provider: this.provider,
+      usage: {
+        inputTokens: response.usage?.input_tokens ?? 0,
+        outputTokens: response.usage?.output_tokens ?? 0,
+        cacheCreationTokens: response.usage?.cache_creation_input_tokens ?? 0,
+        cacheReadTokens: response.usage?.cache_read_input_tokens ?? 0,
+      },
+    };
+  }
+}
@@ -0,0 +1,91 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import type { LLMCallInfo, LLMClient, LLMRequest, LLMResponse } from './types';
+
+/**
+ * One canned answer. A fixture applies to a request when its operation matches (if set) and every
+ * `match` string occurs in the prompt (system prompt and messages).
+ */
+export interface LLMFixture {
+  name?: string;
+  operation?: string;
+  match?: string | string[];
+  response: string | object; // Objects are returned as JSON, the way prompts ask Claude to answer
+}
+
+export interface RecordedLLMCall {
+  call: LLMCallInfo;
+  request: LLMRequest;
+  fixture: string;
+}
+
+/**
+ * Deterministic provider that replays fixtures instead of calling a model, so prompts and response
+ * parsing can be exercised offline. The first matching fixture wins; a request no fixture matches
+ * fails, so a changed prompt surfaces instead of silently getting a wrong answer.
+ */
+export class FixtureLLMClient implements LLMClient {
+  readonly provider = 'fixture' as const;
+  readonly calls: RecordedLLMCall[] = [];
+
+  constructor(private fixtures: LLMFixture[] = []) {}
+
+  /**
+   * Load every *.json file of a directory, each holding one fixture or an array of them
+   */
+  static fromDirectory(directory: string): FixtureLLMClient {
+    const files = fs.existsSync(directory)
+      ? fs.readdirSync(directory).filter(file => file.endsWith('.json')).sort()
+      : [];
+    const fixtures = files.flatMap(file => {
+      const content = JSON.parse(fs.readFileSync(path.join(directory, file), 'utf8'));
+      return (Array.isArray(content) ? content : [content]).map((fixture: LLMFixture, index: number) => ({
+        name: `${file}#${index}`,
+        ...fixture,
+      }));
+    });
+    return new FixtureLLMClient(fixtures);
+  }
+
+  isConfigured(): boolean {
+    return true;
+  }
+
+  /**
+   * Add fixtures that take precedence over the ones already loaded
+   */
+  use(...fixtures: LLMFixture[]): void {
+    this.fixtures = [...fixtures, ...this.fixtures];
+  }
+
+  reset(): void {
+    this.calls.length = 0;
+  }
+
+  async complete(request: LLMRequest, call: LLMCallInfo): Promise<LLMResponse> {
+    const prompt = [request.system ?? '', ...request.messages.map(message => message.content)].join('\n');
+    const fixture = this.fixtures.find(candidate => matches(candidate, call, prompt));
+    if (!fixture) {
+      throw new Error(`No LLM fixture for ${call.operation} matches the prompt: ${prompt.slice(0, 200)}`);
+    }
+
+    const text = typeof fixture.response === 'string' ? fixture.response : JSON.stringify(fixture.response);
+    this.calls.push({ call, request, fixture: fixture.name ?? call.operation });
+
+    return {
+      text,
+      model: 'fixture',
+      provider: this.provider,
+      // Rough token counts so usage accounting sees plausible numbers
+      usage: { inputTokens: Math.ceil(prompt.length / 4), outputTokens: Math.ceil(text.length / 4) },
+    };
+  }
+}
+
+function matches(fixture: LLMFixture, call: LLMCallInfo, prompt: string): boolean {
+  if (fixture.operation && fixture.operation !== call.operation) {
+    return false;
+  }
+  const required = fixture.match === undefined ? [] : Array.isArray(fixture.match) ? fixture.match : [fixture.match];
+  return required.every(text => prompt.includes(text));
+}
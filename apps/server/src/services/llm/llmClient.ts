@@ -0,0 +1,66 @@
+import * as path from 'path';
+import { AnthropicLLMClient } from './anthropicClient';
+import { FixtureLLMClient } from './fixtureClient';
+import { OpenAICompatibleLLMClient } from './openAICompatibleClient';
+import type { LLMClient } from './types';
+
+/**
+ * Pick the LLM provider from the environment: LLM_PROVIDER=anthropic|openai|fixture
+ * - anthropic (default): ANTHROPIC_API_KEY or CLAUDE_API_KEY
+ * - openai: any OpenAI-compatible server at LLM_BASE_URL (default api.openai.com) with LLM_MODEL
+ *   and, if the server needs one, LLM_API_KEY
+ * - fixture: replays the JSON fixtures in LLM_FIXTURES_DIR, for tests and offline development
+ */
+export function createLLMClient(env: NodeJS.ProcessEnv = process.env): LLMClient {
+  const provider = (env.LLM_PROVIDER || 'anthropic').toLowerCase();
+
+  if (provider === 'openai') {
+    if (!env.LLM_MODEL) {
+      console.warn('⚠️ [LLM] LLM_PROVIDER=openai without LLM_MODEL, AI features will be disabled');
+    }
+    return new OpenAICompatibleLLMClient({
+      baseUrl: env.LLM_BASE_URL || 'https://api.openai.com/v1',
+      model: env.LLM_MODEL || '',
+      apiKey: env.LLM_API_KEY || env.OPENAI_API_KEY,
+      timeoutMs: env.LLM_TIMEOUT_MS ? parseInt(env.LLM_TIMEOUT_MS, 10) : undefined,
+    });
+  }
+
+  if (provider === 'fixture') {
+    const directory = path.resolve(env.LLM_FIXTURES_DIR || 'tests/fixtures/llm');
+    if (env.NODE_ENV === 'production') {
+      console.warn(`⚠️ [LLM] Replaying fixtures from ${directory} in production`);
+    }
+    return FixtureLLMClient.fromDirectory(directory);
+  }
+
+  if (provider !== 'anthropic') {
+    console.warn(`⚠️ [LLM] Unknown provider "${provider}", falling back to Anthropic`);
+  }
+  const apiKey = env.ANTHROPIC_API_KEY || env.CLAUDE_API_KEY;
+  if (!apiKey) {
+    console.warn('⚠️ [LLM] No Anthropic API key found, AI features will be disabled');
+  }
+  return new AnthropicLLMClient(apiKey);
+}
+
+let client: LLMClient | undefined;
+
+/**
+ * Client shared by every service, created from the environment on first use
+ */
+export function getLLMClient(): LLMClient {
+  client ??= createLLMClient();
+  return client;
+}
+
+/**
+ * Replace the shared client (tests), or pass undefined to recreate it from the environment
+ */
+export function setLLMClient(next: LLMClient | undefined): void {
+  client = next;
+}
+
+export function isLLMConfigured(): boolean {
+  return getLLMClient().isConfigured();
+}
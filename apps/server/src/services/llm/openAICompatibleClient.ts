@@ -0,0 +1,72 @@
+import type { LLMCallInfo, LLMClient, LLMRequest, LLMResponse } from './types';
+
+export interface OpenAICompatibleOptions {
+  baseUrl: string; // e.g. http://localhost:11434/v1 for Ollama or http://vllm:8000/v1
+  model: string;
+  apiKey?: string;
+  timeoutMs?: number;
+}
+
+const DEFAULT_TIMEOUT_MS = 120_000;
+
+/**
+ * Chat Completions provider for OpenAI and OpenAI-compatible servers (vLLM, Ollama, LM Studio, ...)
+ * Prompts are written for Claude, so Claude model names in requests are replaced by the configured
+ * model; any other model name is passed through.
+ */
+export class OpenAICompatibleLLMClient implements LLMClient {
+  readonly provider = 'openai-compatible' as const;
+  private readonly endpoint: string;
+
+  constructor(private readonly options: OpenAICompatibleOptions) {
+    this.endpoint = `${options.baseUrl.replace(/\/+$/, '')}/chat/completions`;
+  }
+
+  isConfigured(): boolean {
+    return !!this.options.baseUrl && !!this.options.model;
+  }
+
+  async complete(request: LLMRequest, call: LLMCallInfo): Promise<LLMResponse> {
+    const model = request.model && !request.model.startsWith('claude-') ? request.model : this.options.model;
+    const messages = [
+      ...(request.system ? [{ role: 'system', content: request.system }] : []),
+      ...request.messages,
+    ];
+
+    const response = await fetch(this.endpoint, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.options.apiKey ? { Authorization: `Bearer ${this.options.apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model,
+        messages,
+        max_tokens: request.maxTokens,
+        ...(request.temperature !== undefined ? { temperature: request.temperature } : {}),
+      }),
+      signal: AbortSignal.timeout(this.options.timeoutMs ?? DEFAULT_TIMEOUT_MS),
+    });
+
+    if (!response.ok) {
+      const detail = (await response.text().catch(() => '')).slice(0, 500);
+      throw new Error(`LLM request ${call.operation} failed with ${response.status} ${response.statusText}: ${detail}`);
+    }
+
+    const data = await response.json() as {
+      model?: string;
+      choices?: Array<{ message?: { content?: string | null } }>;
+      usage?: { prompt_tokens?: number; completion_tokens?: number };
+    };
+
+    return {
+      text: data.choices?.[0]?.message?.content ?? '',
+      model: data.model || model,
+      provider: this.provider,
+      usage: {
+        inputTokens: data.usage?.prompt_tokens ?? 0,
+        outputTokens: data.usage?.completion_tokens ?? 0,
+      },
+    };
+  }
+}
@@ -0,0 +1,46 @@
+/**
+ * LLM provider interface shared by the client adapters
+ */
+
+export type LLMProviderName = 'anthropic' | 'openai-compatible' | 'fixture';
+
+export interface LLMMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+export interface LLMRequest {
+  model?: string; // Claude model the prompt was written for; other providers use their configured model
+  system?: string;
+  messages: LLMMessage[];
+  maxTokens: number;
+  temperature?: number;
+}
+
+export interface LLMCallInfo {
+  operation: string; // Service method making the request, e.g. "parseEmailToTasks"
+  agent?: string;
+}
+
+export interface LLMUsage {
+  inputTokens: number;
+  outputTokens: number;
+  cacheCreationTokens?: number;
+  cacheReadTokens?: number;
+}
+
+export interface LLMResponse {
+  text: string;
+  model: string; // Model that actually answered
+  provider: LLMProviderName;
+  usage: LLMUsage;
+}
+
+export interface LLMClient {
+  readonly provider: LLMProviderName;
+  /**
+   * False when the provider is missing credentials; callers skip AI work or use their heuristic fallback
+   */
+  isConfigured(): boolean;
+  complete(request: LLMRequest, call: LLMCallInfo): Promise<LLMResponse>;
+}
@@ -0,0 +1,254 @@
+import type { UserLinkedAccount } from '@email-task-router/shared';
+import { storage } from '../../storage';
+import { encryptionService } from '../encryptionService';
+import type { EmailConfig } from '../email/types';
+import { getMailboxProviders, getMailboxRedirectUri, isMailboxProviderId } from './providers';
+import type { MailboxAccountView, MailboxOAuthProvider, MailboxProviderId, OAuthTokenResponse } from './types';
+
+export const MAILBOX_REAUTH_REQUIRED = 'MAILBOX_REAUTH_REQUIRED';
+
+// Refresh access tokens this long before they expire, so a connection never logs in with a stale one
+const REFRESH_MARGIN_MS = 5 * 60 * 1000;
+
+// Token endpoint errors meaning the grant is gone and only the user can restore it
+const REVOKED_GRANT_ERRORS = ['invalid_grant', 'interaction_required', 'consent_required'];
+
+export function isMailboxReauthRequired(error: unknown): boolean {
+  return (error as { code?: string } | null)?.code === MAILBOX_REAUTH_REQUIRED;
+}
+
+/**
+ * SASL XOAUTH2 initial response for IMAP (RFC 7628 style, as documented by Google and Microsoft)
+ */
+export function buildXOAuth2Token(email: string, accessToken: string): string {
+  return Buffer.from(`user=${email}\x01auth=Bearer ${accessToken}\x01\x01`).toString('base64');
+}
+
+/**
+ * Mailbox address from the id_token returned with the tokens. It comes straight from the provider's
+ * token endpoint over TLS, so its claims are read without verifying the signature.
+ */
+function emailFromIdToken(idToken: string | undefined): string | null {
+  if (!idToken) return null;
+  try {
+    const claims = JSON.parse(Buffer.from(idToken.split('.')[1], 'base64url').toString('utf8'));
+    const email = claims.email || claims.preferred_username || claims.upn;
+    return typeof email === 'string' && email.includes('@') ? email.toLowerCase() : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * MailboxOAuthService - Links user mailboxes through OAuth2 instead of IMAP passwords
+ * Grants are kept in user_linked_accounts (provider 'gmail' or 'outlook', providerAccountId the
+ * mailbox address) with encrypted tokens. Access tokens are refreshed on demand; when the provider
+ * reports the grant revoked the account is flagged needsReauth until the user connects it again.
+ */
+export class MailboxOAuthService {
+  constructor(private readonly env: NodeJS.ProcessEnv = process.env) {}
+
+  getProviders(): MailboxOAuthProvider[] {
+    return getMailboxProviders(this.env);
+  }
+
+  getProvider(id: string): MailboxOAuthProvider | undefined {
+    return this.getProviders().find(provider => provider.id === id);
+  }
+
+  getAuthorizationUrl(id: MailboxProviderId, state: string): string {
+    const provider = this.requireProvider(id);
+    const params = new URLSearchParams({
+      client_id: provider.clientId,
+      redirect_uri: getMailboxRedirectUri(id, this.env),
+      response_type: 'code',
+      scope: provider.scopes.join(' '),
+      state,
+      ...provider.authorizeParams,
+    });
+    return `${provider.authorizeUrl}?${params.toString()}`;
+  }
+
+  /**
+   * Exchange the authorization code and store the grant, reusing the account when the same
+   * mailbox is connected again (e.g. after a revoked grant)
+   */
+  async connectMailbox(userId: string, id: MailboxProviderId, code: string): Promise<UserLinkedAccount> {
+    const provider = this.requireProvider(id);
+    const tokens = await this.requestToken(provider, {
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: getMailboxRedirectUri(id, this.env),
+    });
+
+    const email = emailFromIdToken(tokens.id_token);
+    if (!email) {
+      throw new Error(`${provider.name} did not return the address of the mailbox`);
+    }
+
+    const existing = (await storage.getUserLinkedAccounts(userId))
+      .find(account => account.provider === id && account.providerAccountId === email);
+    if (!tokens.refresh_token && !existing?.refreshToken) {
+      throw new Error(`${provider.name} did not grant offline access to ${email}; remove the app from the account permissions and connect again`);
+    }
+
+    const grant = {
+      email,
+      accessToken: tokens.access_token,
+      ...(tokens.refresh_token ? { refreshToken: tokens.refresh_token } : {}),
+      tokenExpiresAt: this.expiresAt(tokens),
+      scope: tokens.scope ?? provider.scopes.join(' '),
+      isActive: true,
+      needsReauth: false,
+      authError: null,
+      lastUsed: new Date(),
+    };
+
+    const account = existing
+      ? await storage.updateLinkedAccount(existing.id, grant)
+      : await storage.createUserLinkedAccount({ userId, provider: id, providerAccountId: email, ...grant });
+
+    console.log(`🔗 [MAILBOX-OAUTH] Linked ${provider.name} mailbox ${email} for user ${userId}`);
+    return account;
+  }
+
+  async listMailboxes(userId: string): Promise<MailboxAccountView[]> {
+    const accounts = await storage.getUserLinkedAccounts(userId);
+    return accounts
+      .filter(account => isMailboxProviderId(account.provider))
+      .map(account => ({
+        id: account.id,
+        provider: account.provider as MailboxProviderId,
+        providerName: this.getProvider(account.provider)?.name ?? account.provider,
+        email: account.email,
+        isActive: account.isActive,
+        needsReauth: !!account.needsReauth,
+        authError: account.authError,
+        linkedAt: account.linkedAt,
+        lastUsed: account.lastUsed,
+      }));
+  }
+
+  /**
+   * Linked mailbox to monitor for a user: the first active one whose grant still works
+   */
+  async getActiveMailbox(userId: string): Promise<UserLinkedAccount | undefined> {
+    const accounts = await storage.getUserLinkedAccounts(userId);
+    return accounts.find(account =>
+      isMailboxProviderId(account.provider) && account.isActive && !account.needsReauth && account.refreshToken
+    );
+  }
+
+  async disconnectMailbox(userId: string, accountId: number): Promise<boolean> {
+    const account = await storage.getLinkedAccount(accountId);
+    if (!account || account.userId !== userId || !isMailboxProviderId(account.provider)) {
+      return false;
+    }
+    await storage.deleteLinkedAccount(accountId);
+    console.log(`🔗 [MAILBOX-OAUTH] Unlinked mailbox ${account.email} for user ${userId}`);
+    return true;
+  }
+
+  /**
+   * IMAP settings of a linked mailbox; the connection asks for a fresh access token on every login
+   */
+  getImapConfig(account: UserLinkedAccount): EmailConfig {
+    const provider = this.requireProvider(account.provider);
+    return {
+      email: account.email!,
+      password: '',
+      imapHost: provider.imapHost,
+      imapPort: provider.imapPort,
+      smtpHost: provider.smtpHost,
+      smtpPort: 587,
+      getAccessToken: (forceRefresh?: boolean) => this.getAccessToken(account.id, forceRefresh),
+    };
+  }
+
+  /**
+   * Current access token of a linked mailbox, refreshed when it is about to expire or when forced
+   * (e.g. after the IMAP server rejected it)
+   */
+  async getAccessToken(accountId: number, forceRefresh: boolean = false): Promise<string> {
+    const account = await storage.getLinkedAccount(accountId);
+    if (!account || !account.isActive) {
+      throw this.reauthError(`Linked mailbox ${accountId} was disconnected`);
+    }
+    if (account.needsReauth) {
+      throw this.reauthError(`${account.email} must be reconnected: ${account.authError ?? 'access was revoked'}`);
+    }
+
+    const expiresAt = account.tokenExpiresAt?.getTime() ?? 0;
+    if (!forceRefresh && account.accessToken && expiresAt - Date.now() > REFRESH_MARGIN_MS) {
+      return encryptionService.reveal(account.accessToken);
+    }
+
+    const provider = this.requireProvider(account.provider);
+    try {
+      if (!account.refreshToken) {
+        throw this.reauthError(`No refresh token stored for ${account.email}`);
+      }
+      const tokens = await this.requestToken(provider, {
+        grant_type: 'refresh_token',
+        refresh_token: encryptionService.reveal(account.refreshToken),
+      });
+
+      await storage.updateLinkedAccount(account.id, {
+        accessToken: tokens.access_token,
+        // Microsoft rotates refresh tokens; Google keeps the original one valid
+        ...(tokens.refresh_token ? { refreshToken: tokens.refresh_token } : {}),
+        tokenExpiresAt: this.expiresAt(tokens),
+        lastUsed: new Date(),
+      });
+      console.log(`🔑 [MAILBOX-OAUTH] Refreshed access token for ${account.email}`);
+      return tokens.access_token;
+    } catch (error) {
+      if (isMailboxReauthRequired(error)) {
+        const message = (error as Error).message;
+        await storage.updateLinkedAccount(account.id, { needsReauth: true, authError: message });
+        console.log(`⚠️ [MAILBOX-OAUTH] ${provider.name} grant for ${account.email} is no longer valid: ${message}`);
+      }
+      throw error;
+    }
+  }
+
+  private async requestToken(provider: MailboxOAuthProvider, params: Record<string, string>): Promise<OAuthTokenResponse> {
+    const response = await fetch(provider.tokenUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({
+        client_id: provider.clientId,
+        client_secret: provider.clientSecret,
+        ...params,
+      }).toString(),
+    });
+
+    const body = await response.json().catch(() => ({})) as Partial<OAuthTokenResponse> & { error?: string; error_description?: string };
+    if (!response.ok || !body.access_token) {
+      const detail = body.error_description || body.error || response.statusText;
+      if (body.error && REVOKED_GRANT_ERRORS.includes(body.error)) {
+        throw this.reauthError(`${provider.name} revoked access (${detail})`);
+      }
+      throw new Error(`${provider.name} token request failed with ${response.status}: ${detail}`);
+    }
+    return body as OAuthTokenResponse;
+  }
+
+  private expiresAt(tokens: OAuthTokenResponse): Date {
+    return new Date(Date.now() + (tokens.expires_in ?? 3600) * 1000);
+  }
+
+  private requireProvider(id: string): MailboxOAuthProvider {
+    const provider = this.getProvider(id);
+    if (!provider) {
+      throw new Error(`Mailbox provider ${id} is not configured`);
+    }
+    return provider;
+  }
+
+  private reauthError(message: string): Error {
+    return Object.assign(new Error(message), { code: MAILBOX_REAUTH_REQUIRED });
+  }
+}
+
+export const mailboxOAuthService = new MailboxOAuthService();
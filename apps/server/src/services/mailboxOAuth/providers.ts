@@ -0,0 +1,57 @@
+import type { MailboxOAuthProvider, MailboxProviderId } from './types';
+
+export const MAILBOX_PROVIDER_IDS: MailboxProviderId[] = ['gmail', 'outlook'];
+
+export function isMailboxProviderId(value: string): value is MailboxProviderId {
+  return (MAILBOX_PROVIDER_IDS as string[]).includes(value);
+}
+
+export function getMailboxRedirectUri(id: MailboxProviderId, env: NodeJS.ProcessEnv = process.env): string {
+  return `${env.APP_URL}/api/mailboxes/oauth/${id}/callback`;
+}
+
+/**
+ * Mailbox providers with client credentials in the environment:
+ * - gmail: the Google sign-in client (GOOGLE_CLIENT_ID / GOOGLE_CLIENT_SECRET), with the Gmail API
+ *   scope https://mail.google.com/ enabled on its consent screen
+ * - outlook: MICROSOFT_CLIENT_ID / MICROSOFT_CLIENT_SECRET of an Entra ID app with the
+ *   IMAP.AccessAsUser.All permission, for MICROSOFT_TENANT_ID (default "common")
+ */
+export function getMailboxProviders(env: NodeJS.ProcessEnv = process.env): MailboxOAuthProvider[] {
+  const providers: MailboxOAuthProvider[] = [];
+
+  if (env.GOOGLE_CLIENT_ID && env.GOOGLE_CLIENT_SECRET) {
+    providers.push({
+      id: 'gmail',
+      name: 'Gmail',
+      clientId: env.GOOGLE_CLIENT_ID,
+      clientSecret: env.GOOGLE_CLIENT_SECRET,
+      authorizeUrl: 'https://accounts.google.com/o/oauth2/v2/auth',
+      tokenUrl: 'https://oauth2.googleapis.com/token',
+      scopes: ['openid', 'email', 'https://mail.google.com/'],
+      authorizeParams: { access_type: 'offline', prompt: 'consent' },
+      imapHost: 'imap.gmail.com',
+      imapPort: 993,
+      smtpHost: 'smtp.gmail.com',
+    });
+  }
+
+  if (env.MICROSOFT_CLIENT_ID && env.MICROSOFT_CLIENT_SECRET) {
+    const tenant = env.MICROSOFT_TENANT_ID || 'common';
+    providers.push({
+      id: 'outlook',
+      name: 'Microsoft 365',
+      clientId: env.MICROSOFT_CLIENT_ID,
+      clientSecret: env.MICROSOFT_CLIENT_SECRET,
+      authorizeUrl: `https://login.microsoftonline.com/${tenant}/oauth2/v2.0/authorize`,
+      tokenUrl: `https://login.microsoftonline.com/${tenant}/oauth2/v2.0/token`,
+      scopes: ['openid', 'email', 'offline_access', 'https://outlook.office.com/IMAP.AccessAsUser.All'],
+      authorizeParams: { prompt: 'select_account' },
+      imapHost: 'outlook.office365.com',
+      imapPort: 993,
+      smtpHost: 'smtp.office365.com',
+    });
+  }
+
+  return providers;
+}
@@ -0,0 +1,42 @@
+/**
+ * OAuth2 mailbox providers: users grant IMAP access to their own mailbox instead of storing a password
+ */
+
+export type MailboxProviderId = 'gmail' | 'outlook';
+
+export interface MailboxOAuthProvider {
+  id: MailboxProviderId; // Stored as user_linked_accounts.provider
+  name: string;
+  clientId: string;
+  clientSecret: string;
+  authorizeUrl: string;
+  tokenUrl: string;
+  scopes: string[];
+  authorizeParams?: Record<string, string>; // Extra parameters needed to receive a refresh token
+  imapHost: string;
+  imapPort: number;
+  smtpHost: string;
+}
+
+export interface OAuthTokenResponse {
+  access_token: string;
+  refresh_token?: string; // Missing when the provider keeps the previous one valid
+  expires_in?: number; // Seconds
+  scope?: string;
+  id_token?: string;
+}
+
+/**
+ * Linked mailbox as returned by the API, without its tokens
+ */
+export interface MailboxAccountView {
+  id: number;
+  provider: MailboxProviderId;
+  providerName: string;
+  email: string | null;
+  isActive: boolean | null;
+  needsReauth: boolean;
+  authError: string | null;
+  linkedAt: Date | null;
+  lastUsed: Date | null;
+}
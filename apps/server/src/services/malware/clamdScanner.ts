@@ -0,0 +1,115 @@
+import * as net from 'net';
+import type { MalwareScanner, MalwareScanResult } from './types';
+
+export interface ClamdOptions {
+  socketPath?: string; // Unix socket of clamd, e.g. /var/run/clamav/clamd.ctl
+  host?: string;
+  port?: number;
+  timeoutMs?: number;
+  chunkSize?: number;
+}
+
+const DEFAULT_PORT = 3310;
+const DEFAULT_TIMEOUT_MS = 30000;
+const DEFAULT_CHUNK_SIZE = 64 * 1024;
+
+/**
+ * ClamAV daemon adapter
+ * Streams files to clamd with the INSTREAM command over its Unix or TCP socket: each chunk is
+ * prefixed with its length as a 4-byte big-endian integer and a zero-length chunk ends the stream.
+ * clamd answers "stream: OK" or "stream: <signature> FOUND".
+ */
+export class ClamdScanner implements MalwareScanner {
+  readonly name = 'clamd';
+  private readonly options: Required<Omit<ClamdOptions, 'socketPath'>> & { socketPath?: string };
+
+  constructor(options: ClamdOptions = {}) {
+    this.options = {
+      socketPath: options.socketPath,
+      host: options.host || 'localhost',
+      port: options.port || DEFAULT_PORT,
+      timeoutMs: options.timeoutMs || DEFAULT_TIMEOUT_MS,
+      chunkSize: options.chunkSize || DEFAULT_CHUNK_SIZE,
+    };
+  }
+
+  async scan(content: Buffer, filename: string): Promise<MalwareScanResult> {
+    const scannedAt = () => new Date().toISOString();
+
+    try {
+      const reply = await this.send((socket) => {
+        socket.write('zINSTREAM\0');
+        for (let offset = 0; offset < content.length; offset += this.options.chunkSize) {
+          const chunk = content.subarray(offset, offset + this.options.chunkSize);
+          const length = Buffer.alloc(4);
+          length.writeUInt32BE(chunk.length, 0);
+          socket.write(length);
+          socket.write(chunk);
+        }
+        socket.write(Buffer.alloc(4)); // Zero-length chunk ends the stream
+      });
+
+      return { ...parseClamdReply(reply), scanner: this.name, scannedAt: scannedAt() };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`❌ [CLAMD] Could not scan ${filename}: ${message}`);
+      return { status: 'error', error: message, scanner: this.name, scannedAt: scannedAt() };
+    }
+  }
+
+  /**
+   * Check that clamd is reachable
+   */
+  async ping(): Promise<boolean> {
+    try {
+      return (await this.send(socket => socket.write('zPING\0'))) === 'PONG';
+    } catch {
+      return false;
+    }
+  }
+
+  private send(write: (socket: net.Socket) => void): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const socket = this.options.socketPath
+        ? net.createConnection({ path: this.options.socketPath })
+        : net.createConnection({ host: this.options.host, port: this.options.port });
+      const received: Buffer[] = [];
+      let settled = false;
+
+      const finish = (error?: Error) => {
+        if (settled) return;
+        settled = true;
+        socket.destroy();
+        if (error) {
+          reject(error);
+        } else {
+          resolve(Buffer.concat(received).toString('utf8').replace(/\0/g, '').trim());
+        }
+      };
+
+      socket.setTimeout(this.options.timeoutMs, () => finish(new Error(`clamd did not answer within ${this.options.timeoutMs}ms`)));
+      socket.once('connect', () => write(socket));
+      socket.on('data', (data) => {
+        received.push(data);
+        // Replies of z-prefixed commands end with a NUL byte
+        if (data.includes(0)) finish();
+      });
+      socket.once('end', () => finish());
+      socket.once('error', (error) => finish(error));
+    });
+  }
+}
+
+/**
+ * Turn a clamd INSTREAM reply into a verdict
+ */
+export function parseClamdReply(reply: string): Pick<MalwareScanResult, 'status' | 'threat' | 'error'> {
+  const found = reply.match(/^stream: (.+) FOUND$/);
+  if (found) {
+    return { status: 'infected', threat: found[1] };
+  }
+  if (/^stream: OK$/.test(reply)) {
+    return { status: 'clean' };
+  }
+  return { status: 'error', error: reply ? `Unexpected clamd reply: ${reply}` : 'Empty clamd reply' };
+}
@@ -0,0 +1,207 @@
+import * as crypto from 'crypto';
+import { storage } from '../../storage';
+import { sendMail } from '../mailer';
+import { escapeHtml } from '../../utils/escape';
+import { isServiceEmail } from '../utils/emailUtils';
+import { ClamdScanner } from './clamdScanner';
+import { StubScanner } from './stubScanner';
+import type { EmailData } from '../email/types';
+import type { MalwareScanner, MalwareScanResult } from './types';
+
+export interface ScannableFile {
+  filename: string;
+  contentType?: string;
+  size?: number;
+  content: Buffer;
+  scan?: MalwareScanResult; // Result of an earlier screening, reused instead of scanning again
+}
+
+export interface ScreeningContext {
+  messageId: string;
+  sender: string;
+  source: 'email' | 'web_upload';
+}
+
+export interface QuarantinedFile {
+  id: number;
+  filename: string;
+  threat: string;
+}
+
+export interface ScreeningResult<T extends ScannableFile> {
+  passed: Array<T & { scan: MalwareScanResult }>;
+  quarantined: QuarantinedFile[];
+}
+
+/**
+ * Pick the scanning provider from the environment: MALWARE_SCANNER=clamd|stub. Without a setting,
+ * clamd is used when CLAMD_SOCKET or CLAMD_HOST is configured and the EICAR-only stub otherwise.
+ */
+export function createMalwareScanner(env: NodeJS.ProcessEnv = process.env): MalwareScanner {
+  const provider = (env.MALWARE_SCANNER || (env.CLAMD_SOCKET || env.CLAMD_HOST ? 'clamd' : 'stub')).toLowerCase();
+
+  if (provider === 'clamd') {
+    return new ClamdScanner({
+      socketPath: env.CLAMD_SOCKET,
+      host: env.CLAMD_HOST,
+      port: env.CLAMD_PORT ? parseInt(env.CLAMD_PORT, 10) : undefined,
+      timeoutMs: env.CLAMD_TIMEOUT_MS ? parseInt(env.CLAMD_TIMEOUT_MS, 10) : undefined,
+    });
+  }
+
+  if (provider !== 'stub') {
+    console.warn(`⚠️ [MALWARE] Unknown scanner "${provider}", falling back to the stub scanner`);
+  } else if (env.NODE_ENV === 'production') {
+    console.warn('⚠️ [MALWARE] Using the stub scanner in production; set CLAMD_SOCKET or CLAMD_HOST to scan attachments');
+  }
+  return new StubScanner();
+}
+
+/**
+ * Malware scan service
+ * Screens attachments before they reach analysis. Infected files are moved to quarantine storage;
+ * an email carrying one is not routed any further and its sender gets a notice instead.
+ * Files that cannot be scanned pass (and are recorded as not scanned) unless
+ * MALWARE_SCAN_FAIL_CLOSED=true, in which case they are quarantined too.
+ */
+export class MalwareScanService {
+  private readonly failClosed: boolean;
+
+  constructor(
+    private readonly scanner: MalwareScanner = createMalwareScanner(),
+    options: { failClosed?: boolean } = {}
+  ) {
+    this.failClosed = options.failClosed ?? process.env.MALWARE_SCAN_FAIL_CLOSED === 'true';
+  }
+
+  get scannerName(): string {
+    return this.scanner.name;
+  }
+
+  /**
+   * Scan files and quarantine the ones that must not be processed
+   */
+  async screenFiles<T extends ScannableFile>(files: T[], context: ScreeningContext): Promise<ScreeningResult<T>> {
+    const result: ScreeningResult<T> = { passed: [], quarantined: [] };
+
+    for (const file of files) {
+      const scan = file.scan ?? await this.scanner.scan(file.content, file.filename);
+      const blocked = scan.status === 'infected' || (scan.status === 'error' && this.failClosed);
+
+      if (!blocked) {
+        if (scan.status === 'error') {
+          console.warn(`⚠️ [MALWARE] ${file.filename} could not be scanned, passing it on: ${scan.error}`);
+        }
+        result.passed.push({ ...file, scan });
+        continue;
+      }
+
+      const threat = scan.threat || `Unscannable: ${scan.error || 'unknown error'}`;
+      const quarantined = await storage.createQuarantinedAttachment({
+        messageId: context.messageId,
+        sender: context.sender,
+        source: context.source,
+        filename: file.filename,
+        contentType: file.contentType || null,
+        size: file.size ?? file.content.length,
+        fileHash: crypto.createHash('sha256').update(file.content).digest('hex'),
+        threat,
+        scanner: scan.scanner,
+        content: file.content.toString('base64'),
+      });
+      console.log(`🛡️ [MALWARE] Quarantined ${file.filename} from ${context.sender} (${threat})`);
+      result.quarantined.push({ id: quarantined.id, filename: file.filename, threat });
+    }
+
+    return result;
+  }
+
+  /**
+   * Scan stage of the email ingest path. Returns the email with scan results on its attachments,
+   * or null when it carried malware and must not be processed.
+   */
+  async screenEmail(email: EmailData): Promise<EmailData | null> {
+    if (!email.attachments || email.attachments.length === 0) {
+      return email;
+    }
+
+    const existing = await storage.getProcessedEmailByMessageId(email.messageId);
+    if (existing?.status === 'quarantined') {
+      console.log(`🛡️ [MALWARE] Email ${email.messageId} was already quarantined, skipping`);
+      return null;
+    }
+
+    const { passed, quarantined } = await this.screenFiles(email.attachments, {
+      messageId: email.messageId,
+      sender: email.from,
+      source: 'email',
+    });
+
+    if (quarantined.length === 0) {
+      return { ...email, attachments: passed };
+    }
+
+    const summary = quarantined.map(file => `${file.filename} (${file.threat})`).join(', ');
+    await storage.createProcessedEmail({
+      messageId: email.messageId,
+      subject: email.subject,
+      sender: email.from,
+      recipients: email.to,
+      ccList: email.cc,
+      bccList: email.bcc,
+      body: email.body,
+      status: 'quarantined',
+      tasksCreated: 0,
+      processingError: `Malware found in attachments: ${summary}`,
+    });
+
+    if (await this.sendQuarantineNotice(email, quarantined)) {
+      await storage.markQuarantinedAttachmentsNotified(quarantined.map(file => file.id));
+    }
+    return null;
+  }
+
+  /**
+   * Tell the sender which attachments were held back and that the email was not processed
+   */
+  async sendQuarantineNotice(email: EmailData, quarantined: QuarantinedFile[]): Promise<boolean> {
+    if (isServiceEmail(email.from)) {
+      console.log(`🛡️ [MALWARE] Not notifying service address ${email.from}`);
+      return false;
+    }
+
+    const subject = email.subject || '(no subject)';
+    const text = `Your email "${subject}" was not processed because ${quarantined.length === 1 ? 'an attachment was' : `${quarantined.length} attachments were`} flagged as malicious:
+
+${quarantined.map(file => `- ${file.filename}: ${file.threat}`).join('\n')}
+
+The flagged files have been quarantined and were not analyzed. If you believe this is a mistake, scan the files on your device and send them again, or reply to this email.`;
+
+    const html = `
+<html>
+<body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333;">
+  <h2 style="color: #DC2626;">🛡️ Attachment Blocked</h2>
+  <p>Your email <strong>${escapeHtml(subject)}</strong> was not processed because ${quarantined.length === 1 ? 'an attachment was' : `${quarantined.length} attachments were`} flagged as malicious:</p>
+  <ul>
+    ${quarantined.map(file => `<li><strong>${escapeHtml(file.filename)}</strong>: ${escapeHtml(file.threat)}</li>`).join('\n    ')}
+  </ul>
+  <p>The flagged files have been quarantined and were not analyzed. If you believe this is a mistake, scan the files on your device and send them again, or reply to this email.</p>
+</body>
+</html>`;
+
+    const sent = await sendMail({
+      from: process.env.POSTMARK_FROM_EMAIL || process.env.SERVICE_EMAIL,
+      to: [email.from],
+      subject: `🛡️ Attachment blocked: ${subject}`,
+      html,
+      text,
+    });
+
+    if (!sent) {
+      console.error(`❌ [MALWARE] Quarantine notice could not be mailed to ${email.from}`);
+    }
+    return sent;
+  }
+}
+
+export const malwareScanService = new MalwareScanService();
@@ -0,0 +1,22 @@
+import type { MalwareScanner, MalwareScanResult } from './types';
+
+// The EICAR anti-virus test file; harmless, but every scanner reports it
+const EICAR_SIGNATURE = 'X5O!P%@AP[4\\PZX54(P^)7CC)7}$EICAR-STANDARD-ANTIVIRUS-TEST-FILE!$H+H*';
+
+/**
+ * Local stand-in for a real scanner
+ * Only recognizes the EICAR test file, so the quarantine path can be exercised without clamd.
+ */
+export class StubScanner implements MalwareScanner {
+  readonly name = 'stub';
+
+  async scan(content: Buffer, _filename: string): Promise<MalwareScanResult> {
+    const infected = content.includes(EICAR_SIGNATURE);
+    return {
+      status: infected ? 'infected' : 'clean',
+      threat: infected ? 'Eicar-Test-Signature' : undefined,
+      scanner: this.name,
+      scannedAt: new Date().toISOString(),
+    };
+  }
+}
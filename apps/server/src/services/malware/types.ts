@@ -0,0 +1,22 @@
+/**
+ * Malware scanning provider interface shared by the scanner adapters
+ */
+
+export type MalwareScanStatus = 'clean' | 'infected' | 'error';
+
+export interface MalwareScanResult {
+  status: MalwareScanStatus;
+  scanner: string; // Provider that produced the verdict
+  threat?: string; // Signature name when infected
+  error?: string; // Why the file could not be scanned
+  scannedAt: string; // ISO timestamp
+}
+
+export interface MalwareScanner {
+  readonly name: string;
+  /**
+   * Scan one file. Providers report connection or protocol failures as an 'error'
+   * result instead of throwing, so callers can apply their fail-open/fail-closed policy.
+   */
+  scan(content: Buffer, filename: string): Promise<MalwareScanResult>;
+}
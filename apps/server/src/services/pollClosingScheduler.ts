@@ -0,0 +1,253 @@
+import { storage } from '../storage';
+import { sendMail } from './mailer';
+import { wsManager } from './websocketManager';
+import { escapeHtml } from '../utils/escape';
+import { describePollOutcome } from '../utils/pollTally';
+import type { Poll, PollResults } from '@email-task-router/shared';
+
+/**
+ * Poll closing scheduler
+ * Closes polls once they pass their expiry date, emails the final results to the
+ * original thread and notifies connected clients.
+ */
+export class PollClosingScheduler {
+  private static instance: PollClosingScheduler | null = null;
+  private timer: NodeJS.Timeout | null = null;
+  private isProcessing = false;
+  private checkInterval = 60 * 1000; // 1 minute
+
+  private pollyEmail = 'polly@inboxleap.com';
+
+  static getInstance(): PollClosingScheduler {
+    if (!PollClosingScheduler.instance) {
+      PollClosingScheduler.instance = new PollClosingScheduler();
+    }
+    return PollClosingScheduler.instance;
+  }
+
+  /**
+   * Start checking for expired polls
+   */
+  start(): void {
+    if (this.timer) {
+      console.log('🗳️ [POLL-SCHEDULER] Already running');
+      return;
+    }
+
+    console.log('🚀 [POLL-SCHEDULER] Starting poll closing scheduler');
+
+    this.closeExpiredPolls().catch(error => {
+      console.error('❌ [POLL-SCHEDULER] Initial check failed:', error);
+    });
+
+    this.timer = setInterval(() => {
+      this.closeExpiredPolls().catch(error => {
+        console.error('❌ [POLL-SCHEDULER] Scheduled check failed:', error);
+      });
+    }, this.checkInterval);
+
+    console.log(`✅ [POLL-SCHEDULER] Checking for expired polls every ${this.checkInterval / 1000} seconds`);
+  }
+
+  /**
+   * Stop the scheduler
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+      console.log('🛑 [POLL-SCHEDULER] Poll closing scheduler stopped');
+    }
+  }
+
+  /**
+   * Close every active poll whose expiry date has passed.
+   * Returns the ids of the polls closed by this run.
+   */
+  async closeExpiredPolls(now: Date = new Date()): Promise<number[]> {
+    if (this.isProcessing) {
+      console.log('⏸️ [POLL-SCHEDULER] Already processing, skipping this cycle');
+      return [];
+    }
+
+    this.isProcessing = true;
+    const closedPollIds: number[] = [];
+
+    try {
+      const expiredPolls = await storage.getExpiredActivePolls(now);
+      for (const expiredPoll of expiredPolls) {
+        try {
+          if (await this.closePoll(expiredPoll)) {
+            closedPollIds.push(expiredPoll.id);
+          }
+        } catch (error) {
+          console.error(`❌ [POLL-SCHEDULER] Failed to close poll ${expiredPoll.id}:`, error);
+        }
+      }
+
+      if (closedPollIds.length > 0) {
+        console.log(`🗳️ [POLL-SCHEDULER] Closed ${closedPollIds.length} expired poll(s): ${closedPollIds.join(', ')}`);
+      }
+    } finally {
+      this.isProcessing = false;
+    }
+
+    return closedPollIds;
+  }
+
+  /**
+   * Close a single poll and announce its results.
+   * Returns false when another worker already closed it.
+   */
+  async closePoll(poll: Poll): Promise<boolean> {
+    const closedPoll = await storage.closePoll(poll.id);
+    if (!closedPoll) {
+      return false;
+    }
+
+    const results = await storage.getPollResults(closedPoll.id);
+    if (!results) {
+      throw new Error(`Could not tally poll ${closedPoll.id}`);
+    }
+
+    try {
+      await this.sendResultsEmail(closedPoll, results);
+    } catch (error) {
+      // The poll stays closed; a failed summary email must not reopen voting
+      console.error(`❌ [POLL-SCHEDULER] Failed to send results for poll ${closedPoll.id}:`, error);
+    }
+
+    await this.broadcastPollClosed(closedPoll, results);
+    return true;
+  }
+
+  /**
+   * Reply to the thread the poll was created from with the final tally
+   */
+  private async sendResultsEmail(poll: Poll, results: PollResults): Promise<void> {
+    const recipients = (poll.participantEmails || []).filter(addr => !addr.toLowerCase().includes('polly@'));
+    if (recipients.length === 0) {
+      console.log(`🗳️ [POLL-SCHEDULER] Poll ${poll.id} has no recipients for results`);
+      return;
+    }
+
+    const pollLink = `${process.env.DASHBOARD_URL || process.env.APP_URL || 'https://inboxleap.com'}/teams/polly?poll=${poll.id}`;
+    const outcome = describePollOutcome(results);
+    const isMultipleChoice = poll.type === 'multiple_choice';
+    const originalSubject = poll.sourceEmailSubject || poll.title;
+    const subject = /^re:/i.test(originalSubject) ? originalSubject : `Re: ${originalSubject}`;
+
+    const resultRows = results.options.map((option, index) => {
+      const isLeading = results.totalVotes > 0 && results.leadingOptionIds.includes(option.id);
+      return `
+      <tr${isLeading ? ' class="leading"' : ''}>
+        <td>${String.fromCharCode(65 + index)}. ${escapeHtml(option.text)}${isLeading ? ' 🏆' : ''}</td>
+        <td style="text-align: right;">${option.votes}</td>
+        <td style="text-align: right;">${option.percentage}%</td>
+      </tr>`;
+    }).join('');
+
+    const resultLines = results.options
+      .map((option, index) => `${String.fromCharCode(65 + index)}. ${option.text}: ${option.votes} (${option.percentage}%)`)
+      .join('\n');
+
+    const htmlContent = `
+<!DOCTYPE html>
+<html>
+<head>
+  <style>
+    body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px; }
+    .header { background: #6366f1; color: white; padding: 20px; border-radius: 8px 8px 0 0; text-align: center; }
+    .content { background: #f9fafb; padding: 30px; border-radius: 0 0 8px 8px; }
+    .poll-question { font-size: 20px; font-weight: bold; margin: 20px 0; color: #1f2937; }
+    .outcome { background: #e0e7ff; border: 1px solid #6366f1; padding: 15px; border-radius: 6px; margin: 15px 0; }
+    table { width: 100%; border-collapse: collapse; background: white; border: 1px solid #e5e7eb; }
+    td { padding: 8px 12px; border-bottom: 1px solid #e5e7eb; }
+    .leading td { font-weight: bold; }
+    .results-button { display: inline-block; background: #6366f1; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; margin: 15px 0; }
+  </style>
+</head>
+<body>
+  <div class="header">
+    <h1>🗳️ Poll Closed</h1>
+  </div>
+
+  <div class="content">
+    <div class="poll-question">
+      ${escapeHtml(poll.title)}
+    </div>
+
+    <div class="outcome">
+      <strong>Result:</strong> ${escapeHtml(outcome)}
+    </div>
+
+    <table>
+      ${resultRows}
+    </table>
+
+    <p>${results.uniqueVoters} participant${results.uniqueVoters === 1 ? '' : 's'} voted.${isMultipleChoice ? ' Voters could pick more than one option, so percentages may add up to more than 100%.' : ''}</p>
+
+    <div style="text-align: center;">
+      <a href="${pollLink}" class="results-button">View Full Results</a>
+    </div>
+  </div>
+</body>
+</html>`;
+
+    const textContent = `Poll closed: ${poll.title}
+
+Result: ${outcome}
+
+${resultLines}
+
+${results.uniqueVoters} participant(s) voted.${isMultipleChoice ? ' Voters could pick more than one option.' : ''}
+
+View full results: ${pollLink}`;
+
+    await sendMail({
+      from: this.pollyEmail,
+      to: recipients,
+      subject,
+      text: textContent,
+      html: htmlContent,
+      replyTo: this.pollyEmail,
+      inReplyTo: poll.emailMessageId || undefined,
+      references: poll.emailMessageId ? [poll.emailMessageId] : undefined,
+    });
+
+    console.log(`📧 [POLL-SCHEDULER] Sent results for poll ${poll.id} to ${recipients.length} recipient(s)`);
+  }
+
+  /**
+   * Notify the creator, invited participants and voters that the poll has closed
+   */
+  private async broadcastPollClosed(poll: Poll, results: PollResults): Promise<void> {
+    const userIds = new Set<string>([poll.createdBy]);
+
+    const votes = await storage.getPollVotes(poll.id);
+    votes.forEach(vote => userIds.add(vote.userId));
+
+    for (const email of poll.participantEmails || []) {
+      const user = await storage.getUserByEmail(email);
+      if (user) userIds.add(user.id);
+    }
+
+    if (poll.projectId) {
+      const participants = await storage.getProjectParticipants(poll.projectId);
+      participants.forEach(p => userIds.add(p.userId));
+    }
+
+    wsManager.broadcastToUsers({
+      type: 'poll_closed',
+      data: {
+        pollId: poll.id,
+        title: poll.title,
+        closedAt: poll.closedAt,
+        outcome: describePollOutcome(results),
+        results,
+      }
+    }, Array.from(userIds));
+  }
+}
+
+export const pollClosingScheduler = PollClosingScheduler.getInstance();
@@ -0,0 +1,67 @@
+import os from 'os';
+import type { EmailData } from '../email/types';
+
+/**
+ * Helpers shared by the database-backed queues (EmailQueueService and BatchProcessingQueue)
+ */
+
+export interface BackoffOptions {
+  baseDelayMs: number;
+  maxDelayMs: number;
+  jitterRatio?: number; // Up to this fraction of the delay is added at random, to spread out retries
+}
+
+/**
+ * Exponential backoff for the given attempt number (1 = first failure)
+ */
+export function calculateBackoffDelay(attempt: number, options: BackoffOptions, random: () => number = Math.random): number {
+  const exponent = Math.max(0, attempt - 1);
+  const delay = Math.min(options.maxDelayMs, options.baseDelayMs * Math.pow(2, exponent));
+  const jitter = delay * (options.jitterRatio ?? 0) * random();
+  return Math.round(Math.min(options.maxDelayMs, delay + jitter));
+}
+
+/**
+ * Whether a job has used up its attempts and belongs in the dead-letter state
+ */
+export function hasExhaustedAttempts(job: { attempts: number; maxAttempts: number }): boolean {
+  return job.attempts >= job.maxAttempts;
+}
+
+/**
+ * Identifies this process when it locks jobs, so a restarted server can tell its locks apart
+ */
+export function createWorkerId(queue: string): string {
+  return `${queue}:${os.hostname()}:${process.pid}:${Math.random().toString(36).substr(2, 6)}`;
+}
+
+/**
+ * EmailData as stored in a job's JSONB payload (attachments as base64, dates as ISO strings)
+ */
+export type SerializedEmailData = Omit<EmailData, 'date' | 'attachments'> & {
+  date: string;
+  attachments?: Array<Omit<NonNullable<EmailData['attachments']>[number], 'content'> & { content: string }>;
+};
+
+export function serializeEmailData(email: EmailData): SerializedEmailData {
+  const date = email.date instanceof Date ? email.date : new Date(email.date ?? Date.now());
+  return {
+    ...email,
+    date: date.toISOString(),
+    attachments: email.attachments?.map(attachment => ({
+      ...attachment,
+      content: Buffer.from(attachment.content ?? []).toString('base64'),
+    })),
+  };
+}
+
+export function deserializeEmailData(payload: SerializedEmailData): EmailData {
+  return {
+    ...payload,
+    date: new Date(payload.date),
+    attachments: payload.attachments?.map(attachment => ({
+      ...attachment,
+      content: Buffer.from(attachment.content, 'base64'),
+    })),
+  };
+}
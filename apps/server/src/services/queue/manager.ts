@@ -1,57 +1,96 @@
 import { EventEmitter } from 'events';
-import type { QueuedEmail } from './types';
+import { storage } from '../../storage';
+import type { EmailQueueJob } from '@email-task-router/shared';
+import { EMAIL_QUEUES, type QueuedEmail } from './types';
+import { isAiBudgetExceeded } from '../aiUsage/aiUsageService';
+import {
+  calculateBackoffDelay,
+  createWorkerId,
+  deserializeEmailData,
+  hasExhaustedAttempts,
+  serializeEmailData,
+  type SerializedEmailData,
+} from './jobUtils';
+
+interface EmailJobPayload {
+  email: SerializedEmailData;
+  userId: string;
+}
 
 export class QueueManager extends EventEmitter {
-  private queue: QueuedEmail[] = [];
+  protected queueName: string = EMAIL_QUEUES.email;
+  private workerId: string;
   private processing: boolean = false;
+  private claiming: boolean = false;
   private maxConcurrentJobs: number = 3;
   private currentJobs: number = 0;
   private maxRetries: number = 3;
-  private retryDelay: number = 5000; // 5 seconds
+  private retryDelay: number = 5000; // 5 seconds, doubled on each attempt
+  private maxRetryDelay: number = 10 * 60 * 1000; // 10 minutes
+  private visibilityTimeout: number = 5 * 60 * 1000; // Another worker may reclaim a job after 5 minutes without a heartbeat
+  private pollInterval: number = 2000;
+  private completedRetention: number = 24 * 60 * 60 * 1000; // Keep completed jobs for a day
+  private pollTimer: NodeJS.Timeout | null = null;
+  private cleanupTimer: NodeJS.Timeout | null = null;
 
   constructor() {
     super();
+    this.workerId = createWorkerId(this.queueName);
     console.log('🚀 Initializing Queue Manager...');
-    console.log(`📊 Configuration: maxConcurrentJobs=${this.maxConcurrentJobs}, maxRetries=${this.maxRetries}`);
+    console.log(`📊 Configuration: maxConcurrentJobs=${this.maxConcurrentJobs}, maxRetries=${this.maxRetries}, visibilityTimeout=${this.visibilityTimeout}ms`);
   }
 
   /**
-   * Start the queue processing system
+   * Start the queue processing system. Jobs persisted before a restart
+   * (queued, backing off, or abandoned mid-processing) are picked up again.
    */
   startProcessing(): void {
-    console.log('📬 Queue manager started');
+    if (this.processing) {
+      return;
+    }
+
     this.processing = true;
+    console.log(`📬 Queue manager started (worker ${this.workerId})`);
+
+    this.pollTimer = setInterval(() => {
+      this.processNext();
+    }, this.pollInterval);
+
+    this.cleanupTimer = setInterval(() => {
+      this.cleanupQueue();
+    }, 60 * 60 * 1000); // Hourly
+
+    this.processNext();
   }
 
   /**
    * Add an email to the processing queue
    */
   async addToQueue(email: import('../email/types').EmailData, userId: string): Promise<string> {
-    const queueId = `email_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-    
-    const queuedEmail: QueuedEmail = {
-      id: queueId,
-      email,
+    const payload: EmailJobPayload = { email: serializeEmailData(email), userId };
+
+    const job = await storage.createEmailQueueJob({
+      queue: this.queueName,
+      payload,
       userId,
-      timestamp: new Date(),
-      status: 'queued',
-      retryCount: 0,
-    };
+      messageId: email.messageId,
+      subject: email.subject,
+      sender: email.from,
+      maxAttempts: this.maxRetries,
+    });
+    const queueId = String(job.id);
 
-    this.queue.push(queuedEmail);
-    
     console.log(`📧 [QUEUE] Email queued for processing:`);
     console.log(`   📨 Subject: "${email.subject}"`);
     console.log(`   👤 User: ${userId}`);
     console.log(`   🆔 Queue ID: ${queueId}`);
-    console.log(`   📊 Queue size: ${this.queue.length} items`);
-    
+
     // Emit event for real-time updates
     this.emit('emailQueued', {
       queueId,
       subject: email.subject,
       from: email.from,
-      timestamp: queuedEmail.timestamp,
+      timestamp: job.createdAt,
     });
 
     // Try to process if not at capacity
@@ -61,109 +100,142 @@ export class QueueManager extends EventEmitter {
   }
 
   /**
-   * Process the next email in the queue if capacity allows
+   * Claim as many runnable jobs as there are free slots and start them
    */
   async processNext(): Promise<void> {
-    if (this.currentJobs >= this.maxConcurrentJobs) {
-      console.log(`⏸️  [QUEUE] At capacity (${this.currentJobs}/${this.maxConcurrentJobs}), waiting...`);
+    if (!this.processing || this.claiming) {
+      return;
+    }
+
+    const freeSlots = this.maxConcurrentJobs - this.currentJobs;
+    if (freeSlots <= 0) {
       return; // At capacity
     }
 
-    const nextEmail = this.queue.find(item => item.status === 'queued');
-    if (!nextEmail) {
-      const queuedCount = this.queue.filter(item => item.status === 'queued').length;
-      if (queuedCount === 0) {
-        console.log(`📭 [QUEUE] No emails in queue to process`);
-      }
-      return; // No queued emails
+    this.claiming = true;
+    let jobs: EmailQueueJob[] = [];
+    try {
+      jobs = await storage.claimEmailQueueJobs(this.queueName, this.workerId, freeSlots, this.visibilityTimeout);
+    } catch (error) {
+      console.error('❌ [QUEUE] Failed to claim jobs:', error);
+    } finally {
+      this.claiming = false;
     }
 
-    // Mark as processing
-    nextEmail.status = 'processing';
-    this.currentJobs++;
+    for (const job of jobs) {
+      this.currentJobs++;
+      this.runJob(job).finally(() => {
+        this.currentJobs--;
+        setImmediate(() => {
+          this.processNext();
+        });
+      });
+    }
+  }
+
+  /**
+   * Run one claimed job and record the outcome: completed, retried with backoff, or dead-lettered
+   */
+  private async runJob(job: EmailQueueJob): Promise<void> {
+    const queuedEmail = this.toQueuedEmail(job);
+
+    // A job reclaimed after its visibility timeout may already have used its last attempt
+    if (job.attempts > job.maxAttempts) {
+      await this.deadLetter(queuedEmail, job.lastError || 'Visibility timeout expired on final attempt');
+      return;
+    }
 
     console.log(`🔄 [QUEUE] Processing email:`);
-    console.log(`   📨 Subject: "${nextEmail.email.subject}"`);
-    console.log(`   👤 User: ${nextEmail.userId}`);
+    console.log(`   📨 Subject: "${queuedEmail.email.subject}"`);
+    console.log(`   👤 User: ${queuedEmail.userId}`);
+    console.log(`   🔢 Attempt: ${job.attempts}/${job.maxAttempts}`);
     console.log(`   📊 Slots: ${this.currentJobs}/${this.maxConcurrentJobs} used`);
-    console.log(`   🕐 Started at: ${new Date().toLocaleTimeString()}`);
 
-    // Emit processing started event
     this.emit('emailProcessingStarted', {
-      queueId: nextEmail.id,
-      subject: nextEmail.email.subject,
+      queueId: queuedEmail.id,
+      subject: queuedEmail.email.subject,
     });
 
+    // Keep the job invisible to other workers while it is still running
+    const heartbeat = setInterval(() => {
+      storage.extendEmailQueueJobLock(job.id, this.workerId, this.visibilityTimeout).catch(error => {
+        console.error(`❌ [QUEUE] Failed to extend lock for job ${job.id}:`, error);
+      });
+    }, this.visibilityTimeout / 2);
+
     const startTime = Date.now();
 
     try {
-      // Process the email (this will be handled by the main service)
-      await this.processEmailInternal(nextEmail);
-      nextEmail.status = 'completed';
-      
-      const duration = Date.now() - startTime;
+      await this.processEmailInternal(queuedEmail);
+      await storage.completeEmailQueueJob(job.id, this.workerId);
+
       console.log(`✅ [QUEUE] Email processed successfully:`);
-      console.log(`   📨 Subject: "${nextEmail.email.subject}"`);
-      console.log(`   ⏱️  Duration: ${duration}ms`);
-      
-      // Emit completion event
+      console.log(`   📨 Subject: "${queuedEmail.email.subject}"`);
+      console.log(`   ⏱️  Duration: ${Date.now() - startTime}ms`);
+
       this.emit('emailProcessingCompleted', {
-        queueId: nextEmail.id,
-        subject: nextEmail.email.subject,
+        queueId: queuedEmail.id,
+        subject: queuedEmail.email.subject,
       });
-
     } catch (error) {
-      const duration = Date.now() - startTime;
+      const errorMessage = error instanceof Error ? error.message : String(error);
       console.error(`❌ [QUEUE] Error processing email:`);
-      console.error(`   📨 Subject: "${nextEmail.email.subject}"`);
-      console.error(`   ⏱️  Duration: ${duration}ms`);
+      console.error(`   📨 Subject: "${queuedEmail.email.subject}"`);
+      console.error(`   ⏱️  Duration: ${Date.now() - startTime}ms`);
       console.error(`   🚨 Error:`, error);
-      
-      nextEmail.retryCount++;
-      nextEmail.error = error instanceof Error ? error.message : String(error);
 
-      if (nextEmail.retryCount < this.maxRetries) {
-        // Retry after delay
-        nextEmail.status = 'queued';
-        console.log(`🔄 [QUEUE] Retrying email processing:`);
-        console.log(`   📨 Subject: "${nextEmail.email.subject}"`);
-        console.log(`   🔢 Attempt: ${nextEmail.retryCount + 1}/${this.maxRetries}`);
-        console.log(`   ⏰ Retry in: ${this.retryDelay}ms`);
-        
-        setTimeout(() => {
-          this.processNext();
-        }, this.retryDelay);
+      // A retry cannot succeed before the month ends or the budget is raised; the job can be
+      // replayed from the dead-letter queue then
+      if (isAiBudgetExceeded(error)) {
+        console.warn(`💸 [QUEUE] AI budget exhausted, not retrying "${queuedEmail.email.subject}"`);
+        await this.deadLetter(queuedEmail, errorMessage);
+      } else if (hasExhaustedAttempts(job)) {
+        await this.deadLetter(queuedEmail, errorMessage);
       } else {
-        // Max retries reached
-        nextEmail.status = 'failed';
-        console.log(`💀 [QUEUE] Email processing failed permanently:`);
-        console.log(`   📨 Subject: "${nextEmail.email.subject}"`);
-        console.log(`   🔢 Failed after: ${this.maxRetries} attempts`);
-        
-        // Emit failure event
-        this.emit('emailProcessingFailed', {
-          queueId: nextEmail.id,
-          subject: nextEmail.email.subject,
-          error: nextEmail.error,
+        const delay = calculateBackoffDelay(job.attempts, {
+          baseDelayMs: this.retryDelay,
+          maxDelayMs: this.maxRetryDelay,
+          jitterRatio: 0.2,
         });
+        await storage.retryEmailQueueJob(job.id, this.workerId, new Date(Date.now() + delay), errorMessage);
+
+        console.log(`🔄 [QUEUE] Retrying email processing:`);
+        console.log(`   📨 Subject: "${queuedEmail.email.subject}"`);
+        console.log(`   🔢 Next attempt: ${job.attempts + 1}/${job.maxAttempts}`);
+        console.log(`   ⏰ Retry in: ${delay}ms`);
       }
     } finally {
-      this.currentJobs--;
-      
-      console.log(`📊 [QUEUE] Slot freed. Current usage: ${this.currentJobs}/${this.maxConcurrentJobs}`);
-      
-      // Clean up completed/failed items from queue after some time
-      setTimeout(() => {
-        this.cleanupQueue();
-      }, 60000); // Clean up after 1 minute
-
-      // Try to process next item
-      setImmediate(() => {
-        this.processNext();
-      });
+      clearInterval(heartbeat);
     }
   }
 
+  private async deadLetter(queuedEmail: QueuedEmail, errorMessage: string): Promise<void> {
+    await storage.deadLetterEmailQueueJob(Number(queuedEmail.id), this.workerId, errorMessage);
+
+    console.log(`💀 [QUEUE] Email moved to dead-letter queue:`);
+    console.log(`   📨 Subject: "${queuedEmail.email.subject}"`);
+    console.log(`   🔢 Failed after: ${queuedEmail.retryCount + 1} attempts`);
+
+    this.emit('emailProcessingFailed', {
+      queueId: queuedEmail.id,
+      subject: queuedEmail.email.subject,
+      error: errorMessage,
+    });
+  }
+
+  private toQueuedEmail(job: EmailQueueJob): QueuedEmail {
+    const payload = job.payload as EmailJobPayload;
+    return {
+      id: String(job.id),
+      email: deserializeEmailData(payload.email),
+      userId: payload.userId,
+      timestamp: job.createdAt,
+      status: job.status as QueuedEmail['status'],
+      retryCount: Math.max(0, job.attempts - 1),
+      error: job.lastError || undefined,
+    };
+  }
+
   /**
    * Process email - to be overridden by the main service
    */
@@ -175,69 +247,60 @@ export class QueueManager extends EventEmitter {
   /**
    * Get current queue status
    */
-  getQueueStatus() {
-    const queued = this.queue.filter(item => item.status === 'queued').length;
-    const processing = this.queue.filter(item => item.status === 'processing').length;
-    const completed = this.queue.filter(item => item.status === 'completed').length;
-    const failed = this.queue.filter(item => item.status === 'failed').length;
+  async getQueueStatus() {
+    const counts = await storage.getEmailQueueJobCounts(this.queueName);
 
     return {
-      queued,
-      processing,
-      completed,
-      failed,
+      queued: counts.queued,
+      processing: counts.processing,
+      completed: counts.completed,
+      failed: counts.dead_letter,
       currentJobs: this.currentJobs,
       maxConcurrentJobs: this.maxConcurrentJobs,
-      totalInQueue: this.queue.length,
+      totalInQueue: counts.queued + counts.processing,
     };
   }
 
   /**
    * Get queue history (recent items)
    */
-  getQueueHistory(limit: number = 50) {
-    return this.queue
-      .slice(-limit)
-      .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime())
-      .map(item => ({
-        id: item.id,
-        subject: item.email.subject,
-        from: item.email.from,
-        status: item.status,
-        timestamp: item.timestamp,
-        retryCount: item.retryCount,
-        error: item.error,
-      }));
+  async getQueueHistory(limit: number = 50) {
+    const jobs = await storage.getRecentEmailQueueJobs(this.queueName, limit);
+    return jobs.map(job => ({
+      id: String(job.id),
+      subject: job.subject,
+      from: job.sender,
+      status: job.status,
+      timestamp: job.createdAt,
+      retryCount: Math.max(0, job.attempts - 1),
+      error: job.lastError,
+    }));
   }
 
   /**
-   * Clean up old completed/failed items from queue
+   * Clean up old completed jobs; dead-lettered jobs are kept for inspection
    */
-  private cleanupQueue(): void {
-    const oneHourAgo = new Date(Date.now() - 60 * 60 * 1000);
-    const beforeCount = this.queue.length;
-    
-    this.queue = this.queue.filter(item => {
-      // Keep if still processing or queued
-      if (item.status === 'processing' || item.status === 'queued') {
-        return true;
-      }
-      
-      // Keep if completed/failed within the last hour
-      return item.timestamp > oneHourAgo;
-    });
-
-    const afterCount = this.queue.length;
-    if (beforeCount !== afterCount) {
-      console.log(`🧹 Cleaned up ${beforeCount - afterCount} old queue items`);
+  private async cleanupQueue(): Promise<void> {
+    const removed = await storage.deleteCompletedEmailQueueJobs(new Date(Date.now() - this.completedRetention));
+    if (removed > 0) {
+      console.log(`🧹 Cleaned up ${removed} old queue items`);
     }
   }
 
   /**
-   * Stop the queue service
+   * Stop the queue service. Jobs still running keep their lock until the visibility
+   * timeout lapses, after which any worker can pick them up again.
    */
   stop(): void {
     this.processing = false;
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+    if (this.cleanupTimer) {
+      clearInterval(this.cleanupTimer);
+      this.cleanupTimer = null;
+    }
     console.log('📬 Queue manager stopped');
   }
 }
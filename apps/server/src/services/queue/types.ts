@@ -1,12 +1,24 @@
 // Re-export canonical email types to keep consistency across services
 export type { EmailData, EmailAttachment } from '../email/types';
+import type { EmailQueueJobStatus } from '@email-task-router/shared';
 
 export interface QueuedEmail {
-  id: string;
+  id: string; // email_queue_jobs.id
   email: import('../email/types').EmailData;
   userId: string;
   timestamp: Date;
-  status: 'queued' | 'processing' | 'completed' | 'failed';
-  retryCount: number;
+  status: EmailQueueJobStatus;
+  retryCount: number; // Attempts made before the current one
   error?: string;
 }
+
+/**
+ * Names of the queues that share the email_queue_jobs table
+ */
+export const EMAIL_QUEUES = {
+  email: 'email',
+  t5tBatch: 't5t_batch',
+  s3Backup: 's3_backup', // Dead-letter records for raw emails parked under failed-emails/ in S3
+} as const;
+
+export type EmailQueueName = typeof EMAIL_QUEUES[keyof typeof EMAIL_QUEUES];
@@ -0,0 +1,166 @@
+import { storage } from '../storage';
+import { wsManager } from './websocketManager';
+import { nextOccurrence } from '../utils/recurrence';
+import { isTaskOpen } from '../utils/taskDependencies';
+import type { Task, TaskRecurrenceRule } from '@email-task-router/shared';
+
+// Upper bound on occurrences skipped in one step, so a broken rule cannot loop forever
+const MAX_SKIPPED_OCCURRENCES = 1000;
+
+/**
+ * Recurring task scheduler
+ * Materializes the next occurrence of a recurring task when the current one is completed
+ * or when its due date passes (the next occurrence's window has opened), whichever comes
+ * first. Each occurrence is followed up exactly once.
+ */
+export class RecurringTaskScheduler {
+  private static instance: RecurringTaskScheduler | null = null;
+  private timer: NodeJS.Timeout | null = null;
+  private isProcessing = false;
+  private checkInterval = 5 * 60 * 1000; // 5 minutes
+
+  static getInstance(): RecurringTaskScheduler {
+    if (!RecurringTaskScheduler.instance) {
+      RecurringTaskScheduler.instance = new RecurringTaskScheduler();
+    }
+    return RecurringTaskScheduler.instance;
+  }
+
+  /**
+   * Start checking for recurring tasks whose next window has opened
+   */
+  start(): void {
+    if (this.timer) {
+      console.log('🔁 [RECURRING-TASKS] Already running');
+      return;
+    }
+
+    console.log('🚀 [RECURRING-TASKS] Starting recurring task scheduler');
+
+    this.generateDueOccurrences().catch(error => {
+      console.error('❌ [RECURRING-TASKS] Initial check failed:', error);
+    });
+
+    this.timer = setInterval(() => {
+      this.generateDueOccurrences().catch(error => {
+        console.error('❌ [RECURRING-TASKS] Scheduled check failed:', error);
+      });
+    }, this.checkInterval);
+
+    console.log(`✅ [RECURRING-TASKS] Checking for due recurring tasks every ${this.checkInterval / 1000} seconds`);
+  }
+
+  /**
+   * Stop the scheduler
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+      console.log('🛑 [RECURRING-TASKS] Recurring task scheduler stopped');
+    }
+  }
+
+  /**
+   * Create the next occurrence of every recurring task that is past its due date.
+   * Returns the occurrences created by this run.
+   */
+  async generateDueOccurrences(now: Date = new Date()): Promise<Task[]> {
+    if (this.isProcessing) {
+      console.log('⏸️ [RECURRING-TASKS] Already processing, skipping this cycle');
+      return [];
+    }
+
+    this.isProcessing = true;
+    const created: Task[] = [];
+
+    try {
+      const dueTasks = await storage.getRecurringTasksDue(now);
+      for (const task of dueTasks) {
+        try {
+          const occurrence = await this.materializeNextOccurrence(task, now);
+          if (occurrence) created.push(occurrence);
+        } catch (error) {
+          console.error(`❌ [RECURRING-TASKS] Failed to follow up task ${task.id}:`, error);
+        }
+      }
+
+      if (created.length > 0) {
+        console.log(`🔁 [RECURRING-TASKS] Created ${created.length} occurrence(s): ${created.map(task => task.id).join(', ')}`);
+      }
+    } finally {
+      this.isProcessing = false;
+    }
+
+    return created;
+  }
+
+  /**
+   * Follow up a recurring task once it is completed. Resolves to the new occurrence, if any.
+   */
+  async handleStatusChange(task: Task, now: Date = new Date()): Promise<Task | undefined> {
+    if (!task.recurrenceRule || task.recurrenceProcessedAt || isTaskOpen(task.status)) return undefined;
+    return this.materializeNextOccurrence(task, now);
+  }
+
+  /**
+   * Create the occurrence after `task`, skipping any that would already be overdue.
+   * Returns undefined when the series has ended or the occurrence already exists.
+   */
+  async materializeNextOccurrence(task: Task, now: Date = new Date()): Promise<Task | undefined> {
+    if (!task.recurrenceRule) return undefined;
+
+    const previousDate = task.dueDate || task.createdAt || now;
+    const rule = this.pinRule(task.recurrenceRule, previousDate);
+
+    let index = task.recurrenceIndex || 1;
+    let dueDate = nextOccurrence(rule, previousDate, index);
+    for (let skipped = 0; dueDate && dueDate <= now && skipped < MAX_SKIPPED_OCCURRENCES; skipped++) {
+      index++;
+      dueDate = nextOccurrence(rule, dueDate, index);
+    }
+
+    if (!dueDate) {
+      console.log(`🔁 [RECURRING-TASKS] Series of task ${task.id} "${task.title}" has ended`);
+      await storage.updateTask(task.id, { recurrenceProcessedAt: now });
+      return undefined;
+    }
+
+    const occurrence = await storage.createTaskOccurrence(task.id, {
+      projectId: task.projectId,
+      title: task.title,
+      description: task.description,
+      priority: task.priority,
+      status: 'pending',
+      dueDate,
+      sourceEmail: task.sourceEmail,
+      sourceEmailSubject: task.sourceEmailSubject,
+      createdBy: task.createdBy,
+      companyId: task.companyId,
+      recurrenceRule: rule,
+      recurrenceSeriesId: task.recurrenceSeriesId || task.id,
+      recurrenceIndex: index + 1,
+    });
+    if (!occurrence) return undefined;
+
+    console.log(`🔁 [RECURRING-TASKS] Task ${task.id} "${task.title}" -> occurrence ${occurrence.id} due ${dueDate.toISOString()}`);
+
+    await wsManager.broadcastToProjectUsers({
+      type: 'tasks_created',
+      data: { projectId: occurrence.projectId, tasks: [occurrence] }
+    }, occurrence.projectId);
+
+    return occurrence;
+  }
+
+  /**
+   * Monthly rules without a day keep the day of the occurrence they started from, so a series
+   * starting on the 31st does not drift to the 28th after February
+   */
+  private pinRule(rule: TaskRecurrenceRule, previousDate: Date): TaskRecurrenceRule {
+    if (rule.frequency !== 'monthly' || rule.byMonthDay) return rule;
+    return { ...rule, byMonthDay: previousDate.getUTCDate() };
+  }
+}
+
+export const recurringTaskScheduler = RecurringTaskScheduler.getInstance();
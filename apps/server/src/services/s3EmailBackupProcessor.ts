@@ -4,7 +4,10 @@ import { EmailData, EmailAttachment } from '../types/interfaces.js';
 import { emailService } from './emailService.js';
 import { storage } from '../storage.js';
 import { getOrCreateUserByEmail } from './userService.js';
+import { malwareScanService } from './malware/malwareScanService.js';
 import { wsManager } from './websocketManager.js';
+import { serializeEmailData } from './queue/jobUtils.js';
+import { EMAIL_QUEUES } from './queue/types.js';
 
 interface S3EmailObject {
   Key: string;
@@ -26,6 +29,12 @@ interface AgentRouting {
   };
 }
 
+export interface S3ProcessingResult {
+  success: boolean;
+  error?: string;
+  email?: EmailData;
+}
+
 export class S3EmailBackupProcessor {
   private s3Client: S3Client;
   private bucketName: string;
@@ -157,14 +166,14 @@ export class S3EmailBackupProcessor {
 
           // Process the email
           console.log(`🔄 [S3-BACKUP] Processing email: ${emailObj.Key}`);
-          const success = await this.processSingleEmail(emailObj);
+          const result = await this.processSingleEmail(emailObj.Key);
           
-          if (success) {
+          if (result.success) {
             await this.moveToProcessed(emailObj.Key);
             processedCount++;
             console.log(`✅ [S3-BACKUP] Successfully processed: ${emailObj.Key}`);
           } else {
-            await this.moveToFailed(emailObj.Key);
+            await this.moveToFailed(emailObj.Key, result.error || 'Unknown error', result.email);
             failedCount++;
             console.log(`❌ [S3-BACKUP] Failed to process: ${emailObj.Key}`);
           }
@@ -174,7 +183,7 @@ export class S3EmailBackupProcessor {
 
         } catch (error) {
           console.error(`❌ [S3-BACKUP] Error processing ${emailObj.Key}:`, error);
-          await this.moveToFailed(emailObj.Key);
+          await this.moveToFailed(emailObj.Key, error instanceof Error ? error.message : String(error));
           failedCount++;
         }
       }
@@ -247,59 +256,81 @@ export class S3EmailBackupProcessor {
   /**
    * Process a single email from S3
    */
-  private async processSingleEmail(emailObj: S3EmailObject): Promise<boolean> {
+  private async processSingleEmail(key: string): Promise<S3ProcessingResult> {
+    let emailData: EmailData | null = null;
+
     try {
-      console.log(`🔄 [S3-BACKUP] Starting to process email: ${emailObj.Key}`);
+      console.log(`🔄 [S3-BACKUP] Starting to process email: ${key}`);
       
       // Get email content from S3
-      const rawEmail = await this.getEmailFromS3(emailObj.Key);
+      const rawEmail = await this.getEmailFromS3(key);
       if (!rawEmail) {
-        console.error(`❌ [S3-BACKUP] Could not get email content: ${emailObj.Key}`);
-        return false;
+        console.error(`❌ [S3-BACKUP] Could not get email content: ${key}`);
+        return { success: false, error: 'Could not get email content from S3' };
       }
 
       console.log(`📥 [S3-BACKUP] Retrieved raw email from S3, size: ${rawEmail.length} bytes`);
 
       // Parse email
-      const parsed = await simpleParser(rawEmail);
-      console.log(`🔍 [S3-BACKUP] Email parsed by mailparser. Message ID: ${parsed.messageId}`);
-      
-      const emailData = await this.parseEmailToEmailData(parsed);
+      emailData = await this.parseRawEmail(rawEmail);
       
       if (!emailData) {
-        console.error(`❌ [S3-BACKUP] Could not parse email to EmailData: ${emailObj.Key}`);
-        return false;
+        console.error(`❌ [S3-BACKUP] Could not parse email to EmailData: ${key}`);
+        return { success: false, error: 'Could not parse email' };
       }
 
       // Validate that we have essential email data
       if (!emailData.from) {
-        console.error(`❌ [S3-BACKUP] Email missing sender information: ${emailObj.Key}`);
-        return false;
+        console.error(`❌ [S3-BACKUP] Email missing sender information: ${key}`);
+        return { success: false, error: 'Email missing sender information', email: emailData };
       }
 
       if (emailData.to.length === 0 && emailData.cc.length === 0 && emailData.bcc.length === 0) {
-        console.error(`❌ [S3-BACKUP] Email missing all recipient information: ${emailObj.Key}`);
-        return false;
+        console.error(`❌ [S3-BACKUP] Email missing all recipient information: ${key}`);
+        return { success: false, error: 'Email missing all recipient information', email: emailData };
       }
 
       console.log(`✅ [S3-BACKUP] Email validation passed - From: ${emailData.from}, Recipients: ${emailData.to.length + emailData.cc.length + emailData.bcc.length}`);
 
+      // Scan attachments before any agent sees them; quarantined emails are done here
+      const screenedEmail = await malwareScanService.screenEmail(emailData);
+      if (!screenedEmail) {
+        console.log(`🛡️ [S3-BACKUP] Email quarantined, not routing: ${key}`);
+        return { success: true, email: emailData };
+      }
+      emailData = screenedEmail;
+
       // Route email to appropriate agent/processor
       await this.routeAndProcessEmail(emailData);
       
-      console.log(`✅ [S3-BACKUP] Successfully processed email: ${emailObj.Key}`);
+      console.log(`✅ [S3-BACKUP] Successfully processed email: ${key}`);
 
       // Send real-time notification to relevant users
       await this.notifyRelevantUsers(emailData);
 
-      return true;
+      return { success: true, email: emailData };
 
     } catch (error) {
-      console.error(`❌ [S3-BACKUP] Error processing single email ${emailObj.Key}:`, error);
-      return false;
+      console.error(`❌ [S3-BACKUP] Error processing single email ${key}:`, error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : String(error),
+        email: emailData || undefined,
+      };
     }
   }
 
+  /**
+   * Parse a raw MIME message into EmailData, attachments included. Also used by the SES webhook
+   * so both inbound paths see the same EmailData for the same message.
+   */
+  async parseRawEmail(rawEmail: string | Buffer): Promise<EmailData | null> {
+    const parsed = await simpleParser(rawEmail);
+    console.log(`🔍 [S3-BACKUP] Email parsed by mailparser. Message ID: ${parsed.messageId}`);
+
+    return this.parseEmailToEmailData(parsed);
+  }
+
   /**
    * Parse ParsedMail to EmailData format
    */
@@ -620,12 +651,47 @@ export class S3EmailBackupProcessor {
   }
 
   /**
-   * Move email to failed folder
+   * Move email to failed folder and record it in the dead-letter inbox so an admin can replay it
    */
-  private async moveToFailed(sourceKey: string): Promise<void> {
+  private async moveToFailed(sourceKey: string, reason: string, email?: EmailData): Promise<void> {
     const fileName = sourceKey.split('/').pop() || 'unknown';
     const destinationKey = `${this.failedPrefix}${fileName}`;
     await this.moveS3Object(sourceKey, destinationKey);
+
+    try {
+      const now = new Date();
+      await storage.createEmailQueueJob({
+        queue: EMAIL_QUEUES.s3Backup,
+        payload: { s3Key: destinationKey, email: email ? serializeEmailData(email) : undefined },
+        messageId: email?.messageId || this.extractMessageIdFromKey(sourceKey),
+        subject: email?.subject,
+        sender: email?.from,
+        status: 'dead_letter',
+        attempts: 1,
+        maxAttempts: 1,
+        lastError: reason,
+        deadLetteredAt: now,
+      });
+    } catch (error) {
+      console.error(`❌ [S3-BACKUP] Failed to record dead-letter entry for ${destinationKey}:`, error);
+    }
+  }
+
+  /**
+   * Re-run an email parked in the failed folder through the handler pipeline.
+   * On success the object moves to the processed folder; on failure it stays where it is.
+   */
+  async replayFailedEmail(failedKey: string): Promise<S3ProcessingResult> {
+    if (!failedKey.startsWith(this.failedPrefix)) {
+      return { success: false, error: `Key is not in the failed folder: ${failedKey}` };
+    }
+
+    console.log(`🔁 [S3-BACKUP] Replaying failed email: ${failedKey}`);
+    const result = await this.processSingleEmail(failedKey);
+    if (result.success) {
+      await this.moveToProcessed(failedKey);
+    }
+    return result;
   }
 
   /**
@@ -0,0 +1,170 @@
+import { storage } from '../storage';
+import { sendMail } from './mailer';
+import { extractReplyText } from '../utils/emailReply';
+import { findTasksInReply, formatTaskMarker } from '../utils/taskMentions';
+import type { EmailData } from './email/types';
+import type { InsertTaskActivity, Task, TaskActivity, User } from '@email-task-router/shared';
+
+type ActivitySource = 'web' | 'email' | 'system';
+
+const MESSAGE_ID = /^<[^<>\s]+@[^<>\s]+>$/;
+
+/**
+ * Task activity service
+ * Keeps the per-task timeline: comments and changes to status, assignees and due dates,
+ * whether they come from the board, an email reply or an automatic rule. Comments posted
+ * on the board are mailed to the task's assignees in the original email thread.
+ */
+export class TaskActivityService {
+  private todoEmail = 'todo@inboxleap.com';
+
+  /**
+   * Add an entry to a task's timeline. Never throws: a missing history entry must not fail
+   * the change it describes.
+   */
+  async record(activity: InsertTaskActivity): Promise<TaskActivity | undefined> {
+    try {
+      return await storage.createTaskActivity(activity);
+    } catch (error) {
+      console.error(`❌ [TASK-ACTIVITY] Failed to record ${activity.type} for task ${activity.taskId}:`, error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Record the tracked fields that differ between two versions of a task
+   */
+  async recordChanges(
+    before: Task,
+    after: Task,
+    userId: string | null,
+    source: ActivitySource = 'web',
+    details: Pick<InsertTaskActivity, 'body' | 'emailMessageId'> = {}
+  ): Promise<TaskActivity[]> {
+    const entries: InsertTaskActivity[] = [];
+
+    if (before.status !== after.status) {
+      entries.push({ taskId: after.id, userId, source, type: 'status_change', fromValue: before.status, toValue: after.status, ...details });
+    }
+
+    const beforeDue = before.dueDate ? new Date(before.dueDate).toISOString() : null;
+    const afterDue = after.dueDate ? new Date(after.dueDate).toISOString() : null;
+    if (beforeDue !== afterDue) {
+      entries.push({ taskId: after.id, userId, source, type: 'due_date_change', fromValue: beforeDue, toValue: afterDue, ...details });
+    }
+
+    const recorded: TaskActivity[] = [];
+    for (const entry of entries) {
+      const activity = await this.record(entry);
+      if (activity) recorded.push(activity);
+    }
+    return recorded;
+  }
+
+  async recordAssignment(taskId: number, assigneeUserId: string, userId: string | null, added: boolean, source: ActivitySource = 'web') {
+    return this.record({
+      taskId,
+      userId,
+      source,
+      type: added ? 'assignee_added' : 'assignee_removed',
+      toValue: added ? assigneeUserId : null,
+      fromValue: added ? null : assigneeUserId,
+    });
+  }
+
+  /**
+   * Post a comment from the board and mail it to the other assignees in the task's thread
+   */
+  async addComment(task: Task, author: User, body: string): Promise<TaskActivity> {
+    const activity = await storage.createTaskActivity({
+      taskId: task.id,
+      userId: author.id,
+      source: 'web',
+      type: 'comment',
+      body,
+    });
+    console.log(`💬 [TASK-ACTIVITY] ${author.email} commented on task ${task.id}`);
+
+    try {
+      await this.mailComment(task, author, body);
+    } catch (error) {
+      // The comment is saved either way
+      console.error(`❌ [TASK-ACTIVITY] Failed to mail comment ${activity.id}:`, error);
+    }
+    return activity;
+  }
+
+  /**
+   * Store a thread reply as a comment on the tasks it is about.
+   * Returns the tasks that received the comment.
+   */
+  async recordEmailReply(email: EmailData, authorId: string, threadTasks: Task[]): Promise<Task[]> {
+    const replyText = extractReplyText(email.body);
+    if (!replyText) return [];
+
+    const tasks = findTasksInReply(email.body, replyText, threadTasks);
+    for (const task of tasks) {
+      await this.record({
+        taskId: task.id,
+        userId: authorId,
+        source: 'email',
+        type: 'comment',
+        body: replyText,
+        emailMessageId: email.messageId,
+      });
+    }
+
+    if (tasks.length > 0) {
+      console.log(`💬 [TASK-ACTIVITY] Reply from ${email.from} added as a comment on task(s) ${tasks.map(task => task.id).join(', ')}`);
+    }
+    return tasks;
+  }
+
+  private async mailComment(task: Task, author: User, body: string): Promise<void> {
+    const assignees = await storage.getTaskAssignees(task.id);
+    const recipients: string[] = [];
+    for (const assignee of assignees) {
+      if (assignee.userId === author.id) continue;
+
+      const [user, preferences] = await Promise.all([
+        storage.getUser(assignee.userId),
+        storage.getNotificationPreferences(assignee.userId),
+      ]);
+      if (!user?.email || preferences?.emailNotifications === false) continue;
+      recipients.push(user.email);
+    }
+
+    if (recipients.length === 0) {
+      console.log(`💬 [TASK-ACTIVITY] No one to mail the comment on task ${task.id} to`);
+      return;
+    }
+
+    // Projects created from email are keyed by the Message-ID that started the thread
+    const project = await storage.getProject(task.projectId);
+    const threadMessageId = project?.topic && MESSAGE_ID.test(project.topic) ? project.topic : undefined;
+    const subject = task.sourceEmailSubject || task.title;
+    const authorName = [author.firstName, author.lastName].filter(Boolean).join(' ') || author.email;
+
+    const sent = await sendMail({
+      from: this.todoEmail,
+      to: recipients,
+      subject: /^re:/i.test(subject) ? subject : `Re: ${subject}`,
+      text: `${authorName} commented on ${formatTaskMarker(task.id)} ${task.title}:
+
+${body}
+
+Reply to this email to add a comment to the task.`,
+      replyTo: this.todoEmail,
+      inReplyTo: threadMessageId,
+      references: threadMessageId ? [threadMessageId] : undefined,
+    });
+
+    if (!sent) {
+      console.error(`❌ [TASK-ACTIVITY] Comment on task ${task.id} could not be mailed`);
+      return;
+    }
+    console.log(`📧 [TASK-ACTIVITY] Mailed comment on task ${task.id} to ${recipients.length} assignee(s)`);
+  }
+}
+
+export const taskActivityService = new TaskActivityService();
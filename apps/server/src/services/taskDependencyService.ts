@@ -0,0 +1,157 @@
+import { storage } from '../storage';
+import { taskActivityService } from './taskActivityService';
+import { isTaskOpen, resolveBlockedStatus, wouldCreateCycle } from '../utils/taskDependencies';
+import type { Task, TaskDependency } from '@email-task-router/shared';
+
+export interface TaskDependencyResult {
+  success: boolean;
+  error?: string;
+  dependency?: TaskDependency;
+  updatedTasks: Task[]; // Tasks whose status changed as a result
+}
+
+export interface TaskReference {
+  id: number;
+  title: string;
+  status: string;
+}
+
+export interface TaskDependencySummary {
+  dependencies: TaskReference[]; // Tasks this one waits on
+  dependents: TaskReference[]; // Tasks waiting on this one
+}
+
+/**
+ * Task dependency service
+ * Maintains the task_dependencies graph and keeps dependent tasks "blocked" while any of
+ * their predecessors is still open.
+ */
+export class TaskDependencyService {
+  async addDependency(taskId: number, dependsOnTaskId: number): Promise<TaskDependencyResult> {
+    const [task, predecessor] = await Promise.all([storage.getTask(taskId), storage.getTask(dependsOnTaskId)]);
+    if (!task || !predecessor) {
+      return { success: false, error: 'Task not found', updatedTasks: [] };
+    }
+    if (task.projectId !== predecessor.projectId) {
+      return { success: false, error: 'Dependencies must be between tasks in the same project', updatedTasks: [] };
+    }
+
+    const edges = await storage.getProjectTaskDependencies(task.projectId);
+    if (wouldCreateCycle(edges, taskId, dependsOnTaskId)) {
+      return { success: false, error: `"${predecessor.title}" already depends on "${task.title}"`, updatedTasks: [] };
+    }
+
+    const dependency = await storage.addTaskDependency(taskId, dependsOnTaskId);
+    console.log(`🔗 [DEPENDENCIES] Task ${taskId} now depends on task ${dependsOnTaskId}`);
+
+    const updated = await this.refreshBlockedStatus(taskId);
+    return { success: true, dependency, updatedTasks: updated ? [updated] : [] };
+  }
+
+  async removeDependency(taskId: number, dependsOnTaskId: number): Promise<Task[]> {
+    await storage.removeTaskDependency(taskId, dependsOnTaskId);
+    console.log(`🔗 [DEPENDENCIES] Task ${taskId} no longer depends on task ${dependsOnTaskId}`);
+
+    const updated = await this.refreshBlockedStatus(taskId);
+    return updated ? [updated] : [];
+  }
+
+  /**
+   * Block the task while a predecessor is open and release it once none is.
+   * Returns the task when its status changed.
+   */
+  async refreshBlockedStatus(taskId: number): Promise<Task | undefined> {
+    const task = await storage.getTask(taskId);
+    if (!task) return undefined;
+
+    const predecessors = await this.loadTasks((await storage.getTaskDependencies(taskId)).map(edge => edge.dependsOnTaskId));
+    const nextStatus = resolveBlockedStatus(task.status, predecessors.some(predecessor => isTaskOpen(predecessor.status)));
+    if (!nextStatus) return undefined;
+
+    console.log(`🔗 [DEPENDENCIES] Task ${taskId} "${task.title}": ${task.status} -> ${nextStatus}`);
+    const updated = await storage.updateTask(taskId, { status: nextStatus });
+    await taskActivityService.recordChanges(task, updated, null, 'system');
+    return updated;
+  }
+
+  /**
+   * Re-evaluate everything waiting on a task after its status changed or before it is deleted
+   * (pass the dependent ids captured beforehand in that case)
+   */
+  async refreshDependents(taskId: number, dependentIds?: number[]): Promise<Task[]> {
+    const ids = dependentIds ?? (await storage.getTaskDependents(taskId)).map(edge => edge.taskId);
+    const updated: Task[] = [];
+    for (const id of ids) {
+      const task = await this.refreshBlockedStatus(id);
+      if (task) updated.push(task);
+    }
+    return updated;
+  }
+
+  /**
+   * Store the dependencies the email parser found between tasks created from one email.
+   * `created[i]` is the task created for `parsed[i]`, or undefined when it was skipped.
+   */
+  async linkExtractedTasks(created: Array<Task | undefined>, parsed: Array<{ dependsOn?: number[] }>): Promise<void> {
+    for (let index = 0; index < parsed.length; index++) {
+      const task = created[index];
+      if (!task) continue;
+
+      for (const position of parsed[index].dependsOn || []) {
+        const predecessor = created[position];
+        if (!predecessor) continue;
+        try {
+          const result = await this.addDependency(task.id, predecessor.id);
+          if (!result.success) {
+            console.log(`⚠️  [DEPENDENCIES] Skipped extracted dependency ${task.id} -> ${predecessor.id}: ${result.error}`);
+          }
+        } catch (error) {
+          // A missing dependency should not fail task creation
+          console.error(`❌ [DEPENDENCIES] Failed to link task ${task.id} to ${predecessor.id}:`, error);
+        }
+      }
+    }
+  }
+
+  async getTaskSummary(task: Task): Promise<TaskDependencySummary> {
+    const [dependencies, dependents] = await Promise.all([
+      storage.getTaskDependencies(task.id),
+      storage.getTaskDependents(task.id),
+    ]);
+    return {
+      dependencies: (await this.loadTasks(dependencies.map(edge => edge.dependsOnTaskId))).map(this.toReference),
+      dependents: (await this.loadTasks(dependents.map(edge => edge.taskId))).map(this.toReference),
+    };
+  }
+
+  /**
+   * Dependency summaries for every task of a project, from one query
+   */
+  async getProjectSummaries(projectId: number, projectTasks: Task[]): Promise<Map<number, TaskDependencySummary>> {
+    const edges = await storage.getProjectTaskDependencies(projectId);
+    const byId = new Map(projectTasks.map(task => [task.id, task]));
+    const summaries = new Map<number, TaskDependencySummary>(
+      projectTasks.map(task => [task.id, { dependencies: [], dependents: [] }])
+    );
+
+    for (const edge of edges) {
+      const task = byId.get(edge.taskId);
+      const predecessor = byId.get(edge.dependsOnTaskId);
+      if (!task || !predecessor) continue;
+      summaries.get(task.id)!.dependencies.push(this.toReference(predecessor));
+      summaries.get(predecessor.id)!.dependents.push(this.toReference(task));
+    }
+    return summaries;
+  }
+
+  private async loadTasks(ids: number[]): Promise<Task[]> {
+    const loaded = await Promise.all(ids.map(id => storage.getTask(id)));
+    return loaded.filter((task): task is Task => !!task);
+  }
+
+  private toReference(task: Task): TaskReference {
+    return { id: task.id, title: task.title, status: task.status };
+  }
+}
+
+export const taskDependencyService = new TaskDependencyService();
@@ -0,0 +1,79 @@
+import { taskNotificationService, type TaskDueReminderRunResult } from './taskNotificationService';
+import { parseTaskDueReminderOffsets, type TaskDueReminderOffset } from '../utils/taskDueReminders';
+
+/**
+ * Task due-date reminder scheduler
+ * Periodically emails assignees about open tasks at the configured offsets before their due
+ * date (TASK_DUE_REMINDER_OFFSETS, default "24h,1h,overdue"). Sent reminders are recorded in
+ * task_due_reminders, so each fires once per task and offset, across restarts.
+ */
+export class TaskDueReminderScheduler {
+  private static instance: TaskDueReminderScheduler | null = null;
+  private timer: NodeJS.Timeout | null = null;
+  private isProcessing = false;
+  private checkInterval = 5 * 60 * 1000; // 5 minutes
+  private offsets: TaskDueReminderOffset[] | null = null;
+
+  constructor(private readonly env: NodeJS.ProcessEnv = process.env) {}
+
+  static getInstance(): TaskDueReminderScheduler {
+    if (!TaskDueReminderScheduler.instance) {
+      TaskDueReminderScheduler.instance = new TaskDueReminderScheduler();
+    }
+    return TaskDueReminderScheduler.instance;
+  }
+
+  /**
+   * Configured reminder offsets; throws when TASK_DUE_REMINDER_OFFSETS cannot be read
+   */
+  getOffsets(): TaskDueReminderOffset[] {
+    if (!this.offsets) {
+      this.offsets = parseTaskDueReminderOffsets(this.env.TASK_DUE_REMINDER_OFFSETS || undefined);
+    }
+    return this.offsets;
+  }
+
+  start(): void {
+    if (this.timer) {
+      console.log('📅 [DUE-REMINDERS] Already running');
+      return;
+    }
+
+    const offsets = this.getOffsets();
+    console.log(`🚀 [DUE-REMINDERS] Starting due reminder scheduler (${offsets.map(offset => offset.key).join(', ')})`);
+
+    this.sendDueReminders().catch(error => {
+      console.error('❌ [DUE-REMINDERS] Initial check failed:', error);
+    });
+
+    this.timer = setInterval(() => {
+      this.sendDueReminders().catch(error => {
+        console.error('❌ [DUE-REMINDERS] Scheduled check failed:', error);
+      });
+    }, this.checkInterval);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+      console.log('🛑 [DUE-REMINDERS] Due reminder scheduler stopped');
+    }
+  }
+
+  async sendDueReminders(now: Date = new Date()): Promise<TaskDueReminderRunResult> {
+    if (this.isProcessing) {
+      console.log('⏸️ [DUE-REMINDERS] Already processing, skipping this cycle');
+      return { sent: 0, skipped: 0, failed: 0 };
+    }
+
+    this.isProcessing = true;
+    try {
+      return await taskNotificationService.sendTaskDueReminders(this.getOffsets(), now);
+    } finally {
+      this.isProcessing = false;
+    }
+  }
+}
+
+export const taskDueReminderScheduler = TaskDueReminderScheduler.getInstance();
@@ -1,5 +1,23 @@
+import type { NotificationPreferences, Task, TaskDueReminderCandidate } from '@email-task-router/shared';
 import { storage } from '../storage';
 import { sendMail } from './mailer';
+import { escapeHtml, escapeHtmlAttribute } from '../utils/escape';
+import {
+  currentReminderOffset,
+  formatTimeUntilDue,
+  OVERDUE_REMINDER_KEY,
+  type TaskDueReminderOffset,
+} from '../utils/taskDueReminders';
+
+// Overdue reminders only go out for tasks that became overdue this recently, so a first run
+// (or one after a long outage) does not remind about every task ever left open
+const OVERDUE_REMINDER_LOOKBACK_MS = 24 * 60 * 60 * 1000;
+
+export interface TaskDueReminderRunResult {
+  sent: number;
+  skipped: number; // Reminders turned off or the task's creator is blocked
+  failed: number;
+}
 
 /**
  * Service for sending task-related notifications based on user preferences
@@ -147,27 +165,109 @@ export class TaskNotificationService {
   }
 
   /**
-   * Send reminder notifications for tasks due soon
+   * Send the due-date reminders that have come up: for each open task due soon (or just
+   * overdue) and each assignee, the reminder of the latest offset reached, once. Assignees
+   * who turned off due reminders or blocked the task's creator are left out.
+   * @param offsets - Reminder schedule, see parseTaskDueReminderOffsets
+   * @param now - Reference time of this run
    */
-  async sendTaskDueReminders(): Promise<void> {
-    try {
-      console.log('📅 [NOTIFICATION] Checking for tasks due soon...');
-      
-      // Get tasks due in the next 24 hours
-      const tomorrow = new Date();
-      tomorrow.setDate(tomorrow.getDate() + 1);
-      tomorrow.setHours(23, 59, 59, 999);
+  async sendTaskDueReminders(offsets: TaskDueReminderOffset[], now: Date = new Date()): Promise<TaskDueReminderRunResult> {
+    const result: TaskDueReminderRunResult = { sent: 0, skipped: 0, failed: 0 };
+    if (offsets.length === 0) return result;
 
-      const today = new Date();
-      today.setHours(0, 0, 0, 0);
+    const maxLeadMs = Math.max(...offsets.map(offset => offset.leadMs));
+    const remindsOverdue = offsets.some(offset => offset.key === OVERDUE_REMINDER_KEY);
+    const from = new Date(now.getTime() - (remindsOverdue ? OVERDUE_REMINDER_LOOKBACK_MS : 0));
+    const until = new Date(now.getTime() + maxLeadMs);
 
-      // This would need a new storage method to get tasks due between dates
-      // For now, let's create a placeholder
-      console.log(`📅 [NOTIFICATION] Would check tasks due between ${today.toISOString()} and ${tomorrow.toISOString()}`);
-      
-      // TODO: Implement getTasksDueBetween in storage and send reminders
-    } catch (error) {
-      console.error('Error sending task due reminders:', error);
+    const candidates = await storage.getTaskDueReminderCandidates(from, until);
+    const preferencesByUser = new Map<string, NotificationPreferences | undefined>();
+
+    for (const candidate of candidates) {
+      const { task, assignee } = candidate;
+      const offset = task.dueDate ? currentReminderOffset(task.dueDate, offsets, now) : undefined;
+      if (!offset) continue;
+
+      try {
+        if (!preferencesByUser.has(assignee.id)) {
+          preferencesByUser.set(assignee.id, await storage.getNotificationPreferences(assignee.id));
+        }
+        const preferences = preferencesByUser.get(assignee.id);
+        if (!preferences?.emailNotifications || !preferences?.taskDueReminders || !assignee.email) {
+          result.skipped++;
+          continue;
+        }
+        if (task.createdBy !== assignee.id) {
+          const trust = await storage.getTrustRelationship(assignee.id, task.createdBy);
+          if (trust?.trustStatus === 'blocked') {
+            result.skipped++;
+            continue;
+          }
+        }
+
+        const reminder = { taskId: task.id, userId: assignee.id, offsetKey: offset.key, dueDate: task.dueDate! };
+        if (!await storage.claimTaskDueReminder(reminder)) {
+          continue; // Already sent
+        }
+
+        const sent = await this.sendTaskDueReminder(candidate, offset, preferences.timezone, now).catch(error => {
+          console.error(`Error sending due reminder for task ${task.id} to user ${assignee.id}:`, error);
+          return false;
+        });
+        if (sent) {
+          result.sent++;
+        } else {
+          await storage.releaseTaskDueReminder(reminder);
+          result.failed++;
+        }
+      } catch (error) {
+        result.failed++;
+        console.error(`Error sending due reminder for task ${task.id} to user ${assignee.id}:`, error);
+      }
+    }
+
+    if (result.sent + result.failed > 0) {
+      console.log(`📅 [NOTIFICATION] Due reminders: sent ${result.sent}, skipped ${result.skipped}, failed ${result.failed}`);
+    }
+    return result;
+  }
+
+  private async sendTaskDueReminder(
+    { task, projectName, assignee }: TaskDueReminderCandidate,
+    offset: TaskDueReminderOffset,
+    timeZone: string | null,
+    now: Date
+  ): Promise<boolean> {
+    const isOverdue = offset.key === OVERDUE_REMINDER_KEY;
+    const dueIn = isOverdue ? null : formatTimeUntilDue(task.dueDate!, now);
+
+    const emailBody = this.generateTaskDueReminderEmailHTML(
+      assignee.firstName || assignee.email!,
+      task,
+      projectName,
+      this.formatDueDate(task.dueDate!, timeZone),
+      dueIn
+    );
+
+    const sent = await sendMail({
+      to: assignee.email!,
+      subject: isOverdue ? `⚠️ Task overdue: ${task.title}` : `⏰ Task due in ${dueIn}: ${task.title}`,
+      html: emailBody,
+    });
+
+    if (sent) {
+      console.log(`📧 [NOTIFICATION] Sent ${offset.key} due reminder for task ${task.id} to ${assignee.email}`);
+    }
+    return sent;
+  }
+
+  // Due date on the assignee's clock (time zone from their notification preferences)
+  private formatDueDate(dueDate: Date, timeZone: string | null): string {
+    const options: Intl.DateTimeFormatOptions = { year: 'numeric', month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' };
+    try {
+      return new Intl.DateTimeFormat('en-US', { ...options, timeZone: timeZone || 'UTC', timeZoneName: 'short' }).format(dueDate);
+    } catch {
+      return new Intl.DateTimeFormat('en-US', { ...options, timeZone: 'UTC', timeZoneName: 'short' }).format(dueDate);
     }
   }
 
@@ -256,6 +356,81 @@ export class TaskNotificationService {
     `;
   }
 
+  /**
+   * Generate HTML email for a due-date reminder; dueIn is null once the task is overdue
+   */
+  private generateTaskDueReminderEmailHTML(
+    assigneeName: string,
+    task: Task,
+    projectName: string,
+    dueDateStr: string,
+    dueIn: string | null
+  ): string {
+    const appUrl = process.env.DASHBOARD_URL || process.env.APP_URL || 'https://inboxleap.com';
+    const taskUrl = `${appUrl}/project/${task.projectId}?highlightTask=${task.id}`;
+    const headerColors = dueIn ? '#f59e0b 0%, #d97706 100%' : '#ef4444 0%, #b91c1c 100%';
+
+    return `
+    <!DOCTYPE html>
+    <html>
+    <head>
+        <meta charset="utf-8">
+        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        <title>${dueIn ? 'Task Due Soon' : 'Task Overdue'}</title>
+        <style>
+            body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; line-height: 1.6; color: #333; margin: 0; padding: 20px; background-color: #f5f5f5; }
+            .container { max-width: 600px; margin: 0 auto; background: white; border-radius: 8px; overflow: hidden; box-shadow: 0 2px 10px rgba(0,0,0,0.1); }
+            .header { background: linear-gradient(135deg, ${headerColors}); color: white; padding: 30px 20px; text-align: center; }
+            .content { padding: 30px 20px; }
+            .task-card { background: #f8fafc; border: 1px solid #e2e8f0; border-radius: 8px; padding: 20px; margin: 20px 0; }
+            .button { display: inline-block; padding: 12px 24px; background: #667eea; color: white; text-decoration: none; border-radius: 6px; font-weight: bold; margin-top: 20px; }
+            .footer { background: #f8fafc; padding: 20px; text-align: center; font-size: 14px; color: #64748b; }
+        </style>
+    </head>
+    <body>
+        <div class="container">
+            <div class="header">
+                <h1>${dueIn ? '⏰ Task Due Soon' : '⚠️ Task Overdue'}</h1>
+                <p>${dueIn ? `Due in ${dueIn}` : 'This task is past its due date'}</p>
+            </div>
+
+            <div class="content">
+                <p>Hi ${escapeHtml(assigneeName)},</p>
+
+                <p>${dueIn
+                  ? `A task assigned to you in <strong>${escapeHtml(projectName)}</strong> is due in ${dueIn}.`
+                  : `A task assigned to you in <strong>${escapeHtml(projectName)}</strong> is overdue and still open.`}</p>
+
+                <div class="task-card">
+                    <h3 style="margin: 0; color: #1f2937;">${escapeHtml(task.title)}</h3>
+                    ${task.description ? `<p style="color: #6b7280; margin: 10px 0;">${escapeHtml(task.description)}</p>` : ''}
+
+                    <div style="margin-top: 15px; font-size: 14px; color: #6b7280;">
+                        <p style="margin: 5px 0;"><strong>Project:</strong> ${escapeHtml(projectName)}</p>
+                        <p style="margin: 5px 0;"><strong>Due:</strong> ${dueDateStr}</p>
+                        <p style="margin: 5px 0;"><strong>Status:</strong> ${escapeHtml(task.status)}</p>
+                    </div>
+                </div>
+
+                <div style="text-align: center;">
+                    <a href="${escapeHtmlAttribute(taskUrl)}" class="button">View Task</a>
+                </div>
+
+                <p style="margin-top: 30px; font-size: 14px; color: #6b7280;">
+                    You can manage your notification preferences in your account settings.
+                </p>
+            </div>
+
+            <div class="footer">
+                <p>This email was sent because you have task due reminders enabled.</p>
+                <p>InboxLeap • Intelligent Email Collaboration</p>
+            </div>
+        </div>
+    </body>
+    </html>
+    `;
+  }
+
   /**
    * Generate HTML email for task status change notification
    */
@@ -0,0 +1,332 @@
+import type { DigestTask, NotificationPreferences, User, WeeklyDigestActivity } from '@email-task-router/shared';
+import { storage } from '../storage';
+import { sendMail } from './mailer';
+import { optOutManager } from './email/OptOutManager';
+import { escapeHtml, escapeHtmlAttribute } from '../utils/escape';
+
+// Digests go out on Monday morning in each user's time zone
+const DIGEST_WEEKDAY = 1; // 0 = Sunday
+const DIGEST_HOUR = 8;
+const PERIOD_MS = 7 * 24 * 60 * 60 * 1000;
+// A digest sent less than this long ago counts as this week's, whatever the clock said since
+const MIN_RESEND_MS = 24 * 60 * 60 * 1000;
+
+export interface WeeklyDigest {
+  subject: string;
+  html: string;
+  text: string;
+  activity: WeeklyDigestActivity;
+  since: Date;
+  until: Date;
+  isEmpty: boolean;
+}
+
+export interface WeeklyDigestRunResult {
+  sent: number;
+  skipped: number; // Nothing to report, or the recipient opted out
+  failed: number;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function resolveTimeZone(timeZone: string | null | undefined): string {
+  return timeZone && isValidTimeZone(timeZone) ? timeZone : 'UTC';
+}
+
+/**
+ * Weekday (0 = Sunday) and hour of an instant on the wall clock of a time zone
+ */
+export function localWeekdayAndHour(date: Date, timeZone: string): { weekday: number; hour: number } {
+  const parts = new Intl.DateTimeFormat('en-US', { timeZone, weekday: 'short', hour: 'numeric', hourCycle: 'h23' })
+    .formatToParts(date);
+  const weekday = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'].indexOf(parts.find(p => p.type === 'weekday')!.value);
+  const hour = parseInt(parts.find(p => p.type === 'hour')!.value, 10);
+  return { weekday, hour };
+}
+
+/**
+ * Weekly digest emails
+ * Every Monday from 08:00 in the user's time zone, users with the weeklyDigest preference get a
+ * summary of the past seven days: tasks assigned to them, completed and overdue in their projects,
+ * new T5T insights they can view, polls waiting for them and activity of the FAQ organizations
+ * they own. Weeks without activity send nothing.
+ */
+export class WeeklyDigestService {
+  private static instance: WeeklyDigestService | null = null;
+  private timer: NodeJS.Timeout | null = null;
+  private isProcessing = false;
+  private checkInterval = 15 * 60 * 1000; // 15 minutes
+
+  static getInstance(): WeeklyDigestService {
+    if (!WeeklyDigestService.instance) {
+      WeeklyDigestService.instance = new WeeklyDigestService();
+    }
+    return WeeklyDigestService.instance;
+  }
+
+  start(): void {
+    if (this.timer) {
+      console.log('📰 [WEEKLY-DIGEST] Already running');
+      return;
+    }
+
+    console.log('🚀 [WEEKLY-DIGEST] Starting weekly digest scheduler');
+
+    this.sendDueDigests().catch(error => {
+      console.error('❌ [WEEKLY-DIGEST] Initial check failed:', error);
+    });
+
+    this.timer = setInterval(() => {
+      this.sendDueDigests().catch(error => {
+        console.error('❌ [WEEKLY-DIGEST] Scheduled check failed:', error);
+      });
+    }, this.checkInterval);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+      console.log('🛑 [WEEKLY-DIGEST] Weekly digest scheduler stopped');
+    }
+  }
+
+  /**
+   * Whether the user's digest for this week is due: it is Monday after 08:00 where they are and
+   * no digest went out during the last day
+   */
+  isDigestDue(preferences: Pick<NotificationPreferences, 'timezone' | 'weeklyDigestLastSentAt'>, now: Date = new Date()): boolean {
+    const { weekday, hour } = localWeekdayAndHour(now, resolveTimeZone(preferences.timezone));
+    if (weekday !== DIGEST_WEEKDAY || hour < DIGEST_HOUR) {
+      return false;
+    }
+    const lastSent = preferences.weeklyDigestLastSentAt;
+    return !lastSent || now.getTime() - lastSent.getTime() >= MIN_RESEND_MS;
+  }
+
+  async sendDueDigests(now: Date = new Date()): Promise<WeeklyDigestRunResult> {
+    const result: WeeklyDigestRunResult = { sent: 0, skipped: 0, failed: 0 };
+    if (this.isProcessing) {
+      console.log('⏸️ [WEEKLY-DIGEST] Already processing, skipping this cycle');
+      return result;
+    }
+
+    this.isProcessing = true;
+    try {
+      const recipients = await storage.getWeeklyDigestRecipients();
+      for (const { user, preferences } of recipients) {
+        if (!this.isDigestDue(preferences, now)) continue;
+
+        try {
+          if (await this.sendDigest(user, preferences, now)) {
+            result.sent++;
+          } else {
+            result.skipped++;
+          }
+          // Recorded for empty weeks too, so the user is not looked at again until next Monday
+          await storage.upsertNotificationPreferences(user.id, { weeklyDigestLastSentAt: now });
+        } catch (error) {
+          result.failed++;
+          console.error(`❌ [WEEKLY-DIGEST] Failed to send the digest of user ${user.id}:`, error);
+        }
+      }
+
+      if (result.sent + result.skipped + result.failed > 0) {
+        console.log(`📰 [WEEKLY-DIGEST] Sent ${result.sent}, skipped ${result.skipped}, failed ${result.failed}`);
+      }
+      return result;
+    } finally {
+      this.isProcessing = false;
+    }
+  }
+
+  /**
+   * Digest of the seven days before `now`, as sent by email (also used by the preview endpoint)
+   */
+  async buildDigest(user: User, preferences: Pick<NotificationPreferences, 'timezone'> | undefined, now: Date = new Date()): Promise<WeeklyDigest> {
+    const since = new Date(now.getTime() - PERIOD_MS);
+    const activity = await storage.getWeeklyDigestActivity(user.id, user.email ?? '', since, now);
+    const timeZone = resolveTimeZone(preferences?.timezone);
+
+    const isEmpty = activity.assignedTasks.length + activity.completedTasks.length + activity.overdueTasks.length
+      + activity.insights.length + activity.openPolls.length + activity.faqActivity.length === 0;
+
+    const period = `${formatDate(since, timeZone)} – ${formatDate(now, timeZone)}`;
+    const view: DigestView = {
+      name: user.firstName || user.email || 'there',
+      period,
+      timeZone,
+      appUrl: process.env.DASHBOARD_URL || process.env.APP_URL || 'https://inboxleap.com',
+      activity,
+    };
+
+    return {
+      subject: `📰 Your weekly digest: ${period}`,
+      html: renderDigestHtml(view),
+      text: renderDigestText(view),
+      activity,
+      since,
+      until: now,
+      isEmpty,
+    };
+  }
+
+  /**
+   * Send one user's digest; false when there was nothing to report or the user opted out
+   */
+  private async sendDigest(user: User, preferences: NotificationPreferences, now: Date): Promise<boolean> {
+    if (!user.email || await optOutManager.isOptedOut(user.email)) {
+      console.log(`📰 [WEEKLY-DIGEST] Skipping user ${user.id} (no address or opted out)`);
+      return false;
+    }
+
+    const digest = await this.buildDigest(user, preferences, now);
+    if (digest.isEmpty) {
+      return false;
+    }
+
+    const sent = await sendMail({ to: user.email, subject: digest.subject, html: digest.html, text: digest.text });
+    if (!sent) {
+      throw new Error(`Mail delivery to ${user.email} failed`);
+    }
+    console.log(`📧 [WEEKLY-DIGEST] Sent weekly digest to ${user.email}`);
+    return true;
+  }
+}
+
+interface DigestView {
+  name: string;
+  period: string;
+  timeZone: string;
+  appUrl: string;
+  activity: WeeklyDigestActivity;
+}
+
+function formatDate(date: Date, timeZone: string): string {
+  return new Intl.DateTimeFormat('en-US', { timeZone, month: 'short', day: 'numeric' }).format(date);
+}
+
+function taskUrl(appUrl: string, task: DigestTask): string {
+  return `${appUrl}/project/${task.projectId}?highlightTask=${task.id}`;
+}
+
+function taskLine(task: DigestTask, timeZone: string): string {
+  const due = task.dueDate ? `, due ${formatDate(task.dueDate, timeZone)}` : '';
+  return `${task.title} (${task.projectName}${due})`;
+}
+
+function renderDigestText({ name, period, timeZone, appUrl, activity }: DigestView): string {
+  const sections: string[] = [];
+  const taskSection = (title: string, list: DigestTask[]) => {
+    if (list.length === 0) return;
+    sections.push(`${title} (${list.length})\n${list.map(task => `- ${taskLine(task, timeZone)}\n  ${taskUrl(appUrl, task)}`).join('\n')}`);
+  };
+
+  taskSection('Overdue tasks', activity.overdueTasks);
+  taskSection('Assigned to you', activity.assignedTasks);
+  taskSection('Completed in your projects', activity.completedTasks);
+  if (activity.insights.length > 0) {
+    sections.push(`New T5T insights (${activity.insights.length})\n${activity.insights
+      .map(insight => `- ${insight.isAlert ? '[ALERT] ' : ''}${insight.title} (${insight.agentName})`).join('\n')}\n  ${appUrl}/intelligence/t5t`);
+  }
+  if (activity.openPolls.length > 0) {
+    sections.push(`Open polls (${activity.openPolls.length})\n${activity.openPolls
+      .map(poll => `- ${poll.title}${poll.hasVoted ? ' (voted)' : ''}${poll.expiresAt ? `, closes ${formatDate(poll.expiresAt, timeZone)}` : ''}`).join('\n')}\n  ${appUrl}/teams/polly`);
+  }
+  if (activity.faqActivity.length > 0) {
+    sections.push(`FAQ activity\n${activity.faqActivity
+      .map(org => `- ${org.organizationName}: ${org.newInquiries} new question(s), ${org.pendingReview} awaiting review, ${org.newEntries} new entr${org.newEntries === 1 ? 'y' : 'ies'}`).join('\n')}\n  ${appUrl}/teams/faq`);
+  }
+  if (sections.length === 0) {
+    sections.push('Nothing new this week.');
+  }
+
+  return [
+    `Hi ${name},`,
+    `Here is what happened in InboxLeap, ${period}.`,
+    ...sections,
+    `You receive this digest because the weekly digest is enabled. Manage notifications: ${appUrl}/settings`,
+  ].join('\n\n');
+}
+
+function renderDigestHtml({ name, period, timeZone, appUrl, activity }: DigestView): string {
+  const sections: string[] = [];
+  const section = (title: string, count: number, items: string[], link?: { href: string; label: string }) => {
+    sections.push(`
+                <h2 style="font-size: 16px; color: #1f2937; margin: 28px 0 10px;">${escapeHtml(title)} <span style="color: #6b7280; font-weight: normal;">(${count})</span></h2>
+                <ul style="padding-left: 20px; margin: 0;">${items.map(item => `<li style="margin: 6px 0;">${item}</li>`).join('')}</ul>
+                ${link ? `<p style="margin: 8px 0 0;"><a href="${escapeHtmlAttribute(link.href)}" style="color: #667eea;">${escapeHtml(link.label)}</a></p>` : ''}`);
+  };
+  const taskItems = (list: DigestTask[]) => list.map(task =>
+    `<a href="${escapeHtmlAttribute(taskUrl(appUrl, task))}" style="color: #1f2937;">${escapeHtml(task.title)}</a>
+      <span style="color: #6b7280;">· ${escapeHtml(task.projectName)}${task.dueDate ? ` · due ${formatDate(task.dueDate, timeZone)}` : ''}</span>`);
+
+  if (activity.overdueTasks.length > 0) section('⏰ Overdue tasks', activity.overdueTasks.length, taskItems(activity.overdueTasks));
+  if (activity.assignedTasks.length > 0) section('📋 Assigned to you', activity.assignedTasks.length, taskItems(activity.assignedTasks));
+  if (activity.completedTasks.length > 0) section('✅ Completed in your projects', activity.completedTasks.length, taskItems(activity.completedTasks));
+  if (activity.insights.length > 0) {
+    section('💡 New T5T insights', activity.insights.length, activity.insights.map(insight =>
+      `${insight.isAlert ? '<strong style="color: #ef4444;">Alert:</strong> ' : ''}<strong>${escapeHtml(insight.title)}</strong>
+        <span style="color: #6b7280;">· ${escapeHtml(insight.agentName)}</span>
+        ${insight.description ? `<br><span style="color: #6b7280; font-size: 14px;">${escapeHtml(insight.description)}</span>` : ''}`
+    ), { href: `${appUrl}/intelligence/t5t`, label: 'Open T5T intelligence' });
+  }
+  if (activity.openPolls.length > 0) {
+    section('🗳️ Open polls', activity.openPolls.length, activity.openPolls.map(poll =>
+      `${escapeHtml(poll.title)}
+        <span style="color: #6b7280;">${poll.hasVoted ? '· voted' : '· waiting for your vote'}${poll.expiresAt ? ` · closes ${formatDate(poll.expiresAt, timeZone)}` : ''}</span>`
+    ), { href: `${appUrl}/teams/polly`, label: 'View polls' });
+  }
+  if (activity.faqActivity.length > 0) {
+    section('❓ FAQ activity', activity.faqActivity.length, activity.faqActivity.map(org =>
+      `<strong>${escapeHtml(org.organizationName)}</strong>
+        <span style="color: #6b7280;">· ${org.newInquiries} new question(s) · ${org.pendingReview} awaiting review · ${org.newEntries} new entr${org.newEntries === 1 ? 'y' : 'ies'}</span>`
+    ), { href: `${appUrl}/teams/faq`, label: 'Review questions' });
+  }
+
+  return `
+    <!DOCTYPE html>
+    <html>
+    <head>
+        <meta charset="utf-8">
+        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        <title>Your weekly digest</title>
+        <style>
+            body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; line-height: 1.6; color: #333; margin: 0; padding: 20px; background-color: #f5f5f5; }
+            .container { max-width: 600px; margin: 0 auto; background: white; border-radius: 8px; overflow: hidden; box-shadow: 0 2px 10px rgba(0,0,0,0.1); }
+            .header { background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); color: white; padding: 30px 20px; text-align: center; }
+            .content { padding: 30px 20px; }
+            .footer { background: #f8fafc; padding: 20px; text-align: center; font-size: 14px; color: #64748b; }
+        </style>
+    </head>
+    <body>
+        <div class="container">
+            <div class="header">
+                <h1>📰 Your Weekly Digest</h1>
+                <p>${escapeHtml(period)}</p>
+            </div>
+
+            <div class="content">
+                <p>Hi ${escapeHtml(name)},</p>
+                <p>Here is what happened in InboxLeap over the past week.</p>
+                ${sections.length > 0 ? sections.join('') : '<p style="color: #6b7280;">Nothing new this week.</p>'}
+            </div>
+
+            <div class="footer">
+                <p>This email was sent because you have the weekly digest enabled. <a href="${escapeHtmlAttribute(appUrl)}/settings" style="color: #64748b;">Manage notifications</a></p>
+                <p>InboxLeap • Intelligent Email Collaboration</p>
+            </div>
+        </div>
+    </body>
+    </html>
+    `;
+}
+
+export const weeklyDigestService = WeeklyDigestService.getInstance();
@@ -1,5 +1,5 @@
 import { db } from '../db';
-import { eq, and, desc, asc, sql, isNull, not, or, inArray } from 'drizzle-orm';
+import { eq, and, desc, asc, sql, isNull, isNotNull, not, or, inArray, lte, gt, gte } from 'drizzle-orm';
 import {
   users,
   projects,
@@ -33,6 +33,14 @@ import {
   companyAgentSettings,
   userAgentEmails,
   documentAnalysisResults,
+  quarantinedAttachments,
+  aiUsageEvents,
+  companyAiBudgets,
+  polls,
+  pollVotes,
+  agentRoutingDecisions,
+  faqKnowledgeChunks,
+  faqInquiries,
   type User,
   type UpsertUser,
   type Project,
@@ -41,6 +49,12 @@ import {
   type InsertTask,
   type TaskAssignee,
   type InsertTaskAssignee,
+  type TaskDependency,
+  type TaskActivity,
+  type InsertTaskActivity,
+  type TaskActivityWithUser,
+  type InsertTaskDueReminder,
+  type TaskDueReminderCandidate,
   type EmailCredentials,
   type InsertEmailCredentials,
   type ProcessedEmail,
@@ -67,6 +81,11 @@ import {
   type InsertPasswordResetToken,
   type TrustConfirmationToken,
   type InsertTrustConfirmationToken,
+  type QuarantinedAttachment,
+  type AiUsageEvent,
+  type InsertAiUsageEvent,
+  type CompanyAiBudget,
+  type InsertQuarantinedAttachment,
   type UserLinkedAccount,
   type InsertUserLinkedAccount,
   type Company,
@@ -91,19 +110,58 @@ import {
   type InsertSOPDocument,
   type FAQEntry,
   type InsertFAQEntry,
+  type Poll,
+  type InsertPoll,
+  type PollVote,
+  type InsertPollVote,
+  type PollResults,
+  type EmailQueueJob,
+  type InsertEmailQueueJob,
+  type EmailQueueJobStatus,
+  type AgentRoutingDecision,
+  type InsertAgentRoutingDecision,
+  type FAQKnowledgeChunk,
+  type InsertFAQKnowledgeChunk,
+  type FAQKnowledgeSourceType,
+  type FAQInquiry,
+  type InsertFAQInquiry,
+  type FAQInquiryStatus,
+  type SearchFilters,
+  type SearchHit,
+  type SearchResults,
+  type DigestTask,
+  type WeeklyDigestActivity,
+  type SearchSourceType,
 } from '@email-task-router/shared';
 import { IStorage } from './interfaces';
 import { UserStorage } from './UserStorage';
 import { ProjectStorage } from './ProjectStorage';
 import { CompanyStorage } from './CompanyStorage';
 import { AgentStorage } from './AgentStorage';
+import { QueueStorage } from './QueueStorage';
 import { identityService } from '../services/identityService';
+import { encryptionService } from '../services/encryptionService';
+import { isPollExpired, resolveVoteSelection, tallyPollVotes } from '../utils/pollTally';
+import { DONE_TASK_STATUSES } from '../utils/taskDependencies';
+
+// Matched terms are wrapped in <mark> tags; clients render the text between them as plain text
+const SEARCH_HEADLINE_OPTIONS = 'StartSel=<mark>, StopSel=</mark>, MaxWords=35, MinWords=15, MaxFragments=2, FragmentDelimiter=" … "';
+
+// OAuth tokens of linked mailboxes are encrypted at rest, like mailbox passwords
+function withEncryptedTokens<T extends Partial<InsertUserLinkedAccount>>(accountData: T): T {
+  return {
+    ...accountData,
+    ...(accountData.accessToken ? { accessToken: encryptionService.migratePassword(accountData.accessToken) } : {}),
+    ...(accountData.refreshToken ? { refreshToken: encryptionService.migratePassword(accountData.refreshToken) } : {}),
+  };
+}
 
 export class DatabaseStorage implements IStorage {
   private userStorage = new UserStorage();
   private projectStorage = new ProjectStorage();
   private companyStorage = new CompanyStorage();
   private agentStorage = new AgentStorage();
+  private queueStorage = new QueueStorage();
 
   // User operations - delegated to UserStorage
   async getUser(id: string): Promise<User | undefined> {
@@ -123,7 +181,7 @@ export class DatabaseStorage implements IStorage {
   }
 
   async createUserLinkedAccount(accountData: InsertUserLinkedAccount): Promise<UserLinkedAccount> {
-    return this.userStorage.createUserLinkedAccount(accountData);
+    return this.userStorage.createUserLinkedAccount(withEncryptedTokens(accountData));
   }
 
   async getUserLinkedAccounts(userId: string): Promise<UserLinkedAccount[]> {
@@ -236,6 +294,10 @@ export class DatabaseStorage implements IStorage {
     return this.projectStorage.getTasks(projectId);
   }
 
+  async getTasksBySourceAttachment(attachmentId: number): Promise<Task[]> {
+    return this.projectStorage.getTasksBySourceAttachment(attachmentId);
+  }
+
   async getTask(id: number): Promise<Task | undefined> {
     return this.projectStorage.getTask(id);
   }
@@ -260,6 +322,55 @@ export class DatabaseStorage implements IStorage {
     return this.projectStorage.unassignTask(taskId, userId);
   }
 
+  // Task dependency operations - delegated to ProjectStorage
+  async addTaskDependency(taskId: number, dependsOnTaskId: number): Promise<TaskDependency> {
+    return this.projectStorage.addTaskDependency(taskId, dependsOnTaskId);
+  }
+
+  async removeTaskDependency(taskId: number, dependsOnTaskId: number): Promise<void> {
+    return this.projectStorage.removeTaskDependency(taskId, dependsOnTaskId);
+  }
+
+  async getTaskDependencies(taskId: number): Promise<TaskDependency[]> {
+    return this.projectStorage.getTaskDependencies(taskId);
+  }
+
+  async getTaskDependents(taskId: number): Promise<TaskDependency[]> {
+    return this.projectStorage.getTaskDependents(taskId);
+  }
+
+  async getProjectTaskDependencies(projectId: number): Promise<TaskDependency[]> {
+    return this.projectStorage.getProjectTaskDependencies(projectId);
+  }
+
+  async createTaskActivity(activity: InsertTaskActivity): Promise<TaskActivity> {
+    return this.projectStorage.createTaskActivity(activity);
+  }
+
+  async getTaskActivities(taskId: number): Promise<TaskActivityWithUser[]> {
+    return this.projectStorage.getTaskActivities(taskId);
+  }
+
+  async getRecurringTasksDue(now: Date): Promise<Task[]> {
+    return this.projectStorage.getRecurringTasksDue(now);
+  }
+
+  async createTaskOccurrence(previousTaskId: number, occurrence: InsertTask): Promise<Task | undefined> {
+    return this.projectStorage.createTaskOccurrence(previousTaskId, occurrence);
+  }
+
+  async getTaskDueReminderCandidates(from: Date, until: Date): Promise<TaskDueReminderCandidate[]> {
+    return this.projectStorage.getTaskDueReminderCandidates(from, until);
+  }
+
+  async claimTaskDueReminder(reminder: InsertTaskDueReminder): Promise<boolean> {
+    return this.projectStorage.claimTaskDueReminder(reminder);
+  }
+
+  async releaseTaskDueReminder(reminder: InsertTaskDueReminder): Promise<void> {
+    return this.projectStorage.releaseTaskDueReminder(reminder);
+  }
+
   // User task query operations - delegated to ProjectStorage
   async getUserAssignedTasks(userId: string, companyId?: number): Promise<Task[]> {
     return this.projectStorage.getUserAssignedTasks(userId, companyId);
@@ -497,7 +608,7 @@ export class DatabaseStorage implements IStorage {
   async createEmailCredentials(credentialsData: InsertEmailCredentials): Promise<EmailCredentials> {
     try {
       const [credentials] = await db.insert(emailCredentials)
-        .values(credentialsData)
+        .values({ ...credentialsData, imapPassword: encryptionService.migratePassword(credentialsData.imapPassword) })
         .returning();
       return credentials;
     } catch (error) {
@@ -532,8 +643,11 @@ export class DatabaseStorage implements IStorage {
 
   async updateEmailCredentials(id: number, credentialsData: Partial<InsertEmailCredentials>): Promise<EmailCredentials> {
     try {
+      const data = credentialsData.imapPassword === undefined
+        ? credentialsData
+        : { ...credentialsData, imapPassword: encryptionService.migratePassword(credentialsData.imapPassword) };
       const [credentials] = await db.update(emailCredentials)
-        .set(credentialsData)
+        .set(data)
         .where(eq(emailCredentials.id, id))
         .returning();
       return credentials;
@@ -543,6 +657,22 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  /**
+   * Stored passwords by id, for the key rotation job
+   */
+  async getEmailCredentialsBatch(afterId: number, limit: number): Promise<Array<{ id: number; imapPassword: string }>> {
+    try {
+      return await db.select({ id: emailCredentials.id, imapPassword: emailCredentials.imapPassword })
+        .from(emailCredentials)
+        .where(gt(emailCredentials.id, afterId))
+        .orderBy(asc(emailCredentials.id))
+        .limit(limit);
+    } catch (error) {
+      console.error('Error getting email credentials batch:', error);
+      throw error;
+    }
+  }
+
   async deleteEmailCredentials(id: number): Promise<void> {
     try {
       await db.delete(emailCredentials).where(eq(emailCredentials.id, id));
@@ -1955,6 +2085,19 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  async getEmailAttachmentsWithInlineContent(afterId: number, limit: number): Promise<Array<{ id: number; content: string | null }>> {
+    try {
+      return await db.select({ id: emailAttachments.id, content: emailAttachments.content })
+        .from(emailAttachments)
+        .where(and(gt(emailAttachments.id, afterId), isNotNull(emailAttachments.content)))
+        .orderBy(asc(emailAttachments.id))
+        .limit(limit);
+    } catch (error) {
+      console.error('Error getting email attachments with inline content:', error);
+      throw error;
+    }
+  }
+
   async updateEmailAttachmentAnalysis(id: number, analysisData: any): Promise<any> {
     try {
       console.log('[DB] Updating attachment analysis for ID:', id);
@@ -2031,6 +2174,54 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  async getLinkedAccount(accountId: number): Promise<UserLinkedAccount | undefined> {
+    try {
+      const [account] = await db.select()
+        .from(userLinkedAccounts)
+        .where(eq(userLinkedAccounts.id, accountId));
+      return account;
+    } catch (error) {
+      console.error('Error getting linked account:', error);
+      return undefined;
+    }
+  }
+
+  async updateLinkedAccount(accountId: number, accountData: Partial<InsertUserLinkedAccount>): Promise<UserLinkedAccount> {
+    try {
+      const [account] = await db.update(userLinkedAccounts)
+        .set(withEncryptedTokens(accountData))
+        .where(eq(userLinkedAccounts.id, accountId))
+        .returning();
+      return account;
+    } catch (error) {
+      console.error('Error updating linked account:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Stored OAuth tokens by id, for the key rotation job
+   */
+  async getLinkedAccountTokensBatch(afterId: number, limit: number): Promise<Array<{ id: number; accessToken: string | null; refreshToken: string | null }>> {
+    try {
+      return await db.select({
+        id: userLinkedAccounts.id,
+        accessToken: userLinkedAccounts.accessToken,
+        refreshToken: userLinkedAccounts.refreshToken,
+      })
+        .from(userLinkedAccounts)
+        .where(and(
+          gt(userLinkedAccounts.id, afterId),
+          or(isNotNull(userLinkedAccounts.accessToken), isNotNull(userLinkedAccounts.refreshToken))
+        ))
+        .orderBy(asc(userLinkedAccounts.id))
+        .limit(limit);
+    } catch (error) {
+      console.error('Error getting linked account tokens batch:', error);
+      throw error;
+    }
+  }
+
   async deleteLinkedAccount(accountId: number): Promise<void> {
     try {
       await db.delete(userLinkedAccounts)
@@ -2104,6 +2295,140 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  // FAQ knowledge index methods
+  async getFAQKnowledgeChunks(organizationId: number): Promise<FAQKnowledgeChunk[]> {
+    try {
+      return await db.select()
+        .from(faqKnowledgeChunks)
+        .where(eq(faqKnowledgeChunks.organizationId, organizationId))
+        .orderBy(asc(faqKnowledgeChunks.sourceType), asc(faqKnowledgeChunks.sourceId), asc(faqKnowledgeChunks.chunkIndex));
+    } catch (error) {
+      console.error('Error getting FAQ knowledge chunks:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Swap a source's chunks for a freshly built set in one transaction
+   */
+  async replaceFAQKnowledgeChunks(
+    organizationId: number,
+    sourceType: FAQKnowledgeSourceType,
+    sourceId: number,
+    chunks: InsertFAQKnowledgeChunk[]
+  ): Promise<void> {
+    try {
+      await db.transaction(async (tx) => {
+        await tx.delete(faqKnowledgeChunks)
+          .where(and(
+            eq(faqKnowledgeChunks.organizationId, organizationId),
+            eq(faqKnowledgeChunks.sourceType, sourceType),
+            eq(faqKnowledgeChunks.sourceId, sourceId)
+          ));
+        if (chunks.length > 0) {
+          await tx.insert(faqKnowledgeChunks).values(chunks);
+        }
+      });
+    } catch (error) {
+      console.error('Error replacing FAQ knowledge chunks:', error);
+      throw error;
+    }
+  }
+
+  async deleteFAQKnowledgeChunks(organizationId: number, sourceType: FAQKnowledgeSourceType, sourceId: number): Promise<void> {
+    try {
+      await db.delete(faqKnowledgeChunks)
+        .where(and(
+          eq(faqKnowledgeChunks.organizationId, organizationId),
+          eq(faqKnowledgeChunks.sourceType, sourceType),
+          eq(faqKnowledgeChunks.sourceId, sourceId)
+        ));
+    } catch (error) {
+      console.error('Error deleting FAQ knowledge chunks:', error);
+      throw error;
+    }
+  }
+
+  // FAQ inquiry methods
+  async createFAQInquiry(inquiry: InsertFAQInquiry): Promise<FAQInquiry> {
+    try {
+      const [created] = await db.insert(faqInquiries).values(inquiry).returning();
+      return created;
+    } catch (error) {
+      console.error('Error creating FAQ inquiry:', error);
+      throw error;
+    }
+  }
+
+  async getFAQInquiry(id: number): Promise<FAQInquiry | null> {
+    try {
+      const [inquiry] = await db.select().from(faqInquiries).where(eq(faqInquiries.id, id));
+      return inquiry || null;
+    } catch (error) {
+      console.error('Error getting FAQ inquiry:', error);
+      return null;
+    }
+  }
+
+  async getFAQInquiriesByOrganization(organizationId: number, status?: FAQInquiryStatus, limit: number = 50): Promise<FAQInquiry[]> {
+    try {
+      return await db.select()
+        .from(faqInquiries)
+        .where(status
+          ? and(eq(faqInquiries.organizationId, organizationId), eq(faqInquiries.status, status))
+          : eq(faqInquiries.organizationId, organizationId))
+        .orderBy(desc(faqInquiries.createdAt))
+        .limit(limit);
+    } catch (error) {
+      console.error('Error getting FAQ inquiries:', error);
+      return [];
+    }
+  }
+
+  async updateFAQInquiry(id: number, updates: Partial<InsertFAQInquiry>): Promise<FAQInquiry | undefined> {
+    try {
+      const [updated] = await db.update(faqInquiries)
+        .set({ ...updates, updatedAt: new Date() })
+        .where(eq(faqInquiries.id, id))
+        .returning();
+      return updated;
+    } catch (error) {
+      console.error('Error updating FAQ inquiry:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Approve a pending inquiry and promote the answer into faq_entries in one transaction.
+   * Returns undefined when the inquiry is no longer pending, e.g. the owner replied twice.
+   */
+  async approveFAQInquiry(
+    id: number,
+    approvedAnswer: string,
+    approvedBy: string,
+    entryData: InsertFAQEntry
+  ): Promise<{ inquiry: FAQInquiry; entry: FAQEntry } | undefined> {
+    try {
+      return await db.transaction(async (tx) => {
+        const [approved] = await tx.update(faqInquiries)
+          .set({ status: 'approved', approvedAnswer, approvedBy, approvedAt: new Date(), updatedAt: new Date() })
+          .where(and(eq(faqInquiries.id, id), eq(faqInquiries.status, 'pending_review')))
+          .returning();
+        if (!approved) return undefined;
+
+        const [entry] = await tx.insert(faqEntries).values(entryData).returning();
+        const [inquiry] = await tx.update(faqInquiries)
+          .set({ faqEntryId: entry.id })
+          .where(eq(faqInquiries.id, id))
+          .returning();
+        return { inquiry, entry };
+      });
+    } catch (error) {
+      console.error('Error approving FAQ inquiry:', error);
+      throw error;
+    }
+  }
+
   // Notification preferences methods
   async upsertNotificationPreferences(userId: string, preferences: any): Promise<NotificationPreferences> {
     try {
@@ -2123,6 +2448,150 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  /**
+   * Users who asked for the weekly digest and still receive email notifications
+   */
+  async getWeeklyDigestRecipients(): Promise<Array<{ user: User; preferences: NotificationPreferences }>> {
+    try {
+      return await db.select({ user: users, preferences: notificationPreferences })
+        .from(notificationPreferences)
+        .innerJoin(users, eq(users.id, notificationPreferences.userId))
+        .where(and(
+          eq(notificationPreferences.weeklyDigest, true),
+          eq(notificationPreferences.emailNotifications, true),
+          isNotNull(users.email)
+        ));
+    } catch (error) {
+      console.error('Error getting weekly digest recipients:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Activity of the weekly digest between `since` and `until`: tasks assigned to the user, tasks
+   * completed and overdue in their projects (created or participated in), insights of polling
+   * agents they can view, polls still open to them and activity of the FAQ organizations they own
+   */
+  async getWeeklyDigestActivity(userId: string, email: string, since: Date, until: Date): Promise<WeeklyDigestActivity> {
+    const userProjects = db.select({ id: projects.id }).from(projects).where(or(
+      eq(projects.createdBy, userId),
+      inArray(projects.id, db.select({ id: projectParticipants.projectId }).from(projectParticipants)
+        .where(eq(projectParticipants.userId, userId)))
+    ));
+    const isDone = inArray(sql`lower(${tasks.status})`, DONE_TASK_STATUSES);
+    const taskColumns = {
+      id: tasks.id,
+      title: tasks.title,
+      projectId: tasks.projectId,
+      projectName: projects.name,
+      priority: tasks.priority,
+      status: tasks.status,
+      dueDate: tasks.dueDate,
+    };
+    const assignedToUser = inArray(tasks.id, db.select({ id: taskAssignees.taskId }).from(taskAssignees)
+      .where(eq(taskAssignees.userId, userId)));
+
+    const [assignedTasks, completedTasks, overdueTasks] = await Promise.all([
+      db.selectDistinct(taskColumns)
+        .from(tasks)
+        .innerJoin(projects, eq(projects.id, tasks.projectId))
+        .innerJoin(taskAssignees, eq(taskAssignees.taskId, tasks.id))
+        .where(and(
+          eq(taskAssignees.userId, userId),
+          gte(taskAssignees.assignedAt, since),
+          lte(taskAssignees.assignedAt, until)
+        ))
+        .orderBy(asc(tasks.id))
+        .limit(50),
+      db.select(taskColumns)
+        .from(tasks)
+        .innerJoin(projects, eq(projects.id, tasks.projectId))
+        .where(and(
+          inArray(tasks.projectId, userProjects),
+          isDone,
+          gte(tasks.updatedAt, since),
+          lte(tasks.updatedAt, until)
+        ))
+        .orderBy(desc(tasks.updatedAt))
+        .limit(50),
+      db.select(taskColumns)
+        .from(tasks)
+        .innerJoin(projects, eq(projects.id, tasks.projectId))
+        .where(and(assignedToUser, not(isDone), isNotNull(tasks.dueDate), lte(tasks.dueDate, until)))
+        .orderBy(asc(tasks.dueDate))
+        .limit(50),
+    ]) as [DigestTask[], DigestTask[], DigestTask[]];
+
+    const visibleAgents = or(
+      eq(pollingAgents.createdBy, userId),
+      inArray(pollingAgents.id, db.select({ id: pollingAgentParticipants.pollingAgentId }).from(pollingAgentParticipants)
+        .where(and(
+          eq(pollingAgentParticipants.userId, userId),
+          eq(pollingAgentParticipants.isActive, true),
+          eq(pollingAgentParticipants.canViewInsights, true)
+        ))),
+      inArray(pollingAgents.companyId, db.select({ id: companyMemberships.companyId }).from(companyMemberships)
+        .where(and(eq(companyMemberships.userId, userId), eq(companyMemberships.isActive, true))))
+    );
+
+    const [insights, openPolls, faqActivity] = await Promise.all([
+      db.select({
+        id: pollingInsights.id,
+        title: pollingInsights.title,
+        description: pollingInsights.description,
+        agentName: pollingAgents.name,
+        priority: pollingInsights.priority,
+        isAlert: sql<boolean>`coalesce(${pollingInsights.isAlert}, false)`,
+        createdAt: pollingInsights.createdAt,
+      })
+        .from(pollingInsights)
+        .innerJoin(pollingAgents, eq(pollingAgents.id, pollingInsights.pollingAgentId))
+        .where(and(visibleAgents, gte(pollingInsights.createdAt, since), lte(pollingInsights.createdAt, until)))
+        .orderBy(desc(pollingInsights.isAlert), desc(pollingInsights.createdAt))
+        .limit(20),
+      db.select({
+        id: polls.id,
+        title: polls.title,
+        expiresAt: polls.expiresAt,
+        hasVoted: sql<boolean>`exists (select 1 from ${pollVotes} where ${pollVotes.pollId} = ${polls.id} and ${pollVotes.userId} = ${userId})`,
+      })
+        .from(polls)
+        .where(and(
+          eq(polls.status, 'active'),
+          or(isNull(polls.expiresAt), gt(polls.expiresAt, until)),
+          or(
+            eq(polls.createdBy, userId),
+            sql`${email} = any(${polls.participantEmails})`,
+            inArray(polls.projectId, userProjects)
+          )
+        ))
+        .orderBy(asc(polls.expiresAt))
+        .limit(20),
+      db.select({
+        organizationId: faqOrganizations.id,
+        organizationName: faqOrganizations.name,
+        newInquiries: sql<number>`(select count(*) from ${faqInquiries} where ${faqInquiries.organizationId} = ${faqOrganizations.id}
+          and ${faqInquiries.createdAt} between ${since.toISOString()} and ${until.toISOString()})::int`,
+        pendingReview: sql<number>`(select count(*) from ${faqInquiries} where ${faqInquiries.organizationId} = ${faqOrganizations.id}
+          and ${faqInquiries.status} = 'pending_review')::int`,
+        newEntries: sql<number>`(select count(*) from ${faqEntries} where ${faqEntries.organizationId} = ${faqOrganizations.id}
+          and ${faqEntries.createdAt} between ${since.toISOString()} and ${until.toISOString()})::int`,
+      })
+        .from(faqOrganizations)
+        .where(eq(faqOrganizations.createdBy, userId))
+        .orderBy(asc(faqOrganizations.name)),
+    ]);
+
+    return {
+      assignedTasks,
+      completedTasks,
+      overdueTasks,
+      insights,
+      openPolls,
+      faqActivity: faqActivity.filter(org => org.newInquiries + org.pendingReview + org.newEntries > 0),
+    };
+  }
+
   // Polling agent methods
   async getPollingAgentsForUser(userId: string): Promise<PollingAgent[]> {
     try {
@@ -2225,6 +2694,128 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  // Quarantined attachment operations
+  async createQuarantinedAttachment(attachmentData: InsertQuarantinedAttachment): Promise<QuarantinedAttachment> {
+    try {
+      const [attachment] = await db.insert(quarantinedAttachments)
+        .values(attachmentData)
+        .returning();
+      return attachment;
+    } catch (error) {
+      console.error('Error creating quarantined attachment:', error);
+      throw error;
+    }
+  }
+
+  async getQuarantinedAttachments(limit: number = 50): Promise<QuarantinedAttachment[]> {
+    try {
+      return await db.select()
+        .from(quarantinedAttachments)
+        .orderBy(desc(quarantinedAttachments.createdAt))
+        .limit(limit);
+    } catch (error) {
+      console.error('Error getting quarantined attachments:', error);
+      return [];
+    }
+  }
+
+  async markQuarantinedAttachmentsNotified(ids: number[]): Promise<void> {
+    if (ids.length === 0) return;
+    try {
+      await db.update(quarantinedAttachments)
+        .set({ notifiedAt: new Date() })
+        .where(inArray(quarantinedAttachments.id, ids));
+    } catch (error) {
+      console.error('Error marking quarantined attachments notified:', error);
+    }
+  }
+
+  // AI usage operations
+  async createAiUsageEvent(eventData: InsertAiUsageEvent): Promise<AiUsageEvent> {
+    const [event] = await db.insert(aiUsageEvents)
+      .values(eventData)
+      .returning();
+    return event;
+  }
+
+  async getAiUsageCostSince(companyId: number, since: Date): Promise<number> {
+    const [result] = await db.select({ total: sql<string | null>`sum(${aiUsageEvents.costUsd})` })
+      .from(aiUsageEvents)
+      .where(and(eq(aiUsageEvents.companyId, companyId), gte(aiUsageEvents.createdAt, since)));
+    return Number(result?.total ?? 0);
+  }
+
+  /**
+   * Usage since a date, summed per day, agent, model and company
+   */
+  async getAiUsageTotals(since: Date, companyId?: number): Promise<Array<{
+    day: string;
+    agent: string;
+    model: string;
+    companyId: number | null;
+    requests: number;
+    failedRequests: number;
+    inputTokens: number;
+    outputTokens: number;
+    costUsd: number;
+  }>> {
+    const day = sql<string>`to_char(date_trunc('day', ${aiUsageEvents.createdAt}), 'YYYY-MM-DD')`;
+    const conditions = [gte(aiUsageEvents.createdAt, since)];
+    if (companyId !== undefined) {
+      conditions.push(eq(aiUsageEvents.companyId, companyId));
+    }
+
+    const rows = await db.select({
+      day,
+      agent: aiUsageEvents.agent,
+      model: aiUsageEvents.model,
+      companyId: aiUsageEvents.companyId,
+      requests: sql<number>`count(*)`,
+      failedRequests: sql<number>`count(*) filter (where not ${aiUsageEvents.success})`,
+      inputTokens: sql<number>`coalesce(sum(${aiUsageEvents.inputTokens}), 0)`,
+      outputTokens: sql<number>`coalesce(sum(${aiUsageEvents.outputTokens}), 0)`,
+      costUsd: sql<string>`coalesce(sum(${aiUsageEvents.costUsd}), 0)`,
+    })
+      .from(aiUsageEvents)
+      .where(and(...conditions))
+      .groupBy(day, aiUsageEvents.agent, aiUsageEvents.model, aiUsageEvents.companyId)
+      .orderBy(day);
+
+    // Postgres returns counts and sums as strings
+    return rows.map(row => ({
+      ...row,
+      requests: Number(row.requests),
+      failedRequests: Number(row.failedRequests),
+      inputTokens: Number(row.inputTokens),
+      outputTokens: Number(row.outputTokens),
+      costUsd: Number(row.costUsd),
+    }));
+  }
+
+  async getCompanyAiBudget(companyId: number): Promise<CompanyAiBudget | undefined> {
+    const [budget] = await db.select()
+      .from(companyAiBudgets)
+      .where(eq(companyAiBudgets.companyId, companyId));
+    return budget;
+  }
+
+  async upsertCompanyAiBudget(companyId: number, budgetData: {
+    softLimitUsd?: string | null;
+    hardLimitUsd?: string | null;
+    softLimitNotifiedAt?: Date | null;
+    hardLimitNotifiedAt?: Date | null;
+    updatedBy?: string | null;
+  }): Promise<CompanyAiBudget> {
+    const [budget] = await db.insert(companyAiBudgets)
+      .values({ companyId, ...budgetData })
+      .onConflictDoUpdate({
+        target: companyAiBudgets.companyId,
+        set: { ...budgetData, updatedAt: new Date() },
+      })
+      .returning();
+    return budget;
+  }
+
   // Document Analysis Result operations
   async createDocumentAnalysisResult(resultData: any): Promise<any> {
     try {
@@ -2251,6 +2842,19 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  async getDocumentAnalysisResultsWithInlineContent(afterId: number, limit: number): Promise<Array<{ id: number; content: string | null }>> {
+    try {
+      return await db.select({ id: documentAnalysisResults.id, content: documentAnalysisResults.content })
+        .from(documentAnalysisResults)
+        .where(and(gt(documentAnalysisResults.id, afterId), isNotNull(documentAnalysisResults.content)))
+        .orderBy(asc(documentAnalysisResults.id))
+        .limit(limit);
+    } catch (error) {
+      console.error('Error getting document analysis results with inline content:', error);
+      throw error;
+    }
+  }
+
   async getDocumentAnalysisResult(id: number): Promise<any | undefined> {
     try {
       const [result] = await db.select()
@@ -2300,34 +2904,426 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
-  // Polly polling methods (stub implementations)
-  async createPoll(pollData: any): Promise<any> {
-    console.warn('createPoll is not implemented yet');
-    return null;
+  // Poll operations
+  async createPoll(pollData: InsertPoll): Promise<Poll> {
+    try {
+      const [poll] = await db.insert(polls)
+        .values(pollData)
+        .returning();
+      return poll;
+    } catch (error) {
+      console.error('Error creating poll:', error);
+      throw error;
+    }
+  }
+
+  async getPoll(pollId: number): Promise<Poll | undefined> {
+    try {
+      const [poll] = await db.select()
+        .from(polls)
+        .where(eq(polls.id, pollId));
+      return poll;
+    } catch (error) {
+      console.error('Error getting poll:', error);
+      return undefined;
+    }
+  }
+
+  async getPollByMessageId(messageId: string): Promise<Poll | undefined> {
+    try {
+      const [poll] = await db.select()
+        .from(polls)
+        .where(eq(polls.emailMessageId, messageId));
+      return poll;
+    } catch (error) {
+      console.error('Error getting poll by message ID:', error);
+      return undefined;
+    }
+  }
+
+  async getUserPolls(userId: string, userEmail?: string | null): Promise<Poll[]> {
+    try {
+      const conditions = [
+        eq(polls.createdBy, userId),
+        inArray(polls.projectId, db.select({ id: projectParticipants.projectId })
+          .from(projectParticipants)
+          .where(eq(projectParticipants.userId, userId))),
+        inArray(polls.id, db.select({ id: pollVotes.pollId })
+          .from(pollVotes)
+          .where(eq(pollVotes.userId, userId))),
+      ];
+      if (userEmail) {
+        conditions.push(sql`${userEmail.toLowerCase()} = ANY(${polls.participantEmails})`);
+      }
+
+      return await db.select()
+        .from(polls)
+        .where(or(...conditions))
+        .orderBy(desc(polls.createdAt));
+    } catch (error) {
+      console.error('Error getting user polls:', error);
+      return [];
+    }
+  }
+
+  async updatePoll(id: number, pollData: Partial<InsertPoll>): Promise<Poll> {
+    try {
+      const [poll] = await db.update(polls)
+        .set({ ...pollData, updatedAt: new Date() })
+        .where(eq(polls.id, id))
+        .returning();
+      return poll;
+    } catch (error) {
+      console.error('Error updating poll:', error);
+      throw error;
+    }
+  }
+
+  async getExpiredActivePolls(now: Date = new Date()): Promise<Poll[]> {
+    try {
+      return await db.select()
+        .from(polls)
+        .where(and(eq(polls.status, 'active'), lte(polls.expiresAt, now)))
+        .orderBy(asc(polls.expiresAt));
+    } catch (error) {
+      console.error('Error getting expired polls:', error);
+      return [];
+    }
   }
 
-  async getPoll(pollId: number): Promise<any> {
-    console.warn('getPoll is not implemented yet');
-    return null;
+  async closePoll(id: number): Promise<Poll | undefined> {
+    try {
+      // Only the caller that flips the status gets the poll back, so a poll is closed (and announced) once
+      const [poll] = await db.update(polls)
+        .set({ status: 'closed', closedAt: new Date(), updatedAt: new Date() })
+        .where(and(eq(polls.id, id), eq(polls.status, 'active')))
+        .returning();
+      return poll;
+    } catch (error) {
+      console.error('Error closing poll:', error);
+      throw error;
+    }
   }
 
-  async getPollByMessageId(messageId: string): Promise<any> {
-    console.warn('getPollByMessageId is not implemented yet');
-    return null;
+  async getPollVotes(pollId: number): Promise<PollVote[]> {
+    try {
+      return await db.select()
+        .from(pollVotes)
+        .where(eq(pollVotes.pollId, pollId))
+        .orderBy(asc(pollVotes.createdAt));
+    } catch (error) {
+      console.error('Error getting poll votes:', error);
+      return [];
+    }
   }
 
   async canUserVote(pollId: number, userId: string): Promise<boolean> {
-    console.warn('canUserVote is not implemented yet');
-    return false;
+    try {
+      const poll = await this.getPoll(pollId);
+      if (!poll || isPollExpired(poll)) {
+        return false;
+      }
+      if (poll.allowMultipleVotes) {
+        return true;
+      }
+
+      const [existingVote] = await db.select({ id: pollVotes.id })
+        .from(pollVotes)
+        .where(and(eq(pollVotes.pollId, pollId), eq(pollVotes.userId, userId)))
+        .limit(1);
+      return !existingVote;
+    } catch (error) {
+      console.error('Error checking if user can vote:', error);
+      return false;
+    }
+  }
+
+  async createVote(voteData: InsertPollVote): Promise<PollVote> {
+    try {
+      const poll = await this.getPoll(voteData.pollId);
+      if (!poll) {
+        throw new Error(`Poll ${voteData.pollId} not found`);
+      }
+      if (isPollExpired(poll)) {
+        throw new Error(`Poll ${poll.id} is no longer accepting votes`);
+      }
+
+      const { selectedOptions, error } = resolveVoteSelection(poll, voteData.selectedOptions);
+      if (error) {
+        throw new Error(error);
+      }
+
+      // The unique index, not a prior check, keeps concurrent requests from casting two ballots
+      const [vote] = await db.insert(pollVotes)
+        .values({ ...voteData, selectedOptions, multipleAllowed: !!poll.allowMultipleVotes })
+        .onConflictDoNothing()
+        .returning();
+      if (!vote) {
+        throw new Error(`User ${voteData.userId} has already voted in poll ${poll.id}`);
+      }
+      return vote;
+    } catch (error) {
+      console.error('Error creating vote:', error);
+      throw error;
+    }
+  }
+
+  async getPollResults(pollId: number): Promise<PollResults | undefined> {
+    try {
+      const poll = await this.getPoll(pollId);
+      if (!poll) {
+        return undefined;
+      }
+
+      const votes = await this.getPollVotes(pollId);
+      return tallyPollVotes(poll, votes);
+    } catch (error) {
+      console.error('Error getting poll results:', error);
+      return undefined;
+    }
+  }
+
+  // Agent auto-router decisions
+  async createAgentRoutingDecision(decisionData: InsertAgentRoutingDecision): Promise<AgentRoutingDecision> {
+    try {
+      const [decision] = await db.insert(agentRoutingDecisions)
+        .values(decisionData)
+        .returning();
+      return decision;
+    } catch (error) {
+      console.error('Error creating agent routing decision:', error);
+      throw error;
+    }
+  }
+
+  async getAgentRoutingDecisionByMessageId(messageId: string): Promise<AgentRoutingDecision | undefined> {
+    try {
+      const [decision] = await db.select()
+        .from(agentRoutingDecisions)
+        .where(eq(agentRoutingDecisions.messageId, messageId))
+        .orderBy(desc(agentRoutingDecisions.createdAt))
+        .limit(1);
+      return decision;
+    } catch (error) {
+      console.error('Error getting agent routing decision:', error);
+      return undefined;
+    }
+  }
+
+  async getRecentAgentRoutingDecisions(limit: number = 50): Promise<AgentRoutingDecision[]> {
+    try {
+      return await db.select()
+        .from(agentRoutingDecisions)
+        .orderBy(desc(agentRoutingDecisions.createdAt))
+        .limit(limit);
+    } catch (error) {
+      console.error('Error getting recent agent routing decisions:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Full-text search over emails, tasks, analyzed attachments and T5T submissions.
+   * In company mode only the company's projects and polling agents are searched; otherwise the
+   * user's own projects and agents outside any company. Analyzed documents have no company and
+   * are always limited to the user who received them.
+   */
+  async searchContent(
+    query: string,
+    scope: { userId: string; companyId: number | null },
+    filters: SearchFilters = {},
+    limit: number = 20,
+    offset: number = 0
+  ): Promise<SearchResults> {
+    const { userId, companyId } = scope;
+
+    // Company members only see the company's projects they created or take part in, like /api/projects
+    const isMember = sql`(p.created_by = ${userId} OR EXISTS (
+      SELECT 1 FROM project_participants pp WHERE pp.project_id = p.id AND pp.user_id = ${userId}))`;
+    const visibleProjects = companyId
+      ? sql`SELECT p.id, p.agent_instance_id FROM projects p
+          WHERE (p.company_id = ${companyId}
+            OR p.identity_id IN (SELECT id FROM identities WHERE company_id = ${companyId}))
+            AND ${isMember}`
+      : sql`SELECT p.id, p.agent_instance_id FROM projects p
+          WHERE p.company_id IS NULL
+            AND (p.identity_id IS NULL OR p.identity_id NOT IN (SELECT id FROM identities WHERE type = 'company'))
+            AND ${isMember}`;
+
+    const visibleSubmissions = companyId
+      ? sql`pa.company_id = ${companyId}`
+      : sql`pa.company_id IS NULL AND (s.submitter_user_id = ${userId} OR pa.created_by = ${userId})`;
+
+    const matches = sql`
+      q AS (SELECT websearch_to_tsquery('english', ${query}) AS query),
+      visible_projects AS (${visibleProjects}),
+      matches AS (
+        SELECT 'email' AS source_type, e.id, e.subject AS title, coalesce(e.body, '') AS body,
+          e.created_at AS occurred_at, ai.agent_type, e.project_id, ts_rank(e.search_vector, q.query) AS rank
+        FROM processed_emails e
+        JOIN visible_projects vp ON vp.id = e.project_id
+        LEFT JOIN agent_instances ai ON ai.id = vp.agent_instance_id
+        CROSS JOIN q
+        WHERE e.search_vector @@ q.query
+        UNION ALL
+        SELECT 'task', t.id, t.title, coalesce(t.description, ''),
+          t.created_at, ai.agent_type, t.project_id, ts_rank(t.search_vector, q.query)
+        FROM tasks t
+        JOIN visible_projects vp ON vp.id = t.project_id
+        LEFT JOIN agent_instances ai ON ai.id = vp.agent_instance_id
+        CROSS JOIN q
+        WHERE t.search_vector @@ q.query
+        UNION ALL
+        SELECT 'attachment', d.id, d.filename, coalesce(d.extracted_text, ''),
+          d.processed_at, 'analyzer', NULL::integer, ts_rank(d.search_vector, q.query)
+        FROM document_analysis_results d
+        CROSS JOIN q
+        WHERE d.user_id = ${userId} AND d.search_vector @@ q.query
+        UNION ALL
+        SELECT 't5t', s.id, s.subject, s.raw_content,
+          s.submission_date, 't5t', NULL::integer, ts_rank(s.search_vector, q.query)
+        FROM t5t_submissions s
+        JOIN polling_agents pa ON pa.id = s.polling_agent_id
+        CROSS JOIN q
+        WHERE ${visibleSubmissions} AND s.search_vector @@ q.query
+      )`;
+
+    const conditions = [sql`true`];
+    if (filters.sources && filters.sources.length > 0) {
+      conditions.push(sql`source_type IN (${sql.join(filters.sources.map(source => sql`${source}`), sql`, `)})`);
+    }
+    if (filters.agentType) {
+      conditions.push(sql`agent_type = ${filters.agentType}`);
+    }
+    if (filters.from) {
+      conditions.push(sql`occurred_at >= ${filters.from.toISOString()}`);
+    }
+    if (filters.to) {
+      conditions.push(sql`occurred_at <= ${filters.to.toISOString()}`);
+    }
+
+    // Headlines are the expensive part, so only the requested page gets them
+    const hitsQuery = sql`
+      WITH ${matches},
+      page AS (
+        SELECT *, count(*) OVER ()::int AS total FROM matches
+        WHERE ${sql.join(conditions, sql` AND `)}
+        ORDER BY rank DESC, occurred_at DESC NULLS LAST
+        LIMIT ${limit} OFFSET ${offset}
+      )
+      SELECT page.source_type, page.id, page.title, page.agent_type, page.project_id, page.occurred_at, page.rank, page.total,
+        ts_headline('english', page.body, q.query, ${SEARCH_HEADLINE_OPTIONS}) AS snippet
+      FROM page CROSS JOIN q
+      ORDER BY page.rank DESC, page.occurred_at DESC NULLS LAST`;
+
+    const facetsQuery = sql`
+      WITH ${matches}
+      SELECT 'sourceType' AS facet, source_type AS value, count(*)::int AS count FROM matches GROUP BY source_type
+      UNION ALL
+      SELECT 'agentType', agent_type, count(*)::int FROM matches WHERE agent_type IS NOT NULL GROUP BY agent_type
+      UNION ALL
+      SELECT 'month', to_char(occurred_at, 'YYYY-MM'), count(*)::int FROM matches WHERE occurred_at IS NOT NULL GROUP BY 2`;
+
+    const [hitRows, facetRows] = await Promise.all([
+      db.execute<{
+        source_type: SearchSourceType;
+        id: number;
+        title: string;
+        agent_type: string | null;
+        project_id: number | null;
+        occurred_at: Date | string | null;
+        rank: number;
+        total: number;
+        snippet: string;
+      }>(hitsQuery),
+      db.execute<{ facet: 'sourceType' | 'agentType' | 'month'; value: string; count: number }>(facetsQuery),
+    ]);
+
+    const hits: SearchHit[] = Array.from(hitRows).map(row => ({
+      sourceType: row.source_type,
+      id: row.id,
+      title: row.title,
+      snippet: row.snippet,
+      agentType: row.agent_type,
+      projectId: row.project_id,
+      date: row.occurred_at ? new Date(row.occurred_at).toISOString() : null,
+      rank: Number(row.rank),
+    }));
+
+    const facets: SearchResults['facets'] = { sourceType: [], agentType: [], month: [] };
+    for (const row of Array.from(facetRows)) {
+      facets[row.facet].push({ value: row.value, count: row.count });
+    }
+    facets.sourceType.sort((a, b) => b.count - a.count);
+    facets.agentType.sort((a, b) => b.count - a.count);
+    facets.month.sort((a, b) => b.value.localeCompare(a.value));
+
+    return {
+      query,
+      total: hitRows.length > 0 ? hitRows[0].total : 0,
+      hits,
+      facets,
+    };
+  }
+
+  // Email queue job operations - delegated to QueueStorage
+  async createEmailQueueJob(jobData: InsertEmailQueueJob): Promise<EmailQueueJob> {
+    return this.queueStorage.createEmailQueueJob(jobData);
+  }
+
+  async getEmailQueueJob(id: number): Promise<EmailQueueJob | undefined> {
+    return this.queueStorage.getEmailQueueJob(id);
+  }
+
+  async claimEmailQueueJobs(queue: string, workerId: string, limit: number, visibilityTimeoutMs: number, groupKey?: string): Promise<EmailQueueJob[]> {
+    return this.queueStorage.claimEmailQueueJobs(queue, workerId, limit, visibilityTimeoutMs, groupKey);
+  }
+
+  async extendEmailQueueJobLock(id: number, workerId: string, visibilityTimeoutMs: number): Promise<boolean> {
+    return this.queueStorage.extendEmailQueueJobLock(id, workerId, visibilityTimeoutMs);
+  }
+
+  async completeEmailQueueJob(id: number, workerId: string): Promise<void> {
+    return this.queueStorage.completeEmailQueueJob(id, workerId);
+  }
+
+  async retryEmailQueueJob(id: number, workerId: string, runAt: Date, errorMessage: string): Promise<void> {
+    return this.queueStorage.retryEmailQueueJob(id, workerId, runAt, errorMessage);
+  }
+
+  async deadLetterEmailQueueJob(id: number, workerId: string, errorMessage: string): Promise<void> {
+    return this.queueStorage.deadLetterEmailQueueJob(id, workerId, errorMessage);
+  }
+
+  async getEmailQueueJobCounts(queue: string): Promise<Record<EmailQueueJobStatus, number>> {
+    return this.queueStorage.getEmailQueueJobCounts(queue);
+  }
+
+  async getEmailQueueGroups(queue: string): Promise<Array<{ groupKey: string; count: number; oldestCreatedAt: Date }>> {
+    return this.queueStorage.getEmailQueueGroups(queue);
+  }
+
+  async getRecentEmailQueueJobs(queue: string, limit?: number): Promise<EmailQueueJob[]> {
+    return this.queueStorage.getRecentEmailQueueJobs(queue, limit);
+  }
+
+  async getDeadLetterEmailQueueJobs(queue?: string, limit?: number): Promise<EmailQueueJob[]> {
+    return this.queueStorage.getDeadLetterEmailQueueJobs(queue, limit);
+  }
+
+  async requeueEmailQueueJob(id: number): Promise<EmailQueueJob | undefined> {
+    return this.queueStorage.requeueEmailQueueJob(id);
+  }
+
+  async recordEmailQueueJobReplayFailure(id: number, errorMessage: string): Promise<void> {
+    return this.queueStorage.recordEmailQueueJobReplayFailure(id, errorMessage);
   }
 
-  async createVote(voteData: any): Promise<any> {
-    console.warn('createVote is not implemented yet');
-    return null;
+  async deleteEmailQueueJob(id: number): Promise<boolean> {
+    return this.queueStorage.deleteEmailQueueJob(id);
   }
 
-  async getPollResults(pollId: number): Promise<any> {
-    console.warn('getPollResults is not implemented yet');
-    return null;
+  async deleteCompletedEmailQueueJobs(olderThan: Date): Promise<number> {
+    return this.queueStorage.deleteCompletedEmailQueueJobs(olderThan);
   }
 }
@@ -1,10 +1,13 @@
 import { db } from '../db';
-import { eq, and, desc, asc, isNull, not, sql, or, inArray } from 'drizzle-orm';
+import { eq, and, desc, asc, isNull, isNotNull, lte, gte, not, sql, or, inArray } from 'drizzle-orm';
 import {
   projects,
   projectParticipants,
   tasks,
   taskAssignees,
+  taskDependencies,
+  taskActivities,
+  taskDueReminders,
   users,
   processedEmails,
   agentInstances,
@@ -16,8 +19,15 @@ import {
   type InsertTask,
   type TaskAssignee,
   type InsertTaskAssignee,
+  type TaskDependency,
+  type TaskActivity,
+  type InsertTaskActivity,
+  type TaskActivityWithUser,
+  type InsertTaskDueReminder,
+  type TaskDueReminderCandidate,
   type ProcessedEmail,
 } from '@email-task-router/shared';
+import { DONE_TASK_STATUSES } from '../utils/taskDependencies';
 
 export class ProjectStorage {
   private normalizeEmailList(emails: string[]): string[] {
@@ -512,6 +522,19 @@ export class ProjectStorage {
     }
   }
 
+  // Tasks created from the action items of an analyzed attachment
+  async getTasksBySourceAttachment(attachmentId: number): Promise<Task[]> {
+    try {
+      return await db.select()
+        .from(tasks)
+        .where(eq(tasks.sourceAttachmentId, attachmentId))
+        .orderBy(asc(tasks.createdAt));
+    } catch (error) {
+      console.error('Error getting tasks by source attachment:', error);
+      return [];
+    }
+  }
+
   async getTask(id: number): Promise<Task | undefined> {
     try {
       const [task] = await db.select()
@@ -583,6 +606,225 @@ export class ProjectStorage {
     }
   }
 
+  // Task dependency operations
+  async addTaskDependency(taskId: number, dependsOnTaskId: number): Promise<TaskDependency> {
+    try {
+      const [created] = await db.insert(taskDependencies)
+        .values({ taskId, dependsOnTaskId })
+        .onConflictDoNothing()
+        .returning();
+      if (created) return created;
+
+      const [existing] = await db.select()
+        .from(taskDependencies)
+        .where(and(eq(taskDependencies.taskId, taskId), eq(taskDependencies.dependsOnTaskId, dependsOnTaskId)));
+      return existing;
+    } catch (error) {
+      console.error('Error adding task dependency:', error);
+      throw error;
+    }
+  }
+
+  async removeTaskDependency(taskId: number, dependsOnTaskId: number): Promise<void> {
+    try {
+      await db.delete(taskDependencies)
+        .where(and(eq(taskDependencies.taskId, taskId), eq(taskDependencies.dependsOnTaskId, dependsOnTaskId)));
+    } catch (error) {
+      console.error('Error removing task dependency:', error);
+      throw error;
+    }
+  }
+
+  // Tasks that must finish before this one
+  async getTaskDependencies(taskId: number): Promise<TaskDependency[]> {
+    try {
+      return await db.select()
+        .from(taskDependencies)
+        .where(eq(taskDependencies.taskId, taskId));
+    } catch (error) {
+      console.error('Error getting task dependencies:', error);
+      return [];
+    }
+  }
+
+  // Tasks waiting on this one
+  async getTaskDependents(taskId: number): Promise<TaskDependency[]> {
+    try {
+      return await db.select()
+        .from(taskDependencies)
+        .where(eq(taskDependencies.dependsOnTaskId, taskId));
+    } catch (error) {
+      console.error('Error getting task dependents:', error);
+      return [];
+    }
+  }
+
+  async getProjectTaskDependencies(projectId: number): Promise<TaskDependency[]> {
+    try {
+      return await db.select({
+        id: taskDependencies.id,
+        taskId: taskDependencies.taskId,
+        dependsOnTaskId: taskDependencies.dependsOnTaskId,
+        createdAt: taskDependencies.createdAt,
+      })
+        .from(taskDependencies)
+        .innerJoin(tasks, eq(taskDependencies.taskId, tasks.id))
+        .where(eq(tasks.projectId, projectId));
+    } catch (error) {
+      console.error('Error getting project task dependencies:', error);
+      return [];
+    }
+  }
+
+  // Task activity operations
+  async createTaskActivity(activity: InsertTaskActivity): Promise<TaskActivity> {
+    try {
+      const [created] = await db.insert(taskActivities)
+        .values(activity)
+        .returning();
+      return created;
+    } catch (error) {
+      console.error('Error creating task activity:', error);
+      throw error;
+    }
+  }
+
+  // Oldest first, with the acting user
+  async getTaskActivities(taskId: number): Promise<TaskActivityWithUser[]> {
+    try {
+      const rows = await db.select({
+        activity: taskActivities,
+        user: {
+          id: users.id,
+          email: users.email,
+          firstName: users.firstName,
+          lastName: users.lastName,
+          profileImageUrl: users.profileImageUrl,
+        },
+      })
+        .from(taskActivities)
+        .leftJoin(users, eq(taskActivities.userId, users.id))
+        .where(eq(taskActivities.taskId, taskId))
+        .orderBy(asc(taskActivities.createdAt), asc(taskActivities.id));
+      return rows.map(row => ({ ...row.activity, user: row.user }));
+    } catch (error) {
+      console.error('Error getting task activities:', error);
+      return [];
+    }
+  }
+
+  // Recurring task operations
+  // Recurring tasks whose due date has passed and that have not been followed up yet
+  async getRecurringTasksDue(now: Date): Promise<Task[]> {
+    try {
+      return await db.select()
+        .from(tasks)
+        .where(and(
+          isNotNull(tasks.recurrenceRule),
+          isNull(tasks.recurrenceProcessedAt),
+          lte(tasks.dueDate, now)
+        ))
+        .orderBy(asc(tasks.dueDate));
+    } catch (error) {
+      console.error('Error getting due recurring tasks:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Create the occurrence following a recurring task and carry its assignees over.
+   * Returns undefined when that occurrence was already created.
+   */
+  async createTaskOccurrence(previousTaskId: number, occurrence: InsertTask): Promise<Task | undefined> {
+    try {
+      return await db.transaction(async (tx) => {
+        const [claimed] = await tx.update(tasks)
+          .set({ recurrenceProcessedAt: new Date() })
+          .where(and(eq(tasks.id, previousTaskId), isNull(tasks.recurrenceProcessedAt)))
+          .returning({ id: tasks.id });
+        if (!claimed) return undefined;
+
+        const [task] = await tx.insert(tasks).values(occurrence).returning();
+        const assignees = await tx.select()
+          .from(taskAssignees)
+          .where(eq(taskAssignees.taskId, previousTaskId));
+        if (assignees.length > 0) {
+          await tx.insert(taskAssignees)
+            .values(assignees.map(assignee => ({ taskId: task.id, userId: assignee.userId })));
+        }
+        return task;
+      });
+    } catch (error) {
+      console.error('Error creating task occurrence:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Open tasks due within [from, until], one entry per assignee
+   */
+  async getTaskDueReminderCandidates(from: Date, until: Date): Promise<TaskDueReminderCandidate[]> {
+    try {
+      const rows = await db.select({ task: tasks, projectName: projects.name, assignee: users })
+        .from(taskAssignees)
+        .innerJoin(tasks, eq(tasks.id, taskAssignees.taskId))
+        .innerJoin(projects, eq(projects.id, tasks.projectId))
+        .innerJoin(users, eq(users.id, taskAssignees.userId))
+        .where(and(
+          gte(tasks.dueDate, from),
+          lte(tasks.dueDate, until),
+          not(inArray(sql`lower(${tasks.status})`, DONE_TASK_STATUSES))
+        ))
+        .orderBy(asc(tasks.dueDate));
+
+      // An assignee can be listed twice on a task; remind them once
+      const seen = new Set<string>();
+      return rows.filter(row => {
+        const key = `${row.task.id}:${row.assignee.id}`;
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      });
+    } catch (error) {
+      console.error('Error getting tasks due for reminders:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Record a due-date reminder before it is sent. Returns false when it was already claimed,
+   * so concurrent runs and restarts never send the same reminder twice.
+   */
+  async claimTaskDueReminder(reminder: InsertTaskDueReminder): Promise<boolean> {
+    try {
+      const [claimed] = await db.insert(taskDueReminders)
+        .values(reminder)
+        .onConflictDoNothing()
+        .returning({ id: taskDueReminders.id });
+      return !!claimed;
+    } catch (error) {
+      console.error('Error claiming task due reminder:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Drop a claimed reminder that could not be delivered, so the next run retries it
+   */
+  async releaseTaskDueReminder(reminder: InsertTaskDueReminder): Promise<void> {
+    try {
+      await db.delete(taskDueReminders)
+        .where(and(
+          eq(taskDueReminders.taskId, reminder.taskId),
+          eq(taskDueReminders.userId, reminder.userId),
+          eq(taskDueReminders.offsetKey, reminder.offsetKey),
+          eq(taskDueReminders.dueDate, reminder.dueDate)
+        ));
+    } catch (error) {
+      console.error('Error releasing task due reminder:', error);
+    }
+  }
+
   // Get tasks assigned to a user
   async getUserAssignedTasks(userId: string, companyId?: number): Promise<Task[]> {
     try {
@@ -598,6 +840,11 @@ export class ProjectStorage {
         sourceEmailSubject: tasks.sourceEmailSubject,
         createdBy: tasks.createdBy,
         companyId: tasks.companyId,
+        recurrenceRule: tasks.recurrenceRule,
+        recurrenceSeriesId: tasks.recurrenceSeriesId,
+        recurrenceIndex: tasks.recurrenceIndex,
+        recurrenceProcessedAt: tasks.recurrenceProcessedAt,
+        sourceAttachmentId: tasks.sourceAttachmentId,
         createdAt: tasks.createdAt,
         updatedAt: tasks.updatedAt,
         assignees: sql`COALESCE(
@@ -658,6 +905,11 @@ export class ProjectStorage {
         sourceEmailSubject: tasks.sourceEmailSubject,
         createdBy: tasks.createdBy,
         companyId: tasks.companyId,
+        recurrenceRule: tasks.recurrenceRule,
+        recurrenceSeriesId: tasks.recurrenceSeriesId,
+        recurrenceIndex: tasks.recurrenceIndex,
+        recurrenceProcessedAt: tasks.recurrenceProcessedAt,
+        sourceAttachmentId: tasks.sourceAttachmentId,
         createdAt: tasks.createdAt,
         updatedAt: tasks.updatedAt,
         assignees: sql`COALESCE(
@@ -720,6 +972,11 @@ export class ProjectStorage {
         sourceEmailSubject: tasks.sourceEmailSubject,
         createdBy: tasks.createdBy,
         companyId: tasks.companyId,
+        recurrenceRule: tasks.recurrenceRule,
+        recurrenceSeriesId: tasks.recurrenceSeriesId,
+        recurrenceIndex: tasks.recurrenceIndex,
+        recurrenceProcessedAt: tasks.recurrenceProcessedAt,
+        sourceAttachmentId: tasks.sourceAttachmentId,
         createdAt: tasks.createdAt,
         updatedAt: tasks.updatedAt,
         assignees: sql`COALESCE(
@@ -787,6 +1044,11 @@ export class ProjectStorage {
         sourceEmailSubject: tasks.sourceEmailSubject,
         createdBy: tasks.createdBy,
         companyId: tasks.companyId,
+        recurrenceRule: tasks.recurrenceRule,
+        recurrenceSeriesId: tasks.recurrenceSeriesId,
+        recurrenceIndex: tasks.recurrenceIndex,
+        recurrenceProcessedAt: tasks.recurrenceProcessedAt,
+        sourceAttachmentId: tasks.sourceAttachmentId,
         createdAt: tasks.createdAt,
         updatedAt: tasks.updatedAt,
         assignees: sql`COALESCE(
@@ -0,0 +1,328 @@
+import { db } from '../db';
+import { eq, and, or, desc, asc, lte, lt, inArray, sql } from 'drizzle-orm';
+import {
+  emailQueueJobs,
+  type EmailQueueJob,
+  type InsertEmailQueueJob,
+  type EmailQueueJobStatus,
+} from '@email-task-router/shared';
+
+export class QueueStorage {
+  async createEmailQueueJob(jobData: InsertEmailQueueJob): Promise<EmailQueueJob> {
+    try {
+      const [job] = await db.insert(emailQueueJobs)
+        .values(jobData)
+        .returning();
+      return job;
+    } catch (error) {
+      console.error('Error creating email queue job:', error);
+      throw error;
+    }
+  }
+
+  async getEmailQueueJob(id: number): Promise<EmailQueueJob | undefined> {
+    try {
+      const [job] = await db.select()
+        .from(emailQueueJobs)
+        .where(eq(emailQueueJobs.id, id));
+      return job;
+    } catch (error) {
+      console.error('Error getting email queue job:', error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Claim up to `limit` runnable jobs for a worker. A job is runnable when it is queued and
+   * past its backoff, or when its previous worker's visibility timeout has lapsed. Rows locked
+   * by a concurrent claim are skipped rather than waited on.
+   */
+  async claimEmailQueueJobs(
+    queue: string,
+    workerId: string,
+    limit: number,
+    visibilityTimeoutMs: number,
+    groupKey?: string
+  ): Promise<EmailQueueJob[]> {
+    if (limit <= 0) return [];
+
+    try {
+      const now = new Date();
+      const conditions = [
+        eq(emailQueueJobs.queue, queue),
+        or(
+          and(eq(emailQueueJobs.status, 'queued'), lte(emailQueueJobs.runAt, now)),
+          and(eq(emailQueueJobs.status, 'processing'), lt(emailQueueJobs.lockedUntil, now))
+        ),
+      ];
+      if (groupKey !== undefined) {
+        conditions.push(eq(emailQueueJobs.groupKey, groupKey));
+      }
+
+      return await db.transaction(async (tx) => {
+        const candidates = await tx.select({ id: emailQueueJobs.id })
+          .from(emailQueueJobs)
+          .where(and(...conditions))
+          .orderBy(desc(emailQueueJobs.priority), asc(emailQueueJobs.runAt), asc(emailQueueJobs.id))
+          .limit(limit)
+          .for('update', { skipLocked: true });
+
+        if (candidates.length === 0) {
+          return [];
+        }
+
+        return await tx.update(emailQueueJobs)
+          .set({
+            status: 'processing',
+            attempts: sql`${emailQueueJobs.attempts} + 1`,
+            lockedBy: workerId,
+            lockedUntil: new Date(now.getTime() + visibilityTimeoutMs),
+            updatedAt: now,
+          })
+          .where(inArray(emailQueueJobs.id, candidates.map(candidate => candidate.id)))
+          .returning();
+      });
+    } catch (error) {
+      console.error('Error claiming email queue jobs:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Push out the visibility timeout of a job the worker is still running.
+   * Returns false when the worker no longer holds the job.
+   */
+  async extendEmailQueueJobLock(id: number, workerId: string, visibilityTimeoutMs: number): Promise<boolean> {
+    try {
+      const updated = await db.update(emailQueueJobs)
+        .set({ lockedUntil: new Date(Date.now() + visibilityTimeoutMs), updatedAt: new Date() })
+        .where(and(
+          eq(emailQueueJobs.id, id),
+          eq(emailQueueJobs.lockedBy, workerId),
+          eq(emailQueueJobs.status, 'processing')
+        ))
+        .returning({ id: emailQueueJobs.id });
+      return updated.length > 0;
+    } catch (error) {
+      console.error('Error extending email queue job lock:', error);
+      return false;
+    }
+  }
+
+  async completeEmailQueueJob(id: number, workerId: string): Promise<void> {
+    try {
+      await db.update(emailQueueJobs)
+        .set({
+          status: 'completed',
+          lockedBy: null,
+          lockedUntil: null,
+          completedAt: new Date(),
+          updatedAt: new Date(),
+        })
+        .where(and(eq(emailQueueJobs.id, id), eq(emailQueueJobs.lockedBy, workerId)));
+    } catch (error) {
+      console.error('Error completing email queue job:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Release a failed job back to the queue, invisible until `runAt`
+   */
+  async retryEmailQueueJob(id: number, workerId: string, runAt: Date, errorMessage: string): Promise<void> {
+    try {
+      await db.update(emailQueueJobs)
+        .set({
+          status: 'queued',
+          runAt,
+          lockedBy: null,
+          lockedUntil: null,
+          lastError: errorMessage,
+          updatedAt: new Date(),
+        })
+        .where(and(eq(emailQueueJobs.id, id), eq(emailQueueJobs.lockedBy, workerId)));
+    } catch (error) {
+      console.error('Error scheduling email queue job retry:', error);
+      throw error;
+    }
+  }
+
+  async deadLetterEmailQueueJob(id: number, workerId: string, errorMessage: string): Promise<void> {
+    try {
+      await db.update(emailQueueJobs)
+        .set({
+          status: 'dead_letter',
+          lockedBy: null,
+          lockedUntil: null,
+          lastError: errorMessage,
+          deadLetteredAt: new Date(),
+          updatedAt: new Date(),
+        })
+        .where(and(eq(emailQueueJobs.id, id), eq(emailQueueJobs.lockedBy, workerId)));
+    } catch (error) {
+      console.error('Error dead-lettering email queue job:', error);
+      throw error;
+    }
+  }
+
+  async getEmailQueueJobCounts(queue: string): Promise<Record<EmailQueueJobStatus, number>> {
+    const counts: Record<EmailQueueJobStatus, number> = { queued: 0, processing: 0, completed: 0, dead_letter: 0 };
+    try {
+      const rows = await db.select({
+        status: emailQueueJobs.status,
+        count: sql<number>`count(*)::int`,
+      })
+        .from(emailQueueJobs)
+        .where(eq(emailQueueJobs.queue, queue))
+        .groupBy(emailQueueJobs.status);
+
+      for (const row of rows) {
+        counts[row.status as EmailQueueJobStatus] = row.count;
+      }
+      return counts;
+    } catch (error) {
+      console.error('Error getting email queue job counts:', error);
+      return counts;
+    }
+  }
+
+  /**
+   * Runnable jobs per group, with the age of the oldest one, for batch scheduling. Jobs left
+   * processing by a worker that died count once their visibility timeout has lapsed, so they
+   * are claimed again after a restart.
+   */
+  async getEmailQueueGroups(queue: string): Promise<Array<{ groupKey: string; count: number; oldestCreatedAt: Date }>> {
+    try {
+      const now = new Date();
+      const rows = await db.select({
+        groupKey: emailQueueJobs.groupKey,
+        count: sql<number>`count(*)::int`,
+        oldestCreatedAt: sql<string>`min(${emailQueueJobs.createdAt})`,
+      })
+        .from(emailQueueJobs)
+        .where(and(
+          eq(emailQueueJobs.queue, queue),
+          or(
+            eq(emailQueueJobs.status, 'queued'),
+            and(eq(emailQueueJobs.status, 'processing'), lt(emailQueueJobs.lockedUntil, now))
+          )
+        ))
+        .groupBy(emailQueueJobs.groupKey);
+
+      return rows
+        .filter(row => row.groupKey !== null)
+        .map(row => ({
+          groupKey: row.groupKey as string,
+          count: row.count,
+          oldestCreatedAt: new Date(row.oldestCreatedAt),
+        }));
+    } catch (error) {
+      console.error('Error getting email queue groups:', error);
+      return [];
+    }
+  }
+
+  async getRecentEmailQueueJobs(queue: string, limit: number = 50): Promise<EmailQueueJob[]> {
+    try {
+      return await db.select()
+        .from(emailQueueJobs)
+        .where(eq(emailQueueJobs.queue, queue))
+        .orderBy(desc(emailQueueJobs.createdAt))
+        .limit(limit);
+    } catch (error) {
+      console.error('Error getting recent email queue jobs:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Dead-lettered jobs across all queues (or one queue), newest failure first
+   */
+  async getDeadLetterEmailQueueJobs(queue?: string, limit: number = 100): Promise<EmailQueueJob[]> {
+    try {
+      const conditions = [eq(emailQueueJobs.status, 'dead_letter')];
+      if (queue) {
+        conditions.push(eq(emailQueueJobs.queue, queue));
+      }
+
+      return await db.select()
+        .from(emailQueueJobs)
+        .where(and(...conditions))
+        .orderBy(desc(emailQueueJobs.deadLetteredAt), desc(emailQueueJobs.id))
+        .limit(limit);
+    } catch (error) {
+      console.error('Error getting dead-letter email queue jobs:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Move a dead-lettered job back to the queue with a fresh set of attempts.
+   * Returns undefined when the job is missing or no longer dead-lettered.
+   */
+  async requeueEmailQueueJob(id: number): Promise<EmailQueueJob | undefined> {
+    try {
+      const now = new Date();
+      const [job] = await db.update(emailQueueJobs)
+        .set({
+          status: 'queued',
+          attempts: 0,
+          runAt: now,
+          lockedBy: null,
+          lockedUntil: null,
+          deadLetteredAt: null,
+          updatedAt: now,
+        })
+        .where(and(eq(emailQueueJobs.id, id), eq(emailQueueJobs.status, 'dead_letter')))
+        .returning();
+      return job;
+    } catch (error) {
+      console.error('Error requeueing email queue job:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Note a failed replay on a dead-lettered job that is replayed in place rather than requeued
+   */
+  async recordEmailQueueJobReplayFailure(id: number, errorMessage: string): Promise<void> {
+    try {
+      const now = new Date();
+      await db.update(emailQueueJobs)
+        .set({
+          attempts: sql`${emailQueueJobs.attempts} + 1`,
+          lastError: errorMessage,
+          deadLetteredAt: now,
+          updatedAt: now,
+        })
+        .where(and(eq(emailQueueJobs.id, id), eq(emailQueueJobs.status, 'dead_letter')));
+    } catch (error) {
+      console.error('Error recording email queue job replay failure:', error);
+      throw error;
+    }
+  }
+
+  async deleteEmailQueueJob(id: number): Promise<boolean> {
+    try {
+      const deleted = await db.delete(emailQueueJobs)
+        .where(eq(emailQueueJobs.id, id))
+        .returning({ id: emailQueueJobs.id });
+      return deleted.length > 0;
+    } catch (error) {
+      console.error('Error deleting email queue job:', error);
+      throw error;
+    }
+  }
+
+  async deleteCompletedEmailQueueJobs(olderThan: Date): Promise<number> {
+    try {
+      const deleted = await db.delete(emailQueueJobs)
+        .where(and(eq(emailQueueJobs.status, 'completed'), lt(emailQueueJobs.completedAt, olderThan)))
+        .returning({ id: emailQueueJobs.id });
+      return deleted.length;
+    } catch (error) {
+      console.error('Error deleting completed email queue jobs:', error);
+      return 0;
+    }
+  }
+}
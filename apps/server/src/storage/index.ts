@@ -3,6 +3,7 @@ export { UserStorage } from './UserStorage';
 export { ProjectStorage } from './ProjectStorage';
 export { CompanyStorage } from './CompanyStorage';
 export { AgentStorage } from './AgentStorage';
+export { QueueStorage } from './QueueStorage';
 export type { IStorage } from './interfaces';
 
 // Create and export the main storage instance
@@ -7,6 +7,12 @@ import type {
   InsertTask,
   TaskAssignee,
   InsertTaskAssignee,
+  TaskDependency,
+  TaskActivity,
+  InsertTaskActivity,
+  TaskActivityWithUser,
+  InsertTaskDueReminder,
+  TaskDueReminderCandidate,
   EmailCredentials,
   InsertEmailCredentials,
   ProcessedEmail,
@@ -57,6 +63,30 @@ import type {
   InsertSOPDocument,
   FAQEntry,
   InsertFAQEntry,
+  Poll,
+  InsertPoll,
+  PollVote,
+  InsertPollVote,
+  PollResults,
+  EmailQueueJob,
+  InsertEmailQueueJob,
+  EmailQueueJobStatus,
+  AgentRoutingDecision,
+  InsertAgentRoutingDecision,
+  FAQKnowledgeChunk,
+  InsertFAQKnowledgeChunk,
+  FAQKnowledgeSourceType,
+  FAQInquiry,
+  InsertFAQInquiry,
+  FAQInquiryStatus,
+  SearchFilters,
+  SearchResults,
+  AiUsageEvent,
+  InsertAiUsageEvent,
+  CompanyAiBudget,
+  QuarantinedAttachment,
+  InsertQuarantinedAttachment,
+  WeeklyDigestActivity,
 } from '@email-task-router/shared';
 
 export interface IStorage {
@@ -70,7 +100,10 @@ export interface IStorage {
   createUserLinkedAccount(accountData: InsertUserLinkedAccount): Promise<UserLinkedAccount>;
   getUserLinkedAccounts(userId: string): Promise<UserLinkedAccount[]>;
   getUserByProviderAccount(provider: string, providerAccountId: string): Promise<User | undefined>;
+  getLinkedAccount(accountId: number): Promise<UserLinkedAccount | undefined>;
+  updateLinkedAccount(accountId: number, accountData: Partial<InsertUserLinkedAccount>): Promise<UserLinkedAccount>;
   updateLinkedAccountLastUsed(accountId: number): Promise<void>;
+  getLinkedAccountTokensBatch(afterId: number, limit: number): Promise<Array<{ id: number; accessToken: string | null; refreshToken: string | null }>>;
   
   // Project operations
   createProject(projectData: InsertProject): Promise<Project>;
@@ -94,6 +127,7 @@ export interface IStorage {
   // Task operations
   createTask(taskData: InsertTask): Promise<Task>;
   getTasks(projectId: number): Promise<Task[]>;
+  getTasksBySourceAttachment(attachmentId: number): Promise<Task[]>;
   getTask(id: number): Promise<Task | undefined>;
   updateTask(id: number, taskData: Partial<InsertTask>): Promise<Task>;
   deleteTask(id: number): Promise<void>;
@@ -103,6 +137,20 @@ export interface IStorage {
   getTaskAssignees(taskId: number): Promise<TaskAssignee[]>;
   unassignTask(taskId: number, userId: string): Promise<void>;
   
+  // Task dependency operations
+  addTaskDependency(taskId: number, dependsOnTaskId: number): Promise<TaskDependency>;
+  removeTaskDependency(taskId: number, dependsOnTaskId: number): Promise<void>;
+  getTaskDependencies(taskId: number): Promise<TaskDependency[]>;
+  getTaskDependents(taskId: number): Promise<TaskDependency[]>;
+  getProjectTaskDependencies(projectId: number): Promise<TaskDependency[]>;
+  createTaskActivity(activity: InsertTaskActivity): Promise<TaskActivity>;
+  getTaskActivities(taskId: number): Promise<TaskActivityWithUser[]>;
+  getRecurringTasksDue(now: Date): Promise<Task[]>;
+  createTaskOccurrence(previousTaskId: number, occurrence: InsertTask): Promise<Task | undefined>;
+  getTaskDueReminderCandidates(from: Date, until: Date): Promise<TaskDueReminderCandidate[]>;
+  claimTaskDueReminder(reminder: InsertTaskDueReminder): Promise<boolean>;
+  releaseTaskDueReminder(reminder: InsertTaskDueReminder): Promise<void>;
+  
   // User task query operations
   getUserAssignedTasks(userId: string, companyId?: number): Promise<Task[]>;
   getTasksAssignedByUser(userId: string, companyId?: number): Promise<Task[]>;
@@ -117,6 +165,7 @@ export interface IStorage {
   getEmailCredentials(id: number): Promise<EmailCredentials | undefined>;
   updateEmailCredentials(id: number, credentialsData: Partial<InsertEmailCredentials>): Promise<EmailCredentials>;
   deleteEmailCredentials(id: number): Promise<void>;
+  getEmailCredentialsBatch(afterId: number, limit: number): Promise<Array<{ id: number; imapPassword: string }>>;
   
   // Processed email operations
   createProcessedEmail(emailData: InsertProcessedEmail): Promise<ProcessedEmail>;
@@ -124,6 +173,11 @@ export interface IStorage {
   getRecentProcessedEmails(limit?: number): Promise<ProcessedEmail[]>;
   updateProcessedEmail(id: number, emailData: Partial<InsertProcessedEmail>): Promise<ProcessedEmail>;
   
+  // Quarantined attachment operations
+  createQuarantinedAttachment(attachmentData: InsertQuarantinedAttachment): Promise<QuarantinedAttachment>;
+  getQuarantinedAttachments(limit?: number): Promise<QuarantinedAttachment[]>;
+  markQuarantinedAttachmentsNotified(ids: number[]): Promise<void>;
+  
   // User trust relationship operations
   createUserTrustRelationship(relationshipData: InsertUserTrustRelationship): Promise<UserTrustRelationship>;
   getUserTrustRelationship(userId: string, trustedUserId: string): Promise<UserTrustRelationship | undefined>;
@@ -137,6 +191,8 @@ export interface IStorage {
   getUserNotificationPreferences(userId: string): Promise<NotificationPreferences | undefined>;
   getNotificationPreferences(userId: string): Promise<NotificationPreferences | undefined>;
   updateNotificationPreferences(id: number, preferencesData: Partial<InsertNotificationPreferences>): Promise<NotificationPreferences>;
+  getWeeklyDigestRecipients(): Promise<Array<{ user: User; preferences: NotificationPreferences }>>;
+  getWeeklyDigestActivity(userId: string, email: string, since: Date, until: Date): Promise<WeeklyDigestActivity>;
   
   // Polling agent operations
   createPollingAgent(agentData: InsertPollingAgent): Promise<PollingAgent>;
@@ -280,4 +336,77 @@ export interface IStorage {
   getFAQEntry(id: number): Promise<FAQEntry | null>;
   updateFAQEntry(id: number, updateData: Partial<InsertFAQEntry>): Promise<FAQEntry>;
   deleteFAQEntry(id: number): Promise<void>;
-}
\ No newline at end of file
+
+  // FAQ knowledge index operations
+  getFAQKnowledgeChunks(organizationId: number): Promise<FAQKnowledgeChunk[]>;
+  replaceFAQKnowledgeChunks(organizationId: number, sourceType: FAQKnowledgeSourceType, sourceId: number, chunks: InsertFAQKnowledgeChunk[]): Promise<void>;
+  deleteFAQKnowledgeChunks(organizationId: number, sourceType: FAQKnowledgeSourceType, sourceId: number): Promise<void>;
+
+  // FAQ inquiry operations
+  createFAQInquiry(inquiry: InsertFAQInquiry): Promise<FAQInquiry>;
+  getFAQInquiry(id: number): Promise<FAQInquiry | null>;
+  getFAQInquiriesByOrganization(organizationId: number, status?: FAQInquiryStatus, limit?: number): Promise<FAQInquiry[]>;
+  updateFAQInquiry(id: number, updates: Partial<InsertFAQInquiry>): Promise<FAQInquiry | undefined>;
+  approveFAQInquiry(id: number, approvedAnswer: string, approvedBy: string, entryData: InsertFAQEntry): Promise<{ inquiry: FAQInquiry; entry: FAQEntry } | undefined>;
+
+  // Poll operations
+  createPoll(pollData: InsertPoll): Promise<Poll>;
+  getPoll(pollId: number): Promise<Poll | undefined>;
+  getPollByMessageId(messageId: string): Promise<Poll | undefined>;
+  getUserPolls(userId: string, userEmail?: string | null): Promise<Poll[]>;
+  updatePoll(id: number, pollData: Partial<InsertPoll>): Promise<Poll>;
+  getExpiredActivePolls(now?: Date): Promise<Poll[]>;
+  closePoll(id: number): Promise<Poll | undefined>;
+  getPollVotes(pollId: number): Promise<PollVote[]>;
+  canUserVote(pollId: number, userId: string): Promise<boolean>;
+  createVote(voteData: InsertPollVote): Promise<PollVote>;
+  getPollResults(pollId: number): Promise<PollResults | undefined>;
+
+  // Email queue job operations
+  createEmailQueueJob(jobData: InsertEmailQueueJob): Promise<EmailQueueJob>;
+  getEmailQueueJob(id: number): Promise<EmailQueueJob | undefined>;
+  claimEmailQueueJobs(queue: string, workerId: string, limit: number, visibilityTimeoutMs: number, groupKey?: string): Promise<EmailQueueJob[]>;
+  extendEmailQueueJobLock(id: number, workerId: string, visibilityTimeoutMs: number): Promise<boolean>;
+  completeEmailQueueJob(id: number, workerId: string): Promise<void>;
+  retryEmailQueueJob(id: number, workerId: string, runAt: Date, errorMessage: string): Promise<void>;
+  deadLetterEmailQueueJob(id: number, workerId: string, errorMessage: string): Promise<void>;
+  getEmailQueueJobCounts(queue: string): Promise<Record<EmailQueueJobStatus, number>>;
+  getEmailQueueGroups(queue: string): Promise<Array<{ groupKey: string; count: number; oldestCreatedAt: Date }>>;
+  getRecentEmailQueueJobs(queue: string, limit?: number): Promise<EmailQueueJob[]>;
+  getDeadLetterEmailQueueJobs(queue?: string, limit?: number): Promise<EmailQueueJob[]>;
+  requeueEmailQueueJob(id: number): Promise<EmailQueueJob | undefined>;
+  recordEmailQueueJobReplayFailure(id: number, errorMessage: string): Promise<void>;
+  deleteEmailQueueJob(id: number): Promise<boolean>;
+  deleteCompletedEmailQueueJobs(olderThan: Date): Promise<number>;
+
+  // Agent auto-router decisions
+  createAgentRoutingDecision(decisionData: InsertAgentRoutingDecision): Promise<AgentRoutingDecision>;
+  getAgentRoutingDecisionByMessageId(messageId: string): Promise<AgentRoutingDecision | undefined>;
+  getRecentAgentRoutingDecisions(limit?: number): Promise<AgentRoutingDecision[]>;
+
+  // Full-text search
+  searchContent(query: string, scope: { userId: string; companyId: number | null }, filters?: SearchFilters, limit?: number, offset?: number): Promise<SearchResults>;
+
+  // AI usage operations
+  createAiUsageEvent(eventData: InsertAiUsageEvent): Promise<AiUsageEvent>;
+  getAiUsageCostSince(companyId: number, since: Date): Promise<number>;
+  getAiUsageTotals(since: Date, companyId?: number): Promise<Array<{
+    day: string;
+    agent: string;
+    model: string;
+    companyId: number | null;
+    requests: number;
+    failedRequests: number;
+    inputTokens: number;
+    outputTokens: number;
+    costUsd: number;
+  }>>;
+  getCompanyAiBudget(companyId: number): Promise<CompanyAiBudget | undefined>;
+  upsertCompanyAiBudget(companyId: number, budgetData: {
+    softLimitUsd?: string | null;
+    hardLimitUsd?: string | null;
+    softLimitNotifiedAt?: Date | null;
+    hardLimitNotifiedAt?: Date | null;
+    updatedBy?: string | null;
+  }): Promise<CompanyAiBudget>;
+}
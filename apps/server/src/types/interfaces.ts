@@ -1,3 +1,5 @@
+import type { MalwareScanResult } from '../services/malware/types';
+
 // Email agent interfaces and types
 export interface EmailData {
   from: string;
@@ -20,6 +22,7 @@ export interface EmailAttachment {
   size: number;
   content: Buffer;
   contentId?: string;
+  scan?: MalwareScanResult; // Set by the malware scan stage
 }
 
 export interface CommandResult {
@@ -0,0 +1,87 @@
+/**
+ * Reading the owner, deadline and urgency out of an action item written in a document,
+ * e.g. "Dana to update the FAQ by Friday" or "Book the venue (owner: Lee, due 2026-05-01)"
+ */
+
+export interface ParsedActionItem {
+  title: string;
+  assignee: string | null; // Name or email address as written; match it against participants
+  dueDate: Date | null;
+  priority: 'high' | 'medium';
+}
+
+const MAX_TITLE_LENGTH = 200;
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+const MONTHS = ['january', 'february', 'march', 'april', 'may', 'june', 'july', 'august', 'september', 'october', 'november', 'december'];
+
+const EMAIL = /[\w.+-]+@[\w-]+\.[\w.-]+/;
+const MENTION = /(?:^|\s)@([a-z][\w.-]*)/i;
+const OWNER_LABEL = /\b(?:[Oo]wner\s*:|[Aa]ssignee\s*:|[Aa]ssigned to)\s*([A-Za-z][\w'.-]*(?: [A-Z][\w'.-]*)?)/;
+const LEADING_OWNER = /^([A-Z][\w'.-]*(?: [A-Z][\w'.-]*)?)(?:\s+(?:to|will|should|must)\s+|\s*:\s+)/;
+const DUE_DATE = new RegExp(
+  `\\b(?:by|due(?: on| by)?|before|until)\\s+(\\d{4}-\\d{2}-\\d{2}|\\d{1,2}/\\d{1,2}/\\d{4}|` +
+  `(?:${MONTHS.join('|')})\\s+\\d{1,2}(?:st|nd|rd|th)?(?:,?\\s+\\d{4})?|(?:next\\s+)?(?:${WEEKDAYS.join('|')})|today|tomorrow|end of (?:the )?week)\\b`,
+  'i'
+);
+const URGENT = /\b(?:urgent|asap|critical|high priority|immediately)\b/i;
+
+/**
+ * Split an action item into task fields. Dates without a year fall on their next occurrence
+ * after `referenceDate`; weekdays always mean the coming one.
+ */
+export function parseActionItem(text: string, referenceDate: Date = new Date()): ParsedActionItem {
+  const title = text.replace(/\s+/g, ' ').trim();
+  const dueMatch = title.match(DUE_DATE);
+
+  return {
+    title: title.length > MAX_TITLE_LENGTH ? `${title.slice(0, MAX_TITLE_LENGTH - 3)}...` : title,
+    assignee: findAssignee(title),
+    dueDate: dueMatch ? resolveDueDate(dueMatch[1].toLowerCase(), referenceDate) : null,
+    priority: URGENT.test(title) ? 'high' : 'medium',
+  };
+}
+
+function findAssignee(text: string): string | null {
+  const email = text.match(EMAIL);
+  if (email) return email[0];
+
+  const named = text.match(MENTION) ?? text.match(OWNER_LABEL) ?? text.match(LEADING_OWNER);
+  return named ? named[1].replace(/[.,;]+$/, '') : null;
+}
+
+function resolveDueDate(phrase: string, referenceDate: Date): Date | null {
+  const today = new Date(Date.UTC(referenceDate.getUTCFullYear(), referenceDate.getUTCMonth(), referenceDate.getUTCDate()));
+  const addDays = (days: number) => new Date(today.getTime() + days * 86400000);
+
+  if (phrase === 'today') return today;
+  if (phrase === 'tomorrow') return addDays(1);
+  if (phrase.startsWith('end of')) return addDays((5 - today.getUTCDay() + 7) % 7); // Friday
+
+  const weekday = WEEKDAYS.indexOf(phrase.replace(/^next\s+/, ''));
+  if (weekday >= 0) {
+    return addDays((weekday - today.getUTCDay() + 7) % 7 || 7);
+  }
+
+  let match = phrase.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (match) return validDate(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+
+  match = phrase.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/); // US order, as in meeting notes
+  if (match) return validDate(Number(match[3]), Number(match[1]) - 1, Number(match[2]));
+
+  match = phrase.match(/^([a-z]+)\s+(\d{1,2})(?:st|nd|rd|th)?(?:,?\s+(\d{4}))?$/);
+  if (match) {
+    const month = MONTHS.indexOf(match[1]);
+    const day = Number(match[2]);
+    if (match[3]) return validDate(Number(match[3]), month, day);
+
+    const thisYear = validDate(today.getUTCFullYear(), month, day);
+    return thisYear && thisYear < today ? validDate(today.getUTCFullYear() + 1, month, day) : thisYear;
+  }
+
+  return null;
+}
+
+function validDate(year: number, month: number, day: number): Date | null {
+  const date = new Date(Date.UTC(year, month, day));
+  return date.getUTCMonth() === month && date.getUTCDate() === day ? date : null;
+}
@@ -0,0 +1,33 @@
+/**
+ * Helpers for reading the new text out of an email reply
+ */
+
+const REPLY_HEADER = /^On .+wrote:$/i; // Gmail, Apple Mail
+
+// Other lines that introduce the quoted original in common mail clients
+const QUOTE_HEADERS = [
+  /^-{2,}\s*Original Message\s*-{2,}$/i, // Outlook
+  /^_{10,}$/, // Outlook web separator
+  /^From:\s.+$/i, // Outlook header block
+];
+
+/**
+ * The text the sender wrote above the quoted original, without quote markers or a "-- " signature
+ */
+export function extractReplyText(body: string): string {
+  const lines = body.replace(/\r\n/g, '\n').split('\n');
+  const reply: string[] = [];
+
+  for (let index = 0; index < lines.length; index++) {
+    const line = lines[index].trim();
+    // Gmail wraps long "On <date>, <name> wrote:" headers over two lines
+    const nextLine = (lines[index + 1] || '').trim();
+
+    if (line === '--' || line.startsWith('>')) break;
+    if (REPLY_HEADER.test(line) || REPLY_HEADER.test(`${line} ${nextLine}`)) break;
+    if (QUOTE_HEADERS.some(pattern => pattern.test(line))) break;
+    reply.push(lines[index]);
+  }
+
+  return reply.join('\n').trim();
+}
@@ -0,0 +1,166 @@
+/**
+ * Chunking and BM25 scoring for the FAQ knowledge base index
+ */
+
+export interface KnowledgeChunkDraft {
+  section: string | null;
+  chunkIndex: number;
+  content: string;
+  termFrequencies: Record<string, number>;
+  termCount: number;
+}
+
+export interface IndexedChunk {
+  termFrequencies: Record<string, number>;
+  termCount: number;
+}
+
+export interface ScoredChunk<T> {
+  chunk: T;
+  score: number;
+}
+
+const MAX_CHUNK_LENGTH = 1200; // Characters; long sections are split on paragraph boundaries
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'can', 'could', 'do', 'does', 'for', 'from',
+  'had', 'has', 'have', 'how', 'i', 'if', 'in', 'into', 'is', 'it', 'its', 'me', 'my', 'no', 'not', 'of',
+  'on', 'or', 'our', 'should', 'so', 'that', 'the', 'their', 'them', 'then', 'there', 'these', 'they',
+  'this', 'to', 'was', 'we', 'what', 'when', 'where', 'which', 'who', 'why', 'will', 'with', 'would',
+  'you', 'your', 'hi', 'hello', 'thanks', 'thank', 'please', 'regards',
+]);
+
+/**
+ * Crude suffix stripping so "approvals", "approving" and "approved" index as one term
+ */
+function stem(term: string): string {
+  if (term.length > 5 && term.endsWith('ing')) return term.slice(0, -3);
+  if (term.length > 4 && term.endsWith('ies')) return term.slice(0, -3) + 'y';
+  if (term.length > 4 && term.endsWith('ed')) return term.slice(0, -2);
+  if (term.length > 3 && term.endsWith('s') && !term.endsWith('ss')) return term.slice(0, -1);
+  return term;
+}
+
+/**
+ * Lowercased, stemmed terms of a text with stop words removed
+ */
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [])
+    .filter(term => term.length > 1 && !STOP_WORDS.has(term))
+    .map(stem);
+}
+
+export function countTerms(terms: string[]): Record<string, number> {
+  const frequencies: Record<string, number> = {};
+  for (const term of terms) {
+    frequencies[term] = (frequencies[term] || 0) + 1;
+  }
+  return frequencies;
+}
+
+/**
+ * Markdown headings ("## Refunds") or short lines ending in a colon ("Approval steps:")
+ */
+function parseHeading(line: string): string | null {
+  const markdown = line.match(/^#{1,6}\s+(.+?)\s*#*$/);
+  if (markdown) return markdown[1].replace(/:$/, '').trim();
+  const colon = line.match(/^([^.!?:]{3,80}):$/);
+  if (colon) return colon[1].trim();
+  return null;
+}
+
+function splitLongSection(text: string): string[] {
+  if (text.length <= MAX_CHUNK_LENGTH) return [text];
+
+  const pieces: string[] = [];
+  let current = '';
+  for (const paragraph of text.split(/\n\s*\n/)) {
+    if (current && current.length + paragraph.length + 2 > MAX_CHUNK_LENGTH) {
+      pieces.push(current);
+      current = '';
+    }
+    // A single oversized paragraph is cut at sentence boundaries where possible
+    if (paragraph.length > MAX_CHUNK_LENGTH) {
+      const sentences = paragraph.match(/[^.!?]+[.!?]*\s*/g) || [paragraph];
+      for (const sentence of sentences) {
+        if (current && current.length + sentence.length > MAX_CHUNK_LENGTH) {
+          pieces.push(current);
+          current = '';
+        }
+        current += sentence;
+      }
+    } else {
+      current = current ? `${current}\n\n${paragraph}` : paragraph;
+    }
+  }
+  if (current.trim()) pieces.push(current);
+  return pieces.map(piece => piece.trim()).filter(Boolean);
+}
+
+/**
+ * Split a document into chunks along its headings, keeping the heading as the chunk's section
+ */
+export function chunkDocument(content: string, title?: string): KnowledgeChunkDraft[] {
+  const sections: Array<{ heading: string | null; lines: string[] }> = [{ heading: null, lines: [] }];
+
+  for (const line of content.replace(/\r\n/g, '\n').split('\n')) {
+    const heading = parseHeading(line.trim());
+    if (heading) {
+      sections.push({ heading, lines: [] });
+    } else {
+      sections[sections.length - 1].lines.push(line);
+    }
+  }
+
+  const drafts: KnowledgeChunkDraft[] = [];
+  for (const section of sections) {
+    const text = section.lines.join('\n').trim();
+    if (!text) continue;
+
+    for (const piece of splitLongSection(text)) {
+      // Heading and title words count towards the chunk so section names are searchable
+      const terms = tokenize([title, section.heading, piece].filter(Boolean).join('\n'));
+      drafts.push({
+        section: section.heading,
+        chunkIndex: drafts.length,
+        content: piece,
+        termFrequencies: countTerms(terms),
+        termCount: terms.length,
+      });
+    }
+  }
+  return drafts;
+}
+
+/**
+ * Okapi BM25 over the given chunks; returns the top `limit` chunks with a positive score, best first
+ */
+export function rankChunks<T extends IndexedChunk>(query: string, chunks: T[], limit: number): ScoredChunk<T>[] {
+  const queryTerms = Array.from(new Set(tokenize(query)));
+  if (queryTerms.length === 0 || chunks.length === 0) return [];
+
+  const averageLength = chunks.reduce((sum, chunk) => sum + chunk.termCount, 0) / chunks.length || 1;
+  const documentFrequency = new Map<string, number>();
+  for (const term of queryTerms) {
+    documentFrequency.set(term, chunks.filter(chunk => (chunk.termFrequencies[term] || 0) > 0).length);
+  }
+
+  return chunks
+    .map(chunk => {
+      let score = 0;
+      for (const term of queryTerms) {
+        const frequency = chunk.termFrequencies[term] || 0;
+        if (frequency === 0) continue;
+        const df = documentFrequency.get(term) || 0;
+        const idf = Math.log(1 + (chunks.length - df + 0.5) / (df + 0.5));
+        score += idf * (frequency * (BM25_K1 + 1)) /
+          (frequency + BM25_K1 * (1 - BM25_B + BM25_B * (chunk.termCount / averageLength)));
+      }
+      return { chunk, score };
+    })
+    .filter(result => result.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
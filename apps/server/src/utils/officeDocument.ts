@@ -0,0 +1,569 @@
+/**
+ * Text extraction from Word (DOCX) and PowerPoint (PPTX) attachments.
+ * The DOCX body is walked tag by tag in document order so headings, list levels, tables,
+ * comment anchors and tracked changes survive; PPTX slides are read in presentation order
+ * with their speaker notes. Both are rendered as a plain-text outline for prompts and search.
+ */
+
+import path from 'path';
+import type JSZip from 'jszip';
+import { decodeXml, getAttribute, loadZip, readZipText } from './xml';
+
+export type OfficeFormat = 'docx' | 'pptx';
+
+export interface OutlineHeading {
+  level: number;
+  text: string;
+}
+
+export type DocxBlock =
+  | { type: 'heading'; level: number; text: string }
+  | { type: 'paragraph'; text: string }
+  | { type: 'listItem'; level: number; text: string }
+  | { type: 'table'; rows: string[][] };
+
+export interface DocumentComment {
+  author: string;
+  date: string | null;
+  text: string;
+  anchor: string; // Document text the comment is attached to
+}
+
+export interface TrackedChange {
+  type: 'insertion' | 'deletion';
+  author: string;
+  date: string | null;
+  text: string;
+}
+
+export interface DocxExtraction {
+  blocks: DocxBlock[];
+  comments: DocumentComment[];
+  trackedChanges: TrackedChange[]; // Pending revisions; insertions are also part of the body text
+}
+
+export interface PptxSlide {
+  slide: number;
+  title: string | null;
+  lines: string[]; // Body text, bullets prefixed with "- " and indented by level
+  tables: string[][][];
+  notes: string;
+}
+
+export interface OfficeDocumentExtraction {
+  format: OfficeFormat;
+  outline: string;
+  headings: OutlineHeading[]; // DOCX headings, or PPTX slide titles at level 1
+  tables: string[][][];
+  comments: DocumentComment[];
+  trackedChanges: TrackedChange[];
+  slideCount?: number;
+}
+
+interface ParagraphStyle {
+  headingLevel: number | null;
+  numbered: boolean;
+}
+
+interface ParagraphState {
+  style: string | null;
+  outlineLevel: number | null;
+  listLevel: number;
+  numbered: boolean | null; // null: inherit from the paragraph style
+  text: string;
+}
+
+interface TableState {
+  rows: string[][];
+  row: string[] | null;
+  cell: string[] | null;
+}
+
+const MAX_ANCHOR_LENGTH = 120;
+const MAX_ACTION_ITEMS = 20;
+
+const XML_TOKEN = /<(\/?)([\w:.-]+)([^>]*?)(\/?)>|([^<]+)/g;
+const ACTION_HEADING = /^(?:#+\s*|\[Slide \d+\]\s*)?(?:action items?|actions|next steps?|to-?dos?|follow[- ]ups?)\s*:?$/i;
+const ACTION_LINE = /^(?:[-*•]\s*)?(?:action items?|action|todo|to-do)\s*:\s*(.+)$/i;
+const LIST_ITEM = /^(?:[-*•]|\d+[.)])\s+(.+)$/;
+const SECTION_BREAK = /^(?:#|\[Slide \d+\]|Notes:|Comments:|Tracked changes:)/;
+
+/**
+ * Office format from the extension, then the content type; legacy binary .doc/.ppt are not supported
+ */
+export function detectOfficeFormat(contentType: string | null | undefined, filename: string | null | undefined): OfficeFormat | null {
+  const extension = (filename || '').toLowerCase().match(/\.([a-z0-9]+)$/)?.[1];
+  if (extension === 'docx' || extension === 'pptx') {
+    return extension;
+  }
+  if (extension === 'doc' || extension === 'ppt') {
+    return null;
+  }
+
+  const type = (contentType || '').toLowerCase();
+  if (type.includes('wordprocessingml.document')) return 'docx';
+  if (type.includes('presentationml.presentation')) return 'pptx';
+  return null;
+}
+
+/**
+ * Extract the outline and structure of a DOCX or PPTX file. Throws when the file is not a
+ * readable zip archive or inflates past the zip limits.
+ */
+export async function extractOfficeDocument(content: Buffer, format: OfficeFormat): Promise<OfficeDocumentExtraction> {
+  const zip = await loadZip(content);
+
+  if (format === 'docx') {
+    const document = await extractDocx(zip);
+    return {
+      format,
+      outline: formatDocxOutline(document),
+      headings: document.blocks
+        .filter((block): block is Extract<DocxBlock, { type: 'heading' }> => block.type === 'heading')
+        .map(({ level, text }) => ({ level, text })),
+      tables: document.blocks
+        .filter((block): block is Extract<DocxBlock, { type: 'table' }> => block.type === 'table')
+        .map(block => block.rows),
+      comments: document.comments,
+      trackedChanges: document.trackedChanges,
+    };
+  }
+
+  const slides = await extractPptx(zip);
+  return {
+    format,
+    outline: formatPptxOutline(slides),
+    headings: slides.filter(slide => slide.title).map(slide => ({ level: 1, text: slide.title! })),
+    tables: slides.flatMap(slide => slide.tables),
+    comments: [],
+    trackedChanges: [],
+    slideCount: slides.length,
+  };
+}
+
+export async function extractDocx(zip: JSZip): Promise<DocxExtraction> {
+  const [documentXml, stylesXml, commentsXml] = await Promise.all([
+    readZipText(zip, 'word/document.xml'),
+    readZipText(zip, 'word/styles.xml'),
+    readZipText(zip, 'word/comments.xml'),
+  ]);
+  if (!documentXml) {
+    throw new Error('Not a Word document: word/document.xml is missing');
+  }
+
+  const styles = readParagraphStyles(stylesXml);
+  const blocks: DocxBlock[] = [];
+  const trackedChanges: TrackedChange[] = [];
+  const paragraphs: ParagraphState[] = []; // Text boxes nest paragraphs inside paragraphs
+  const tables: TableState[] = [];
+  const openComments = new Map<string, string>();
+  const anchors = new Map<string, string>();
+  let revision: TrackedChange | null = null;
+  let inText = false;
+  let inDeletedText = false;
+  let fallbackDepth = 0; // Skip <mc:Fallback>, which repeats the <mc:Choice> content
+
+  const append = (text: string) => {
+    const paragraph = paragraphs[paragraphs.length - 1];
+    if (paragraph) paragraph.text += text;
+    for (const [id, anchor] of openComments) openComments.set(id, anchor + text);
+  };
+
+  for (const token of documentXml.matchAll(XML_TOKEN)) {
+    const [, closing, name, attributes, selfClosing, text] = token;
+
+    if (name === 'mc:Fallback' && !selfClosing) {
+      fallbackDepth += closing ? -1 : 1;
+      continue;
+    }
+    if (fallbackDepth > 0) continue;
+
+    if (text !== undefined) {
+      if (inText) {
+        const decoded = decodeXml(text);
+        append(decoded);
+        if (revision?.type === 'insertion') revision.text += decoded;
+      } else if (inDeletedText && revision?.type === 'deletion') {
+        revision.text += decodeXml(text);
+      }
+      continue;
+    }
+
+    const paragraph = paragraphs[paragraphs.length - 1];
+    const table = tables[tables.length - 1];
+
+    switch (name) {
+      case 'w:p':
+        if (selfClosing) break;
+        if (!closing) {
+          paragraphs.push({ style: null, outlineLevel: null, listLevel: 0, numbered: null, text: '' });
+          break;
+        }
+        {
+          const finished = paragraphs.pop();
+          if (!finished) break;
+          const content = normalizeText(finished.text);
+          if (!content) break;
+          if (table?.cell) {
+            table.cell.push(content);
+          } else {
+            blocks.push(toBlock(finished, content, styles));
+          }
+        }
+        break;
+      case 'w:pStyle':
+        if (paragraph) paragraph.style = getAttribute(attributes, 'w:val');
+        break;
+      case 'w:outlineLvl':
+        if (paragraph) paragraph.outlineLevel = Number(getAttribute(attributes, 'w:val'));
+        break;
+      case 'w:ilvl':
+        if (paragraph) paragraph.listLevel = Number(getAttribute(attributes, 'w:val')) || 0;
+        break;
+      case 'w:numId':
+        if (paragraph) paragraph.numbered = getAttribute(attributes, 'w:val') !== '0';
+        break;
+      case 'w:t':
+        if (!selfClosing) inText = !closing;
+        break;
+      case 'w:delText':
+        if (!selfClosing) inDeletedText = !closing;
+        break;
+      case 'w:tab':
+        // Tab stops in paragraph properties carry w:val; a bare <w:tab/> is a tab character
+        if (selfClosing && !getAttribute(attributes, 'w:val')) append(' ');
+        break;
+      case 'w:br':
+      case 'w:cr':
+        append(' ');
+        break;
+      case 'w:noBreakHyphen':
+        append('-');
+        break;
+      case 'w:ins':
+      case 'w:del':
+        // Self-closing marks in run properties only flag paragraph marks
+        if (selfClosing) break;
+        if (!closing) {
+          revision = {
+            type: name === 'w:ins' ? 'insertion' : 'deletion',
+            author: decodeXml(getAttribute(attributes, 'w:author') || 'Unknown'),
+            date: getAttribute(attributes, 'w:date'),
+            text: '',
+          };
+        } else if (revision) {
+          revision.text = normalizeText(revision.text);
+          if (revision.text) trackedChanges.push(revision);
+          revision = null;
+        }
+        break;
+      case 'w:commentRangeStart':
+        openComments.set(getAttribute(attributes, 'w:id') || '', '');
+        break;
+      case 'w:commentRangeEnd': {
+        const id = getAttribute(attributes, 'w:id') || '';
+        anchors.set(id, openComments.get(id) ?? '');
+        openComments.delete(id);
+        break;
+      }
+      case 'w:tbl':
+        if (selfClosing) break;
+        if (!closing) {
+          tables.push({ rows: [], row: null, cell: null });
+          break;
+        }
+        {
+          const finished = tables.pop();
+          if (!finished || finished.rows.length === 0) break;
+          const parent = tables[tables.length - 1];
+          if (parent?.cell) {
+            // Nested tables are flattened into the enclosing cell
+            parent.cell.push(finished.rows.map(row => row.filter(Boolean).join(' ')).join(' '));
+          } else {
+            blocks.push({ type: 'table', rows: finished.rows });
+          }
+        }
+        break;
+      case 'w:tr':
+        if (!table || selfClosing) break;
+        if (!closing) {
+          table.row = [];
+        } else if (table.row) {
+          if (table.row.some(Boolean)) table.rows.push(table.row);
+          table.row = null;
+        }
+        break;
+      case 'w:tc':
+        if (!table || selfClosing) break;
+        if (!closing) {
+          table.cell = [];
+        } else if (table.cell) {
+          table.row?.push(table.cell.join(' '));
+          table.cell = null;
+        }
+        break;
+    }
+  }
+
+  return {
+    blocks,
+    comments: readComments(commentsXml, anchors),
+    trackedChanges,
+  };
+}
+
+export async function extractPptx(zip: JSZip): Promise<PptxSlide[]> {
+  const presentation = await readZipText(zip, 'ppt/presentation.xml');
+  const relationships = readRelationships(await readZipText(zip, 'ppt/_rels/presentation.xml.rels'), 'ppt');
+
+  let slidePaths = [...presentation.matchAll(/<p:sldId\b([^>]*)\/?>/g)]
+    .map(match => relationships.find(relationship => relationship.id === getAttribute(match[1], 'r:id'))?.target)
+    .filter((target): target is string => !!target && !!zip.file(target));
+
+  if (slidePaths.length === 0) {
+    // No usable slide list: fall back to the slide part numbers
+    slidePaths = Object.keys(zip.files)
+      .filter(name => /^ppt\/slides\/slide\d+\.xml$/.test(name))
+      .sort((a, b) => Number(a.match(/(\d+)\.xml$/)![1]) - Number(b.match(/(\d+)\.xml$/)![1]));
+  }
+
+  const slides: PptxSlide[] = [];
+  for (const [index, slidePath] of slidePaths.entries()) {
+    const slide = readSlide(await readZipText(zip, slidePath));
+
+    const relsPath = path.posix.join(path.posix.dirname(slidePath), '_rels', `${path.posix.basename(slidePath)}.rels`);
+    const notesPath = readRelationships(await readZipText(zip, relsPath), path.posix.dirname(slidePath))
+      .find(relationship => relationship.type.endsWith('/notesSlide'))?.target;
+    const notes = notesPath ? readNotes(await readZipText(zip, notesPath)) : '';
+
+    slides.push({ slide: index + 1, ...slide, notes });
+  }
+  return slides;
+}
+
+export function formatDocxOutline(document: DocxExtraction): string {
+  const lines: string[] = [];
+  for (const block of document.blocks) {
+    switch (block.type) {
+      case 'heading':
+        lines.push(`${'#'.repeat(Math.min(block.level, 6))} ${block.text}`);
+        break;
+      case 'listItem':
+        lines.push(`${'  '.repeat(block.level)}- ${block.text}`);
+        break;
+      case 'table':
+        lines.push(...block.rows.map(row => row.join(' | ')));
+        break;
+      default:
+        lines.push(block.text);
+    }
+  }
+
+  if (document.comments.length > 0) {
+    lines.push('', 'Comments:');
+    for (const comment of document.comments) {
+      lines.push(`- ${comment.author}${comment.anchor ? ` on "${comment.anchor}"` : ''}: ${comment.text}`);
+    }
+  }
+
+  if (document.trackedChanges.length > 0) {
+    lines.push('', 'Tracked changes:');
+    for (const change of document.trackedChanges) {
+      lines.push(`- ${change.type === 'insertion' ? 'Inserted' : 'Deleted'} by ${change.author}: "${change.text}"`);
+    }
+  }
+
+  return lines.join('\n');
+}
+
+export function formatPptxOutline(slides: PptxSlide[]): string {
+  return slides
+    .map(slide => [
+      `[Slide ${slide.slide}]${slide.title ? ` ${slide.title}` : ''}`,
+      ...slide.lines,
+      ...slide.tables.flatMap(rows => rows.map(row => row.join(' | '))),
+      ...(slide.notes ? [`Notes: ${slide.notes}`] : []),
+    ].join('\n'))
+    .join('\n\n');
+}
+
+/**
+ * Action items listed in an outline: entries under an "Action items", "Next steps" or "To do"
+ * heading or slide, and lines such as "Action: ..." or "TODO: ..." anywhere
+ */
+export function findActionItems(outline: string): string[] {
+  const items: string[] = [];
+  let inSection = false;
+
+  for (const rawLine of outline.split('\n')) {
+    const line = rawLine.trim();
+
+    if (ACTION_HEADING.test(line)) {
+      inSection = true;
+      continue;
+    }
+
+    const inline = line.match(ACTION_LINE);
+    if (inline) {
+      items.push(inline[1].trim());
+      continue;
+    }
+
+    if (!inSection) continue;
+    if (!line || SECTION_BREAK.test(line)) {
+      inSection = false;
+      continue;
+    }
+    items.push((line.match(LIST_ITEM)?.[1] ?? line).trim());
+  }
+
+  return [...new Set(items.filter(Boolean))].slice(0, MAX_ACTION_ITEMS);
+}
+
+function toBlock(paragraph: ParagraphState, text: string, styles: Map<string, ParagraphStyle>): DocxBlock {
+  const style = paragraph.style ? styles.get(paragraph.style) : undefined;
+  const headingLevel = paragraph.outlineLevel !== null && paragraph.outlineLevel < 9
+    ? paragraph.outlineLevel + 1
+    : style?.headingLevel ?? headingLevelFromStyleId(paragraph.style);
+
+  if (headingLevel) {
+    return { type: 'heading', level: headingLevel, text };
+  }
+  if (paragraph.numbered ?? style?.numbered) {
+    return { type: 'listItem', level: paragraph.listLevel, text };
+  }
+  return { type: 'paragraph', text };
+}
+
+/**
+ * Heading level of each paragraph style, from its outline level or its built-in name
+ */
+function readParagraphStyles(xml: string): Map<string, ParagraphStyle> {
+  const styles = new Map<string, ParagraphStyle>();
+  for (const match of xml.matchAll(/<w:style\b([^>]*)>([\s\S]*?)<\/w:style>/g)) {
+    const id = getAttribute(match[1], 'w:styleId');
+    if (!id) continue;
+
+    const name = getAttribute(match[2].match(/<w:name\b([^>]*)\/>/)?.[1] ?? '', 'w:val') ?? '';
+    const outline = match[2].match(/<w:outlineLvl\b([^>]*)\/>/);
+    const outlineLevel = outline ? Number(getAttribute(outline[1], 'w:val')) : null;
+    const namedLevel = name.match(/^heading (\d)$/i)?.[1];
+
+    styles.set(id, {
+      headingLevel: outlineLevel !== null && outlineLevel < 9
+        ? outlineLevel + 1
+        : namedLevel ? Number(namedLevel) : /^title$/i.test(name) ? 1 : null,
+      numbered: /<w:numId\b[^>]*w:val="(?!0")/.test(match[2]),
+    });
+  }
+  return styles;
+}
+
+function headingLevelFromStyleId(styleId: string | null): number | null {
+  if (!styleId) return null;
+  if (/^title$/i.test(styleId)) return 1;
+  const level = styleId.match(/^heading(\d)$/i)?.[1];
+  return level ? Number(level) : null;
+}
+
+function readComments(xml: string, anchors: Map<string, string>): DocumentComment[] {
+  const comments: DocumentComment[] = [];
+  for (const match of xml.matchAll(/<w:comment\b([^>]*)>([\s\S]*?)<\/w:comment>/g)) {
+    const text = normalizeText(
+      match[2].split(/<\/w:p>/).map(paragraph => readRunText(paragraph, 'w:t')).join(' ')
+    );
+    if (!text) continue;
+
+    const anchor = normalizeText(anchors.get(getAttribute(match[1], 'w:id') || '') ?? '');
+    comments.push({
+      author: decodeXml(getAttribute(match[1], 'w:author') || 'Unknown'),
+      date: getAttribute(match[1], 'w:date'),
+      text,
+      anchor: anchor.length > MAX_ANCHOR_LENGTH ? `${anchor.slice(0, MAX_ANCHOR_LENGTH)}...` : anchor,
+    });
+  }
+  return comments;
+}
+
+function readSlide(xml: string): Omit<PptxSlide, 'slide' | 'notes'> {
+  let title: string | null = null;
+  const lines: string[] = [];
+  const tables: string[][][] = [];
+
+  // Shapes and tables in the order they appear on the slide
+  const parts = [
+    ...[...xml.matchAll(/<p:sp\b[\s\S]*?<\/p:sp>/g)].map(match => ({ index: match.index!, shape: match[0] })),
+    ...[...xml.matchAll(/<a:tbl>[\s\S]*?<\/a:tbl>/g)].map(match => ({ index: match.index!, table: match[0] })),
+  ].sort((a, b) => a.index - b.index);
+
+  for (const part of parts) {
+    if ('table' in part) {
+      const rows = [...part.table.matchAll(/<a:tr\b[\s\S]*?<\/a:tr>/g)]
+        .map(row => [...row[0].matchAll(/<a:tc\b[^>]*>([\s\S]*?)<\/a:tc>/g)]
+          .map(cell => readDrawingParagraphs(cell[1]).map(paragraph => paragraph.text).join(' ')))
+        .filter(row => row.some(Boolean));
+      if (rows.length > 0) tables.push(rows);
+      continue;
+    }
+
+    const placeholder = part.shape.match(/<p:ph\b([^>]*?)\/?>/);
+    const type = placeholder ? getAttribute(placeholder[1], 'type') ?? 'body' : null;
+    const paragraphs = readDrawingParagraphs(part.shape);
+    if (paragraphs.length === 0 || type === 'sldNum' || type === 'dt' || type === 'ftr') continue;
+
+    if ((type === 'title' || type === 'ctrTitle') && title === null) {
+      title = paragraphs.map(paragraph => paragraph.text).join(' ');
+    } else if (type === 'body' || type === 'obj') {
+      // Body placeholders are bulleted lists
+      lines.push(...paragraphs.map(paragraph => `${'  '.repeat(paragraph.level)}- ${paragraph.text}`));
+    } else {
+      lines.push(...paragraphs.map(paragraph => paragraph.text));
+    }
+  }
+
+  return { title, lines, tables };
+}
+
+function readNotes(xml: string): string {
+  return [...xml.matchAll(/<p:sp\b[\s\S]*?<\/p:sp>/g)]
+    .filter(match => getAttribute(match[0].match(/<p:ph\b([^>]*?)\/?>/)?.[1] ?? '', 'type') === 'body')
+    .flatMap(match => readDrawingParagraphs(match[0]).map(paragraph => paragraph.text))
+    .join(' ');
+}
+
+/**
+ * Non-empty <a:p> paragraphs of a DrawingML text body with their indentation level
+ */
+function readDrawingParagraphs(xml: string): Array<{ level: number; text: string }> {
+  const paragraphs: Array<{ level: number; text: string }> = [];
+  for (const match of xml.matchAll(/<a:p\b(?:\s[^>]*)?>([\s\S]*?)<\/a:p>/g)) {
+    const text = normalizeText(readRunText(match[1].replace(/<a:br\b[^>]*\/?>/g, '<a:t> </a:t>'), 'a:t'));
+    if (!text) continue;
+    const level = Number(getAttribute(match[1].match(/<a:pPr\b([^>]*?)\/?>/)?.[1] ?? '', 'lvl') ?? 0);
+    paragraphs.push({ level, text });
+  }
+  return paragraphs;
+}
+
+function readRunText(xml: string, tag: string): string {
+  return [...xml.matchAll(new RegExp(`<${tag}(?:\\s[^>]*)?>([^<]*)</${tag}>`, 'g'))]
+    .map(match => decodeXml(match[1]))
+    .join('');
+}
+
+function readRelationships(xml: string, baseDirectory: string): Array<{ id: string; type: string; target: string }> {
+  return [...xml.matchAll(/<Relationship\b([^>]*?)\/?>/g)].map(match => {
+    const target = decodeXml(getAttribute(match[1], 'Target') || '');
+    return {
+      id: getAttribute(match[1], 'Id') || '',
+      type: getAttribute(match[1], 'Type') || '',
+      target: target.startsWith('/')
+        ? target.slice(1)
+        : path.posix.normalize(path.posix.join(baseDirectory, target)),
+    };
+  });
+}
+
+function normalizeText(text: string): string {
+  return text.replace(/[\s ]+/g, ' ').trim();
+}
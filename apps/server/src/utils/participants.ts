@@ -0,0 +1,26 @@
+/**
+ * Matching names mentioned in emails and documents to project participants
+ */
+
+/**
+ * Participant email that best matches an assignee name such as "dana" or "Dana Smith".
+ * Tries a substring of the full address first, then the local part in either direction.
+ */
+export function findBestParticipantMatch(assigneeIdentifier: string, participants: string[]): string | null {
+  const identifier = assigneeIdentifier.toLowerCase();
+
+  for (const participant of participants) {
+    if (participant.toLowerCase().includes(identifier)) {
+      return participant;
+    }
+  }
+
+  for (const participant of participants) {
+    const namePart = participant.toLowerCase().split('@')[0];
+    if (namePart.includes(identifier) || identifier.includes(namePart)) {
+      return participant;
+    }
+  }
+
+  return null;
+}
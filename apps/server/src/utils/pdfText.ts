@@ -0,0 +1,955 @@
+/**
+ * Local PDF text extraction: objects and object streams are parsed directly, FlateDecode streams
+ * are inflated with zlib and text is decoded through each font's ToUnicode map or encoding.
+ * Text is laid out per page from its positions, which is also how tables are detected:
+ * consecutive lines split into the same aligned columns by wide gaps.
+ * There is no OCR, so scanned PDFs come back without text.
+ */
+
+import { inflateSync, constants as zlibConstants } from 'zlib';
+
+export interface PdfPageText {
+  page: number; // 1-based
+  text: string; // Lines separated by \n, table cells by \t
+}
+
+export interface PdfTable {
+  page: number;
+  rows: string[][];
+}
+
+export interface PdfExtraction {
+  pageCount: number;
+  pages: PdfPageText[];
+  tables: PdfTable[];
+  encrypted: boolean;
+}
+
+const MAX_PAGES = 200;
+const MAX_TABLES = 20;
+const MAX_TABLE_ROWS = 100;
+const MAX_FORM_DEPTH = 5;
+const MAX_REF_DEPTH = 10;
+// Work budget per document; extraction stops once any of them runs out. Forms are decoded
+// and interpreted again on every Do, so nested forms are charged for each run
+const MAX_DECODED_BYTES = 32 * 1024 * 1024;
+const MAX_OPERATORS = 500_000;
+const MAX_FORM_RUNS = 1_000;
+const CELL_GAP_EM = 1.5; // Horizontal gap, in font sizes, that separates table cells
+const WORD_GAP_EM = 0.15; // Gap that separates words when the PDF draws no space glyph
+const MIN_TABLE_ROWS = 3;
+const MAX_TABLE_CELL_LENGTH = 40; // Average per line; longer cells are side-by-side prose
+const DEFAULT_GLYPH_WIDTH = 500; // In 1/1000 of the font size, for fonts without widths
+
+type Matrix = [number, number, number, number, number, number];
+const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0];
+
+class PdfName {
+  constructor(readonly name: string) {}
+}
+
+class PdfRef {
+  constructor(readonly id: number) {}
+}
+
+class PdfString {
+  constructor(readonly bytes: number[]) {}
+}
+
+class PdfOperator {
+  constructor(readonly op: string) {}
+}
+
+class PdfDict extends Map<string, PdfValue> {}
+
+type PdfValue = number | boolean | null | PdfName | PdfRef | PdfString | PdfDict | PdfValue[];
+
+interface PdfObject {
+  value: PdfValue;
+  stream?: Buffer;
+}
+
+interface PdfGlyph {
+  char: string;
+  width: number; // In 1/1000 of the font size
+  isSpace: boolean;
+}
+
+interface PdfFont {
+  decode(bytes: number[]): PdfGlyph[];
+}
+
+interface TextItem {
+  x: number;
+  y: number;
+  width: number;
+  size: number;
+  text: string;
+}
+
+interface TextCell {
+  x0: number;
+  x1: number;
+  text: string;
+}
+
+interface TextLine {
+  y: number;
+  size: number;
+  cells: TextCell[];
+}
+
+/**
+ * Extract the text of every page, and the tables found on them, from a PDF file
+ */
+export function extractPdf(content: Buffer): PdfExtraction {
+  const document = new PdfDocument(content);
+  const pages = document.getPages();
+
+  if (document.encrypted) {
+    return { pageCount: pages.length, pages: [], tables: [], encrypted: true };
+  }
+
+  const pageTexts: PdfPageText[] = [];
+  const tables: PdfTable[] = [];
+  for (const [index, { page, resources }] of pages.slice(0, MAX_PAGES).entries()) {
+    const items: TextItem[] = [];
+    try {
+      const contents = document.resolve(page.get('Contents'));
+      const streams = Array.isArray(contents) ? contents : [page.get('Contents')];
+      const source = streams
+        .map(stream => document.getStreamData(stream ?? null)?.toString('latin1') ?? '')
+        .join('\n');
+      new ContentInterpreter(document, items).run(source, resources, IDENTITY, 0);
+    } catch (error) {
+      console.error(`📄 [PDF] Could not read page ${index + 1}:`, error);
+    }
+
+    const lines = layoutLines(items);
+    pageTexts.push({ page: index + 1, text: lines.map(line => line.cells.map(cell => cell.text).join('\t')).join('\n') });
+    tables.push(...detectTables(index + 1, lines));
+
+    if (document.exhausted) {
+      console.warn(`📄 [PDF] Stopped after page ${index + 1} of ${pages.length}: document exceeds the processing budget`);
+      break;
+    }
+  }
+
+  return { pageCount: pages.length, pages: pageTexts, tables: tables.slice(0, MAX_TABLES), encrypted: false };
+}
+
+/**
+ * Page text with a [Page N] marker before each page, so passages can be traced to their page
+ */
+export function formatPdfPages(pages: PdfPageText[]): string {
+  return pages
+    .filter(page => page.text.trim())
+    .map(page => `[Page ${page.page}]\n${page.text}`)
+    .join('\n\n');
+}
+
+class PdfDocument {
+  readonly objects = new Map<number, PdfObject>();
+  readonly encrypted: boolean;
+  private readonly source: string;
+  private readonly fonts = new Map<PdfDict, PdfFont>();
+  exhausted = false; // Set once the work budget runs out
+  private decodedBytes = 0;
+  private operators = 0;
+  private formRuns = 0;
+
+  constructor(data: Buffer) {
+    // latin1 maps bytes 1:1 to characters, so string offsets are buffer offsets
+    this.source = data.toString('latin1');
+    this.parseObjects(data);
+    this.parseObjectStreams();
+    this.encrypted = /\/Encrypt\s*(\d+\s+\d+\s+R|<<)/.test(this.source);
+  }
+
+  resolve(value: PdfValue | undefined, depth = 0): PdfValue | undefined {
+    if (value instanceof PdfRef && depth < MAX_REF_DEPTH) {
+      return this.resolve(this.objects.get(value.id)?.value, depth + 1);
+    }
+    return value;
+  }
+
+  chargeOperator(): boolean {
+    if (++this.operators > MAX_OPERATORS) this.exhausted = true;
+    return !this.exhausted;
+  }
+
+  chargeFormRun(): boolean {
+    if (++this.formRuns > MAX_FORM_RUNS) this.exhausted = true;
+    return !this.exhausted;
+  }
+
+  getDict(value: PdfValue | undefined): PdfDict | null {
+    const resolved = this.resolve(value);
+    return resolved instanceof PdfDict ? resolved : null;
+  }
+
+  getStreamData(value: PdfValue | null): Buffer | null {
+    const object = value instanceof PdfRef ? this.objects.get(value.id) : undefined;
+    if (!object?.stream || !(object.value instanceof PdfDict)) return null;
+    return this.decodeStream(object.value, object.stream);
+  }
+
+  getStreamObject(value: PdfValue | undefined): PdfObject | undefined {
+    return value instanceof PdfRef ? this.objects.get(value.id) : undefined;
+  }
+
+  getPages(): Array<{ page: PdfDict; resources: PdfDict | null }> {
+    const pages: Array<{ page: PdfDict; resources: PdfDict | null }> = [];
+    const visited = new Set<number>();
+
+    const walk = (value: PdfValue | undefined, inherited: PdfDict | null) => {
+      if (value instanceof PdfRef) {
+        if (visited.has(value.id)) return;
+        visited.add(value.id);
+      }
+      const node = this.getDict(value);
+      if (!node) return;
+
+      const resources = this.getDict(node.get('Resources')) ?? inherited;
+      const kids = this.resolve(node.get('Kids'));
+      if (Array.isArray(kids)) {
+        kids.forEach(kid => walk(kid, resources));
+      } else if (nameOf(node.get('Type')) === 'Page' || node.has('Contents')) {
+        pages.push({ page: node, resources });
+      }
+    };
+
+    const roots = Array.from(this.source.matchAll(/\/Root\s+(\d+)\s+\d+\s+R/g));
+    const rootId = roots.length > 0 ? Number(roots[roots.length - 1][1]) : null;
+    if (rootId !== null) {
+      walk(this.getDict(new PdfRef(rootId))?.get('Pages'), null);
+    }
+
+    // Damaged files without a usable catalog: fall back to every page object in file order
+    if (pages.length === 0) {
+      for (const [, object] of Array.from(this.objects).sort(([a], [b]) => a - b)) {
+        if (object.value instanceof PdfDict && nameOf(object.value.get('Type')) === 'Page') {
+          pages.push({ page: object.value, resources: this.getDict(object.value.get('Resources')) });
+        }
+      }
+    }
+    return pages;
+  }
+
+  getFont(resources: PdfDict | null, name: string): PdfFont | null {
+    const fontDict = this.getDict(this.getDict(resources?.get('Font'))?.get(name));
+    if (!fontDict) return null;
+
+    let font = this.fonts.get(fontDict);
+    if (!font) {
+      font = loadFont(this, fontDict);
+      this.fonts.set(fontDict, font);
+    }
+    return font;
+  }
+
+  private parseObjects(data: Buffer) {
+    const header = /(\d+)\s+\d+\s+obj\b/g;
+    let match: RegExpExecArray | null;
+    while ((match = header.exec(this.source))) {
+      const lexer = new PdfLexer(this.source, header.lastIndex);
+      const value = lexer.readValue() ?? null;
+      lexer.skipSpace();
+
+      const object: PdfObject = { value: value instanceof PdfOperator ? null : value };
+      if (this.source.startsWith('stream', lexer.pos)) {
+        let start = lexer.pos + 'stream'.length;
+        if (this.source[start] === '\r') start++;
+        if (this.source[start] === '\n') start++;
+
+        const length = value instanceof PdfDict ? value.get('Length') : undefined;
+        let end = typeof length === 'number' ? start + length : -1;
+        if (end < 0 || !/^\s*endstream/.test(this.source.slice(end, end + 20))) {
+          end = this.source.indexOf('endstream', start);
+          if (end < 0) end = this.source.length;
+          while (end > start && (this.source[end - 1] === '\n' || this.source[end - 1] === '\r')) end--;
+        }
+        object.stream = data.subarray(start, end);
+        header.lastIndex = end;
+      } else {
+        header.lastIndex = lexer.pos;
+      }
+      this.objects.set(Number(match[1]), object);
+    }
+  }
+
+  /**
+   * PDF 1.5+ files pack most objects, often including the page tree, into compressed object streams
+   */
+  private parseObjectStreams() {
+    for (const object of Array.from(this.objects.values())) {
+      if (!(object.value instanceof PdfDict) || nameOf(object.value.get('Type')) !== 'ObjStm' || !object.stream) continue;
+
+      const data = this.decodeStream(object.value, object.stream)?.toString('latin1');
+      const first = object.value.get('First');
+      const count = object.value.get('N');
+      if (!data || typeof first !== 'number' || typeof count !== 'number') continue;
+
+      const offsets = data.slice(0, first).trim().split(/\s+/).map(Number);
+      for (let i = 0; i < count && i * 2 + 1 < offsets.length; i++) {
+        const id = offsets[i * 2];
+        if (this.objects.has(id)) continue;
+        const value = new PdfLexer(data, first + offsets[i * 2 + 1]).readValue();
+        this.objects.set(id, { value: value instanceof PdfOperator || value === undefined ? null : value });
+      }
+    }
+  }
+
+  private decodeStream(dict: PdfDict, stream: Buffer): Buffer | null {
+    if (this.exhausted) return null;
+    const filterValue = this.resolve(dict.get('Filter'));
+    const filters = (Array.isArray(filterValue) ? filterValue : [filterValue]).map(nameOf).filter(Boolean);
+
+    let data: Buffer = stream;
+    try {
+      for (const filter of filters) {
+        switch (filter) {
+          case 'FlateDecode':
+          case 'Fl':
+            // Sync flush returns what could be inflated from truncated or slightly corrupt streams;
+            // output past the remaining budget throws a RangeError
+            data = inflateSync(data, {
+              finishFlush: zlibConstants.Z_SYNC_FLUSH,
+              maxOutputLength: Math.max(1, MAX_DECODED_BYTES - this.decodedBytes),
+            });
+            break;
+          case 'ASCIIHexDecode':
+          case 'AHx':
+            data = decodeAsciiHex(data.toString('latin1'));
+            break;
+          case 'ASCII85Decode':
+          case 'A85':
+            data = decodeAscii85(data.toString('latin1'));
+            break;
+          default:
+            // Image and legacy filters carry no text
+            return null;
+        }
+      }
+    } catch (error) {
+      if (error instanceof RangeError) this.exhausted = true;
+      return null;
+    }
+
+    this.decodedBytes += data.length;
+    if (this.decodedBytes > MAX_DECODED_BYTES) {
+      this.exhausted = true;
+      return null;
+    }
+    return data;
+  }
+}
+
+class PdfLexer {
+  constructor(private readonly source: string, public pos = 0) {}
+
+  skipSpace() {
+    while (this.pos < this.source.length) {
+      const char = this.source[this.pos];
+      if (char === '%') {
+        while (this.pos < this.source.length && this.source[this.pos] !== '\n' && this.source[this.pos] !== '\r') this.pos++;
+      } else if (isWhitespace(char)) {
+        this.pos++;
+      } else {
+        break;
+      }
+    }
+  }
+
+  /**
+   * Skip the binary data of an inline image, from after its ID operator to the EI operator
+   */
+  skipInlineImage() {
+    const end = /\sEI(?=\s|$)/g;
+    end.lastIndex = this.pos;
+    const match = end.exec(this.source);
+    this.pos = match ? end.lastIndex : this.source.length;
+  }
+
+  readValue(): PdfValue | PdfOperator | undefined {
+    this.skipSpace();
+    if (this.pos >= this.source.length) return undefined;
+
+    const char = this.source[this.pos];
+    if (char === '<' && this.source[this.pos + 1] === '<') return this.readDict();
+    if (char === '<') return this.readHexString();
+    if (char === '(') return this.readLiteralString();
+    if (char === '[') return this.readArray();
+    if (char === '/') return this.readName();
+
+    const number = /[+-]?(\d+\.?\d*|\.\d+)/y;
+    number.lastIndex = this.pos;
+    const numberMatch = number.exec(this.source);
+    if (numberMatch) {
+      this.pos = number.lastIndex;
+      const reference = /\s+(\d+)\s+R(?=[\s/[\]<>()%]|$)/y;
+      reference.lastIndex = this.pos;
+      if (/^\d+$/.test(numberMatch[0]) && reference.exec(this.source)) {
+        this.pos = reference.lastIndex;
+        return new PdfRef(Number(numberMatch[0]));
+      }
+      return Number(numberMatch[0]);
+    }
+
+    const keyword = this.readRegular();
+    if (!keyword) {
+      // Stray delimiter
+      this.pos++;
+      return new PdfOperator(char);
+    }
+    if (keyword === 'true') return true;
+    if (keyword === 'false') return false;
+    if (keyword === 'null') return null;
+    return new PdfOperator(keyword);
+  }
+
+  private readDict(): PdfDict {
+    this.pos += 2;
+    const dict = new PdfDict();
+    while (true) {
+      this.skipSpace();
+      if (this.pos >= this.source.length) break;
+      if (this.source.startsWith('>>', this.pos)) {
+        this.pos += 2;
+        break;
+      }
+      const key = this.readValue();
+      const value = this.readValue();
+      if (key instanceof PdfName && !(value instanceof PdfOperator) && value !== undefined) {
+        dict.set(key.name, value);
+      }
+    }
+    return dict;
+  }
+
+  private readArray(): PdfValue[] {
+    this.pos++;
+    const array: PdfValue[] = [];
+    while (true) {
+      this.skipSpace();
+      if (this.pos >= this.source.length) break;
+      if (this.source[this.pos] === ']') {
+        this.pos++;
+        break;
+      }
+      const value = this.readValue();
+      if (value !== undefined && !(value instanceof PdfOperator)) array.push(value);
+    }
+    return array;
+  }
+
+  private readName(): PdfName {
+    this.pos++;
+    return new PdfName(this.readRegular().replace(/#([0-9a-f]{2})/gi, (_, hex) => String.fromCharCode(parseInt(hex, 16))));
+  }
+
+  private readHexString(): PdfString {
+    const end = this.source.indexOf('>', this.pos);
+    const hex = this.source.slice(this.pos + 1, end < 0 ? undefined : end);
+    this.pos = end < 0 ? this.source.length : end + 1;
+    return new PdfString(Array.from(decodeAsciiHex(hex)));
+  }
+
+  private readLiteralString(): PdfString {
+    this.pos++;
+    const bytes: number[] = [];
+    let depth = 1;
+    while (this.pos < this.source.length) {
+      const char = this.source[this.pos++];
+      if (char === '\\') {
+        const escaped = this.source[this.pos++];
+        const escapes: Record<string, number> = { n: 10, r: 13, t: 9, b: 8, f: 12, '(': 40, ')': 41, '\\': 92 };
+        if (escaped in escapes) {
+          bytes.push(escapes[escaped]);
+        } else if (/[0-7]/.test(escaped)) {
+          let octal = escaped;
+          while (octal.length < 3 && /[0-7]/.test(this.source[this.pos])) octal += this.source[this.pos++];
+          bytes.push(parseInt(octal, 8) & 0xff);
+        } else if (escaped === '\r') {
+          // Line continuation
+          if (this.source[this.pos] === '\n') this.pos++;
+        } else if (escaped !== '\n' && escaped !== undefined) {
+          bytes.push(escaped.charCodeAt(0));
+        }
+      } else if (char === '(') {
+        depth++;
+        bytes.push(40);
+      } else if (char === ')') {
+        if (--depth === 0) break;
+        bytes.push(41);
+      } else {
+        bytes.push(char.charCodeAt(0));
+      }
+    }
+    return new PdfString(bytes);
+  }
+
+  private readRegular(): string {
+    const start = this.pos;
+    while (this.pos < this.source.length && !isWhitespace(this.source[this.pos]) && !'()<>[]{}/%'.includes(this.source[this.pos])) {
+      this.pos++;
+    }
+    return this.source.slice(start, this.pos);
+  }
+}
+
+interface GraphicsState {
+  ctm: Matrix;
+  font: PdfFont | null;
+  fontSize: number;
+  charSpacing: number;
+  wordSpacing: number;
+  horizontalScale: number;
+  leading: number;
+}
+
+/**
+ * Runs the text operators of a content stream and records where each string is drawn
+ */
+class ContentInterpreter {
+  constructor(private readonly document: PdfDocument, private readonly items: TextItem[]) {}
+
+  run(source: string, resources: PdfDict | null, ctm: Matrix, depth: number) {
+    const lexer = new PdfLexer(source);
+    const stack: GraphicsState[] = [];
+    let state: GraphicsState = { ctm, font: null, fontSize: 1, charSpacing: 0, wordSpacing: 0, horizontalScale: 1, leading: 0 };
+    let textMatrix: Matrix = IDENTITY;
+    let lineMatrix: Matrix = IDENTITY;
+    let operands: PdfValue[] = [];
+
+    const numbers = () => operands.map(operand => (typeof operand === 'number' ? operand : 0));
+    const moveLine = (tx: number, ty: number) => {
+      lineMatrix = multiply([1, 0, 0, 1, tx, ty], lineMatrix);
+      textMatrix = lineMatrix;
+    };
+    const show = (value: PdfValue | undefined) => {
+      if (value instanceof PdfString) textMatrix = this.showText(value.bytes, state, textMatrix);
+    };
+
+    let token: PdfValue | PdfOperator | undefined;
+    while ((token = lexer.readValue()) !== undefined) {
+      if (!(token instanceof PdfOperator)) {
+        operands.push(token);
+        continue;
+      }
+      if (!this.document.chargeOperator()) return;
+
+      const args = numbers();
+      switch (token.op) {
+        case 'q':
+          stack.push({ ...state });
+          break;
+        case 'Q':
+          state = stack.pop() ?? state;
+          break;
+        case 'cm':
+          if (args.length === 6) state.ctm = multiply(args as Matrix, state.ctm);
+          break;
+        case 'BT':
+          textMatrix = lineMatrix = IDENTITY;
+          break;
+        case 'Tf': {
+          const name = nameOf(operands[0]);
+          state.font = name ? this.document.getFont(resources, name) : null;
+          state.fontSize = args[1] || 1;
+          break;
+        }
+        case 'Td':
+          moveLine(args[0], args[1]);
+          break;
+        case 'TD':
+          state.leading = -args[1];
+          moveLine(args[0], args[1]);
+          break;
+        case 'Tm':
+          if (args.length === 6) textMatrix = lineMatrix = args as Matrix;
+          break;
+        case 'T*':
+          moveLine(0, -state.leading);
+          break;
+        case 'TL':
+          state.leading = args[0];
+          break;
+        case 'Tc':
+          state.charSpacing = args[0];
+          break;
+        case 'Tw':
+          state.wordSpacing = args[0];
+          break;
+        case 'Tz':
+          state.horizontalScale = args[0] / 100;
+          break;
+        case 'Tj':
+          show(operands[0]);
+          break;
+        case "'":
+          moveLine(0, -state.leading);
+          show(operands[0]);
+          break;
+        case '"':
+          state.wordSpacing = args[0];
+          state.charSpacing = args[1];
+          moveLine(0, -state.leading);
+          show(operands[2]);
+          break;
+        case 'TJ': {
+          const parts = operands[0];
+          if (!Array.isArray(parts)) break;
+          for (const part of parts) {
+            if (typeof part === 'number') {
+              textMatrix = multiply([1, 0, 0, 1, (-part / 1000) * state.fontSize * state.horizontalScale, 0], textMatrix);
+            } else {
+              show(part);
+            }
+          }
+          break;
+        }
+        case 'Do':
+          if (depth < MAX_FORM_DEPTH && this.document.chargeFormRun()) this.runForm(resources, nameOf(operands[0]), state.ctm, depth);
+          break;
+        case 'ID':
+          lexer.skipInlineImage();
+          break;
+      }
+      operands = [];
+    }
+  }
+
+  private runForm(resources: PdfDict | null, name: string | undefined, ctm: Matrix, depth: number) {
+    if (!name) return;
+    const reference = this.document.getDict(resources?.get('XObject'))?.get(name);
+    const form = this.document.getStreamObject(reference);
+    if (!(form?.value instanceof PdfDict) || nameOf(form.value.get('Subtype')) !== 'Form') return;
+
+    const data = this.document.getStreamData(reference ?? null);
+    if (!data) return;
+
+    const matrix = this.document.resolve(form.value.get('Matrix'));
+    const formMatrix = Array.isArray(matrix) && matrix.length === 6 && matrix.every(value => typeof value === 'number')
+      ? matrix as Matrix
+      : IDENTITY;
+    const formResources = this.document.getDict(form.value.get('Resources')) ?? resources;
+    this.run(data.toString('latin1'), formResources, multiply(formMatrix, ctm), depth + 1);
+  }
+
+  /**
+   * Record a drawn string and return the text matrix advanced past it
+   */
+  private showText(bytes: number[], state: GraphicsState, textMatrix: Matrix): Matrix {
+    const glyphs = (state.font ?? FALLBACK_FONT).decode(bytes);
+    let advance = 0;
+    for (const glyph of glyphs) {
+      advance += ((glyph.width / 1000) * state.fontSize + state.charSpacing + (glyph.isSpace ? state.wordSpacing : 0)) * state.horizontalScale;
+    }
+
+    const rendering = multiply(textMatrix, state.ctm);
+    const text = glyphs.map(glyph => glyph.char).join('');
+    if (text) {
+      this.items.push({
+        x: rendering[4],
+        // Flipped coordinate systems draw lines downwards; keep "higher on the page" as larger y
+        y: rendering[3] < 0 ? -rendering[5] : rendering[5],
+        width: advance * Math.hypot(rendering[0], rendering[1]),
+        size: Math.abs(state.fontSize * Math.hypot(rendering[2], rendering[3])) || 1,
+        text,
+      });
+    }
+    return multiply([1, 0, 0, 1, advance, 0], textMatrix);
+  }
+}
+
+function loadFont(document: PdfDocument, fontDict: PdfDict): PdfFont {
+  const isComposite = nameOf(fontDict.get('Subtype')) === 'Type0';
+  let codeLength = isComposite ? 2 : 1;
+
+  let toUnicode: Map<number, string> | null = null;
+  const cmap = document.getStreamData(fontDict.get('ToUnicode') ?? null);
+  if (cmap) {
+    const parsed = parseToUnicode(cmap.toString('latin1'));
+    toUnicode = parsed.map;
+    if (isComposite && parsed.codeLength) codeLength = parsed.codeLength;
+  }
+
+  const widths = new Map<number, number>();
+  let defaultWidth = DEFAULT_GLYPH_WIDTH;
+  if (isComposite) {
+    const descendants = document.resolve(fontDict.get('DescendantFonts'));
+    const descendant = document.getDict(Array.isArray(descendants) ? descendants[0] : undefined);
+    const dw = document.resolve(descendant?.get('DW'));
+    defaultWidth = typeof dw === 'number' ? dw : 1000;
+
+    // W entries are "first [w1 w2 ...]" or "first last w"
+    const w = document.resolve(descendant?.get('W'));
+    if (Array.isArray(w)) {
+      for (let i = 0; i < w.length;) {
+        const first = document.resolve(w[i]);
+        const next = document.resolve(w[i + 1]);
+        if (typeof first !== 'number') break;
+        if (Array.isArray(next)) {
+          next.forEach((width, offset) => {
+            const value = document.resolve(width);
+            if (typeof value === 'number') widths.set(first + offset, value);
+          });
+          i += 2;
+        } else {
+          const width = document.resolve(w[i + 2]);
+          if (typeof next === 'number' && typeof width === 'number') {
+            for (let code = first; code <= Math.min(next, first + 0xffff); code++) widths.set(code, width);
+          }
+          i += 3;
+        }
+      }
+    }
+  } else {
+    const firstChar = document.resolve(fontDict.get('FirstChar'));
+    const fontWidths = document.resolve(fontDict.get('Widths'));
+    if (Array.isArray(fontWidths)) {
+      fontWidths.forEach((width, index) => {
+        const value = document.resolve(width);
+        if (typeof value === 'number') widths.set((typeof firstChar === 'number' ? firstChar : 0) + index, value);
+      });
+    }
+  }
+
+  const differences = new Map<number, string>();
+  const encoding = document.getDict(fontDict.get('Encoding'));
+  const differenceList = document.resolve(encoding?.get('Differences'));
+  if (Array.isArray(differenceList)) {
+    let code = 0;
+    for (const entry of differenceList) {
+      if (typeof entry === 'number') {
+        code = entry;
+      } else if (entry instanceof PdfName) {
+        differences.set(code++, glyphNameToUnicode(entry.name));
+      }
+    }
+  }
+
+  return {
+    decode(bytes: number[]): PdfGlyph[] {
+      const glyphs: PdfGlyph[] = [];
+      for (let i = 0; i + codeLength <= bytes.length; i += codeLength) {
+        const code = codeLength === 2 ? (bytes[i] << 8) | bytes[i + 1] : bytes[i];
+        // Composite fonts without a ToUnicode map use glyph ids that cannot be mapped back to text
+        const char = toUnicode?.get(code)
+          ?? differences.get(code)
+          ?? (isComposite ? '' : simpleEncodingChar(code));
+        glyphs.push({ char, width: widths.get(code) ?? defaultWidth, isSpace: codeLength === 1 && code === 32 });
+      }
+      return glyphs;
+    },
+  };
+}
+
+const FALLBACK_FONT: PdfFont = {
+  decode: bytes => bytes.map(code => ({ char: simpleEncodingChar(code), width: DEFAULT_GLYPH_WIDTH, isSpace: code === 32 })),
+};
+
+/**
+ * Code to text mapping of a ToUnicode CMap (bfchar and bfrange entries, UTF-16BE targets)
+ */
+function parseToUnicode(cmap: string): { map: Map<number, string>; codeLength: number | null } {
+  const map = new Map<number, string>();
+  const codespace = cmap.match(/begincodespacerange\s*<([0-9a-f]+)>/i);
+
+  for (const block of cmap.matchAll(/beginbfchar([\s\S]*?)endbfchar/g)) {
+    for (const entry of block[1].matchAll(/<([0-9a-f]+)>\s*<([0-9a-f]*)>/gi)) {
+      map.set(parseInt(entry[1], 16), decodeUtf16Hex(entry[2]));
+    }
+  }
+
+  for (const block of cmap.matchAll(/beginbfrange([\s\S]*?)endbfrange/g)) {
+    for (const entry of block[1].matchAll(/<([0-9a-f]+)>\s*<([0-9a-f]+)>\s*(<[0-9a-f]*>|\[[^\]]*\])/gi)) {
+      const low = parseInt(entry[1], 16);
+      const high = Math.min(parseInt(entry[2], 16), low + 0xffff);
+      if (entry[3].startsWith('[')) {
+        Array.from(entry[3].matchAll(/<([0-9a-f]*)>/gi)).forEach((target, offset) => {
+          if (low + offset <= high) map.set(low + offset, decodeUtf16Hex(target[1]));
+        });
+      } else {
+        // The last UTF-16 unit of the target is incremented across the range
+        const target = decodeUtf16Hex(entry[3].slice(1, -1));
+        const prefix = target.slice(0, -1);
+        const last = target.charCodeAt(target.length - 1);
+        for (let code = low; code <= high; code++) {
+          map.set(code, prefix + String.fromCharCode(last + code - low));
+        }
+      }
+    }
+  }
+
+  return { map, codeLength: codespace ? Math.ceil(codespace[1].length / 2) : null };
+}
+
+/**
+ * Group drawn strings into lines (top to bottom) and cells (split at wide gaps)
+ */
+function layoutLines(items: TextItem[]): TextLine[] {
+  const sorted = items
+    .filter(item => item.text.trim())
+    .sort((a, b) => b.y - a.y || a.x - b.x);
+
+  const lines: Array<{ y: number; size: number; items: TextItem[] }> = [];
+  for (const item of sorted) {
+    const line = lines[lines.length - 1];
+    if (line && Math.abs(line.y - item.y) <= Math.max(line.size, item.size) * 0.5) {
+      line.items.push(item);
+      line.size = Math.max(line.size, item.size);
+    } else {
+      lines.push({ y: item.y, size: item.size, items: [item] });
+    }
+  }
+
+  return lines.map(line => {
+    const cells: TextCell[] = [];
+    let previous: TextItem | null = null;
+    for (const item of line.items.sort((a, b) => a.x - b.x)) {
+      // Some generators draw text twice to fake bold
+      if (previous && previous.text === item.text && Math.abs(previous.x - item.x) < 1) continue;
+
+      const cell = cells[cells.length - 1];
+      const gap = previous ? item.x - (previous.x + previous.width) : Infinity;
+      if (!cell || gap > CELL_GAP_EM * line.size) {
+        cells.push({ x0: item.x, x1: item.x + item.width, text: item.text.trim() });
+      } else {
+        const needsSpace = gap > WORD_GAP_EM * line.size && !/\s$/.test(cell.text) && !/^\s/.test(item.text);
+        cell.text = `${cell.text}${needsSpace ? ' ' : ''}${needsSpace ? item.text.trimStart() : item.text}`.trimEnd();
+        cell.x1 = Math.max(cell.x1, item.x + item.width);
+      }
+      previous = item;
+    }
+    return { y: line.y, size: line.size, cells: cells.map(cell => ({ ...cell, text: cell.text.replace(/\s+/g, ' ') })) };
+  });
+}
+
+/**
+ * Runs of consecutive lines with the same number of aligned cells
+ */
+function detectTables(page: number, lines: TextLine[]): PdfTable[] {
+  const tables: PdfTable[] = [];
+  let run: TextLine[] = [];
+
+  const flush = () => {
+    if (run.length >= MIN_TABLE_ROWS) {
+      tables.push({ page, rows: run.slice(0, MAX_TABLE_ROWS).map(line => line.cells.map(cell => cell.text)) });
+    }
+    run = [];
+  };
+
+  for (const line of lines) {
+    const averageLength = line.cells.reduce((total, cell) => total + cell.text.length, 0) / line.cells.length;
+    const isRow = line.cells.length >= 2 && averageLength <= MAX_TABLE_CELL_LENGTH;
+    if (!isRow) {
+      flush();
+      continue;
+    }
+    if (run.length > 0 && !fitsColumns(run, line)) flush();
+    run.push(line);
+  }
+  flush();
+  return tables;
+}
+
+function fitsColumns(run: TextLine[], line: TextLine): boolean {
+  if (line.cells.length !== run[0].cells.length) return false;
+  return line.cells.every((cell, index) => {
+    const x0 = Math.min(...run.map(row => row.cells[index].x0));
+    const x1 = Math.max(...run.map(row => row.cells[index].x1));
+    return cell.x0 <= x1 + line.size && cell.x1 >= x0 - line.size;
+  });
+}
+
+function multiply(m: Matrix, n: Matrix): Matrix {
+  return [
+    m[0] * n[0] + m[1] * n[2],
+    m[0] * n[1] + m[1] * n[3],
+    m[2] * n[0] + m[3] * n[2],
+    m[2] * n[1] + m[3] * n[3],
+    m[4] * n[0] + m[5] * n[2] + n[4],
+    m[4] * n[1] + m[5] * n[3] + n[5],
+  ];
+}
+
+function nameOf(value: PdfValue | PdfOperator | undefined): string | undefined {
+  return value instanceof PdfName ? value.name : undefined;
+}
+
+function isWhitespace(char: string): boolean {
+  return char === ' ' || char === '\n' || char === '\r' || char === '\t' || char === '\f' || char === '\0';
+}
+
+function decodeAsciiHex(hex: string): Buffer {
+  const digits = hex.replace(/>[\s\S]*$/, '').replace(/[^0-9a-f]/gi, '');
+  return Buffer.from(digits.length % 2 ? `${digits}0` : digits, 'hex');
+}
+
+function decodeAscii85(text: string): Buffer {
+  const input = text.replace(/^<~/, '').replace(/~>[\s\S]*$/, '').replace(/\s/g, '');
+  const bytes: number[] = [];
+  let group: number[] = [];
+
+  const flush = (length: number) => {
+    const padded = [...group, ...Array(5 - length).fill(84)];
+    const value = padded.reduce((total, digit) => total * 85 + digit, 0);
+    for (let i = 0; i < length - 1; i++) bytes.push((value >>> (24 - 8 * i)) & 0xff);
+  };
+
+  for (const char of input) {
+    if (char === 'z' && group.length === 0) {
+      bytes.push(0, 0, 0, 0);
+      continue;
+    }
+    group.push(char.charCodeAt(0) - 33);
+    if (group.length === 5) {
+      flush(5);
+      group = [];
+    }
+  }
+  if (group.length > 0) flush(group.length);
+  return Buffer.from(bytes);
+}
+
+function decodeUtf16Hex(hex: string): string {
+  let text = '';
+  for (let i = 0; i + 4 <= hex.length; i += 4) {
+    text += String.fromCharCode(parseInt(hex.slice(i, i + 4), 16));
+  }
+  // One-byte targets in sloppy CMaps
+  if (hex.length === 2) text = String.fromCharCode(parseInt(hex, 16));
+  return text;
+}
+
+// WinAnsiEncoding 0x80-0x9F, the range where it differs from Latin-1
+const WIN_ANSI_HIGH = [
+  '€', '', '‚', 'ƒ', '„', '…', '†', '‡', 'ˆ', '‰', 'Š', '‹', 'Œ', '', 'Ž', '',
+  '', '‘', '’', '“', '”', '•', '–', '—', '˜', '™', 'š', '›', 'œ', '', 'ž', 'Ÿ',
+];
+
+function simpleEncodingChar(code: number): string {
+  if (code >= 0x80 && code <= 0x9f) return WIN_ANSI_HIGH[code - 0x80];
+  if (code < 32 && code !== 9 && code !== 10 && code !== 13) return '';
+  return String.fromCharCode(code);
+}
+
+const GLYPH_NAMES: Record<string, string> = {
+  space: ' ', exclam: '!', quotedbl: '"', numbersign: '#', dollar: '$', percent: '%', ampersand: '&',
+  quotesingle: "'", parenleft: '(', parenright: ')', asterisk: '*', plus: '+', comma: ',', hyphen: '-',
+  period: '.', slash: '/', zero: '0', one: '1', two: '2', three: '3', four: '4', five: '5', six: '6',
+  seven: '7', eight: '8', nine: '9', colon: ':', semicolon: ';', less: '<', equal: '=', greater: '>',
+  question: '?', at: '@', bracketleft: '[', backslash: '\\', bracketright: ']', underscore: '_',
+  quoteleft: '‘', quoteright: '’', quotedblleft: '“', quotedblright: '”', bullet: '•', endash: '–',
+  emdash: '—', ellipsis: '…', fi: 'fi', fl: 'fl', Euro: '€', sterling: '£', copyright: '©',
+  registered: '®', trademark: '™', degree: '°', section: '§', paragraph: '¶', nbspace: ' ',
+};
+
+function glyphNameToUnicode(name: string): string {
+  if (GLYPH_NAMES[name] !== undefined) return GLYPH_NAMES[name];
+  if (/^[A-Za-z]$/.test(name)) return name;
+  const unicode = name.match(/^uni([0-9A-F]{4})$/i) ?? name.match(/^u([0-9A-F]{4,6})$/i);
+  return unicode ? String.fromCodePoint(parseInt(unicode[1], 16)) : '';
+}
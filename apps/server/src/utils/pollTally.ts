@@ -0,0 +1,138 @@
+/**
+ * Poll vote validation and tallying helpers
+ */
+import type { Poll, PollVote, PollOption, PollResults } from '@email-task-router/shared';
+
+/**
+ * Read the option list stored in the poll's JSONB column, sorted by display order
+ */
+export function getPollOptions(poll: Pick<Poll, 'options'>): PollOption[] {
+  const raw = Array.isArray(poll.options) ? poll.options as any[] : [];
+  return raw
+    .filter(option => option && option.id !== undefined && option.text !== undefined)
+    .map((option, index) => ({
+      id: String(option.id),
+      text: String(option.text),
+      order: typeof option.order === 'number' ? option.order : index + 1,
+    }))
+    .sort((a, b) => a.order - b.order);
+}
+
+/**
+ * Whether the poll can no longer accept votes (closed, or past its expiry date)
+ */
+export function isPollExpired(poll: Pick<Poll, 'status' | 'expiresAt'>, now: Date = new Date()): boolean {
+  if (poll.status !== 'active') return true;
+  return !!poll.expiresAt && new Date(poll.expiresAt).getTime() <= now.getTime();
+}
+
+/**
+ * Map the choices a voter gave (option ids, letters such as "B", or the option text)
+ * onto option ids, enforcing single vs multiple choice.
+ */
+export function resolveVoteSelection(
+  poll: Pick<Poll, 'type' | 'options'>,
+  rawSelection: unknown
+): { selectedOptions: string[]; error?: string } {
+  const options = getPollOptions(poll);
+  const choices = (Array.isArray(rawSelection) ? rawSelection : [rawSelection])
+    .filter(choice => choice !== undefined && choice !== null && String(choice).trim() !== '')
+    .map(choice => String(choice).trim());
+
+  if (choices.length === 0) {
+    return { selectedOptions: [], error: 'At least one option must be selected' };
+  }
+
+  const selectedOptions: string[] = [];
+  for (const choice of choices) {
+    const lower = choice.toLowerCase();
+    const match =
+      options.find(option => option.id.toLowerCase() === lower) ||
+      (/^[a-z]$/.test(lower) ? options[lower.charCodeAt(0) - 97] : undefined) ||
+      options.find(option => option.text.toLowerCase() === lower);
+
+    if (!match) {
+      return { selectedOptions: [], error: `"${choice}" is not one of the poll options` };
+    }
+    if (!selectedOptions.includes(match.id)) {
+      selectedOptions.push(match.id);
+    }
+  }
+
+  if (poll.type !== 'multiple_choice' && selectedOptions.length > 1) {
+    return { selectedOptions: [], error: 'This poll only allows a single choice' };
+  }
+
+  return { selectedOptions };
+}
+
+/**
+ * Count ballots per option. Percentages are the share of ballots that include the option,
+ * so multiple-choice polls can add up to more than 100.
+ */
+export function tallyPollVotes(poll: Poll, votes: PollVote[]): PollResults {
+  const options = getPollOptions(poll);
+  const counts = new Map<string, number>(options.map(option => [option.id, 0]));
+
+  for (const vote of votes) {
+    for (const optionId of new Set(vote.selectedOptions || [])) {
+      if (counts.has(optionId)) {
+        counts.set(optionId, (counts.get(optionId) || 0) + 1);
+      }
+    }
+  }
+
+  const totalVotes = votes.length;
+  const topCount = Math.max(0, ...Array.from(counts.values()));
+
+  return {
+    pollId: poll.id,
+    title: poll.title,
+    type: poll.type,
+    status: poll.status,
+    isAnonymous: !!poll.isAnonymous,
+    expiresAt: poll.expiresAt,
+    totalVotes,
+    uniqueVoters: new Set(votes.map(vote => vote.userId)).size,
+    options: options.map(option => {
+      const optionVotes = counts.get(option.id) || 0;
+      return {
+        ...option,
+        votes: optionVotes,
+        percentage: totalVotes > 0 ? Math.round((optionVotes / totalVotes) * 1000) / 10 : 0,
+      };
+    }),
+    leadingOptionIds: topCount > 0
+      ? options.filter(option => counts.get(option.id) === topCount).map(option => option.id)
+      : [],
+    voters: poll.isAnonymous
+      ? undefined
+      : votes.map(vote => ({
+          userId: vote.userId,
+          selectedOptions: vote.selectedOptions,
+          comment: vote.comment,
+          votedAt: vote.createdAt,
+        })),
+  };
+}
+
+/**
+ * One-line summary of a final tally, e.g. "Sushi won with 3 of 5 votes (60%)"
+ */
+export function describePollOutcome(results: PollResults): string {
+  if (results.totalVotes === 0) {
+    return 'No votes were cast';
+  }
+
+  const leaders = results.options.filter(option => results.leadingOptionIds.includes(option.id));
+  const ballots = `${results.totalVotes} vote${results.totalVotes === 1 ? '' : 's'}`;
+
+  if (leaders.length > 1) {
+    const names = leaders.map(option => `"${option.text}"`);
+    const list = `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}`;
+    return `Tie between ${list} with ${leaders[0].votes} of ${ballots} each`;
+  }
+
+  const [winner] = leaders;
+  return `"${winner.text}" won with ${winner.votes} of ${ballots} (${winner.percentage}%)`;
+}
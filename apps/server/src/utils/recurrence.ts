@@ -0,0 +1,114 @@
+/**
+ * Recurrence rule helpers for recurring tasks: validation and next-occurrence dates.
+ * Dates are computed in UTC and keep the time of day of the occurrence they follow.
+ */
+
+import type { TaskRecurrenceFrequency, TaskRecurrenceRule } from '@email-task-router/shared';
+
+const FREQUENCIES: TaskRecurrenceFrequency[] = ['daily', 'weekly', 'monthly'];
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_INTERVAL = 365;
+
+/**
+ * A well-formed rule from untrusted input (API bodies, Claude output), or null when the
+ * value does not describe a usable schedule
+ */
+export function normalizeRecurrenceRule(value: unknown): TaskRecurrenceRule | null {
+  if (!value || typeof value !== 'object') return null;
+  const input = value as Record<string, unknown>;
+
+  const frequency = String(input.frequency || '').toLowerCase() as TaskRecurrenceFrequency;
+  if (!FREQUENCIES.includes(frequency)) return null;
+
+  const interval = Number(input.interval ?? 1);
+  const rule: TaskRecurrenceRule = {
+    frequency,
+    interval: Number.isInteger(interval) && interval >= 1 && interval <= MAX_INTERVAL ? interval : 1,
+  };
+
+  if (frequency === 'weekly' && Array.isArray(input.byWeekday)) {
+    const weekdays = input.byWeekday
+      .map(day => Number(day))
+      .filter(day => Number.isInteger(day) && day >= 0 && day <= 6);
+    if (weekdays.length > 0) {
+      rule.byWeekday = Array.from(new Set(weekdays)).sort((a, b) => a - b);
+    }
+  }
+
+  if (frequency === 'monthly' && input.byMonthDay !== undefined && input.byMonthDay !== null) {
+    const monthDay = Number(input.byMonthDay);
+    if (Number.isInteger(monthDay) && monthDay >= 1 && monthDay <= 31) {
+      rule.byMonthDay = monthDay;
+    }
+  }
+
+  if (input.until) {
+    const until = new Date(String(input.until));
+    if (!isNaN(until.getTime())) {
+      rule.until = until.toISOString().split('T')[0];
+    }
+  }
+
+  if (input.count !== undefined && input.count !== null) {
+    const count = Number(input.count);
+    if (Number.isInteger(count) && count >= 1) {
+      rule.count = count;
+    }
+  }
+
+  return rule;
+}
+
+function startOfWeek(date: Date): number {
+  const day = Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+  return day - date.getUTCDay() * DAY_MS;
+}
+
+function addMonths(date: Date, months: number, monthDay: number): Date {
+  const next = new Date(date.getTime());
+  next.setUTCDate(1);
+  next.setUTCMonth(next.getUTCMonth() + months);
+  const daysInMonth = new Date(Date.UTC(next.getUTCFullYear(), next.getUTCMonth() + 1, 0)).getUTCDate();
+  next.setUTCDate(Math.min(monthDay, daysInMonth));
+  return next;
+}
+
+/**
+ * Date of the occurrence after `previous`, or null when the rule has ended.
+ * `occurrenceIndex` is the 1-based number of `previous` within its series.
+ */
+export function nextOccurrence(rule: TaskRecurrenceRule, previous: Date, occurrenceIndex = 1): Date | null {
+  if (rule.count && occurrenceIndex >= rule.count) return null;
+
+  let next: Date;
+  switch (rule.frequency) {
+    case 'daily':
+      next = new Date(previous.getTime() + rule.interval * DAY_MS);
+      break;
+    case 'weekly': {
+      if (!rule.byWeekday?.length) {
+        next = new Date(previous.getTime() + rule.interval * 7 * DAY_MS);
+        break;
+      }
+      // Walk forward to the next listed weekday in a week the interval allows
+      const firstWeek = startOfWeek(previous);
+      let candidate = new Date(previous.getTime() + DAY_MS);
+      while (true) {
+        const weekOffset = Math.round((startOfWeek(candidate) - firstWeek) / (7 * DAY_MS));
+        if (weekOffset % rule.interval === 0 && rule.byWeekday.includes(candidate.getUTCDay())) break;
+        candidate = new Date(candidate.getTime() + DAY_MS);
+      }
+      next = candidate;
+      break;
+    }
+    case 'monthly':
+      next = addMonths(previous, rule.interval, rule.byMonthDay ?? previous.getUTCDate());
+      break;
+    default:
+      return null;
+  }
+
+  // `until` is inclusive of the whole day
+  if (rule.until && next.getTime() >= new Date(rule.until).getTime() + DAY_MS) return null;
+  return next;
+}
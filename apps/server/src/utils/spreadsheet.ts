@@ -0,0 +1,489 @@
+/**
+ * Spreadsheet attachment parsing and column profiling.
+ * CSV is parsed directly; XLSX and ODS are zip archives whose sheet XML is read with JSZip.
+ * The first non-empty row of each sheet is treated as the header.
+ */
+
+import { decodeXml, getAttribute, loadZip, readZipText } from './xml';
+import type {
+  SpreadsheetColumnProfile,
+  SpreadsheetColumnType,
+  SpreadsheetProfile,
+  SpreadsheetSheetProfile,
+} from '@email-task-router/shared';
+
+export type SpreadsheetFormat = SpreadsheetProfile['format'];
+export type CellValue = string | number | boolean | Date | null;
+
+interface RawSheet {
+  name: string;
+  rows: CellValue[][];
+  truncated: boolean;
+}
+
+const MAX_ROWS = 10000; // Per sheet, header included
+const MAX_SHEETS = 10;
+const MAX_COLUMNS = 200;
+const SAMPLE_ROWS = 5;
+const MAX_OUTLIERS = 10;
+const TOP_VALUES = 5;
+const TYPE_THRESHOLD = 0.9; // Share of non-null values that must agree on a column type
+
+// Excel serial day 0 is 1899-12-30 (it counts the non-existent 1900-02-29)
+const EXCEL_EPOCH_MS = Date.UTC(1899, 11, 30);
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Built-in number formats that display dates and times
+const EXCEL_DATE_FORMAT_IDS = new Set([14, 15, 16, 17, 18, 19, 20, 21, 22, 45, 46, 47]);
+
+const NUMBER_PATTERN = /^[-+]?[$€£]?(\d{1,3}(,\d{3})+|\d+)?(\.\d+)?([eE][-+]?\d+)?%?$/;
+const DATE_PATTERN = /^(\d{4}-\d{1,2}-\d{1,2}([ T]\d{1,2}:\d{2}(:\d{2})?(\.\d+)?(Z|[+-]\d{2}:?\d{2})?)?|\d{1,2}[/.-]\d{1,2}[/.-]\d{2,4})$/;
+const BOOLEAN_VALUES = new Set(['true', 'false', 'yes', 'no']);
+
+/**
+ * The spreadsheet format of an attachment, or null when it is not one we can parse.
+ * Legacy binary .xls files are not supported.
+ */
+export function detectSpreadsheetFormat(contentType: string | null | undefined, filename: string | null | undefined): SpreadsheetFormat | null {
+  const name = (filename || '').toLowerCase();
+  const type = (contentType || '').toLowerCase();
+
+  if (/\.(csv|tsv)$/.test(name)) return 'csv';
+  if (/\.(xlsx|xlsm)$/.test(name)) return 'xlsx';
+  if (name.endsWith('.ods')) return 'ods';
+
+  if (type.includes('csv') || type.includes('tab-separated-values')) return 'csv';
+  if (type.includes('spreadsheetml')) return 'xlsx';
+  if (type.includes('opendocument.spreadsheet')) return 'ods';
+  return null;
+}
+
+/**
+ * Parse a spreadsheet and profile the columns of each of its sheets
+ */
+export async function profileSpreadsheet(content: Buffer, format: SpreadsheetFormat): Promise<SpreadsheetProfile> {
+  let sheets: RawSheet[];
+  if (format === 'csv') {
+    const rows = parseCsv(content.toString('utf-8'));
+    sheets = [{ name: 'Sheet1', rows: rows.slice(0, MAX_ROWS), truncated: rows.length > MAX_ROWS }];
+  } else if (format === 'xlsx') {
+    sheets = await parseXlsx(content);
+  } else {
+    sheets = await parseOds(content);
+  }
+
+  return {
+    format,
+    sheets: sheets.map(sheet => profileSheet(sheet.name, sheet.rows)),
+    truncated: sheets.some(sheet => sheet.truncated),
+  };
+}
+
+/**
+ * RFC 4180 CSV: quoted fields may contain delimiters, doubled quotes and line breaks.
+ * The delimiter (comma, semicolon or tab) is sniffed from the first line.
+ */
+export function parseCsv(text: string): string[][] {
+  const input = text.replace(/^\uFEFF/, '');
+  const delimiter = sniffDelimiter(input);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+      if (rows.length > MAX_ROWS) return rows;
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
+
+/**
+ * Profile one sheet: header names, row count, column statistics and a few sample rows
+ */
+export function profileSheet(name: string, rows: CellValue[][]): SpreadsheetSheetProfile {
+  const nonEmpty = rows.filter(row => row.some(cell => !isBlank(cell)));
+  if (nonEmpty.length === 0) {
+    return { name, rowCount: 0, columns: [], sampleRows: [] };
+  }
+
+  const [header, ...dataRows] = nonEmpty;
+  const width = Math.min(MAX_COLUMNS, Math.max(...nonEmpty.map(row => lastFilledIndex(row) + 1)));
+  const names = columnNames(header, width);
+
+  return {
+    name,
+    rowCount: dataRows.length,
+    columns: names.map((columnName, index) => profileColumn(columnName, dataRows.map(row => row[index] ?? null))),
+    sampleRows: dataRows.slice(0, SAMPLE_ROWS).map(row => names.map((_, index) => formatCell(row[index] ?? null))),
+  };
+}
+
+export function profileColumn(name: string, cells: CellValue[]): SpreadsheetColumnProfile {
+  const values = cells.filter(cell => !isBlank(cell)) as Exclude<CellValue, null>[];
+  const type = inferColumnType(values);
+  const profile: SpreadsheetColumnProfile = {
+    name,
+    type,
+    nullCount: cells.length - values.length,
+    distinctCount: new Set(values.map(formatCell)).size,
+  };
+
+  if (type === 'number') {
+    const numbers = values.map(toNumber).filter((value): value is number => value !== null);
+    const sorted = [...numbers].sort((a, b) => a - b);
+    profile.min = sorted[0];
+    profile.max = sorted[sorted.length - 1];
+    profile.mean = round(numbers.reduce((sum, value) => sum + value, 0) / numbers.length);
+    const outliers = findOutliers(sorted);
+    if (outliers.length > 0) profile.outliers = outliers;
+  } else if (type === 'date') {
+    const times = values.map(toDate).filter((value): value is Date => value !== null).map(date => date.getTime());
+    profile.min = formatDate(new Date(Math.min(...times)));
+    profile.max = formatDate(new Date(Math.max(...times)));
+  } else if (type === 'text') {
+    const counts = new Map<string, number>();
+    for (const value of values) {
+      const text = formatCell(value);
+      counts.set(text, (counts.get(text) || 0) + 1);
+    }
+    profile.topValues = Array.from(counts, ([value, count]) => ({ value, count }))
+      .sort((a, b) => b.count - a.count)
+      .slice(0, TOP_VALUES);
+  }
+
+  return profile;
+}
+
+/**
+ * Values outside Tukey's fences (1.5 IQR beyond the quartiles), smallest first
+ */
+export function findOutliers(sorted: number[]): number[] {
+  if (sorted.length < 4) return [];
+  const q1 = quantile(sorted, 0.25);
+  const q3 = quantile(sorted, 0.75);
+  const fence = 1.5 * (q3 - q1);
+  const outliers = sorted.filter(value => value < q1 - fence || value > q3 + fence);
+  return Array.from(new Set(outliers)).slice(0, MAX_OUTLIERS);
+}
+
+/**
+ * Plain-text rendering of a profile, used as the grounding for Claude's summary
+ */
+export function formatProfileForPrompt(profile: SpreadsheetProfile): string {
+  return profile.sheets.map(sheet => {
+    const lines = [`Sheet "${sheet.name}": ${sheet.rowCount} data rows, ${sheet.columns.length} columns`];
+    for (const column of sheet.columns) {
+      const parts = [`${column.type}`, `${column.nullCount} empty`, `${column.distinctCount} distinct`];
+      if (column.min !== undefined) parts.push(`min ${column.min}`, `max ${column.max}`);
+      if (column.mean !== undefined) parts.push(`mean ${column.mean}`);
+      if (column.outliers) parts.push(`outliers ${column.outliers.join(', ')}`);
+      if (column.topValues) parts.push(`most common ${column.topValues.map(top => `"${top.value}" (${top.count})`).join(', ')}`);
+      lines.push(`- ${column.name}: ${parts.join('; ')}`);
+    }
+    if (sheet.sampleRows.length > 0) {
+      lines.push(`Sample rows:`);
+      lines.push(sheet.columns.map(column => column.name).join(' | '));
+      for (const row of sheet.sampleRows) lines.push(row.join(' | '));
+    }
+    return lines.join('\n');
+  }).join('\n\n') + (profile.truncated ? `\n\nNOTE: Only the first ${MAX_ROWS} rows of each sheet were read.` : '');
+}
+
+async function parseXlsx(content: Buffer): Promise<RawSheet[]> {
+  const zip = await loadZip(content);
+  const workbook = await readZipText(zip, 'xl/workbook.xml');
+  if (!workbook) throw new Error('Not an XLSX workbook');
+
+  const relationships = new Map<string, string>();
+  const rels = await readZipText(zip, 'xl/_rels/workbook.xml.rels');
+  for (const match of rels.matchAll(/<Relationship\b([^>]*)\/?>/g)) {
+    const id = getAttribute(match[1], 'Id');
+    const target = getAttribute(match[1], 'Target');
+    if (id && target) relationships.set(id, target.startsWith('/') ? target.slice(1) : `xl/${target}`);
+  }
+
+  const sharedStrings = Array.from(
+    (await readZipText(zip, 'xl/sharedStrings.xml')).matchAll(/<si>([\s\S]*?)<\/si>/g),
+    match => readXmlText(match[1])
+  );
+  const dateStyles = readXlsxDateStyles(await readZipText(zip, 'xl/styles.xml'));
+
+  const sheets: RawSheet[] = [];
+  for (const match of Array.from(workbook.matchAll(/<sheet\b([^>]*)\/?>/g)).slice(0, MAX_SHEETS)) {
+    const name = decodeXml(getAttribute(match[1], 'name') || `Sheet${sheets.length + 1}`);
+    const path = relationships.get(getAttribute(match[1], 'r:id') || '');
+    const xml = path ? await readZipText(zip, path) : '';
+
+    const rows: CellValue[][] = [];
+    let truncated = false;
+    for (const rowMatch of xml.matchAll(/<row\b([^>]*?)(?:\/>|>([\s\S]*?)<\/row>)/g)) {
+      const rowNumber = Number(getAttribute(rowMatch[1], 'r')) || rows.length + 1;
+      if (rowNumber > MAX_ROWS) {
+        truncated = true;
+        break;
+      }
+
+      const row: CellValue[] = [];
+      for (const cellMatch of (rowMatch[2] || '').matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+        const column = columnIndex(getAttribute(cellMatch[1], 'r')) ?? row.length;
+        if (column >= MAX_COLUMNS) continue;
+        row[column] = readXlsxCell(cellMatch[1], cellMatch[2] || '', sharedStrings, dateStyles);
+      }
+      rows[rowNumber - 1] = Array.from(row, cell => cell ?? null);
+    }
+    sheets.push({ name, rows: Array.from(rows, row => row ?? []), truncated });
+  }
+  return sheets;
+}
+
+function readXlsxCell(attributes: string, inner: string, sharedStrings: string[], dateStyles: Set<number>): CellValue {
+  const type = getAttribute(attributes, 't');
+  if (type === 'inlineStr') return readXmlText(inner);
+
+  const raw = inner.match(/<v>([\s\S]*?)<\/v>/)?.[1];
+  if (raw === undefined) return null;
+
+  switch (type) {
+    case 's':
+      return sharedStrings[Number(raw)] ?? null;
+    case 'b':
+      return raw === '1';
+    case 'str':
+    case 'e':
+      return decodeXml(raw);
+    default: {
+      const value = Number(raw);
+      if (!Number.isFinite(value)) return decodeXml(raw);
+      return dateStyles.has(Number(getAttribute(attributes, 's') || 0))
+        ? new Date(EXCEL_EPOCH_MS + Math.round(value * DAY_MS))
+        : value;
+    }
+  }
+}
+
+/**
+ * Indexes of the cell styles (cellXfs) that display a date
+ */
+function readXlsxDateStyles(styles: string): Set<number> {
+  const dateFormats = new Set(EXCEL_DATE_FORMAT_IDS);
+  for (const match of styles.matchAll(/<numFmt\b([^>]*)\/?>/g)) {
+    const code = decodeXml(getAttribute(match[1], 'formatCode') || '')
+      .replace(/"[^"]*"|\[[^\]]*\]|\\./g, '')
+      .toLowerCase();
+    if (/[dmy]/.test(code)) dateFormats.add(Number(getAttribute(match[1], 'numFmtId')));
+  }
+
+  const cellXfs = styles.match(/<cellXfs\b[^>]*>([\s\S]*?)<\/cellXfs>/)?.[1] || '';
+  const dateStyles = new Set<number>();
+  Array.from(cellXfs.matchAll(/<xf\b([^>]*?)\/?>/g)).forEach((match, index) => {
+    if (dateFormats.has(Number(getAttribute(match[1], 'numFmtId')))) dateStyles.add(index);
+  });
+  return dateStyles;
+}
+
+async function parseOds(content: Buffer): Promise<RawSheet[]> {
+  const zip = await loadZip(content);
+  const xml = await readZipText(zip, 'content.xml');
+  if (!xml) throw new Error('Not an ODS spreadsheet');
+
+  const sheets: RawSheet[] = [];
+  for (const tableMatch of Array.from(xml.matchAll(/<table:table(?=[\s>])([^>]*)>([\s\S]*?)<\/table:table>/g)).slice(0, MAX_SHEETS)) {
+    const rows: CellValue[][] = [];
+    let pendingEmptyRows = 0;
+    let truncated = false;
+
+    for (const rowMatch of tableMatch[2].matchAll(/<table:table-row(?=[\s/>])([^>]*?)(?:\/>|>([\s\S]*?)<\/table:table-row>)/g)) {
+      const row = readOdsRow(rowMatch[2] || '');
+      const repeat = Number(getAttribute(rowMatch[1], 'table:number-rows-repeated')) || 1;
+
+      // Trailing blank rows are stored as one row repeated up to the sheet's full height
+      if (!row.some(cell => !isBlank(cell))) {
+        pendingEmptyRows += repeat;
+        continue;
+      }
+      for (let i = 0; i < pendingEmptyRows + repeat; i++) {
+        if (rows.length >= MAX_ROWS) {
+          truncated = true;
+          break;
+        }
+        rows.push(i < pendingEmptyRows ? [] : row);
+      }
+      pendingEmptyRows = 0;
+      if (truncated) break;
+    }
+
+    sheets.push({
+      name: decodeXml(getAttribute(tableMatch[1], 'table:name') || `Sheet${sheets.length + 1}`),
+      rows,
+      truncated,
+    });
+  }
+  return sheets;
+}
+
+function readOdsRow(xml: string): CellValue[] {
+  const row: CellValue[] = [];
+  let pendingEmptyCells = 0;
+
+  for (const cellMatch of xml.matchAll(/<table:(?:covered-)?table-cell(?=[\s/>])([^>]*?)(?:\/>|>([\s\S]*?)<\/table:(?:covered-)?table-cell>)/g)) {
+    const value = readOdsCell(cellMatch[1], cellMatch[2] || '');
+    const repeat = Number(getAttribute(cellMatch[1], 'table:number-columns-repeated')) || 1;
+
+    // Same for trailing blank cells, repeated up to the sheet's full width
+    if (isBlank(value)) {
+      pendingEmptyCells += repeat;
+      continue;
+    }
+    for (let i = 0; i < pendingEmptyCells + repeat && row.length < MAX_COLUMNS; i++) {
+      row.push(i < pendingEmptyCells ? null : value);
+    }
+    pendingEmptyCells = 0;
+  }
+  return row;
+}
+
+function readOdsCell(attributes: string, inner: string): CellValue {
+  switch (getAttribute(attributes, 'office:value-type')) {
+    case 'float':
+    case 'percentage':
+    case 'currency':
+      return Number(getAttribute(attributes, 'office:value'));
+    case 'date':
+      return toDate(getAttribute(attributes, 'office:date-value') || '');
+    case 'boolean':
+      return getAttribute(attributes, 'office:boolean-value') === 'true';
+    default: {
+      const paragraphs = Array.from(inner.matchAll(/<text:p\b[^>]*>([\s\S]*?)<\/text:p>/g), match =>
+        readXmlText(match[1].replace(/<text:s\b([^>]*)\/>/g, (_, spaceAttributes: string) =>
+          ' '.repeat(Number(getAttribute(spaceAttributes, 'text:c')) || 1))));
+      return paragraphs.length > 0 ? paragraphs.join('\n') : null;
+    }
+  }
+}
+
+function inferColumnType(values: Exclude<CellValue, null>[]): SpreadsheetColumnType {
+  if (values.length === 0) return 'empty';
+
+  const required = Math.ceil(values.length * TYPE_THRESHOLD);
+  const count = (predicate: (value: Exclude<CellValue, null>) => boolean) => values.filter(predicate).length;
+
+  if (count(value => typeof value === 'boolean' || (typeof value === 'string' && BOOLEAN_VALUES.has(value.trim().toLowerCase()))) >= required) {
+    return 'boolean';
+  }
+  if (count(value => toNumber(value) !== null) >= required) return 'number';
+  if (count(value => toDate(value) !== null) >= required) return 'date';
+  return 'text';
+}
+
+function toNumber(value: CellValue): number | null {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value !== 'string') return null;
+
+  const text = value.trim();
+  if (!text || !NUMBER_PATTERN.test(text) || !/\d/.test(text)) return null;
+  const number = Number(text.replace(/[$€£,%]/g, ''));
+  return Number.isFinite(number) ? number : null;
+}
+
+function toDate(value: CellValue): Date | null {
+  if (value instanceof Date) return Number.isNaN(value.getTime()) ? null : value;
+  if (typeof value !== 'string' || !DATE_PATTERN.test(value.trim())) return null;
+
+  const date = new Date(value.trim());
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+function columnNames(header: CellValue[], width: number): string[] {
+  const seen = new Map<string, number>();
+  return Array.from({ length: width }, (_, index) => {
+    const base = formatCell(header[index] ?? null).trim() || `Column ${index + 1}`;
+    const occurrences = (seen.get(base) || 0) + 1;
+    seen.set(base, occurrences);
+    return occurrences > 1 ? `${base} (${occurrences})` : base;
+  });
+}
+
+/**
+ * Zero-based column of an A1-style cell reference
+ */
+function columnIndex(reference: string | null): number | null {
+  const letters = reference?.match(/^[A-Z]+/i)?.[0];
+  if (!letters) return null;
+  return letters.toUpperCase().split('').reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+}
+
+function formatCell(value: CellValue): string {
+  if (value === null) return '';
+  if (value instanceof Date) return formatDate(value);
+  return String(value);
+}
+
+function formatDate(date: Date): string {
+  const iso = date.toISOString();
+  return iso.endsWith('T00:00:00.000Z') ? iso.slice(0, 10) : iso;
+}
+
+function isBlank(value: CellValue): boolean {
+  return value === null || (typeof value === 'string' && value.trim() === '');
+}
+
+function lastFilledIndex(row: CellValue[]): number {
+  for (let i = row.length - 1; i >= 0; i--) {
+    if (!isBlank(row[i])) return i;
+  }
+  return -1;
+}
+
+function quantile(sorted: number[], q: number): number {
+  const position = (sorted.length - 1) * q;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+function round(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
+
+function sniffDelimiter(text: string): string {
+  const firstLine = text.slice(0, text.search(/\r?\n|$/));
+  const unquoted = firstLine.replace(/"[^"]*"/g, '');
+  const candidates = [',', ';', '\t'];
+  return candidates.reduce((best, candidate) =>
+    unquoted.split(candidate).length > unquoted.split(best).length ? candidate : best);
+}
+
+/**
+ * Concatenated text runs (<t>, <text:span> ...) of an XML fragment, tags removed
+ */
+function readXmlText(xml: string): string {
+  return decodeXml(xml.replace(/<rPh\b[\s\S]*?<\/rPh>/g, '').replace(/<[^>]+>/g, ''));
+}
@@ -0,0 +1,59 @@
+/**
+ * Dependency graph helpers for tasks: cycle checks and the automatic "blocked" status
+ */
+
+export interface DependencyEdge {
+  taskId: number;
+  dependsOnTaskId: number;
+}
+
+// Statuses the Kanban board shows in its Done column
+export const DONE_TASK_STATUSES = ['completed', 'done', 'finished'];
+const DONE_STATUSES = new Set(DONE_TASK_STATUSES);
+
+export function isTaskOpen(status: string): boolean {
+  return !DONE_STATUSES.has(status.toLowerCase());
+}
+
+/**
+ * Whether making `taskId` wait on `dependsOnTaskId` would close a loop, i.e. the
+ * predecessor already (transitively) waits on the task
+ */
+export function wouldCreateCycle(edges: DependencyEdge[], taskId: number, dependsOnTaskId: number): boolean {
+  if (taskId === dependsOnTaskId) return true;
+
+  const visited = new Set<number>();
+  const queue = [dependsOnTaskId];
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    if (current === taskId) return true;
+    if (visited.has(current)) continue;
+    visited.add(current);
+    for (const edge of edges) {
+      if (edge.taskId === current) queue.push(edge.dependsOnTaskId);
+    }
+  }
+  return false;
+}
+
+/**
+ * Status a task should move to given whether any predecessor is still open, or null to leave it.
+ * Only tasks this rule blocked (status "blocked") are released again.
+ */
+export function resolveBlockedStatus(status: string, hasOpenPredecessors: boolean): string | null {
+  if (hasOpenPredecessors && isTaskOpen(status) && status !== 'blocked') return 'blocked';
+  if (!hasOpenPredecessors && status === 'blocked') return 'pending';
+  return null;
+}
+
+/**
+ * Positions of earlier-extracted tasks this one waits on, as returned by the email parser.
+ * Drops anything that is not a valid position in the batch or points at the task itself.
+ */
+export function sanitizeDependsOn(value: unknown, index: number, count: number): number[] {
+  if (!Array.isArray(value)) return [];
+  const positions = value
+    .map(position => Number(position))
+    .filter(position => Number.isInteger(position) && position >= 0 && position < count && position !== index);
+  return Array.from(new Set(positions));
+}
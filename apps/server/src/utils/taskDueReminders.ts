@@ -0,0 +1,68 @@
+/**
+ * Due-date reminder offsets: parsing the configured schedule and picking the reminder
+ * a task is due for at a given time.
+ */
+
+export interface TaskDueReminderOffset {
+  key: string; // As configured, e.g. '24h'; 'overdue' for the reminder after the due date
+  leadMs: number; // How long before the due date it fires; 0 for 'overdue'
+}
+
+export const OVERDUE_REMINDER_KEY = 'overdue';
+export const DEFAULT_TASK_DUE_REMINDER_OFFSETS = '24h,1h,overdue';
+
+const UNIT_MS: Record<string, number> = {
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+};
+
+/**
+ * Offsets from a comma-separated list such as "24h,1h,overdue" (units m, h and d),
+ * longest lead first. Throws on entries it cannot read.
+ */
+export function parseTaskDueReminderOffsets(value: string = DEFAULT_TASK_DUE_REMINDER_OFFSETS): TaskDueReminderOffset[] {
+  const offsets = new Map<string, TaskDueReminderOffset>();
+  for (const entry of value.split(',').map(part => part.trim().toLowerCase()).filter(Boolean)) {
+    if (entry === OVERDUE_REMINDER_KEY) {
+      offsets.set(entry, { key: entry, leadMs: 0 });
+      continue;
+    }
+    const match = entry.match(/^(\d+)([mhd])$/);
+    const amount = match ? parseInt(match[1], 10) : 0;
+    if (!match || amount <= 0) {
+      throw new Error(`Invalid task due reminder offset "${entry}"; use e.g. 30m, 24h, 2d or overdue`);
+    }
+    offsets.set(entry, { key: entry, leadMs: amount * UNIT_MS[match[2]] });
+  }
+  return [...offsets.values()].sort((a, b) => b.leadMs - a.leadMs);
+}
+
+/**
+ * The reminder a task is due for: the one with the shortest lead whose time has come.
+ * Reminders skipped while the server was down are not sent late; only the latest applies.
+ */
+export function currentReminderOffset(dueDate: Date, offsets: TaskDueReminderOffset[], now: Date): TaskDueReminderOffset | undefined {
+  const untilDue = dueDate.getTime() - now.getTime();
+  let current: TaskDueReminderOffset | undefined;
+  for (const offset of offsets) {
+    const reached = offset.key === OVERDUE_REMINDER_KEY ? untilDue <= 0 : untilDue <= offset.leadMs && untilDue > 0;
+    if (reached && (!current || offset.leadMs < current.leadMs)) {
+      current = offset;
+    }
+  }
+  return current;
+}
+
+/**
+ * "3 hours", "45 minutes", "2 days": time left until the due date, rounded
+ */
+export function formatTimeUntilDue(dueDate: Date, now: Date): string {
+  const minutes = Math.max(1, Math.round((dueDate.getTime() - now.getTime()) / UNIT_MS.m));
+  const [amount, unit] = minutes < 60
+    ? [minutes, 'minute']
+    : minutes < 48 * 60
+      ? [Math.round(minutes / 60), 'hour']
+      : [Math.round(minutes / (24 * 60)), 'day'];
+  return `${amount} ${unit}${amount === 1 ? '' : 's'}`;
+}
@@ -0,0 +1,41 @@
+/**
+ * Working out which tasks an email reply is about
+ */
+
+import { isTaskOpen } from './taskDependencies';
+
+const TASK_MARKER = /\[Task #(\d+)\]/gi;
+const MIN_TITLE_LENGTH = 4; // Shorter titles ("QA", "Fix") match too much ordinary text
+
+/**
+ * Marker included in task emails so replies quoting them can be traced back to the task
+ */
+export function formatTaskMarker(taskId: number): string {
+  return `[Task #${taskId}]`;
+}
+
+/**
+ * Tasks a reply refers to, in order of confidence:
+ * 1. task markers anywhere in the body (usually the quoted notification being replied to)
+ * 2. task titles mentioned in the new reply text
+ * 3. the only open task of the thread
+ */
+export function findTasksInReply<T extends { id: number; title: string; status: string }>(
+  body: string,
+  replyText: string,
+  tasks: T[]
+): T[] {
+  const markedIds = new Set(Array.from(body.matchAll(TASK_MARKER), match => Number(match[1])));
+  const marked = tasks.filter(task => markedIds.has(task.id));
+  if (marked.length > 0) return marked;
+
+  const text = replyText.toLowerCase();
+  const mentioned = tasks.filter(task => {
+    const title = task.title.trim().toLowerCase();
+    return title.length >= MIN_TITLE_LENGTH && text.includes(title);
+  });
+  if (mentioned.length > 0) return mentioned;
+
+  const open = tasks.filter(task => isTaskOpen(task.status));
+  return open.length === 1 ? open : [];
+}
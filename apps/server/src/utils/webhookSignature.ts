@@ -0,0 +1,53 @@
+import * as crypto from 'crypto';
+
+/**
+ * HMAC signatures for inbound webhooks (and outbound ones, such as audit alerts)
+ *
+ * The sender signs `<timestamp>.<raw body>` with the shared secret using HMAC-SHA256 and sends
+ * the timestamp (unix seconds) and `sha256=<hex digest>` in headers. Including the timestamp lets
+ * the receiver reject replays of old requests.
+ */
+
+export const WEBHOOK_SIGNATURE_HEADER = 'x-webhook-signature';
+export const WEBHOOK_TIMESTAMP_HEADER = 'x-webhook-timestamp';
+export const DEFAULT_SIGNATURE_TOLERANCE_SECONDS = 300;
+
+export type WebhookSignatureFailure = 'missing_secret' | 'missing_signature' | 'stale_timestamp' | 'invalid_signature';
+
+export type WebhookSignatureCheck = { valid: true } | { valid: false; reason: WebhookSignatureFailure };
+
+export function signWebhookPayload(secret: string, timestamp: string | number, body: Buffer | string): string {
+  const digest = crypto
+    .createHmac('sha256', secret)
+    .update(`${timestamp}.`)
+    .update(body)
+    .digest('hex');
+  return `sha256=${digest}`;
+}
+
+export function verifyWebhookSignature(options: {
+  secret: string | undefined;
+  signature: string | undefined;
+  timestamp: string | undefined;
+  body: Buffer | string;
+  toleranceSeconds?: number;
+  now?: number; // ms, for tests
+}): WebhookSignatureCheck {
+  const { secret, signature, timestamp, body } = options;
+  if (!secret) return { valid: false, reason: 'missing_secret' };
+  if (!signature || !timestamp) return { valid: false, reason: 'missing_signature' };
+
+  const sentAt = Number(timestamp);
+  const tolerance = options.toleranceSeconds ?? DEFAULT_SIGNATURE_TOLERANCE_SECONDS;
+  const nowSeconds = Math.floor((options.now ?? Date.now()) / 1000);
+  if (!/^\d+$/.test(timestamp) || Math.abs(nowSeconds - sentAt) > tolerance) {
+    return { valid: false, reason: 'stale_timestamp' };
+  }
+
+  const expected = Buffer.from(signWebhookPayload(secret, timestamp, body));
+  const received = Buffer.from(signature.trim());
+  if (expected.length !== received.length || !crypto.timingSafeEqual(expected, received)) {
+    return { valid: false, reason: 'invalid_signature' };
+  }
+  return { valid: true };
+}
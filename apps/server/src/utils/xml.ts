@@ -0,0 +1,68 @@
+/**
+ * Minimal helpers for reading the XML parts of zipped office files (XLSX, ODS, DOCX, PPTX)
+ */
+
+import JSZip from 'jszip';
+
+// A few kilobytes of zip can inflate to gigabytes, so parts are inflated as a stream and
+// every part read from one archive is charged against a shared budget
+const MAX_ZIP_ENTRIES = 10000;
+const MAX_ZIP_TEXT_BYTES = 64 * 1024 * 1024;
+
+const inflatedBytes = new WeakMap<JSZip, number>();
+
+/**
+ * Open a zipped office file. Throws when it is not a zip archive or has too many entries.
+ */
+export async function loadZip(content: Buffer): Promise<JSZip> {
+  const zip = await JSZip.loadAsync(content);
+  const entries = Object.keys(zip.files).length;
+  if (entries > MAX_ZIP_ENTRIES) {
+    throw new Error(`Zip archive has ${entries} entries, more than the ${MAX_ZIP_ENTRIES} allowed`);
+  }
+  return zip;
+}
+
+/**
+ * Read a part as UTF-8 text, or '' when the archive has no such part. Rejects once the parts
+ * read from this archive inflate past MAX_ZIP_TEXT_BYTES.
+ */
+export async function readZipText(zip: JSZip, path: string): Promise<string> {
+  const file = zip.file(path);
+  if (!file) return '';
+
+  const chunks: Buffer[] = [];
+  await new Promise<void>((resolve, reject) => {
+    const stream = file.nodeStream('nodebuffer');
+    stream.on('data', (chunk: Buffer) => {
+      const total = (inflatedBytes.get(zip) ?? 0) + chunk.length;
+      inflatedBytes.set(zip, total);
+      if (total > MAX_ZIP_TEXT_BYTES) {
+        stream.pause();
+        stream.removeAllListeners('data');
+        reject(new Error(`Zip archive inflates past ${MAX_ZIP_TEXT_BYTES} bytes at ${path}`));
+        return;
+      }
+      chunks.push(chunk);
+    });
+    stream.on('error', reject);
+    stream.on('end', () => resolve());
+  });
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+export function getAttribute(attributes: string, name: string): string | null {
+  const escaped = name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return attributes.match(new RegExp(`(?:^|\\s)${escaped}="([^"]*)"`))?.[1] ?? null;
+}
+
+export function decodeXml(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(Number(code)))
+    .replace(/&#x([0-9a-f]+);/gi, (_, code) => String.fromCodePoint(parseInt(code, 16)))
+    .replace(/&amp;/g, '&');
+}
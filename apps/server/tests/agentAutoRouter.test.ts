@@ -0,0 +1,152 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { agentAutoRouter } from '../src/services/email/AgentAutoRouter'
+import { AutoRouteHandler } from '../src/services/handlers/autoRouteHandler'
+import { storage } from '../src/storage'
+import { sendMail } from '../src/services/mailer'
+import { createMockEmail } from './helpers'
+
+vi.mock('../src/storage', () => ({
+  storage: {
+    createAgentRoutingDecision: vi.fn(),
+    updateProcessedEmail: vi.fn(),
+  },
+}))
+
+vi.mock('../src/services/mailer', () => ({
+  sendMail: vi.fn(),
+}))
+
+const loadBalancerEmail = (overrides = {}) => createMockEmail({ to: ['agent@inboxleap.com'], ...overrides })
+
+describe('AgentAutoRouter', () => {
+  it('should route task assignments to todo', () => {
+    const decision = agentAutoRouter.classify(loadBalancerEmail({
+      subject: 'Project deadline approaching - action required',
+      body: 'Hi team, we need to complete the following tasks by Friday. Please assign yourselves and update progress.',
+    }))
+
+    expect(decision).toMatchObject({ agentId: 'todo', ambiguous: false })
+  })
+
+  it('should route meeting polls to polly', () => {
+    const decision = agentAutoRouter.classify(loadBalancerEmail({
+      subject: 'Which meeting time works best?',
+      body: 'Which time works for you? Option 1: Monday 2pm, Option 2: Tuesday 10am. Please vote!',
+    }))
+
+    expect(decision).toMatchObject({ agentId: 'polly', ambiguous: false })
+  })
+
+  it('should route emails with documents to the analyzer', () => {
+    const decision = agentAutoRouter.classify(loadBalancerEmail({
+      subject: 'Please review attached contract',
+      body: 'Please review the attached contract and share your thoughts on the terms.',
+      attachments: [{ filename: 'contract.pdf', contentType: 'application/pdf', size: 10, content: Buffer.from('x') }],
+    }))
+
+    expect(decision.agentId).toBe('analyzer')
+    expect(decision.scores[0].reasons).toContain('Has relevant attachments: contract.pdf')
+  })
+
+  it('should route help requests to faq', () => {
+    const decision = agentAutoRouter.classify(loadBalancerEmail({
+      subject: 'How to submit expense reports?',
+      body: 'I need help understanding the process. What are the steps for approval?',
+    }))
+
+    expect(decision.agentId).toBe('faq')
+  })
+
+  it('should flag emails without any signals as ambiguous', () => {
+    const decision = agentAutoRouter.classify(loadBalancerEmail({ subject: 'Hello', body: 'Great seeing you yesterday!' }))
+
+    expect(decision).toMatchObject({ agentId: null, ambiguous: true, confidence: 0, scores: [] })
+  })
+
+  it('should not match keywords inside other words', () => {
+    const decision = agentAutoRouter.classify(loadBalancerEmail({ subject: 'Lunch', body: 'However, whichever.' }))
+
+    expect(decision.scores).toEqual([])
+  })
+})
+
+describe('AutoRouteHandler', () => {
+  const dispatchers = {
+    todo: vi.fn(),
+    polly: vi.fn(),
+    analyzer: vi.fn(),
+    faq: vi.fn(),
+    t5t: vi.fn(),
+  }
+  const handler = new AutoRouteHandler(dispatchers)
+  const processedEmail = { id: 5 }
+  const queue = (email = loadBalancerEmail()) => ({
+    id: '1',
+    email,
+    userId: 'user-123',
+    timestamp: new Date(),
+    status: 'processing' as const,
+    retryCount: 0,
+  })
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    Object.values(dispatchers).forEach(dispatcher => dispatcher.mockResolvedValue(true))
+  })
+
+  it('should dispatch to the winning agent and record the decision', async () => {
+    const queuedEmail = queue(loadBalancerEmail({
+      subject: '[POLL] Which day for the offsite?',
+      body: 'Please vote: option 1 Friday, option 2 Saturday.',
+    }))
+
+    await handler.process(queuedEmail, processedEmail)
+
+    expect(dispatchers.polly).toHaveBeenCalledWith(queuedEmail, processedEmail)
+    expect(storage.createAgentRoutingDecision).toHaveBeenCalledWith(expect.objectContaining({
+      processedEmailId: 5,
+      selectedAgent: 'polly',
+      outcome: 'dispatched',
+    }))
+    expect(sendMail).not.toHaveBeenCalled()
+  })
+
+  it('should ask the sender to choose when the email is ambiguous', async () => {
+    await handler.process(queue(loadBalancerEmail({ subject: 'Hello', body: 'Thoughts?' })), processedEmail)
+
+    Object.values(dispatchers).forEach(dispatcher => expect(dispatcher).not.toHaveBeenCalled())
+    expect(storage.createAgentRoutingDecision).toHaveBeenCalledWith(expect.objectContaining({
+      selectedAgent: null,
+      outcome: 'clarification_requested',
+    }))
+    expect(sendMail).toHaveBeenCalledWith(expect.objectContaining({
+      to: 'test@example.com',
+      subject: 'Re: Hello',
+      text: expect.stringContaining('todo@inboxleap.com'),
+    }))
+    expect(storage.updateProcessedEmail).toHaveBeenCalledWith(5, expect.objectContaining({ status: 'processed' }))
+  })
+
+  it('should fall back to asking the sender when the chosen agent cannot take the email', async () => {
+    dispatchers.faq.mockResolvedValue(false)
+
+    await handler.process(queue(loadBalancerEmail({
+      subject: 'How to request leave?',
+      body: 'I need help with the procedure. What are the steps?',
+    })), processedEmail)
+
+    expect(dispatchers.faq).toHaveBeenCalled()
+    expect(sendMail).toHaveBeenCalled()
+    expect(storage.createAgentRoutingDecision).toHaveBeenLastCalledWith(expect.objectContaining({
+      outcome: 'clarification_requested',
+      reason: expect.stringContaining('faq cannot handle'),
+    }))
+  })
+
+  it('should not email service senders back when their mail is ambiguous', async () => {
+    await handler.process(queue(loadBalancerEmail({ from: 'notification@inboxleap.com', subject: 'Hi', body: 'Ping' })), processedEmail)
+
+    expect(sendMail).not.toHaveBeenCalled()
+    expect(dispatchers.todo).toHaveBeenCalled()
+  })
+})
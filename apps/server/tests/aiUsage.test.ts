@@ -0,0 +1,190 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { storage } from '../src/storage'
+import { sendMail } from '../src/services/mailer'
+import { aiUsageService, isAiBudgetExceeded, startOfMonth } from '../src/services/aiUsage/aiUsageService'
+import { calculateCostUsd } from '../src/services/aiUsage/pricing'
+import { memoizeCompanyResolver, withAiUsageContext } from '../src/services/aiUsage/usageContext'
+import { setLLMClient } from '../src/services/llm/llmClient'
+
+vi.mock('../src/storage', () => ({
+  storage: {
+    createAiUsageEvent: vi.fn(),
+    getAiUsageCostSince: vi.fn(),
+    getAiUsageTotals: vi.fn(),
+    getCompanyAiBudget: vi.fn(),
+    upsertCompanyAiBudget: vi.fn(),
+    getUserCompanyMemberships: vi.fn(),
+    getCompanyMemberships: vi.fn(),
+    getCompany: vi.fn(),
+    getUser: vi.fn(),
+  },
+}))
+
+vi.mock('../src/services/mailer', () => ({
+  sendMail: vi.fn(),
+}))
+
+const REQUEST = { model: 'claude-sonnet-4-20250514', maxTokens: 100, messages: [{ role: 'user' as const, content: 'Hi' }] }
+
+function fakeClient(complete = vi.fn().mockResolvedValue({
+  text: 'Hello',
+  model: 'claude-sonnet-4-20250514',
+  provider: 'anthropic',
+  usage: { inputTokens: 1000, outputTokens: 200, cacheReadTokens: 500 },
+})) {
+  setLLMClient({ provider: 'anthropic', isConfigured: () => true, complete })
+  return { complete }
+}
+
+function budget(softLimitUsd: string | null, hardLimitUsd: string | null, softLimitNotifiedAt: Date | null = null, hardLimitNotifiedAt: Date | null = null) {
+  return { id: 1, companyId: 7, softLimitUsd, hardLimitUsd, softLimitNotifiedAt, hardLimitNotifiedAt, updatedBy: null, createdAt: null, updatedAt: null }
+}
+
+describe('calculateCostUsd', () => {
+  it('should price tokens by model family and fall back to Sonnet prices', () => {
+    expect(calculateCostUsd('claude-sonnet-4-20250514', { inputTokens: 1_000_000, outputTokens: 1_000_000 })).toBe(18)
+    expect(calculateCostUsd('claude-3-5-haiku-20241022', { inputTokens: 1_000_000, outputTokens: 0 })).toBe(0.8)
+    expect(calculateCostUsd('claude-opus-4-1', { inputTokens: 0, outputTokens: 0, cacheReadTokens: 1_000_000 })).toBe(1.5)
+    expect(calculateCostUsd('some-future-model', { inputTokens: 1_000_000, outputTokens: 0 })).toBe(3)
+  })
+})
+
+describe('aiUsageService.complete', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(storage.getCompanyAiBudget).mockResolvedValue(undefined)
+    vi.mocked(storage.getAiUsageCostSince).mockResolvedValue(0)
+    vi.mocked(storage.createAiUsageEvent).mockResolvedValue({} as any)
+  })
+
+  it('should record tokens, cost and the active context', async () => {
+    const { complete } = fakeClient()
+    const resolveCompanyId = vi.fn().mockResolvedValue(7)
+
+    await withAiUsageContext({ userId: 'user-1', resolveCompanyId: memoizeCompanyResolver(resolveCompanyId) }, () =>
+      withAiUsageContext({ agent: 'todo' }, async () => {
+        await aiUsageService.complete(REQUEST, { operation: 'parseEmailToTasks' })
+        await aiUsageService.complete(REQUEST, { operation: 'extractTopic' })
+      })
+    )
+
+    expect(resolveCompanyId).toHaveBeenCalledTimes(1)
+    expect(complete).toHaveBeenCalledWith(REQUEST, { operation: 'parseEmailToTasks', agent: 'todo' })
+    expect(storage.createAiUsageEvent).toHaveBeenCalledWith(expect.objectContaining({
+      model: 'claude-sonnet-4-20250514',
+      agent: 'todo',
+      operation: 'parseEmailToTasks',
+      companyId: 7,
+      userId: 'user-1',
+      inputTokens: 1000,
+      outputTokens: 200,
+      cacheReadTokens: 500,
+      success: true,
+      costUsd: '0.006150',
+    }))
+  })
+
+  it('should record failed requests and rethrow the error', async () => {
+    fakeClient(vi.fn().mockRejectedValue(new Error('overloaded')))
+
+    await expect(aiUsageService.complete(REQUEST, { operation: 'categorizeEmail', agent: 't5t' }))
+      .rejects.toThrow('overloaded')
+
+    expect(storage.createAiUsageEvent).toHaveBeenCalledWith(expect.objectContaining({
+      agent: 't5t',
+      companyId: null,
+      success: false,
+      error: 'overloaded',
+      costUsd: '0.000000',
+    }))
+  })
+
+  it('should refuse requests of companies past their hard limit', async () => {
+    const { complete } = fakeClient()
+    vi.mocked(storage.getCompanyAiBudget).mockResolvedValue(budget(null, '50.00', null, new Date()))
+    vi.mocked(storage.getAiUsageCostSince).mockResolvedValue(50.01)
+
+    const error = await withAiUsageContext({ companyId: 7 }, () =>
+      aiUsageService.complete(REQUEST, { operation: 'parseEmailToTasks' }).catch(e => e)
+    )
+
+    expect(isAiBudgetExceeded(error)).toBe(true)
+    expect(complete).not.toHaveBeenCalled()
+    expect(storage.createAiUsageEvent).not.toHaveBeenCalled()
+  })
+
+  it('should warn company admins once a month when the soft limit is passed', async () => {
+    const { complete } = fakeClient()
+    vi.mocked(storage.getCompanyAiBudget).mockResolvedValue(budget('20.00', '50.00'))
+    vi.mocked(storage.getAiUsageCostSince).mockResolvedValue(25)
+    vi.mocked(storage.getCompany).mockResolvedValue({ id: 7, name: 'Acme' } as any)
+    vi.mocked(storage.getCompanyMemberships).mockResolvedValue([
+      { userId: 'admin-1', role: 'admin', isActive: true },
+      { userId: 'member-1', role: 'member', isActive: true },
+    ] as any)
+    vi.mocked(storage.getUser).mockResolvedValue({ id: 'admin-1', email: 'boss@acme.com' } as any)
+
+    await withAiUsageContext({ companyId: 7 }, () => aiUsageService.complete(REQUEST, { operation: 'sendMessage' }))
+    await vi.waitFor(() => expect(sendMail).toHaveBeenCalledTimes(1))
+
+    expect(complete).toHaveBeenCalled()
+    expect(storage.upsertCompanyAiBudget).toHaveBeenCalledWith(7, { softLimitNotifiedAt: expect.any(Date) })
+    expect(sendMail).toHaveBeenCalledWith(expect.objectContaining({
+      to: ['boss@acme.com'],
+      subject: '💸 AI budget warning: Acme',
+    }))
+
+    vi.mocked(storage.getCompanyAiBudget).mockResolvedValue(budget('20.00', '50.00', new Date()))
+    await withAiUsageContext({ companyId: 7 }, () => aiUsageService.complete(REQUEST, { operation: 'sendMessage' }))
+    expect(storage.upsertCompanyAiBudget).toHaveBeenCalledTimes(1)
+  })
+
+  it('should tell company admins once a month when requests start being refused', async () => {
+    fakeClient()
+    vi.mocked(storage.getCompanyAiBudget).mockResolvedValue(budget('20.00', '50.00', new Date()))
+    vi.mocked(storage.getAiUsageCostSince).mockResolvedValue(50.01)
+    vi.mocked(storage.getCompany).mockResolvedValue({ id: 7, name: 'Acme' } as any)
+    vi.mocked(storage.getCompanyMemberships).mockResolvedValue([{ userId: 'admin-1', role: 'admin', isActive: true }] as any)
+    vi.mocked(storage.getUser).mockResolvedValue({ id: 'admin-1', email: 'boss@acme.com' } as any)
+
+    const refuse = () => withAiUsageContext({ companyId: 7 }, () =>
+      aiUsageService.complete(REQUEST, { operation: 'sendMessage' }).catch(e => e)
+    )
+
+    expect(isAiBudgetExceeded(await refuse())).toBe(true)
+    await vi.waitFor(() => expect(sendMail).toHaveBeenCalledTimes(1))
+    expect(storage.upsertCompanyAiBudget).toHaveBeenCalledWith(7, { hardLimitNotifiedAt: expect.any(Date) })
+    expect(sendMail).toHaveBeenCalledWith(expect.objectContaining({
+      to: ['boss@acme.com'],
+      subject: '💸 AI budget exhausted: Acme',
+    }))
+
+    vi.mocked(storage.getCompanyAiBudget).mockResolvedValue(budget('20.00', '50.00', new Date(), new Date()))
+    expect(isAiBudgetExceeded(await refuse())).toBe(true)
+    expect(storage.upsertCompanyAiBudget).toHaveBeenCalledTimes(1)
+    expect(sendMail).toHaveBeenCalledTimes(1)
+  })
+})
+
+describe('aiUsageService.getCostBreakdown', () => {
+  it('should sum usage rows by agent, model, company and day', async () => {
+    const row = { requests: 1, failedRequests: 0, inputTokens: 100, outputTokens: 10, costUsd: 0.5 }
+    vi.mocked(storage.getAiUsageTotals).mockResolvedValue([
+      { ...row, day: '2026-04-01', agent: 'todo', model: 'claude-sonnet-4', companyId: 7 },
+      { ...row, day: '2026-04-01', agent: 't5t', model: 'claude-sonnet-4', companyId: null, costUsd: 2 },
+      { ...row, day: '2026-04-02', agent: 'todo', model: 'claude-3-5-haiku', companyId: 7, failedRequests: 1 },
+    ])
+    vi.mocked(storage.getCompany).mockResolvedValue({ id: 7, name: 'Acme' } as any)
+
+    const breakdown = await aiUsageService.getCostBreakdown(startOfMonth(new Date('2026-04-15T00:00:00Z')))
+
+    expect(breakdown.total).toEqual({ requests: 3, failedRequests: 1, inputTokens: 300, outputTokens: 30, costUsd: 3 })
+    expect(breakdown.byAgent.map(a => [a.agent, a.costUsd])).toEqual([['t5t', 2], ['todo', 1]])
+    expect(breakdown.byCompany).toEqual([
+      expect.objectContaining({ companyId: null, companyName: null, costUsd: 2 }),
+      expect.objectContaining({ companyId: 7, companyName: 'Acme', costUsd: 1, requests: 2 }),
+    ])
+    expect(breakdown.daily.map(d => [d.day, d.costUsd])).toEqual([['2026-04-01', 2.5], ['2026-04-02', 0.5]])
+    expect(storage.getAiUsageTotals).toHaveBeenCalledWith(new Date('2026-04-01T00:00:00Z'), undefined)
+  })
+})
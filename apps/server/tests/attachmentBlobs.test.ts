@@ -0,0 +1,205 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import * as fs from 'fs'
+import * as http from 'http'
+import * as os from 'os'
+import * as path from 'path'
+import { S3Client } from '@aws-sdk/client-s3'
+import { LocalBlobStore } from '../src/services/blobs/localBlobStore'
+import { S3BlobStore } from '../src/services/blobs/s3BlobStore'
+import { AttachmentContentService } from '../src/services/blobs/attachmentContentService'
+import { storage } from '../src/storage'
+
+vi.mock('../src/storage', () => ({
+  storage: {
+    getEmailAttachmentsWithInlineContent: vi.fn(),
+    getDocumentAnalysisResultsWithInlineContent: vi.fn(),
+    updateEmailAttachment: vi.fn(),
+    updateDocumentAnalysisResult: vi.fn(),
+  },
+}))
+
+const REPORT = Buffer.from('Quarterly report, final version')
+const SAMPLE_HASH = 'c3f4b2e1e5a0c9c4d88f9d08e9fd3c3d1bd2cfc2b8f2a7c6d5c4a1d5e0b1f2a3'
+
+async function readAll(stream: NodeJS.ReadableStream): Promise<Buffer> {
+  const chunks: Buffer[] = []
+  for await (const chunk of stream) chunks.push(Buffer.from(chunk as Buffer))
+  return Buffer.concat(chunks)
+}
+
+/**
+ * MinIO-style stand-in: path-style PUT/GET/HEAD/DELETE of objects kept in memory
+ */
+function startObjectServer(objects: Map<string, Buffer>): Promise<{ server: http.Server; endpoint: string }> {
+  return new Promise((resolve) => {
+    const server = http.createServer((req, res) => {
+      const key = decodeURIComponent((req.url || '').split('?')[0])
+      const chunks: Buffer[] = []
+      req.on('data', chunk => chunks.push(chunk))
+      req.on('end', () => {
+        const object = objects.get(key)
+        if (req.method === 'PUT') {
+          objects.set(key, Buffer.concat(chunks))
+          res.writeHead(200, { ETag: '"etag"' }).end()
+        } else if (req.method === 'DELETE') {
+          objects.delete(key)
+          res.writeHead(204).end()
+        } else if (!object) {
+          res.writeHead(404, { 'Content-Type': 'application/xml' })
+          res.end(req.method === 'HEAD' ? undefined : '<Error><Code>NoSuchKey</Code><Message>Not found</Message></Error>')
+        } else {
+          res.writeHead(200, { 'Content-Length': object.length, 'Content-Type': 'application/octet-stream' })
+          res.end(req.method === 'HEAD' ? undefined : object)
+        }
+      })
+    })
+    server.listen(0, '127.0.0.1', () => {
+      resolve({ server, endpoint: `http://127.0.0.1:${(server.address() as any).port}` })
+    })
+  })
+}
+
+describe('LocalBlobStore', () => {
+  let rootDir: string
+  let store: LocalBlobStore
+
+  beforeEach(() => {
+    rootDir = fs.mkdtempSync(path.join(os.tmpdir(), 'blobs-'))
+    store = new LocalBlobStore(rootDir)
+  })
+
+  afterEach(() => {
+    fs.rmSync(rootDir, { recursive: true, force: true })
+  })
+
+  it('should store blobs in sharded directories and read them back', async () => {
+    const key = store.keyFor(SAMPLE_HASH)
+    expect(key).toBe(`c3/f4/${SAMPLE_HASH}`)
+
+    await store.put(key, REPORT)
+    expect(fs.existsSync(path.join(rootDir, 'c3', 'f4', SAMPLE_HASH))).toBe(true)
+    expect(await store.exists(key)).toBe(true)
+    expect(await store.get(key)).toEqual(REPORT)
+    expect(await readAll((await store.openStream(key))!)).toEqual(REPORT)
+
+    await store.delete(key)
+    expect(await store.get(key)).toBeNull()
+    expect(await store.openStream(key)).toBeNull()
+  })
+
+  it('should refuse keys outside the storage directory', async () => {
+    await expect(store.put('../outside', REPORT)).rejects.toThrow('escapes the storage directory')
+  })
+})
+
+describe('S3BlobStore', () => {
+  const objects = new Map<string, Buffer>()
+  let server: http.Server
+  let store: S3BlobStore
+
+  beforeEach(async () => {
+    objects.clear()
+    const started = await startObjectServer(objects)
+    server = started.server
+    store = new S3BlobStore({
+      bucket: 'attachments-test',
+      client: new S3Client({
+        region: 'us-east-1',
+        endpoint: started.endpoint,
+        forcePathStyle: true,
+        credentials: { accessKeyId: 'minio', secretAccessKey: 'minio-secret' },
+      }),
+    })
+  })
+
+  afterEach(async () => {
+    await new Promise(resolve => server.close(resolve))
+  })
+
+  it('should put, read, stream and delete objects under the prefix', async () => {
+    const key = store.keyFor(SAMPLE_HASH)
+    expect(key).toBe(`attachments/${SAMPLE_HASH}`)
+
+    expect(await store.exists(key)).toBe(false)
+    await store.put(key, REPORT)
+    expect(objects.get(`/attachments-test/attachments/${SAMPLE_HASH}`)).toEqual(REPORT)
+    expect(await store.exists(key)).toBe(true)
+    expect(await store.get(key)).toEqual(REPORT)
+    expect(await readAll((await store.openStream(key))!)).toEqual(REPORT)
+
+    await store.delete(key)
+    expect(await store.get(key)).toBeNull()
+  })
+})
+
+describe('AttachmentContentService', () => {
+  let rootDir: string
+  let store: LocalBlobStore
+  let service: AttachmentContentService
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    rootDir = fs.mkdtempSync(path.join(os.tmpdir(), 'blobs-'))
+    store = new LocalBlobStore(rootDir)
+    service = new AttachmentContentService(store)
+  })
+
+  afterEach(() => {
+    fs.rmSync(rootDir, { recursive: true, force: true })
+  })
+
+  it('should store identical content once, addressed by its SHA-256', async () => {
+    const put = vi.spyOn(store, 'put')
+
+    const first = await service.store(REPORT)
+    const second = await service.store(Buffer.from(REPORT))
+
+    const hash = AttachmentContentService.hash(REPORT)
+    expect(first).toEqual({ fileHash: hash, s3Key: null, localPath: store.keyFor(hash), content: null })
+    expect(second).toEqual(first)
+    expect(put).toHaveBeenCalledTimes(1)
+  })
+
+  it('should read blob-backed rows and legacy base64 rows alike', async () => {
+    const stored = await service.store(REPORT)
+
+    expect(await service.load(stored)).toEqual(REPORT)
+    expect(await service.load({ content: REPORT.toString('base64') })).toEqual(REPORT)
+    expect(await service.load({ content: null })).toBeNull()
+    expect(await readAll((await service.openStream({ content: REPORT.toString('base64') }))!)).toEqual(REPORT)
+    expect((await service.withContent({ id: 4, ...stored })).content).toEqual(REPORT)
+  })
+
+  it('should fall back to inline content when a blob is missing', async () => {
+    const stored = await service.store(REPORT)
+    await store.delete(stored.localPath!)
+
+    expect(await service.load({ ...stored, content: REPORT.toString('base64') })).toEqual(REPORT)
+    expect(await service.load(stored)).toBeNull()
+  })
+
+  it('should move inline content of both tables to the blob store in batches', async () => {
+    const base64 = REPORT.toString('base64')
+    vi.mocked(storage.getEmailAttachmentsWithInlineContent)
+      .mockResolvedValueOnce([{ id: 1, content: base64 }, { id: 2, content: base64 }])
+      .mockResolvedValueOnce([{ id: 5, content: Buffer.from('notes').toString('base64') }])
+      .mockResolvedValueOnce([])
+    vi.mocked(storage.getDocumentAnalysisResultsWithInlineContent)
+      .mockResolvedValueOnce([{ id: 9, content: base64 }])
+      .mockResolvedValueOnce([])
+    vi.mocked(storage.updateEmailAttachment).mockRejectedValueOnce(new Error('connection reset'))
+
+    const result = await service.migrateInlineContent(2)
+
+    expect(result).toEqual({ attachments: 2, documents: 1, failed: 1 })
+    expect(storage.getEmailAttachmentsWithInlineContent).toHaveBeenNthCalledWith(2, 2, 2)
+    const hash = AttachmentContentService.hash(REPORT)
+    expect(storage.updateDocumentAnalysisResult).toHaveBeenCalledWith(9, {
+      fileHash: hash,
+      s3Key: null,
+      localPath: store.keyFor(hash),
+      content: null,
+    })
+    expect(fs.readdirSync(rootDir).length).toBeGreaterThan(0)
+  })
+})
@@ -0,0 +1,191 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { auditService } from '../src/services/auditService'
+import { sendMail } from '../src/services/mailer'
+import { AuditAlertNotifier, type AuditAlert } from '../src/services/auditAlertNotifier'
+import { AuditScheduler } from '../src/services/auditScheduler'
+import { verifyWebhookSignature } from '../src/utils/webhookSignature'
+
+vi.mock('../src/services/auditService', () => ({
+  auditService: {
+    runCompleteAudit: vi.fn(),
+    auditPerformance: vi.fn(),
+    auditSecurity: vi.fn(),
+  },
+}))
+
+vi.mock('../src/services/performanceMonitor', () => ({
+  performanceMonitor: { recordMetric: vi.fn() },
+}))
+
+vi.mock('../src/services/mailer', () => ({
+  sendMail: vi.fn(),
+}))
+
+function check(checkName: string, severity: 'high' | 'critical', status: 'fail' | 'warning' = 'fail') {
+  return { checkName, status, severity, message: `${checkName} is broken`, timestamp: new Date() }
+}
+
+function report(checks: ReturnType<typeof check>[]) {
+  return {
+    reportId: 'audit_1',
+    generatedAt: new Date(),
+    overallHealth: 'critical' as const,
+    summary: { totalChecks: checks.length, passed: 0, warnings: 0, failures: checks.length },
+    checks,
+    recommendations: [],
+    systemMetrics: {},
+  }
+}
+
+const ALERT: AuditAlert = {
+  type: 'audit_alert',
+  level: 'critical',
+  message: '1 critical system failures detected',
+  issues: [check('database_connection', 'critical')],
+  reportId: 'audit_1',
+  timestamp: new Date('2026-03-02T12:00:00Z'),
+}
+
+describe('AuditAlertNotifier', () => {
+  const fetchMock = vi.fn()
+  const notifier = new AuditAlertNotifier({ retryDelayMs: 0 })
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    fetchMock.mockReset()
+    vi.stubGlobal('fetch', fetchMock)
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('should sign generic webhook bodies and retry server errors', async () => {
+    fetchMock
+      .mockResolvedValueOnce(new Response('busy', { status: 503 }))
+      .mockResolvedValueOnce(new Response('ok', { status: 200 }))
+
+    await notifier.sendWebhook(ALERT, 'https://hooks.example.com/audit', 'a-long-shared-secret')
+
+    expect(fetchMock).toHaveBeenCalledTimes(2)
+    const [url, init] = fetchMock.mock.calls[1]
+    expect(url).toBe('https://hooks.example.com/audit')
+    expect(JSON.parse(init.body)).toMatchObject({ type: 'audit_alert', level: 'critical', issues: [{ checkName: 'database_connection' }] })
+    expect(verifyWebhookSignature({
+      secret: 'a-long-shared-secret',
+      signature: init.headers['x-webhook-signature'],
+      timestamp: init.headers['x-webhook-timestamp'],
+      body: init.body,
+    })).toEqual({ valid: true })
+  })
+
+  it('should give up after the last attempt or on client errors', async () => {
+    fetchMock.mockImplementation(async () => new Response('down', { status: 500 }))
+    await expect(notifier.sendSlack(ALERT, 'https://hooks.slack.com/services/x')).rejects.toThrow('responded with 500')
+    expect(fetchMock).toHaveBeenCalledTimes(3)
+
+    fetchMock.mockClear()
+    fetchMock.mockImplementation(async () => new Response('gone', { status: 404 }))
+    await expect(notifier.sendSlack(ALERT, 'https://hooks.slack.com/services/x')).rejects.toThrow('responded with 404')
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+  })
+
+  it('should post Slack messages as text and email through sendMail', async () => {
+    fetchMock.mockResolvedValue(new Response('ok', { status: 200 }))
+    vi.mocked(sendMail).mockResolvedValue(true)
+
+    await notifier.sendSlack(ALERT, 'https://hooks.slack.com/services/x')
+    await notifier.sendEmail(ALERT, ['ops@example.com'])
+
+    expect(JSON.parse(fetchMock.mock.calls[0][1].body).text).toContain('`database_connection` (critical)')
+    expect(sendMail).toHaveBeenCalledWith(expect.objectContaining({
+      to: ['ops@example.com'],
+      subject: '[InboxLeap audit] CRITICAL: 1 critical system failures detected',
+    }))
+  })
+})
+
+describe('AuditScheduler alerting', () => {
+  const notifier = {
+    sendEmail: vi.fn(),
+    sendSlack: vi.fn(),
+    sendWebhook: vi.fn(),
+  }
+  let scheduler: AuditScheduler
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    notifier.sendEmail.mockResolvedValue(undefined)
+    notifier.sendSlack.mockResolvedValue(undefined)
+    notifier.sendWebhook.mockResolvedValue(undefined)
+    scheduler = new AuditScheduler(notifier as unknown as AuditAlertNotifier)
+    scheduler.updateConfig({
+      enabled: false,
+      notificationSettings: {
+        emailAlerts: true,
+        emailRecipients: ['ops@example.com'],
+        slackWebhook: 'https://hooks.slack.com/services/x',
+        webhookUrl: 'https://hooks.example.com/audit',
+        routing: { high: ['slack'] },
+      },
+    })
+  })
+
+  afterEach(() => {
+    scheduler.stop()
+  })
+
+  async function runAudit(checks: ReturnType<typeof check>[]) {
+    vi.mocked(auditService.runCompleteAudit).mockResolvedValue(report(checks) as any)
+    scheduler.stop()
+    await scheduler.start()
+  }
+
+  it('should route alerts to the channels of their level', async () => {
+    await runAudit([check('database_connection', 'critical')])
+
+    expect(notifier.sendEmail).toHaveBeenCalledWith(expect.objectContaining({ level: 'critical' }), ['ops@example.com'])
+    expect(notifier.sendSlack).toHaveBeenCalledTimes(1)
+    expect(notifier.sendWebhook).toHaveBeenCalledTimes(1)
+
+    vi.clearAllMocks()
+    await runAudit([check('a', 'high'), check('b', 'high'), check('c', 'high')])
+
+    expect(notifier.sendSlack).toHaveBeenCalledWith(expect.objectContaining({ level: 'high' }), 'https://hooks.slack.com/services/x')
+    expect(notifier.sendEmail).not.toHaveBeenCalled()
+    expect(notifier.sendWebhook).not.toHaveBeenCalled()
+  })
+
+  it('should not repeat an alert while the same issue persists', async () => {
+    await runAudit([check('database_connection', 'critical')])
+    await runAudit([check('database_connection', 'critical')])
+
+    expect(notifier.sendSlack).toHaveBeenCalledTimes(1)
+
+    await runAudit([check('database_connection', 'critical'), check('queue_backlog', 'critical')])
+    expect(notifier.sendSlack).toHaveBeenCalledTimes(2)
+
+    await runAudit([])
+    await runAudit([check('database_connection', 'critical')])
+    expect(notifier.sendSlack).toHaveBeenCalledTimes(3)
+  })
+
+  it('should retry on the next run when every channel failed', async () => {
+    notifier.sendEmail.mockRejectedValue(new Error('smtp down'))
+    notifier.sendSlack.mockRejectedValue(new Error('slack down'))
+    notifier.sendWebhook.mockRejectedValue(new Error('hook down'))
+    await runAudit([check('database_connection', 'critical')])
+
+    notifier.sendSlack.mockResolvedValue(undefined)
+    await runAudit([check('database_connection', 'critical')])
+
+    expect(notifier.sendSlack).toHaveBeenCalledTimes(2)
+  })
+
+  it('should not report webhook credentials in the status', () => {
+    const { notificationSettings } = scheduler.getStatus().config
+
+    expect(notificationSettings.slackWebhook).toBe('[configured]')
+    expect(notificationSettings.webhookUrl).toBe('[configured]')
+  })
+})
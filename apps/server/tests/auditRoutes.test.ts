@@ -6,8 +6,8 @@ import { registerAuditRoutes } from '../src/routes/audit';
 // Mock dependencies
 vi.mock('../src/googleAuth', () => ({
   isAuthenticated: vi.fn((req: any, res: any, next: any) => {
-    // Mock user authentication
-    req.user = { id: 'test-user-123' };
+    // Mock user authentication; scheduler routes need an admin address
+    req.user = { id: 'test-user-123', email: req.headers['x-test-email'] || 'admin@example.com' };
     next();
   })
 }));
@@ -552,6 +552,50 @@ describe('Audit Routes', () => {
       expect(auditScheduler.updateConfig).toHaveBeenCalledWith(updateData);
     });
 
+    it('should leave channel destinations out of a partial update', async () => {
+      const { auditScheduler } = await import('../src/services/auditScheduler');
+      vi.mocked(auditScheduler.getStatus).mockReturnValue({} as any);
+
+      await request(app)
+        .patch('/api/audit/scheduler/config')
+        .send({ notificationSettings: { routing: { high: ['email'] } } })
+        .expect(200);
+
+      expect(auditScheduler.updateConfig).toHaveBeenCalledWith({ notificationSettings: { routing: { high: ['email'] } } });
+    });
+
+    it('should clear a channel destination sent as null', async () => {
+      const { auditScheduler } = await import('../src/services/auditScheduler');
+      vi.mocked(auditScheduler.getStatus).mockReturnValue({} as any);
+
+      await request(app)
+        .patch('/api/audit/scheduler/config')
+        .send({ notificationSettings: { slackWebhook: null } })
+        .expect(200);
+
+      const update = vi.mocked(auditScheduler.updateConfig).mock.calls[0][0];
+      expect(update.notificationSettings).toHaveProperty('slackWebhook', undefined);
+      expect(update.notificationSettings).not.toHaveProperty('webhookUrl');
+    });
+
+    it('should reject users who are not admins', async () => {
+      const { auditScheduler } = await import('../src/services/auditScheduler');
+
+      const response = await request(app)
+        .patch('/api/audit/scheduler/config')
+        .set('x-test-email', 'member@example.com')
+        .send({ notificationSettings: { webhookUrl: 'https://attacker.example.com/hook' } })
+        .expect(403);
+
+      expect(response.body.success).toBe(false);
+      expect(auditScheduler.updateConfig).not.toHaveBeenCalled();
+
+      await request(app)
+        .get('/api/audit/scheduler/status')
+        .set('x-test-email', 'member@example.com')
+        .expect(403);
+    });
+
     it('should validate configuration schema', async () => {
       const invalidConfig = {
         fullAuditInterval: 30000, // Too short (less than 1 minute)
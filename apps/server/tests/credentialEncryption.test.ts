@@ -0,0 +1,132 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { storage } from '../src/storage'
+import { EncryptionService, parseKeyRing } from '../src/services/encryptionService'
+import { CredentialRotationService } from '../src/services/credentialRotationService'
+
+vi.mock('../src/storage', () => ({
+  storage: {
+    getEmailCredentialsBatch: vi.fn(),
+    updateEmailCredentials: vi.fn(),
+    getLinkedAccountTokensBatch: vi.fn(),
+    updateLinkedAccount: vi.fn(),
+  },
+}))
+
+const OLD_RING = { ENCRYPTION_KEYS: '1:old-secret' }
+const ROTATED_RING = { ENCRYPTION_KEYS: '2:new-secret,1:old-secret' }
+
+describe('parseKeyRing', () => {
+  it('should make the first key active unless one is named', () => {
+    expect(parseKeyRing(ROTATED_RING).activeKeyId).toBe('2')
+    expect(parseKeyRing({ ...ROTATED_RING, ENCRYPTION_ACTIVE_KEY_ID: '1' }).activeKeyId).toBe('1')
+    expect(parseKeyRing({ ENCRYPTION_KEYS: '1:pass:with:colons' }).secrets.get('1')).toBe('pass:with:colons')
+  })
+
+  it('should fall back to ENCRYPTION_KEY or SESSION_SECRET as key 1', () => {
+    expect(parseKeyRing({ SESSION_SECRET: 'session' })).toEqual({ activeKeyId: '1', secrets: new Map([['1', 'session']]) })
+  })
+
+  it('should reject malformed or missing keys', () => {
+    expect(() => parseKeyRing({})).toThrow('must be set')
+    expect(() => parseKeyRing({ ENCRYPTION_KEYS: 'no-id' })).toThrow('"<id>:<secret>"')
+    expect(() => parseKeyRing({ ENCRYPTION_KEYS: '1:a,1:b' })).toThrow('key 1 twice')
+    expect(() => parseKeyRing({ ...OLD_RING, ENCRYPTION_ACTIVE_KEY_ID: '3' })).toThrow('not listed')
+  })
+})
+
+describe('EncryptionService', () => {
+  it('should round-trip values tagged with the active key id', () => {
+    const service = new EncryptionService(OLD_RING)
+
+    const encrypted = service.encrypt('hunter2')
+
+    expect(encrypted).toMatch(/^enc:1:/)
+    expect(encrypted).not.toContain('hunter2')
+    expect(service.encrypt('hunter2')).not.toBe(encrypted)
+    expect(service.decrypt(encrypted)).toBe('hunter2')
+    expect(service.isEncrypted('hunter2')).toBe(false)
+  })
+
+  it('should decrypt with retired keys and re-encrypt with the active one', () => {
+    const written = new EncryptionService(OLD_RING).encrypt('hunter2')
+    const service = new EncryptionService(ROTATED_RING)
+
+    expect(service.decrypt(written)).toBe('hunter2')
+    expect(service.needsReEncryption(written)).toBe(true)
+
+    const rotated = service.reEncrypt(written)
+
+    expect(service.getKeyId(rotated)).toBe('2')
+    expect(service.needsReEncryption(rotated)).toBe(false)
+    expect(service.reEncrypt(rotated)).toBe(rotated)
+    expect(service.decrypt(rotated)).toBe('hunter2')
+  })
+
+  it('should refuse values of unknown keys and tampered values', () => {
+    const written = new EncryptionService({ ENCRYPTION_KEYS: '3:other' }).encrypt('hunter2')
+    const service = new EncryptionService(ROTATED_RING)
+
+    expect(() => service.decrypt(written)).toThrow('encryption key 3 is not configured')
+    expect(() => service.decrypt(written.replace(/^enc:3:/, 'enc:2:'))).toThrow('Failed to decrypt data')
+  })
+
+  it('should pass legacy plaintext through reveal', () => {
+    const service = new EncryptionService(OLD_RING)
+
+    expect(service.reveal('hunter2')).toBe('hunter2')
+    expect(service.reveal(service.encrypt('hunter2'))).toBe('hunter2')
+    expect(service.migratePassword('hunter2')).toMatch(/^enc:1:/)
+  })
+})
+
+describe('CredentialRotationService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(storage.getEmailCredentialsBatch).mockResolvedValue([])
+    vi.mocked(storage.getLinkedAccountTokensBatch).mockResolvedValue([])
+  })
+
+  it('should encrypt plaintext rows and move old-key rows to the active key', async () => {
+    const service = new EncryptionService(ROTATED_RING)
+    const oldRow = new EncryptionService(OLD_RING).encrypt('old-key-password')
+    const currentRow = service.encrypt('current-password')
+    vi.mocked(storage.getEmailCredentialsBatch)
+      .mockResolvedValueOnce([{ id: 1, imapPassword: 'plaintext-password' }, { id: 2, imapPassword: oldRow }])
+      .mockResolvedValueOnce([{ id: 5, imapPassword: currentRow }])
+
+    const result = await new CredentialRotationService(service).reEncryptMailboxSecrets(2)
+
+    expect(result).toEqual({ encrypted: 1, reEncrypted: 1, failed: 0 })
+    expect(storage.getEmailCredentialsBatch).toHaveBeenNthCalledWith(2, 2, 2)
+    expect(storage.updateEmailCredentials).toHaveBeenCalledTimes(2)
+    const [[, first], [, second]] = vi.mocked(storage.updateEmailCredentials).mock.calls
+    expect(service.getKeyId(first.imapPassword!)).toBe('2')
+    expect(service.decrypt(first.imapPassword!)).toBe('plaintext-password')
+    expect(service.decrypt(second.imapPassword!)).toBe('old-key-password')
+  })
+
+  it('should count rows it cannot decrypt as failed and continue', async () => {
+    const service = new EncryptionService(ROTATED_RING)
+    const unknownKey = new EncryptionService({ ENCRYPTION_KEYS: '9:lost' }).encrypt('password')
+    vi.mocked(storage.getEmailCredentialsBatch)
+      .mockResolvedValueOnce([{ id: 1, imapPassword: unknownKey }, { id: 2, imapPassword: 'plaintext' }])
+
+    const result = await new CredentialRotationService(service).reEncryptMailboxSecrets()
+
+    expect(result).toEqual({ encrypted: 1, reEncrypted: 0, failed: 1 })
+    expect(storage.updateEmailCredentials).toHaveBeenCalledWith(2, { imapPassword: expect.stringMatching(/^enc:2:/) })
+  })
+
+  it('should re-encrypt only the stale OAuth tokens of linked mailboxes', async () => {
+    const service = new EncryptionService(ROTATED_RING)
+    const currentToken = service.encrypt('refresh-token')
+    vi.mocked(storage.getLinkedAccountTokensBatch)
+      .mockResolvedValueOnce([{ id: 3, accessToken: 'plaintext-access-token', refreshToken: currentToken }])
+      .mockResolvedValueOnce([])
+
+    const result = await new CredentialRotationService(service).reEncryptMailboxSecrets()
+
+    expect(result).toEqual({ encrypted: 1, reEncrypted: 0, failed: 0 })
+    expect(storage.updateLinkedAccount).toHaveBeenCalledWith(3, { accessToken: expect.stringMatching(/^enc:2:/) })
+  })
+})
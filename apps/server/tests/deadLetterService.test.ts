@@ -0,0 +1,139 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { deadLetterService } from '../src/services/deadLetterService'
+import { storage } from '../src/storage'
+import { emailQueueService } from '../src/services/emailQueueService'
+import { s3EmailBackupProcessor } from '../src/services/s3EmailBackupProcessor'
+import { serializeEmailData } from '../src/services/queue/jobUtils'
+import { createMockEmail } from './helpers'
+import type { EmailQueueJob } from '@email-task-router/shared'
+
+vi.mock('../src/storage', () => ({
+  storage: {
+    getDeadLetterEmailQueueJobs: vi.fn(),
+    getEmailQueueJob: vi.fn(),
+    requeueEmailQueueJob: vi.fn(),
+    recordEmailQueueJobReplayFailure: vi.fn(),
+    deleteEmailQueueJob: vi.fn(),
+  },
+}))
+
+vi.mock('../src/services/emailQueueService', () => ({
+  emailQueueService: {
+    processNext: vi.fn(),
+  },
+}))
+
+vi.mock('../src/services/s3EmailBackupProcessor', () => ({
+  s3EmailBackupProcessor: {
+    replayFailedEmail: vi.fn(),
+  },
+}))
+
+const createJob = (overrides: Partial<EmailQueueJob> = {}): EmailQueueJob => ({
+  id: 9,
+  queue: 'email',
+  groupKey: null,
+  payload: {
+    email: serializeEmailData(createMockEmail({ to: ['todo@inboxleap.com'] })),
+    userId: 'user-123',
+  },
+  userId: 'user-123',
+  messageId: 'test-message-id',
+  subject: 'Test Email',
+  sender: 'sender@example.com',
+  priority: 0,
+  status: 'dead_letter',
+  attempts: 3,
+  maxAttempts: 3,
+  runAt: new Date(),
+  lockedBy: null,
+  lockedUntil: null,
+  lastError: 'Claude API error',
+  completedAt: null,
+  deadLetteredAt: new Date(),
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  ...overrides,
+})
+
+describe('DeadLetterService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('should list failed emails with the failure reason and the route they took', async () => {
+    vi.mocked(storage.getDeadLetterEmailQueueJobs).mockResolvedValue([
+      createJob(),
+      createJob({ id: 10, queue: 't5t_batch', payload: { subject: 'Weekly update' } }),
+    ])
+
+    const failedEmails = await deadLetterService.listFailedEmails()
+
+    expect(failedEmails[0]).toMatchObject({ id: 9, failureReason: 'Claude API error', route: 'task' })
+    expect(failedEmails[1]).toMatchObject({ id: 10, route: 'intelligence' })
+  })
+
+  it('should include the email body and attachment metadata when inspecting', async () => {
+    const email = createMockEmail({
+      attachments: [{ filename: 'report.pdf', contentType: 'application/pdf', size: 3, content: Buffer.from('pdf') }],
+    })
+    vi.mocked(storage.getEmailQueueJob).mockResolvedValue(createJob({
+      payload: { email: serializeEmailData(email), userId: 'user-123' },
+    }))
+
+    const detail = await deadLetterService.getFailedEmail(9)
+
+    expect(detail?.email?.body).toBe(email.body)
+    expect(detail?.email?.attachments).toEqual([{ filename: 'report.pdf', contentType: 'application/pdf', size: 3 }])
+  })
+
+  it('should not expose jobs that are not dead-lettered', async () => {
+    vi.mocked(storage.getEmailQueueJob).mockResolvedValue(createJob({ status: 'completed' }))
+
+    expect(await deadLetterService.getFailedEmail(9)).toBeUndefined()
+    expect(await deadLetterService.replayFailedEmail(9)).toBeUndefined()
+    expect(await deadLetterService.discardFailedEmail(9)).toBe(false)
+    expect(storage.requeueEmailQueueJob).not.toHaveBeenCalled()
+  })
+
+  it('should requeue email queue jobs and wake the queue', async () => {
+    const job = createJob()
+    vi.mocked(storage.getEmailQueueJob).mockResolvedValue(job)
+    vi.mocked(storage.requeueEmailQueueJob).mockResolvedValue({ ...job, status: 'queued', attempts: 0 })
+
+    const result = await deadLetterService.replayFailedEmail(9)
+
+    expect(result?.success).toBe(true)
+    expect(storage.requeueEmailQueueJob).toHaveBeenCalledWith(9)
+    expect(emailQueueService.processNext).toHaveBeenCalled()
+  })
+
+  it('should replay S3 failures in place and drop the entry on success', async () => {
+    vi.mocked(storage.getEmailQueueJob).mockResolvedValue(createJob({
+      queue: 's3_backup',
+      payload: { s3Key: 'failed-emails/abc' },
+    }))
+    vi.mocked(s3EmailBackupProcessor.replayFailedEmail).mockResolvedValue({ success: true })
+
+    const result = await deadLetterService.replayFailedEmail(9)
+
+    expect(result?.success).toBe(true)
+    expect(s3EmailBackupProcessor.replayFailedEmail).toHaveBeenCalledWith('failed-emails/abc')
+    expect(storage.deleteEmailQueueJob).toHaveBeenCalledWith(9)
+    expect(storage.requeueEmailQueueJob).not.toHaveBeenCalled()
+  })
+
+  it('should keep S3 failures in the inbox with the new reason when replay fails again', async () => {
+    vi.mocked(storage.getEmailQueueJob).mockResolvedValue(createJob({
+      queue: 's3_backup',
+      payload: { s3Key: 'failed-emails/abc' },
+    }))
+    vi.mocked(s3EmailBackupProcessor.replayFailedEmail).mockResolvedValue({ success: false, error: 'Still broken' })
+
+    const result = await deadLetterService.replayFailedEmail(9)
+
+    expect(result).toEqual({ success: false, message: 'Still broken' })
+    expect(storage.recordEmailQueueJobReplayFailure).toHaveBeenCalledWith(9, 'Still broken')
+    expect(storage.deleteEmailQueueJob).not.toHaveBeenCalled()
+  })
+})
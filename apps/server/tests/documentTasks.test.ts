@@ -0,0 +1,163 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { documentTaskService } from '../src/services/documentTaskService'
+import { parseActionItem } from '../src/utils/actionItems'
+import { findBestParticipantMatch } from '../src/utils/participants'
+import { storage } from '../src/storage'
+import { sendMail } from '../src/services/mailer'
+import { getOrCreateUserByEmail } from '../src/services/userService'
+
+vi.mock('../src/storage', () => ({
+  storage: {
+    getTasksBySourceAttachment: vi.fn(),
+    createTask: vi.fn(),
+    assignTask: vi.fn(),
+    createTaskActivity: vi.fn(),
+  },
+}))
+
+vi.mock('../src/services/mailer', () => ({
+  sendMail: vi.fn(),
+}))
+
+vi.mock('../src/services/userService', () => ({
+  getOrCreateUserByEmail: vi.fn(),
+}))
+
+vi.mock('../src/services/claudeService', () => ({
+  claudeService: { sendMessage: vi.fn() },
+}))
+
+// Monday
+const REFERENCE_DATE = new Date('2026-04-06T15:00:00Z')
+
+const project = { id: 9, name: 'Launch sync' } as any
+const participants = ['dana.smith@company.com', 'lee@company.com', 'owner@company.com']
+
+const context = {
+  project,
+  createdBy: 'user-owner',
+  participants,
+  sourceEmail: 'analyzer+launch@inboxleap.com',
+  sourceEmailSubject: 'Launch sync notes',
+  referenceDate: REFERENCE_DATE,
+}
+
+describe('parseActionItem', () => {
+  it('should read the owner, deadline and urgency of an item', () => {
+    expect(parseActionItem('Dana to update the FAQ by Friday', REFERENCE_DATE)).toEqual({
+      title: 'Dana to update the FAQ by Friday',
+      assignee: 'Dana',
+      dueDate: new Date('2026-04-10T00:00:00Z'),
+      priority: 'medium',
+    })
+    expect(parseActionItem('Book the venue ASAP (owner: Lee, due 2026-05-01)', REFERENCE_DATE)).toMatchObject({
+      assignee: 'Lee',
+      dueDate: new Date('2026-05-01T00:00:00Z'),
+      priority: 'high',
+    })
+    expect(parseActionItem('Send the recap to owner@company.com by March 3', REFERENCE_DATE)).toMatchObject({
+      assignee: 'owner@company.com',
+      dueDate: new Date('2027-03-03T00:00:00Z'),
+    })
+  })
+
+  it('should leave items without an owner or deadline unassigned and undated', () => {
+    expect(parseActionItem('Update the roadmap slides', REFERENCE_DATE)).toMatchObject({
+      assignee: null,
+      dueDate: null,
+    })
+    expect(parseActionItem('Renew the contract by 2/30/2026', REFERENCE_DATE).dueDate).toBeNull()
+  })
+})
+
+describe('findBestParticipantMatch', () => {
+  it('should match names to participant emails', () => {
+    expect(findBestParticipantMatch('Dana', participants)).toBe('dana.smith@company.com')
+    expect(findBestParticipantMatch('Lee Park', participants)).toBe('lee@company.com')
+    expect(findBestParticipantMatch('Priya', participants)).toBeNull()
+  })
+})
+
+describe('DocumentTaskService', () => {
+  let nextTaskId: number
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    nextTaskId = 100
+    vi.mocked(storage.getTasksBySourceAttachment).mockResolvedValue([])
+    vi.mocked(storage.createTask).mockImplementation(async (data: any) => ({ id: nextTaskId++, ...data }))
+    vi.mocked(getOrCreateUserByEmail).mockImplementation(async (email: string) => ({ id: `user-${email.split('@')[0]}`, email }) as any)
+    vi.mocked(sendMail).mockResolvedValue(true)
+  })
+
+  it('should create linked tasks and assign the participants they name', async () => {
+    const created = await documentTaskService.createTasksFromDocument({
+      attachmentId: 55,
+      filename: 'launch-sync.docx',
+      analysis: { actionItems: ['Dana to update the FAQ by Friday', 'Priya to review pricing', 'Update the roadmap slides'] },
+    }, context)
+
+    expect(created.map(entry => entry.assignee)).toEqual(['dana.smith@company.com', null, null])
+    expect(storage.createTask).toHaveBeenCalledWith(expect.objectContaining({
+      projectId: 9,
+      title: 'Dana to update the FAQ by Friday',
+      description: 'Action item from "launch-sync.docx"',
+      dueDate: new Date('2026-04-10T00:00:00Z'),
+      sourceAttachmentId: 55,
+      sourceEmail: 'analyzer+launch@inboxleap.com',
+      createdBy: 'user-owner',
+    }))
+    expect(storage.assignTask).toHaveBeenCalledTimes(1)
+    expect(storage.assignTask).toHaveBeenCalledWith({ taskId: 100, userId: 'user-dana.smith' })
+    expect(storage.createTaskActivity).toHaveBeenCalledWith(expect.objectContaining({
+      taskId: 100,
+      type: 'assignee_added',
+      source: 'system',
+    }))
+  })
+
+  it('should fall back to the meeting notes extraction and skip items that already have a task', async () => {
+    vi.mocked(storage.getTasksBySourceAttachment).mockResolvedValue([{ id: 7, title: 'Lee to book the venue' } as any])
+
+    const created = await documentTaskService.createTasksFromDocument({
+      attachmentId: 56,
+      filename: 'notes.txt',
+      analysis: {
+        extractedText: 'Meeting notes 2026-04-06\nAttendees: Dana, Lee\nAction items: Lee to book the venue\nTODO: Dana to draft the agenda',
+      },
+    }, context)
+
+    expect(created.map(entry => entry.task.title)).toEqual(['Dana to draft the agenda'])
+    expect(storage.createTask).toHaveBeenCalledWith(expect.objectContaining({
+      description: 'Action item from "notes.txt" (meeting of 2026-04-06)',
+    }))
+  })
+
+  it('should do nothing for documents without action items', async () => {
+    const created = await documentTaskService.createTasksFromDocuments([
+      { attachmentId: 57, filename: 'photo.png', analysis: { summary: 'A photo' } },
+    ], context)
+
+    expect(created).toEqual([])
+    expect(storage.createTask).not.toHaveBeenCalled()
+    expect(await documentTaskService.sendConfirmationEmail('owner@company.com', project, created)).toBe(false)
+    expect(sendMail).not.toHaveBeenCalled()
+  })
+
+  it('should mail the sender a list of the created tasks', async () => {
+    const created = await documentTaskService.createTasksFromDocument({
+      attachmentId: 55,
+      filename: 'launch-sync.docx',
+      analysis: { actionItems: ['Dana to update the FAQ by Friday', 'Fix <script> escaping'] },
+    }, context)
+
+    await documentTaskService.sendConfirmationEmail('owner@company.com', project, created)
+
+    const message = vi.mocked(sendMail).mock.calls[0][0]
+    expect(message.to).toEqual(['owner@company.com'])
+    expect(message.subject).toBe('📎 [Analyzer] 2 tasks created: Launch sync')
+    expect(message.text).toContain('1. [Task #100] Dana to update the FAQ by Friday\n   from launch-sync.docx, assigned to dana.smith@company.com, due Fri Apr 10 2026')
+    expect(message.html).toContain('Fix &lt;script&gt; escaping')
+    expect(message.html).toContain('/project/9')
+  })
+})
@@ -16,7 +16,15 @@ vi.mock('../src/storage', () => ({
     createTask: vi.fn(),
     addProjectParticipant: vi.fn(),
     getProjectByThreadId: vi.fn(),
-    updateProjectParticipants: vi.fn()
+    updateProjectParticipants: vi.fn(),
+    createEmailQueueJob: vi.fn(),
+    claimEmailQueueJobs: vi.fn(),
+    completeEmailQueueJob: vi.fn(),
+    retryEmailQueueJob: vi.fn(),
+    deadLetterEmailQueueJob: vi.fn(),
+    extendEmailQueueJobLock: vi.fn(),
+    getEmailQueueJobCounts: vi.fn(),
+    getRecentEmailQueueJobs: vi.fn()
   }
 }))
 
@@ -37,8 +45,20 @@ vi.mock('../src/services/mailer.js', () => ({
 }))
 
 describe('EmailQueueService', () => {
+  let nextJobId = 1
+
   beforeEach(() => {
     vi.clearAllMocks()
+    vi.mocked(storage.createEmailQueueJob).mockImplementation(async (job: any) => ({
+      ...job,
+      id: nextJobId++,
+      status: 'queued',
+      attempts: 0,
+      createdAt: new Date()
+    }))
+    vi.mocked(storage.claimEmailQueueJobs).mockResolvedValue([])
+    vi.mocked(storage.getEmailQueueJobCounts).mockImplementation(async () => ({ queued: nextJobId - 1, processing: 0, completed: 0, dead_letter: 0 }))
+    vi.mocked(storage.getRecentEmailQueueJobs).mockResolvedValue([])
   })
 
   describe('addToQueue', () => {
@@ -48,9 +68,9 @@ describe('EmailQueueService', () => {
 
       const queueId = await emailQueueService.addToQueue(mockEmail, userId)
 
-      expect(queueId).toMatch(/^email_\d+_[a-z0-9]+$/)
+      expect(queueId).toMatch(/^\d+$/)
       
-      const status = emailQueueService.getQueueStatus()
+      const status = await emailQueueService.getQueueStatus()
       expect(status.totalInQueue).toBeGreaterThan(0)
       expect(status.queued).toBeGreaterThan(0)
     })
@@ -65,7 +85,7 @@ describe('EmailQueueService', () => {
 
       expect(queueId1).not.toBe(queueId2)
       
-      const status = emailQueueService.getQueueStatus()
+      const status = await emailQueueService.getQueueStatus()
       expect(status.totalInQueue).toBeGreaterThanOrEqual(2)
     })
 
@@ -88,8 +108,8 @@ describe('EmailQueueService', () => {
   })
 
   describe('getQueueStatus', () => {
-    it('should return current queue status', () => {
-      const status = emailQueueService.getQueueStatus()
+    it('should return current queue status', async () => {
+      const status = await emailQueueService.getQueueStatus()
 
       expect(status).toHaveProperty('queued')
       expect(status).toHaveProperty('processing')
@@ -108,7 +128,7 @@ describe('EmailQueueService', () => {
     })
 
     it('should reflect correct counts after adding emails', async () => {
-      const initialStatus = emailQueueService.getQueueStatus()
+      const initialStatus = await emailQueueService.getQueueStatus()
       const initialTotal = initialStatus.totalInQueue
 
       const mockEmail = createMockEmail()
@@ -116,22 +136,22 @@ describe('EmailQueueService', () => {
 
       await emailQueueService.addToQueue(mockEmail, userId)
 
-      const status = emailQueueService.getQueueStatus()
+      const status = await emailQueueService.getQueueStatus()
       expect(status.totalInQueue).toBeGreaterThan(initialTotal)
     })
   })
 
   describe('getQueueHistory', () => {
-    it('should return queue history with default limit', () => {
-      const history = emailQueueService.getQueueHistory()
+    it('should return queue history with default limit', async () => {
+      const history = await emailQueueService.getQueueHistory()
 
       expect(Array.isArray(history)).toBe(true)
       expect(history.length).toBeLessThanOrEqual(50) // default limit
     })
 
-    it('should respect custom limit', () => {
+    it('should respect custom limit', async () => {
       const customLimit = 10
-      const history = emailQueueService.getQueueHistory(customLimit)
+      const history = await emailQueueService.getQueueHistory(customLimit)
 
       expect(Array.isArray(history)).toBe(true)
       expect(history.length).toBeLessThanOrEqual(customLimit)
@@ -147,7 +167,7 @@ describe('EmailQueueService', () => {
       await new Promise(resolve => setTimeout(resolve, 1))
       await emailQueueService.addToQueue(mockEmail2, userId)
 
-      const history = emailQueueService.getQueueHistory()
+      const history = await emailQueueService.getQueueHistory()
       if (history.length >= 2) {
         expect(history[0].timestamp.getTime()).toBeGreaterThanOrEqual(history[1].timestamp.getTime())
       }
@@ -270,7 +290,7 @@ describe('EmailQueueService', () => {
 
   describe('queue capacity management', () => {
     it('should respect maximum concurrent jobs limit', async () => {
-      const status = emailQueueService.getQueueStatus()
+      const status = await emailQueueService.getQueueStatus()
       expect(status.maxConcurrentJobs).toBeGreaterThan(0)
       expect(status.currentJobs).toBeLessThanOrEqual(status.maxConcurrentJobs)
     })
@@ -295,9 +315,9 @@ describe('EmailQueueService', () => {
       )
 
       expect(queueIds).toHaveLength(3)
-      expect(queueIds.every(id => id.match(/^email_\d+_[a-z0-9]+$/))).toBe(true)
+      expect(queueIds.every(id => id.match(/^\d+$/))).toBe(true)
 
-      const status = emailQueueService.getQueueStatus()
+      const status = await emailQueueService.getQueueStatus()
       expect(status.totalInQueue).toBeGreaterThanOrEqual(3)
     })
   })
@@ -0,0 +1,156 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { chunkDocument, rankChunks, tokenize } from '../src/utils/knowledgeIndex'
+import { faqKnowledgeService } from '../src/services/faqKnowledgeService'
+import { claudeService } from '../src/services/claudeService'
+import { storage } from '../src/storage'
+
+vi.mock('../src/storage', () => ({
+  storage: {
+    getSOPDocumentsByOrganization: vi.fn(),
+    getFAQEntriesByOrganization: vi.fn(),
+    getFAQKnowledgeChunks: vi.fn(),
+    replaceFAQKnowledgeChunks: vi.fn(),
+    deleteFAQKnowledgeChunks: vi.fn(),
+  },
+}))
+
+vi.mock('../src/services/claudeService', () => ({
+  claudeService: { sendMessage: vi.fn() },
+}))
+
+const EXPENSE_POLICY = `Expenses are reimbursed monthly.
+
+## Approval steps
+Submit the expense report to your manager. Managers approve reports within five business days.
+
+Travel:
+Book flights through the travel portal. Economy class is required for flights under six hours.`
+
+describe('knowledgeIndex', () => {
+  it('should stem and drop stop words', () => {
+    expect(tokenize('How do I get my approvals?')).toEqual(['get', 'approval'])
+  })
+
+  it('should split documents on markdown and colon headings', () => {
+    const chunks = chunkDocument(EXPENSE_POLICY, 'Expense Policy')
+
+    expect(chunks.map(chunk => chunk.section)).toEqual([null, 'Approval steps', 'Travel'])
+    expect(chunks.map(chunk => chunk.chunkIndex)).toEqual([0, 1, 2])
+    expect(chunks[1].content).toContain('Managers approve reports')
+    // Title and heading terms are indexed with the chunk
+    expect(chunks[1].termFrequencies.expense).toBeGreaterThan(0)
+    expect(chunks[1].termFrequencies.step).toBe(1)
+  })
+
+  it('should split long sections into bounded chunks', () => {
+    const paragraph = 'Every receipt must be attached to the report. '.repeat(20)
+    const chunks = chunkDocument(`${paragraph}\n\n${paragraph}\n\n${paragraph}`)
+
+    expect(chunks.length).toBeGreaterThan(1)
+    chunks.forEach(chunk => expect(chunk.content.length).toBeLessThanOrEqual(1200))
+  })
+
+  it('should rank the chunk that matches the query best first', () => {
+    const chunks = chunkDocument(EXPENSE_POLICY, 'Expense Policy')
+    const ranked = rankChunks('Which flights can I book for travel?', chunks, 2)
+
+    expect(ranked[0].chunk.section).toBe('Travel')
+    expect(ranked.every(result => result.score > 0)).toBe(true)
+  })
+
+  it('should return nothing when no query term is indexed', () => {
+    expect(rankChunks('parking garage', chunkDocument(EXPENSE_POLICY), 5)).toEqual([])
+  })
+})
+
+describe('FAQKnowledgeService', () => {
+  const organization = { id: 7, name: 'Acme' }
+  const updatedAt = new Date('2025-01-01T00:00:00Z')
+  const document = {
+    id: 3,
+    organizationId: 7,
+    title: 'Expense Policy',
+    description: null,
+    content: EXPENSE_POLICY,
+    isPublished: true,
+    updatedAt,
+  }
+
+  const indexedChunks = () => chunkDocument(EXPENSE_POLICY, 'Expense Policy').map((draft, index) => ({
+    id: index + 1,
+    organizationId: 7,
+    sourceType: 'sop_document',
+    sourceId: 3,
+    sourceTitle: 'Expense Policy',
+    sourceUpdatedAt: updatedAt,
+    createdAt: updatedAt,
+    ...draft,
+  }))
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(storage.getSOPDocumentsByOrganization).mockResolvedValue([document] as any)
+    vi.mocked(storage.getFAQEntriesByOrganization).mockResolvedValue([])
+    vi.mocked(storage.getFAQKnowledgeChunks).mockResolvedValue(indexedChunks() as any)
+  })
+
+  it('should index new sources and drop chunks of removed ones', async () => {
+    vi.mocked(storage.getFAQKnowledgeChunks).mockResolvedValue([
+      { ...indexedChunks()[0], sourceType: 'faq_entry', sourceId: 99 },
+    ] as any)
+
+    await faqKnowledgeService.syncOrganizationIndex(7)
+
+    expect(storage.replaceFAQKnowledgeChunks).toHaveBeenCalledWith(7, 'sop_document', 3, expect.arrayContaining([
+      expect.objectContaining({ section: 'Approval steps', sourceTitle: 'Expense Policy' }),
+    ]))
+    expect(storage.deleteFAQKnowledgeChunks).toHaveBeenCalledWith(7, 'faq_entry', 99)
+  })
+
+  it('should leave up-to-date sources alone', async () => {
+    await faqKnowledgeService.syncOrganizationIndex(7)
+
+    expect(storage.replaceFAQKnowledgeChunks).not.toHaveBeenCalled()
+    expect(storage.deleteFAQKnowledgeChunks).not.toHaveBeenCalled()
+  })
+
+  it('should answer from retrieved chunks and keep only cited sources', async () => {
+    vi.mocked(claudeService.sendMessage).mockResolvedValue('Your manager approves expense reports within five business days [1].')
+
+    const answer = await faqKnowledgeService.answerInquiry(organization, 'Who approves my expense report?')
+
+    expect(answer.answered).toBe(true)
+    expect(answer.confidence).toBe(100)
+    expect(answer.citations).toEqual([
+      expect.objectContaining({ marker: 1, sourceId: 3, title: 'Expense Policy', section: 'Approval steps' }),
+    ])
+    expect(faqKnowledgeService.formatCitations(answer.citations)).toBe('[1] Expense Policy, section "Approval steps"')
+
+    const prompt = vi.mocked(claudeService.sendMessage).mock.calls[0][0]
+    expect(prompt).toContain('[1] Expense Policy - Approval steps')
+    expect(prompt).toContain('NO_ANSWER')
+  })
+
+  it('should not answer when Claude finds nothing in the sources', async () => {
+    vi.mocked(claudeService.sendMessage).mockResolvedValue('NO_ANSWER')
+
+    const answer = await faqKnowledgeService.answerInquiry(organization, 'Who approves my expense report?')
+
+    expect(answer).toMatchObject({ answered: false, citations: [] })
+  })
+
+  it('should not answer when the reply cites no source', async () => {
+    vi.mocked(claudeService.sendMessage).mockResolvedValue('Usually your manager does.')
+
+    const answer = await faqKnowledgeService.answerInquiry(organization, 'Who approves my expense report?')
+
+    expect(answer.answered).toBe(false)
+  })
+
+  it('should skip Claude when nothing is retrieved', async () => {
+    const answer = await faqKnowledgeService.answerInquiry(organization, 'parking garage')
+
+    expect(answer).toMatchObject({ answered: false, retrieved: [] })
+    expect(claudeService.sendMessage).not.toHaveBeenCalled()
+  })
+})
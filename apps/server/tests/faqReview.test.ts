@@ -0,0 +1,171 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { faqReviewService } from '../src/services/faqReviewService'
+import { extractReplyText } from '../src/utils/emailReply'
+import { storage } from '../src/storage'
+import { sendMail } from '../src/services/mailer'
+import { createMockEmail } from './helpers'
+
+vi.mock('../src/storage', () => ({
+  storage: {
+    createFAQInquiry: vi.fn(),
+    getFAQInquiry: vi.fn(),
+    updateFAQInquiry: vi.fn(),
+    approveFAQInquiry: vi.fn(),
+    updateFAQOrganization: vi.fn(),
+    getUser: vi.fn(),
+  },
+}))
+
+vi.mock('../src/services/mailer', () => ({
+  sendMail: vi.fn(),
+}))
+
+const organization = { id: 7, name: 'Acme', faqEmail: 'faq+acme@inboxleap.com', createdBy: 'owner-1' }
+
+const pendingInquiry = (overrides = {}) => ({
+  id: 12,
+  organizationId: 7,
+  askerEmail: 'asker@example.com',
+  subject: 'Parking?',
+  question: 'Where can I park my bike?',
+  messageId: '<question@example.com>',
+  status: 'pending_review',
+  confidence: 0,
+  draftAnswer: null,
+  approvedAnswer: null,
+  approvedBy: null,
+  approvedAt: null,
+  faqEntryId: null,
+  followUpSentAt: null,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  ...overrides,
+})
+
+const ownerReply = (body: string) => createMockEmail({
+  from: 'owner@acme.com',
+  to: ['faq+acme@inboxleap.com'],
+  subject: 'Re: [FAQ Review #12] Parking?',
+  body,
+})
+
+describe('extractReplyText', () => {
+  it('should drop the quoted original and signature', () => {
+    const body = 'Bike racks are behind building B.\n\n-- \nJane\n\nOn Mon, Jan 6, 2025 at 9:00 AM Acme FAQ <faq+acme@inboxleap.com> wrote:\n> Where can I park?'
+    expect(extractReplyText(body)).toBe('Bike racks are behind building B.')
+  })
+
+  it('should stop at wrapped Gmail reply headers and Outlook separators', () => {
+    expect(extractReplyText('Use rack 3.\nOn Mon, Jan 6, 2025 at 9:00 AM Acme FAQ\n<faq@inboxleap.com> wrote:\n> q')).toBe('Use rack 3.')
+    expect(extractReplyText('Use rack 3.\r\n-----Original Message-----\r\nFrom: faq')).toBe('Use rack 3.')
+  })
+})
+
+describe('FAQReviewService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(sendMail).mockResolvedValue(true)
+    vi.mocked(storage.getUser).mockResolvedValue({ id: 'owner-1', email: 'Owner@acme.com' } as any)
+    vi.mocked(storage.getFAQInquiry).mockResolvedValue(pendingInquiry() as any)
+  })
+
+  it('should only skip review for confident grounded answers', () => {
+    const answer = { answered: true, text: 'x [1]', citations: [], retrieved: [], confidence: 80 }
+
+    expect(faqReviewService.needsReview(answer)).toBe(false)
+    expect(faqReviewService.needsReview({ ...answer, confidence: 20 })).toBe(true)
+    expect(faqReviewService.needsReview({ ...answer, answered: false })).toBe(true)
+    expect(faqReviewService.needsReview(null)).toBe(true)
+  })
+
+  it('should queue low-confidence inquiries and email the owner', async () => {
+    vi.mocked(storage.createFAQInquiry).mockResolvedValue(pendingInquiry({ draftAnswer: 'Maybe the garage [1].' }) as any)
+
+    await faqReviewService.escalate(
+      createMockEmail({ from: 'asker@example.com', subject: 'Parking?', body: 'Where can I park my bike?' }),
+      organization,
+      { answered: true, text: 'Maybe the garage [1].', citations: [], retrieved: [], confidence: 20 }
+    )
+
+    expect(storage.createFAQInquiry).toHaveBeenCalledWith(expect.objectContaining({
+      organizationId: 7,
+      status: 'pending_review',
+      confidence: 20,
+      draftAnswer: 'Maybe the garage [1].',
+    }))
+    expect(sendMail).toHaveBeenCalledWith(expect.objectContaining({
+      to: 'Owner@acme.com',
+      subject: '[FAQ Review #12] Parking?',
+      replyTo: 'faq+acme@inboxleap.com',
+      text: expect.stringContaining('Maybe the garage [1].'),
+    }))
+  })
+
+  it('should send from a routed address when the organization has none', async () => {
+    vi.mocked(storage.createFAQInquiry).mockResolvedValue(pendingInquiry() as any)
+    const unrouted = { ...organization, name: 'Acme Corp', faqEmail: null }
+
+    await faqReviewService.escalate(createMockEmail({ from: 'asker@example.com', subject: 'Parking?' }), unrouted, null)
+
+    expect(storage.updateFAQOrganization).toHaveBeenCalledWith(7, { faqEmail: 'faq+acmecorp-7@inboxleap.com' })
+    expect(sendMail).toHaveBeenCalledWith(expect.objectContaining({
+      from: 'faq+acmecorp-7@inboxleap.com',
+      replyTo: 'faq+acmecorp-7@inboxleap.com',
+    }))
+  })
+
+  it('should approve the owner reply, promote it and follow up with the asker', async () => {
+    const approved = pendingInquiry({ status: 'approved', approvedAnswer: 'Behind building B.', faqEntryId: 40 })
+    vi.mocked(storage.approveFAQInquiry).mockResolvedValue({ inquiry: approved, entry: { id: 40 } } as any)
+
+    const handled = await faqReviewService.handleOwnerReply(ownerReply('Behind building B.\n\n> Where can I park my bike?'), organization)
+
+    expect(handled).toBe(true)
+    expect(storage.approveFAQInquiry).toHaveBeenCalledWith(12, 'Behind building B.', 'owner-1', expect.objectContaining({
+      organizationId: 7,
+      question: 'Where can I park my bike?',
+      answer: 'Behind building B.',
+      createdBy: 'owner-1',
+    }))
+    expect(sendMail).toHaveBeenCalledWith(expect.objectContaining({
+      to: 'asker@example.com',
+      subject: 'Re: Parking?',
+      inReplyTo: '<question@example.com>',
+      text: expect.stringContaining('Behind building B.'),
+    }))
+    expect(storage.updateFAQInquiry).toHaveBeenCalledWith(12, { followUpSentAt: expect.any(Date) })
+  })
+
+  it('should dismiss without promoting when the owner replies DISMISS', async () => {
+    await faqReviewService.handleOwnerReply(ownerReply('dismiss - spam'), organization)
+
+    expect(storage.updateFAQInquiry).toHaveBeenCalledWith(12, { status: 'dismissed' })
+    expect(storage.approveFAQInquiry).not.toHaveBeenCalled()
+    expect(sendMail).not.toHaveBeenCalled()
+  })
+
+  it('should not let anyone but the owner approve answers', async () => {
+    const handled = await faqReviewService.handleOwnerReply(
+      { ...ownerReply('Anywhere you like'), from: 'someone@example.com' },
+      organization
+    )
+
+    expect(handled).toBe(false)
+    expect(storage.approveFAQInquiry).not.toHaveBeenCalled()
+  })
+
+  it('should ignore repeat replies once an inquiry is closed', async () => {
+    vi.mocked(storage.getFAQInquiry).mockResolvedValue(pendingInquiry({ status: 'approved' }) as any)
+
+    const handled = await faqReviewService.handleOwnerReply(ownerReply('Behind building C.'), organization)
+
+    expect(handled).toBe(true)
+    expect(storage.approveFAQInquiry).not.toHaveBeenCalled()
+    expect(sendMail).not.toHaveBeenCalled()
+  })
+
+  it('should treat ordinary emails as new inquiries', async () => {
+    expect(await faqReviewService.handleOwnerReply(createMockEmail({ subject: 'Parking?' }), organization)).toBe(false)
+    expect(storage.getFAQInquiry).not.toHaveBeenCalled()
+  })
+})
@@ -223,6 +223,11 @@ export function createMockStorage() {
     createNotificationPreferences: vi.fn(),
     updateNotificationPreferences: vi.fn(),
 
+    // Task due reminders
+    getTaskDueReminderCandidates: vi.fn(),
+    claimTaskDueReminder: vi.fn(),
+    releaseTaskDueReminder: vi.fn(),
+
     // Notification queue
     createNotificationQueueItem: vi.fn(),
     updateNotificationQueueItem: vi.fn(),
@@ -0,0 +1,185 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import request from 'supertest'
+import express from 'express'
+import { registerEmailRoutes, inboundEmailBodyParsers } from '../src/routes/email'
+import { emailService } from '../src/services/emailService'
+import { signWebhookPayload, verifyWebhookSignature } from '../src/utils/webhookSignature'
+import { parseJsonInboundEmail } from '../src/services/email/inboundEmailPayload'
+
+vi.mock('../src/googleAuth', () => ({
+  isAuthenticated: vi.fn((req: any, res: any, next: any) => next()),
+}))
+
+vi.mock('../src/db', () => ({
+  db: {},
+}))
+
+vi.mock('../src/storage', () => ({
+  storage: {},
+}))
+
+vi.mock('../src/services/emailService', () => ({
+  emailService: {
+    processIncomingServiceEmailToQueue: vi.fn(),
+  },
+}))
+
+const SECRET = 'test-webhook-secret'
+const REPORT = Buffer.from('%PDF-1.4 quarterly numbers')
+
+const RAW_MIME = [
+  'From: Alice Example <alice@example.com>',
+  'To: analyzer@inboxleap.com',
+  'Subject: Quarterly report',
+  'Message-ID: <mime-1@example.com>',
+  'Date: Mon, 06 Apr 2026 15:00:00 +0000',
+  'MIME-Version: 1.0',
+  'Content-Type: multipart/mixed; boundary="b1"',
+  '',
+  '--b1',
+  'Content-Type: text/plain; charset=utf-8',
+  '',
+  'Please analyze the attached report.',
+  '--b1',
+  'Content-Type: application/pdf; name="report.pdf"',
+  'Content-Disposition: attachment; filename="report.pdf"',
+  'Content-Transfer-Encoding: base64',
+  '',
+  REPORT.toString('base64'),
+  '--b1--',
+  '',
+].join('\r\n')
+
+function signedHeaders(body: string, timestamp: number = Math.floor(Date.now() / 1000)) {
+  return {
+    'X-Webhook-Timestamp': String(timestamp),
+    'X-Webhook-Signature': signWebhookPayload(SECRET, timestamp, body),
+  }
+}
+
+describe('verifyWebhookSignature', () => {
+  const now = Date.parse('2026-04-06T15:00:00Z')
+  const timestamp = String(now / 1000)
+
+  it('should accept a signature over the timestamp and body', () => {
+    const signature = signWebhookPayload(SECRET, timestamp, '{"a":1}')
+    expect(signature).toMatch(/^sha256=[0-9a-f]{64}$/)
+    expect(verifyWebhookSignature({ secret: SECRET, signature, timestamp, body: '{"a":1}', now })).toEqual({ valid: true })
+  })
+
+  it('should reject tampered bodies, old timestamps and a missing secret', () => {
+    const signature = signWebhookPayload(SECRET, timestamp, '{"a":1}')
+
+    expect(verifyWebhookSignature({ secret: SECRET, signature, timestamp, body: '{"a":2}', now }))
+      .toEqual({ valid: false, reason: 'invalid_signature' })
+    expect(verifyWebhookSignature({ secret: SECRET, signature, timestamp, body: '{"a":1}', now: now + 301_000 }))
+      .toEqual({ valid: false, reason: 'stale_timestamp' })
+    expect(verifyWebhookSignature({ secret: undefined, signature, timestamp, body: '{"a":1}', now }))
+      .toEqual({ valid: false, reason: 'missing_secret' })
+  })
+})
+
+describe('parseJsonInboundEmail', () => {
+  const base = { messageId: 'ses-1', subject: 'Report', from: 'alice@example.com', to: 'analyzer@inboxleap.com', body: '' }
+  const limits = { maxAttachmentBytes: 10, maxTotalBytes: 15 }
+
+  it('should reject malformed base64 and attachments over the limits', () => {
+    expect(parseJsonInboundEmail({ ...base, attachments: [{ filename: 'a.txt', content: 'not base64!' }] }, limits))
+      .toEqual({ status: 400, message: 'Attachment a.txt is not valid base64' })
+
+    const eight = Buffer.alloc(8).toString('base64')
+    expect(parseJsonInboundEmail({ ...base, attachments: [{ filename: 'big.bin', content: Buffer.alloc(11).toString('base64') }] }, limits))
+      .toMatchObject({ status: 413, message: 'Attachment big.bin is larger than 10 bytes' })
+    expect(parseJsonInboundEmail({ ...base, attachments: [{ content: eight }, { content: eight }] }, limits))
+      .toMatchObject({ status: 413 })
+  })
+})
+
+describe('POST /api/inbound/email', () => {
+  let app: express.Application
+  const originalSecret = process.env.SES_WEBHOOK_SECRET
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    process.env.SES_WEBHOOK_SECRET = SECRET
+    vi.mocked(emailService.processIncomingServiceEmailToQueue).mockResolvedValue(undefined as any)
+
+    app = express()
+    app.use('/api/inbound/email', ...inboundEmailBodyParsers(1024 * 1024))
+    app.use(express.json())
+    registerEmailRoutes(app)
+  })
+
+  afterEach(() => {
+    if (originalSecret === undefined) delete process.env.SES_WEBHOOK_SECRET
+    else process.env.SES_WEBHOOK_SECRET = originalSecret
+  })
+
+  it('should parse raw MIME messages with their attachments', async () => {
+    const response = await request(app)
+      .post('/api/inbound/email')
+      .set('Content-Type', 'message/rfc822')
+      .set(signedHeaders(RAW_MIME))
+      .send(RAW_MIME)
+      .expect(200)
+
+    expect(response.body).toMatchObject({ messageId: '<mime-1@example.com>', recipients: ['analyzer@inboxleap.com'] })
+    const email = vi.mocked(emailService.processIncomingServiceEmailToQueue).mock.calls[0][0]
+    expect(email).toMatchObject({ from: 'alice@example.com', subject: 'Quarterly report' })
+    expect(email.body).toContain('Please analyze the attached report.')
+    expect(email.attachments).toHaveLength(1)
+    expect(email.attachments![0]).toMatchObject({ filename: 'report.pdf', contentType: 'application/pdf', content: REPORT })
+  })
+
+  it('should decode base64 attachments of JSON payloads', async () => {
+    const payload = JSON.stringify({
+      messageId: 'ses-2',
+      subject: 'Numbers',
+      from: 'alice@example.com',
+      to: ['analyzer@inboxleap.com'],
+      body: 'See attached',
+      headers: { 'in-reply-to': '<thread-1@example.com>' },
+      attachments: [{ filename: 'report.pdf', contentType: 'application/pdf', content: REPORT.toString('base64') }],
+    })
+
+    await request(app)
+      .post('/api/inbound/email')
+      .set('Content-Type', 'application/json')
+      .set(signedHeaders(payload))
+      .send(payload)
+      .expect(200)
+
+    const email = vi.mocked(emailService.processIncomingServiceEmailToQueue).mock.calls[0][0]
+    expect(email).toMatchObject({ messageId: 'ses-2', threadId: '<thread-1@example.com>' })
+    expect(email.attachments![0]).toMatchObject({ filename: 'report.pdf', size: REPORT.length, content: REPORT })
+  })
+
+  it('should refuse unsigned requests, bad signatures and a missing secret', async () => {
+    const payload = JSON.stringify({ messageId: 'ses-3', subject: 'Hi', from: 'alice@example.com', to: 'a@inboxleap.com', body: 'x' })
+
+    await request(app).post('/api/inbound/email').set('Content-Type', 'application/json')
+      .set('X-Auth-Token', 'your-webhook-secret').send(payload).expect(401)
+    await request(app).post('/api/inbound/email').set('Content-Type', 'application/json')
+      .set(signedHeaders(payload.replace('Hi', 'Ho'))).send(payload).expect(401)
+
+    delete process.env.SES_WEBHOOK_SECRET
+    await request(app).post('/api/inbound/email').set('Content-Type', 'application/json')
+      .set(signedHeaders(payload)).send(payload).expect(503)
+
+    expect(emailService.processIncomingServiceEmailToQueue).not.toHaveBeenCalled()
+  })
+
+  it('should reject bodies over the size limit', async () => {
+    const small = express()
+    small.use('/api/inbound/email', ...inboundEmailBodyParsers(512))
+    registerEmailRoutes(small)
+
+    const body = RAW_MIME + 'x'.repeat(1024)
+    await request(small)
+      .post('/api/inbound/email')
+      .set('Content-Type', 'message/rfc822')
+      .set(signedHeaders(body))
+      .send(body)
+      .expect(413)
+  })
+})
@@ -0,0 +1,179 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { storage } from '../src/storage'
+import { notificationService } from '../src/services/agentNotificationService'
+import { claudeService } from '../src/services/claudeService'
+import { t5tAnalysisService } from '../src/services/t5tAnalysisService'
+import { PollyAgent } from '../src/agents/PollyAgent'
+import { createLLMClient, getLLMClient, setLLMClient } from '../src/services/llm/llmClient'
+import { FixtureLLMClient } from '../src/services/llm/fixtureClient'
+import { OpenAICompatibleLLMClient } from '../src/services/llm/openAICompatibleClient'
+import { createMockEmail, createMockIntelligenceEmail, createMockTaskEmail } from './helpers'
+
+vi.mock('../src/db', () => ({
+  db: {},
+}))
+
+vi.mock('../src/storage', () => ({
+  storage: {
+    createAiUsageEvent: vi.fn(),
+    getUserByEmail: vi.fn(),
+    createUserFromEmail: vi.fn(),
+    findProjectByTopicAndParticipants: vi.fn(),
+    createPoll: vi.fn(),
+  },
+}))
+
+vi.mock('../src/services/agentNotificationService', () => ({
+  notificationService: { sendEmail: vi.fn() },
+}))
+
+const REQUEST = { messages: [{ role: 'user' as const, content: 'Extract the tasks of: call Bob' }], maxTokens: 100 }
+
+describe('FixtureLLMClient', () => {
+  it('should answer with the first fixture matching the operation and prompt', async () => {
+    const client = new FixtureLLMClient([
+      { operation: 'extractTopic', response: 'Wrong operation' },
+      { operation: 'parseEmailToTasks', match: ['call Alice'], response: 'Wrong prompt' },
+      { operation: 'parseEmailToTasks', match: 'call Bob', response: [{ title: 'Call Bob' }] },
+    ])
+
+    const response = await client.complete(REQUEST, { operation: 'parseEmailToTasks' })
+
+    expect(response).toMatchObject({ text: '[{"title":"Call Bob"}]', provider: 'fixture', model: 'fixture' })
+    expect(response.usage.inputTokens).toBeGreaterThan(0)
+    expect(client.calls).toEqual([expect.objectContaining({ call: { operation: 'parseEmailToTasks' }, fixture: 'parseEmailToTasks' })])
+  })
+
+  it('should fail requests no fixture matches', async () => {
+    const client = new FixtureLLMClient([{ operation: 'extractTopic', response: 'Budget' }])
+
+    await expect(client.complete(REQUEST, { operation: 'parseEmailToTasks' }))
+      .rejects.toThrow('No LLM fixture for parseEmailToTasks')
+  })
+})
+
+describe('OpenAICompatibleLLMClient', () => {
+  const fetchMock = vi.fn()
+
+  beforeEach(() => {
+    fetchMock.mockReset()
+    vi.stubGlobal('fetch', fetchMock)
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('should send chat completions with the configured model in place of Claude models', async () => {
+    fetchMock.mockResolvedValue(new Response(JSON.stringify({
+      model: 'llama3.1:70b',
+      choices: [{ message: { content: '["Call Bob"]' } }],
+      usage: { prompt_tokens: 42, completion_tokens: 7 },
+    })))
+    const client = new OpenAICompatibleLLMClient({ baseUrl: 'http://llm.local/v1/', model: 'llama3.1:70b', apiKey: 'secret' })
+
+    const response = await client.complete(
+      { ...REQUEST, model: 'claude-sonnet-4-20250514', system: 'Answer in JSON', temperature: 0.2 },
+      { operation: 'parseEmailToTasks' }
+    )
+
+    expect(response).toEqual({
+      text: '["Call Bob"]',
+      model: 'llama3.1:70b',
+      provider: 'openai-compatible',
+      usage: { inputTokens: 42, outputTokens: 7 },
+    })
+    const [url, init] = fetchMock.mock.calls[0]
+    expect(url).toBe('http://llm.local/v1/chat/completions')
+    expect(init.headers).toMatchObject({ Authorization: 'Bearer secret' })
+    expect(JSON.parse(init.body)).toEqual({
+      model: 'llama3.1:70b',
+      messages: [{ role: 'system', content: 'Answer in JSON' }, REQUEST.messages[0]],
+      max_tokens: 100,
+      temperature: 0.2,
+    })
+  })
+
+  it('should report server errors with the operation', async () => {
+    fetchMock.mockResolvedValue(new Response('model not loaded', { status: 503, statusText: 'Service Unavailable' }))
+    const client = new OpenAICompatibleLLMClient({ baseUrl: 'http://llm.local/v1', model: 'llama3.1:70b' })
+
+    await expect(client.complete(REQUEST, { operation: 'extractTopic' }))
+      .rejects.toThrow('LLM request extractTopic failed with 503 Service Unavailable: model not loaded')
+  })
+})
+
+describe('createLLMClient', () => {
+  it('should pick the provider from LLM_PROVIDER', () => {
+    expect(createLLMClient({ ANTHROPIC_API_KEY: 'key' }).provider).toBe('anthropic')
+    expect(createLLMClient({}).isConfigured()).toBe(false)
+    expect(createLLMClient({ LLM_PROVIDER: 'openai', LLM_MODEL: 'gpt-4o-mini' }).provider).toBe('openai-compatible')
+    expect(createLLMClient({ LLM_PROVIDER: 'fixture', LLM_FIXTURES_DIR: '/nonexistent' }).provider).toBe('fixture')
+  })
+})
+
+describe('prompts replayed from tests/fixtures/llm', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    setLLMClient(undefined)
+  })
+
+  it('should run the suite against the fixture provider', () => {
+    expect(getLLMClient().provider).toBe('fixture')
+  })
+
+  it('should extract tasks from an email', async () => {
+    const email = createMockTaskEmail()
+
+    const tasks = await claudeService.parseEmailToTasks(email.subject, email.body, [], email.from)
+
+    expect(tasks.map(task => task.title)).toEqual([
+      'Review the new user interface designs',
+      'Test the payment integration',
+      'Update the documentation',
+    ])
+    expect(tasks[1]).toMatchObject({ priority: 'high', assignees: ['dev@example.com'], dueDate: new Date('2026-05-01T00:00:00Z') })
+    expect(tasks[2].dependsOn).toEqual([1])
+    expect(storage.createAiUsageEvent).toHaveBeenCalledWith(expect.objectContaining({
+      operation: 'parseEmailToTasks',
+      model: 'fixture',
+      costUsd: '0.000000',
+      success: true,
+    }))
+  })
+
+  it('should parse a T5T submission followed by extra text', async () => {
+    const email = createMockIntelligenceEmail('acme')
+
+    const analysis = await t5tAnalysisService.parseT5TSubmission(email.subject, email.body, email.from)
+
+    expect(analysis.items).toHaveLength(3)
+    expect(analysis).toMatchObject({ overallSentiment: 'positive', sentimentScore: 60, urgentFlags: [] })
+    expect(analysis.mainTopics).toContain('hiring')
+  })
+
+  it('should create a poll from the extracted question and options', async () => {
+    vi.mocked(storage.getUserByEmail).mockResolvedValue({ id: 'user-1', email: 'lead@example.com' } as any)
+    vi.mocked(storage.createPoll).mockImplementation(async (poll: any) => ({ id: 12, ...poll }))
+    const email = createMockEmail({
+      from: 'lead@example.com',
+      to: ['polly@inboxleap.com', 'team@example.com'],
+      subject: 'Team sync',
+      body: 'Which meeting time works? 1. 9 AM 2. 1 PM 3. 3 PM',
+    })
+
+    const result = await new PollyAgent().process(email)
+
+    expect(result).toMatchObject({ success: true, data: { pollId: 12, optionsCount: 3 } })
+    expect(storage.createPoll).toHaveBeenCalledWith(expect.objectContaining({
+      title: 'Which meeting time works?',
+      type: 'single_choice',
+      options: [
+        { id: '1', text: '9 AM', order: 1 },
+        { id: '2', text: '1 PM', order: 2 },
+        { id: '3', text: '3 PM', order: 3 },
+      ],
+    }))
+    expect(notificationService.sendEmail).toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,152 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { storage } from '../src/storage'
+import { encryptionService } from '../src/services/encryptionService'
+import { buildXOAuth2Token, isMailboxReauthRequired, MailboxOAuthService } from '../src/services/mailboxOAuth/mailboxOAuthService'
+
+vi.mock('../src/storage', () => ({
+  storage: {
+    getUserLinkedAccounts: vi.fn(),
+    getLinkedAccount: vi.fn(),
+    createUserLinkedAccount: vi.fn(),
+    updateLinkedAccount: vi.fn(),
+    deleteLinkedAccount: vi.fn(),
+  },
+}))
+
+process.env.ENCRYPTION_KEYS = '1:test-secret'
+
+const ENV = {
+  APP_URL: 'https://app.example.com',
+  GOOGLE_CLIENT_ID: 'google-client',
+  GOOGLE_CLIENT_SECRET: 'google-secret',
+  MICROSOFT_CLIENT_ID: 'ms-client',
+  MICROSOFT_CLIENT_SECRET: 'ms-secret',
+}
+
+function idToken(claims: object) {
+  return ['header', Buffer.from(JSON.stringify(claims)).toString('base64url'), 'signature'].join('.')
+}
+
+function tokenResponse(body: object, status = 200) {
+  return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } })
+}
+
+function linkedAccount(overrides: object = {}) {
+  return {
+    id: 4,
+    userId: 'user-1',
+    provider: 'gmail',
+    providerAccountId: 'me@gmail.com',
+    email: 'me@gmail.com',
+    isActive: true,
+    accessToken: encryptionService.encrypt('old-access'),
+    refreshToken: encryptionService.encrypt('refresh-1'),
+    tokenExpiresAt: new Date(Date.now() + 60 * 60 * 1000),
+    needsReauth: false,
+    authError: null,
+    ...overrides,
+  } as any
+}
+
+describe('MailboxOAuthService', () => {
+  const fetchMock = vi.fn()
+  const service = new MailboxOAuthService(ENV)
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    fetchMock.mockReset()
+    vi.stubGlobal('fetch', fetchMock)
+    vi.mocked(storage.updateLinkedAccount).mockImplementation(async (id, data) => ({ id, ...data }) as any)
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('should only offer providers with client credentials', () => {
+    expect(service.getProviders().map(provider => provider.id)).toEqual(['gmail', 'outlook'])
+    expect(new MailboxOAuthService({ ...ENV, MICROSOFT_CLIENT_ID: undefined }).getProviders().map(p => p.id)).toEqual(['gmail'])
+  })
+
+  it('should ask for offline IMAP access on the consent screen', () => {
+    const url = new URL(service.getAuthorizationUrl('gmail', 'state-1'))
+
+    expect(url.origin + url.pathname).toBe('https://accounts.google.com/o/oauth2/v2/auth')
+    expect(url.searchParams.get('scope')).toContain('https://mail.google.com/')
+    expect(url.searchParams.get('access_type')).toBe('offline')
+    expect(url.searchParams.get('redirect_uri')).toBe('https://app.example.com/api/mailboxes/oauth/gmail/callback')
+    expect(url.searchParams.get('state')).toBe('state-1')
+  })
+
+  it('should link the mailbox named by the id_token', async () => {
+    fetchMock.mockResolvedValue(tokenResponse({
+      access_token: 'access-1',
+      refresh_token: 'refresh-1',
+      expires_in: 3599,
+      id_token: idToken({ email: 'Me@Gmail.com' }),
+    }))
+    vi.mocked(storage.getUserLinkedAccounts).mockResolvedValue([])
+    vi.mocked(storage.createUserLinkedAccount).mockImplementation(async (data) => ({ id: 4, ...data }) as any)
+
+    await service.connectMailbox('user-1', 'gmail', 'code-1')
+
+    expect(new URLSearchParams(fetchMock.mock.calls[0][1].body).get('grant_type')).toBe('authorization_code')
+    expect(storage.createUserLinkedAccount).toHaveBeenCalledWith(expect.objectContaining({
+      userId: 'user-1',
+      provider: 'gmail',
+      providerAccountId: 'me@gmail.com',
+      accessToken: 'access-1',
+      refreshToken: 'refresh-1',
+      needsReauth: false,
+    }))
+  })
+
+  it('should reuse a fresh access token and refresh one about to expire', async () => {
+    vi.mocked(storage.getLinkedAccount).mockResolvedValueOnce(linkedAccount())
+
+    expect(await service.getAccessToken(4)).toBe('old-access')
+    expect(fetchMock).not.toHaveBeenCalled()
+
+    vi.mocked(storage.getLinkedAccount).mockResolvedValueOnce(linkedAccount({ tokenExpiresAt: new Date(Date.now() + 60 * 1000) }))
+    fetchMock.mockResolvedValue(tokenResponse({ access_token: 'new-access', expires_in: 3600 }))
+
+    expect(await service.getAccessToken(4)).toBe('new-access')
+    expect(new URLSearchParams(fetchMock.mock.calls[0][1].body).get('refresh_token')).toBe('refresh-1')
+    expect(storage.updateLinkedAccount).toHaveBeenCalledWith(4, expect.objectContaining({ accessToken: 'new-access' }))
+    expect(vi.mocked(storage.updateLinkedAccount).mock.calls[0][1]).not.toHaveProperty('refreshToken')
+  })
+
+  it('should flag the mailbox for re-authorization when the grant was revoked', async () => {
+    vi.mocked(storage.getLinkedAccount).mockResolvedValue(linkedAccount({ tokenExpiresAt: null }))
+    fetchMock.mockResolvedValue(tokenResponse({ error: 'invalid_grant', error_description: 'Token has been expired or revoked.' }, 400))
+
+    const error = await service.getAccessToken(4).catch(e => e)
+
+    expect(isMailboxReauthRequired(error)).toBe(true)
+    expect(storage.updateLinkedAccount).toHaveBeenCalledWith(4, {
+      needsReauth: true,
+      authError: 'Gmail revoked access (Token has been expired or revoked.)',
+    })
+
+    vi.mocked(storage.getLinkedAccount).mockResolvedValue(linkedAccount({ needsReauth: true }))
+    await expect(service.getAccessToken(4)).rejects.toThrow('must be reconnected')
+  })
+
+  it('should keep the grant on transient token endpoint failures', async () => {
+    vi.mocked(storage.getLinkedAccount).mockResolvedValue(linkedAccount({ tokenExpiresAt: null }))
+    fetchMock.mockResolvedValue(tokenResponse({ error: 'temporarily_unavailable' }, 503))
+
+    const error = await service.getAccessToken(4).catch(e => e)
+
+    expect(isMailboxReauthRequired(error)).toBe(false)
+    expect(storage.updateLinkedAccount).not.toHaveBeenCalled()
+  })
+})
+
+describe('buildXOAuth2Token', () => {
+  it('should encode the SASL XOAUTH2 initial response', () => {
+    const decoded = Buffer.from(buildXOAuth2Token('me@gmail.com', 'token'), 'base64').toString()
+
+    expect(decoded).toBe('user=me@gmail.com\x01auth=Bearer token\x01\x01')
+  })
+})
@@ -0,0 +1,203 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import * as net from 'net'
+import { ClamdScanner, parseClamdReply } from '../src/services/malware/clamdScanner'
+import { StubScanner } from '../src/services/malware/stubScanner'
+import { MalwareScanService, createMalwareScanner } from '../src/services/malware/malwareScanService'
+import { storage } from '../src/storage'
+import { sendMail } from '../src/services/mailer'
+import type { EmailData } from '../src/services/email/types'
+
+vi.mock('../src/storage', () => ({
+  storage: {
+    createQuarantinedAttachment: vi.fn(),
+    markQuarantinedAttachmentsNotified: vi.fn(),
+    getProcessedEmailByMessageId: vi.fn(),
+    createProcessedEmail: vi.fn(),
+  },
+}))
+
+vi.mock('../src/services/mailer', () => ({
+  sendMail: vi.fn(),
+}))
+
+const EICAR = 'X5O!P%@AP[4\\PZX54(P^)7CC)7}$EICAR-STANDARD-ANTIVIRUS-TEST-FILE!$H+H*'
+
+/**
+ * Minimal clamd: decodes the INSTREAM chunks and flags streams containing "EVIL"
+ */
+function startFakeClamd(received: Buffer[]): Promise<{ server: net.Server; port: number }> {
+  return new Promise((resolve) => {
+    const server = net.createServer((socket) => {
+      let buffer = Buffer.alloc(0)
+      socket.on('data', (data) => {
+        buffer = Buffer.concat([buffer, data])
+        const command = 'zINSTREAM\0'
+        if (buffer.length < command.length) return
+
+        let offset = command.length
+        const chunks: Buffer[] = []
+        while (offset + 4 <= buffer.length) {
+          const length = buffer.readUInt32BE(offset)
+          if (length === 0) {
+            const stream = Buffer.concat(chunks)
+            received.push(stream)
+            socket.end(stream.includes('EVIL') ? 'stream: Win.Test.Evil FOUND\0' : 'stream: OK\0')
+            return
+          }
+          if (offset + 4 + length > buffer.length) return
+          chunks.push(buffer.subarray(offset + 4, offset + 4 + length))
+          offset += 4 + length
+        }
+      })
+    })
+    server.listen(0, '127.0.0.1', () => {
+      resolve({ server, port: (server.address() as net.AddressInfo).port })
+    })
+  })
+}
+
+function buildEmail(attachments: Array<{ filename: string; content: string }>): EmailData {
+  return {
+    messageId: '<msg-1@example.com>',
+    subject: 'Quarterly <report>',
+    from: 'sender@example.com',
+    to: ['analyzer@inboxleap.com'],
+    cc: [],
+    bcc: [],
+    body: 'See attached',
+    date: new Date('2026-04-06T15:00:00Z'),
+    attachments: attachments.map(({ filename, content }) => ({
+      filename,
+      contentType: 'application/octet-stream',
+      size: content.length,
+      content: Buffer.from(content),
+    })),
+  }
+}
+
+describe('ClamdScanner', () => {
+  let server: net.Server
+  let port: number
+  const received: Buffer[] = []
+
+  beforeEach(async () => {
+    received.length = 0
+    ;({ server, port } = await startFakeClamd(received))
+  })
+
+  afterEach(async () => {
+    await new Promise(resolve => server.close(resolve))
+  })
+
+  it('should stream the file in length-prefixed chunks and report clean files', async () => {
+    const scanner = new ClamdScanner({ host: '127.0.0.1', port, chunkSize: 4 })
+    const result = await scanner.scan(Buffer.from('harmless report'), 'report.txt')
+
+    expect(received).toEqual([Buffer.from('harmless report')])
+    expect(result).toMatchObject({ status: 'clean', scanner: 'clamd' })
+  })
+
+  it('should report the signature clamd found', async () => {
+    const scanner = new ClamdScanner({ host: '127.0.0.1', port })
+    const result = await scanner.scan(Buffer.from('an EVIL macro'), 'invoice.docm')
+
+    expect(result).toMatchObject({ status: 'infected', threat: 'Win.Test.Evil' })
+  })
+
+  it('should report an error instead of throwing when clamd is unreachable', async () => {
+    const closed = await startFakeClamd([])
+    const closedPort = closed.port
+    await new Promise(resolve => closed.server.close(resolve))
+
+    const result = await new ClamdScanner({ host: '127.0.0.1', port: closedPort }).scan(Buffer.from('x'), 'x.txt')
+    expect(result.status).toBe('error')
+    expect(result.error).toMatch(/ECONNREFUSED/)
+  })
+
+  it('should parse clamd replies', () => {
+    expect(parseClamdReply('stream: OK')).toEqual({ status: 'clean' })
+    expect(parseClamdReply('stream: Eicar-Test-Signature FOUND')).toEqual({ status: 'infected', threat: 'Eicar-Test-Signature' })
+    expect(parseClamdReply('INSTREAM size limit exceeded. ERROR').status).toBe('error')
+  })
+})
+
+describe('createMalwareScanner', () => {
+  it('should use clamd when it is configured and the stub otherwise', () => {
+    expect(createMalwareScanner({ CLAMD_SOCKET: '/var/run/clamav/clamd.ctl' }).name).toBe('clamd')
+    expect(createMalwareScanner({ MALWARE_SCANNER: 'stub', CLAMD_HOST: 'clamav' }).name).toBe('stub')
+    expect(createMalwareScanner({}).name).toBe('stub')
+  })
+})
+
+describe('MalwareScanService', () => {
+  let service: MalwareScanService
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    service = new MalwareScanService(new StubScanner(), { failClosed: false })
+    vi.mocked(storage.getProcessedEmailByMessageId).mockResolvedValue(undefined as any)
+    vi.mocked(storage.createQuarantinedAttachment).mockImplementation(async (data: any) => ({ id: 31, ...data }))
+    vi.mocked(sendMail).mockResolvedValue(true)
+  })
+
+  it('should pass clean emails on with their scan results', async () => {
+    const screened = await service.screenEmail(buildEmail([{ filename: 'notes.txt', content: 'Meeting notes' }]))
+
+    expect(screened?.attachments?.[0].scan).toMatchObject({ status: 'clean', scanner: 'stub' })
+    expect(storage.createQuarantinedAttachment).not.toHaveBeenCalled()
+    expect(sendMail).not.toHaveBeenCalled()
+  })
+
+  it('should quarantine infected attachments, hold the email back and notify the sender', async () => {
+    const screened = await service.screenEmail(buildEmail([
+      { filename: 'notes.txt', content: 'Meeting notes' },
+      { filename: 'eicar.com', content: EICAR },
+    ]))
+
+    expect(screened).toBeNull()
+    expect(storage.createQuarantinedAttachment).toHaveBeenCalledTimes(1)
+    expect(storage.createQuarantinedAttachment).toHaveBeenCalledWith(expect.objectContaining({
+      messageId: '<msg-1@example.com>',
+      sender: 'sender@example.com',
+      source: 'email',
+      filename: 'eicar.com',
+      threat: 'Eicar-Test-Signature',
+      scanner: 'stub',
+      fileHash: '275a021bbfb6489e54d471899f7db9d1663fc695ec2fe2a2c4538aabf651fd0f',
+      content: Buffer.from(EICAR).toString('base64'),
+    }))
+    expect(storage.createProcessedEmail).toHaveBeenCalledWith(expect.objectContaining({
+      status: 'quarantined',
+      processingError: 'Malware found in attachments: eicar.com (Eicar-Test-Signature)',
+    }))
+
+    const notice = vi.mocked(sendMail).mock.calls[0][0]
+    expect(notice.to).toEqual(['sender@example.com'])
+    expect(notice.subject).toBe('🛡️ Attachment blocked: Quarterly <report>')
+    expect(notice.text).toContain('- eicar.com: Eicar-Test-Signature')
+    expect(notice.html).toContain('Quarterly &lt;report&gt;')
+    expect(storage.markQuarantinedAttachmentsNotified).toHaveBeenCalledWith([31])
+  })
+
+  it('should not scan or notify again for an email that was already quarantined', async () => {
+    vi.mocked(storage.getProcessedEmailByMessageId).mockResolvedValue({ id: 4, status: 'quarantined' } as any)
+
+    expect(await service.screenEmail(buildEmail([{ filename: 'eicar.com', content: EICAR }]))).toBeNull()
+    expect(storage.createQuarantinedAttachment).not.toHaveBeenCalled()
+    expect(sendMail).not.toHaveBeenCalled()
+  })
+
+  it('should pass unscannable files unless configured to fail closed', async () => {
+    const failing = { name: 'clamd', scan: vi.fn().mockResolvedValue({ status: 'error', error: 'connect ECONNREFUSED', scanner: 'clamd', scannedAt: '' }) }
+    const files = [{ filename: 'report.pdf', content: Buffer.from('%PDF') }]
+    const context = { messageId: 'web-upload-1', sender: 'user-1', source: 'web_upload' as const }
+
+    const open = await new MalwareScanService(failing, { failClosed: false }).screenFiles(files, context)
+    expect(open.passed[0].scan.status).toBe('error')
+    expect(open.quarantined).toEqual([])
+
+    const closed = await new MalwareScanService(failing, { failClosed: true }).screenFiles(files, context)
+    expect(closed.passed).toEqual([])
+    expect(closed.quarantined).toEqual([{ id: 31, filename: 'report.pdf', threat: 'Unscannable: connect ECONNREFUSED' }])
+  })
+})
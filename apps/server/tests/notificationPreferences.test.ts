@@ -22,6 +22,7 @@ vi.mock('../src/googleAuth', () => ({
 // Import after mocking
 import { registerNotificationRoutes } from '../src/routes/notifications';
 import { taskNotificationService } from '../src/services/taskNotificationService';
+import { parseTaskDueReminderOffsets } from '../src/utils/taskDueReminders';
 
 describe('Notification Preferences API', () => {
   let app: express.Express;
@@ -530,15 +531,14 @@ describe('Task Notification Service', () => {
   });
 
   describe('sendTaskDueReminders', () => {
-    it('should check for tasks due soon', async () => {
-      const consoleSpy = vi.spyOn(console, 'log').mockImplementation(() => {});
+    it('should look up open tasks due within the reminder window', async () => {
+      const now = new Date('2026-03-02T12:00:00Z');
+      mockStorage.getTaskDueReminderCandidates.mockResolvedValue([]);
 
-      await taskNotificationService.sendTaskDueReminders();
+      const result = await taskNotificationService.sendTaskDueReminders(parseTaskDueReminderOffsets('24h,1h'), now);
 
-      expect(consoleSpy).toHaveBeenCalledWith('📅 [NOTIFICATION] Checking for tasks due soon...');
-      expect(consoleSpy).toHaveBeenCalledWith(expect.stringMatching(/📅 \[NOTIFICATION\] Would check tasks due between/));
-
-      consoleSpy.mockRestore();
+      expect(mockStorage.getTaskDueReminderCandidates).toHaveBeenCalledWith(now, new Date('2026-03-03T12:00:00Z'));
+      expect(result).toEqual({ sent: 0, skipped: 0, failed: 0 });
     });
   });
 
@@ -0,0 +1,253 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import JSZip from 'jszip'
+import { detectOfficeFormat, extractOfficeDocument, findActionItems } from '../src/utils/officeDocument'
+import { analyzeAttachment } from '../src/services/analyzer/analyzerAnalysisService'
+import { claudeService } from '../src/services/claudeService'
+
+vi.mock('../src/services/claudeService', () => ({
+  claudeService: { sendMessage: vi.fn() },
+}))
+
+const W = 'xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"'
+const P = 'xmlns:p="http://schemas.openxmlformats.org/presentationml/2006/main" xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"'
+const REL = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships'
+
+const run = (text: string) => `<w:r><w:t xml:space="preserve">${text}</w:t></w:r>`
+const paragraph = (content: string, properties = '') => `<w:p>${properties ? `<w:pPr>${properties}</w:pPr>` : ''}${content}</w:p>`
+const styled = (style: string, text: string) => paragraph(run(text), `<w:pStyle w:val="${style}"/>`)
+const listItem = (text: string, level = 0) =>
+  paragraph(run(text), `<w:numPr><w:ilvl w:val="${level}"/><w:numId w:val="3"/></w:numPr>`)
+const cell = (text: string) => `<w:tc><w:tcPr/>${paragraph(run(text))}</w:tc>`
+
+async function zip(files: Record<string, string>): Promise<Buffer> {
+  const archive = new JSZip()
+  for (const [name, content] of Object.entries(files)) archive.file(name, content)
+  return archive.generateAsync({ type: 'nodebuffer' })
+}
+
+function buildMeetingNotes(): Promise<Buffer> {
+  const body = [
+    styled('Title', 'Launch sync'),
+    styled('Heading1', 'Decisions'),
+    paragraph(
+      `<w:commentRangeStart w:id="0"/>${run('Ship on May 3')}<w:commentRangeEnd w:id="0"/>` +
+      `<w:ins w:id="1" w:author="Dana" w:date="2026-04-02T10:00:00Z">${run(' after QA')}</w:ins>` +
+      `<w:del w:id="2" w:author="Lee" w:date="2026-04-02T11:00:00Z"><w:r><w:delText>and announce</w:delText></w:r></w:del>`
+    ),
+    `<w:tbl><w:tblPr/><w:tr>${cell('Owner')}${cell('Area')}</w:tr><w:tr>${cell('Dana')}${cell('Docs &amp; FAQ')}</w:tr></w:tbl>`,
+    styled('Heading2', 'Action items'),
+    listItem('Dana to update the FAQ by Friday'),
+    listItem('Include pricing', 1),
+    listItem('Lee to book the venue'),
+    paragraph(run('Notes')),
+  ].join('')
+
+  return zip({
+    '[Content_Types].xml': '<Types/>',
+    'word/document.xml': `<?xml version="1.0" encoding="UTF-8"?><w:document ${W}><w:body>${body}<w:sectPr/></w:body></w:document>`,
+    'word/styles.xml': `<w:styles ${W}>` +
+      '<w:style w:type="paragraph" w:styleId="Title"><w:name w:val="Title"/></w:style>' +
+      '<w:style w:type="paragraph" w:styleId="Heading1"><w:name w:val="heading 1"/><w:pPr><w:outlineLvl w:val="0"/></w:pPr></w:style>' +
+      '<w:style w:type="paragraph" w:styleId="Heading2"><w:name w:val="heading 2"/></w:style>' +
+      '</w:styles>',
+    'word/comments.xml': `<w:comments ${W}><w:comment w:id="0" w:author="Priya" w:date="2026-04-02T09:00:00Z">${paragraph(run('Is marketing ready?'))}</w:comment></w:comments>`,
+  })
+}
+
+function buildDeck(): Promise<Buffer> {
+  const shape = (placeholder: string, paragraphs: string[]) =>
+    `<p:sp><p:nvSpPr><p:cNvPr id="2" name="Shape"/><p:cNvSpPr/><p:nvPr>${placeholder}</p:nvPr></p:nvSpPr>` +
+    `<p:txBody><a:bodyPr/>${paragraphs.join('')}</p:txBody></p:sp>`
+  const text = (value: string, level = 0) => `<a:p>${level ? `<a:pPr lvl="${level}"/>` : ''}<a:r><a:t>${value}</a:t></a:r></a:p>`
+  const slide = (shapes: string) => `<p:sld ${P}><p:cSld><p:spTree>${shapes}</p:spTree></p:cSld></p:sld>`
+  const slideRels = (notes?: string) =>
+    `<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">` +
+    (notes ? `<Relationship Id="rId2" Type="${REL}/notesSlide" Target="../notesSlides/${notes}"/>` : '') +
+    '</Relationships>'
+
+  return zip({
+    'ppt/presentation.xml': `<p:presentation ${P}><p:sldIdLst><p:sldId id="256" r:id="rId7"/><p:sldId id="257" r:id="rId6"/></p:sldIdLst></p:presentation>`,
+    'ppt/_rels/presentation.xml.rels': '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+      `<Relationship Id="rId6" Type="${REL}/slide" Target="slides/slide1.xml"/>` +
+      `<Relationship Id="rId7" Type="${REL}/slide" Target="slides/slide2.xml"/>` +
+      '</Relationships>',
+    // slide2.xml is listed first, so it is slide 1 of the deck
+    'ppt/slides/slide2.xml': slide(
+      shape('<p:ph type="ctrTitle"/>', [text('Q3 Roadmap')]) +
+      shape('<p:ph type="body" idx="1"/>', [text('Mobile app beta'), text('iOS first', 1)]) +
+      shape('<p:ph type="sldNum" idx="12"/>', [text('1')])
+    ),
+    'ppt/slides/_rels/slide2.xml.rels': slideRels('notesSlide1.xml'),
+    'ppt/notesSlides/notesSlide1.xml': `<p:notes ${P}><p:cSld><p:spTree>` +
+      shape('<p:ph type="sldImg"/>', []) +
+      shape('<p:ph type="body" idx="1"/>', [text('Mention the hiring freeze')]) +
+      '</p:spTree></p:cSld></p:notes>',
+    'ppt/slides/slide1.xml': slide(
+      shape('<p:ph type="title"/>', [text('Next steps')]) +
+      shape('<p:ph idx="1"/>', [text('Sam to draft the launch plan'), text('Kim to confirm budget')])
+    ),
+    'ppt/slides/_rels/slide1.xml.rels': slideRels(),
+  })
+}
+
+describe('detectOfficeFormat', () => {
+  it('should detect DOCX and PPTX by extension or content type and skip legacy formats', () => {
+    expect(detectOfficeFormat('application/octet-stream', 'Notes.DOCX')).toBe('docx')
+    expect(detectOfficeFormat('application/vnd.openxmlformats-officedocument.presentationml.presentation', 'deck')).toBe('pptx')
+    expect(detectOfficeFormat('application/msword', 'notes.doc')).toBeNull()
+    expect(detectOfficeFormat('application/pdf', 'report.pdf')).toBeNull()
+  })
+})
+
+describe('extractOfficeDocument', () => {
+  it('should outline DOCX headings, lists, tables, comments and tracked changes', async () => {
+    const document = await extractOfficeDocument(await buildMeetingNotes(), 'docx')
+
+    expect(document.headings).toEqual([
+      { level: 1, text: 'Launch sync' },
+      { level: 1, text: 'Decisions' },
+      { level: 2, text: 'Action items' },
+    ])
+    expect(document.tables).toEqual([[['Owner', 'Area'], ['Dana', 'Docs & FAQ']]])
+    expect(document.comments).toEqual([
+      { author: 'Priya', date: '2026-04-02T09:00:00Z', text: 'Is marketing ready?', anchor: 'Ship on May 3' },
+    ])
+    expect(document.trackedChanges).toEqual([
+      { type: 'insertion', author: 'Dana', date: '2026-04-02T10:00:00Z', text: 'after QA' },
+      { type: 'deletion', author: 'Lee', date: '2026-04-02T11:00:00Z', text: 'and announce' },
+    ])
+    expect(document.outline.split('\n')).toEqual([
+      '# Launch sync',
+      '# Decisions',
+      'Ship on May 3 after QA',
+      'Owner | Area',
+      'Dana | Docs & FAQ',
+      '## Action items',
+      '- Dana to update the FAQ by Friday',
+      '  - Include pricing',
+      '- Lee to book the venue',
+      'Notes',
+      '',
+      'Comments:',
+      '- Priya on "Ship on May 3": Is marketing ready?',
+      '',
+      'Tracked changes:',
+      '- Inserted by Dana: "after QA"',
+      '- Deleted by Lee: "and announce"',
+    ])
+  })
+
+  it('should read slides in presentation order with speaker notes', async () => {
+    const deck = await extractOfficeDocument(await buildDeck(), 'pptx')
+
+    expect(deck.slideCount).toBe(2)
+    expect(deck.headings).toEqual([{ level: 1, text: 'Q3 Roadmap' }, { level: 1, text: 'Next steps' }])
+    expect(deck.outline).toBe([
+      '[Slide 1] Q3 Roadmap',
+      '- Mobile app beta',
+      '  - iOS first',
+      'Notes: Mention the hiring freeze',
+      '',
+      '[Slide 2] Next steps',
+      '- Sam to draft the launch plan',
+      '- Kim to confirm budget',
+    ].join('\n'))
+  })
+
+  it('should reject files that are not zip archives', async () => {
+    await expect(extractOfficeDocument(Buffer.from('not a zip'), 'docx')).rejects.toThrow()
+  })
+
+  it('should reject documents whose parts inflate past the size limit', async () => {
+    const compressed = (files: Record<string, string>) => {
+      const archive = new JSZip()
+      for (const [name, content] of Object.entries(files)) archive.file(name, content)
+      return archive.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' })
+    }
+    const padding = (megabytes: number) => ' '.repeat(megabytes * 1024 * 1024)
+
+    const docx = await compressed({ 'word/document.xml': `<w:document ${W}><w:body>${padding(65)}</w:body></w:document>` })
+    await expect(extractOfficeDocument(docx, 'docx')).rejects.toThrow('inflates past')
+
+    // Each slide is under the limit; together they are not
+    const slides = [1, 2, 3]
+    const pptx = await compressed({
+      'ppt/presentation.xml': `<p:presentation ${P}><p:sldIdLst>${slides.map(n => `<p:sldId id="${255 + n}" r:id="rId${n}"/>`).join('')}</p:sldIdLst></p:presentation>`,
+      'ppt/_rels/presentation.xml.rels': '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+        slides.map(n => `<Relationship Id="rId${n}" Type="${REL}/slide" Target="slides/slide${n}.xml"/>`).join('') +
+        '</Relationships>',
+      ...Object.fromEntries(slides.map(n => [`ppt/slides/slide${n}.xml`, `<p:sld ${P}>${padding(25)}</p:sld>`])),
+    })
+    await expect(extractOfficeDocument(pptx, 'pptx')).rejects.toThrow('inflates past')
+  })
+})
+
+describe('findActionItems', () => {
+  it('should collect items under action headings and inline action lines', () => {
+    const outline = [
+      '## Action items',
+      '- Dana to update the FAQ',
+      '  - Include pricing',
+      '1. Lee to book the venue',
+      '',
+      'TODO: send the recap',
+      '# Risks',
+      '- Budget overrun',
+    ].join('\n')
+
+    expect(findActionItems(outline)).toEqual([
+      'Dana to update the FAQ',
+      'Include pricing',
+      'Lee to book the venue',
+      'send the recap',
+    ])
+  })
+})
+
+describe('analyzeAttachment with Office documents', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('should send the outline to Claude and keep its structure and action items', async () => {
+    vi.mocked(claudeService.sendMessage).mockResolvedValue(JSON.stringify({
+      summary: 'Launch sync notes.',
+      keyPoints: ['Ship on May 3 after QA'],
+      actionItems: ['Dana to update the FAQ by Friday'],
+      documentType: 'Meeting notes',
+    }))
+
+    const analysis = await analyzeAttachment(
+      { filename: 'launch-sync.docx', contentType: 'application/octet-stream', content: await buildMeetingNotes() },
+      { subject: 'Launch sync', body: '' }
+    )
+
+    const prompt = vi.mocked(claudeService.sendMessage).mock.calls[0][0]
+    expect(prompt).toContain('## Action items\n- Dana to update the FAQ by Friday\n  - Include pricing')
+    expect(prompt).toContain('"actionItems"')
+    expect(analysis).toMatchObject({
+      actionItems: ['Dana to update the FAQ by Friday'],
+      office: { format: 'docx', comments: [{ author: 'Priya' }], trackedChanges: [{ type: 'insertion' }, { type: 'deletion' }] },
+      contentAnalysis: { extractionSource: 'docx' },
+      llmEnhanced: true,
+    })
+    expect(analysis.extractedText).toMatch(/^# Launch sync\n# Decisions/)
+  })
+
+  it('should fall back to the outline when Claude is unavailable', async () => {
+    vi.mocked(claudeService.sendMessage).mockRejectedValue(new Error('overloaded'))
+
+    const analysis = await analyzeAttachment(
+      { filename: 'roadmap.pptx', contentType: 'application/vnd.openxmlformats-officedocument.presentationml.presentation', content: await buildDeck() },
+      { subject: 'Roadmap', body: '' }
+    )
+
+    expect(analysis).toMatchObject({
+      keyPoints: ['Q3 Roadmap', 'Next steps'],
+      actionItems: ['Sam to draft the launch plan', 'Kim to confirm budget'],
+      documentType: 'Presentation',
+      office: { format: 'pptx', slideCount: 2 },
+      llmEnhanced: false,
+    })
+  })
+})
@@ -0,0 +1,249 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { deflateSync } from 'zlib'
+import { extractPdf, formatPdfPages } from '../src/utils/pdfText'
+import { analyzeAttachment } from '../src/services/analyzer/analyzerAnalysisService'
+import { claudeService } from '../src/services/claudeService'
+
+vi.mock('../src/services/claudeService', () => ({
+  claudeService: { sendMessage: vi.fn() },
+}))
+
+interface PdfObjectSpec {
+  id: number
+  dict: string // Dictionary entries, without the << >>
+  stream?: string | Buffer
+}
+
+const flate = (source: string) => deflateSync(Buffer.from(source, 'latin1'))
+
+function buildPdf(objects: PdfObjectSpec[], trailer = '<< /Root 1 0 R >>'): Buffer {
+  const parts = [Buffer.from('%PDF-1.5\n%\xE2\xE3\xCF\xD3\n', 'latin1')]
+  for (const object of objects) {
+    if (object.stream === undefined) {
+      parts.push(Buffer.from(`${object.id} 0 obj\n<< ${object.dict} >>\nendobj\n`, 'latin1'))
+      continue
+    }
+    const data = typeof object.stream === 'string' ? Buffer.from(object.stream, 'latin1') : object.stream
+    parts.push(
+      Buffer.from(`${object.id} 0 obj\n<< ${object.dict} /Length ${data.length} >>\nstream\n`, 'latin1'),
+      data,
+      Buffer.from('\nendstream\nendobj\n', 'latin1'),
+    )
+  }
+  parts.push(Buffer.from(`trailer\n${trailer}\n%%EOF\n`, 'latin1'))
+  return Buffer.concat(parts)
+}
+
+const HELVETICA = '/Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding'
+
+function buildReport(): Buffer {
+  return buildPdf([
+    { id: 1, dict: '/Type /Catalog /Pages 2 0 R' },
+    { id: 2, dict: '/Type /Pages /Kids [3 0 R 4 0 R] /Count 2 /Resources << /Font << /F1 5 0 R >> >>' },
+    { id: 3, dict: '/Type /Page /Parent 2 0 R /Contents 6 0 R' },
+    { id: 4, dict: '/Type /Page /Parent 2 0 R /Contents [7 0 R 8 0 R]' },
+    { id: 5, dict: HELVETICA },
+    {
+      id: 6,
+      dict: '/Filter /FlateDecode',
+      stream: flate('BT /F1 12 Tf 72 720 Td (Quarterly report) Tj 0 -16 Td [(Hello) -300 (World)] TJ ET'),
+    },
+    { id: 7, dict: '/Filter /FlateDecode', stream: flate('BT /F1 10 Tf 72 700 Td (Total \\(net\\): \\2001 200) Tj ET') },
+    { id: 8, dict: '', stream: 'q 1 0 0 1 0 -20 cm BT /F1 10 Tf 72 700 Td (Second line) Tj ET Q' },
+  ])
+}
+
+function buildInventory(): Buffer {
+  const row = (y: number, cells: string[]) =>
+    cells.map((cell, index) => `1 0 0 1 ${[72, 200, 300][index]} ${y} Tm (${cell}) Tj`).join(' ')
+
+  return buildPdf([
+    { id: 1, dict: '/Type /Catalog /Pages 2 0 R' },
+    { id: 2, dict: '/Type /Pages /Kids [3 0 R] /Count 1' },
+    { id: 3, dict: '/Type /Page /Parent 2 0 R /Resources << /Font << /F1 4 0 R >> >> /Contents 5 0 R' },
+    { id: 4, dict: HELVETICA },
+    {
+      id: 5,
+      dict: '/Filter /FlateDecode',
+      stream: flate(`BT /F1 10 Tf
+        1 0 0 1 72 700 Tm (Inventory summary for the first quarter) Tj
+        ${row(680, ['Item', 'Qty', 'Price'])}
+        ${row(665, ['Laptops', '12', '1,200.00'])}
+        ${row(650, ['Monitors', '30', '240.00'])}
+        1 0 0 1 72 620 Tm (Prices include shipping but not sales tax.) Tj
+      ET`),
+    },
+  ])
+}
+
+/**
+ * PDF 1.5 layout: page tree and fonts inside a compressed object stream, a composite font
+ * that is only readable through its ToUnicode map, a form XObject and an inline image
+ */
+function buildCompressed(): Buffer {
+  const packed = [
+    { id: 2, body: '<< /Type /Pages /Kids [3 0 R] /Count 1 >>' },
+    { id: 3, body: '<< /Type /Page /Parent 2 0 R /Resources << /Font << /F2 4 0 R >> /XObject << /Fm1 8 0 R >> >> /Contents 7 0 R >>' },
+    { id: 4, body: '<< /Type /Font /Subtype /Type0 /BaseFont /ABCDEF+Calibri /Encoding /Identity-H /DescendantFonts [5 0 R] /ToUnicode 6 0 R >>' },
+    { id: 5, body: '<< /Type /Font /Subtype /CIDFontType2 /DW 1000 /W [3 [226] 16 [580] 36 61 600] >>' },
+  ]
+  let offset = 0
+  const header: string[] = []
+  for (const object of packed) {
+    header.push(`${object.id} ${offset}`)
+    offset += object.body.length + 1
+  }
+  const first = header.join(' ').length + 1
+  const objectStream = `${header.join(' ')}\n${packed.map(object => object.body).join('\n')}\n`
+
+  const toUnicode = `/CIDInit /ProcSet findresource begin 12 dict begin begincmap
+1 begincodespacerange <0000> <FFFF> endcodespacerange
+2 beginbfchar <0003> <0020> <0010> <00C9> endbfchar
+1 beginbfrange <0024> <003D> <0041> endbfrange
+endcmap CMapName currentdict /CMap defineresource pop end end`
+
+  return buildPdf([
+    { id: 1, dict: '/Type /Catalog /Pages 2 0 R' },
+    { id: 10, dict: `/Type /ObjStm /N ${packed.length} /First ${first} /Filter /FlateDecode`, stream: flate(objectStream) },
+    { id: 6, dict: '/Filter /FlateDecode', stream: flate(toUnicode) },
+    {
+      id: 7,
+      dict: '/Filter /FlateDecode',
+      stream: flate('BT /F2 14 Tf 72 700 Td <00260024002900100003002500240035> Tj ET\nBI /W 2 /H 1 /BPC 8 /CS /G ID \x00) EI\nq /Fm1 Do Q'),
+    },
+    {
+      id: 8,
+      dict: '/Type /XObject /Subtype /Form /BBox [0 0 600 100] /Matrix [1 0 0 1 0 -660] /Resources << /Font << /F2 4 0 R >> >>',
+      stream: 'BT /F2 8 Tf 72 700 Td <002500240035> Tj ET',
+    },
+  ], '<< /Type /XRef /Root 1 0 R /Size 11 >>')
+}
+
+describe('extractPdf', () => {
+  it('should extract text page by page from compressed content streams', () => {
+    const pdf = extractPdf(buildReport())
+
+    expect(pdf.pageCount).toBe(2)
+    expect(pdf.encrypted).toBe(false)
+    expect(pdf.pages).toEqual([
+      { page: 1, text: 'Quarterly report\nHello World' },
+      { page: 2, text: 'Total (net): €1 200\nSecond line' },
+    ])
+  })
+
+  it('should read object streams, ToUnicode maps and form XObjects', () => {
+    const pdf = extractPdf(buildCompressed())
+
+    expect(pdf.pageCount).toBe(1)
+    expect(pdf.pages[0].text).toBe('CAFÉ BAR\nBAR')
+  })
+
+  it('should detect aligned columns as a table and leave prose out of it', () => {
+    const pdf = extractPdf(buildInventory())
+
+    expect(pdf.tables).toEqual([
+      { page: 1, rows: [['Item', 'Qty', 'Price'], ['Laptops', '12', '1,200.00'], ['Monitors', '30', '240.00']] },
+    ])
+    expect(pdf.pages[0].text.split('\n')).toEqual([
+      'Inventory summary for the first quarter',
+      'Item\tQty\tPrice',
+      'Laptops\t12\t1,200.00',
+      'Monitors\t30\t240.00',
+      'Prices include shipping but not sales tax.',
+    ])
+  })
+
+  it('should not return text of encrypted or non-PDF files', () => {
+    const encrypted = buildPdf([
+      { id: 1, dict: '/Type /Catalog /Pages 2 0 R' },
+      { id: 2, dict: '/Type /Pages /Kids [3 0 R] /Count 1' },
+      { id: 3, dict: '/Type /Page /Parent 2 0 R /Contents 4 0 R' },
+      { id: 4, dict: '', stream: 'x\x9c\x01\x02garbled' },
+    ], '<< /Root 1 0 R /Encrypt 9 0 R >>')
+
+    expect(extractPdf(encrypted)).toEqual({ pageCount: 1, pages: [], tables: [], encrypted: true })
+    expect(extractPdf(Buffer.from('not a pdf')).pages).toEqual([])
+  })
+
+  it('should stop at a stream that inflates past the size limit', () => {
+    const padding = ' '.repeat(40 * 1024 * 1024)
+    const pdf = extractPdf(buildPdf([
+      { id: 1, dict: '/Type /Catalog /Pages 2 0 R' },
+      { id: 2, dict: '/Type /Pages /Kids [3 0 R 4 0 R] /Count 2 /Resources << /Font << /F1 5 0 R >> >>' },
+      { id: 3, dict: '/Type /Page /Parent 2 0 R /Contents 6 0 R' },
+      { id: 4, dict: '/Type /Page /Parent 2 0 R /Contents 7 0 R' },
+      { id: 5, dict: HELVETICA },
+      { id: 6, dict: '/Filter /FlateDecode', stream: flate(`BT /F1 12 Tf 72 720 Td (Bomb) Tj ET${padding}`) },
+      { id: 7, dict: '', stream: 'BT /F1 12 Tf 72 720 Td (Never read) Tj ET' },
+    ]))
+
+    expect(pdf.pageCount).toBe(2)
+    expect(pdf.pages).toEqual([{ page: 1, text: '' }])
+  })
+
+  it('should stop running nested forms that fan out', () => {
+    // Four levels of forms that each draw the next level 40 times: 2.5 million runs without a budget
+    const calls = (name: string) => Array.from({ length: 40 }, () => `/${name} Do`).join(' ')
+    const form = (id: number, next: string | null) => ({
+      id,
+      dict: `/Type /XObject /Subtype /Form /BBox [0 0 600 800] /Resources << /Font << /F1 5 0 R >>${next ? ` /XObject << /${next} ${id + 1} 0 R >>` : ''} >>`,
+      stream: next ? calls(next) : 'BT /F1 12 Tf 72 720 Td (Leaf) Tj ET',
+    })
+
+    const started = Date.now()
+    const pdf = extractPdf(buildPdf([
+      { id: 1, dict: '/Type /Catalog /Pages 2 0 R' },
+      { id: 2, dict: '/Type /Pages /Kids [3 0 R 4 0 R] /Count 2' },
+      { id: 3, dict: '/Type /Page /Parent 2 0 R /Resources << /XObject << /Fa 10 0 R >> >> /Contents 6 0 R' },
+      { id: 4, dict: '/Type /Page /Parent 2 0 R /Resources << /Font << /F1 5 0 R >> >> /Contents 7 0 R' },
+      { id: 5, dict: HELVETICA },
+      { id: 6, dict: '', stream: calls('Fa') },
+      { id: 7, dict: '', stream: 'BT /F1 12 Tf 72 720 Td (Never read) Tj ET' },
+      form(10, 'Fb'),
+      form(11, 'Fc'),
+      form(12, 'Fd'),
+      form(13, null),
+    ]))
+
+    expect(Date.now() - started).toBeLessThan(2000)
+    expect(pdf.pages.map(page => page.page)).toEqual([1])
+  })
+
+  it('should mark each page with its number and skip empty pages', () => {
+    expect(formatPdfPages([
+      { page: 1, text: 'Intro' },
+      { page: 2, text: '' },
+      { page: 3, text: 'Appendix' },
+    ])).toBe('[Page 1]\nIntro\n\n[Page 3]\nAppendix')
+  })
+})
+
+describe('analyzeAttachment with PDFs', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('should send page-marked text and keep page references and tables', async () => {
+    vi.mocked(claudeService.sendMessage).mockResolvedValue(JSON.stringify({
+      summary: 'Quarterly inventory of laptops and monitors.',
+      keyPoints: ['30 monitors at 240.00 each (p. 1)'],
+      documentType: 'Inventory',
+    }))
+
+    const analysis = await analyzeAttachment(
+      { filename: 'inventory.pdf', contentType: 'application/pdf', content: buildInventory() },
+      { subject: 'Inventory', body: '' }
+    )
+
+    const prompt = vi.mocked(claudeService.sendMessage).mock.calls[0][0]
+    expect(prompt).toContain('[Page 1]\nInventory summary for the first quarter\nItem | Qty | Price')
+    expect(prompt).toContain('End every key point, insight and next step with the page it comes from')
+    expect(analysis).toMatchObject({
+      keyPoints: ['30 monitors at 240.00 each (p. 1)'],
+      pageCount: 1,
+      tables: [{ page: 1, rows: expect.arrayContaining([['Laptops', '12', '1,200.00']]) }],
+      contentAnalysis: { extractionSource: 'pdf' },
+    })
+    expect(analysis.extractedText).toMatch(/^\[Page 1\]\nInventory summary/)
+  })
+})
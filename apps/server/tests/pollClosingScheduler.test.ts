@@ -0,0 +1,111 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { pollClosingScheduler } from '../src/services/pollClosingScheduler'
+import { storage } from '../src/storage'
+import { sendMail } from '../src/services/mailer'
+import { wsManager } from '../src/services/websocketManager'
+import { tallyPollVotes } from '../src/utils/pollTally'
+import type { Poll, PollVote } from '@email-task-router/shared'
+
+vi.mock('../src/storage', () => ({
+  storage: {
+    getExpiredActivePolls: vi.fn(),
+    closePoll: vi.fn(),
+    getPollResults: vi.fn(),
+    getPollVotes: vi.fn(),
+    getUserByEmail: vi.fn(),
+    getProjectParticipants: vi.fn(),
+  },
+}))
+
+vi.mock('../src/services/mailer', () => ({
+  sendMail: vi.fn(),
+}))
+
+vi.mock('../src/services/websocketManager', () => ({
+  wsManager: {
+    broadcastToUsers: vi.fn(),
+  },
+}))
+
+const poll: Poll = {
+  id: 7,
+  title: 'Offsite location?',
+  description: null,
+  type: 'multiple_choice',
+  options: [
+    { id: '1', text: 'Lisbon', order: 1 },
+    { id: '2', text: 'Berlin', order: 2 },
+  ],
+  createdBy: 'creator-id',
+  projectId: null,
+  participantEmails: ['creator@example.com', 'teammate@example.com'],
+  isAnonymous: false,
+  allowMultipleVotes: false,
+  status: 'active',
+  expiresAt: new Date('2025-01-01T00:00:00Z'),
+  closedAt: null,
+  emailMessageId: '<original@example.com>',
+  sourceEmailSubject: 'Offsite vote',
+  createdAt: new Date(),
+  updatedAt: new Date(),
+}
+
+const votes: PollVote[] = [
+  { id: 1, pollId: 7, userId: 'creator-id', selectedOptions: ['1', '2'], comment: null, createdAt: new Date() },
+  { id: 2, pollId: 7, userId: 'teammate-id', selectedOptions: ['2'], comment: null, createdAt: new Date() },
+]
+
+describe('PollClosingScheduler', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    const closedPoll = { ...poll, status: 'closed', closedAt: new Date() }
+    vi.mocked(storage.getExpiredActivePolls).mockResolvedValue([poll])
+    vi.mocked(storage.closePoll).mockResolvedValue(closedPoll)
+    vi.mocked(storage.getPollResults).mockResolvedValue(tallyPollVotes(closedPoll, votes))
+    vi.mocked(storage.getPollVotes).mockResolvedValue(votes)
+    vi.mocked(storage.getUserByEmail).mockResolvedValue(undefined)
+    vi.mocked(sendMail).mockResolvedValue(true)
+  })
+
+  it('should close expired polls and reply to the original thread with the results', async () => {
+    const closed = await pollClosingScheduler.closeExpiredPolls()
+
+    expect(closed).toEqual([7])
+    expect(storage.closePoll).toHaveBeenCalledWith(7)
+    expect(sendMail).toHaveBeenCalledWith(expect.objectContaining({
+      to: ['creator@example.com', 'teammate@example.com'],
+      subject: 'Re: Offsite vote',
+      inReplyTo: '<original@example.com>',
+      references: ['<original@example.com>'],
+    }))
+    expect(vi.mocked(sendMail).mock.calls[0][0].text).toContain('"Berlin" won with 2 of 2 votes (100%)')
+  })
+
+  it('should broadcast poll_closed to the creator and voters', async () => {
+    await pollClosingScheduler.closeExpiredPolls()
+
+    expect(wsManager.broadcastToUsers).toHaveBeenCalledWith(
+      expect.objectContaining({ type: 'poll_closed', data: expect.objectContaining({ pollId: 7 }) }),
+      ['creator-id', 'teammate-id']
+    )
+  })
+
+  it('should skip polls another worker already closed', async () => {
+    vi.mocked(storage.closePoll).mockResolvedValue(undefined)
+
+    const closed = await pollClosingScheduler.closeExpiredPolls()
+
+    expect(closed).toEqual([])
+    expect(sendMail).not.toHaveBeenCalled()
+    expect(wsManager.broadcastToUsers).not.toHaveBeenCalled()
+  })
+
+  it('should keep the poll closed when the results email fails', async () => {
+    vi.mocked(sendMail).mockRejectedValue(new Error('SMTP down'))
+
+    const closed = await pollClosingScheduler.closeExpiredPolls()
+
+    expect(closed).toEqual([7])
+    expect(wsManager.broadcastToUsers).toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,156 @@
+import { describe, it, expect } from 'vitest'
+import { describePollOutcome, isPollExpired, resolveVoteSelection, tallyPollVotes } from '../src/utils/pollTally'
+import type { Poll, PollVote } from '@email-task-router/shared'
+
+const createPoll = (overrides: Partial<Poll> = {}): Poll => ({
+  id: 1,
+  title: 'Lunch spot?',
+  description: null,
+  type: 'single_choice',
+  options: [
+    { id: '1', text: 'Pizza', order: 1 },
+    { id: '2', text: 'Sushi', order: 2 },
+    { id: '3', text: 'Tacos', order: 3 },
+  ],
+  createdBy: 'creator',
+  projectId: null,
+  participantEmails: [],
+  isAnonymous: false,
+  allowMultipleVotes: false,
+  status: 'active',
+  expiresAt: null,
+  closedAt: null,
+  emailMessageId: null,
+  sourceEmailSubject: null,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  ...overrides,
+})
+
+const createVote = (userId: string, selectedOptions: string[], id = 1): PollVote => ({
+  id,
+  pollId: 1,
+  userId,
+  selectedOptions,
+  comment: null,
+  multipleAllowed: false,
+  createdAt: new Date(),
+})
+
+describe('pollTally', () => {
+  describe('resolveVoteSelection', () => {
+    it('should accept option ids, letters and option text', () => {
+      const poll = createPoll({ type: 'multiple_choice' })
+      const result = resolveVoteSelection(poll, ['1', 'b', 'tacos'])
+      expect(result.error).toBeUndefined()
+      expect(result.selectedOptions).toEqual(['1', '2', '3'])
+    })
+
+    it('should de-duplicate choices that map to the same option', () => {
+      const result = resolveVoteSelection(createPoll(), ['A', 'Pizza'])
+      expect(result.error).toBeUndefined()
+      expect(result.selectedOptions).toEqual(['1'])
+    })
+
+    it('should reject more than one choice on a single-choice poll', () => {
+      const result = resolveVoteSelection(createPoll(), ['A', 'B'])
+      expect(result.error).toMatch(/single choice/)
+      expect(result.selectedOptions).toEqual([])
+    })
+
+    it('should reject choices that are not poll options', () => {
+      const result = resolveVoteSelection(createPoll(), 'Burgers')
+      expect(result.error).toMatch(/not one of the poll options/)
+    })
+
+    it('should reject an empty selection', () => {
+      const result = resolveVoteSelection(createPoll(), [])
+      expect(result.error).toBeDefined()
+    })
+  })
+
+  describe('isPollExpired', () => {
+    it('should treat closed polls as expired', () => {
+      expect(isPollExpired(createPoll({ status: 'closed' }))).toBe(true)
+    })
+
+    it('should compare the expiry date against now', () => {
+      const now = new Date('2025-01-10T12:00:00Z')
+      expect(isPollExpired(createPoll({ expiresAt: new Date('2025-01-10T11:00:00Z') }), now)).toBe(true)
+      expect(isPollExpired(createPoll({ expiresAt: new Date('2025-01-10T13:00:00Z') }), now)).toBe(false)
+      expect(isPollExpired(createPoll(), now)).toBe(false)
+    })
+  })
+
+  describe('tallyPollVotes', () => {
+    it('should count votes and report a single leader', () => {
+      const results = tallyPollVotes(createPoll(), [
+        createVote('a', ['1'], 1),
+        createVote('b', ['1'], 2),
+        createVote('c', ['2'], 3),
+      ])
+
+      expect(results.totalVotes).toBe(3)
+      expect(results.uniqueVoters).toBe(3)
+      expect(results.options.map(o => o.votes)).toEqual([2, 1, 0])
+      expect(results.options[0].percentage).toBe(66.7)
+      expect(results.leadingOptionIds).toEqual(['1'])
+    })
+
+    it('should report every option in a tie', () => {
+      const results = tallyPollVotes(createPoll(), [
+        createVote('a', ['1'], 1),
+        createVote('b', ['3'], 2),
+      ])
+
+      expect(results.leadingOptionIds).toEqual(['1', '3'])
+    })
+
+    it('should compute multiple-choice percentages against ballots cast', () => {
+      const results = tallyPollVotes(createPoll({ type: 'multiple_choice' }), [
+        createVote('a', ['1', '2'], 1),
+        createVote('b', ['1'], 2),
+      ])
+
+      expect(results.options[0].percentage).toBe(100)
+      expect(results.options[1].percentage).toBe(50)
+      expect(results.options[2].percentage).toBe(0)
+    })
+
+    it('should have no leader when nobody has voted', () => {
+      const results = tallyPollVotes(createPoll(), [])
+      expect(results.totalVotes).toBe(0)
+      expect(results.leadingOptionIds).toEqual([])
+    })
+
+    it('should omit voter details for anonymous polls', () => {
+      const votes = [createVote('a', ['1'])]
+      expect(tallyPollVotes(createPoll({ isAnonymous: true }), votes).voters).toBeUndefined()
+      expect(tallyPollVotes(createPoll(), votes).voters).toHaveLength(1)
+    })
+  })
+
+  describe('describePollOutcome', () => {
+    it('should name the winner', () => {
+      const results = tallyPollVotes(createPoll(), [
+        createVote('a', ['2'], 1),
+        createVote('b', ['2'], 2),
+        createVote('c', ['1'], 3),
+      ])
+      expect(describePollOutcome(results)).toBe('"Sushi" won with 2 of 3 votes (66.7%)')
+    })
+
+    it('should list every option in a tie', () => {
+      const results = tallyPollVotes(createPoll(), [
+        createVote('a', ['1'], 1),
+        createVote('b', ['2'], 2),
+        createVote('c', ['3'], 3),
+      ])
+      expect(describePollOutcome(results)).toBe('Tie between "Pizza", "Sushi" and "Tacos" with 1 of 3 votes each')
+    })
+
+    it('should report when nobody voted', () => {
+      expect(describePollOutcome(tallyPollVotes(createPoll(), []))).toBe('No votes were cast')
+    })
+  })
+})
@@ -0,0 +1,56 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { db } from '../src/db'
+import { DatabaseStorage } from '../src/storage/DatabaseStorage'
+
+vi.mock('../src/db', () => ({
+  db: { insert: vi.fn() },
+}))
+
+const POLL = {
+  id: 7,
+  type: 'single_choice',
+  options: [{ id: '1', text: 'Pizza', order: 1 }, { id: '2', text: 'Sushi', order: 2 }],
+  allowMultipleVotes: false,
+  status: 'active',
+  expiresAt: null,
+} as any
+
+describe('DatabaseStorage.createVote', () => {
+  const storage = new DatabaseStorage()
+  const insert = {
+    values: vi.fn(() => insert),
+    onConflictDoNothing: vi.fn(() => insert),
+    returning: vi.fn(),
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(db.insert).mockReturnValue(insert as any)
+    vi.spyOn(storage, 'getPoll').mockResolvedValue(POLL)
+  })
+
+  it('should let the unique index settle concurrent ballots', async () => {
+    insert.returning
+      .mockResolvedValueOnce([{ id: 1, pollId: 7, userId: 'user-1', selectedOptions: ['1'] }])
+      .mockResolvedValueOnce([])
+
+    const [first, second] = await Promise.allSettled([
+      storage.createVote({ pollId: 7, userId: 'user-1', selectedOptions: ['1'] }),
+      storage.createVote({ pollId: 7, userId: 'user-1', selectedOptions: ['2'] }),
+    ])
+
+    expect(first).toMatchObject({ status: 'fulfilled', value: { id: 1 } })
+    expect(second).toMatchObject({ status: 'rejected', reason: new Error('User user-1 has already voted in poll 7') })
+    expect(insert.onConflictDoNothing).toHaveBeenCalledTimes(2)
+    expect(insert.values).toHaveBeenCalledWith(expect.objectContaining({ multipleAllowed: false }))
+  })
+
+  it('should mark ballots of polls that allow several per voter', async () => {
+    vi.spyOn(storage, 'getPoll').mockResolvedValue({ ...POLL, allowMultipleVotes: true })
+    insert.returning.mockResolvedValue([{ id: 2 }])
+
+    await storage.createVote({ pollId: 7, userId: 'user-1', selectedOptions: ['1'], multipleAllowed: false })
+
+    expect(insert.values).toHaveBeenCalledWith(expect.objectContaining({ multipleAllowed: true }))
+  })
+})
@@ -0,0 +1,190 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { QueueManager } from '../src/services/queue/manager'
+import {
+  calculateBackoffDelay,
+  deserializeEmailData,
+  hasExhaustedAttempts,
+  serializeEmailData,
+} from '../src/services/queue/jobUtils'
+import { AI_BUDGET_EXCEEDED } from '../src/services/aiUsage/aiUsageService'
+import { storage } from '../src/storage'
+import { createMockEmail } from './helpers'
+import type { EmailQueueJob } from '@email-task-router/shared'
+
+vi.mock('../src/storage', () => ({
+  storage: {
+    createEmailQueueJob: vi.fn(),
+    claimEmailQueueJobs: vi.fn(),
+    completeEmailQueueJob: vi.fn(),
+    retryEmailQueueJob: vi.fn(),
+    deadLetterEmailQueueJob: vi.fn(),
+    extendEmailQueueJobLock: vi.fn(),
+    getEmailQueueJobCounts: vi.fn(),
+    getRecentEmailQueueJobs: vi.fn(),
+    deleteCompletedEmailQueueJobs: vi.fn(),
+  },
+}))
+
+class TestQueue extends QueueManager {
+  handler = vi.fn()
+
+  protected async processEmailInternal(queuedEmail: any): Promise<void> {
+    await this.handler(queuedEmail)
+  }
+}
+
+const createJob = (overrides: Partial<EmailQueueJob> = {}): EmailQueueJob => ({
+  id: 42,
+  queue: 'email',
+  groupKey: null,
+  payload: { email: serializeEmailData(createMockEmail()), userId: 'user-123' },
+  userId: 'user-123',
+  messageId: 'test-message-id',
+  subject: 'Test Email',
+  sender: 'sender@example.com',
+  priority: 0,
+  status: 'processing',
+  attempts: 1,
+  maxAttempts: 3,
+  runAt: new Date(),
+  lockedBy: 'worker',
+  lockedUntil: new Date(Date.now() + 60000),
+  lastError: null,
+  completedAt: null,
+  deadLetteredAt: null,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  ...overrides,
+})
+
+const flush = () => new Promise(resolve => setTimeout(resolve, 10))
+
+describe('queue job helpers', () => {
+  it('should double the backoff delay on each attempt up to the cap', () => {
+    const options = { baseDelayMs: 1000, maxDelayMs: 5000 }
+    expect(calculateBackoffDelay(1, options)).toBe(1000)
+    expect(calculateBackoffDelay(2, options)).toBe(2000)
+    expect(calculateBackoffDelay(3, options)).toBe(4000)
+    expect(calculateBackoffDelay(4, options)).toBe(5000)
+  })
+
+  it('should add bounded jitter', () => {
+    const options = { baseDelayMs: 1000, maxDelayMs: 60000, jitterRatio: 0.5 }
+    expect(calculateBackoffDelay(1, options, () => 0)).toBe(1000)
+    expect(calculateBackoffDelay(1, options, () => 1)).toBe(1500)
+  })
+
+  it('should report exhausted attempts', () => {
+    expect(hasExhaustedAttempts({ attempts: 2, maxAttempts: 3 })).toBe(false)
+    expect(hasExhaustedAttempts({ attempts: 3, maxAttempts: 3 })).toBe(true)
+  })
+
+  it('should round-trip emails with attachments through the JSON payload', () => {
+    const email = createMockEmail({
+      attachments: [{ filename: 'a.txt', contentType: 'text/plain', size: 5, content: Buffer.from('hello') }],
+    })
+    const restored = deserializeEmailData(JSON.parse(JSON.stringify(serializeEmailData(email))))
+
+    expect(restored.date).toBeInstanceOf(Date)
+    expect(restored.date.getTime()).toBe(email.date.getTime())
+    expect(restored.attachments?.[0].content.toString()).toBe('hello')
+  })
+})
+
+describe('QueueManager', () => {
+  let queue: TestQueue
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    queue = new TestQueue()
+    vi.mocked(storage.claimEmailQueueJobs).mockResolvedValue([])
+  })
+
+  afterEach(() => {
+    queue.stop()
+  })
+
+  it('should persist queued emails', async () => {
+    const email = createMockEmail()
+    vi.mocked(storage.createEmailQueueJob).mockResolvedValue(createJob({ status: 'queued', attempts: 0 }))
+
+    const queueId = await queue.addToQueue(email, 'user-123')
+
+    expect(queueId).toBe('42')
+    expect(storage.createEmailQueueJob).toHaveBeenCalledWith(expect.objectContaining({
+      queue: 'email',
+      userId: 'user-123',
+      messageId: email.messageId,
+      maxAttempts: 3,
+    }))
+  })
+
+  it('should resume persisted jobs when processing starts', async () => {
+    vi.mocked(storage.claimEmailQueueJobs).mockResolvedValueOnce([createJob()])
+
+    queue.startProcessing()
+    await flush()
+
+    expect(queue.handler).toHaveBeenCalledWith(expect.objectContaining({ id: '42', userId: 'user-123' }))
+    expect(storage.completeEmailQueueJob).toHaveBeenCalledWith(42, expect.any(String))
+  })
+
+  it('should schedule a retry with backoff when an attempt fails', async () => {
+    vi.mocked(storage.claimEmailQueueJobs).mockResolvedValueOnce([createJob({ attempts: 1 })])
+    queue.handler.mockRejectedValue(new Error('Claude API error'))
+
+    const before = Date.now()
+    queue.startProcessing()
+    await flush()
+
+    expect(storage.retryEmailQueueJob).toHaveBeenCalledWith(42, expect.any(String), expect.any(Date), 'Claude API error')
+    const runAt = vi.mocked(storage.retryEmailQueueJob).mock.calls[0][2] as Date
+    expect(runAt.getTime()).toBeGreaterThanOrEqual(before + 5000)
+    expect(storage.deadLetterEmailQueueJob).not.toHaveBeenCalled()
+  })
+
+  it('should dead-letter a job after its last attempt fails', async () => {
+    const failedSpy = vi.fn()
+    queue.on('emailProcessingFailed', failedSpy)
+    vi.mocked(storage.claimEmailQueueJobs).mockResolvedValueOnce([createJob({ attempts: 3 })])
+    queue.handler.mockRejectedValue(new Error('Still broken'))
+
+    queue.startProcessing()
+    await flush()
+
+    expect(storage.deadLetterEmailQueueJob).toHaveBeenCalledWith(42, expect.any(String), 'Still broken')
+    expect(storage.retryEmailQueueJob).not.toHaveBeenCalled()
+    expect(failedSpy).toHaveBeenCalledWith(expect.objectContaining({ queueId: '42', error: 'Still broken' }))
+  })
+
+  it('should dead-letter a job refused by the AI budget without retrying it', async () => {
+    vi.mocked(storage.claimEmailQueueJobs).mockResolvedValueOnce([createJob({ attempts: 1 })])
+    queue.handler.mockRejectedValue(Object.assign(new Error('Monthly AI budget of $50.00 reached for company 7'), {
+      code: AI_BUDGET_EXCEEDED,
+    }))
+
+    queue.startProcessing()
+    await flush()
+
+    expect(storage.deadLetterEmailQueueJob).toHaveBeenCalledWith(42, expect.any(String), 'Monthly AI budget of $50.00 reached for company 7')
+    expect(storage.retryEmailQueueJob).not.toHaveBeenCalled()
+  })
+
+  it('should dead-letter a reclaimed job that already used its last attempt without running it', async () => {
+    vi.mocked(storage.claimEmailQueueJobs).mockResolvedValueOnce([createJob({ attempts: 4, lastError: 'Worker crashed' })])
+
+    queue.startProcessing()
+    await flush()
+
+    expect(queue.handler).not.toHaveBeenCalled()
+    expect(storage.deadLetterEmailQueueJob).toHaveBeenCalledWith(42, expect.any(String), 'Worker crashed')
+  })
+
+  it('should report counts from the jobs table', async () => {
+    vi.mocked(storage.getEmailQueueJobCounts).mockResolvedValue({ queued: 2, processing: 1, completed: 5, dead_letter: 1 })
+
+    const status = await queue.getQueueStatus()
+
+    expect(status).toMatchObject({ queued: 2, processing: 1, completed: 5, failed: 1, totalInQueue: 3 })
+  })
+})
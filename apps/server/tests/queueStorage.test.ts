@@ -0,0 +1,41 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { PgDialect } from 'drizzle-orm/pg-core'
+import type { SQL } from 'drizzle-orm'
+import { db } from '../src/db'
+import { QueueStorage } from '../src/storage/QueueStorage'
+
+vi.mock('../src/db', () => ({
+  db: { select: vi.fn() },
+}))
+
+describe('QueueStorage.getEmailQueueGroups', () => {
+  const queueStorage = new QueueStorage()
+  let where: SQL | undefined
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    where = undefined
+    const query = {
+      from: vi.fn(() => query),
+      where: vi.fn((condition: SQL) => {
+        where = condition
+        return query
+      }),
+      groupBy: vi.fn(async () => [
+        { groupKey: 'acme', count: 2, oldestCreatedAt: '2026-03-02T12:00:00Z' },
+      ]),
+    }
+    vi.mocked(db.select).mockReturnValue(query as any)
+  })
+
+  it('should find batches left processing by a worker that died', async () => {
+    const groups = await queueStorage.getEmailQueueGroups('t5t_batch')
+
+    expect(groups).toEqual([{ groupKey: 'acme', count: 2, oldestCreatedAt: new Date('2026-03-02T12:00:00Z') }])
+
+    const { sql, params } = new PgDialect().sqlToQuery(where!)
+    expect(sql).toContain('"email_queue_jobs"."status" = $2 or ("email_queue_jobs"."status" = $3 and "email_queue_jobs"."locked_until" < $4)')
+    expect(params.slice(0, 3)).toEqual(['t5t_batch', 'queued', 'processing'])
+    expect(new Date(params[3] as string).getTime()).toBeLessThanOrEqual(Date.now())
+  })
+})
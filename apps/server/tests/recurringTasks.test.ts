@@ -0,0 +1,167 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { recurringTaskScheduler } from '../src/services/recurringTaskScheduler'
+import { nextOccurrence, normalizeRecurrenceRule } from '../src/utils/recurrence'
+import { storage } from '../src/storage'
+import { wsManager } from '../src/services/websocketManager'
+
+vi.mock('../src/storage', () => ({
+  storage: {
+    getRecurringTasksDue: vi.fn(),
+    createTaskOccurrence: vi.fn(),
+    updateTask: vi.fn(),
+  },
+}))
+
+vi.mock('../src/services/websocketManager', () => ({
+  wsManager: {
+    broadcastToProjectUsers: vi.fn(),
+  },
+}))
+
+const date = (iso: string) => new Date(iso)
+
+describe('recurrence rules', () => {
+  it('should normalize loose rules and reject unusable ones', () => {
+    expect(normalizeRecurrenceRule({ frequency: 'Weekly', byWeekday: [5, '1', 9, 1], until: '2026-03-31T12:00:00Z' }))
+      .toEqual({ frequency: 'weekly', interval: 1, byWeekday: [1, 5], until: '2026-03-31' })
+    expect(normalizeRecurrenceRule({ frequency: 'monthly', interval: 0, byMonthDay: 40, count: 3 }))
+      .toEqual({ frequency: 'monthly', interval: 1, count: 3 })
+    expect(normalizeRecurrenceRule({ frequency: 'hourly' })).toBeNull()
+    expect(normalizeRecurrenceRule('daily')).toBeNull()
+  })
+
+  it('should step daily and plain weekly rules by their interval', () => {
+    expect(nextOccurrence({ frequency: 'daily', interval: 1 }, date('2026-01-05T09:00:00Z')))
+      .toEqual(date('2026-01-06T09:00:00Z'))
+    expect(nextOccurrence({ frequency: 'weekly', interval: 2 }, date('2026-01-05T09:00:00Z')))
+      .toEqual(date('2026-01-19T09:00:00Z'))
+  })
+
+  it('should walk weekly rules through their weekdays', () => {
+    const rule = { frequency: 'weekly' as const, interval: 2, byWeekday: [1, 4] }
+
+    // Monday -> Thursday of the same week, then Monday two weeks later
+    expect(nextOccurrence(rule, date('2026-01-05T09:00:00Z'))).toEqual(date('2026-01-08T09:00:00Z'))
+    expect(nextOccurrence(rule, date('2026-01-08T09:00:00Z'))).toEqual(date('2026-01-19T09:00:00Z'))
+  })
+
+  it('should clamp monthly rules to short months', () => {
+    const rule = { frequency: 'monthly' as const, interval: 1, byMonthDay: 31 }
+
+    expect(nextOccurrence(rule, date('2026-01-31T09:00:00Z'))).toEqual(date('2026-02-28T09:00:00Z'))
+    expect(nextOccurrence(rule, date('2026-02-28T09:00:00Z'))).toEqual(date('2026-03-31T09:00:00Z'))
+  })
+
+  it('should stop at the until date and the occurrence count', () => {
+    const until = { frequency: 'daily' as const, interval: 1, until: '2026-01-06' }
+    expect(nextOccurrence(until, date('2026-01-05T09:00:00Z'))).toEqual(date('2026-01-06T09:00:00Z'))
+    expect(nextOccurrence(until, date('2026-01-06T09:00:00Z'))).toBeNull()
+
+    const count = { frequency: 'daily' as const, interval: 1, count: 3 }
+    expect(nextOccurrence(count, date('2026-01-05T09:00:00Z'), 2)).not.toBeNull()
+    expect(nextOccurrence(count, date('2026-01-05T09:00:00Z'), 3)).toBeNull()
+  })
+})
+
+describe('RecurringTaskScheduler', () => {
+  const recurringTask = (overrides = {}) => ({
+    id: 10,
+    projectId: 3,
+    title: 'Send weekly report',
+    description: null,
+    priority: 'medium',
+    status: 'pending',
+    dueDate: date('2026-01-09T17:00:00Z'),
+    sourceEmail: 'tom@company.com',
+    sourceEmailSubject: 'Reports',
+    createdBy: 'user-1',
+    companyId: null,
+    recurrenceRule: { frequency: 'weekly', interval: 1, byWeekday: [5] },
+    recurrenceSeriesId: null,
+    recurrenceIndex: null,
+    recurrenceProcessedAt: null,
+    createdAt: date('2026-01-05T09:00:00Z'),
+    updatedAt: date('2026-01-05T09:00:00Z'),
+    ...overrides,
+  }) as any
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(storage.createTaskOccurrence).mockImplementation(async (_previousTaskId, occurrence) =>
+      ({ id: 11, ...occurrence }) as any)
+  })
+
+  it('should create the next occurrence when one is completed', async () => {
+    const created = await recurringTaskScheduler.handleStatusChange(
+      recurringTask({ status: 'completed' }),
+      date('2026-01-08T12:00:00Z')
+    )
+
+    expect(created?.id).toBe(11)
+    expect(storage.createTaskOccurrence).toHaveBeenCalledWith(10, expect.objectContaining({
+      projectId: 3,
+      title: 'Send weekly report',
+      status: 'pending',
+      dueDate: date('2026-01-16T17:00:00Z'),
+      recurrenceSeriesId: 10,
+      recurrenceIndex: 2,
+    }))
+    expect(wsManager.broadcastToProjectUsers).toHaveBeenCalledWith(
+      expect.objectContaining({ type: 'tasks_created' }),
+      3
+    )
+  })
+
+  it('should ignore open, one-off and already followed-up tasks', async () => {
+    const now = date('2026-01-08T12:00:00Z')
+
+    expect(await recurringTaskScheduler.handleStatusChange(recurringTask({ status: 'in-progress' }), now)).toBeUndefined()
+    expect(await recurringTaskScheduler.handleStatusChange(recurringTask({ status: 'done', recurrenceRule: null }), now)).toBeUndefined()
+    expect(await recurringTaskScheduler.handleStatusChange(
+      recurringTask({ status: 'done', recurrenceProcessedAt: now }),
+      now
+    )).toBeUndefined()
+    expect(storage.createTaskOccurrence).not.toHaveBeenCalled()
+  })
+
+  it('should open the next window for overdue tasks and skip missed occurrences', async () => {
+    vi.mocked(storage.getRecurringTasksDue).mockResolvedValue([
+      recurringTask({ recurrenceSeriesId: 1, recurrenceIndex: 4 }),
+    ])
+
+    const created = await recurringTaskScheduler.generateDueOccurrences(date('2026-01-20T12:00:00Z'))
+
+    expect(created).toHaveLength(1)
+    // Jan 16 has already passed, so the next occurrence is Jan 23 (#6)
+    expect(storage.createTaskOccurrence).toHaveBeenCalledWith(10, expect.objectContaining({
+      dueDate: date('2026-01-23T17:00:00Z'),
+      recurrenceSeriesId: 1,
+      recurrenceIndex: 6,
+    }))
+  })
+
+  it('should mark the task followed up when the series has ended', async () => {
+    const now = date('2026-01-10T12:00:00Z')
+    vi.mocked(storage.getRecurringTasksDue).mockResolvedValue([
+      recurringTask({ recurrenceRule: { frequency: 'weekly', interval: 1, count: 2 }, recurrenceIndex: 2 }),
+    ])
+
+    const created = await recurringTaskScheduler.generateDueOccurrences(now)
+
+    expect(created).toEqual([])
+    expect(storage.createTaskOccurrence).not.toHaveBeenCalled()
+    expect(storage.updateTask).toHaveBeenCalledWith(10, { recurrenceProcessedAt: now })
+  })
+
+  it('should pin monthly series to the day they started on', async () => {
+    await recurringTaskScheduler.handleStatusChange(
+      recurringTask({ status: 'done', dueDate: date('2026-01-31T09:00:00Z'), recurrenceRule: { frequency: 'monthly', interval: 1 } }),
+      date('2026-01-31T10:00:00Z')
+    )
+
+    expect(storage.createTaskOccurrence).toHaveBeenCalledWith(10, expect.objectContaining({
+      dueDate: date('2026-02-28T09:00:00Z'),
+      recurrenceRule: { frequency: 'monthly', interval: 1, byMonthDay: 31 },
+    }))
+  })
+})
@@ -0,0 +1,34 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { PgDialect } from 'drizzle-orm/pg-core'
+import type { SQL } from 'drizzle-orm'
+import { db } from '../src/db'
+import { DatabaseStorage } from '../src/storage/DatabaseStorage'
+
+vi.mock('../src/db', () => ({
+  db: { execute: vi.fn() },
+}))
+
+function renderedQueries() {
+  const dialect = new PgDialect()
+  return vi.mocked(db.execute).mock.calls.map(([query]) => dialect.sqlToQuery(query as SQL))
+}
+
+describe('DatabaseStorage.searchContent scope', () => {
+  const storage = new DatabaseStorage()
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(db.execute).mockResolvedValue([] as any)
+  })
+
+  it('should only search company projects the user created or takes part in', async () => {
+    await storage.searchContent('roadmap', { userId: 'user-1', companyId: 12 })
+
+    for (const { sql, params } of renderedQueries()) {
+      const visibleProjects = sql.slice(sql.indexOf('visible_projects AS'), sql.indexOf('matches AS'))
+      expect(visibleProjects).toContain('p.company_id = $')
+      expect(visibleProjects).toMatch(/AND \(p\.created_by = \$\d+ OR EXISTS \(\s*SELECT 1 FROM project_participants pp WHERE pp\.project_id = p\.id AND pp\.user_id = \$\d+\)\)/)
+      expect(params).toContain('user-1')
+    }
+  })
+})
@@ -0,0 +1,105 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import request from 'supertest';
+import express from 'express';
+import { registerSearchRoutes } from '../src/routes/search';
+import { storage } from '../src/storage';
+
+vi.mock('../src/googleAuth', () => ({
+  isAuthenticated: vi.fn((req: any, res: any, next: any) => {
+    req.user = { id: 'test-user-123' };
+    next();
+  })
+}));
+
+vi.mock('../src/storage', () => ({
+  storage: {
+    searchContent: vi.fn(),
+    getCompanyMembership: vi.fn(),
+  },
+}));
+
+const emptyResults = (query: string) => ({
+  query,
+  total: 0,
+  hits: [],
+  facets: { sourceType: [], agentType: [], month: [] },
+});
+
+describe('Search Routes', () => {
+  let app: express.Application;
+
+  beforeEach(() => {
+    app = express();
+    app.use(express.json());
+    registerSearchRoutes(app);
+    vi.clearAllMocks();
+    vi.mocked(storage.searchContent).mockImplementation(async (query: string) => emptyResults(query));
+  });
+
+  it('should search the individual context with parsed filters', async () => {
+    vi.mocked(storage.searchContent).mockResolvedValue({
+      query: 'invoice',
+      total: 1,
+      hits: [{
+        sourceType: 'task',
+        id: 7,
+        title: 'Pay invoice',
+        snippet: 'Pay the <mark>invoice</mark> by Friday',
+        agentType: 'todo',
+        projectId: 3,
+        date: '2026-03-01T00:00:00.000Z',
+        rank: 0.6,
+      }],
+      facets: { sourceType: [{ value: 'task', count: 1 }], agentType: [{ value: 'todo', count: 1 }], month: [{ value: '2026-03', count: 1 }] },
+    });
+
+    const response = await request(app)
+      .get('/api/search')
+      .query({ q: ' invoice ', sources: 'task,email', agent: 'todo', from: '2026-01-01', limit: '500' })
+      .expect(200);
+
+    expect(response.body.hits[0]).toMatchObject({ sourceType: 'task', id: 7, projectId: 3 });
+    expect(storage.searchContent).toHaveBeenCalledWith(
+      'invoice',
+      { userId: 'test-user-123', companyId: null },
+      { sources: ['task', 'email'], agentType: 'todo', from: new Date('2026-01-01') },
+      50,
+      0
+    );
+  });
+
+  it('should scope searches to a company the user belongs to', async () => {
+    vi.mocked(storage.getCompanyMembership).mockResolvedValue({ id: 1, companyId: 12, userId: 'test-user-123', isActive: true } as any);
+
+    await request(app).get('/api/search').set('x-company-id', '12').query({ q: 'roadmap' }).expect(200);
+
+    expect(storage.getCompanyMembership).toHaveBeenCalledWith(12, 'test-user-123');
+    expect(storage.searchContent).toHaveBeenCalledWith('roadmap', { userId: 'test-user-123', companyId: 12 }, {}, 20, 0);
+  });
+
+  it('should refuse companies the user is not a member of', async () => {
+    vi.mocked(storage.getCompanyMembership).mockResolvedValue(undefined as any);
+
+    await request(app).get('/api/search').set('x-company-id', '99').query({ q: 'roadmap' }).expect(403);
+
+    expect(storage.searchContent).not.toHaveBeenCalled();
+  });
+
+  it('should reject short queries and unknown filters', async () => {
+    await request(app).get('/api/search').query({ q: 'a' }).expect(400);
+    const badSource = await request(app).get('/api/search').query({ q: 'invoice', sources: 'task,calendar' }).expect(400);
+    const badDate = await request(app).get('/api/search').query({ q: 'invoice', to: 'someday' }).expect(400);
+
+    expect(badSource.body.message).toBe('Unknown source type: calendar');
+    expect(badDate.body.message).toBe('Invalid to date');
+    expect(storage.searchContent).not.toHaveBeenCalled();
+  });
+
+  it('should return 500 when the search fails', async () => {
+    vi.mocked(storage.searchContent).mockRejectedValue(new Error('connection lost'));
+
+    const response = await request(app).get('/api/search').query({ q: 'invoice' }).expect(500);
+
+    expect(response.body.message).toBe('Failed to search');
+  });
+});
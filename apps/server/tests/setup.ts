@@ -1,9 +1,14 @@
 import { beforeAll, afterAll } from 'vitest'
+import { fileURLToPath } from 'url'
 import dotenv from 'dotenv'
 
 // Load environment variables
 dotenv.config()
 
+// Never call a real model from tests: prompts are answered from the fixtures in tests/fixtures/llm
+process.env.LLM_PROVIDER = 'fixture'
+process.env.LLM_FIXTURES_DIR = fileURLToPath(new URL('./fixtures/llm', import.meta.url))
+
 // Global test setup
 beforeAll(async () => {
   console.log('🧪 Setting up test environment...')
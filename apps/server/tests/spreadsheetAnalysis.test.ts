@@ -0,0 +1,167 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import JSZip from 'jszip'
+import { detectSpreadsheetFormat, findOutliers, parseCsv, profileSheet, profileSpreadsheet } from '../src/utils/spreadsheet'
+import { analyzeSpreadsheet } from '../src/services/analyzer/spreadsheetAnalysisService'
+import { claudeService } from '../src/services/claudeService'
+
+vi.mock('../src/services/claudeService', () => ({
+  claudeService: { sendMessage: vi.fn() },
+}))
+
+const BUDGET_CSV = `Item;Amount;Approved;Due
+"Laptops; 5 units";4200;yes;2026-02-01
+Office rent;1800;yes;2026-01-15
+Coffee;120;no;
+Travel;950;yes;2026-03-10
+"Team ""offsite""";22000;no;2026-04-20
+`
+
+async function buildXlsx(): Promise<Buffer> {
+  const zip = new JSZip()
+  zip.file('xl/workbook.xml', `<workbook><sheets><sheet name="Q1 &amp; Q2" sheetId="1" r:id="rId1"/></sheets></workbook>`)
+  zip.file('xl/_rels/workbook.xml.rels', `<Relationships><Relationship Id="rId1" Target="worksheets/sheet1.xml"/></Relationships>`)
+  zip.file('xl/sharedStrings.xml', `<sst><si><t>Region</t></si><si><t>Revenue</t></si><si><t>Closed</t></si><si><r><t>No</t></r><r><t>rth</t></r></si><si><t>South</t></si></sst>`)
+  zip.file('xl/styles.xml', `<styleSheet><cellXfs count="2"><xf numFmtId="0"/><xf numFmtId="14"/></cellXfs></styleSheet>`)
+  zip.file('xl/worksheets/sheet1.xml', `<worksheet><sheetData>
+    <row r="1"><c r="A1" t="s"><v>0</v></c><c r="B1" t="s"><v>1</v></c><c r="C1" t="s"><v>2</v></c></row>
+    <row r="2"><c r="A2" t="s"><v>3</v></c><c r="B2"><v>1500.5</v></c><c r="C2" s="1"><v>46023</v></c></row>
+    <row r="4"><c r="A4" t="s"><v>4</v></c><c r="C4" s="1"><v>46054</v></c></row>
+  </sheetData></worksheet>`)
+  return zip.generateAsync({ type: 'nodebuffer' })
+}
+
+async function buildOds(): Promise<Buffer> {
+  const zip = new JSZip()
+  zip.file('content.xml', `<office:document-content><office:body><office:spreadsheet>
+    <table:table table:name="Stock"><table:table-column table:number-columns-repeated="3"/>
+      <table:table-row><table:table-cell office:value-type="string"><text:p>SKU</text:p></table:table-cell><table:table-cell office:value-type="string"><text:p>Qty</text:p></table:table-cell><table:table-cell table:number-columns-repeated="1021"/></table:table-row>
+      <table:table-row table:number-rows-repeated="2"><table:table-cell office:value-type="string"><text:p>A<text:s text:c="2"/>1</text:p></table:table-cell><table:table-cell office:value-type="float" office:value="7"/></table:table-row>
+      <table:table-row table:number-rows-repeated="1048573"><table:table-cell table:number-columns-repeated="1024"/></table:table-row>
+    </table:table>
+  </office:spreadsheet></office:body></office:document-content>`)
+  return zip.generateAsync({ type: 'nodebuffer' })
+}
+
+describe('spreadsheet parsing', () => {
+  it('should detect formats by extension before content type', () => {
+    expect(detectSpreadsheetFormat('application/vnd.ms-excel', 'export.csv')).toBe('csv')
+    expect(detectSpreadsheetFormat('application/octet-stream', 'Budget.XLSX')).toBe('xlsx')
+    expect(detectSpreadsheetFormat('application/vnd.oasis.opendocument.spreadsheet', 'stock')).toBe('ods')
+    expect(detectSpreadsheetFormat('application/vnd.ms-excel', 'legacy.xls')).toBeNull()
+  })
+
+  it('should parse quoted CSV fields with a sniffed delimiter', () => {
+    const rows = parseCsv(BUDGET_CSV)
+
+    expect(rows).toHaveLength(6)
+    expect(rows[1]).toEqual(['Laptops; 5 units', '4200', 'yes', '2026-02-01'])
+    expect(rows[5][0]).toBe('Team "offsite"')
+    expect(parseCsv('a,b\r\n"line\nbreak",2')).toEqual([['a', 'b'], ['line\nbreak', '2']])
+  })
+
+  it('should profile typed columns with nulls, ranges and outliers', () => {
+    const sheet = profileSheet('Budget', parseCsv(BUDGET_CSV))
+    const [item, amount, approved, due] = sheet.columns
+
+    expect(sheet.rowCount).toBe(5)
+    expect(item).toMatchObject({ name: 'Item', type: 'text', distinctCount: 5 })
+    expect(amount).toMatchObject({ type: 'number', min: 120, max: 22000, mean: 5814, outliers: [22000] })
+    expect(approved).toMatchObject({ type: 'boolean', distinctCount: 2 })
+    expect(due).toMatchObject({ type: 'date', nullCount: 1, min: '2026-01-15', max: '2026-04-20' })
+  })
+
+  it('should only flag values beyond 1.5 IQR', () => {
+    expect(findOutliers([10, 11, 12, 13, 14])).toEqual([])
+    expect(findOutliers([-50, 10, 11, 12, 13, 14, 90])).toEqual([-50, 90])
+    expect(findOutliers([1, 1000])).toEqual([])
+  })
+
+  it('should read XLSX shared strings, gaps and date-formatted cells', async () => {
+    const profile = await profileSpreadsheet(await buildXlsx(), 'xlsx')
+    const [sheet] = profile.sheets
+
+    expect(sheet.name).toBe('Q1 & Q2')
+    expect(sheet.rowCount).toBe(2)
+    expect(sheet.columns.map(column => [column.name, column.type])).toEqual([
+      ['Region', 'text'], ['Revenue', 'number'], ['Closed', 'date'],
+    ])
+    expect(sheet.columns[1].nullCount).toBe(1)
+    expect(sheet.columns[2]).toMatchObject({ min: '2026-01-01', max: '2026-02-01' })
+    expect(sheet.sampleRows[0]).toEqual(['North', '1500.5', '2026-01-01'])
+  })
+
+  it('should reject XLSX and ODS parts that inflate past the size limit', async () => {
+    const bomb = async (path: string) => {
+      const zip = new JSZip()
+      zip.file(path, `<workbook>${' '.repeat(65 * 1024 * 1024)}</workbook>`)
+      return zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' })
+    }
+
+    await expect(profileSpreadsheet(await bomb('xl/workbook.xml'), 'xlsx')).rejects.toThrow('inflates past')
+    await expect(profileSpreadsheet(await bomb('content.xml'), 'ods')).rejects.toThrow('inflates past')
+  })
+
+  it('should reject archives with too many entries', async () => {
+    const zip = new JSZip()
+    for (let i = 0; i <= 10000; i++) zip.file(`xl/media/${i}.txt`, '')
+
+    await expect(profileSpreadsheet(await zip.generateAsync({ type: 'nodebuffer' }), 'xlsx')).rejects.toThrow('entries, more than')
+  })
+
+  it('should expand repeated ODS rows without materializing blank padding', async () => {
+    const profile = await profileSpreadsheet(await buildOds(), 'ods')
+    const [sheet] = profile.sheets
+
+    expect(profile.truncated).toBe(false)
+    expect(sheet.rowCount).toBe(2)
+    expect(sheet.columns.map(column => column.name)).toEqual(['SKU', 'Qty'])
+    expect(sheet.sampleRows).toEqual([['A  1', '7'], ['A  1', '7']])
+  })
+})
+
+describe('analyzeSpreadsheet', () => {
+  const attachment = { filename: 'budget.csv', contentType: 'text/csv' }
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  it('should ground the Claude summary in the computed profile', async () => {
+    vi.mocked(claudeService.sendMessage).mockResolvedValue(JSON.stringify({
+      summary: 'Five budget lines totalling 29,070, dominated by the offsite.',
+      keyPoints: ['Team offsite (22,000) is an outlier'],
+      documentType: 'Budget',
+    }))
+
+    const analysis = await analyzeSpreadsheet(attachment, Buffer.from(BUDGET_CSV), { subject: 'Q1 budget', body: '' })
+
+    const prompt = vi.mocked(claudeService.sendMessage).mock.calls[0][0]
+    expect(prompt).toContain('Sheet "Sheet1": 5 data rows, 4 columns')
+    expect(prompt).toContain('- Amount: number; 0 empty; 5 distinct; min 120; max 22000; mean 5814; outliers 22000')
+    expect(analysis).toMatchObject({
+      summary: 'Five budget lines totalling 29,070, dominated by the offsite.',
+      keyPoints: ['Team offsite (22,000) is an outlier'],
+      documentType: 'Budget',
+      llmEnhanced: true,
+      contentAnalysis: { dataFormat: 'csv', rowCount: 5 },
+    })
+    expect(analysis.spreadsheet.sheets[0].columns).toHaveLength(4)
+  })
+
+  it('should fall back to profile-based key points when Claude fails', async () => {
+    vi.mocked(claudeService.sendMessage).mockRejectedValue(new Error('Claude API error'))
+
+    const analysis = await analyzeSpreadsheet(attachment, Buffer.from(BUDGET_CSV))
+
+    expect(analysis.llmEnhanced).toBe(false)
+    expect(analysis.summary).toBe('budget.csv contains 1 sheet(s): "Sheet1" (5 rows × 4 columns).')
+    expect(analysis.keyPoints).toContain('Amount has outlying values: 22000')
+    expect(analysis.keyPoints).toContain('Due is empty in 1 of 5 rows')
+  })
+
+  it('should leave unsupported or corrupt files to the caller', async () => {
+    expect(await analyzeSpreadsheet({ filename: 'old.xls', contentType: 'application/vnd.ms-excel' }, Buffer.from('x'))).toBeNull()
+    expect(await analyzeSpreadsheet({ filename: 'broken.xlsx', contentType: '' }, Buffer.from('not a zip'))).toBeNull()
+    expect(claudeService.sendMessage).not.toHaveBeenCalled()
+  })
+})
@@ -7,7 +7,7 @@ import { registerCompanyRoutes } from '../src/routes/companies';
 // Mock all dependencies
 vi.mock('../src/googleAuth', () => ({
   isAuthenticated: vi.fn((req: any, res: any, next: any) => {
-    req.user = { id: 'integration-test-user' };
+    req.user = { id: 'integration-test-user', email: 'integration-admin@example.com' };
     next();
   })
 }));
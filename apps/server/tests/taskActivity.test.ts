@@ -0,0 +1,133 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { taskActivityService } from '../src/services/taskActivityService'
+import { findTasksInReply, formatTaskMarker } from '../src/utils/taskMentions'
+import { storage } from '../src/storage'
+import { sendMail } from '../src/services/mailer'
+import { createMockEmail } from './helpers'
+
+vi.mock('../src/storage', () => ({
+  storage: {
+    createTaskActivity: vi.fn(),
+    getTaskAssignees: vi.fn(),
+    getUser: vi.fn(),
+    getNotificationPreferences: vi.fn(),
+    getProject: vi.fn(),
+  },
+}))
+
+vi.mock('../src/services/mailer', () => ({
+  sendMail: vi.fn(),
+}))
+
+const makeTask = (id: number, overrides = {}) => ({
+  id,
+  projectId: 4,
+  title: `Task ${id}`,
+  status: 'pending',
+  dueDate: null,
+  sourceEmailSubject: 'Launch plan',
+  ...overrides,
+}) as any
+
+const users: Record<string, any> = {
+  'user-1': { id: 'user-1', email: 'alice@company.com', firstName: 'Alice', lastName: 'Smith' },
+  'user-2': { id: 'user-2', email: 'bob@company.com', firstName: 'Bob' },
+  'user-3': { id: 'user-3', email: 'carol@company.com', firstName: 'Carol' },
+}
+
+describe('findTasksInReply', () => {
+  const tasks = [
+    makeTask(1, { title: 'Update the pricing page' }),
+    makeTask(2, { title: 'Prepare launch email', status: 'completed' }),
+    makeTask(3, { title: 'QA' }),
+  ]
+
+  it('should prefer task markers from the quoted notification', () => {
+    const body = `Sounds good!\n\n> Alice commented on ${formatTaskMarker(2)} Prepare launch email:`
+    expect(findTasksInReply(body, 'Sounds good!', tasks).map(task => task.id)).toEqual([2])
+  })
+
+  it('should fall back to task titles mentioned in the reply', () => {
+    const reply = 'I will update the pricing page tomorrow, QA can wait'
+    expect(findTasksInReply(reply, reply, tasks).map(task => task.id)).toEqual([1])
+  })
+
+  it('should only guess when the thread has a single open task', () => {
+    expect(findTasksInReply('Thanks!', 'Thanks!', tasks)).toEqual([])
+    expect(findTasksInReply('Thanks!', 'Thanks!', tasks.slice(0, 2)).map(task => task.id)).toEqual([1])
+  })
+})
+
+describe('TaskActivityService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(storage.createTaskActivity).mockImplementation(async (activity: any) => ({ id: 50, ...activity }))
+    vi.mocked(storage.getUser).mockImplementation(async (id: string) => users[id])
+    vi.mocked(storage.getNotificationPreferences).mockResolvedValue(undefined)
+    vi.mocked(storage.getProject).mockResolvedValue({ id: 4, topic: '<thread-root@mail.example.com>' } as any)
+    vi.mocked(sendMail).mockResolvedValue(true)
+  })
+
+  it('should record status and due date changes', async () => {
+    const before = makeTask(1, { dueDate: new Date('2026-02-01T00:00:00Z') })
+    const after = makeTask(1, { status: 'in-progress', dueDate: new Date('2026-02-08T00:00:00Z') })
+
+    const recorded = await taskActivityService.recordChanges(before, after, 'user-1')
+
+    expect(recorded).toHaveLength(2)
+    expect(storage.createTaskActivity).toHaveBeenCalledWith(expect.objectContaining({
+      taskId: 1, userId: 'user-1', type: 'status_change', fromValue: 'pending', toValue: 'in-progress', source: 'web',
+    }))
+    expect(storage.createTaskActivity).toHaveBeenCalledWith(expect.objectContaining({
+      type: 'due_date_change', fromValue: '2026-02-01T00:00:00.000Z', toValue: '2026-02-08T00:00:00.000Z',
+    }))
+  })
+
+  it('should not fail the change when the history cannot be written', async () => {
+    vi.mocked(storage.createTaskActivity).mockRejectedValue(new Error('db down'))
+
+    await expect(taskActivityService.recordChanges(makeTask(1), makeTask(1, { status: 'done' }), null, 'system'))
+      .resolves.toEqual([])
+  })
+
+  it('should mail board comments to the other assignees in the original thread', async () => {
+    vi.mocked(storage.getTaskAssignees).mockResolvedValue([
+      { id: 1, taskId: 1, userId: 'user-1' },
+      { id: 2, taskId: 1, userId: 'user-2' },
+      { id: 3, taskId: 1, userId: 'user-3' },
+    ] as any)
+    vi.mocked(storage.getNotificationPreferences).mockImplementation(async (id: string) =>
+      (id === 'user-3' ? { emailNotifications: false } : undefined) as any)
+
+    const comment = await taskActivityService.addComment(makeTask(1), users['user-1'], 'Copy is ready for review')
+
+    expect(comment).toMatchObject({ taskId: 1, type: 'comment', body: 'Copy is ready for review' })
+    expect(sendMail).toHaveBeenCalledWith(expect.objectContaining({
+      to: ['bob@company.com'],
+      subject: 'Re: Launch plan',
+      inReplyTo: '<thread-root@mail.example.com>',
+      references: ['<thread-root@mail.example.com>'],
+      text: expect.stringContaining('Alice Smith commented on [Task #1] Task 1'),
+    }))
+  })
+
+  it('should add thread replies as comments on the task they are about', async () => {
+    const email = createMockEmail({
+      from: 'bob@company.com',
+      subject: 'Re: Launch plan',
+      body: 'Done on my side.\n\nOn Mon, Jan 5, 2026 at 9:00 AM <todo@inboxleap.com> wrote:\n> Alice commented on [Task #2] Task 2:',
+    })
+
+    const tasks = await taskActivityService.recordEmailReply(email, 'user-2', [makeTask(1), makeTask(2)])
+
+    expect(tasks.map(task => task.id)).toEqual([2])
+    expect(storage.createTaskActivity).toHaveBeenCalledWith(expect.objectContaining({
+      taskId: 2,
+      userId: 'user-2',
+      type: 'comment',
+      source: 'email',
+      body: 'Done on my side.',
+      emailMessageId: email.messageId,
+    }))
+  })
+})
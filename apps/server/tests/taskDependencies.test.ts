@@ -0,0 +1,160 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { taskDependencyService } from '../src/services/taskDependencyService'
+import { wouldCreateCycle, resolveBlockedStatus, sanitizeDependsOn } from '../src/utils/taskDependencies'
+import { storage } from '../src/storage'
+
+vi.mock('../src/storage', () => ({
+  storage: {
+    getTask: vi.fn(),
+    updateTask: vi.fn(),
+    addTaskDependency: vi.fn(),
+    removeTaskDependency: vi.fn(),
+    getTaskDependencies: vi.fn(),
+    getTaskDependents: vi.fn(),
+    getProjectTaskDependencies: vi.fn(),
+    createTaskActivity: vi.fn(),
+  },
+}))
+
+const makeTask = (id: number, overrides = {}) => ({
+  id,
+  projectId: 1,
+  title: `Task ${id}`,
+  status: 'pending',
+  ...overrides,
+}) as any
+
+// In-memory task table and dependency edges behind the mocked storage
+let tasks: Map<number, any>
+let edges: Array<{ id: number; taskId: number; dependsOnTaskId: number }>
+
+describe('task dependency helpers', () => {
+  it('should detect direct, transitive and self cycles', () => {
+    const graph = [
+      { taskId: 2, dependsOnTaskId: 1 },
+      { taskId: 3, dependsOnTaskId: 2 },
+    ]
+
+    expect(wouldCreateCycle(graph, 1, 3)).toBe(true)
+    expect(wouldCreateCycle(graph, 1, 2)).toBe(true)
+    expect(wouldCreateCycle(graph, 4, 4)).toBe(true)
+    expect(wouldCreateCycle(graph, 3, 1)).toBe(false)
+    expect(wouldCreateCycle(graph, 4, 3)).toBe(false)
+  })
+
+  it('should block open tasks and only release tasks it blocked', () => {
+    expect(resolveBlockedStatus('pending', true)).toBe('blocked')
+    expect(resolveBlockedStatus('in-progress', true)).toBe('blocked')
+    expect(resolveBlockedStatus('blocked', true)).toBeNull()
+    expect(resolveBlockedStatus('completed', true)).toBeNull()
+    expect(resolveBlockedStatus('blocked', false)).toBe('pending')
+    expect(resolveBlockedStatus('in-progress', false)).toBeNull()
+  })
+
+  it('should keep only valid positions of other tasks in the batch', () => {
+    expect(sanitizeDependsOn([0, '1', 1, 2, 5, -1, 1.5], 2, 3)).toEqual([0, 1])
+    expect(sanitizeDependsOn(undefined, 0, 3)).toEqual([])
+    expect(sanitizeDependsOn('0', 1, 3)).toEqual([])
+  })
+})
+
+describe('TaskDependencyService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    tasks = new Map([1, 2, 3].map(id => [id, makeTask(id)]))
+    edges = []
+
+    vi.mocked(storage.getTask).mockImplementation(async (id: number) => tasks.get(id))
+    vi.mocked(storage.updateTask).mockImplementation(async (id: number, updates: any) => {
+      const task = { ...tasks.get(id), ...updates }
+      tasks.set(id, task)
+      return task
+    })
+    vi.mocked(storage.addTaskDependency).mockImplementation(async (taskId: number, dependsOnTaskId: number) => {
+      const edge = { id: edges.length + 1, taskId, dependsOnTaskId, createdAt: new Date() }
+      edges.push(edge)
+      return edge as any
+    })
+    vi.mocked(storage.removeTaskDependency).mockImplementation(async (taskId: number, dependsOnTaskId: number) => {
+      edges = edges.filter(edge => !(edge.taskId === taskId && edge.dependsOnTaskId === dependsOnTaskId))
+    })
+    vi.mocked(storage.getTaskDependencies).mockImplementation(async (taskId: number) =>
+      edges.filter(edge => edge.taskId === taskId) as any)
+    vi.mocked(storage.getTaskDependents).mockImplementation(async (taskId: number) =>
+      edges.filter(edge => edge.dependsOnTaskId === taskId) as any)
+    vi.mocked(storage.getProjectTaskDependencies).mockImplementation(async () => edges as any)
+  })
+
+  it('should block a task while its predecessor is open', async () => {
+    const result = await taskDependencyService.addDependency(2, 1)
+
+    expect(result.success).toBe(true)
+    expect(storage.addTaskDependency).toHaveBeenCalledWith(2, 1)
+    expect(result.updatedTasks.map(task => [task.id, task.status])).toEqual([[2, 'blocked']])
+  })
+
+  it('should not block a task whose predecessor is already done', async () => {
+    tasks.set(1, makeTask(1, { status: 'completed' }))
+
+    const result = await taskDependencyService.addDependency(2, 1)
+
+    expect(result.success).toBe(true)
+    expect(result.updatedTasks).toEqual([])
+    expect(tasks.get(2).status).toBe('pending')
+  })
+
+  it('should reject cycles and cross-project dependencies', async () => {
+    await taskDependencyService.addDependency(2, 1)
+    await taskDependencyService.addDependency(3, 2)
+
+    const cycle = await taskDependencyService.addDependency(1, 3)
+    expect(cycle.success).toBe(false)
+    expect(cycle.error).toContain('already depends on')
+
+    tasks.set(4, makeTask(4, { projectId: 2 }))
+    const crossProject = await taskDependencyService.addDependency(4, 1)
+    expect(crossProject.success).toBe(false)
+    expect(storage.addTaskDependency).toHaveBeenCalledTimes(2)
+  })
+
+  it('should release dependents once the last predecessor completes', async () => {
+    await taskDependencyService.addDependency(3, 1)
+    await taskDependencyService.addDependency(3, 2)
+
+    tasks.set(1, { ...tasks.get(1), status: 'completed' })
+    expect(await taskDependencyService.refreshDependents(1)).toEqual([])
+    expect(tasks.get(3).status).toBe('blocked')
+
+    tasks.set(2, { ...tasks.get(2), status: 'done' })
+    const released = await taskDependencyService.refreshDependents(2)
+    expect(released.map(task => [task.id, task.status])).toEqual([[3, 'pending']])
+  })
+
+  it('should release a task when its last open dependency is removed', async () => {
+    await taskDependencyService.addDependency(2, 1)
+
+    const updated = await taskDependencyService.removeDependency(2, 1)
+
+    expect(updated.map(task => [task.id, task.status])).toEqual([[2, 'pending']])
+  })
+
+  it('should link tasks extracted from one email by their positions', async () => {
+    const created = [tasks.get(1), undefined, tasks.get(3)]
+
+    await taskDependencyService.linkExtractedTasks(created, [{}, { dependsOn: [0] }, { dependsOn: [0, 1] }])
+
+    expect(storage.addTaskDependency).toHaveBeenCalledTimes(1)
+    expect(storage.addTaskDependency).toHaveBeenCalledWith(3, 1)
+    expect(tasks.get(3).status).toBe('blocked')
+  })
+
+  it('should summarize dependencies for every task of a project', async () => {
+    await taskDependencyService.addDependency(2, 1)
+    await taskDependencyService.addDependency(3, 2)
+
+    const summaries = await taskDependencyService.getProjectSummaries(1, [...tasks.values()])
+
+    expect(summaries.get(1)).toEqual({ dependencies: [], dependents: [{ id: 2, title: 'Task 2', status: 'blocked' }] })
+    expect(summaries.get(3)!.dependencies.map(task => task.id)).toEqual([2])
+  })
+})
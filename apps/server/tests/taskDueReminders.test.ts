@@ -0,0 +1,132 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { storage } from '../src/storage'
+import { sendMail } from '../src/services/mailer'
+import { TaskNotificationService } from '../src/services/taskNotificationService'
+import { currentReminderOffset, formatTimeUntilDue, parseTaskDueReminderOffsets } from '../src/utils/taskDueReminders'
+
+vi.mock('../src/storage', () => ({
+  storage: {
+    getTaskDueReminderCandidates: vi.fn(),
+    getNotificationPreferences: vi.fn(),
+    getTrustRelationship: vi.fn(),
+    claimTaskDueReminder: vi.fn(),
+    releaseTaskDueReminder: vi.fn(),
+  },
+}))
+
+vi.mock('../src/services/mailer', () => ({
+  sendMail: vi.fn(),
+}))
+
+const NOW = new Date('2026-03-02T12:00:00Z')
+const HOUR = 60 * 60 * 1000
+const OFFSETS = parseTaskDueReminderOffsets('24h,1h,overdue')
+
+function candidate(dueInMs: number, overrides: { createdBy?: string } = {}) {
+  return {
+    task: {
+      id: 11,
+      projectId: 3,
+      title: 'Send <invoice>',
+      description: null,
+      status: 'pending',
+      dueDate: new Date(NOW.getTime() + dueInMs),
+      createdBy: overrides.createdBy ?? 'boss-1',
+    } as any,
+    projectName: 'Billing',
+    assignee: { id: 'user-1', email: 'ana@example.com', firstName: 'Ana' } as any,
+  }
+}
+
+describe('task due reminder offsets', () => {
+  it('should parse the schedule longest lead first', () => {
+    expect(parseTaskDueReminderOffsets('overdue, 1h,2d,30m')).toEqual([
+      { key: '2d', leadMs: 48 * HOUR },
+      { key: '1h', leadMs: HOUR },
+      { key: '30m', leadMs: HOUR / 2 },
+      { key: 'overdue', leadMs: 0 },
+    ])
+    expect(() => parseTaskDueReminderOffsets('24h,soon')).toThrow('Invalid task due reminder offset "soon"')
+    expect(() => parseTaskDueReminderOffsets('0h')).toThrow('Invalid')
+  })
+
+  it('should pick the latest reminder reached', () => {
+    expect(currentReminderOffset(new Date(NOW.getTime() + 30 * HOUR), OFFSETS, NOW)).toBeUndefined()
+    expect(currentReminderOffset(new Date(NOW.getTime() + 20 * HOUR), OFFSETS, NOW)?.key).toBe('24h')
+    expect(currentReminderOffset(new Date(NOW.getTime() + HOUR / 2), OFFSETS, NOW)?.key).toBe('1h')
+    expect(currentReminderOffset(new Date(NOW.getTime() - HOUR), OFFSETS, NOW)?.key).toBe('overdue')
+    expect(currentReminderOffset(new Date(NOW.getTime() - HOUR), parseTaskDueReminderOffsets('24h,1h'), NOW)).toBeUndefined()
+  })
+
+  it('should describe the time left', () => {
+    expect(formatTimeUntilDue(new Date(NOW.getTime() + 45 * 60 * 1000), NOW)).toBe('45 minutes')
+    expect(formatTimeUntilDue(new Date(NOW.getTime() + HOUR), NOW)).toBe('1 hour')
+    expect(formatTimeUntilDue(new Date(NOW.getTime() + 72 * HOUR), NOW)).toBe('3 days')
+  })
+})
+
+describe('TaskNotificationService.sendTaskDueReminders', () => {
+  const service = new TaskNotificationService()
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(sendMail).mockResolvedValue(true)
+    vi.mocked(storage.claimTaskDueReminder).mockResolvedValue(true)
+    vi.mocked(storage.getTrustRelationship).mockResolvedValue(undefined)
+    vi.mocked(storage.getNotificationPreferences).mockResolvedValue({
+      emailNotifications: true,
+      taskDueReminders: true,
+      timezone: 'Europe/Berlin',
+    } as any)
+  })
+
+  it('should claim and send the reminder due now', async () => {
+    vi.mocked(storage.getTaskDueReminderCandidates).mockResolvedValue([candidate(3 * HOUR)])
+
+    const result = await service.sendTaskDueReminders(OFFSETS, NOW)
+
+    expect(result).toEqual({ sent: 1, skipped: 0, failed: 0 })
+    expect(storage.getTaskDueReminderCandidates).toHaveBeenCalledWith(new Date(NOW.getTime() - 24 * HOUR), new Date(NOW.getTime() + 24 * HOUR))
+    expect(storage.claimTaskDueReminder).toHaveBeenCalledWith({
+      taskId: 11,
+      userId: 'user-1',
+      offsetKey: '24h',
+      dueDate: new Date(NOW.getTime() + 3 * HOUR),
+    })
+    const mail = vi.mocked(sendMail).mock.calls[0][0]
+    expect(mail.subject).toBe('⏰ Task due in 3 hours: Send <invoice>')
+    expect(mail.html).toContain('Send &lt;invoice&gt;')
+    expect(mail.html).toContain('Mar 2, 2026, 4:00 PM GMT+1')
+  })
+
+  it('should not send a reminder twice', async () => {
+    vi.mocked(storage.getTaskDueReminderCandidates).mockResolvedValue([candidate(-HOUR)])
+    vi.mocked(storage.claimTaskDueReminder).mockResolvedValue(false)
+
+    expect(await service.sendTaskDueReminders(OFFSETS, NOW)).toEqual({ sent: 0, skipped: 0, failed: 0 })
+    expect(sendMail).not.toHaveBeenCalled()
+  })
+
+  it('should respect due reminder preferences and trust blocks', async () => {
+    vi.mocked(storage.getTaskDueReminderCandidates).mockResolvedValue([candidate(HOUR / 2)])
+    vi.mocked(storage.getNotificationPreferences).mockResolvedValueOnce({ emailNotifications: true, taskDueReminders: false } as any)
+
+    expect(await service.sendTaskDueReminders(OFFSETS, NOW)).toEqual({ sent: 0, skipped: 1, failed: 0 })
+
+    vi.mocked(storage.getTrustRelationship).mockResolvedValue({ trustStatus: 'blocked' } as any)
+
+    expect(await service.sendTaskDueReminders(OFFSETS, NOW)).toEqual({ sent: 0, skipped: 1, failed: 0 })
+    expect(storage.getTrustRelationship).toHaveBeenCalledWith('user-1', 'boss-1')
+    expect(storage.claimTaskDueReminder).not.toHaveBeenCalled()
+    expect(sendMail).not.toHaveBeenCalled()
+  })
+
+  it('should release the claim when delivery fails so the next run retries', async () => {
+    vi.mocked(storage.getTaskDueReminderCandidates).mockResolvedValue([candidate(-HOUR, { createdBy: 'user-1' })])
+    vi.mocked(sendMail).mockResolvedValue(false)
+
+    expect(await service.sendTaskDueReminders(OFFSETS, NOW)).toEqual({ sent: 0, skipped: 0, failed: 1 })
+    expect(storage.getTrustRelationship).not.toHaveBeenCalled()
+    expect(storage.releaseTaskDueReminder).toHaveBeenCalledWith(expect.objectContaining({ offsetKey: 'overdue' }))
+  })
+})
@@ -0,0 +1,104 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import request from 'supertest'
+import express from 'express'
+import { storage } from '../src/storage'
+import { taskActivityService } from '../src/services/taskActivityService'
+import { taskDependencyService } from '../src/services/taskDependencyService'
+import { registerProjectTaskRoutes } from '../src/routes/projects'
+
+vi.mock('../src/storage', () => ({
+  storage: {
+    getTask: vi.fn(),
+    getProject: vi.fn(),
+    getProjectParticipant: vi.fn(),
+    getUser: vi.fn(),
+    getTaskActivities: vi.fn(),
+  },
+}))
+
+vi.mock('../src/googleAuth', () => ({
+  isAuthenticated: (req: any, res: any, next: any) => {
+    req.user = { id: 'user-1', email: 'ana@example.com' }
+    next()
+  },
+}))
+
+vi.mock('../src/services/websocketManager', () => ({
+  wsManager: { broadcastToTaskUsers: vi.fn() },
+}))
+
+vi.mock('../src/services/taskActivityService', () => ({
+  taskActivityService: { addComment: vi.fn() },
+}))
+
+vi.mock('../src/services/taskDependencyService', () => ({
+  taskDependencyService: {
+    getTaskSummary: vi.fn(),
+    addDependency: vi.fn(),
+    removeDependency: vi.fn(),
+  },
+}))
+
+function task(id: number, projectId: number) {
+  return { id, projectId, createdBy: 'someone-else', title: `Task ${id}`, status: 'pending' } as any
+}
+
+describe('Task route access', () => {
+  let app: express.Express
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    app = express()
+    app.use(express.json())
+    registerProjectTaskRoutes(app)
+
+    // user-1 takes part in project 1 only
+    vi.mocked(storage.getTask).mockImplementation(async (id: number) => task(id, id < 100 ? 1 : 2))
+    vi.mocked(storage.getProject).mockImplementation(async (id: number) => ({ id, createdBy: 'owner' }) as any)
+    vi.mocked(storage.getProjectParticipant).mockImplementation(async (projectId: number) =>
+      projectId === 1 ? ({ projectId, userId: 'user-1' }) as any : undefined)
+    vi.mocked(storage.getUser).mockResolvedValue({ id: 'user-1' } as any)
+    vi.mocked(storage.getTaskActivities).mockResolvedValue([])
+    vi.mocked(taskActivityService.addComment).mockResolvedValue({ id: 9 } as any)
+    vi.mocked(taskDependencyService.getTaskSummary).mockResolvedValue({ dependsOn: [] } as any)
+    vi.mocked(taskDependencyService.addDependency).mockResolvedValue({ success: true, dependency: { id: 1 }, updatedTasks: [] } as any)
+    vi.mocked(taskDependencyService.removeDependency).mockResolvedValue([])
+  })
+
+  describe('activity and comments', () => {
+    it('should serve participants of the task\'s project', async () => {
+      await request(app).get('/api/tasks/5/activity').expect(200)
+      await request(app).post('/api/tasks/5/comments').send({ body: 'On it' }).expect(201)
+    })
+
+    it('should refuse users outside the task\'s project', async () => {
+      await request(app).get('/api/tasks/105/activity').expect(403)
+      await request(app).post('/api/tasks/105/comments').send({ body: 'Hi' }).expect(403)
+
+      expect(storage.getTaskActivities).not.toHaveBeenCalled()
+      expect(taskActivityService.addComment).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('dependencies', () => {
+    it('should require access to both tasks', async () => {
+      await request(app).get('/api/tasks/5/dependencies').expect(200)
+      await request(app).get('/api/tasks/105/dependencies').expect(403)
+
+      await request(app).post('/api/tasks/5/dependencies').send({ dependsOnTaskId: 105 }).expect(403)
+      await request(app).post('/api/tasks/105/dependencies').send({ dependsOnTaskId: 5 }).expect(403)
+      expect(taskDependencyService.addDependency).not.toHaveBeenCalled()
+
+      await request(app).delete('/api/tasks/5/dependencies/105').expect(403)
+      expect(taskDependencyService.removeDependency).not.toHaveBeenCalled()
+    })
+
+    it('should let participants link and unlink tasks of their project', async () => {
+      await request(app).post('/api/tasks/5/dependencies').send({ dependsOnTaskId: 6 }).expect(200)
+      expect(taskDependencyService.addDependency).toHaveBeenCalledWith(5, 6)
+
+      await request(app).delete('/api/tasks/5/dependencies/6').expect(200)
+      expect(taskDependencyService.removeDependency).toHaveBeenCalledWith(5, 6)
+    })
+  })
+})
@@ -0,0 +1,113 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { storage } from '../src/storage'
+import { sendMail } from '../src/services/mailer'
+import { optOutManager } from '../src/services/email/OptOutManager'
+import { isValidTimeZone, localWeekdayAndHour, WeeklyDigestService } from '../src/services/weeklyDigestService'
+
+vi.mock('../src/storage', () => ({
+  storage: {
+    getWeeklyDigestRecipients: vi.fn(),
+    getWeeklyDigestActivity: vi.fn(),
+    upsertNotificationPreferences: vi.fn(),
+  },
+}))
+
+vi.mock('../src/services/mailer', () => ({
+  sendMail: vi.fn(),
+}))
+
+vi.mock('../src/services/email/OptOutManager', () => ({
+  optOutManager: { isOptedOut: vi.fn() },
+}))
+
+// Monday 2026-03-02 07:30 UTC
+const MONDAY_MORNING_UTC = new Date('2026-03-02T07:30:00Z')
+
+const EMPTY_ACTIVITY = {
+  assignedTasks: [],
+  completedTasks: [],
+  overdueTasks: [],
+  insights: [],
+  openPolls: [],
+  faqActivity: [],
+}
+
+function recipient(timezone: string, overrides: object = {}) {
+  return {
+    user: { id: 'user-1', email: 'ana@example.com', firstName: 'Ana' } as any,
+    preferences: { userId: 'user-1', weeklyDigest: true, emailNotifications: true, timezone, weeklyDigestLastSentAt: null, ...overrides } as any,
+  }
+}
+
+describe('time zone helpers', () => {
+  it('should validate IANA time zone names', () => {
+    expect(isValidTimeZone('Europe/Berlin')).toBe(true)
+    expect(isValidTimeZone('Mars/Olympus_Mons')).toBe(false)
+  })
+
+  it('should read the local weekday and hour', () => {
+    expect(localWeekdayAndHour(MONDAY_MORNING_UTC, 'UTC')).toEqual({ weekday: 1, hour: 7 })
+    expect(localWeekdayAndHour(MONDAY_MORNING_UTC, 'Asia/Tokyo')).toEqual({ weekday: 1, hour: 16 })
+    expect(localWeekdayAndHour(MONDAY_MORNING_UTC, 'America/New_York')).toEqual({ weekday: 1, hour: 2 })
+  })
+})
+
+describe('WeeklyDigestService', () => {
+  const service = new WeeklyDigestService()
+
+  beforeEach(() => {
+    vi.clearAllMocks()
+    vi.mocked(sendMail).mockResolvedValue(true)
+    vi.mocked(optOutManager.isOptedOut).mockResolvedValue(false)
+    vi.mocked(storage.getWeeklyDigestActivity).mockResolvedValue({
+      ...EMPTY_ACTIVITY,
+      assignedTasks: [{ id: 7, title: 'Review <contract>', projectId: 3, projectName: 'Legal', priority: 'high', status: 'pending', dueDate: null }],
+    })
+  })
+
+  it('should send on Monday from 08:00 in the user\'s time zone, once', () => {
+    expect(service.isDigestDue(recipient('Europe/Berlin').preferences, MONDAY_MORNING_UTC)).toBe(true)
+    expect(service.isDigestDue(recipient('UTC').preferences, MONDAY_MORNING_UTC)).toBe(false)
+    expect(service.isDigestDue(recipient('America/New_York').preferences, MONDAY_MORNING_UTC)).toBe(false)
+    expect(service.isDigestDue(recipient('Bad/Zone').preferences, MONDAY_MORNING_UTC)).toBe(false)
+
+    const sentAnHourAgo = recipient('Europe/Berlin', { weeklyDigestLastSentAt: new Date(MONDAY_MORNING_UTC.getTime() - 60 * 60 * 1000) })
+    expect(service.isDigestDue(sentAnHourAgo.preferences, MONDAY_MORNING_UTC)).toBe(false)
+  })
+
+  it('should email due recipients and record the send', async () => {
+    vi.mocked(storage.getWeeklyDigestRecipients).mockResolvedValue([recipient('Europe/Berlin'), recipient('UTC')])
+
+    const result = await service.sendDueDigests(MONDAY_MORNING_UTC)
+
+    expect(result).toEqual({ sent: 1, skipped: 0, failed: 0 })
+    expect(sendMail).toHaveBeenCalledTimes(1)
+    const mail = vi.mocked(sendMail).mock.calls[0][0]
+    expect(mail.to).toBe('ana@example.com')
+    expect(mail.html).toContain('Review &lt;contract&gt;')
+    expect(mail.html).toContain('/project/3?highlightTask=7')
+    expect(mail.text).toContain('- Review <contract> (Legal)')
+    expect(storage.upsertNotificationPreferences).toHaveBeenCalledWith('user-1', { weeklyDigestLastSentAt: MONDAY_MORNING_UTC })
+  })
+
+  it('should not email opted-out users or empty weeks', async () => {
+    vi.mocked(storage.getWeeklyDigestRecipients).mockResolvedValue([recipient('Europe/Berlin')])
+    vi.mocked(optOutManager.isOptedOut).mockResolvedValueOnce(true)
+
+    expect(await service.sendDueDigests(MONDAY_MORNING_UTC)).toEqual({ sent: 0, skipped: 1, failed: 0 })
+
+    vi.mocked(storage.getWeeklyDigestActivity).mockResolvedValue(EMPTY_ACTIVITY)
+
+    expect(await service.sendDueDigests(MONDAY_MORNING_UTC)).toEqual({ sent: 0, skipped: 1, failed: 0 })
+    expect(sendMail).not.toHaveBeenCalled()
+    expect(storage.upsertNotificationPreferences).toHaveBeenCalledTimes(2)
+  })
+
+  it('should leave the digest due when delivery fails', async () => {
+    vi.mocked(storage.getWeeklyDigestRecipients).mockResolvedValue([recipient('Europe/Berlin')])
+    vi.mocked(sendMail).mockResolvedValue(false)
+
+    expect(await service.sendDueDigests(MONDAY_MORNING_UTC)).toEqual({ sent: 0, skipped: 0, failed: 1 })
+    expect(storage.upsertNotificationPreferences).not.toHaveBeenCalled()
+  })
+})
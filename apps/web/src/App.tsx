@@ -17,6 +17,8 @@ import ResetPassword from "@/pages/reset-password";
 import SettingsPage from "@/pages/settings";
 import IdentitiesPage from "@/pages/identities";
 import TestPage from "@/pages/test";
+import FailedEmailsPage from "@/pages/failed-emails";
+import PerformancePage from "@/pages/performance";
 import MainDashboard from "@/pages/main-dashboard";
 import TodoPage from "@/pages/todo";
 
@@ -56,6 +58,8 @@ function AppContent() {
             <Route path="/settings" component={SettingsPage} />
             <Route path="/identities" component={IdentitiesPage} />
             <Route path="/test" component={TestPage} />
+            <Route path="/admin/failed-emails" component={FailedEmailsPage} />
+            <Route path="/admin/performance" component={PerformancePage} />
             <Route path="/intelligence" component={MainDashboard} />
             <Route path="/intelligence/t5t" component={MainDashboard} />
             <Route path="/teams" component={MainDashboard} />
@@ -6,6 +6,7 @@ import { Progress } from '@/components/ui/progress';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Separator } from '@/components/ui/separator';
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { 
   FileText, 
   FileImage,
@@ -31,9 +32,11 @@ import {
   Mail,
   ExternalLink,
   Copy,
-  Loader2
+  Loader2,
+  Table2
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import type { SpreadsheetColumnProfile, SpreadsheetProfile } from '@email-task-router/shared';
 
 interface AnalysisResult {
   id: string;
@@ -58,6 +61,7 @@ interface AnalysisResult {
       emails: string[];
       urls: string[];
     };
+    spreadsheet?: SpreadsheetProfile;
   };
   processingResults?: {
     ocrText?: string;
@@ -123,6 +127,12 @@ const getStatusIcon = (status: string) => {
   }
 };
 
+const formatColumnRange = (column: SpreadsheetColumnProfile): string => {
+  if (column.min === undefined) return '—';
+  const range = column.min === column.max ? `${column.min}` : `${column.min} – ${column.max}`;
+  return column.mean !== undefined ? `${range} (mean ${column.mean})` : range;
+};
+
 const copyToClipboard = async (text: string) => {
   try {
     await navigator.clipboard.writeText(text);
@@ -134,6 +144,7 @@ const copyToClipboard = async (text: string) => {
 export default function AnalysisResults({ result, onRetry, onDelete }: AnalysisResultsProps) {
   const [expandedSections, setExpandedSections] = useState<Record<string, boolean>>({
     insights: true,
+    dataProfile: true,
     recommendations: false,
     anomalies: false,
     extractedData: false,
@@ -223,12 +234,16 @@ export default function AnalysisResults({ result, onRetry, onDelete }: AnalysisR
         {/* Category and Confidence */}
         {aiAnalysis && (
           <div className="flex items-center gap-2 mt-4">
-            <Badge className={getCategoryColor(aiAnalysis.category)}>
-              {aiAnalysis.category.charAt(0).toUpperCase() + aiAnalysis.category.slice(1)}
-            </Badge>
-            <Badge variant="outline">
-              {Math.round(aiAnalysis.confidence * 100)}% confidence
-            </Badge>
+            {aiAnalysis.category && (
+              <Badge className={getCategoryColor(aiAnalysis.category)}>
+                {aiAnalysis.category.charAt(0).toUpperCase() + aiAnalysis.category.slice(1)}
+              </Badge>
+            )}
+            {typeof aiAnalysis.confidence === 'number' && (
+              <Badge variant="outline">
+                {Math.round(aiAnalysis.confidence * 100)}% confidence
+              </Badge>
+            )}
             {processingResults?.virusScanResults && (
               <Badge variant={processingResults.virusScanResults.clean ? "default" : "destructive"}>
                 <Shield className="w-3 h-3 mr-1" />
@@ -288,6 +303,84 @@ export default function AnalysisResults({ result, onRetry, onDelete }: AnalysisR
             </Collapsible>
           )}
 
+          {/* Spreadsheet Profile */}
+          {aiAnalysis.spreadsheet && aiAnalysis.spreadsheet.sheets.length > 0 && (
+            <Collapsible
+              open={expandedSections.dataProfile}
+              onOpenChange={() => toggleSection('dataProfile')}
+            >
+              <CollapsibleTrigger asChild>
+                <Button variant="ghost" className="w-full justify-start p-0 h-auto">
+                  <div className="flex items-center gap-2">
+                    {expandedSections.dataProfile ? (
+                      <ChevronDown className="w-4 h-4" />
+                    ) : (
+                      <ChevronRight className="w-4 h-4" />
+                    )}
+                    <Table2 className="w-4 h-4 text-blue-600" />
+                    <span className="font-medium">Data Profile ({aiAnalysis.spreadsheet.sheets.length} sheet{aiAnalysis.spreadsheet.sheets.length === 1 ? '' : 's'})</span>
+                  </div>
+                </Button>
+              </CollapsibleTrigger>
+              <CollapsibleContent className="mt-3">
+                <div className="pl-6 space-y-4">
+                  {aiAnalysis.spreadsheet.truncated && (
+                    <p className="text-xs text-gray-500">Large sheets were profiled from their first rows only.</p>
+                  )}
+                  {aiAnalysis.spreadsheet.sheets.map((sheet, sheetIndex) => (
+                    <div key={sheetIndex} className="bg-slate-50 p-3 rounded">
+                      <h5 className="font-medium text-sm mb-2 flex items-center gap-2">
+                        <FileSpreadsheet className="w-4 h-4" />
+                        {sheet.name}
+                        <span className="text-gray-500 font-normal">
+                          {sheet.rowCount} rows × {sheet.columns.length} columns
+                        </span>
+                      </h5>
+                      {sheet.columns.length > 0 && (
+                        <div className="overflow-x-auto">
+                          <Table>
+                            <TableHeader>
+                              <TableRow>
+                                <TableHead>Column</TableHead>
+                                <TableHead>Type</TableHead>
+                                <TableHead className="text-right">Empty</TableHead>
+                                <TableHead className="text-right">Distinct</TableHead>
+                                <TableHead>Values</TableHead>
+                                <TableHead>Outliers</TableHead>
+                              </TableRow>
+                            </TableHeader>
+                            <TableBody>
+                              {sheet.columns.map((column, columnIndex) => (
+                                <TableRow key={columnIndex}>
+                                  <TableCell className="font-medium">{column.name}</TableCell>
+                                  <TableCell>
+                                    <Badge variant="outline">{column.type}</Badge>
+                                  </TableCell>
+                                  <TableCell className={cn("text-right", column.nullCount > 0 && "text-amber-700")}>
+                                    {column.nullCount}
+                                  </TableCell>
+                                  <TableCell className="text-right">{column.distinctCount}</TableCell>
+                                  <TableCell className="text-sm">
+                                    {column.topValues
+                                      ? column.topValues.slice(0, 3).map(top => `${top.value} (${top.count})`).join(', ')
+                                      : formatColumnRange(column)}
+                                  </TableCell>
+                                  <TableCell className="text-sm text-red-700">
+                                    {column.outliers?.join(', ') || '—'}
+                                  </TableCell>
+                                </TableRow>
+                              ))}
+                            </TableBody>
+                          </Table>
+                        </div>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </CollapsibleContent>
+            </Collapsible>
+          )}
+
           {/* Recommendations */}
           {aiAnalysis.recommendations && aiAnalysis.recommendations.length > 0 && (
             <Collapsible
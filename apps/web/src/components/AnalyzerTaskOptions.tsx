@@ -0,0 +1,70 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { ListChecks } from "lucide-react";
+import { Switch } from "@/components/ui/switch";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+interface AnalyzerInstance {
+  id: number;
+  instanceName: string;
+  emailAddress: string;
+  customization: Record<string, any> | null;
+}
+
+/**
+ * Per-instance switch for turning the action items of analyzed documents into tasks
+ */
+export default function AnalyzerTaskOptions() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const { data } = useQuery<{ instances: AnalyzerInstance[] }>({
+    queryKey: ['/api/agent-instances/analyzer'],
+  });
+  const instances = data?.instances ?? [];
+
+  const updateOptions = useMutation({
+    mutationFn: async ({ instanceId, enabled }: { instanceId: number; enabled: boolean }) => {
+      const response = await apiRequest('PUT', `/api/agent-instances/${instanceId}/options`, {
+        createTasksFromActionItems: enabled,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/agent-instances/analyzer'] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update Analyzer options",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (instances.length === 0) return null;
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-4 max-w-md mx-auto mt-4 text-left">
+      <p className="text-sm font-semibold text-gray-700 mb-1 flex items-center gap-2">
+        <ListChecks className="w-4 h-4 text-orange-600" />
+        Create tasks from action items
+      </p>
+      <p className="text-xs text-gray-500 mb-3">
+        Action items found in analyzed documents become tasks in the email's project, assigned to the participants they name.
+      </p>
+      <div className="space-y-2">
+        {instances.map(instance => (
+          <label key={instance.id} className="flex items-center justify-between gap-3 text-sm text-gray-700">
+            <span className="truncate">{instance.emailAddress}</span>
+            <Switch
+              checked={instance.customization?.createTasksFromActionItems === true}
+              disabled={updateOptions.isPending}
+              onCheckedChange={enabled => updateOptions.mutate({ instanceId: instance.id, enabled })}
+            />
+          </label>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -1,5 +1,6 @@
 import { useState, useEffect } from "react";
-import { useQueryClient } from "@tanstack/react-query";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -18,10 +19,27 @@ import {
   ChevronUp,
   Settings,
   Activity,
-  RefreshCw
+  RefreshCw,
+  AlertTriangle,
+  Link2,
+  Unlink
 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 
+interface LinkedMailbox {
+  id: number;
+  provider: string;
+  providerName: string;
+  email: string | null;
+  needsReauth: boolean;
+  authError: string | null;
+}
+
+interface MailboxesResponse {
+  providers: { id: string; name: string }[];
+  accounts: LinkedMailbox[];
+}
+
 interface EmailIntegrationProps {
   emails: any[];
   onEmailAction?: (action: string, email: any) => void;
@@ -52,6 +70,51 @@ export default function EmailIntegration({ emails, onEmailAction, showAssistantH
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
   const [isLlmOpen, setIsLlmOpen] = useState(false);
 
+  const { data: mailboxes } = useQuery<MailboxesResponse>({
+    queryKey: ['/api/mailboxes'],
+    retry: false,
+  });
+  const revokedMailboxes = mailboxes?.accounts.filter(account => account.needsReauth) ?? [];
+
+  const disconnectMailbox = useMutation({
+    mutationFn: (id: number) => apiRequest('DELETE', `/api/mailboxes/${id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/mailboxes'] });
+      toast({ title: "Mailbox disconnected" });
+    },
+    onError: () => {
+      toast({ title: "Error", description: "Failed to disconnect mailbox", variant: "destructive" });
+    },
+  });
+
+  // Report the outcome of the OAuth consent screen, which redirects back with ?mailbox=connected|error
+  useEffect(() => {
+    const urlParams = new URLSearchParams(window.location.search);
+    const result = urlParams.get('mailbox');
+    if (!result) return;
+
+    if (result === 'connected') {
+      toast({ title: "Mailbox connected", description: "New emails in your mailbox will be processed automatically" });
+    } else {
+      toast({
+        title: "Mailbox not connected",
+        description: urlParams.get('reason') === 'access_denied'
+          ? "Access was not granted"
+          : "Linking the mailbox failed, please try again",
+        variant: "destructive",
+      });
+    }
+    queryClient.invalidateQueries({ queryKey: ['/api/mailboxes'] });
+    window.history.replaceState({}, '', window.location.pathname);
+  }, []);
+
+  // Keep the settings open while a mailbox needs to be reconnected
+  useEffect(() => {
+    if (revokedMailboxes.length > 0) {
+      setIsSettingsOpen(true);
+    }
+  }, [revokedMailboxes.length]);
+
   // Load chat history when project changes
   useEffect(() => {
     if (showAssistantHistory && projectId) {
@@ -249,6 +312,9 @@ export default function EmailIntegration({ emails, onEmailAction, showAssistantH
                 <div className="flex items-center gap-2">
                   <Settings className="h-4 w-4" />
                   <span>Email Settings</span>
+                  {revokedMailboxes.length > 0 && (
+                    <AlertTriangle className="h-4 w-4 text-red-600" aria-label="A mailbox needs to be reconnected" />
+                  )}
                 </div>
                 {isSettingsOpen ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
               </Button>
@@ -268,6 +334,52 @@ export default function EmailIntegration({ emails, onEmailAction, showAssistantH
                   </p>
                 </div>
                 
+                <div className="space-y-2">
+                  <Label className="text-sm font-medium">Connected Mailboxes</Label>
+                  {revokedMailboxes.map(account => (
+                    <div key={`revoked-${account.id}`} className="rounded border border-red-200 bg-red-50 p-2 text-xs text-red-800">
+                      <div className="flex items-center gap-1 font-medium">
+                        <AlertTriangle className="h-3 w-3" />
+                        Access to {account.email} was revoked
+                      </div>
+                      <p className="mt-1">Emails from this mailbox are not processed until you reconnect it.</p>
+                      <Button asChild size="sm" variant="outline" className="mt-2 w-full">
+                        <a href={`/api/mailboxes/oauth/${account.provider}/connect`}>
+                          Reconnect {account.providerName}
+                        </a>
+                      </Button>
+                    </div>
+                  ))}
+                  {mailboxes?.accounts.filter(account => !account.needsReauth).map(account => (
+                    <div key={account.id} className="flex items-center justify-between gap-2 rounded border bg-white p-2">
+                      <div className="min-w-0">
+                        <p className="truncate text-xs font-medium text-gray-900">{account.email}</p>
+                        <p className="text-xs text-gray-500">{account.providerName}</p>
+                      </div>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => disconnectMailbox.mutate(account.id)}
+                        disabled={disconnectMailbox.isPending}
+                        title="Disconnect mailbox"
+                      >
+                        <Unlink className="h-3 w-3" />
+                      </Button>
+                    </div>
+                  ))}
+                  {mailboxes?.providers.map(provider => (
+                    <Button key={provider.id} asChild variant="outline" size="sm" className="w-full">
+                      <a href={`/api/mailboxes/oauth/${provider.id}/connect`}>
+                        <Link2 className="h-4 w-4 mr-2" />
+                        Connect {provider.name}
+                      </a>
+                    </Button>
+                  ))}
+                  <p className="text-xs text-gray-500">
+                    Grant access with your provider instead of sharing an IMAP password
+                  </p>
+                </div>
+
                 <div className="space-y-2">
                   <Label className="text-sm font-medium">Processing Status</Label>
                   <div className="flex items-center gap-2">
@@ -4,6 +4,7 @@ import { useAuth } from "@/hooks/useAuth";
 import { useLocation } from "wouter";
 import IdentitySelector from "@/components/IdentitySelector";
 import NotificationCenter from "@/components/NotificationCenter";
+import SearchPalette from "@/components/SearchPalette";
 import { Button } from "@/components/ui/button";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Badge } from "@/components/ui/badge";
@@ -18,7 +19,7 @@ import { cn } from "@/lib/utils";
 
 interface Notification {
   id: string;
-  type: 'email_processed' | 'reply_processed' | 'email_failed';
+  type: 'email_processed' | 'reply_processed' | 'email_failed' | 'poll_closed';
   title: string;
   description: string;
   timestamp: Date;
@@ -36,6 +37,19 @@ export default function Header({ workspace, onWorkspaceChange }: HeaderProps = {
   const [notifications, setNotifications] = useState<Notification[]>([]);
   const [notificationCount, setNotificationCount] = useState(0);
   const [ws, setWs] = useState<WebSocket | null>(null);
+  const [searchOpen, setSearchOpen] = useState(false);
+
+  // Cmd/Ctrl+K opens the search palette from anywhere
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if ((event.metaKey || event.ctrlKey) && event.key.toLowerCase() === 'k') {
+        event.preventDefault();
+        setSearchOpen(open => !open);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
 
   useEffect(() => {
     // Connect to WebSocket for real-time notifications
@@ -113,6 +127,17 @@ export default function Header({ workspace, onWorkspaceChange }: HeaderProps = {
           read: false,
         };
         break;
+
+      case 'poll_closed':
+        notification = {
+          id: `${Date.now()}-poll-closed`,
+          type: 'poll_closed',
+          title: 'Poll Closed',
+          description: `"${data.data?.title?.substring(0, 50)}": ${data.data?.outcome}`,
+          timestamp,
+          read: false,
+        };
+        break;
     }
 
     if (notification) {
@@ -145,6 +170,8 @@ export default function Header({ workspace, onWorkspaceChange }: HeaderProps = {
         return '💬';
       case 'email_failed':
         return '❌';
+      case 'poll_closed':
+        return '🗳️';
       default:
         return '📧';
     }
@@ -232,17 +259,17 @@ export default function Header({ workspace, onWorkspaceChange }: HeaderProps = {
 
           {/* Right side: Search, Notifications, Settings, User Menu */}
           <div className="flex items-center gap-3">
-            {/* Search Bar - only show if workspace is provided */}
-            {workspace && (
-              <div className="relative">
-                <Search className="w-4 h-4 absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400" />
-                <input
-                  type="text"
-                  placeholder={`Search ${workspace}...`}
-                  className={`pl-10 pr-4 py-1.5 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 ${colors.searchFocus} w-48`}
-                />
-              </div>
-            )}
+            {/* Search - opens the global search palette */}
+            <button
+              type="button"
+              onClick={() => setSearchOpen(true)}
+              className={`flex items-center gap-2 pl-3 pr-2 py-1.5 border border-gray-300 rounded-md text-sm text-gray-400 hover:bg-gray-50 focus:outline-none focus:ring-2 ${colors.searchFocus} w-56`}
+            >
+              <Search className="w-4 h-4" />
+              <span className="flex-1 text-left">Search{workspace ? ` ${workspace}` : ''}...</span>
+              <kbd className="hidden sm:inline-flex items-center rounded border border-gray-200 bg-gray-50 px-1.5 font-mono text-[10px] text-gray-500">⌘K</kbd>
+            </button>
+            <SearchPalette open={searchOpen} onOpenChange={setSearchOpen} />
 
             <DropdownMenu>
               <DropdownMenuTrigger asChild>
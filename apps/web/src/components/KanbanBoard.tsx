@@ -4,7 +4,7 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
-import { Plus, MoreHorizontal, Clock, User, ListTodo, GripVertical, RefreshCw } from "lucide-react";
+import { Plus, MoreHorizontal, Clock, User, ListTodo, GripVertical, RefreshCw, Lock, ArrowRight, Repeat } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
@@ -512,6 +512,10 @@ export default function KanbanBoard({ selectedProject, highlightedTaskId, hideAs
     }
   };
 
+  // Predecessors that still hold a task in the blocked state
+  const getOpenDependencies = (task: any) =>
+    (task.dependencies || []).filter((dependency: any) => mapTaskStatusToColumn(dependency.status) !== 'done');
+
   const formatDate = (dateString: string) => {
     if (!dateString) return null;
     const date = new Date(dateString);
@@ -685,12 +689,43 @@ export default function KanbanBoard({ selectedProject, highlightedTaskId, hideAs
               
               {task.dueDate && (
                 <div className="flex items-center text-xs text-gray-500">
+                  {task.recurrenceRule && (
+                    <Repeat className="h-3 w-3 mr-1" aria-label={`Repeats ${task.recurrenceRule.frequency}`} />
+                  )}
                   <Clock className="h-3 w-3 mr-1" />
                   {formatDate(task.dueDate)}
                 </div>
               )}
             </div>
             
+            {(task.dependencies?.length > 0 || task.dependents?.length > 0) && (() => {
+              const openDependencies = getOpenDependencies(task);
+              return (
+                <div className="space-y-1">
+                  <div className="flex flex-wrap items-center gap-1">
+                    {openDependencies.length > 0 && (
+                      <Badge variant="outline" className="text-xs bg-red-50 text-red-700 border-red-300">
+                        <Lock className="h-3 w-3 mr-1" />
+                        Blocked by {openDependencies.length}
+                      </Badge>
+                    )}
+                    {task.dependents?.length > 0 && (
+                      <Badge variant="outline" className="text-xs bg-gray-50 text-gray-700 border-gray-300">
+                        Blocks {task.dependents.length}
+                      </Badge>
+                    )}
+                  </div>
+                  {openDependencies.map((dependency: any) => (
+                    <div key={dependency.id} className="flex items-center text-xs text-gray-500">
+                      <span className="flex-shrink-0">Waiting on</span>
+                      <ArrowRight className="h-3 w-3 mx-1 flex-shrink-0" />
+                      <span className="truncate text-gray-700">{dependency.title}</span>
+                    </div>
+                  ))}
+                </div>
+              );
+            })()}
+            
             {task.sourceEmail && (
               <div className="flex items-center text-xs text-gray-500">
                 <User className="h-3 w-3 mr-1" />
@@ -889,6 +924,7 @@ export default function KanbanBoard({ selectedProject, highlightedTaskId, hideAs
         isOpen={isTaskModalOpen}
         onClose={handleCloseModal}
         task={selectedTask}
+        projectTasks={taskList}
       />
     </div>
   );
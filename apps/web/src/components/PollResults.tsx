@@ -0,0 +1,199 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Progress } from "@/components/ui/progress";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { BarChart3, CheckCircle, Clock, Trophy, Vote } from "lucide-react";
+import type { Poll, PollResults as PollTally } from "@email-task-router/shared";
+
+type PollWithResults = Poll & {
+  isExpired: boolean;
+  canVote: boolean;
+  results: PollTally | null;
+};
+
+interface PollResultsProps {
+  highlightPollId?: number | null;
+}
+
+export default function PollResults({ highlightPollId }: PollResultsProps) {
+  const { data: polls = [], isLoading } = useQuery<PollWithResults[]>({
+    queryKey: ['/api/polls'],
+    refetchInterval: 10000, // Keep tallies live while votes arrive by email
+  });
+
+  if (isLoading) {
+    return (
+      <Card>
+        <CardContent className="flex items-center justify-center h-32 text-muted-foreground">
+          Loading polls...
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (polls.length === 0) {
+    return (
+      <Card>
+        <CardContent className="flex items-center justify-center h-64">
+          <div className="text-center text-muted-foreground">
+            <Vote className="h-12 w-12 mx-auto mb-4 text-muted-foreground/40" />
+            <h3 className="text-lg font-medium mb-2">No Polls Yet</h3>
+            <p>Email polly@inboxleap.com with a question and options to start a poll.</p>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {polls.map(poll => (
+        <PollCard key={poll.id} poll={poll} highlighted={poll.id === highlightPollId} />
+      ))}
+    </div>
+  );
+}
+
+function PollCard({ poll, highlighted }: { poll: PollWithResults; highlighted: boolean }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [selected, setSelected] = useState<string[]>([]);
+  const isMultiple = poll.type === 'multiple_choice';
+  const results = poll.results;
+  const leading = results?.totalVotes ? results.leadingOptionIds : [];
+
+  useEffect(() => {
+    if (highlighted) {
+      document.getElementById(`poll-${poll.id}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    }
+  }, [highlighted, poll.id]);
+
+  const voteMutation = useMutation({
+    mutationFn: async (selectedOptions: string[]) => {
+      await apiRequest('POST', `/api/polls/${poll.id}/votes`, { selectedOptions });
+    },
+    onSuccess: () => {
+      setSelected([]);
+      queryClient.invalidateQueries({ queryKey: ['/api/polls'] });
+      toast({
+        title: "Vote recorded",
+        description: "Thanks for voting!",
+      });
+    },
+    onError: (error: Error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: error.message || "Failed to record vote",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggleOption = (optionId: string) => {
+    if (isMultiple) {
+      setSelected(prev => prev.includes(optionId) ? prev.filter(id => id !== optionId) : [...prev, optionId]);
+    } else {
+      setSelected([optionId]);
+    }
+  };
+
+  return (
+    <Card id={`poll-${poll.id}`} className={highlighted ? 'ring-2 ring-purple-500' : undefined}>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <BarChart3 className="h-5 w-5 text-purple-600" />
+              {poll.title}
+            </CardTitle>
+            {poll.description && <CardDescription className="mt-1">{poll.description}</CardDescription>}
+          </div>
+          <div className="flex items-center gap-2 shrink-0">
+            {isMultiple && <Badge variant="outline">Multiple choice</Badge>}
+            {poll.isExpired ? (
+              <Badge variant="secondary">Closed</Badge>
+            ) : (
+              <Badge className="bg-green-100 text-green-800 hover:bg-green-100">Active</Badge>
+            )}
+          </div>
+        </div>
+        <div className="flex items-center gap-4 text-sm text-muted-foreground">
+          <span>{results?.uniqueVoters ?? 0} voter{results?.uniqueVoters === 1 ? '' : 's'}</span>
+          {poll.expiresAt && (
+            <span className="flex items-center gap-1">
+              <Clock className="h-3 w-3" />
+              {poll.isExpired ? 'Closed' : 'Closes'} {new Date(poll.expiresAt).toLocaleString()}
+            </span>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {(results?.options ?? []).map((option, index) => {
+          const isLeading = leading.includes(option.id);
+          return (
+            <div key={option.id} className="space-y-1">
+              <div className="flex items-center justify-between gap-2 text-sm">
+                <label className="flex items-center gap-2">
+                  {poll.canVote && (
+                    <Checkbox
+                      checked={selected.includes(option.id)}
+                      onCheckedChange={() => toggleOption(option.id)}
+                    />
+                  )}
+                  <span className="font-medium">{String.fromCharCode(65 + index)}.</span>
+                  <span>{option.text}</span>
+                  {isLeading && (
+                    <Trophy className="h-4 w-4 text-amber-500" aria-label={leading.length > 1 ? 'Tied for the lead' : 'Leading'} />
+                  )}
+                </label>
+                <span className="text-muted-foreground">
+                  {option.votes} ({option.percentage}%)
+                </span>
+              </div>
+              <Progress value={option.percentage} className="h-2" />
+            </div>
+          );
+        })}
+
+        {leading.length > 1 && (
+          <p className="text-xs text-muted-foreground">Tie between {leading.length} options</p>
+        )}
+
+        {poll.canVote ? (
+          <div className="flex justify-end pt-2">
+            <Button
+              size="sm"
+              onClick={() => voteMutation.mutate(selected)}
+              disabled={selected.length === 0 || voteMutation.isPending}
+            >
+              <Vote className="h-4 w-4 mr-2" />
+              {voteMutation.isPending ? 'Submitting...' : 'Submit Vote'}
+            </Button>
+          </div>
+        ) : !poll.isExpired && (
+          <p className="flex items-center gap-1 text-xs text-muted-foreground pt-2">
+            <CheckCircle className="h-3 w-3" />
+            You have voted in this poll
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,176 @@
+import { Fragment, useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { format } from "date-fns";
+import { CheckSquare, FileText, Loader2, Mail, MessageSquareText } from "lucide-react";
+import { Dialog, DialogContent, DialogTitle } from "@/components/ui/dialog";
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from "@/components/ui/command";
+import { Badge } from "@/components/ui/badge";
+import type { SearchHit, SearchResults, SearchSourceType } from "@email-task-router/shared";
+
+interface SearchPaletteProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const SOURCE_LABELS: Record<SearchSourceType, string> = {
+  email: 'Emails',
+  task: 'Tasks',
+  attachment: 'Attachments',
+  t5t: 'T5T submissions',
+};
+
+const SOURCE_ICONS: Record<SearchSourceType, typeof Mail> = {
+  email: Mail,
+  task: CheckSquare,
+  attachment: FileText,
+  t5t: MessageSquareText,
+};
+
+const getHitLocation = (hit: SearchHit) => {
+  if (hit.projectId) return `/project/${hit.projectId}`;
+  return hit.sourceType === 't5t' ? '/intelligence/t5t' : '/teams/analyzer';
+};
+
+/**
+ * Render a server snippet, highlighting the <mark> sections without interpreting any other markup
+ */
+function Snippet({ text }: { text: string }) {
+  const parts = text.split(/<mark>|<\/mark>/);
+  return (
+    <>
+      {parts.map((part, index) => index % 2 === 1
+        ? <mark key={index} className="bg-yellow-100 text-gray-900 rounded-sm px-0.5">{part}</mark>
+        : <Fragment key={index}>{part}</Fragment>
+      )}
+    </>
+  );
+}
+
+export default function SearchPalette({ open, onOpenChange }: SearchPaletteProps) {
+  const [, setLocation] = useLocation();
+  const [input, setInput] = useState("");
+  const [query, setQuery] = useState("");
+  const [source, setSource] = useState<SearchSourceType | null>(null);
+
+  // Wait for a pause in typing before querying
+  useEffect(() => {
+    const timeout = setTimeout(() => setQuery(input.trim()), 300);
+    return () => clearTimeout(timeout);
+  }, [input]);
+
+  const params = new URLSearchParams({ q: query });
+  if (source) params.set('sources', source);
+
+  // The company context is part of the key so switching companies never shows stale hits
+  const { data: results, isFetching } = useQuery<SearchResults>({
+    queryKey: [`/api/search?${params.toString()}`, localStorage.getItem('selectedCompany')],
+    enabled: open && query.length >= 2,
+    staleTime: 30000,
+  });
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) {
+      setInput("");
+      setQuery("");
+      setSource(null);
+    }
+    onOpenChange(nextOpen);
+  };
+
+  const handleSelect = (hit: SearchHit) => {
+    handleOpenChange(false);
+    setLocation(getHitLocation(hit));
+  };
+
+  const hitsBySource = (results?.hits ?? []).reduce<Partial<Record<SearchSourceType, SearchHit[]>>>((groups, hit) => {
+    (groups[hit.sourceType] ??= []).push(hit);
+    return groups;
+  }, {});
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="overflow-hidden p-0 shadow-lg max-w-2xl">
+        <DialogTitle className="sr-only">Search</DialogTitle>
+        <Command shouldFilter={false} className="[&_[cmdk-group-heading]]:px-2 [&_[cmdk-group-heading]]:font-medium [&_[cmdk-group-heading]]:text-muted-foreground [&_[cmdk-group]]:px-2 [&_[cmdk-input]]:h-12 [&_[cmdk-item]]:px-2 [&_[cmdk-item]]:py-3">
+          <CommandInput
+            value={input}
+            onValueChange={setInput}
+            placeholder="Search emails, tasks, attachments and T5T submissions..."
+          />
+
+          {results && results.facets.sourceType.length > 0 && (
+            <div className="flex flex-wrap items-center gap-2 border-b px-3 py-2">
+              <Badge
+                variant={source ? "outline" : "default"}
+                className="cursor-pointer"
+                onClick={() => setSource(null)}
+              >
+                All
+              </Badge>
+              {results.facets.sourceType.map(facet => (
+                <Badge
+                  key={facet.value}
+                  variant={source === facet.value ? "default" : "outline"}
+                  className="cursor-pointer"
+                  onClick={() => setSource(source === facet.value ? null : facet.value as SearchSourceType)}
+                >
+                  {SOURCE_LABELS[facet.value as SearchSourceType] ?? facet.value} ({facet.count})
+                </Badge>
+              ))}
+              {isFetching && <Loader2 className="h-4 w-4 animate-spin text-gray-400" />}
+            </div>
+          )}
+
+          <CommandList className="max-h-[420px]">
+            {query.length < 2 ? (
+              <div className="py-6 text-center text-sm text-gray-500">Type at least 2 characters to search</div>
+            ) : !results && isFetching ? (
+              <div className="flex justify-center py-6"><Loader2 className="h-5 w-5 animate-spin text-gray-400" /></div>
+            ) : (
+              <CommandEmpty>No results for "{query}"</CommandEmpty>
+            )}
+
+            {(Object.keys(hitsBySource) as SearchSourceType[]).map(sourceType => {
+              const Icon = SOURCE_ICONS[sourceType];
+              return (
+                <CommandGroup key={sourceType} heading={SOURCE_LABELS[sourceType]}>
+                  {hitsBySource[sourceType]!.map(hit => (
+                    <CommandItem
+                      key={`${hit.sourceType}-${hit.id}`}
+                      value={`${hit.sourceType}-${hit.id}`}
+                      onSelect={() => handleSelect(hit)}
+                      className="items-start gap-3 cursor-pointer"
+                    >
+                      <Icon className="h-4 w-4 mt-0.5 flex-shrink-0 text-gray-500" />
+                      <div className="min-w-0 flex-1">
+                        <div className="flex items-center justify-between gap-2">
+                          <p className="truncate text-sm font-medium text-gray-900">{hit.title}</p>
+                          <div className="flex flex-shrink-0 items-center gap-2">
+                            {hit.agentType && <Badge variant="secondary" className="text-xs">{hit.agentType}</Badge>}
+                            {hit.date && <span className="text-xs text-gray-400">{format(new Date(hit.date), 'MMM d, yyyy')}</span>}
+                          </div>
+                        </div>
+                        {hit.snippet && (
+                          <p className="mt-1 text-xs text-gray-500 line-clamp-2">
+                            <Snippet text={hit.snippet} />
+                          </p>
+                        )}
+                      </div>
+                    </CommandItem>
+                  ))}
+                </CommandGroup>
+              );
+            })}
+
+            {results && results.total > results.hits.length && (
+              <div className="px-3 py-2 text-center text-xs text-gray-400">
+                Showing {results.hits.length} of {results.total} results — refine your search to narrow them down
+              </div>
+            )}
+          </CommandList>
+        </Command>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,165 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { MessageSquare, Mail, ArrowRight, Calendar, UserPlus, UserMinus, Bot } from "lucide-react";
+import type { TaskActivityWithUser } from "@email-task-router/shared";
+
+interface TaskActivityTimelineProps {
+  taskId: number;
+  // Assignees of the task, to name users in assignment entries
+  assignees?: any[];
+}
+
+const formatDueDate = (value: string | null) => value ? new Date(value).toLocaleDateString() : 'none';
+
+const getAuthorName = (activity: TaskActivityWithUser) => {
+  if (!activity.user) return activity.source === 'system' ? 'Automatic' : 'Someone';
+  return [activity.user.firstName, activity.user.lastName].filter(Boolean).join(' ') || activity.user.email || 'Someone';
+};
+
+export default function TaskActivityTimeline({ taskId, assignees = [] }: TaskActivityTimelineProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [comment, setComment] = useState("");
+
+  const { data: activities = [], isLoading } = useQuery<TaskActivityWithUser[]>({
+    queryKey: [`/api/tasks/${taskId}/activity`],
+    refetchInterval: 30000,
+  });
+
+  const addCommentMutation = useMutation({
+    mutationFn: async (body: string) => {
+      await apiRequest('POST', `/api/tasks/${taskId}/comments`, { body });
+    },
+    onSuccess: () => {
+      setComment("");
+      queryClient.invalidateQueries({ queryKey: [`/api/tasks/${taskId}/activity`] });
+    },
+    onError: (error: Error) => {
+      if (isUnauthorizedError(error)) {
+        toast({
+          title: "Unauthorized",
+          description: "You are logged out. Logging in again...",
+          variant: "destructive",
+        });
+        setTimeout(() => {
+          window.location.href = "/api/login";
+        }, 500);
+        return;
+      }
+      toast({
+        title: "Error",
+        description: "Failed to add comment",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const getAssigneeName = (userId: string | null) => {
+    const assignee = assignees.find((a: any) => a.user?.id === userId || a.userId === userId);
+    return assignee?.user?.firstName || assignee?.user?.email || 'a user';
+  };
+
+  const describeActivity = (activity: TaskActivityWithUser) => {
+    switch (activity.type) {
+      case 'status_change':
+        return (
+          <span className="flex items-center gap-1 flex-wrap">
+            changed status {activity.fromValue}
+            <ArrowRight className="h-3 w-3" />
+            <span className="font-medium">{activity.toValue}</span>
+          </span>
+        );
+      case 'due_date_change':
+        return `moved the due date from ${formatDueDate(activity.fromValue)} to ${formatDueDate(activity.toValue)}`;
+      case 'assignee_added':
+        return `assigned ${getAssigneeName(activity.toValue)}`;
+      case 'assignee_removed':
+        return `unassigned ${getAssigneeName(activity.fromValue)}`;
+      default:
+        return activity.source === 'email' ? 'replied by email' : 'commented';
+    }
+  };
+
+  const getIcon = (activity: TaskActivityWithUser) => {
+    switch (activity.type) {
+      case 'status_change':
+        return activity.source === 'system' ? Bot : ArrowRight;
+      case 'due_date_change':
+        return Calendar;
+      case 'assignee_added':
+        return UserPlus;
+      case 'assignee_removed':
+        return UserMinus;
+      default:
+        return activity.source === 'email' ? Mail : MessageSquare;
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <Label>Activity</Label>
+
+      <div className="space-y-3 max-h-64 overflow-y-auto pr-1">
+        {isLoading && <p className="text-sm text-gray-500">Loading activity...</p>}
+        {!isLoading && activities.length === 0 && (
+          <p className="text-sm text-gray-500">No activity yet</p>
+        )}
+        {activities.map(activity => {
+          const Icon = getIcon(activity);
+          return (
+            <div key={activity.id} className="flex gap-2">
+              <Avatar className="h-6 w-6 flex-shrink-0">
+                <AvatarImage src={activity.user?.profileImageUrl || ""} alt={activity.user?.email || ""} />
+                <AvatarFallback className="text-xs bg-blue-500 text-white">
+                  {activity.user?.firstName?.[0] || activity.user?.email?.[0]?.toUpperCase() || <Icon className="h-3 w-3" />}
+                </AvatarFallback>
+              </Avatar>
+              <div className="min-w-0 flex-1">
+                <div className="flex items-center gap-1 text-xs text-gray-500">
+                  <Icon className="h-3 w-3 flex-shrink-0" />
+                  <span className="font-medium text-gray-700">{getAuthorName(activity)}</span>
+                  <span className="min-w-0">{describeActivity(activity)}</span>
+                  <span className="ml-auto flex-shrink-0">
+                    {formatDistanceToNow(new Date(activity.createdAt), { addSuffix: true })}
+                  </span>
+                </div>
+                {activity.body && (
+                  <p className="text-sm text-gray-700 mt-1 whitespace-pre-wrap break-words bg-gray-50 rounded p-2">
+                    {activity.body}
+                  </p>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="space-y-2">
+        <Textarea
+          value={comment}
+          onChange={(e) => setComment(e.target.value)}
+          placeholder="Add a comment (assignees are emailed in the task's thread)"
+          rows={2}
+        />
+        <div className="flex justify-end">
+          <Button
+            type="button"
+            size="sm"
+            onClick={() => addCommentMutation.mutate(comment.trim())}
+            disabled={!comment.trim() || addCommentMutation.isPending}
+          >
+            {addCommentMutation.isPending ? 'Posting...' : 'Comment'}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -31,15 +31,53 @@ import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { isUnauthorizedError } from "@/lib/authUtils";
-import { Trash2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Trash2, X, Lock, ArrowRight, Repeat } from "lucide-react";
+import type { TaskRecurrenceRule } from "@email-task-router/shared";
+import TaskActivityTimeline from "./TaskActivityTimeline";
 
 interface TaskModalProps {
   isOpen: boolean;
   onClose: () => void;
   task?: any;
+  // Other tasks of the project, used to pick dependencies
+  projectTasks?: any[];
 }
 
-export default function TaskModal({ isOpen, onClose, task }: TaskModalProps) {
+const isDoneStatus = (status: string) => ['completed', 'done', 'finished'].includes(status?.toLowerCase());
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+interface RecurrenceForm {
+  frequency: string; // 'none', 'daily', 'weekly' or 'monthly'
+  interval: string;
+  byWeekday: number[];
+  ends: string; // 'never', 'until' or 'count'
+  until: string;
+  count: string;
+}
+
+const toRecurrenceForm = (rule?: TaskRecurrenceRule | null): RecurrenceForm => ({
+  frequency: rule?.frequency || 'none',
+  interval: String(rule?.interval || 1),
+  byWeekday: rule?.byWeekday || [],
+  ends: rule?.until ? 'until' : rule?.count ? 'count' : 'never',
+  until: rule?.until || '',
+  count: rule?.count ? String(rule.count) : '',
+});
+
+const toRecurrenceRule = (form: RecurrenceForm): TaskRecurrenceRule | null => {
+  if (form.frequency === 'none') return null;
+  return {
+    frequency: form.frequency as TaskRecurrenceRule['frequency'],
+    interval: Math.max(1, parseInt(form.interval) || 1),
+    ...(form.frequency === 'weekly' && form.byWeekday.length > 0 ? { byWeekday: form.byWeekday } : {}),
+    ...(form.ends === 'until' && form.until ? { until: form.until } : {}),
+    ...(form.ends === 'count' && parseInt(form.count) > 0 ? { count: parseInt(form.count) } : {}),
+  };
+};
+
+export default function TaskModal({ isOpen, onClose, task, projectTasks = [] }: TaskModalProps) {
   const { toast } = useToast();
   const queryClient = useQueryClient();
   
@@ -49,6 +87,7 @@ export default function TaskModal({ isOpen, onClose, task }: TaskModalProps) {
     priority: "medium",
     dueDate: "",
   });
+  const [recurrence, setRecurrence] = useState<RecurrenceForm>(toRecurrenceForm());
 
   // Update form data when task changes
   useEffect(() => {
@@ -59,6 +98,7 @@ export default function TaskModal({ isOpen, onClose, task }: TaskModalProps) {
         priority: task.priority || "medium",
         dueDate: task.dueDate ? new Date(task.dueDate).toISOString().split('T')[0] : "",
       });
+      setRecurrence(toRecurrenceForm(task.recurrenceRule));
     } else {
       // Reset form when no task (for creating new tasks)
       setFormData({
@@ -67,6 +107,7 @@ export default function TaskModal({ isOpen, onClose, task }: TaskModalProps) {
         priority: "medium",
         dueDate: "",
       });
+      setRecurrence(toRecurrenceForm());
     }
   }, [task, isOpen]);
 
@@ -78,6 +119,7 @@ export default function TaskModal({ isOpen, onClose, task }: TaskModalProps) {
       queryClient.invalidateQueries({ queryKey: ['/api/tasks'] });
       queryClient.invalidateQueries({ queryKey: ['/api/tasks/assigned'] });
       queryClient.invalidateQueries({ queryKey: ['/api/stats'] });
+      queryClient.invalidateQueries({ queryKey: [`/api/tasks/${task.id}/activity`] });
       toast({
         title: "Success",
         description: "Task updated successfully",
@@ -138,12 +180,60 @@ export default function TaskModal({ isOpen, onClose, task }: TaskModalProps) {
     },
   });
 
+  // The board refetches after dependency changes; read them from the fresh copy of the task
+  const currentTask = projectTasks.find((projectTask: any) => projectTask.id === task?.id) || task;
+  const dependencies: any[] = currentTask?.dependencies || [];
+  const dependents: any[] = currentTask?.dependents || [];
+  const dependencyCandidates = projectTasks.filter((projectTask: any) =>
+    projectTask.id !== task?.id && !dependencies.some(dependency => dependency.id === projectTask.id)
+  );
+
+  const handleDependencyError = (error: Error, fallback: string) => {
+    if (isUnauthorizedError(error)) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+    toast({
+      title: "Error",
+      description: error.message || fallback,
+      variant: "destructive",
+    });
+  };
+
+  const addDependencyMutation = useMutation({
+    mutationFn: async (dependsOnTaskId: number) => {
+      await apiRequest('POST', `/api/tasks/${task.id}/dependencies`, { dependsOnTaskId });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/projects', task?.projectId, 'tasks'] });
+    },
+    onError: (error: Error) => handleDependencyError(error, "Failed to add dependency"),
+  });
+
+  const removeDependencyMutation = useMutation({
+    mutationFn: async (dependsOnTaskId: number) => {
+      await apiRequest('DELETE', `/api/tasks/${task.id}/dependencies/${dependsOnTaskId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/projects', task?.projectId, 'tasks'] });
+    },
+    onError: (error: Error) => handleDependencyError(error, "Failed to remove dependency"),
+  });
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     
     const updates = {
       ...formData,
       dueDate: formData.dueDate ? new Date(formData.dueDate).toISOString() : null,
+      recurrenceRule: toRecurrenceRule(recurrence),
     };
     
     updateTaskMutation.mutate(updates);
@@ -153,9 +243,22 @@ export default function TaskModal({ isOpen, onClose, task }: TaskModalProps) {
     setFormData(prev => ({ ...prev, [field]: value }));
   };
 
+  const handleRecurrenceChange = (field: keyof RecurrenceForm, value: any) => {
+    setRecurrence(prev => ({ ...prev, [field]: value }));
+  };
+
+  const toggleWeekday = (day: number) => {
+    setRecurrence(prev => ({
+      ...prev,
+      byWeekday: prev.byWeekday.includes(day)
+        ? prev.byWeekday.filter(d => d !== day)
+        : [...prev.byWeekday, day].sort((a, b) => a - b),
+    }));
+  };
+
   return (
     <Dialog open={isOpen} onOpenChange={onClose}>
-      <DialogContent className="max-w-md bg-gradient-to-br from-white via-gray-50/30 to-white border border-gray-200 shadow-xl">
+      <DialogContent className="max-w-md max-h-[90vh] overflow-y-auto bg-gradient-to-br from-white via-gray-50/30 to-white border border-gray-200 shadow-xl">
         <DialogHeader className="bg-gradient-to-r from-blue-600 via-purple-600 to-indigo-700 text-white p-6 -m-6 mb-6 rounded-t-lg">
           <DialogTitle className="text-white font-semibold">{task ? 'Edit Task' : 'Create Task'}</DialogTitle>
         </DialogHeader>
@@ -207,6 +310,158 @@ export default function TaskModal({ isOpen, onClose, task }: TaskModalProps) {
             />
           </div>
           
+          <div>
+            <Label className="flex items-center gap-2">
+              <Repeat className="h-3 w-3" />
+              Repeat
+              {task?.recurrenceIndex > 1 && (
+                <span className="text-xs font-normal text-gray-500">Occurrence #{task.recurrenceIndex}</span>
+              )}
+            </Label>
+            <div className="mt-1 space-y-2">
+              <div className="flex gap-2">
+                <Select value={recurrence.frequency} onValueChange={(value) => handleRecurrenceChange('frequency', value)}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Does not repeat" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">Does not repeat</SelectItem>
+                    <SelectItem value="daily">Daily</SelectItem>
+                    <SelectItem value="weekly">Weekly</SelectItem>
+                    <SelectItem value="monthly">Monthly</SelectItem>
+                  </SelectContent>
+                </Select>
+                {recurrence.frequency !== 'none' && (
+                  <div className="flex items-center gap-2 text-sm text-gray-500">
+                    <span>every</span>
+                    <Input
+                      type="number"
+                      min={1}
+                      className="w-16"
+                      value={recurrence.interval}
+                      onChange={(e) => handleRecurrenceChange('interval', e.target.value)}
+                    />
+                    <span>{recurrence.frequency === 'daily' ? 'day(s)' : recurrence.frequency === 'weekly' ? 'week(s)' : 'month(s)'}</span>
+                  </div>
+                )}
+              </div>
+              
+              {recurrence.frequency === 'weekly' && (
+                <div className="flex gap-1">
+                  {WEEKDAYS.map((label, day) => (
+                    <Button
+                      key={label}
+                      type="button"
+                      size="sm"
+                      variant={recurrence.byWeekday.includes(day) ? "default" : "outline"}
+                      className="h-7 px-2 text-xs"
+                      onClick={() => toggleWeekday(day)}
+                    >
+                      {label}
+                    </Button>
+                  ))}
+                </div>
+              )}
+              
+              {recurrence.frequency !== 'none' && (
+                <div className="flex gap-2">
+                  <Select value={recurrence.ends} onValueChange={(value) => handleRecurrenceChange('ends', value)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="never">Never ends</SelectItem>
+                      <SelectItem value="until">Ends on</SelectItem>
+                      <SelectItem value="count">Ends after</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  {recurrence.ends === 'until' && (
+                    <Input
+                      type="date"
+                      value={recurrence.until}
+                      onChange={(e) => handleRecurrenceChange('until', e.target.value)}
+                    />
+                  )}
+                  {recurrence.ends === 'count' && (
+                    <div className="flex items-center gap-2 text-sm text-gray-500">
+                      <Input
+                        type="number"
+                        min={1}
+                        className="w-16"
+                        value={recurrence.count}
+                        onChange={(e) => handleRecurrenceChange('count', e.target.value)}
+                      />
+                      <span>times</span>
+                    </div>
+                  )}
+                </div>
+              )}
+            </div>
+          </div>
+          
+          {task && (
+            <div>
+              <Label className="flex items-center gap-2">
+                Depends On
+                {currentTask?.status === 'blocked' && (
+                  <Badge variant="outline" className="text-xs bg-red-50 text-red-700 border-red-300">
+                    <Lock className="h-3 w-3 mr-1" />
+                    Blocked
+                  </Badge>
+                )}
+              </Label>
+              <div className="mt-1 space-y-1">
+                {dependencies.length === 0 && (
+                  <p className="text-sm text-gray-500">No dependencies</p>
+                )}
+                {dependencies.map(dependency => (
+                  <div key={dependency.id} className="flex items-center justify-between text-sm">
+                    <div className="flex items-center min-w-0">
+                      <ArrowRight className="h-3 w-3 mr-1 flex-shrink-0 text-gray-400" />
+                      <span className={isDoneStatus(dependency.status) ? "truncate text-gray-400 line-through" : "truncate text-gray-700"}>
+                        {dependency.title}
+                      </span>
+                    </div>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      className="h-6 w-6 p-0"
+                      onClick={() => removeDependencyMutation.mutate(dependency.id)}
+                      disabled={removeDependencyMutation.isPending}
+                      title="Remove dependency"
+                    >
+                      <X className="h-3 w-3" />
+                    </Button>
+                  </div>
+                ))}
+                {dependencyCandidates.length > 0 && (
+                  <Select
+                    value=""
+                    onValueChange={(value) => addDependencyMutation.mutate(parseInt(value))}
+                    disabled={addDependencyMutation.isPending}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Add a task this one waits on" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {dependencyCandidates.map((candidate: any) => (
+                        <SelectItem key={candidate.id} value={candidate.id.toString()}>
+                          {candidate.title}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+              </div>
+              {dependents.length > 0 && (
+                <p className="text-sm text-gray-500 mt-2">
+                  Blocks: {dependents.map(dependent => dependent.title).join(', ')}
+                </p>
+              )}
+            </div>
+          )}
+          
           {task?.sourceEmail && (
             <div>
               <Label>Source Email</Label>
@@ -215,6 +470,22 @@ export default function TaskModal({ isOpen, onClose, task }: TaskModalProps) {
               </p>
             </div>
           )}
+
+          {task?.sourceAttachmentId && (
+            <div>
+              <Label>Source Document</Label>
+              <p className="text-sm mt-1">
+                <a
+                  href={`/api/attachments/${task.sourceAttachmentId}/download`}
+                  className="text-blue-600 hover:underline"
+                  target="_blank"
+                  rel="noopener noreferrer"
+                >
+                  Download the document this task came from
+                </a>
+              </p>
+            </div>
+          )}
           
           <div className="flex space-x-3 pt-4 border-t border-gray-200 mt-6">
             <Button 
@@ -266,6 +537,12 @@ export default function TaskModal({ isOpen, onClose, task }: TaskModalProps) {
             </AlertDialog>
           </div>
         </form>
+        
+        {task && (
+          <div className="pt-4 border-t border-gray-200">
+            <TaskActivityTimeline taskId={task.id} assignees={currentTask?.assignees} />
+          </div>
+        )}
       </DialogContent>
     </Dialog>
   );
@@ -5,6 +5,7 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
+import AnalyzerTaskOptions from "@/components/AnalyzerTaskOptions";
 import {
   FileText,
   RefreshCw,
@@ -243,6 +244,7 @@ export default function AnalyzerPage() {
                           analyzer@inboxleap.com
                         </Badge>
                       </div>
+                      <AnalyzerTaskOptions />
                     </div>
                   </CardContent>
                 </Card>
@@ -329,6 +331,20 @@ export default function AnalyzerPage() {
                                         </div>
                                       )}
 
+                                      {result.aiAnalysis.actionItems && result.aiAnalysis.actionItems.length > 0 && (
+                                        <div>
+                                          <h4 className="text-sm font-semibold text-gray-700 mb-2">Action Items</h4>
+                                          <ul className="space-y-1">
+                                            {result.aiAnalysis.actionItems.map((item: string, i: number) => (
+                                              <li key={i} className="text-sm text-gray-600 flex gap-2">
+                                                <span className="text-orange-500">☐</span>
+                                                <span>{item}</span>
+                                              </li>
+                                            ))}
+                                          </ul>
+                                        </div>
+                                      )}
+
                                       {result.aiAnalysis.insights && result.aiAnalysis.insights.length > 0 && (
                                         <div>
                                           <h4 className="text-sm font-semibold text-gray-700 mb-2">Insights</h4>
@@ -8,6 +8,8 @@ import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import AgentInstanceManager from "@/components/AgentInstanceManager";
 import { PollingDashboardPage } from "@/pages/polling-dashboard";
+import PollResults from "@/components/PollResults";
+import { useLocation } from "wouter";
 import { Vote, Settings, Users, BarChart3, MessageSquare } from "lucide-react";
 
 interface AgentInstance {
@@ -27,15 +29,20 @@ export default function PollyPage() {
   const agent = getAgentById('polly');
   const { instances, primaryInstance, hasInstances, isCompanyMode, companyName } = useAgentInstances('polly');
   const [selectedInstance, setSelectedInstance] = useState<AgentInstance | null>(null);
-  const [activeTab, setActiveTab] = useState<string>("dashboard");
+  const [location] = useLocation();
+  const pollParam = new URLSearchParams(location.split("?")[1] || window.location.search.slice(1)).get("poll");
+  const highlightPollId = pollParam ? parseInt(pollParam) : null;
+  const [activeTab, setActiveTab] = useState<string>(highlightPollId ? "polls" : "dashboard");
 
   // Set default instance on load
   useEffect(() => {
     if (!selectedInstance && primaryInstance) {
       setSelectedInstance(primaryInstance);
-      setActiveTab("dashboard");
+      if (!highlightPollId) {
+        setActiveTab("dashboard");
+      }
     }
-  }, [primaryInstance, selectedInstance]);
+  }, [primaryInstance, selectedInstance, highlightPollId]);
 
   const handleInstanceSelect = (instance: AgentInstance | null) => {
     setSelectedInstance(instance);
@@ -47,7 +54,7 @@ export default function PollyPage() {
   // Only switch to instances tab if explicitly needed
   useEffect(() => {
     const shouldShowInstances = !hasInstances && !primaryInstance && isCompanyMode;
-    if (shouldShowInstances && activeTab !== "instances") {
+    if (shouldShowInstances && activeTab === "dashboard") {
       setActiveTab("instances");
     }
   }, [hasInstances, primaryInstance, isCompanyMode, activeTab]);
@@ -133,7 +140,7 @@ export default function PollyPage() {
 
         <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
           <div className="bg-white/80 backdrop-blur-sm rounded-2xl p-2 shadow-lg border border-border/20 mb-8">
-            <TabsList className="grid w-full grid-cols-2 bg-transparent gap-2">
+            <TabsList className="grid w-full grid-cols-3 bg-transparent gap-2">
               <TabsTrigger 
                 value="instances" 
                 className="flex items-center gap-2 data-[state=active]:bg-gradient-to-r data-[state=active]:from-purple-500 data-[state=active]:to-pink-600 data-[state=active]:text-white data-[state=active]:shadow-lg rounded-xl transition-all duration-200 px-4"
@@ -154,6 +161,13 @@ export default function PollyPage() {
                   </Badge>
                 )}
               </TabsTrigger>
+              <TabsTrigger 
+                value="polls" 
+                className="flex items-center gap-2 data-[state=active]:bg-gradient-to-r data-[state=active]:from-rose-500 data-[state=active]:to-purple-600 data-[state=active]:text-white data-[state=active]:shadow-lg rounded-xl transition-all duration-200 px-4"
+              >
+                <BarChart3 className="h-4 w-4" />
+                Poll Results
+              </TabsTrigger>
             </TabsList>
           </div>
 
@@ -185,6 +199,10 @@ export default function PollyPage() {
             </Card>
           )}
         </TabsContent>
+
+        <TabsContent value="polls" className="space-y-6">
+          <PollResults highlightPollId={highlightPollId} />
+        </TabsContent>
         </Tabs>
       </div>
     </div>
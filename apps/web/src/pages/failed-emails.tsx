@@ -0,0 +1,352 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { isUnauthorizedError } from "@/lib/authUtils";
+import { useLocation } from "wouter";
+import { formatDistanceToNow } from "date-fns";
+import { AlertTriangle, ArrowLeft, Eye, Inbox, Paperclip, RefreshCw, RotateCcw, Trash2 } from "lucide-react";
+
+interface FailedEmail {
+  id: number;
+  queue: string;
+  subject: string | null;
+  sender: string | null;
+  messageId: string | null;
+  userId: string | null;
+  failureReason: string | null;
+  route: 'task' | 'intelligence' | 'load_balancer' | null;
+  attempts: number;
+  maxAttempts: number;
+  s3Key?: string;
+  createdAt: string | null;
+  deadLetteredAt: string | null;
+}
+
+interface FailedEmailDetail extends FailedEmail {
+  email?: {
+    from: string;
+    to: string[];
+    cc: string[];
+    bcc: string[];
+    subject: string;
+    body: string;
+    date: string;
+    messageId: string;
+    inReplyTo?: string;
+    attachments: Array<{ filename: string; contentType: string; size: number }>;
+  };
+  payload?: Record<string, unknown>;
+}
+
+const QUEUE_LABELS: Record<string, string> = {
+  email: 'Email queue',
+  t5t_batch: 'T5T batch',
+  s3_backup: 'S3 backup',
+};
+
+const ROUTE_LABELS: Record<string, string> = {
+  task: 'Task agents',
+  intelligence: 'Intelligence agents',
+  load_balancer: 'Load balancer',
+};
+
+export default function FailedEmailsPage() {
+  const { toast } = useToast();
+  const [, setLocation] = useLocation();
+  const [queueFilter, setQueueFilter] = useState<string>('all');
+  const [inspectedId, setInspectedId] = useState<number | null>(null);
+
+  useEffect(() => {
+    document.title = 'Failed Emails - InboxLeap';
+  }, []);
+
+  const listUrl = queueFilter === 'all' ? '/api/admin/failed-emails' : `/api/admin/failed-emails?queue=${queueFilter}`;
+  const { data: failedEmails = [], isPending, error, refetch, isFetching } = useQuery<FailedEmail[]>({
+    queryKey: [listUrl],
+  });
+
+  const { data: inspected, isPending: isInspectedPending } = useQuery<FailedEmailDetail>({
+    queryKey: [`/api/admin/failed-emails/${inspectedId}`],
+    enabled: inspectedId !== null,
+  });
+
+  const invalidateFailedEmails = () => {
+    queryClient.invalidateQueries({
+      predicate: query => String(query.queryKey[0]).startsWith('/api/admin/failed-emails'),
+    });
+  };
+
+  const handleMutationError = (title: string, error: Error) => {
+    if (isUnauthorizedError(error)) {
+      toast({
+        title: "Unauthorized",
+        description: "You are logged out. Logging in again...",
+        variant: "destructive",
+      });
+      setTimeout(() => {
+        window.location.href = "/api/login";
+      }, 500);
+      return;
+    }
+    toast({
+      title,
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const replayMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await apiRequest('POST', `/api/admin/failed-emails/${id}/replay`);
+      return response.json();
+    },
+    onSuccess: (data: { message: string }) => {
+      toast({
+        title: "Email Replayed",
+        description: data.message,
+      });
+      setInspectedId(null);
+      invalidateFailedEmails();
+    },
+    onError: (error: Error) => {
+      handleMutationError("Replay Failed", error);
+      invalidateFailedEmails();
+    },
+  });
+
+  const discardMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest('DELETE', `/api/admin/failed-emails/${id}`);
+    },
+    onSuccess: () => {
+      toast({
+        title: "Email Discarded",
+        description: "The failed email was removed from the inbox",
+      });
+      setInspectedId(null);
+      invalidateFailedEmails();
+    },
+    onError: (error: Error) => handleMutationError("Discard Failed", error),
+  });
+
+  const isActing = replayMutation.isPending || discardMutation.isPending;
+
+  const formatTime = (value: string | null) =>
+    value ? formatDistanceToNow(new Date(value), { addSuffix: true }) : 'Unknown';
+
+  const renderRoute = (route: FailedEmail['route']) => (
+    <Badge variant={route ? "secondary" : "outline"}>
+      {route ? ROUTE_LABELS[route] || route : 'No route'}
+    </Badge>
+  );
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-50 to-gray-100">
+      <div className="p-6 max-w-7xl mx-auto space-y-6">
+        {/* Header */}
+        <div>
+          <div className="flex items-center gap-4 mb-2">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setLocation('/dashboard')}
+              className="flex items-center gap-2 text-gray-600 hover:text-gray-900"
+            >
+              <ArrowLeft className="h-4 w-4" />
+              Back to Dashboard
+            </Button>
+          </div>
+          <h1 className="text-3xl font-bold text-gray-900">Failed Emails</h1>
+          <p className="mt-2 text-gray-600">
+            Emails that ran out of retries or could not be processed from the S3 backup. Replay them once the cause is fixed.
+          </p>
+        </div>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <AlertTriangle className="h-5 w-5 text-red-500" />
+                Dead-letter inbox
+              </CardTitle>
+              <CardDescription>
+                {failedEmails.length} failed email{failedEmails.length === 1 ? '' : 's'}
+              </CardDescription>
+            </div>
+            <div className="flex items-center gap-2">
+              <Select value={queueFilter} onValueChange={setQueueFilter}>
+                <SelectTrigger className="w-40">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All queues</SelectItem>
+                  {Object.entries(QUEUE_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button variant="outline" size="sm" onClick={() => refetch()} disabled={isFetching}>
+                <RefreshCw className={`h-4 w-4 ${isFetching ? 'animate-spin' : ''}`} />
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {isPending ? (
+              <div className="py-12 text-center text-muted-foreground">Loading failed emails...</div>
+            ) : error ? (
+              <div className="py-12 text-center text-red-600">
+                {(error as Error).message.startsWith('403')
+                  ? 'Admin privileges are required to view failed emails.'
+                  : 'Failed to load failed emails.'}
+              </div>
+            ) : failedEmails.length === 0 ? (
+              <div className="py-12 text-center text-muted-foreground">
+                <Inbox className="h-10 w-10 mx-auto mb-3 text-gray-300" />
+                No failed emails
+              </div>
+            ) : (
+              <div className="divide-y">
+                {failedEmails.map(failedEmail => (
+                  <div key={failedEmail.id} className="py-4 flex items-start justify-between gap-4">
+                    <div className="min-w-0 flex-1 space-y-1">
+                      <div className="flex items-center gap-2 flex-wrap">
+                        <span className="font-medium text-gray-900 truncate">
+                          {failedEmail.subject || '(no subject)'}
+                        </span>
+                        <Badge variant="outline">{QUEUE_LABELS[failedEmail.queue] || failedEmail.queue}</Badge>
+                        {renderRoute(failedEmail.route)}
+                      </div>
+                      <div className="text-sm text-gray-600">
+                        {failedEmail.sender || 'Unknown sender'} · failed {formatTime(failedEmail.deadLetteredAt)} · {failedEmail.attempts}/{failedEmail.maxAttempts} attempts
+                      </div>
+                      <div className="text-sm text-red-600 line-clamp-2">
+                        {failedEmail.failureReason || 'No failure reason recorded'}
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-2 shrink-0">
+                      <Button variant="outline" size="sm" onClick={() => setInspectedId(failedEmail.id)}>
+                        <Eye className="h-4 w-4 mr-1" />
+                        Inspect
+                      </Button>
+                      <Button size="sm" onClick={() => replayMutation.mutate(failedEmail.id)} disabled={isActing}>
+                        <RotateCcw className="h-4 w-4 mr-1" />
+                        Replay
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => discardMutation.mutate(failedEmail.id)}
+                        disabled={isActing}
+                        className="text-gray-500 hover:text-red-600"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Dialog open={inspectedId !== null} onOpenChange={open => !open && setInspectedId(null)}>
+        <DialogContent className="max-w-3xl max-h-[85vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{inspected?.subject || 'Failed email'}</DialogTitle>
+            <DialogDescription>
+              {inspected ? `${QUEUE_LABELS[inspected.queue] || inspected.queue} · job #${inspected.id}` : 'Loading...'}
+            </DialogDescription>
+          </DialogHeader>
+
+          {isInspectedPending || !inspected ? (
+            <div className="py-8 text-center text-muted-foreground">Loading...</div>
+          ) : (
+            <div className="space-y-4 text-sm">
+              <div className="rounded-md bg-red-50 border border-red-200 p-3 text-red-700 whitespace-pre-wrap break-words">
+                {inspected.failureReason || 'No failure reason recorded'}
+              </div>
+
+              <div className="grid grid-cols-[120px_1fr] gap-x-4 gap-y-2">
+                <span className="text-gray-500">Route</span>
+                <span>{renderRoute(inspected.route)}</span>
+                <span className="text-gray-500">Attempts</span>
+                <span>{inspected.attempts}/{inspected.maxAttempts}</span>
+                <span className="text-gray-500">Failed</span>
+                <span>{formatTime(inspected.deadLetteredAt)}</span>
+                <span className="text-gray-500">Message ID</span>
+                <span className="break-all">{inspected.messageId || 'Unknown'}</span>
+                {inspected.s3Key && (
+                  <>
+                    <span className="text-gray-500">S3 key</span>
+                    <span className="break-all">{inspected.s3Key}</span>
+                  </>
+                )}
+                {inspected.email && (
+                  <>
+                    <span className="text-gray-500">From</span>
+                    <span>{inspected.email.from}</span>
+                    <span className="text-gray-500">To</span>
+                    <span>{inspected.email.to.join(', ') || '—'}</span>
+                    {inspected.email.cc.length > 0 && (
+                      <>
+                        <span className="text-gray-500">Cc</span>
+                        <span>{inspected.email.cc.join(', ')}</span>
+                      </>
+                    )}
+                  </>
+                )}
+              </div>
+
+              {inspected.email ? (
+                <>
+                  {inspected.email.attachments.length > 0 && (
+                    <div className="flex flex-wrap gap-2">
+                      {inspected.email.attachments.map(attachment => (
+                        <Badge key={attachment.filename} variant="outline" className="flex items-center gap-1">
+                          <Paperclip className="h-3 w-3" />
+                          {attachment.filename}
+                        </Badge>
+                      ))}
+                    </div>
+                  )}
+                  <pre className="rounded-md bg-gray-50 border p-3 whitespace-pre-wrap break-words max-h-72 overflow-y-auto font-sans">
+                    {inspected.email.body}
+                  </pre>
+                </>
+              ) : inspected.payload ? (
+                <pre className="rounded-md bg-gray-50 border p-3 whitespace-pre-wrap break-words max-h-72 overflow-y-auto text-xs">
+                  {JSON.stringify(inspected.payload, null, 2)}
+                </pre>
+              ) : null}
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => inspectedId !== null && discardMutation.mutate(inspectedId)}
+              disabled={isActing || !inspected}
+            >
+              <Trash2 className="h-4 w-4 mr-1" />
+              Discard
+            </Button>
+            <Button
+              onClick={() => inspectedId !== null && replayMutation.mutate(inspectedId)}
+              disabled={isActing || !inspected}
+            >
+              <RotateCcw className="h-4 w-4 mr-1" />
+              Replay
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,248 @@
+import { useState, useEffect, type ReactNode } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useLocation } from "wouter";
+import { Activity, ArrowLeft, Bot, Building2, Cpu, DollarSign, RefreshCw } from "lucide-react";
+
+interface UsageTotals {
+  requests: number;
+  failedRequests: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+}
+
+interface CostBreakdown {
+  since: string;
+  total: UsageTotals;
+  byAgent: Array<UsageTotals & { agent: string }>;
+  byModel: Array<UsageTotals & { model: string }>;
+  byCompany: Array<UsageTotals & { companyId: number | null; companyName: string | null }>;
+  daily: Array<UsageTotals & { day: string }>;
+}
+
+interface PerformanceDashboard {
+  summary: {
+    totalOperations24h: number;
+    successRate: number;
+    averageResponseTime: number;
+  };
+}
+
+const RANGE_OPTIONS = [
+  { value: '7', label: 'Last 7 days' },
+  { value: '30', label: 'Last 30 days' },
+  { value: '90', label: 'Last 90 days' },
+];
+
+const formatUsd = (value: number) =>
+  `$${value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: value < 1 ? 4 : 2 })}`;
+
+const formatTokens = (value: number) =>
+  value >= 1_000_000 ? `${(value / 1_000_000).toFixed(1)}M` : value >= 1_000 ? `${(value / 1_000).toFixed(1)}k` : String(value);
+
+export default function PerformancePage() {
+  const [, setLocation] = useLocation();
+  const [days, setDays] = useState('30');
+
+  useEffect(() => {
+    document.title = 'Performance - InboxLeap';
+  }, []);
+
+  const { data: dashboard } = useQuery<{ data: PerformanceDashboard }>({
+    queryKey: ['/api/performance/dashboard'],
+  });
+
+  const { data: costs, isPending, error, refetch, isFetching } = useQuery<{ data: CostBreakdown }>({
+    queryKey: [`/api/performance/costs?days=${days}`],
+  });
+
+  const breakdown = costs?.data;
+  const summary = dashboard?.data.summary;
+  const maxDailyCost = Math.max(...(breakdown?.daily.map(day => day.costUsd) ?? [0]), 0.000001);
+
+  const renderTotals = (totals: UsageTotals) => (
+    <div className="text-sm text-gray-600">
+      {totals.requests} request{totals.requests === 1 ? '' : 's'}
+      {totals.failedRequests > 0 && <span className="text-red-600"> ({totals.failedRequests} failed)</span>}
+      {' · '}{formatTokens(totals.inputTokens)} in / {formatTokens(totals.outputTokens)} out
+    </div>
+  );
+
+  const renderBreakdown = (
+    title: string,
+    icon: ReactNode,
+    rows: Array<{ key: string; label: string; totals: UsageTotals }>
+  ) => (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg">
+          {icon}
+          {title}
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {rows.length === 0 ? (
+          <div className="py-6 text-center text-muted-foreground">No usage recorded</div>
+        ) : (
+          <div className="divide-y">
+            {rows.map(row => (
+              <div key={row.key} className="py-3 flex items-start justify-between gap-4">
+                <div className="min-w-0">
+                  <div className="font-medium text-gray-900 truncate">{row.label}</div>
+                  {renderTotals(row.totals)}
+                </div>
+                <Badge variant="secondary" className="shrink-0">{formatUsd(row.totals.costUsd)}</Badge>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-50 to-gray-100">
+      <div className="p-6 max-w-7xl mx-auto space-y-6">
+        {/* Header */}
+        <div>
+          <div className="flex items-center gap-4 mb-2">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setLocation('/dashboard')}
+              className="flex items-center gap-2 text-gray-600 hover:text-gray-900"
+            >
+              <ArrowLeft className="h-4 w-4" />
+              Back to Dashboard
+            </Button>
+          </div>
+          <div className="flex items-end justify-between gap-4">
+            <div>
+              <h1 className="text-3xl font-bold text-gray-900">Performance</h1>
+              <p className="mt-2 text-gray-600">
+                Recorded Claude usage and cost by agent, model and company.
+              </p>
+            </div>
+            <div className="flex items-center gap-2">
+              <Select value={days} onValueChange={setDays}>
+                <SelectTrigger className="w-40">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {RANGE_OPTIONS.map(option => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button variant="outline" size="sm" onClick={() => refetch()} disabled={isFetching}>
+                <RefreshCw className={`h-4 w-4 ${isFetching ? 'animate-spin' : ''}`} />
+              </Button>
+            </div>
+          </div>
+        </div>
+
+        {isPending ? (
+          <div className="py-12 text-center text-muted-foreground">Loading usage...</div>
+        ) : error || !breakdown ? (
+          <div className="py-12 text-center text-red-600">
+            {(error as Error | null)?.message.startsWith('403')
+              ? 'Admin privileges are required to view performance data.'
+              : 'Failed to load usage.'}
+          </div>
+        ) : (
+          <>
+            {/* Summary */}
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardDescription className="flex items-center gap-2">
+                    <DollarSign className="h-4 w-4" />
+                    Claude cost
+                  </CardDescription>
+                  <CardTitle className="text-2xl">{formatUsd(breakdown.total.costUsd)}</CardTitle>
+                </CardHeader>
+              </Card>
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardDescription>Requests</CardDescription>
+                  <CardTitle className="text-2xl">{breakdown.total.requests.toLocaleString()}</CardTitle>
+                </CardHeader>
+                <CardContent className="text-sm text-gray-600">
+                  {breakdown.total.failedRequests} failed
+                </CardContent>
+              </Card>
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardDescription>Tokens</CardDescription>
+                  <CardTitle className="text-2xl">
+                    {formatTokens(breakdown.total.inputTokens + breakdown.total.outputTokens)}
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="text-sm text-gray-600">
+                  {formatTokens(breakdown.total.inputTokens)} in / {formatTokens(breakdown.total.outputTokens)} out
+                </CardContent>
+              </Card>
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardDescription className="flex items-center gap-2">
+                    <Activity className="h-4 w-4" />
+                    Agent operations (24h)
+                  </CardDescription>
+                  <CardTitle className="text-2xl">{summary?.totalOperations24h ?? '–'}</CardTitle>
+                </CardHeader>
+                <CardContent className="text-sm text-gray-600">
+                  {summary ? `${summary.successRate}% success · ${summary.averageResponseTime}ms avg` : 'Since last restart'}
+                </CardContent>
+              </Card>
+            </div>
+
+            {/* Daily cost */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Daily cost</CardTitle>
+                <CardDescription>UTC days with recorded usage</CardDescription>
+              </CardHeader>
+              <CardContent>
+                {breakdown.daily.length === 0 ? (
+                  <div className="py-6 text-center text-muted-foreground">No usage recorded</div>
+                ) : (
+                  <div className="space-y-2">
+                    {breakdown.daily.map(day => (
+                      <div key={day.day} className="flex items-center gap-3 text-sm">
+                        <span className="w-24 shrink-0 text-gray-600">{day.day}</span>
+                        <div className="flex-1 h-3 rounded bg-gray-100">
+                          <div
+                            className="h-3 rounded bg-blue-500"
+                            style={{ width: `${(day.costUsd / maxDailyCost) * 100}%` }}
+                          />
+                        </div>
+                        <span className="w-24 shrink-0 text-right font-medium">{formatUsd(day.costUsd)}</span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+              {renderBreakdown('By agent', <Bot className="h-5 w-5 text-blue-500" />,
+                breakdown.byAgent.map(row => ({ key: row.agent, label: row.agent, totals: row })))}
+              {renderBreakdown('By model', <Cpu className="h-5 w-5 text-purple-500" />,
+                breakdown.byModel.map(row => ({ key: row.model, label: row.model, totals: row })))}
+              {renderBreakdown('By company', <Building2 className="h-5 w-5 text-green-600" />,
+                breakdown.byCompany.map(row => ({
+                  key: String(row.companyId),
+                  label: row.companyId === null ? 'No company' : row.companyName || `Company ${row.companyId}`,
+                  totals: row,
+                })))}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
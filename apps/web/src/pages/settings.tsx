@@ -24,6 +24,7 @@ interface NotificationPreferences {
   taskAssignments: boolean;
   taskDueReminders: boolean;
   weeklyDigest: boolean;
+  timezone: string | null;
   createdAt?: string;
   updatedAt?: string;
 }
@@ -48,6 +49,7 @@ export default function SettingsPage() {
   const [loading, setLoading] = useState(true);
   const [linkedAccountsLoading, setLinkedAccountsLoading] = useState(true);
   const [updating, setUpdating] = useState<string | null>(null);
+  const deviceTimezone = Intl.DateTimeFormat().resolvedOptions().timeZone;
   const [showAddPasswordModal, setShowAddPasswordModal] = useState(false);
   const [passwordForm, setPasswordForm] = useState({
     password: '',
@@ -124,6 +126,27 @@ export default function SettingsPage() {
     }
   };
 
+  const updateDigestTimezone = async (timezone: string) => {
+    try {
+      setUpdating('timezone');
+      const response = await (await apiRequest('PATCH', '/api/notifications/preferences', { timezone })).json();
+      setNotifications(response.preferences);
+      toast({
+        title: "Settings Updated",
+        description: `Weekly digest time zone set to ${timezone}`,
+      });
+    } catch (error) {
+      console.error('Error updating digest time zone:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update time zone",
+        variant: "destructive",
+      });
+    } finally {
+      setUpdating(null);
+    }
+  };
+
   const loadLinkedAccounts = async () => {
     try {
       setLinkedAccountsLoading(true);
@@ -675,6 +698,29 @@ export default function SettingsPage() {
                         disabled={!notifications.emailNotifications || updating === 'weeklyDigest'}
                       />
                     </div>
+
+                    {notifications.weeklyDigest && notifications.emailNotifications && (
+                      <div className="flex items-center justify-between gap-4 px-4 py-3 bg-gray-50 border border-gray-200 rounded-xl">
+                        <p className="text-sm text-gray-600">
+                          Sent Mondays at 8:00 in <strong>{notifications.timezone || 'UTC'}</strong>
+                        </p>
+                        <div className="flex items-center gap-2 shrink-0">
+                          {deviceTimezone !== (notifications.timezone || 'UTC') && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => updateDigestTimezone(deviceTimezone)}
+                              disabled={updating === 'timezone'}
+                            >
+                              Use {deviceTimezone}
+                            </Button>
+                          )}
+                          <Button variant="ghost" size="sm" asChild>
+                            <a href="/api/notifications/digest/preview" target="_blank" rel="noreferrer">Preview</a>
+                          </Button>
+                        </div>
+                      </div>
+                    )}
                   </div>
 
                   {!notifications.emailNotifications && (
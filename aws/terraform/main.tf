@@ -53,9 +53,8 @@ variable "admin_email" {
 }
 
 variable "ses_webhook_secret" {
-  description = "Webhook secret for SES Lambda to backend authentication"
+  description = "Secret the SES Lambda signs backend webhook requests with (HMAC-SHA256); must match SES_WEBHOOK_SECRET"
   type        = string
-  default     = "changeme-webhook-secret-random-string"
   sensitive   = true
 }
 
@@ -232,11 +232,13 @@ data "archive_file" "email_webhook_processor_zip" {
   output_path = "email_webhook_processor.zip"
   source {
     content = <<EOF
+import hashlib
+import hmac
 import json
 import os
+import time
 import boto3
 import urllib3
-from email.parser import Parser
 
 s3_client = boto3.client('s3')
 http = urllib3.PoolManager()
@@ -245,84 +247,31 @@ BUCKET = os.environ.get('EMAIL_BUCKET')
 PREFIX = os.environ.get('EMAIL_PREFIX', '')
 DOMAIN_NAME = os.environ.get('DOMAIN_NAME')
 BACKEND_URL = os.environ.get('BACKEND_URL', 'https://inboxleap.com')
-WEBHOOK_SECRET = os.environ.get('WEBHOOK_SECRET', 'your-webhook-secret')
+WEBHOOK_SECRET = os.environ.get('WEBHOOK_SECRET')
 
-def parse_email_content(raw_email):
-    """Parse raw email content and extract structured data"""
-    try:
-        parser = Parser()
-        parsed_email = parser.parsestr(raw_email)
-        
-        # Extract basic headers
-        subject = parsed_email.get('Subject', 'No Subject')
-        from_addr = parsed_email.get('From', '')
-        to_addrs = parsed_email.get('To', '').split(',') if parsed_email.get('To') else []
-        cc_addrs = parsed_email.get('Cc', '').split(',') if parsed_email.get('Cc') else []
-        bcc_addrs = parsed_email.get('Bcc', '').split(',') if parsed_email.get('Bcc') else []
-        date_header = parsed_email.get('Date', '')
-        
-        # Clean up addresses
-        to_addrs = [addr.strip() for addr in to_addrs if addr.strip()]
-        cc_addrs = [addr.strip() for addr in cc_addrs if addr.strip()]
-        bcc_addrs = [addr.strip() for addr in bcc_addrs if addr.strip()]
-        
-        # Extract body content
-        body = ""
-        if parsed_email.is_multipart():
-            for part in parsed_email.walk():
-                if part.get_content_type() == "text/plain":
-                    body = part.get_payload(decode=True).decode('utf-8', errors='replace')
-                    break
-                elif part.get_content_type() == "text/html" and not body:
-                    body = part.get_payload(decode=True).decode('utf-8', errors='replace')
-        else:
-            body = parsed_email.get_payload(decode=True).decode('utf-8', errors='replace')
-        
-        # Extract thread headers
-        headers = {
-            'in-reply-to': parsed_email.get('In-Reply-To'),
-            'references': parsed_email.get('References'),
-            'message-id': parsed_email.get('Message-ID')
-        }
-        
-        return {
-            'subject': subject,
-            'from': from_addr,
-            'to': to_addrs,
-            'cc': cc_addrs,
-            'bcc': bcc_addrs,
-            'body': body,
-            'date': date_header,
-            'headers': headers
-        }
-    except Exception as e:
-        print(f"Error parsing email: {e}")
-        return None
+def sign_payload(timestamp, body):
+    """HMAC-SHA256 of '<timestamp>.<body>', as verified by the backend"""
+    digest = hmac.new(WEBHOOK_SECRET.encode('utf-8'), f"{timestamp}.".encode('utf-8') + body, hashlib.sha256)
+    return f"sha256={digest.hexdigest()}"
+
+def send_to_backend(raw_email, message_id):
+    """Send the raw MIME message (attachments included) to the backend webhook"""
+    if not WEBHOOK_SECRET:
+        print("WEBHOOK_SECRET is not set, not sending email to backend")
+        return False
 
-def send_to_backend(email_data, message_id):
-    """Send parsed email data to backend webhook"""
     try:
-        payload = {
-            'messageId': message_id,
-            'subject': email_data['subject'],
-            'from': email_data['from'],
-            'to': email_data['to'],
-            'cc': email_data['cc'],
-            'bcc': email_data['bcc'],
-            'body': email_data['body'],
-            'date': email_data['date'],
-            'headers': email_data['headers']
-        }
-        
         webhook_url = f"{BACKEND_URL}/api/inbound/email"
+        timestamp = str(int(time.time()))
         
         response = http.request(
             'POST',
             webhook_url,
-            body=json.dumps(payload).encode('utf-8'),
+            body=raw_email,
             headers={
-                'Content-Type': 'application/json',
-                'X-Auth-Token': WEBHOOK_SECRET
+                'Content-Type': 'message/rfc822',
+                'X-Webhook-Timestamp': timestamp,
+                'X-Webhook-Signature': sign_payload(timestamp, raw_email)
             },
             timeout=30
         )
@@ -353,17 +302,12 @@ def handler(event, context):
     try:
         s3_key = f"{PREFIX}{message_id}"
         obj = s3_client.get_object(Bucket=BUCKET, Key=s3_key)
-        raw_email = obj['Body'].read().decode('utf-8', errors='replace')
+        raw_email = obj['Body'].read()
         print(f"Fetched email from s3://{BUCKET}/{s3_key}, size={len(raw_email)} bytes")
         
-        # Parse email content
-        email_data = parse_email_content(raw_email)
-        if email_data:
-            # Send to backend for processing
-            backend_success = send_to_backend(email_data, message_id)
-            print(f"Backend webhook: {'Success' if backend_success else 'Failed'}")
-        else:
-            print("Failed to parse email content")
+        # The backend parses the MIME message itself so attachments are kept
+        backend_success = send_to_backend(raw_email, message_id)
+        print(f"Backend webhook: {'Success' if backend_success else 'Failed'}")
             
     except Exception as e:
         print(f"Failed to fetch/process email from S3: {e}")
@@ -5,11 +5,13 @@ import {
   timestamp,
   jsonb,
   index,
+  uniqueIndex,
   serial,
   boolean,
   integer,
   unique,
   check,
+  customType,
 } from "drizzle-orm/pg-core";
 import { sql, type InferSelectModel, type InferInsertModel } from "drizzle-orm";
 import { relations } from "drizzle-orm";
@@ -17,6 +19,27 @@ import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 import { decimal } from "drizzle-orm/pg-core";
 
+// Postgres full-text search document; only used for generated columns kept up to date by the database
+const tsvector = customType<{ data: string }>({
+  dataType() {
+    return "tsvector";
+  },
+});
+
+/**
+ * Weighted English search document: the title ranks above the body
+ */
+// Email bodies are unbounded; only their start is indexed so the tsvector stays under Postgres's 1 MB limit
+const SEARCH_BODY_LENGTH = 100000;
+
+function searchDocument(titleColumn: string, bodyColumn: string, maxBodyLength?: number) {
+  const body = maxBodyLength ? `left(${bodyColumn}, ${maxBodyLength})` : bodyColumn;
+  return sql.raw(
+    `setweight(to_tsvector('english', coalesce(${titleColumn}, '')), 'A') || ` +
+    `setweight(to_tsvector('english', coalesce(${body}, '')), 'B')`
+  );
+}
+
 // Session storage table for authentication
 export const sessions = pgTable(
   "sessions",
@@ -45,12 +68,19 @@ export const users = pgTable("users", {
 export const userLinkedAccounts = pgTable("user_linked_accounts", {
   id: serial("id").primaryKey(),
   userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
-  provider: varchar("provider").notNull(), // 'google' or 'email'
-  providerAccountId: varchar("provider_account_id"), // Google ID or null for email
+  provider: varchar("provider").notNull(), // 'google', 'email', or a mailbox provider ('gmail', 'outlook')
+  providerAccountId: varchar("provider_account_id"), // Google ID, mailbox address, or null for email
   email: varchar("email"), // Email for this auth method
   isActive: boolean("is_active").default(true),
   linkedAt: timestamp("linked_at").defaultNow(),
   lastUsed: timestamp("last_used").defaultNow(),
+  // OAuth2 grant of linked mailboxes, tokens encrypted at rest
+  accessToken: text("access_token"),
+  refreshToken: text("refresh_token"),
+  tokenExpiresAt: timestamp("token_expires_at"),
+  scope: text("scope"),
+  needsReauth: boolean("needs_reauth").default(false), // Set when the grant was revoked or expired
+  authError: text("auth_error"),
 }, (table) => ({
   // Unique constraint to prevent duplicate provider accounts for same user
   uniqueUserProvider: unique("unique_user_provider").on(table.userId, table.provider, table.providerAccountId),
@@ -126,9 +156,19 @@ export const tasks = pgTable("tasks", {
   sourceEmailSubject: varchar("source_email_subject"),
   createdBy: varchar("created_by").notNull().references(() => users.id),
 
+  // Recurrence: every occurrence carries the rule; the series is keyed by its first task
+  recurrenceRule: jsonb("recurrence_rule").$type<TaskRecurrenceRule>(),
+  recurrenceSeriesId: integer("recurrence_series_id"), // First task of the series, null on the first task itself
+  recurrenceIndex: integer("recurrence_index"), // 1-based occurrence number within the series
+  recurrenceProcessedAt: timestamp("recurrence_processed_at"), // Set once the next occurrence exists or the series ended
+
+  // Document the task was extracted from (Analyzer action items)
+  sourceAttachmentId: integer("source_attachment_id").references(() => emailAttachments.id, { onDelete: "set null" }),
+
   // Legacy: companyId (deprecated - identity is inherited from project)
   companyId: integer("company_id").references(() => companies.id), // null for individual tasks
 
+  searchVector: tsvector("search_vector").generatedAlwaysAs(searchDocument('"title"', '"description"')),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 }, (table) => ({
@@ -136,6 +176,10 @@ export const tasks = pgTable("tasks", {
   createdByIdx: index("idx_tasks_created_by").on(table.createdBy),
   statusIdx: index("idx_tasks_status").on(table.status),
   companyIdx: index("idx_tasks_company").on(table.companyId), // Legacy index
+  recurrenceSeriesIdx: index("idx_tasks_recurrence_series").on(table.recurrenceSeriesId),
+  sourceAttachmentIdx: index("idx_tasks_source_attachment").on(table.sourceAttachmentId),
+  dueDateIdx: index("idx_tasks_due_date").on(table.dueDate),
+  searchIdx: index("idx_tasks_search").using("gin", table.searchVector),
 }));
 
 // Task assignees (many-to-many relationship between tasks and users)
@@ -146,6 +190,46 @@ export const taskAssignees = pgTable("task_assignees", {
   assignedAt: timestamp("assigned_at").defaultNow(),
 });
 
+// Task dependencies: taskId cannot start until dependsOnTaskId is completed
+export const taskDependencies = pgTable("task_dependencies", {
+  id: serial("id").primaryKey(),
+  taskId: integer("task_id").notNull().references(() => tasks.id, { onDelete: 'cascade' }),
+  dependsOnTaskId: integer("depends_on_task_id").notNull().references(() => tasks.id, { onDelete: 'cascade' }),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  uniqueDependency: unique("unique_task_dependency").on(table.taskId, table.dependsOnTaskId),
+  dependsOnIdx: index("idx_task_dependencies_depends_on").on(table.dependsOnTaskId),
+}));
+
+// Per-task activity log: comments and tracked changes, from the board or from email replies
+export const taskActivities = pgTable("task_activities", {
+  id: serial("id").primaryKey(),
+  taskId: integer("task_id").notNull().references(() => tasks.id, { onDelete: "cascade" }),
+  userId: varchar("user_id").references(() => users.id, { onDelete: "set null" }), // Null for automatic changes
+  type: varchar("type").notNull(), // 'comment', 'status_change', 'assignee_added', 'assignee_removed', 'due_date_change'
+  source: varchar("source").notNull().default('web'), // 'web', 'email', 'system'
+  body: text("body"), // Comment text, or the email text that caused a change
+  fromValue: varchar("from_value"),
+  toValue: varchar("to_value"),
+  emailMessageId: varchar("email_message_id"), // Reply the entry came from
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  taskIdx: index("idx_task_activities_task").on(table.taskId, table.createdAt),
+}));
+
+// Due-date reminders already sent, one row per task, assignee, offset and due date so each fires once.
+// Moving the due date re-arms the reminders.
+export const taskDueReminders = pgTable("task_due_reminders", {
+  id: serial("id").primaryKey(),
+  taskId: integer("task_id").notNull().references(() => tasks.id, { onDelete: "cascade" }),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  offsetKey: varchar("offset_key").notNull(), // e.g. '24h', '1h', 'overdue'
+  dueDate: timestamp("due_date").notNull(),
+  sentAt: timestamp("sent_at").defaultNow().notNull(),
+}, (table) => ({
+  uniqueReminder: unique("unique_task_due_reminder").on(table.taskId, table.userId, table.offsetKey, table.dueDate),
+}));
+
 // Processed emails
 export const processedEmails = pgTable("processed_emails", {
   id: serial("id").primaryKey(),
@@ -160,8 +244,11 @@ export const processedEmails = pgTable("processed_emails", {
   tasksCreated: integer("tasks_created").default(0),
   projectId: integer("project_id").references(() => projects.id),
   processingError: text("processing_error"),
+  searchVector: tsvector("search_vector").generatedAlwaysAs(searchDocument('"subject"', '"body"', SEARCH_BODY_LENGTH)),
   createdAt: timestamp("created_at").defaultNow(),
-});
+}, (table) => ({
+  searchIdx: index("idx_processed_emails_search").using("gin", table.searchVector),
+}));
 
 // Email opt-out table for users who don't want to receive emails
 export const emailOptOuts = pgTable("email_opt_outs", {
@@ -171,6 +258,53 @@ export const emailOptOuts = pgTable("email_opt_outs", {
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
+// Durable jobs for the email processing queues (EmailQueueService and BatchProcessingQueue)
+export const emailQueueJobs = pgTable("email_queue_jobs", {
+  id: serial("id").primaryKey(),
+  queue: varchar("queue").notNull(), // 'email', 't5t_batch'
+  groupKey: varchar("group_key"), // Batches jobs together, e.g. the organization for T5T batches
+  payload: jsonb("payload").notNull(), // Everything the handler needs to run the job again
+  userId: varchar("user_id"),
+  messageId: varchar("message_id"),
+  subject: varchar("subject"),
+  sender: varchar("sender"),
+  priority: integer("priority").notNull().default(0), // Higher runs first
+  status: varchar("status").notNull().default('queued'), // 'queued', 'processing', 'completed', 'dead_letter'
+  attempts: integer("attempts").notNull().default(0),
+  maxAttempts: integer("max_attempts").notNull().default(3),
+  runAt: timestamp("run_at").notNull().defaultNow(), // Not visible to workers before this time (backoff)
+  lockedBy: varchar("locked_by"), // Worker holding the job
+  lockedUntil: timestamp("locked_until"), // Visibility timeout; other workers may reclaim the job after this
+  lastError: text("last_error"),
+  completedAt: timestamp("completed_at"),
+  deadLetteredAt: timestamp("dead_lettered_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => ({
+  claimIdx: index("idx_email_queue_jobs_claim").on(table.queue, table.status, table.runAt),
+  groupIdx: index("idx_email_queue_jobs_group").on(table.queue, table.groupKey, table.status),
+  messageIdx: index("idx_email_queue_jobs_message").on(table.messageId),
+  statusCheck: check("email_queue_jobs_status_check", sql`status IN ('queued', 'processing', 'completed', 'dead_letter')`),
+}));
+
+// Auto-router decisions for mail sent to the load balancer address
+export const agentRoutingDecisions = pgTable("agent_routing_decisions", {
+  id: serial("id").primaryKey(),
+  processedEmailId: integer("processed_email_id").references(() => processedEmails.id, { onDelete: 'cascade' }),
+  messageId: varchar("message_id").notNull(),
+  sender: varchar("sender").notNull(),
+  subject: varchar("subject"),
+  selectedAgent: varchar("selected_agent"), // 'todo', 'polly', 'analyzer', 'faq', 't5t'; null when the sender was asked to choose
+  confidence: integer("confidence").notNull().default(0), // Router confidence score 0-100
+  outcome: varchar("outcome").notNull(), // 'dispatched', 'clarification_requested'
+  reason: text("reason"),
+  scores: jsonb("scores").$type<AgentRoutingScore[]>().default([]), // Every candidate's score, best first
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  messageIdx: index("idx_agent_routing_decisions_message").on(table.messageId),
+  agentIdx: index("idx_agent_routing_decisions_agent").on(table.selectedAgent, table.createdAt),
+}));
+
 // Relations
 export const usersRelations = relations(users, ({ one, many }) => ({
   emailCredentials: many(emailCredentials),
@@ -249,6 +383,8 @@ export const notificationPreferences = pgTable("notification_preferences", {
   taskAssignments: boolean("task_assignments").default(true),
   taskDueReminders: boolean("task_due_reminders").default(true),
   weeklyDigest: boolean("weekly_digest").default(false),
+  timezone: varchar("timezone").default("UTC"), // IANA zone the weekly digest is scheduled in
+  weeklyDigestLastSentAt: timestamp("weekly_digest_last_sent_at"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 }, (table) => ({
@@ -313,6 +449,7 @@ export const t5tSubmissions = pgTable("t5t_submissions", {
   processedAt: timestamp("processed_at"),
   processingStatus: varchar("processing_status").notNull().default('pending'), // 'pending', 'processed', 'failed'
   processingError: text("processing_error"),
+  searchVector: tsvector("search_vector").generatedAlwaysAs(searchDocument('"subject"', '"raw_content"', SEARCH_BODY_LENGTH)),
   createdAt: timestamp("created_at").defaultNow(),
 }, (table) => ({
   messageIdIdx: index("idx_t5t_message_id").on(table.messageId),
@@ -322,6 +459,7 @@ export const t5tSubmissions = pgTable("t5t_submissions", {
   weekIdx: index("idx_t5t_week").on(table.weekNumber, table.yearNumber),
   sentimentIdx: index("idx_t5t_sentiment").on(table.sentiment),
   processingStatusIdx: index("idx_t5t_processing_status").on(table.processingStatus),
+  searchIdx: index("idx_t5t_search").using("gin", table.searchVector),
 }));
 
 // Polling Insights - AI-generated insights from submissions
@@ -406,12 +544,15 @@ export const emailAttachments = pgTable("email_attachments", {
   size: integer("size").notNull(),
   s3Key: varchar("s3_key"), // S3 storage key if using S3
   localPath: varchar("local_path"), // Local file path if stored locally
-  content: text("content"), // Base64 encoded attachment content
+  content: text("content"), // Base64 encoded attachment content (rows not yet moved to the blob store)
+  fileHash: varchar("file_hash"), // SHA-256 of the content; blobs are stored once per hash
   emailMessageId: varchar("email_message_id"), // Link to source email
   analysis: jsonb("analysis"), // AI analysis results
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
-});
+}, (table) => ({
+  fileHashIdx: index("idx_email_attachments_file_hash").on(table.fileHash),
+}));
 
 // Document Analysis Results - Standalone document analysis (not tied to projects)
 export const documentAnalysisResults = pgTable("document_analysis_results", {
@@ -437,6 +578,7 @@ export const documentAnalysisResults = pgTable("document_analysis_results", {
   category: varchar("category"), // Document category (financial, legal, etc.)
   confidence: integer("confidence"), // AI confidence score 0-100
   extractedText: text("extracted_text"), // Full text extraction for search
+  searchVector: tsvector("search_vector").generatedAlwaysAs(searchDocument('"filename"', '"extracted_text"')),
   virusScanPassed: boolean("virus_scan_passed").default(true),
   processedAt: timestamp("processed_at").notNull(),
   createdAt: timestamp("created_at").defaultNow(),
@@ -446,12 +588,33 @@ export const documentAnalysisResults = pgTable("document_analysis_results", {
   messageIdx: index("idx_document_analysis_message").on(table.messageId),
   categoryIdx: index("idx_document_analysis_category").on(table.category),
   processedAtIdx: index("idx_document_analysis_processed_at").on(table.processedAt),
+  searchIdx: index("idx_document_analysis_search").using("gin", table.searchVector),
 }));
 
 export const documentAnalysisResultsRelations = relations(documentAnalysisResults, ({ one }) => ({
   user: one(users, { fields: [documentAnalysisResults.userId], references: [users.id] }),
 }));
 
+// Quarantined Attachments - Files the malware scanner flagged, held back from analysis
+export const quarantinedAttachments = pgTable("quarantined_attachments", {
+  id: serial("id").primaryKey(),
+  messageId: varchar("message_id").notNull(), // Email message ID or web upload ID
+  sender: varchar("sender").notNull(), // Email sender or uploading user
+  source: varchar("source").notNull(), // email, web_upload
+  filename: varchar("filename").notNull(),
+  contentType: varchar("content_type"),
+  size: integer("size").notNull(),
+  fileHash: varchar("file_hash").notNull(), // SHA-256 of the content
+  threat: varchar("threat").notNull(), // Signature name reported by the scanner
+  scanner: varchar("scanner").notNull(), // Provider that flagged the file
+  content: text("content"), // Base64 encoded file content, kept for review
+  notifiedAt: timestamp("notified_at"), // When the sender was told
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  messageIdx: index("idx_quarantined_attachments_message").on(table.messageId),
+  hashIdx: index("idx_quarantined_attachments_hash").on(table.fileHash),
+}));
+
 // FAQ System Tables
 
 // FAQ Organizations
@@ -611,6 +774,48 @@ export const faqEntries = pgTable("faq_entries", {
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Retrieval index over an organization's SOP documents and FAQ entries, one row per chunk
+export const faqKnowledgeChunks = pgTable("faq_knowledge_chunks", {
+  id: serial("id").primaryKey(),
+  organizationId: integer("organization_id").notNull().references(() => faqOrganizations.id, { onDelete: 'cascade' }),
+  sourceType: varchar("source_type").notNull(), // 'sop_document', 'faq_entry'
+  sourceId: integer("source_id").notNull(),
+  sourceTitle: varchar("source_title").notNull(),
+  section: varchar("section"), // Heading the chunk falls under, e.g. "Approval steps"
+  chunkIndex: integer("chunk_index").notNull().default(0),
+  content: text("content").notNull(),
+  termFrequencies: jsonb("term_frequencies").$type<Record<string, number>>().notNull().default({}), // Normalized term -> count, for BM25
+  termCount: integer("term_count").notNull().default(0),
+  sourceUpdatedAt: timestamp("source_updated_at"), // Source version the chunk was built from
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  organizationIdx: index("idx_faq_knowledge_chunks_org").on(table.organizationId),
+  sourceIdx: index("idx_faq_knowledge_chunks_source").on(table.organizationId, table.sourceType, table.sourceId),
+}));
+
+// Every question sent to an FAQ address. Low-confidence ones wait for the organization owner's
+// answer; only owner-approved answers are promoted into faq_entries.
+export const faqInquiries = pgTable("faq_inquiries", {
+  id: serial("id").primaryKey(),
+  organizationId: integer("organization_id").notNull().references(() => faqOrganizations.id, { onDelete: 'cascade' }),
+  askerEmail: varchar("asker_email").notNull(),
+  subject: varchar("subject"),
+  question: text("question").notNull(),
+  messageId: varchar("message_id"), // Asker's Message-ID, so the follow-up lands in the same thread
+  status: varchar("status").notNull().default("pending_review"), // 'answered', 'pending_review', 'approved', 'dismissed'
+  confidence: integer("confidence").notNull().default(0), // 0-100 share of the question covered by the cited sources
+  draftAnswer: text("draft_answer"), // Automatic answer, sent as-is when confident, shown to the reviewer otherwise
+  approvedAnswer: text("approved_answer"),
+  approvedBy: varchar("approved_by").references(() => users.id),
+  approvedAt: timestamp("approved_at"),
+  faqEntryId: integer("faq_entry_id").references(() => faqEntries.id, { onDelete: 'set null' }),
+  followUpSentAt: timestamp("follow_up_sent_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => ({
+  organizationStatusIdx: index("idx_faq_inquiries_org_status").on(table.organizationId, table.status),
+}));
+
 // Companies table - Platform-wide company registration
 export const companies = pgTable("companies", {
   id: serial("id").primaryKey(),
@@ -731,6 +936,41 @@ export const companyInvitations = pgTable("company_invitations", {
   uniqueCompanyEmail: unique("unique_company_invitation").on(table.companyId, table.inviteeEmail),
 }));
 
+// Claude API usage - One row per request, with the tokens and cost the API reported
+export const aiUsageEvents = pgTable("ai_usage_events", {
+  id: serial("id").primaryKey(),
+  model: varchar("model").notNull(),
+  agent: varchar("agent").notNull(), // todo, t5t, analyzer, polly, faq, copilot, intelligence
+  operation: varchar("operation").notNull(), // Service method that made the request
+  companyId: integer("company_id").references(() => companies.id, { onDelete: "set null" }),
+  userId: varchar("user_id").references(() => users.id, { onDelete: "set null" }),
+  inputTokens: integer("input_tokens").notNull().default(0),
+  outputTokens: integer("output_tokens").notNull().default(0),
+  cacheCreationTokens: integer("cache_creation_tokens").notNull().default(0),
+  cacheReadTokens: integer("cache_read_tokens").notNull().default(0),
+  latencyMs: integer("latency_ms").notNull(),
+  costUsd: decimal("cost_usd", { precision: 12, scale: 6 }).notNull().default("0"),
+  success: boolean("success").notNull().default(true),
+  error: text("error"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  companyCreatedIdx: index("idx_ai_usage_events_company_created").on(table.companyId, table.createdAt),
+  createdIdx: index("idx_ai_usage_events_created").on(table.createdAt),
+}));
+
+// Company AI budgets - Monthly spending limits on Claude usage
+export const companyAiBudgets = pgTable("company_ai_budgets", {
+  id: serial("id").primaryKey(),
+  companyId: integer("company_id").notNull().unique().references(() => companies.id, { onDelete: "cascade" }),
+  softLimitUsd: decimal("soft_limit_usd", { precision: 10, scale: 2 }), // Admins are warned once a month past this
+  hardLimitUsd: decimal("hard_limit_usd", { precision: 10, scale: 2 }), // Requests are refused past this
+  softLimitNotifiedAt: timestamp("soft_limit_notified_at"),
+  hardLimitNotifiedAt: timestamp("hard_limit_notified_at"),
+  updatedBy: varchar("updated_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
 // Company departments - Normalized department structure
 export const companyDepartments = pgTable("company_departments", {
   id: serial("id").primaryKey(),
@@ -778,11 +1018,55 @@ export const pollingAgentParticipants = pgTable("polling_agent_participants", {
   uniqueAgentUser: unique("unique_agent_user").on(table.pollingAgentId, table.userId),
 }));
 
+// Polls - Questions extracted by Polly from emails sent to polly@
+export const polls = pgTable("polls", {
+  id: serial("id").primaryKey(),
+  title: text("title").notNull(), // The poll question
+  description: text("description"),
+  type: varchar("type").notNull().default('single_choice'), // 'single_choice', 'multiple_choice'
+  options: jsonb("options").notNull().default([]), // [{ id, text, order }]
+  createdBy: varchar("created_by").notNull().references(() => users.id),
+  projectId: integer("project_id").references(() => projects.id),
+  participantEmails: text("participant_emails").array().default([]), // Recipients invited to vote
+  isAnonymous: boolean("is_anonymous").default(false),
+  allowMultipleVotes: boolean("allow_multiple_votes").default(false), // Allow a voter to cast more than one ballot
+  status: varchar("status").notNull().default('active'), // 'active', 'closed'
+  expiresAt: timestamp("expires_at"),
+  closedAt: timestamp("closed_at"),
+  emailMessageId: varchar("email_message_id"), // Message ID of the email that created the poll
+  sourceEmailSubject: varchar("source_email_subject"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+}, (table) => ({
+  createdByIdx: index("idx_polls_created_by").on(table.createdBy),
+  projectIdx: index("idx_polls_project").on(table.projectId),
+  statusIdx: index("idx_polls_status").on(table.status),
+  messageIdx: index("idx_polls_message").on(table.emailMessageId),
+  typeCheck: check("polls_type_check", sql`type IN ('single_choice', 'multiple_choice')`),
+}));
+
+// Poll votes - One ballot per row; a voter may have several only when allowMultipleVotes is set
+export const pollVotes = pgTable("poll_votes", {
+  id: serial("id").primaryKey(),
+  pollId: integer("poll_id").notNull().references(() => polls.id, { onDelete: "cascade" }),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  selectedOptions: text("selected_options").array().notNull(), // Option ids from polls.options
+  comment: text("comment"),
+  multipleAllowed: boolean("multiple_allowed").notNull().default(false), // polls.allowMultipleVotes when cast
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => ({
+  pollIdx: index("idx_poll_votes_poll").on(table.pollId),
+  // One ballot per voter, except in polls that allow several
+  pollUserIdx: uniqueIndex("idx_poll_votes_poll_user").on(table.pollId, table.userId).where(sql`NOT ${table.multipleAllowed}`),
+}));
+
 // Zod schemas
 export const insertUserSchema = createInsertSchema(users);
 export const insertProjectSchema = createInsertSchema(projects);
 export const insertTaskSchema = createInsertSchema(tasks);
 export const insertTaskAssigneeSchema = createInsertSchema(taskAssignees);
+export const insertTaskDependencySchema = createInsertSchema(taskDependencies);
+export const insertTaskActivitySchema = createInsertSchema(taskActivities);
 export const insertEmailCredentialsSchema = createInsertSchema(emailCredentials);
 export const insertProcessedEmailSchema = createInsertSchema(processedEmails);
 export const insertUserTrustRelationshipSchema = createInsertSchema(userTrustRelationships);
@@ -793,7 +1077,13 @@ export const insertPollingInsightSchema = createInsertSchema(pollingInsights);
 export const insertUserDepartmentSchema = createInsertSchema(userDepartments);
 export const insertPollingAgentParticipantSchema = createInsertSchema(pollingAgentParticipants);
 export const insertEmailOptOutSchema = createInsertSchema(emailOptOuts);
+export const insertEmailQueueJobSchema = createInsertSchema(emailQueueJobs);
+export const insertAgentRoutingDecisionSchema = createInsertSchema(agentRoutingDecisions);
+export const insertFAQKnowledgeChunkSchema = createInsertSchema(faqKnowledgeChunks);
+export const insertFAQInquirySchema = createInsertSchema(faqInquiries);
 export const insertDocumentAnalysisResultSchema = createInsertSchema(documentAnalysisResults);
+export const insertPollSchema = createInsertSchema(polls);
+export const insertPollVoteSchema = createInsertSchema(pollVotes);
 
 // New company system schemas
 export const insertCompanySchema = createInsertSchema(companies);
@@ -833,13 +1123,16 @@ export type DrizzleUpsertUser = typeof users.$inferInsert;
 
 export type Project = typeof projects.$inferSelect;
 export type InsertProject = typeof projects.$inferInsert;
-export type Task = typeof tasks.$inferSelect;
+// Row types leave out the generated searchVector columns, which only the database reads
+export type Task = Omit<typeof tasks.$inferSelect, 'searchVector'>;
 export type InsertTask = typeof tasks.$inferInsert;
 export type TaskAssignee = typeof taskAssignees.$inferSelect;
 export type InsertTaskAssignee = typeof taskAssignees.$inferInsert;
+export type TaskDependency = typeof taskDependencies.$inferSelect;
+export type InsertTaskDependency = typeof taskDependencies.$inferInsert;
 export type EmailCredentials = typeof emailCredentials.$inferSelect;
 export type InsertEmailCredentials = typeof emailCredentials.$inferInsert;
-export type ProcessedEmail = typeof processedEmails.$inferSelect;
+export type ProcessedEmail = Omit<typeof processedEmails.$inferSelect, 'searchVector'>;
 export type InsertProcessedEmail = typeof processedEmails.$inferInsert;
 export type ProjectParticipant = typeof projectParticipants.$inferSelect;
 export type InsertProjectParticipant = typeof projectParticipants.$inferInsert;
@@ -865,7 +1158,7 @@ export type InsertPollingAgent = {
   createdBy: string;
   settings?: any; // JSONB field
 };
-export type T5tSubmission = typeof t5tSubmissions.$inferSelect;
+export type T5tSubmission = Omit<typeof t5tSubmissions.$inferSelect, 'searchVector'>;
 
 // Explicit type definition to work around Drizzle inference issues
 export type InsertT5tSubmission = {
@@ -896,14 +1189,196 @@ export type PollingAgentParticipant = typeof pollingAgentParticipants.$inferSele
 export type InsertPollingAgentParticipant = typeof pollingAgentParticipants.$inferInsert;
 export type EmailOptOut = typeof emailOptOuts.$inferSelect;
 export type InsertEmailOptOut = typeof emailOptOuts.$inferInsert;
-export type DocumentAnalysisResult = typeof documentAnalysisResults.$inferSelect;
+export type EmailQueueJob = typeof emailQueueJobs.$inferSelect;
+export type InsertEmailQueueJob = typeof emailQueueJobs.$inferInsert;
+export type EmailQueueJobStatus = 'queued' | 'processing' | 'completed' | 'dead_letter';
+export type FAQKnowledgeChunk = typeof faqKnowledgeChunks.$inferSelect;
+export type InsertFAQKnowledgeChunk = typeof faqKnowledgeChunks.$inferInsert;
+export type FAQKnowledgeSourceType = 'sop_document' | 'faq_entry';
+export type FAQInquiry = typeof faqInquiries.$inferSelect;
+export type InsertFAQInquiry = typeof faqInquiries.$inferInsert;
+export type FAQInquiryStatus = 'answered' | 'pending_review' | 'approved' | 'dismissed';
+export type AgentRoutingDecision = typeof agentRoutingDecisions.$inferSelect;
+export type InsertAgentRoutingDecision = typeof agentRoutingDecisions.$inferInsert;
+
+export type TaskActivity = typeof taskActivities.$inferSelect;
+export type InsertTaskActivity = typeof taskActivities.$inferInsert;
+export type TaskActivityType = 'comment' | 'status_change' | 'assignee_added' | 'assignee_removed' | 'due_date_change';
+export type TaskActivityWithUser = TaskActivity & {
+  user: Pick<User, 'id' | 'email' | 'firstName' | 'lastName' | 'profileImageUrl'> | null;
+};
+
+export type TaskDueReminder = typeof taskDueReminders.$inferSelect;
+export type InsertTaskDueReminder = typeof taskDueReminders.$inferInsert;
+// Open task with a due date, paired with one of its assignees
+export type TaskDueReminderCandidate = {
+  task: Task;
+  projectName: string;
+  assignee: User;
+};
+
+export type TaskRecurrenceFrequency = 'daily' | 'weekly' | 'monthly';
+
+// RRULE-like schedule for a recurring task
+export type TaskRecurrenceRule = {
+  frequency: TaskRecurrenceFrequency;
+  interval: number; // Every N days/weeks/months
+  byWeekday?: number[]; // Weekly only: 0 = Sunday ... 6 = Saturday
+  byMonthDay?: number; // Monthly only: day of the month, clamped to the month's length
+  until?: string; // ISO date of the last allowed occurrence
+  count?: number; // Total occurrences in the series
+};
+
+export type SpreadsheetColumnType = 'number' | 'date' | 'boolean' | 'text' | 'empty';
+
+// Column-level statistics computed from a parsed spreadsheet attachment
+export type SpreadsheetColumnProfile = {
+  name: string;
+  type: SpreadsheetColumnType;
+  nullCount: number;
+  distinctCount: number;
+  min?: number | string; // Numbers, or ISO dates for date columns
+  max?: number | string;
+  mean?: number;
+  outliers?: number[]; // Values outside 1.5 IQR, numeric columns only
+  topValues?: Array<{ value: string; count: number }>; // Text columns only
+};
+
+export type SpreadsheetSheetProfile = {
+  name: string;
+  rowCount: number; // Data rows, excluding the header
+  columns: SpreadsheetColumnProfile[];
+  sampleRows: string[][];
+};
+
+export type SpreadsheetProfile = {
+  format: 'csv' | 'xlsx' | 'ods';
+  sheets: SpreadsheetSheetProfile[];
+  truncated: boolean; // Rows beyond the parse limit were not read
+};
+
+export type SearchSourceType = 'email' | 'task' | 'attachment' | 't5t';
+
+export type SearchFilters = {
+  sources?: SearchSourceType[];
+  agentType?: string;
+  from?: Date;
+  to?: Date;
+};
+
+export type SearchHit = {
+  sourceType: SearchSourceType;
+  id: number;
+  title: string;
+  snippet: string; // Matched terms wrapped in <mark></mark>; the rest is unescaped source text
+  agentType: string | null;
+  projectId: number | null;
+  date: string | null;
+  rank: number;
+};
+
+export type SearchFacetCount = {
+  value: string;
+  count: number;
+};
+
+export type SearchResults = {
+  query: string;
+  total: number; // Hits matching the filters
+  hits: SearchHit[];
+  facets: { // Counts over every match of the query, before filters
+    sourceType: SearchFacetCount[];
+    agentType: SearchFacetCount[];
+    month: SearchFacetCount[]; // YYYY-MM
+  };
+};
+
+export type DigestTask = {
+  id: number;
+  title: string;
+  projectId: number;
+  projectName: string;
+  priority: string;
+  status: string;
+  dueDate: Date | null;
+};
+
+export type DigestInsight = {
+  id: number;
+  title: string;
+  description: string | null;
+  agentName: string;
+  priority: string | null;
+  isAlert: boolean;
+  createdAt: Date | null;
+};
+
+export type DigestPoll = {
+  id: number;
+  title: string;
+  expiresAt: Date | null;
+  hasVoted: boolean;
+};
+
+export type DigestFaqActivity = {
+  organizationId: number;
+  organizationName: string;
+  newInquiries: number;
+  pendingReview: number; // Open now, whenever they were asked
+  newEntries: number;
+};
+
+// Everything the weekly digest reports for one user and period
+export type WeeklyDigestActivity = {
+  assignedTasks: DigestTask[];
+  completedTasks: DigestTask[];
+  overdueTasks: DigestTask[];
+  insights: DigestInsight[];
+  openPolls: DigestPoll[];
+  faqActivity: DigestFaqActivity[];
+};
+
+export type AgentRoutingScore = {
+  agentId: string;
+  score: number;
+  confidence: number; // 0-100
+  reasons: string[];
+};
+export type DocumentAnalysisResult = Omit<typeof documentAnalysisResults.$inferSelect, 'searchVector'>;
 export type InsertDocumentAnalysisResult = typeof documentAnalysisResults.$inferInsert;
+export type QuarantinedAttachment = typeof quarantinedAttachments.$inferSelect;
+export type InsertQuarantinedAttachment = typeof quarantinedAttachments.$inferInsert;
 export type PasswordResetToken = typeof passwordResetTokens.$inferSelect;
 export type InsertPasswordResetToken = typeof passwordResetTokens.$inferInsert;
 export type TrustConfirmationToken = typeof trustConfirmationTokens.$inferSelect;
 export type InsertTrustConfirmationToken = typeof trustConfirmationTokens.$inferInsert;
 export type UserLinkedAccount = typeof userLinkedAccounts.$inferSelect;
 export type InsertUserLinkedAccount = typeof userLinkedAccounts.$inferInsert;
+export type Poll = typeof polls.$inferSelect;
+export type InsertPoll = typeof polls.$inferInsert;
+export type PollVote = typeof pollVotes.$inferSelect;
+export type InsertPollVote = typeof pollVotes.$inferInsert;
+
+export type PollOption = {
+  id: string;
+  text: string;
+  order: number;
+};
+
+// Tally of a poll's ballots, shared by the API and the Polly page
+export type PollResults = {
+  pollId: number;
+  title: string;
+  type: string;
+  status: string;
+  isAnonymous: boolean;
+  expiresAt: Date | null;
+  totalVotes: number; // Ballots cast
+  uniqueVoters: number;
+  options: Array<PollOption & { votes: number; percentage: number }>;
+  leadingOptionIds: string[]; // More than one entry means a tie
+  voters?: Array<{ userId: string; selectedOptions: string[]; comment: string | null; votedAt: Date | null }>; // Omitted for anonymous polls
+};
 
 // Polling system relations
 export const pollingAgentsRelations = relations(pollingAgents, ({ one, many }) => ({
@@ -931,6 +1406,17 @@ export const pollingAgentParticipantsRelations = relations(pollingAgentParticipa
   user: one(users, { fields: [pollingAgentParticipants.userId], references: [users.id] }),
 }));
 
+export const pollsRelations = relations(polls, ({ one, many }) => ({
+  creator: one(users, { fields: [polls.createdBy], references: [users.id] }),
+  project: one(projects, { fields: [polls.projectId], references: [projects.id] }),
+  votes: many(pollVotes),
+}));
+
+export const pollVotesRelations = relations(pollVotes, ({ one }) => ({
+  poll: one(polls, { fields: [pollVotes.pollId], references: [polls.id] }),
+  user: one(users, { fields: [pollVotes.userId], references: [users.id] }),
+}));
+
 // Company system relations
 export const companiesRelations = relations(companies, ({ one, many }) => ({
   creator: one(users, { fields: [companies.createdBy], references: [users.id] }),
@@ -1004,6 +1490,10 @@ export type CompanyMembership = typeof companyMemberships.$inferSelect;
 export type InsertCompanyMembership = typeof companyMemberships.$inferInsert;
 export type CompanyInvitation = typeof companyInvitations.$inferSelect;
 export type InsertCompanyInvitation = typeof companyInvitations.$inferInsert;
+export type AiUsageEvent = typeof aiUsageEvents.$inferSelect;
+export type InsertAiUsageEvent = typeof aiUsageEvents.$inferInsert;
+export type CompanyAiBudget = typeof companyAiBudgets.$inferSelect;
+export type InsertCompanyAiBudget = typeof companyAiBudgets.$inferInsert;
 export type CompanyDepartment = typeof companyDepartments.$inferSelect;
 export type InsertCompanyDepartment = typeof companyDepartments.$inferInsert;
 export type CompanyHierarchy = typeof companyHierarchy.$inferSelect;